@@ -0,0 +1,91 @@
+"use server";
+
+import { getTourDetail } from "@/actions/get-tour-detail";
+import type { BookmarkSnapshot } from "@/lib/types/bookmark";
+import { toBookmarkSnapshot } from "@/lib/utils/bookmark-snapshot";
+import { normalizeTourLocale } from "@/lib/utils/locale";
+
+/**
+ * @file get-bookmark-snapshots.ts
+ * @description 북마크 관광지 스냅샷 조회 Server Action
+ *
+ * 북마크 행에 저장할 관광지 요약 정보(스냅샷)를 조회합니다.
+ * 관광지 상세 정보 조회(getTourDetail)를 그대로 사용하므로
+ * TOUR_MIRROR_ENABLED=true이면 Supabase 카탈로그 미러를 먼저 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 북마크 추가 시 스냅샷 조회 (1건)
+ * 2. 오래된 스냅샷 백그라운드 갱신 (최대 BOOKMARK_SNAPSHOT_BATCH_SIZE건)
+ * 3. 조회에 실패한 관광지는 null로 반환 (다음 갱신 때 다시 시도)
+ *
+ * @see {@link /lib/utils/bookmark-snapshot.ts} - 스냅샷 변환 유틸리티
+ */
+
+/** 한 번에 조회하는 최대 스냅샷 수 */
+const BOOKMARK_SNAPSHOT_BATCH_SIZE = 20;
+
+/** 동시에 호출하는 상세 정보 요청 수 */
+const BOOKMARK_SNAPSHOT_CONCURRENCY = 5;
+
+/**
+ * 스냅샷 조회 대상
+ */
+export interface BookmarkSnapshotTarget {
+  /** 콘텐츠ID */
+  contentId: string;
+  /** 콘텐츠 ID가 속한 로케일 (저장된 값이 없거나 잘못되면 "ko") */
+  locale?: string | null;
+}
+
+/**
+ * 관광지 1건의 스냅샷 조회 (실패 시 null)
+ */
+async function fetchSnapshot(
+  target: BookmarkSnapshotTarget,
+): Promise<BookmarkSnapshot | null> {
+  const locale = normalizeTourLocale(target.locale);
+  try {
+    const detail = await getTourDetail(target.contentId, locale);
+    if (!detail) {
+      console.warn(
+        `[BookmarkSnapshot] 관광지 상세 정보 없음: ${target.contentId}`,
+      );
+      return null;
+    }
+    return toBookmarkSnapshot(detail, locale);
+  } catch (error) {
+    console.error(
+      `[BookmarkSnapshot] 스냅샷 조회 실패: ${target.contentId}`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * 북마크 관광지 스냅샷 조회 Server Action
+ *
+ * @param targets - 조회 대상 목록 (BOOKMARK_SNAPSHOT_BATCH_SIZE건을 넘으면 앞부분만 조회)
+ * @returns 콘텐츠ID별 스냅샷 (조회 실패 시 null)
+ */
+export async function getBookmarkSnapshots(
+  targets: BookmarkSnapshotTarget[],
+): Promise<Record<string, BookmarkSnapshot | null>> {
+  const batch = targets.slice(0, BOOKMARK_SNAPSHOT_BATCH_SIZE);
+  console.log("[BookmarkSnapshot] 스냅샷 조회 시작:", batch.length);
+
+  const results: Record<string, BookmarkSnapshot | null> = {};
+  for (let i = 0; i < batch.length; i += BOOKMARK_SNAPSHOT_CONCURRENCY) {
+    const chunk = batch.slice(i, i + BOOKMARK_SNAPSHOT_CONCURRENCY);
+    const snapshots = await Promise.all(chunk.map(fetchSnapshot));
+    chunk.forEach((target, index) => {
+      results[target.contentId] = snapshots[index];
+    });
+  }
+
+  console.log(
+    "[BookmarkSnapshot] 스냅샷 조회 완료:",
+    Object.values(results).filter(Boolean).length,
+  );
+  return results;
+}
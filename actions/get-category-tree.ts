@@ -0,0 +1,73 @@
+"use server";
+
+import { getCategoryCode } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+import type { CategoryNode } from "@/lib/types/tour";
+
+/**
+ * @file get-category-tree.ts
+ * @description 서비스 분류 트리 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(categoryCode2)를 단계별로 호출하여
+ * 대분류(cat1) → 중분류(cat2) → 소분류(cat3) 트리를 구성합니다.
+ * 각 단계의 응답은 getCategoryCode에서 하루 동안 캐싱되므로
+ * 트리를 다시 구성해도 API 한도를 소모하지 않습니다.
+ */
+
+/**
+ * 서비스 분류 트리 조회 Server Action
+ *
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 대분류 목록 (각 노드의 children에 하위 분류 포함, 조회 실패 시 빈 배열)
+ */
+export async function getCategoryTree(
+  locale?: TourLocale,
+): Promise<CategoryNode[]> {
+  const serviceLocale = normalizeTourLocale(locale);
+
+  try {
+    const cat1List = await getCategoryCode({ locale: serviceLocale });
+
+    return await Promise.all(
+      cat1List.map(async (cat1) => {
+        const cat2List = await getCategoryCode({
+          cat1: cat1.code,
+          locale: serviceLocale,
+        });
+
+        const children = await Promise.all(
+          cat2List.map(async (cat2) => {
+            const cat3List = await getCategoryCode({
+              cat1: cat1.code,
+              cat2: cat2.code,
+              locale: serviceLocale,
+            });
+            return {
+              code: cat2.code,
+              name: cat2.name,
+              children: cat3List.map((cat3) => ({
+                code: cat3.code,
+                name: cat3.name,
+                children: [],
+              })),
+            };
+          }),
+        );
+
+        return { code: cat1.code, name: cat1.name, children };
+      }),
+    );
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 그대로 전달하여 클라이언트가 안내 메시지를 표시
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+
+    // 분류 트리가 없어도 나머지 필터는 동작하므로 빈 배열을 반환
+    console.warn("[getCategoryTree] 분류 트리 조회 실패:", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -0,0 +1,71 @@
+"use server";
+
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import {
+  getCollectionInviteByToken,
+  getPendingInvitesForEmails,
+} from "@/lib/api/collection-share-api";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { CollectionInvitePreview } from "@/lib/types/collection";
+import { getVerifiedEmails } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file get-collection-invites.ts
+ * @description 컬렉션 초대 조회 Server Action
+ *
+ * 초대 테이블은 초대받은 사람이 아직 멤버가 아닐 때 조회해야 하므로
+ * 서버에서 Service Role로 조회하고 필요한 안내 정보만 반환합니다.
+ *
+ * 주요 기능:
+ * 1. 초대 링크 안내 조회 (컬렉션 이름, 초대한 사람, 역할)
+ * 2. 로그인한 사용자가 이메일로 받은 대기 중인 초대 목록
+ *
+ * @see {@link /lib/api/collection-share-api.ts} - 컬렉션 공유 API 함수들
+ */
+
+/**
+ * 초대 링크 안내 조회
+ *
+ * @param token - 초대 토큰
+ * @returns 초대 안내 정보 (없거나 만료/취소되었으면 null)
+ */
+export async function getCollectionInvitePreview(
+  token: string,
+): Promise<CollectionInvitePreview | null> {
+  try {
+    const result = await getCollectionInviteByToken(
+      getServiceRoleClient(),
+      token,
+    );
+    return result?.preview ?? null;
+  } catch (error) {
+    console.error("[CollectionInvites] 초대 안내 조회 실패:", error);
+    return null;
+  }
+}
+
+/**
+ * 로그인한 사용자가 이메일로 받은 대기 중인 초대 목록
+ *
+ * @returns 초대 안내 목록 (로그인하지 않았거나 조회에 실패하면 빈 배열)
+ */
+export async function getMyCollectionInvites(): Promise<
+  CollectionInvitePreview[]
+> {
+  const { userId } = await auth();
+  if (!userId) {
+    return [];
+  }
+
+  try {
+    const client = await clerkClient();
+    const clerkUser = await client.users.getUser(userId);
+    return await getPendingInvitesForEmails(
+      getServiceRoleClient(),
+      getVerifiedEmails(clerkUser.emailAddresses),
+    );
+  } catch (error) {
+    console.error("[CollectionInvites] 받은 초대 조회 실패:", error);
+    return [];
+  }
+}
@@ -0,0 +1,78 @@
+"use server";
+
+import { getLocationBasedList } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import type { TourItem } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+
+/**
+ * @file get-nearby-tours.ts
+ * @description 내 주변 관광지 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(locationBasedList2)를 호출하여
+ * 기준 좌표 반경 내의 관광지를 거리순으로 조회합니다.
+ * .env.local의 TOUR_API_KEY를 사용합니다.
+ */
+
+interface GetNearbyToursOptions {
+  /** 기준 위도 (WGS84) */
+  lat: number;
+  /** 기준 경도 (WGS84) */
+  lng: number;
+  /** 검색 반경 (미터) */
+  radius?: number;
+  contentTypeId?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale; // 콘텐츠 로케일 (기본값: "ko")
+}
+
+/**
+ * 내 주변 관광지 조회 Server Action
+ *
+ * @param options - 조회 옵션
+ * @returns 관광지 목록 (거리순, dist 필드 포함)
+ */
+export async function getNearbyTours(
+  options: GetNearbyToursOptions,
+): Promise<TourItem[]> {
+  try {
+    if (!Number.isFinite(options.lat) || !Number.isFinite(options.lng)) {
+      throw new Error("기준 좌표가 올바르지 않습니다.");
+    }
+
+    return await getLocationBasedList({
+      lat: options.lat,
+      lng: options.lng,
+      radius: options.radius,
+      contentTypeId: options.contentTypeId,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+      locale: normalizeTourLocale(options.locale),
+    });
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 빈 목록으로 대체하면 "결과 없음"으로 오인되므로 그대로 전달
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+    // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
+    if (error instanceof Error) {
+      console.error("[getNearbyTours] 에러 발생:", error.message, error);
+
+      if (error.message.includes("기준 좌표")) {
+        throw error;
+      }
+      if (error.message.includes("TOUR_API_KEY")) {
+        console.error(
+          "[getNearbyTours] API 키 미설정:",
+          "NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 .env.local에 설정해주세요.",
+        );
+        return [];
+      }
+    }
+
+    // 네트워크/API 에러도 빈 배열을 반환하여 앱이 크래시되지 않도록 처리
+    console.warn("[getNearbyTours] 주변 관광지 조회 실패:", error);
+    return [];
+  }
+}
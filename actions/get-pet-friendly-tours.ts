@@ -0,0 +1,87 @@
+"use server";
+
+import {
+  queryPetFriendlyTours,
+  type PetFriendlyTourQuery,
+} from "@/lib/api/pet-index";
+import { findPetFriendlyTours } from "@/lib/api/tour-api";
+import type { PetFriendlyTourPage } from "@/lib/types/tour-mirror";
+import { matchesPetFilter, parsePetInfo } from "@/lib/utils/pet-info-parser";
+
+/**
+ * @file get-pet-friendly-tours.ts
+ * @description 반려동물 동반 가능 관광지 조회 Server Action
+ *
+ * 백그라운드 작업이 미리 만들어 둔 반려동물 인덱스(Supabase tour_pet_index)에서
+ * 조건에 맞는 동반 가능 관광지를 한 번에 조회합니다. 페이지와 전체 개수를 함께 반환합니다.
+ * 미러가 비활성화되어 있거나 인덱스가 아직 만들어지지 않았으면
+ * 관광지 목록과 detailPetTour2를 직접 조회하는 방식으로 대체합니다.
+ *
+ * @see {@link /docs/prd.md#25-반려동물-동반-여행} - PRD 문서의 반려동물 동반 여행 섹션
+ * @see {@link /lib/api/pet-index.ts} - 반려동물 인덱스
+ */
+
+/**
+ * detailPetTour2 직접 조회로 동반 가능 관광지 페이지 구성 (인덱스를 사용할 수 없을 때)
+ *
+ * 조회한 범위 안에서만 찾으므로 전체 개수는 인덱스 조회보다 적을 수 있습니다.
+ */
+async function findPetFriendlyTourPage(
+  options: PetFriendlyTourQuery,
+): Promise<PetFriendlyTourPage> {
+  const numOfRows = options.numOfRows ?? 12;
+  const pageNo = options.pageNo ?? 1;
+  const from = (pageNo - 1) * numOfRows;
+
+  const results = await findPetFriendlyTours({
+    areaCode: options.areaCode,
+    sigunguCode: options.sigunguCode,
+    contentTypeId: options.contentTypeId,
+    cat1: options.cat1,
+    cat2: options.cat2,
+    cat3: options.cat3,
+    // 요청한 페이지까지는 채울 수 있도록 결과 수를 늘림
+    maxResults: Math.max(50, from + numOfRows),
+    minResults: Math.max(10, from + numOfRows),
+  });
+
+  // 크기/종류/장소는 구조화 결과로 필터 (인덱스 조회와 같은 기준)
+  const matched = results.filter(({ petInfo }) =>
+    matchesPetFilter(parsePetInfo(petInfo), {
+      petSize: options.petSize,
+      petType: options.petType,
+      petPlace: options.petPlace,
+    }),
+  );
+
+  console.log(
+    `[getPetFriendlyTours] API 조회로 대체: ${matched.length}건 (조회 ${results.length}건)`,
+  );
+
+  return {
+    items: matched.slice(from, from + numOfRows),
+    totalCount: matched.length,
+  };
+}
+
+/**
+ * 반려동물 동반 가능 관광지 조회 Server Action
+ *
+ * @param options - 조회 옵션 (지역/타입/분류/크기/장소, 페이지)
+ * @returns 현재 페이지 항목과 전체 개수
+ * @throws 인덱스 또는 API 조회 실패 시
+ */
+export async function getPetFriendlyTours(
+  options: PetFriendlyTourQuery = {},
+): Promise<PetFriendlyTourPage> {
+  try {
+    return (
+      (await queryPetFriendlyTours(options)) ??
+      (await findPetFriendlyTourPage(options))
+    );
+  } catch (error) {
+    // 조회 실패를 "결과 없음"으로 오인하지 않도록 그대로 전달 (React Query 재시도/에러 상태)
+    console.error("[getPetFriendlyTours] 에러 발생:", { error, options });
+    throw error;
+  }
+}
@@ -0,0 +1,78 @@
+"use server";
+
+import { getPetIndexEntries as queryPetIndexEntries } from "@/lib/api/pet-index";
+import { getDetailPetTour } from "@/lib/api/tour-api";
+import type { PetTourInfo } from "@/lib/types/tour";
+
+/**
+ * @file get-pet-index-entries.ts
+ * @description 관광지 목록의 반려동물 정보 일괄 조회 Server Action
+ *
+ * 검색/내 주변 결과처럼 인덱스 조회로 대체할 수 없는 목록에 반려동물 필터를 적용할 때,
+ * 관광지마다 detailPetTour2를 호출하지 않고 반려동물 인덱스에서 한 번에 조회합니다.
+ * 미러가 비활성화되어 있거나 인덱스에 아직 없는 관광지는 detailPetTour2로 대체 조회합니다.
+ *
+ * @see {@link /lib/api/pet-index.ts} - 반려동물 인덱스
+ */
+
+/** 한 번에 조회할 수 있는 최대 관광지 수 */
+const MAX_CONTENT_IDS = 200;
+
+/** 동시에 호출하는 반려동물 정보 요청 수 */
+const PET_INFO_API_CONCURRENCY = 5;
+
+/**
+ * 관광지 1건의 반려동물 정보 조회 (실패 시 null)
+ */
+async function fetchPetInfo(contentId: string): Promise<PetTourInfo | null> {
+  try {
+    return await getDetailPetTour(contentId);
+  } catch (error) {
+    console.error(
+      `[getPetIndexEntries] 반려동물 정보 조회 실패: ${contentId}`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * 관광지 목록의 반려동물 정보 일괄 조회 Server Action
+ *
+ * @param contentIds - 콘텐츠ID 목록 (최대 200개)
+ * @returns 반려동물 정보가 있는 관광지의 콘텐츠ID와 반려동물 정보
+ * @throws 인덱스 조회 실패 시
+ */
+export async function getPetIndexEntries(
+  contentIds: string[],
+): Promise<Array<{ contentId: string; petInfo: PetTourInfo }>> {
+  try {
+    const batch = contentIds.slice(0, MAX_CONTENT_IDS);
+    const entries =
+      (await queryPetIndexEntries(batch)) ??
+      new Map<string, PetTourInfo | null>();
+
+    // 인덱스에 없는 관광지는 API로 조회
+    const missing = batch.filter((contentId) => !entries.has(contentId));
+    for (let i = 0; i < missing.length; i += PET_INFO_API_CONCURRENCY) {
+      const chunk = missing.slice(i, i + PET_INFO_API_CONCURRENCY);
+      const results = await Promise.all(chunk.map(fetchPetInfo));
+      chunk.forEach((contentId, index) =>
+        entries.set(contentId, results[index]),
+      );
+    }
+
+    console.log("[getPetIndexEntries] 반려동물 정보 조회:", {
+      요청: batch.length,
+      API_조회: missing.length,
+    });
+
+    return [...entries].flatMap(([contentId, petInfo]) =>
+      petInfo ? [{ contentId, petInfo }] : [],
+    );
+  } catch (error) {
+    // 조회 실패를 "반려동물 정보 없음"으로 오인하지 않도록 그대로 전달
+    console.error("[getPetIndexEntries] 에러 발생:", error);
+    throw error;
+  }
+}
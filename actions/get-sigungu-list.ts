@@ -0,0 +1,48 @@
+"use server";
+
+import { getAreaCode } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+import type { AreaCodeItem } from "@/lib/types/tour";
+
+/**
+ * @file get-sigungu-list.ts
+ * @description 시군구 목록 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(areaCode2)를 호출하여
+ * 선택한 시/도의 시군구 목록을 조회합니다.
+ * 응답은 getAreaCode에서 하루 동안 캐싱되므로 반복 호출해도 API 한도를 소모하지 않습니다.
+ *
+ * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 지역 필터 섹션
+ */
+
+/**
+ * 시군구 목록 조회 Server Action
+ *
+ * @param areaCode - 지역코드 (시/도)
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 시군구 목록 (시/도가 없거나 조회 실패 시 빈 배열)
+ */
+export async function getSigunguList(
+  areaCode: string,
+  locale?: TourLocale,
+): Promise<AreaCodeItem[]> {
+  if (!areaCode || areaCode.trim() === "") {
+    return [];
+  }
+
+  try {
+    return await getAreaCode(areaCode, normalizeTourLocale(locale));
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 그대로 전달하여 클라이언트가 안내 메시지를 표시
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+
+    // 시군구 목록이 없어도 시/도 필터는 동작하므로 빈 배열을 반환
+    console.warn(`[getSigunguList] 시군구 목록 조회 실패: ${areaCode}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
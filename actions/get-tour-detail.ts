@@ -1,7 +1,10 @@
 "use server";
 
 import { getDetailCommon } from "@/lib/api/tour-api";
+import { TourApiError } from "@/lib/api/tour-api-errors";
+import { getMirrorTourDetail } from "@/lib/api/tour-mirror";
 import type { TourDetail } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
 
 /**
  * @file get-tour-detail.ts
@@ -9,6 +12,8 @@ import type { TourDetail } from "@/lib/types/tour";
  *
  * 서버 사이드에서 한국관광공사 API를 호출하여 관광지 상세 정보를 조회합니다.
  * .env.local의 TOUR_API_KEY를 사용합니다.
+ * TOUR_MIRROR_ENABLED=true이면 Supabase 카탈로그 미러를 먼저 조회하고,
+ * 상세 정보가 아직 동기화되지 않았으면 API로 대체합니다.
  *
  * @see {@link /docs/prd.md#24-상세페이지} - PRD 문서의 상세페이지 섹션
  */
@@ -17,18 +22,31 @@ import type { TourDetail } from "@/lib/types/tour";
  * 관광지 상세 정보 조회 Server Action
  *
  * @param contentId - 콘텐츠ID
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
  * @returns 관광지 상세 정보
  */
 export async function getTourDetail(
   contentId: string,
+  locale?: TourLocale,
 ): Promise<TourDetail | null> {
   try {
     if (!contentId || contentId.trim() === "") {
       throw new Error("관광지 ID가 필요합니다.");
     }
 
-    return await getDetailCommon(contentId);
+    const serviceLocale = normalizeTourLocale(locale);
+
+    const mirrored = await getMirrorTourDetail(contentId, serviceLocale);
+    if (mirrored) {
+      return mirrored;
+    }
+
+    return await getDetailCommon(contentId, serviceLocale);
   } catch (error) {
+    // Tour API 에러는 digest에 담긴 에러 코드로 클라이언트가 메시지를 표시하도록 그대로 전달
+    if (error instanceof TourApiError) {
+      throw error;
+    }
     // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
     if (error instanceof Error) {
       if (error.message.includes("TOUR_API_KEY")) {
@@ -1,6 +1,9 @@
 "use server";
 
 import { getDetailImage } from "@/lib/api/tour-api";
+import { TourApiError } from "@/lib/api/tour-api-errors";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+import type { TourImage } from "@/lib/types/tour";
 
 /**
  * @file get-tour-images.ts
@@ -12,38 +15,28 @@ import { getDetailImage } from "@/lib/api/tour-api";
  * @see {@link /docs/prd.md#243-이미지-갤러리} - PRD 문서의 이미지 갤러리 섹션
  */
 
-/**
- * 관광지 이미지 타입
- */
-export interface TourImage {
-  /** 콘텐츠ID */
-  contentid: string;
-  /** 이미지명 */
-  imagename: string;
-  /** 원본 이미지 URL */
-  originimgurl: string;
-  /** 시리얼 번호 */
-  serialnum: string;
-  /** 썸네일 이미지 URL */
-  smallimageurl: string;
-}
-
 /**
  * 관광지 이미지 목록 조회 Server Action
  *
  * @param contentId - 콘텐츠ID
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
  * @returns 이미지 목록
  */
 export async function getTourImages(
   contentId: string,
+  locale?: TourLocale,
 ): Promise<TourImage[]> {
   try {
     if (!contentId || contentId.trim() === "") {
       throw new Error("관광지 ID가 필요합니다.");
     }
 
-    return await getDetailImage(contentId);
+    return await getDetailImage(contentId, normalizeTourLocale(locale));
   } catch (error) {
+    // Tour API 에러는 digest에 담긴 에러 코드로 클라이언트가 메시지를 표시하도록 그대로 전달
+    if (error instanceof TourApiError) {
+      throw error;
+    }
     // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
     if (error instanceof Error) {
       if (error.message.includes("TOUR_API_KEY")) {
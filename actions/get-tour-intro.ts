@@ -1,7 +1,9 @@
 "use server";
 
 import { getDetailIntro } from "@/lib/api/tour-api";
+import { TourApiError } from "@/lib/api/tour-api-errors";
 import type { TourIntro } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
 
 /**
  * @file get-tour-intro.ts
@@ -18,11 +20,13 @@ import type { TourIntro } from "@/lib/types/tour";
  *
  * @param contentId - 콘텐츠ID
  * @param contentTypeId - 콘텐츠타입ID
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
  * @returns 관광지 소개 정보
  */
 export async function getTourIntro(
   contentId: string,
   contentTypeId: string,
+  locale?: TourLocale,
 ): Promise<TourIntro | null> {
   try {
     if (!contentId || contentId.trim() === "") {
@@ -33,8 +37,16 @@ export async function getTourIntro(
       throw new Error("관광지 타입 ID가 필요합니다.");
     }
 
-    return await getDetailIntro(contentId, contentTypeId);
+    return await getDetailIntro(
+      contentId,
+      contentTypeId,
+      normalizeTourLocale(locale),
+    );
   } catch (error) {
+    // Tour API 에러는 digest에 담긴 에러 코드로 클라이언트가 메시지를 표시하도록 그대로 전달
+    if (error instanceof TourApiError) {
+      throw error;
+    }
     // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
     if (error instanceof Error) {
       if (error.message.includes("TOUR_API_KEY")) {
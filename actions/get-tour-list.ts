@@ -1,7 +1,10 @@
 "use server";
 
 import { getAreaBasedList } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { getMirrorTourList } from "@/lib/api/tour-mirror";
 import type { TourItem } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
 
 /**
  * @file get-tour-list.ts
@@ -9,15 +12,22 @@ import type { TourItem } from "@/lib/types/tour";
  *
  * 서버 사이드에서 한국관광공사 API를 호출하여 관광지 목록을 조회합니다.
  * .env.local의 TOUR_API_KEY를 사용합니다.
+ * TOUR_MIRROR_ENABLED=true이면 Supabase 카탈로그 미러를 먼저 조회하고,
+ * 결과가 없으면 API로 대체합니다.
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 관광지 목록 섹션
  */
 
 interface GetTourListOptions {
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
   numOfRows?: number;
   pageNo?: number;
+  locale?: TourLocale; // 콘텐츠 로케일 (기본값: "ko")
 }
 
 /**
@@ -30,13 +40,29 @@ export async function getTourList(
   options: GetTourListOptions = {},
 ): Promise<TourItem[]> {
   try {
-    return await getAreaBasedList({
+    const locale = normalizeTourLocale(options.locale);
+    const listOptions = {
       areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
       contentTypeId: options.contentTypeId,
+      cat1: options.cat1,
+      cat2: options.cat2,
+      cat3: options.cat3,
       numOfRows: options.numOfRows ?? 10,
       pageNo: options.pageNo ?? 1,
-    });
+    };
+
+    const mirrored = await getMirrorTourList(listOptions, locale);
+    if (mirrored) {
+      return mirrored;
+    }
+
+    return await getAreaBasedList({ ...listOptions, locale });
   } catch (error) {
+    // 한도 초과/서비스 키 오류는 빈 목록으로 대체하면 "결과 없음"으로 오인되므로 그대로 전달
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
     // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
     if (error instanceof Error) {
       console.error("[getTourList] 에러 발생:", error.message, error);
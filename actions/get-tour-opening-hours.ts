@@ -0,0 +1,122 @@
+"use server";
+
+import { getDetailIntro } from "@/lib/api/tour-api";
+import { getMirrorTourIntros } from "@/lib/api/tour-mirror";
+import type { TourIntro } from "@/lib/types/tour";
+import {
+  getOpeningHoursText,
+  OPENING_HOURS_CONTENT_TYPE_IDS,
+} from "@/lib/utils/opening-hours-parser";
+
+/**
+ * @file get-tour-opening-hours.ts
+ * @description 관광지 목록의 운영시간 문구 일괄 조회 Server Action
+ *
+ * 목록 카드의 영업 상태 배지와 "지금 영업 중" 필터에 필요한 운영시간/휴무일 문구를 조회합니다.
+ * TOUR_MIRROR_ENABLED=true이면 카탈로그 미러에 동기화된 소개 정보를 한 번에 조회하고,
+ * 미러에 없는 관광지만 detailIntro2로 대체 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 운영시간 정보가 있는 관광 타입만 조회 (숙박/축제/여행코스 제외)
+ * 2. 미러 일괄 조회 후 누락분만 API 조회 (최대 OPENING_HOURS_API_BATCH_SIZE건)
+ * 3. 타입별 필드(opentimefood, restdatefood 등)에서 운영시간/휴무일 문구 추출
+ *
+ * 주의사항:
+ * - 조회 대상은 목록의 현재 페이지이므로 "지금 영업 중" 필터도 현재 페이지에만 적용됩니다.
+ * - API 조회 한도는 목록 한 페이지의 최대 항목 수(100건)와 같게 두어,
+ *   미러가 없어도 현재 페이지의 운영시간이 모두 조회되도록 합니다.
+ *
+ * @see {@link /lib/utils/opening-hours-parser.ts} - 운영시간 파서
+ */
+
+/** 한 번에 조회할 수 있는 최대 관광지 수 */
+const MAX_TARGETS = 200;
+
+/** 미러에 없어 API로 조회하는 최대 관광지 수 (목록 한 페이지의 최대 항목 수) */
+const OPENING_HOURS_API_BATCH_SIZE = 100;
+
+/** 동시에 호출하는 소개 정보 요청 수 */
+const OPENING_HOURS_API_CONCURRENCY = 5;
+
+/**
+ * 운영시간 조회 대상
+ */
+export interface OpeningHoursTarget {
+  /** 콘텐츠ID */
+  contentId: string;
+  /** 콘텐츠타입ID */
+  contentTypeId: string;
+}
+
+/**
+ * 관광지 1건의 소개 정보 조회 (실패 시 null)
+ */
+async function fetchIntro(
+  target: OpeningHoursTarget,
+): Promise<TourIntro | null> {
+  try {
+    return await getDetailIntro(target.contentId, target.contentTypeId);
+  } catch (error) {
+    console.error(
+      `[getTourOpeningHours] 소개 정보 조회 실패: ${target.contentId}`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * 관광지 목록의 운영시간 문구 일괄 조회 Server Action
+ *
+ * @param targets - 조회 대상 목록 (최대 200개)
+ * @returns 운영시간 또는 휴무일 문구가 있는 관광지의 콘텐츠ID와 문구
+ */
+export async function getTourOpeningHours(
+  targets: OpeningHoursTarget[],
+): Promise<
+  Array<{ contentId: string; usetime: string | null; restdate: string | null }>
+> {
+  try {
+    const batch = targets
+      .filter((target) =>
+        OPENING_HOURS_CONTENT_TYPE_IDS.includes(target.contentTypeId),
+      )
+      .slice(0, MAX_TARGETS);
+    if (batch.length === 0) {
+      return [];
+    }
+
+    const intros =
+      (await getMirrorTourIntros(batch.map((target) => target.contentId))) ??
+      new Map<string, TourIntro>();
+
+    // 미러에 없는 관광지는 API로 조회 (요청 수 제한)
+    const missing = batch
+      .filter((target) => !intros.has(target.contentId))
+      .slice(0, OPENING_HOURS_API_BATCH_SIZE);
+    for (let i = 0; i < missing.length; i += OPENING_HOURS_API_CONCURRENCY) {
+      const chunk = missing.slice(i, i + OPENING_HOURS_API_CONCURRENCY);
+      const results = await Promise.all(chunk.map(fetchIntro));
+      chunk.forEach((target, index) => {
+        if (results[index]) {
+          intros.set(target.contentId, results[index]);
+        }
+      });
+    }
+
+    console.log("[getTourOpeningHours] 운영시간 조회:", {
+      요청: batch.length,
+      API_조회: missing.length,
+      결과: intros.size,
+    });
+
+    return [...intros].flatMap(([contentId, intro]) => {
+      const { usetime, restdate } = getOpeningHoursText(intro);
+      return usetime || restdate ? [{ contentId, usetime, restdate }] : [];
+    });
+  } catch (error) {
+    // 운영시간을 조회할 수 없어도 목록이 표시되도록 빈 목록 반환
+    console.error("[getTourOpeningHours] 에러 발생:", error);
+    return [];
+  }
+}
@@ -0,0 +1,54 @@
+"use server";
+
+import { getDetailInfo } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { STAY_CONTENT_TYPE_ID } from "@/lib/utils/tour-type-converter";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+import type { TourRoomInfo } from "@/lib/types/tour";
+
+/**
+ * @file get-tour-rooms.ts
+ * @description 숙박 객실 정보 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(detailInfo2)를 호출하여
+ * 숙박시설의 객실별 정보(크기, 인원, 요금, 편의시설, 사진)를 조회합니다.
+ */
+
+/**
+ * 숙박 객실 정보 조회 Server Action
+ *
+ * @param contentId - 콘텐츠ID (숙박 타입)
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 객실 정보 목록 (객실 정보가 없으면 빈 배열)
+ */
+export async function getTourRooms(
+  contentId: string,
+  locale?: TourLocale,
+): Promise<TourRoomInfo[]> {
+  try {
+    if (!contentId || contentId.trim() === "") {
+      throw new Error("관광지 ID가 필요합니다.");
+    }
+
+    const rooms = await getDetailInfo(
+      contentId,
+      STAY_CONTENT_TYPE_ID,
+      normalizeTourLocale(locale),
+    );
+    // 객실명이 없는 항목은 객실 정보가 아니므로 제외
+    return rooms.filter((room): room is TourRoomInfo =>
+      Boolean(room.roomtitle || room.roomcode),
+    );
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 그대로 전달하여 클라이언트가 안내 메시지를 표시
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+
+    // 객실 정보는 부가 정보이므로 그 외 에러는 빈 배열을 반환
+    console.warn(`[getTourRooms] 객실 정보 조회 실패: ${contentId}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
@@ -0,0 +1,67 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { getItineraries, getItinerary } from "@/lib/api/itinerary-api";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import type {
+  ItinerarySummary,
+  ItineraryWithStops,
+} from "@/lib/types/itinerary";
+
+/**
+ * @file get-trips.ts
+ * @description 여행 일정 조회 Server Action
+ *
+ * 로그인한 사용자의 여행 목록과 여행 상세(날짜/시간대별 일정)를 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 여행 목록 조회 (출발일순, 일정 수 포함)
+ * 2. 여행 상세 조회 (다른 사용자의 여행은 null)
+ *
+ * @see {@link /lib/api/itinerary-api.ts} - 여행 일정 API 함수들
+ */
+
+/**
+ * 여행 목록 조회
+ *
+ * @returns 여행 목록 (로그인하지 않았으면 빈 배열)
+ * @throws {Error} 조회 실패
+ */
+export async function getTrips(): Promise<ItinerarySummary[]> {
+  const { userId } = await auth();
+  if (!userId) {
+    return [];
+  }
+
+  const trips = await getItineraries(createClerkSupabaseClient(), userId);
+  console.log("[GetTrips] 여행 목록 조회 완료:", trips.length);
+  return trips;
+}
+
+/**
+ * 여행 상세 조회
+ *
+ * @param itineraryId - 여행 ID
+ * @returns 여행과 일정 (로그인하지 않았거나 없는 여행이면 null)
+ * @throws {Error} 조회 실패
+ */
+export async function getTrip(
+  itineraryId: string,
+): Promise<ItineraryWithStops | null> {
+  const { userId } = await auth();
+  if (!userId) {
+    return null;
+  }
+
+  const trip = await getItinerary(
+    createClerkSupabaseClient(),
+    userId,
+    itineraryId,
+  );
+  console.log("[GetTrips] 여행 상세 조회 완료:", {
+    itineraryId,
+    found: Boolean(trip),
+    stops: trip?.stops.length ?? 0,
+  });
+  return trip;
+}
@@ -0,0 +1,101 @@
+"use server";
+
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import { createCollectionEmailInvite } from "@/lib/api/collection-share-api";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type {
+  CollectionInvite,
+  CollectionMemberRole,
+} from "@/lib/types/collection";
+import { normalizeInviteEmail } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file invite-collection-member.ts
+ * @description 이메일로 컬렉션 멤버 초대 Server Action
+ *
+ * 컬렉션 소유자가 다른 사용자를 이메일로 초대합니다.
+ * 초대받은 사람은 해당 이메일로 로그인(아직 가입 전이면 가입 후)하여
+ * 북마크 목록 페이지의 받은 초대에서 수락하거나,
+ * 초대 링크(/invites/[token])를 직접 열어 수락할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 이메일 형식 확인 및 정규화 (본인 이메일 제외)
+ * 2. 이메일 초대 생성 (대기 중인 초대가 있으면 역할/만료일 갱신)
+ *
+ * 주의사항:
+ * - 이메일로 가입한 사용자가 있는지는 조회하지 않습니다. 가입 여부에 따라
+ *   응답이 달라지면 로그인한 누구나 이메일 가입 여부를 알아낼 수 있기 때문입니다.
+ * - 이미 참여 중인 멤버에게 초대해도 같은 응답을 돌려주며,
+ *   수락 시 더 높은 역할만 반영됩니다.
+ *
+ * @see {@link /lib/api/collection-share-api.ts} - 컬렉션 공유 API 함수들
+ */
+
+/**
+ * 이메일 초대 결과
+ */
+export type InviteCollectionMemberResult =
+  | { success: true; invite: CollectionInvite }
+  | { success: false; error: string };
+
+/**
+ * 이메일로 컬렉션 멤버 초대
+ *
+ * @param collectionId - 컬렉션 ID
+ * @param email - 초대할 사용자의 이메일
+ * @param role - 수락하면 받는 역할
+ * @returns 생성된 초대 또는 에러 메시지
+ */
+export async function inviteCollectionMember(
+  collectionId: string,
+  email: string,
+  role: CollectionMemberRole,
+): Promise<InviteCollectionMemberResult> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "로그인이 필요합니다." };
+  }
+
+  const normalizedEmail = normalizeInviteEmail(email);
+  if (!normalizedEmail) {
+    return { success: false, error: "이메일 형식이 올바르지 않습니다." };
+  }
+
+  try {
+    // 본인 이메일인지는 로그인한 사용자 정보로만 확인 (다른 사용자 조회 없음)
+    const client = await clerkClient();
+    const clerkUser = await client.users.getUser(userId);
+    const isOwnEmail = clerkUser.emailAddresses.some(
+      (address) =>
+        normalizeInviteEmail(address.emailAddress) === normalizedEmail,
+    );
+    if (isOwnEmail) {
+      return { success: false, error: "본인은 초대할 수 없습니다." };
+    }
+
+    const supabase = getServiceRoleClient();
+    const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+    const invite = await createCollectionEmailInvite(
+      supabase,
+      supabaseUserId,
+      collectionId,
+      normalizedEmail,
+      role,
+    );
+
+    console.log("[InviteCollectionMember] 이메일 초대 생성:", {
+      collectionId,
+      role,
+    });
+    return { success: true, invite };
+  } catch (error) {
+    console.error("[InviteCollectionMember] 이메일 초대 실패:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "멤버를 초대하지 못했습니다.",
+    };
+  }
+}
@@ -0,0 +1,183 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import {
+  addItineraryStop,
+  createItinerary,
+  deleteItinerary,
+  deleteItineraryStop,
+  moveItineraryStops,
+  updateItinerary,
+  updateItineraryStop,
+} from "@/lib/api/itinerary-api";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import type {
+  Itinerary,
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryStopInput,
+  ItineraryStopPlacement,
+} from "@/lib/types/itinerary";
+
+/**
+ * @file manage-trip.ts
+ * @description 여행 일정 편집 Server Action
+ *
+ * 로그인한 사용자가 자신의 여행과 일정을 만들고 고칩니다.
+ * 소유자 확인과 기간 검증은 API 함수가 수행하며,
+ * 실패하면 예외 대신 사용자에게 보여 줄 에러 메시지를 반환합니다.
+ *
+ * 주요 기능:
+ * 1. 여행 만들기/수정/삭제 (제목, 기간)
+ * 2. 일정 추가 (관광지 또는 자유 일정), 수정 (제목, 메모), 삭제
+ * 3. 일정 옮기기 (다른 날짜/시간대로 이동, 순서 변경)
+ *
+ * @see {@link /lib/api/itinerary-api.ts} - 여행 일정 API 함수들
+ */
+
+/**
+ * 여행 일정 편집 결과
+ */
+export type TripActionResult<T> =
+  { success: true; data: T } | { success: false; error: string };
+
+/**
+ * 로그인 확인 후 편집 실행, 에러를 메시지로 변환
+ */
+async function runTripAction<T>(
+  action: string,
+  run: (
+    supabase: ReturnType<typeof createClerkSupabaseClient>,
+    userId: string,
+  ) => Promise<T>,
+): Promise<TripActionResult<T>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "로그인이 필요합니다." };
+  }
+
+  try {
+    const data = await run(createClerkSupabaseClient(), userId);
+    console.log(`[ManageTrip] ${action} 완료`);
+    return { success: true, data };
+  } catch (error) {
+    console.error(`[ManageTrip] ${action} 실패:`, error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : `${action}에 실패했습니다.`,
+    };
+  }
+}
+
+/**
+ * 여행 만들기
+ *
+ * @param input - 여행 제목과 기간
+ * @returns 생성된 여행 또는 에러 메시지
+ */
+export async function createTrip(
+  input: ItineraryInput,
+): Promise<TripActionResult<Itinerary>> {
+  return runTripAction("여행 만들기", (supabase, userId) =>
+    createItinerary(supabase, userId, input),
+  );
+}
+
+/**
+ * 여행 수정 (제목, 기간)
+ *
+ * @param itineraryId - 여행 ID
+ * @param input - 여행 제목과 기간
+ * @returns 수정된 여행 또는 에러 메시지
+ */
+export async function updateTrip(
+  itineraryId: string,
+  input: ItineraryInput,
+): Promise<TripActionResult<Itinerary>> {
+  return runTripAction("여행 수정", (supabase, userId) =>
+    updateItinerary(supabase, userId, itineraryId, input),
+  );
+}
+
+/**
+ * 여행 삭제
+ *
+ * @param itineraryId - 여행 ID
+ * @returns 삭제 성공 여부 또는 에러 메시지
+ */
+export async function deleteTrip(
+  itineraryId: string,
+): Promise<TripActionResult<boolean>> {
+  return runTripAction("여행 삭제", (supabase, userId) =>
+    deleteItinerary(supabase, userId, itineraryId),
+  );
+}
+
+/**
+ * 일정 추가
+ *
+ * @param itineraryId - 여행 ID
+ * @param input - 일정 (날짜/시간대, 관광지 또는 자유 일정)
+ * @returns 생성된 일정 또는 에러 메시지
+ */
+export async function addTripStop(
+  itineraryId: string,
+  input: ItineraryStopInput,
+): Promise<TripActionResult<ItineraryStop>> {
+  return runTripAction("일정 추가", (supabase, userId) =>
+    addItineraryStop(supabase, userId, itineraryId, input),
+  );
+}
+
+/**
+ * 일정 수정 (제목, 메모)
+ *
+ * @param itineraryId - 여행 ID
+ * @param stopId - 일정 ID
+ * @param input - 일정 제목과 메모
+ * @returns 수정된 일정 또는 에러 메시지
+ */
+export async function updateTripStop(
+  itineraryId: string,
+  stopId: string,
+  input: Pick<ItineraryStop, "title" | "note">,
+): Promise<TripActionResult<ItineraryStop>> {
+  return runTripAction("일정 수정", (supabase, userId) =>
+    updateItineraryStop(supabase, userId, itineraryId, stopId, input),
+  );
+}
+
+/**
+ * 일정 옮기기
+ *
+ * @param itineraryId - 여행 ID
+ * @param placement - 옮겨 갈 날짜/시간대
+ * @param stopIds - 옮겨 간 뒤의 일정 ID 순서
+ * @returns 성공 여부 또는 에러 메시지
+ */
+export async function moveTripStops(
+  itineraryId: string,
+  placement: ItineraryStopPlacement,
+  stopIds: string[],
+): Promise<TripActionResult<boolean>> {
+  return runTripAction("일정 옮기기", (supabase, userId) =>
+    moveItineraryStops(supabase, userId, itineraryId, placement, stopIds),
+  );
+}
+
+/**
+ * 일정 삭제
+ *
+ * @param itineraryId - 여행 ID
+ * @param stopId - 일정 ID
+ * @returns 삭제 성공 여부 또는 에러 메시지
+ */
+export async function deleteTripStop(
+  itineraryId: string,
+  stopId: string,
+): Promise<TripActionResult<boolean>> {
+  return runTripAction("일정 삭제", (supabase, userId) =>
+    deleteItineraryStop(supabase, userId, itineraryId, stopId),
+  );
+}
@@ -0,0 +1,180 @@
+"use server";
+
+import { getTourDetail } from "@/actions/get-tour-detail";
+import { searchTour } from "@/actions/search-tour";
+import type { BookmarkSnapshot } from "@/lib/types/bookmark";
+import type { TourItem } from "@/lib/types/tour";
+import { toBookmarkSnapshot } from "@/lib/utils/bookmark-snapshot";
+import { normalizeImportTitle } from "@/lib/utils/bookmark-import";
+import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
+import { getDistanceMeters } from "@/lib/utils/geolocation";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+
+/**
+ * @file match-bookmark-import.ts
+ * @description 북마크 가져오기 행 매칭 Server Action
+ *
+ * 가져오기 파일의 각 행을 관광지 콘텐츠ID로 매칭하고, 북마크에 저장할 스냅샷을 함께 조회합니다.
+ *
+ * 주요 기능:
+ * 1. 콘텐츠ID가 있는 행: 상세 정보 조회로 존재 여부 확인
+ * 2. 콘텐츠ID가 없거나 찾을 수 없는 행: 관광지명 키워드 검색 후 이름이 같은 관광지 선택
+ *    (같은 이름이 여러 곳이면 파일의 좌표와 가장 가까운 곳, 좌표가 없으면 매칭하지 않음)
+ * 3. 매칭에 실패한 행은 null로 반환 (가져오기 결과에 "찾을 수 없음"으로 표시)
+ *
+ * @see {@link /hooks/useBookmarkImport.ts} - 북마크 가져오기 훅
+ */
+
+/** 한 번에 매칭하는 최대 행 수 */
+const BOOKMARK_IMPORT_MATCH_BATCH_SIZE = 20;
+
+/** 동시에 매칭하는 행 수 */
+const BOOKMARK_IMPORT_MATCH_CONCURRENCY = 5;
+
+/** 관광지명이 같은 후보를 좌표로 고를 때 허용하는 최대 거리 (미터) */
+const MAX_MATCH_DISTANCE_METERS = 5000;
+
+/**
+ * 매칭 대상 행
+ */
+export interface BookmarkImportMatchTarget {
+  /** 결과 키 (행 번호) */
+  key: string;
+  contentId: string | null;
+  title: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+/**
+ * 매칭 결과
+ */
+export interface BookmarkImportMatch {
+  contentId: string;
+  snapshot: BookmarkSnapshot;
+}
+
+/**
+ * 콘텐츠ID로 스냅샷 조회 (없으면 null)
+ */
+async function fetchSnapshot(
+  contentId: string,
+  locale: TourLocale,
+): Promise<BookmarkImportMatch | null> {
+  try {
+    const detail = await getTourDetail(contentId, locale);
+    return detail
+      ? { contentId, snapshot: toBookmarkSnapshot(detail, locale) }
+      : null;
+  } catch (error) {
+    console.error(`[BookmarkImport] 상세 정보 조회 실패: ${contentId}`, error);
+    return null;
+  }
+}
+
+/**
+ * 관광지명이 같은 검색 결과 중 매칭할 관광지 선택
+ */
+function pickCandidate(
+  target: BookmarkImportMatchTarget,
+  results: TourItem[],
+): TourItem | null {
+  const title = normalizeImportTitle(target.title ?? "");
+  const candidates = results.filter(
+    (tour) => normalizeImportTitle(tour.title) === title,
+  );
+  if (candidates.length <= 1) {
+    return candidates[0] ?? null;
+  }
+
+  // 같은 이름이 여러 곳이면 좌표로만 구분 (좌표가 없으면 잘못 매칭하지 않도록 포기)
+  if (target.lat === null || target.lng === null) {
+    return null;
+  }
+  const origin = { lat: target.lat, lng: target.lng };
+  let nearest: TourItem | null = null;
+  let nearestDistance = MAX_MATCH_DISTANCE_METERS;
+  for (const tour of candidates) {
+    try {
+      const distance = getDistanceMeters(
+        origin,
+        convertTourCoordinates(tour.mapx, tour.mapy),
+      );
+      if (distance <= nearestDistance) {
+        nearest = tour;
+        nearestDistance = distance;
+      }
+    } catch {
+      // 좌표가 없는 후보는 제외
+    }
+  }
+  return nearest;
+}
+
+/**
+ * 행 1건 매칭 (실패 시 null)
+ */
+async function matchTarget(
+  target: BookmarkImportMatchTarget,
+  locale: TourLocale,
+): Promise<BookmarkImportMatch | null> {
+  if (target.contentId) {
+    const match = await fetchSnapshot(target.contentId, locale);
+    if (match || !target.title) {
+      return match;
+    }
+  }
+  if (!target.title) {
+    return null;
+  }
+
+  try {
+    const results = await searchTour({
+      keyword: target.title,
+      numOfRows: 20,
+      locale,
+    });
+    const candidate = pickCandidate(target, results);
+    if (!candidate) {
+      console.warn(`[BookmarkImport] 관광지명 매칭 실패: ${target.title}`);
+      return null;
+    }
+    return await fetchSnapshot(candidate.contentid, locale);
+  } catch (error) {
+    console.error(`[BookmarkImport] 관광지 검색 실패: ${target.title}`, error);
+    return null;
+  }
+}
+
+/**
+ * 북마크 가져오기 행 매칭 Server Action
+ *
+ * @param targets - 매칭 대상 (BOOKMARK_IMPORT_MATCH_BATCH_SIZE건을 넘으면 앞부분만 매칭)
+ * @param locale - 검색/조회할 콘텐츠 로케일 (기본값: "ko")
+ * @returns 행 키별 매칭 결과 (실패 시 null)
+ */
+export async function matchBookmarkImport(
+  targets: BookmarkImportMatchTarget[],
+  locale?: string | null,
+): Promise<Record<string, BookmarkImportMatch | null>> {
+  const tourLocale = normalizeTourLocale(locale);
+  const batch = targets.slice(0, BOOKMARK_IMPORT_MATCH_BATCH_SIZE);
+  console.log("[BookmarkImport] 행 매칭 시작:", batch.length);
+
+  const results: Record<string, BookmarkImportMatch | null> = {};
+  for (let i = 0; i < batch.length; i += BOOKMARK_IMPORT_MATCH_CONCURRENCY) {
+    const chunk = batch.slice(i, i + BOOKMARK_IMPORT_MATCH_CONCURRENCY);
+    const matches = await Promise.all(
+      chunk.map((target) => matchTarget(target, tourLocale)),
+    );
+    chunk.forEach((target, index) => {
+      results[target.key] = matches[index];
+    });
+  }
+
+  console.log(
+    "[BookmarkImport] 행 매칭 완료:",
+    Object.values(results).filter(Boolean).length,
+  );
+  return results;
+}
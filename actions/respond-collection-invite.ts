@@ -0,0 +1,101 @@
+"use server";
+
+import { auth, clerkClient } from "@clerk/nextjs/server";
+import {
+  acceptCollectionInvite,
+  declineCollectionInvite,
+  getCollectionInviteByToken,
+} from "@/lib/api/collection-share-api";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getVerifiedEmails } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file respond-collection-invite.ts
+ * @description 컬렉션 초대 수락/거절 Server Action
+ *
+ * 로그인한 사용자가 초대 링크 또는 이메일 초대를 수락하거나 거절합니다.
+ *
+ * 주요 기능:
+ * 1. 초대 유효성 확인 (만료, 취소, 이미 수락한 이메일 초대)
+ * 2. 이메일 초대는 Clerk 계정의 확인된 이메일과 일치해야 수락/거절 가능
+ * 3. 수락 시 멤버로 추가 (이미 멤버이면 더 높은 역할만 반영)
+ * 4. 거절은 이메일 초대만 가능 (초대 링크는 수락하지 않으면 그만)
+ *
+ * @see {@link /lib/api/collection-share-api.ts} - 컬렉션 공유 API 함수들
+ */
+
+/**
+ * 초대 응답 결과
+ */
+export type RespondCollectionInviteResult =
+  { success: true; collectionId: string } | { success: false; error: string };
+
+/**
+ * 컬렉션 초대 수락/거절
+ *
+ * @param token - 초대 토큰
+ * @param response - "accept" (수락) 또는 "decline" (거절)
+ * @returns 컬렉션 ID 또는 에러 메시지
+ */
+export async function respondToCollectionInvite(
+  token: string,
+  response: "accept" | "decline",
+): Promise<RespondCollectionInviteResult> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { success: false, error: "로그인이 필요합니다." };
+  }
+
+  try {
+    const supabase = getServiceRoleClient();
+    const result = await getCollectionInviteByToken(supabase, token);
+    if (!result) {
+      return {
+        success: false,
+        error:
+          "만료되었거나 취소된 초대입니다. 초대한 사람에게 다시 요청하세요.",
+      };
+    }
+
+    const { invite, ownerId } = result;
+
+    // 이메일 초대는 초대받은 이메일 계정만 응답 가능
+    if (invite.email) {
+      const client = await clerkClient();
+      const clerkUser = await client.users.getUser(userId);
+      if (!getVerifiedEmails(clerkUser.emailAddresses).includes(invite.email)) {
+        return {
+          success: false,
+          error: "초대받은 이메일 계정으로 로그인한 뒤 다시 시도하세요.",
+        };
+      }
+    } else if (response === "decline") {
+      return { success: false, error: "초대 링크는 거절할 수 없습니다." };
+    }
+
+    if (response === "decline") {
+      await declineCollectionInvite(supabase, invite.id);
+      console.log("[RespondCollectionInvite] 초대 거절:", {
+        collectionId: invite.collection_id,
+      });
+      return { success: true, collectionId: invite.collection_id };
+    }
+
+    const supabaseUserId = await getSupabaseUserId(supabase, userId);
+    await acceptCollectionInvite(supabase, supabaseUserId, invite, ownerId);
+
+    console.log("[RespondCollectionInvite] 초대 수락:", {
+      collectionId: invite.collection_id,
+      role: invite.role,
+    });
+    return { success: true, collectionId: invite.collection_id };
+  } catch (error) {
+    console.error("[RespondCollectionInvite] 초대 응답 실패:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "초대에 응답하지 못했습니다.",
+    };
+  }
+}
@@ -0,0 +1,71 @@
+"use server";
+
+import { searchFestival } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { getTodayApiDate } from "@/lib/utils/date-formatter";
+import type { TourItem } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+
+/**
+ * @file search-festival.ts
+ * @description 축제/행사 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(searchFestival2)를 호출하여
+ * 행사 기간으로 축제공연행사(15)를 조회합니다.
+ * 시작일을 지정하지 않으면 오늘 이후 진행되는 행사만 조회합니다.
+ */
+
+interface SearchFestivalOptions {
+  /** 행사 시작일 (YYYYMMDD, 기본값: 오늘) */
+  eventStartDate?: string;
+  /** 행사 종료일 (YYYYMMDD) */
+  eventEndDate?: string;
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale; // 콘텐츠 로케일 (기본값: "ko")
+}
+
+/**
+ * 축제/행사 조회 Server Action
+ *
+ * @param options - 조회 옵션
+ * @returns 행사 목록
+ */
+export async function searchFestivalTours(
+  options: SearchFestivalOptions = {},
+): Promise<TourItem[]> {
+  try {
+    return await searchFestival({
+      eventStartDate: options.eventStartDate ?? getTodayApiDate(),
+      eventEndDate: options.eventEndDate,
+      areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+      locale: normalizeTourLocale(options.locale),
+    });
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 빈 목록으로 대체하면 "결과 없음"으로 오인되므로 그대로 전달
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+    // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
+    if (error instanceof Error) {
+      console.error("[searchFestivalTours] 에러 발생:", error.message, error);
+
+      if (error.message.includes("TOUR_API_KEY")) {
+        console.error(
+          "[searchFestivalTours] API 키 미설정:",
+          "NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 .env.local에 설정해주세요.",
+        );
+        return [];
+      }
+    }
+
+    // 네트워크/API 에러도 빈 배열을 반환하여 앱이 크래시되지 않도록 처리
+    console.warn("[searchFestivalTours] 행사 조회 실패:", error);
+    return [];
+  }
+}
@@ -0,0 +1,62 @@
+"use server";
+
+import { searchStay } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import type { TourItem } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
+
+/**
+ * @file search-stay.ts
+ * @description 숙박시설 조회 Server Action
+ *
+ * 서버 사이드에서 한국관광공사 API(searchStay2)를 호출하여 숙박(32) 시설을 조회합니다.
+ */
+
+interface SearchStayOptions {
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale; // 콘텐츠 로케일 (기본값: "ko")
+}
+
+/**
+ * 숙박시설 조회 Server Action
+ *
+ * @param options - 조회 옵션
+ * @returns 숙박시설 목록
+ */
+export async function searchStayTours(
+  options: SearchStayOptions = {},
+): Promise<TourItem[]> {
+  try {
+    return await searchStay({
+      areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+      locale: normalizeTourLocale(options.locale),
+    });
+  } catch (error) {
+    // 한도 초과/서비스 키 오류는 빈 목록으로 대체하면 "결과 없음"으로 오인되므로 그대로 전달
+    if (isTourApiAccessError(error)) {
+      throw error;
+    }
+    // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
+    if (error instanceof Error) {
+      console.error("[searchStayTours] 에러 발생:", error.message, error);
+
+      if (error.message.includes("TOUR_API_KEY")) {
+        console.error(
+          "[searchStayTours] API 키 미설정:",
+          "NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 .env.local에 설정해주세요.",
+        );
+        return [];
+      }
+    }
+
+    // 네트워크/API 에러도 빈 배열을 반환하여 앱이 크래시되지 않도록 처리
+    console.warn("[searchStayTours] 숙박시설 조회 실패:", error);
+    return [];
+  }
+}
@@ -1,7 +1,10 @@
 "use server";
 
 import { searchKeyword } from "@/lib/api/tour-api";
+import { TourApiError } from "@/lib/api/tour-api-errors";
+import { searchMirrorTours } from "@/lib/api/tour-mirror";
 import type { TourItem } from "@/lib/types/tour";
+import { normalizeTourLocale, type TourLocale } from "@/lib/utils/locale";
 
 /**
  * @file search-tour.ts
@@ -9,6 +12,8 @@ import type { TourItem } from "@/lib/types/tour";
  *
  * 서버 사이드에서 한국관광공사 API를 호출하여 키워드로 관광지를 검색합니다.
  * .env.local의 TOUR_API_KEY를 사용합니다.
+ * TOUR_MIRROR_ENABLED=true이면 Supabase 카탈로그 미러에서 제목으로 먼저 검색하고,
+ * 결과가 없으면 API로 대체합니다.
  *
  * @see {@link /docs/prd.md#23-키워드-검색} - PRD 문서의 키워드 검색 섹션
  */
@@ -16,9 +21,14 @@ import type { TourItem } from "@/lib/types/tour";
 interface SearchTourOptions {
   keyword: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
   numOfRows?: number;
   pageNo?: number;
+  locale?: TourLocale; // 콘텐츠 로케일 (기본값: "ko")
 }
 
 /**
@@ -35,13 +45,30 @@ export async function searchTour(
       throw new Error("검색 키워드를 입력해주세요.");
     }
 
-    return await searchKeyword(options.keyword.trim(), {
+    const keyword = options.keyword.trim();
+    const locale = normalizeTourLocale(options.locale);
+    const searchOptions = {
       areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
       contentTypeId: options.contentTypeId,
+      cat1: options.cat1,
+      cat2: options.cat2,
+      cat3: options.cat3,
       numOfRows: options.numOfRows ?? 10,
       pageNo: options.pageNo ?? 1,
-    });
+    };
+
+    const mirrored = await searchMirrorTours(keyword, searchOptions, locale);
+    if (mirrored) {
+      return mirrored;
+    }
+
+    return await searchKeyword(keyword, { ...searchOptions, locale });
   } catch (error) {
+    // Tour API 에러는 digest에 담긴 에러 코드로 클라이언트가 메시지를 표시하도록 그대로 전달
+    if (error instanceof TourApiError) {
+      throw error;
+    }
     // API 키 미설정 또는 네트워크 에러 시 명확한 에러 메시지
     if (error instanceof Error) {
       if (error.message.includes("TOUR_API_KEY")) {
@@ -0,0 +1,789 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import TourList from "@/components/TourList";
+import TourFilter from "@/components/TourFilter";
+import TourSearch from "@/components/TourSearch";
+import TourSort from "@/components/TourSort";
+import TourPagination from "@/components/TourPagination";
+import NaverMap from "@/components/NaverMap";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { useTourFilter } from "@/hooks/useTourFilter";
+import { useTourSort } from "@/hooks/useTourSort";
+import { useTourList } from "@/hooks/useTourList";
+import { useTourSearch } from "@/hooks/useTourSearch";
+import { useBookmarkList } from "@/hooks/useBookmarkList";
+import { useBookmarkCollections } from "@/hooks/useBookmarkCollections";
+import { usePetTourFilter } from "@/hooks/usePetTourFilter";
+import { usePetFriendlyTours } from "@/hooks/usePetFriendlyTours";
+import { useOpeningHours } from "@/hooks/useOpeningHours";
+import { usePets } from "@/hooks/usePets";
+import { useNearbyTours } from "@/hooks/useNearbyTours";
+import { useFestivalList } from "@/hooks/useFestivalList";
+import { useStayList } from "@/hooks/useStayList";
+import { useHomeUrlSync } from "@/hooks/useHomeUrlSync";
+import {
+  FESTIVAL_CONTENT_TYPE_ID,
+  STAY_CONTENT_TYPE_ID,
+} from "@/lib/utils/tour-type-converter";
+import {
+  getCurrentPosition,
+  type GeoArea,
+  type GeoPosition,
+} from "@/lib/utils/geolocation";
+import { List, Map as MapIcon } from "lucide-react";
+import { toast } from "sonner";
+import type { HomeUrlState } from "@/lib/utils/home-search-params";
+import type { TourItem } from "@/lib/types/tour";
+import { getPetProfileFilter } from "@/lib/utils/pet-profile";
+
+/**
+ * @file HomePageClient.tsx
+ * @description 홈페이지 클라이언트 컴포넌트 - 관광지 목록 + 지도
+ *
+ * 홈페이지에서는 관광지 목록과 지도를 함께 표시합니다.
+ * 검색 기능을 통해 키워드로 관광지를 검색할 수 있습니다.
+ * 필터 기능을 통해 지역과 관광 타입으로 목록을 필터링할 수 있습니다.
+ * 검색과 필터를 동시에 사용할 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 관광지 목록 표시 (좌측 또는 상단)
+ * 2. Naver 지도 표시 (우측 또는 하단)
+ * 3. 리스트 항목 클릭 시 해당 마커로 지도 이동
+ * 4. 리스트 항목 호버 시 해당 마커 강조 (선택 사항)
+ * 5. 내 주변 모드 (현재 위치 기준 locationBasedList2 결과를 거리순으로 표시)
+ * 6. 지도 이동 후 "이 지역에서 검색" (지도 화면 기준으로 목록과 마커 교체)
+ * 7. 축제공연행사 선택 시 행사 기간으로 조회 (searchFestival2)
+ * 8. 숙박 선택 시 숙박시설 전용 API로 조회 (searchStay2)
+ * 9. 필터/검색어/정렬/페이지/북마크 필터를 URL 쿼리스트링과 동기화 (새로고침, 링크 공유, 뒤로가기 지원)
+ * 10. 반려동물 필터: 일반 목록 모드는 반려동물 인덱스를 한 번 조회 (전체 개수 기반 페이지네이션)
+ * 11. 내 반려동물 기준으로 보기: 반려동물 프로필의 크기/종류 조건을 필터에 적용
+ * 12. 북마크 필터 컬렉션 선택: 선택한 컬렉션에 담긴 관광지만 표시
+ * 13. 영업 상태 뱃지와 "지금 영업 중" 필터 (현재 페이지 목록의 운영시간 기준)
+ *
+ * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 관광지 목록 섹션
+ * @see {@link /docs/prd.md#23-키워드-검색} - PRD 문서의 키워드 검색 섹션
+ * @see {@link /docs/prd.md#22-naver-지도-연동} - PRD 문서의 지도 연동 섹션
+ * @see {@link /docs/reference/design/Design.md#1-홈페이지} - 디자인 문서의 홈페이지 레이아웃
+ */
+
+interface HomePageClientProps {
+  /** URL 쿼리스트링에서 복원한 초기 상태 (서버에서 파싱) */
+  initialState: HomeUrlState;
+}
+
+export default function HomePageClient({ initialState }: HomePageClientProps) {
+  const {
+    filters,
+    setAreaCode,
+    setSigunguCode,
+    setContentTypeId,
+    setCategory,
+    setPetFriendly,
+    setPetSize,
+    setPetType,
+    setPetPlace,
+    setEventDateRange,
+    setOpenNow,
+    replaceFilters,
+    resetFilters,
+  } = useTourFilter(initialState.filters);
+  const { sortOption, setSortOption } = useTourSort(initialState.sortOption);
+  const [searchKeyword, setSearchKeyword] = useState(initialState.keyword);
+  const [pageNo, setPageNo] = useState(initialState.pageNo);
+  const [selectedTourId, setSelectedTourId] = useState<string | undefined>();
+  const [hoveredTourId, setHoveredTourId] = useState<string | undefined>();
+  const [isBookmarkFilterActive, setIsBookmarkFilterActive] = useState(
+    initialState.isBookmarkFilterActive,
+  );
+  const [bookmarkCollectionId, setBookmarkCollectionId] = useState(
+    initialState.bookmarkCollectionId,
+  );
+  // 내 주변/지역 검색 기준 좌표 (radius가 없으면 기본 반경 사용)
+  const [nearbyArea, setNearbyArea] = useState<
+    (GeoPosition & { radius?: number }) | null
+  >(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // 북마크 목록 조회
+  const { bookmarkedContentIds } = useBookmarkList();
+
+  // 북마크 필터에서 선택한 컬렉션의 콘텐츠 ID (컬렉션이 없어졌으면 전체 북마크)
+  const { collections } = useBookmarkCollections();
+  const filterContentIds = useMemo(() => {
+    const collection = collections.find(
+      (item) => item.id === bookmarkCollectionId,
+    );
+    return collection
+      ? new Set(collection.items.map((item) => item.content_id))
+      : bookmarkedContentIds;
+  }, [collections, bookmarkCollectionId, bookmarkedContentIds]);
+
+  // 내 반려동물 기준 필터 조건 (반려동물 프로필이 없으면 null)
+  const { pets } = usePets();
+  const myPetsFilter = useMemo(() => getPetProfileFilter(pets), [pets]);
+
+  // 검색 모드 여부 확인
+  const isSearchMode = Boolean(searchKeyword && searchKeyword.trim() !== "");
+
+  // 내 주변 모드 여부 확인 (현재 위치 또는 지도 화면 기준 좌표가 있는 경우)
+  const isNearbyMode = nearbyArea !== null;
+
+  // 일반 목록 모드 여부 (검색/내 주변 모드가 아닌 경우)
+  const isListMode = !isSearchMode && !isNearbyMode;
+
+  // 반려동물 인덱스 모드 여부 (일반 목록 모드에서 반려동물 필터를 켠 경우)
+  const isPetIndexMode = Boolean(filters.petFriendly) && isListMode;
+
+  // 검색/내 주변 결과에 반려동물 필터를 적용하면 더 많은 관광지를 조회 (반려동물 정보가 있는 관광지가 적을 수 있음)
+  const numOfRows = filters.petFriendly && !isListMode ? 100 : 12; // 페이지당 항목 수
+
+  // 축제 모드 여부 (일반 목록 모드에서 축제공연행사 타입을 선택한 경우)
+  const isFestivalMode =
+    isListMode && filters.contentTypeId === FESTIVAL_CONTENT_TYPE_ID;
+
+  // 숙박 모드 여부 (일반 목록 모드에서 숙박 타입을 선택한 경우)
+  const isStayMode =
+    isListMode && filters.contentTypeId === STAY_CONTENT_TYPE_ID;
+
+  // 필터/검색/북마크 필터 변경 시 선택 초기화
+  // 페이지 리셋은 각 변경 핸들러에서 처리 (URL에서 복원한 페이지 번호를 유지하기 위해)
+  useEffect(() => {
+    setSelectedTourId(undefined);
+    setHoveredTourId(undefined);
+    console.log("[Home] 필터/검색/북마크 필터 변경으로 선택 초기화", {
+      petFriendly: filters.petFriendly,
+    });
+  }, [
+    filters.areaCode,
+    filters.sigunguCode,
+    filters.contentTypeId,
+    filters.cat1,
+    filters.cat2,
+    filters.cat3,
+    filters.petFriendly,
+    filters.petSize,
+    filters.petType,
+    filters.petPlace,
+    filters.eventStartDate,
+    filters.eventEndDate,
+    filters.openNow,
+    searchKeyword,
+    isBookmarkFilterActive,
+    bookmarkCollectionId,
+    nearbyArea,
+  ]);
+
+  // 일반 모드: useTourList 사용
+  const listQuery = useTourList({
+    areaCode: filters.areaCode,
+    sigunguCode: filters.sigunguCode,
+    contentTypeId: filters.contentTypeId,
+    cat1: filters.cat1,
+    cat2: filters.cat2,
+    cat3: filters.cat3,
+    numOfRows,
+    pageNo,
+    enabled: isListMode && !isFestivalMode && !isStayMode && !isPetIndexMode,
+  });
+
+  // 축제 모드: useFestivalList 사용 (지난 행사 제외)
+  const festivalQuery = useFestivalList({
+    eventStartDate: filters.eventStartDate,
+    eventEndDate: filters.eventEndDate,
+    areaCode: filters.areaCode,
+    sigunguCode: filters.sigunguCode,
+    numOfRows,
+    pageNo,
+    enabled: isFestivalMode && !isPetIndexMode,
+  });
+
+  // 숙박 모드: useStayList 사용
+  const stayQuery = useStayList({
+    areaCode: filters.areaCode,
+    sigunguCode: filters.sigunguCode,
+    numOfRows,
+    pageNo,
+    enabled: isStayMode && !isPetIndexMode,
+  });
+
+  // 검색 모드: useTourSearch 사용
+  const searchQuery = useTourSearch({
+    keyword: searchKeyword,
+    areaCode: filters.areaCode,
+    sigunguCode: filters.sigunguCode,
+    contentTypeId: filters.contentTypeId,
+    cat1: filters.cat1,
+    cat2: filters.cat2,
+    cat3: filters.cat3,
+    numOfRows,
+    pageNo,
+    enabled: isSearchMode,
+  });
+
+  // 내 주변 모드: useNearbyTours 사용
+  const nearbyQuery = useNearbyTours({
+    location: nearbyArea,
+    radius: nearbyArea?.radius,
+    contentTypeId: filters.contentTypeId,
+    numOfRows,
+    pageNo,
+    enabled: isNearbyMode,
+  });
+
+  // 반려동물 인덱스 모드: 동반 가능 관광지를 인덱스에서 한 번에 조회 (전체 개수 포함)
+  const petFriendlyQuery = usePetFriendlyTours({
+    areaCode: filters.areaCode,
+    sigunguCode: filters.sigunguCode,
+    contentTypeId: filters.contentTypeId,
+    cat1: filters.cat1,
+    cat2: filters.cat2,
+    cat3: filters.cat3,
+    petSize: filters.petSize,
+    petType: filters.petType,
+    petPlace: filters.petPlace,
+    numOfRows,
+    pageNo,
+    enabled: isPetIndexMode,
+  });
+
+  // 현재 사용할 데이터 결정
+  const { data: rawTours = [], isLoading } = isNearbyMode
+    ? nearbyQuery
+    : isSearchMode
+      ? searchQuery
+      : isFestivalMode
+        ? festivalQuery
+        : isStayMode
+          ? stayQuery
+          : listQuery;
+
+  // 반려동물 인덱스 모드에서는 인덱스 조회 결과 사용
+  const petFriendlyTours = useMemo(() => {
+    if (isPetIndexMode && petFriendlyQuery.data) {
+      return petFriendlyQuery.data.items.map((item) => item.tour);
+    }
+    return null;
+  }, [isPetIndexMode, petFriendlyQuery.data]);
+
+  // 반려동물 정보 맵 생성 (인덱스 조회 결과에서)
+  const petInfoMapFromQuery = useMemo(() => {
+    if (isPetIndexMode && petFriendlyQuery.data) {
+      const map = new Map();
+      petFriendlyQuery.data.items.forEach((item) => {
+        map.set(item.tour.contentid, item.petInfo);
+      });
+      return map;
+    }
+    return null;
+  }, [isPetIndexMode, petFriendlyQuery.data]);
+
+  // 반려동물 인덱스 모드의 전체 페이지 수
+  const petFriendlyTotalPages = petFriendlyQuery.data
+    ? Math.max(Math.ceil(petFriendlyQuery.data.totalCount / numOfRows), 1)
+    : undefined;
+
+  // 북마크 필터 적용
+  const toursAfterBookmark = useMemo(() => {
+    // 반려동물 인덱스 모드에서는 인덱스 조회 결과 사용
+    const sourceTours = petFriendlyTours || rawTours;
+
+    if (!isBookmarkFilterActive) {
+      return sourceTours;
+    }
+
+    // 북마크된 관광지만 필터링 (컬렉션을 선택했으면 컬렉션에 담긴 관광지만)
+    const filtered = sourceTours.filter((tour) =>
+      filterContentIds.has(tour.contentid),
+    );
+    console.log(
+      "[Home] 북마크 필터 적용:",
+      sourceTours.length,
+      "->",
+      filtered.length,
+    );
+    return filtered;
+  }, [rawTours, petFriendlyTours, isBookmarkFilterActive, filterContentIds]);
+
+  // 반려동물 필터 적용 (검색/내 주변 모드일 때만, 인덱스에서 목록 전체의 반려동물 정보 조회)
+  const {
+    filteredTours: toursFromFilter,
+    petInfoMap: petInfoMapFromFilter,
+    isLoading: isPetFilterLoading,
+  } = usePetTourFilter({
+    tours: toursAfterBookmark,
+    petFriendly: filters.petFriendly,
+    petSize: filters.petSize,
+    petType: filters.petType,
+    petPlace: filters.petPlace,
+    enabled: Boolean(filters.petFriendly) && !isPetIndexMode,
+  });
+
+  // 반려동물 필터까지 적용한 목록 (반려동물 인덱스 모드는 북마크 필터까지 적용한 인덱스 결과)
+  const toursAfterPet = isPetIndexMode ? toursAfterBookmark : toursFromFilter;
+
+  // 영업 상태 조회 및 지금 영업 중 필터 적용 (현재 페이지 목록 기준)
+  const {
+    filteredTours: tours,
+    openingStatusMap,
+    isLoading: isOpenNowFilterLoading,
+  } = useOpeningHours({
+    tours: toursAfterPet,
+    openNow: filters.openNow,
+  });
+
+  // 페이지네이션 기준 항목 수 (지금 영업 중 필터는 현재 페이지에만 적용되므로 필터 적용 전 개수)
+  const pageItemsCount = toursAfterPet.length;
+
+  // 최종 반려동물 정보 맵 결정
+  const petInfoMap =
+    isPetIndexMode && petInfoMapFromQuery
+      ? petInfoMapFromQuery
+      : petInfoMapFromFilter;
+
+  // 로딩 상태 결정
+  const isLoadingTours =
+    (isPetIndexMode
+      ? petFriendlyQuery.isLoading
+      : isLoading || isPetFilterLoading) || isOpenNowFilterLoading;
+
+  /**
+   * URL 쿼리스트링 동기화
+   * 뒤로가기/앞으로가기로 URL이 바뀌면 상태를 복원
+   */
+  useHomeUrlSync(
+    {
+      filters,
+      keyword: searchKeyword,
+      sortOption,
+      pageNo,
+      isBookmarkFilterActive,
+      bookmarkCollectionId,
+    },
+    (urlState) => {
+      replaceFilters(urlState.filters);
+      setSearchKeyword(urlState.keyword);
+      setSortOption(urlState.sortOption);
+      setPageNo(urlState.pageNo);
+      setIsBookmarkFilterActive(urlState.isBookmarkFilterActive);
+      setBookmarkCollectionId(urlState.bookmarkCollectionId);
+      // 내 주변 모드는 URL에 저장하지 않으므로 해제
+      setNearbyArea(null);
+    },
+  );
+
+  /**
+   * 검색어 입력 핸들러
+   */
+  const handleKeywordChange = (keyword: string) => {
+    setSearchKeyword(keyword);
+    setPageNo(1);
+  };
+
+  /**
+   * 검색 실행 핸들러
+   */
+  const handleSearch = (keyword: string) => {
+    setSearchKeyword(keyword);
+    setPageNo(1); // 검색 시 페이지 1로 리셋
+    // 검색 시 내 주변 모드 해제
+    if (isNearbyMode) {
+      exitNearbyMode();
+    }
+    console.log("[Home] 검색 실행:", keyword);
+  };
+
+  /**
+   * 검색 초기화 핸들러
+   */
+  const handleSearchClear = () => {
+    setSearchKeyword("");
+    setPageNo(1); // 검색 초기화 시 페이지 1로 리셋
+    console.log("[Home] 검색 초기화");
+  };
+
+  /**
+   * 필터 변경 핸들러 (페이지 리셋 포함)
+   */
+  const handleAreaCodeChange = (areaCode: string | undefined) => {
+    setAreaCode(areaCode);
+    setPageNo(1);
+    console.log("[Home] 지역 필터 변경:", areaCode);
+  };
+
+  const handleSigunguCodeChange = (sigunguCode: string | undefined) => {
+    setSigunguCode(sigunguCode);
+    setPageNo(1);
+    console.log("[Home] 시군구 필터 변경:", sigunguCode);
+  };
+
+  const handleContentTypeIdChange = (contentTypeId: string | undefined) => {
+    setContentTypeId(contentTypeId);
+    setPageNo(1);
+    console.log("[Home] 관광 타입 필터 변경:", contentTypeId);
+  };
+
+  const handleCategoryChange = (
+    cat1: string | undefined,
+    cat2: string | undefined,
+    cat3: string | undefined,
+  ) => {
+    setCategory(cat1, cat2, cat3);
+    setPageNo(1);
+    console.log("[Home] 서비스 분류 필터 변경:", { cat1, cat2, cat3 });
+  };
+
+  /**
+   * 내 반려동물 기준으로 보기 토글 핸들러
+   * 적용 시 반려동물 필터를 켜고 프로필의 크기/종류 조건을 설정, 해제 시 크기/종류 조건만 해제
+   */
+  const handleMyPetsFilterToggle = (apply: boolean) => {
+    if (apply && myPetsFilter) {
+      setPetFriendly(true);
+      setPetSize(myPetsFilter.petSize);
+      setPetType(myPetsFilter.petType);
+    } else {
+      setPetSize(undefined);
+      setPetType(undefined);
+    }
+    setPageNo(1);
+    console.log("[Home] 내 반려동물 기준 필터:", apply, myPetsFilter);
+  };
+
+  /**
+   * 필터 초기화 핸들러
+   */
+  const handleFilterReset = () => {
+    resetFilters();
+    setPageNo(1);
+    console.log("[Home] 필터 초기화");
+  };
+
+  /**
+   * 페이지 변경 핸들러
+   */
+  const handlePageChange = (page: number) => {
+    setPageNo(page);
+    // 페이지 변경 시 스크롤을 상단으로 이동
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    console.log("[Home] 페이지 변경:", page);
+  };
+
+  /**
+   * 관광지 호버 핸들러
+   * 리스트 항목 호버 시 지도에 위치 표시
+   */
+  const handleTourHover = (tourId: string | undefined) => {
+    console.log("[Home] 관광지 호버:", tourId);
+    setHoveredTourId(tourId);
+    // 호버 시 지도에 위치 표시
+    if (tourId) {
+      setSelectedTourId(tourId);
+    } else {
+      // 호버 아웃 시 선택 해제 (선택 사항)
+      // setSelectedTourId(undefined);
+    }
+  };
+
+  /**
+   * 내 주변 모드 해제
+   */
+  const exitNearbyMode = () => {
+    setNearbyArea(null);
+    setPageNo(1);
+    // 거리순은 내 주변 모드에서만 사용 가능하므로 기본 정렬로 복귀
+    if (sortOption === "distance") {
+      setSortOption("latest");
+    }
+    console.log("[Home] 내 주변 모드 해제");
+  };
+
+  /**
+   * 내 주변 모드 토글 핸들러
+   * 현재 위치를 가져와 주변 관광지를 거리순으로 표시
+   */
+  const handleNearbyToggle = async () => {
+    if (isNearbyMode) {
+      exitNearbyMode();
+      return;
+    }
+
+    setIsLocating(true);
+    try {
+      const position = await getCurrentPosition();
+      setSearchKeyword(""); // 내 주변 모드는 검색과 함께 사용하지 않음
+      setNearbyArea(position);
+      setPageNo(1);
+      setSortOption("distance");
+      console.log("[Home] 내 주변 모드 활성화:", position);
+    } catch (error) {
+      console.error("[Home] 현재 위치 가져오기 실패:", error);
+      toast.error(
+        error instanceof Error ? error.message : "위치를 가져올 수 없습니다.",
+      );
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  /**
+   * "이 지역에서 검색" 핸들러
+   * 지도 화면 중심과 반경으로 주변 관광지를 조회하여 목록과 마커를 교체
+   */
+  const handleSearchArea = (area: GeoArea) => {
+    setSearchKeyword(""); // 지역 검색은 키워드 검색과 함께 사용하지 않음
+    setNearbyArea(area);
+    setPageNo(1);
+    setSortOption("distance");
+    console.log("[Home] 이 지역에서 검색:", area);
+  };
+
+  /**
+   * 북마크 필터 토글 핸들러
+   */
+  const handleBookmarkFilterToggle = () => {
+    setIsBookmarkFilterActive((prev) => !prev);
+    setPageNo(1);
+    console.log("[Home] 북마크 필터 토글:", !isBookmarkFilterActive);
+  };
+
+  /**
+   * 북마크 필터 컬렉션 선택 핸들러
+   */
+  const handleBookmarkCollectionChange = (collectionId: string | undefined) => {
+    setBookmarkCollectionId(collectionId);
+    setPageNo(1);
+    console.log("[Home] 북마크 필터 컬렉션 선택:", collectionId ?? "전체");
+  };
+
+  return (
+    <main className="min-h-[calc(100vh-80px)]">
+      {/* 헤더 섹션 */}
+      <section className="border-b bg-background">
+        <div className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+          <div className="flex flex-col gap-4">
+            <h1 className="text-3xl font-bold sm:text-4xl lg:text-5xl">
+              한국의 아름다운 관광지를 탐험하세요
+            </h1>
+            <p className="text-muted-foreground">
+              전국의 다양한 관광지를 검색하고 둘러보세요
+            </p>
+          </div>
+        </div>
+      </section>
+
+      {/* 검색 섹션 */}
+      <section className="border-b bg-background">
+        <TourSearch
+          keyword={searchKeyword}
+          onKeywordChange={handleKeywordChange}
+          onSearch={handleSearch}
+          onClear={handleSearchClear}
+        />
+      </section>
+
+      {/* 필터 섹션 */}
+      <section className="border-b bg-background">
+        <TourFilter
+          areaCode={filters.areaCode}
+          sigunguCode={filters.sigunguCode}
+          contentTypeId={filters.contentTypeId}
+          cat1={filters.cat1}
+          cat2={filters.cat2}
+          cat3={filters.cat3}
+          petFriendly={filters.petFriendly}
+          petSize={filters.petSize}
+          petType={filters.petType}
+          petPlace={filters.petPlace}
+          onAreaCodeChange={handleAreaCodeChange}
+          onSigunguCodeChange={handleSigunguCodeChange}
+          onContentTypeIdChange={handleContentTypeIdChange}
+          onCategoryChange={handleCategoryChange}
+          onPetFriendlyChange={(petFriendly) => {
+            setPetFriendly(petFriendly);
+            setPageNo(1);
+            console.log("[Home] 반려동물 필터 변경:", petFriendly);
+          }}
+          onPetSizeChange={(petSize) => {
+            setPetSize(petSize);
+            setPageNo(1);
+            console.log("[Home] 반려동물 크기 필터 변경:", petSize);
+          }}
+          onPetTypeChange={(petType) => {
+            setPetType(petType);
+            setPageNo(1);
+            console.log("[Home] 반려동물 종류 필터 변경:", petType);
+          }}
+          onPetPlaceChange={(petPlace) => {
+            setPetPlace(petPlace);
+            setPageNo(1);
+            console.log("[Home] 반려동물 장소 필터 변경:", petPlace);
+          }}
+          eventStartDate={filters.eventStartDate}
+          eventEndDate={filters.eventEndDate}
+          onEventDateRangeChange={(eventStartDate, eventEndDate) => {
+            setEventDateRange(eventStartDate, eventEndDate);
+            setPageNo(1);
+            console.log("[Home] 행사 기간 필터 변경:", {
+              eventStartDate,
+              eventEndDate,
+            });
+          }}
+          myPetsFilter={myPetsFilter}
+          onMyPetsFilterToggle={handleMyPetsFilterToggle}
+          openNow={filters.openNow}
+          onOpenNowChange={(openNow) => {
+            setOpenNow(openNow);
+            setPageNo(1);
+            console.log("[Home] 지금 영업 중 필터 변경:", openNow);
+          }}
+          onReset={handleFilterReset}
+        />
+      </section>
+
+      {/* 정렬 섹션 */}
+      <section className="border-b bg-background">
+        <TourSort
+          sortOption={sortOption}
+          onSortChange={setSortOption}
+          isBookmarkFilterActive={isBookmarkFilterActive}
+          onBookmarkFilterToggle={handleBookmarkFilterToggle}
+          bookmarkCollectionId={bookmarkCollectionId}
+          onBookmarkCollectionChange={handleBookmarkCollectionChange}
+          isNearbyMode={isNearbyMode}
+          isLocating={isLocating}
+          onNearbyToggle={handleNearbyToggle}
+        />
+      </section>
+
+      {/* 관광지 목록 + 지도 섹션 */}
+      <section className="container mx-auto px-4 py-8 sm:px-6 lg:px-8">
+        {/* 모바일: 탭 형태로 리스트/지도 전환 */}
+        <div className="lg:hidden">
+          <Tabs defaultValue="list" className="flex flex-col gap-4">
+            <TabsList className="w-full justify-start">
+              <TabsTrigger value="list" className="flex items-center gap-2">
+                <List className="size-4" />
+                <span>목록</span>
+              </TabsTrigger>
+              <TabsTrigger value="map" className="flex items-center gap-2">
+                <MapIcon className="size-4" />
+                <span>지도</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="list" className="flex flex-col gap-6">
+              <TourList
+                tours={tours}
+                isLoading={isLoadingTours}
+                keyword={searchKeyword}
+                areaCode={filters.areaCode}
+                sigunguCode={filters.sigunguCode}
+                contentTypeId={filters.contentTypeId}
+                cat1={filters.cat1}
+                cat2={filters.cat2}
+                cat3={filters.cat3}
+                numOfRows={numOfRows}
+                pageNo={pageNo}
+                sortOption={sortOption}
+                selectedTourId={selectedTourId}
+                hoveredTourId={hoveredTourId}
+                onTourHover={handleTourHover}
+                isBookmarkFilterActive={isBookmarkFilterActive}
+                petInfoMap={petInfoMap}
+                isPetFilterActive={Boolean(filters.petFriendly)}
+                openingStatusMap={openingStatusMap}
+                isOpenNowFilterActive={Boolean(filters.openNow)}
+              />
+              {/* 페이지네이션 */}
+              {!isLoadingTours && pageItemsCount > 0 && (
+                <TourPagination
+                  currentPage={pageNo}
+                  totalPages={
+                    isPetIndexMode ? petFriendlyTotalPages : undefined
+                  }
+                  itemsPerPage={numOfRows}
+                  currentItemsCount={pageItemsCount}
+                  onPageChange={handlePageChange}
+                />
+              )}
+            </TabsContent>
+
+            <TabsContent value="map" className="flex flex-col gap-6" forceMount>
+              <NaverMap
+                tours={tours}
+                selectedTourId={selectedTourId}
+                height="min-h-[400px]"
+                enableClustering={true}
+                onSearchArea={handleSearchArea}
+                isSearchingArea={isNearbyMode && nearbyQuery.isFetching}
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        {/* 데스크톱: 리스트(좌측) + 지도(우측) 그리드 레이아웃 */}
+        <div className="hidden lg:grid lg:grid-cols-2 lg:gap-6">
+          {/* 리스트 뷰 (좌측 50%) */}
+          <div className="flex flex-col gap-6 overflow-y-auto lg:max-h-[calc(100vh-8rem)]">
+            <TourList
+              tours={tours}
+              isLoading={isLoadingTours}
+              keyword={searchKeyword}
+              areaCode={filters.areaCode}
+              sigunguCode={filters.sigunguCode}
+              contentTypeId={filters.contentTypeId}
+              cat1={filters.cat1}
+              cat2={filters.cat2}
+              cat3={filters.cat3}
+              numOfRows={numOfRows}
+              pageNo={pageNo}
+              sortOption={sortOption}
+              selectedTourId={selectedTourId}
+              hoveredTourId={hoveredTourId}
+              onTourHover={handleTourHover}
+              isBookmarkFilterActive={isBookmarkFilterActive}
+              petInfoMap={petInfoMap}
+              isPetFilterActive={Boolean(filters.petFriendly)}
+              openingStatusMap={openingStatusMap}
+              isOpenNowFilterActive={Boolean(filters.openNow)}
+            />
+            {/* 페이지네이션 */}
+            {!isLoadingTours && pageItemsCount > 0 && (
+              <TourPagination
+                currentPage={pageNo}
+                totalPages={isPetIndexMode ? petFriendlyTotalPages : undefined}
+                itemsPerPage={numOfRows}
+                currentItemsCount={pageItemsCount}
+                onPageChange={handlePageChange}
+              />
+            )}
+          </div>
+
+          {/* 지도 뷰 (우측 50%, sticky 포지셔닝) */}
+          <div className="flex flex-col lg:sticky lg:top-[8rem] lg:h-[calc(100vh-8rem)]">
+            {selectedTourId ? (
+              <NaverMap
+                tours={tours.filter(
+                  (tour) => tour.contentid === selectedTourId,
+                )}
+                selectedTourId={selectedTourId}
+                height="h-[calc(100vh-8rem)]"
+                enableClustering={false}
+              />
+            ) : (
+              <NaverMap
+                tours={tours}
+                selectedTourId={selectedTourId}
+                height="h-[calc(100vh-8rem)]"
+                enableClustering={true}
+                onSearchArea={handleSearchArea}
+                isSearchingArea={isNearbyMode && nearbyQuery.isFetching}
+              />
+            )}
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,28 @@
+import { handleTourApiMockRequest } from "@/lib/api/mock/tour-api-mock";
+
+/**
+ * @file route.ts
+ * @description 한국관광공사 공공 API 목 Route Handler
+ *
+ * 별도 서버 없이 Next.js 개발 서버 안에서 KorService2 목 응답을 제공합니다.
+ * TOUR_API_BASE_URL을 다음과 같이 설정하면 모든 Tour API 호출이 이 라우트로 향합니다.
+ *
+ * TOUR_API_BASE_URL=http://localhost:3000/api/mock/tour-api/B551011/KorService2
+ *
+ * 프로덕션에서는 TOUR_API_MOCK_ENABLED=true일 때만 응답합니다.
+ *
+ * @see {@link /lib/api/mock/tour-api-mock.ts} - 픽스처 및 시나리오 정의
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  if (
+    process.env.NODE_ENV === "production" &&
+    process.env.TOUR_API_MOCK_ENABLED !== "true"
+  ) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  return handleTourApiMockRequest(request);
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { refreshPetIndex } from "@/lib/api/pet-index";
+import { isCronRequestAuthorized } from "@/lib/utils/cron-auth";
+
+/**
+ * @file route.ts
+ * @description 반려동물 동반 가능 관광지 인덱스 갱신 API
+ *
+ * 카탈로그 미러(tours)의 관광지 중 미확인/수정일 변경/30일 경과 관광지의
+ * detailPetTour2를 조회해 tour_pet_index에 저장합니다.
+ * `Authorization: Bearer <CRON_SECRET>` 헤더가 있어야 실행됩니다.
+ *
+ * 주요 기능:
+ * 1. GET: 스케줄러(Vercel Cron 등)용 기본 갱신
+ * 2. POST: 수동 실행, JSON 본문으로 limit(확인할 최대 관광지 수) 지정
+ *
+ * @see {@link /lib/api/pet-index.ts} - 인덱스 갱신 로직
+ * @see {@link /scripts/refresh-pet-index.ts} - 같은 작업을 실행하는 CLI
+ */
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * 인덱스 갱신 후 결과 응답
+ */
+async function handleRefresh(limit?: number) {
+  try {
+    const result = await refreshPetIndex({ limit });
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error("[Pet Index API] 인덱스 갱신 실패:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to refresh pet index",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return handleRefresh();
+}
+
+export async function POST(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    limit?: unknown;
+  };
+
+  const limit = body.limit === undefined ? undefined : Number(body.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return NextResponse.json(
+      { error: "limit은 1 이상의 정수여야 합니다." },
+      { status: 400 },
+    );
+  }
+
+  return handleRefresh(limit);
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { runTourSync } from "@/lib/api/tour-sync";
+import type { TourSyncMode } from "@/lib/types/tour-mirror";
+import { isCronRequestAuthorized } from "@/lib/utils/cron-auth";
+
+/**
+ * @file route.ts
+ * @description 관광지 카탈로그 미러 동기화 API
+ *
+ * Supabase tours 테이블을 한국관광공사 API와 동기화합니다.
+ * `Authorization: Bearer <CRON_SECRET>` 헤더가 있어야 실행됩니다.
+ *
+ * 주요 기능:
+ * 1. GET: 스케줄러(Vercel Cron 등)용 기본 동기화 (증분, 기록이 없으면 전체)
+ * 2. POST: 수동 실행, JSON 본문으로 mode("full" | "incremental")와 detailLimit 지정
+ *
+ * @see {@link /lib/api/tour-sync.ts} - 동기화 로직
+ * @see {@link /scripts/sync-tours.ts} - 같은 동기화를 실행하는 CLI
+ */
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * 동기화 모드 값인지 확인
+ */
+function isTourSyncMode(value: unknown): value is TourSyncMode {
+  return value === "full" || value === "incremental";
+}
+
+/**
+ * 동기화 실행 후 결과 응답
+ */
+async function handleSync(options: {
+  mode?: TourSyncMode;
+  detailLimit?: number;
+}) {
+  try {
+    const result = await runTourSync({ ...options, trigger: "api" });
+    return NextResponse.json({ success: true, run: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Tour Sync API] 동기화 실패:", error);
+
+    const status = message.includes("이미 진행 중인 동기화") ? 409 : 500;
+    return NextResponse.json(
+      { error: "Failed to sync tours", details: message },
+      { status },
+    );
+  }
+}
+
+export async function GET(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return handleSync({});
+}
+
+export async function POST(request: Request) {
+  if (!isCronRequestAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    mode?: unknown;
+    detailLimit?: unknown;
+  };
+
+  const mode = isTourSyncMode(body.mode) ? body.mode : undefined;
+  if (body.mode !== undefined && !mode) {
+    return NextResponse.json(
+      { error: 'mode는 "full" 또는 "incremental"이어야 합니다.' },
+      { status: 400 },
+    );
+  }
+
+  const detailLimit =
+    body.detailLimit === undefined ? undefined : Number(body.detailLimit);
+  if (
+    detailLimit !== undefined &&
+    (!Number.isInteger(detailLimit) || detailLimit < 0)
+  ) {
+    return NextResponse.json(
+      { error: "detailLimit은 0 이상의 정수여야 합니다." },
+      { status: 400 },
+    );
+  }
+
+  return handleSync({ mode, detailLimit });
+}
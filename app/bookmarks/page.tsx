@@ -12,12 +12,22 @@ import BookmarkList from "@/components/bookmarks/BookmarkList";
  * 주요 기능:
  * 1. 인증된 사용자만 접근 가능
  * 2. 북마크한 관광지 목록 표시
- * 3. 정렬 옵션 (최신순, 이름순, 지역별)
+ * 3. 정렬 옵션 (직접 정렬, 최신순, 이름순, 지역별, 평점순, 방문일순)
  * 4. 일괄 삭제 기능
+ * 5. 컬렉션 탭 (컬렉션 만들기/이름 변경/삭제, 드래그로 순서 변경)
+ * 6. 여행 기록 (메모, 태그, 방문 상태, 평점) 편집 및 필터
+ * 7. 북마크 내보내기 (JSON/CSV/GPX/KML) 및 가져오기 (JSON/CSV)
+ * 8. 전체 북마크/컬렉션 공개 (읽기 전용 /lists/[slug] 페이지, 조회수)
+ * 9. 공유 컬렉션 (이메일/링크 초대, 보기 전용/편집자 역할, 실시간 반영)
+ *    - ?collection=<id>로 들어오면 해당 컬렉션 탭을 먼저 표시 (초대 수락 후 이동)
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
  */
 
+interface PageProps {
+  searchParams: Promise<{ collection?: string | string[] }>;
+}
+
 /**
  * 메타데이터 생성 (SEO 최적화)
  */
@@ -42,7 +52,7 @@ export async function generateMetadata(): Promise<Metadata> {
 /**
  * 북마크 목록 페이지 메인 컴포넌트
  */
-export default async function BookmarksPage() {
+export default async function BookmarksPage({ searchParams }: PageProps) {
   // 인증 확인
   const { userId } = await auth();
 
@@ -54,7 +64,14 @@ export default async function BookmarksPage() {
     redirect("/sign-in");
   }
 
-  console.log("[BookmarksPage] 북마크 목록 페이지 렌더링:", { userId });
+  const { collection } = await searchParams;
+  const initialCollectionId =
+    typeof collection === "string" ? collection : undefined;
+
+  console.log("[BookmarksPage] 북마크 목록 페이지 렌더링:", {
+    userId,
+    initialCollectionId,
+  });
 
   return (
     <div className="container mx-auto px-4 py-6 md:py-8">
@@ -68,7 +85,7 @@ export default async function BookmarksPage() {
         </div>
 
         {/* 북마크 목록 */}
-        <BookmarkList />
+        <BookmarkList initialCollectionId={initialCollectionId} />
       </div>
     </div>
   );
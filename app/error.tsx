@@ -4,6 +4,10 @@ import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { AlertCircle, RefreshCw, Home } from "lucide-react";
 import Link from "next/link";
+import {
+  getTourApiErrorInfo,
+  getTourApiErrorMessage,
+} from "@/lib/api/tour-api-errors";
 
 /**
  * @file error.tsx
@@ -11,6 +15,11 @@ import Link from "next/link";
  *
  * Next.js App Router의 에러 바운더리입니다.
  * 서버 컴포넌트나 레이아웃에서 발생한 에러를 캐치합니다.
+ *
+ * 한국관광공사 API 에러는 digest에 담긴 에러 코드로 한도 초과, 서비스 키 오류 등을
+ * 구분하여 한국어 메시지를 표시합니다.
+ *
+ * @see {@link /lib/api/tour-api-errors.ts} - Tour API 에러 코드 정의
  */
 
 interface ErrorProps {
@@ -24,6 +33,8 @@ export default function Error({ error, reset }: ErrorProps) {
     console.error("[Error Page] 에러 발생:", error);
   }, [error]);
 
+  const tourApiError = getTourApiErrorInfo(error);
+
   return (
     <div className="flex min-h-screen flex-col items-center justify-center gap-6 p-6">
       <div className="flex flex-col items-center gap-4 text-center">
@@ -31,12 +42,21 @@ export default function Error({ error, reset }: ErrorProps) {
           <AlertCircle className="size-8 text-destructive" />
         </div>
         <div className="flex flex-col items-center gap-2">
-          <h1 className="text-2xl font-bold">오류가 발생했습니다</h1>
+          <h1 className="text-2xl font-bold">
+            {tourApiError?.title ?? "오류가 발생했습니다"}
+          </h1>
           <p className="max-w-md text-sm text-muted-foreground">
-            {error.message ||
-              "예상치 못한 오류가 발생했습니다. 페이지를 새로고침하거나 다시 시도해주세요."}
+            {getTourApiErrorMessage(
+              error,
+              "예상치 못한 오류가 발생했습니다. 페이지를 새로고침하거나 다시 시도해주세요.",
+            )}
           </p>
-          {error.digest && (
+          {tourApiError?.resultCode && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              오류 코드: {tourApiError.resultCode}
+            </p>
+          )}
+          {error.digest && !tourApiError && (
             <p className="mt-2 text-xs text-muted-foreground">
               에러 ID: {error.digest}
             </p>
@@ -0,0 +1,67 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getCollectionInvitePreview } from "@/actions/get-collection-invites";
+import AcceptInviteCard from "@/components/invites/AcceptInviteCard";
+import { Button } from "@/components/ui/button";
+
+/**
+ * @file app/invites/[token]/page.tsx
+ * @description 컬렉션 초대 수락 페이지
+ *
+ * 공유 컬렉션 초대 링크(이메일 초대 포함)를 연 사용자가 초대를 수락하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 초대 내용 표시 (컬렉션 이름, 초대한 사람, 역할)
+ * 2. 로그인 후 수락 → 북마크 목록의 해당 컬렉션 탭으로 이동
+ * 3. 만료되었거나 취소된 초대 안내
+ * 4. 검색 엔진 색인 제외 (초대 링크는 비공개)
+ *
+ * @see {@link /components/invites/AcceptInviteCard.tsx} - 초대 수락 카드
+ * @see {@link /components/bookmarks/ShareCollectionDialog.tsx} - 초대 링크 만들기
+ */
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * 메타데이터 생성 (초대 링크는 검색 엔진에 노출하지 않음)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: "공유 컬렉션 초대 - My Trip",
+    description: "함께 여행할 관광지 컬렉션에 초대받았습니다.",
+    robots: { index: false, follow: false },
+  };
+}
+
+/**
+ * 컬렉션 초대 수락 페이지 메인 컴포넌트
+ */
+export default async function InvitePage({ params }: PageProps) {
+  const { token } = await params;
+  const invite = await getCollectionInvitePreview(token);
+
+  console.log("[InvitePage] 초대 페이지 렌더링:", {
+    valid: Boolean(invite),
+  });
+
+  return (
+    <div className="container mx-auto max-w-xl px-4 py-12 md:py-16">
+      {invite ? (
+        <AcceptInviteCard invite={invite} />
+      ) : (
+        <div className="flex flex-col items-center gap-4 rounded-lg border border-muted bg-muted/50 p-8 text-center">
+          <h1 className="text-xl font-semibold">초대를 사용할 수 없습니다</h1>
+          <p className="text-sm text-muted-foreground">
+            만료되었거나 취소된 초대입니다. 초대한 사람에게 새 링크를
+            요청하세요.
+          </p>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/bookmarks">북마크 목록으로</Link>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { koKR } from "@clerk/localizations";
 import { Geist, Geist_Mono } from "next/font/google";
 
 import Navbar from "@/components/Navbar";
+import { LocaleProvider } from "@/components/providers/locale-provider";
 import { SyncUserProvider } from "@/components/providers/sync-user-provider";
 import { ReactQueryProvider } from "@/components/providers/react-query-provider";
 import { ThemeProvider } from "@/components/providers/theme-provider";
@@ -79,11 +80,13 @@ export default function RootLayout({
             disableTransitionOnChange
           >
             <ReactQueryProvider>
-              <SyncUserProvider>
-                <Navbar />
-                {children}
-                <Toaster />
-              </SyncUserProvider>
+              <LocaleProvider>
+                <SyncUserProvider>
+                  <Navbar />
+                  {children}
+                  <Toaster />
+                </SyncUserProvider>
+              </LocaleProvider>
             </ReactQueryProvider>
           </ThemeProvider>
         </body>
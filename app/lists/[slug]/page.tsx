@@ -0,0 +1,198 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Eye, MapPin } from "lucide-react";
+import {
+  getPublishedList,
+  incrementPublicListView,
+} from "@/lib/api/public-list-api";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { getPublicListUrl } from "@/lib/utils/public-list";
+import PublicListView from "@/components/lists/PublicListView";
+import ShareButton from "@/components/tour-detail/ShareButton";
+import { Button } from "@/components/ui/button";
+
+/**
+ * @file app/lists/[slug]/page.tsx
+ * @description 공개 북마크 리스트 페이지
+ *
+ * 사용자가 공개한 북마크 목록(전체 또는 컬렉션)을 로그인 없이 볼 수 있는 읽기 전용 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 리스트 제목, 설명, 관광지 수, 조회수 표시
+ * 2. 모든 관광지를 지도에 표시 + 카드 목록
+ * 3. SEO/공유 미리보기 (generateMetadata, 첫 관광지 이미지를 OG 이미지로 사용)
+ * 4. 공개 중단했거나 없는 리스트는 404
+ * 5. 방문할 때마다 조회수 증가
+ *
+ * @see {@link /lib/api/public-list-api.ts} - 공개 리스트 API 함수들
+ * @see {@link /components/bookmarks/PublishListDialog.tsx} - 공개 설정 다이얼로그
+ */
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * 공개 리스트 조회 (generateMetadata와 페이지 렌더링이 한 요청 안에서 결과 공유)
+ */
+const loadPublishedList = cache(async (slug: string) =>
+  getPublishedList(getServiceRoleClient(), slug),
+);
+
+/**
+ * 메타데이터 생성 (SEO 최적화)
+ */
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+
+  try {
+    const published = await loadPublishedList(slug);
+
+    if (!published) {
+      return {
+        title: "리스트 정보 없음 - My Trip",
+        description: "요청하신 리스트를 찾을 수 없거나 공개가 중단되었습니다.",
+      };
+    }
+
+    const { list, tours } = published;
+
+    // 설명 생성 (설명이 없으면 관광지 이름 나열, 100자 이내)
+    const description = (
+      list.description ||
+      `${tours.length}곳: ${tours
+        .slice(0, 5)
+        .map((tour) => tour.title)
+        .join(", ")}`
+    )
+      .slice(0, 100)
+      .replace(/\n/g, " ")
+      .trim();
+
+    // 이미지 URL (대표 이미지가 있는 첫 관광지)
+    const imageUrl = tours
+      .map((tour) => tour.firstimage || tour.firstimage2)
+      .find(Boolean);
+
+    // 페이지 URL 생성
+    const pageUrl = getPublicListUrl(slug);
+
+    console.log("[generateMetadata] 공개 리스트 메타데이터 생성:", {
+      title: list.title,
+      tours: tours.length,
+      imageUrl: imageUrl ? "있음" : "없음",
+      pageUrl,
+    });
+
+    return {
+      title: `${list.title} - My Trip`,
+      description,
+      openGraph: {
+        title: list.title,
+        description,
+        images: imageUrl
+          ? [
+              {
+                url: imageUrl,
+                width: 1200,
+                height: 630,
+                alt: list.title,
+              },
+            ]
+          : [],
+        url: pageUrl,
+        type: "website",
+        siteName: "My Trip",
+      },
+      twitter: {
+        card: imageUrl ? "summary_large_image" : "summary",
+        title: list.title,
+        description,
+        images: imageUrl ? [imageUrl] : [],
+      },
+    };
+  } catch (error) {
+    console.error("[generateMetadata] 에러:", error);
+    return {
+      title: "공개 리스트 - My Trip",
+      description: "공유된 관광지 리스트를 확인하세요.",
+    };
+  }
+}
+
+/**
+ * 공개 북마크 리스트 페이지 메인 컴포넌트
+ */
+export default async function PublicListPage({ params }: PageProps) {
+  const { slug } = await params;
+  const published = await loadPublishedList(slug);
+
+  if (!published) {
+    notFound();
+  }
+
+  const { list, tours } = published;
+
+  // 조회수 증가 (실패해도 페이지는 표시)
+  let viewCount = list.view_count;
+  try {
+    viewCount =
+      (await incrementPublicListView(getServiceRoleClient(), slug)) ??
+      viewCount;
+  } catch (error) {
+    console.error("[PublicListPage] 조회수 증가 실패:", error);
+  }
+
+  console.log("[PublicListPage] 공개 리스트 페이지 렌더링:", {
+    slug,
+    tours: tours.length,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-8">
+      <div className="flex flex-col gap-6 md:gap-8">
+        {/* 리스트 제목 */}
+        <div className="flex flex-col gap-3">
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="flex-1 text-3xl font-bold md:text-4xl">
+              {list.title}
+            </h1>
+            <ShareButton size="sm" variant="outline" />
+          </div>
+          {list.description && (
+            <p className="whitespace-pre-line text-muted-foreground">
+              {list.description}
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <span className="inline-flex items-center gap-1">
+              <MapPin className="size-4" />
+              관광지 {tours.length}곳
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <Eye className="size-4" />
+              조회 {viewCount.toLocaleString()}회
+            </span>
+          </div>
+        </div>
+
+        {/* 지도 + 관광지 목록 */}
+        <PublicListView tours={tours} />
+
+        {/* 서비스 안내 */}
+        <div className="flex flex-col items-center gap-3 rounded-lg border bg-muted/30 p-6 text-center">
+          <p className="text-sm text-muted-foreground">
+            My Trip에서 관광지를 북마크하고 나만의 리스트를 만들어 보세요.
+          </p>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/">관광지 둘러보기</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
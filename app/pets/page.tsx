@@ -0,0 +1,65 @@
+import type { Metadata } from "next";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import PetProfileManager from "@/components/pets/PetProfileManager";
+
+/**
+ * @file app/pets/page.tsx
+ * @description 반려동물 프로필 페이지
+ *
+ * 사용자의 반려동물 프로필을 등록하고 관리하는 페이지입니다.
+ * 등록한 프로필은 홈 필터의 "내 반려동물 기준으로 보기"와 관광지별 동반 가능 표시에 사용됩니다.
+ *
+ * 주요 기능:
+ * 1. 인증된 사용자만 접근 가능
+ * 2. 반려동물 목록 표시
+ * 3. 반려동물 추가/수정/삭제 (이름, 종류, 품종, 체중, 크기)
+ *
+ * @see {@link /lib/utils/pet-profile.ts} - 반려동물 프로필 기준 필터/동반 가능 판별
+ */
+
+/**
+ * 메타데이터 생성 (SEO 최적화)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: "내 반려동물 - My Trip",
+    description:
+      "반려동물 프로필을 등록하고 함께 갈 수 있는 관광지를 찾아보세요.",
+    robots: { index: false },
+  };
+}
+
+/**
+ * 반려동물 프로필 페이지 메인 컴포넌트
+ */
+export default async function PetsPage() {
+  // 인증 확인
+  const { userId } = await auth();
+
+  // 인증되지 않은 경우 로그인 페이지로 리다이렉트
+  if (!userId) {
+    console.log("[PetsPage] 인증되지 않은 사용자, 로그인 페이지로 리다이렉트");
+    redirect("/sign-in");
+  }
+
+  console.log("[PetsPage] 반려동물 프로필 페이지 렌더링:", { userId });
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-8">
+      <div className="flex flex-col gap-6 md:gap-8">
+        {/* 페이지 제목 */}
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold md:text-4xl">내 반려동물</h1>
+          <p className="text-muted-foreground">
+            반려동물을 등록하면 홈에서 &quot;내 반려동물 기준으로 보기&quot;로
+            함께 갈 수 있는 관광지를 바로 찾을 수 있습니다.
+          </p>
+        </div>
+
+        {/* 반려동물 프로필 목록/편집 */}
+        <PetProfileManager />
+      </div>
+    </div>
+  );
+}
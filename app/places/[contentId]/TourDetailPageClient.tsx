@@ -8,12 +8,15 @@ import TourDetailMap from "@/components/tour-detail/TourDetailMap";
 import TourDetailIntro from "@/components/tour-detail/TourDetailIntro";
 import TourDetailGallery from "@/components/tour-detail/TourDetailGallery";
 import TourDetailPetTour from "@/components/tour-detail/TourDetailPetTour";
+import TourDetailRooms from "@/components/tour-detail/TourDetailRooms";
 import { useTourDetail } from "@/hooks/useTourDetail";
 import { useTourIntro } from "@/hooks/useTourIntro";
 import { useTourImages } from "@/hooks/useTourImages";
 import { useTourPet } from "@/hooks/useTourPet";
+import { useTourRooms } from "@/hooks/useTourRooms";
 import { LoadingSpinner } from "@/components/LoadingSpinner";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { getTourApiErrorMessage } from "@/lib/api/tour-api-errors";
 
 /**
  * @file TourDetailPageClient.tsx
@@ -39,6 +42,10 @@ export default function TourDetailPageClient({
   );
   const { data: images, isLoading: isLoadingImages } = useTourImages(contentId);
   const { data: petInfo, isLoading: isLoadingPetInfo } = useTourPet(contentId);
+  const { data: rooms, isLoading: isLoadingRooms } = useTourRooms(
+    contentId,
+    detail?.contenttypeid || "",
+  );
 
   if (isLoading) {
     return (
@@ -54,9 +61,10 @@ export default function TourDetailPageClient({
         <div className="flex flex-col items-center gap-4">
           <h2 className="text-2xl font-semibold">정보를 불러올 수 없습니다</h2>
           <p className="text-muted-foreground">
-            {error instanceof Error
-              ? error.message
-              : "오류가 발생했습니다. 잠시 후 다시 시도해주세요."}
+            {getTourApiErrorMessage(
+              error,
+              "오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+            )}
           </p>
           <Link href="/">
             <Button variant="default">홈으로 가기</Button>
@@ -104,6 +112,7 @@ export default function TourDetailPageClient({
           <div className="flex flex-col gap-12">
             <TourDetailInfo detail={detail} />
             <TourDetailIntro intro={intro} isLoading={isLoadingIntro} />
+            <TourDetailRooms rooms={rooms} isLoading={isLoadingRooms} />
             <TourDetailPetTour petInfo={petInfo} isLoading={isLoadingPetInfo} />
             <TourDetailGallery
               images={images || []}
@@ -21,6 +21,8 @@ export default function robots(): MetadataRoute.Robots {
           "/api/",
           "/auth-test/",
           "/storage-test/",
+          "/invites/",
+          "/trips/",
           "/_next/",
           "/admin/",
         ],
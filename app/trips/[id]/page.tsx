@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import { getTrip } from "@/actions/get-trips";
+import TripPlanner from "@/components/trips/TripPlanner";
+
+/**
+ * @file app/trips/[id]/page.tsx
+ * @description 여행 일정 편집 페이지
+ *
+ * 여행 하나의 날짜별/시간대별 일정을 만드는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 인증된 사용자만 접근 가능 (다른 사용자의 여행은 404)
+ * 2. 날짜 탭과 시간대(오전/점심/오후/저녁/밤) 칸
+ * 3. 북마크/검색 결과를 끌어다 놓아 일정 추가, 자유 일정 추가
+ * 4. 선택한 날짜의 경로를 Naver 지도에 표시
+ *
+ * @see {@link /components/trips/TripPlanner.tsx} - 여행 일정 편집 컴포넌트
+ */
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 메타데이터 생성 (개인 여행 일정은 검색 엔진에 노출하지 않음)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: "여행 일정 편집 - My Trip",
+    description: "날짜별, 시간대별로 여행 일정을 계획하세요.",
+    robots: { index: false },
+  };
+}
+
+/**
+ * 여행 일정 편집 페이지 메인 컴포넌트
+ */
+export default async function TripPage({ params }: PageProps) {
+  // 인증 확인
+  const { userId } = await auth();
+
+  // 인증되지 않은 경우 로그인 페이지로 리다이렉트
+  if (!userId) {
+    console.log("[TripPage] 인증되지 않은 사용자, 로그인 페이지로 리다이렉트");
+    redirect("/sign-in");
+  }
+
+  const { id } = await params;
+  const trip = await getTrip(id);
+
+  if (!trip) {
+    console.log("[TripPage] 여행을 찾을 수 없음:", { id });
+    notFound();
+  }
+
+  console.log("[TripPage] 여행 일정 편집 페이지 렌더링:", {
+    id,
+    stops: trip.stops.length,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-8">
+      <TripPlanner initialTrip={trip} />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { Metadata } from "next";
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import TripList from "@/components/trips/TripList";
+
+/**
+ * @file app/trips/page.tsx
+ * @description 여행 목록 페이지
+ *
+ * 사용자가 만든 여행(날짜별 일정) 목록을 표시하는 페이지입니다.
+ *
+ * 주요 기능:
+ * 1. 인증된 사용자만 접근 가능
+ * 2. 여행 목록 표시 (제목, 기간, 일정 수)
+ * 3. 새 여행 만들기 (제목, 기간) → 일정 편집 페이지(/trips/[id])로 이동
+ * 4. 여행 삭제
+ *
+ * @see {@link /components/trips/TripList.tsx} - 여행 목록 컴포넌트
+ */
+
+/**
+ * 메타데이터 생성 (개인 여행 일정은 검색 엔진에 노출하지 않음)
+ */
+export async function generateMetadata(): Promise<Metadata> {
+  return {
+    title: "여행 일정 - My Trip",
+    description: "여행 기간을 정하고 날짜별, 시간대별로 일정을 계획하세요.",
+    robots: { index: false },
+  };
+}
+
+/**
+ * 여행 목록 페이지 메인 컴포넌트
+ */
+export default async function TripsPage() {
+  // 인증 확인
+  const { userId } = await auth();
+
+  // 인증되지 않은 경우 로그인 페이지로 리다이렉트
+  if (!userId) {
+    console.log("[TripsPage] 인증되지 않은 사용자, 로그인 페이지로 리다이렉트");
+    redirect("/sign-in");
+  }
+
+  console.log("[TripsPage] 여행 목록 페이지 렌더링:", { userId });
+
+  return (
+    <div className="container mx-auto px-4 py-6 md:py-8">
+      <div className="flex flex-col gap-6 md:gap-8">
+        {/* 페이지 제목 */}
+        <div className="flex flex-col gap-2">
+          <h1 className="text-3xl font-bold md:text-4xl">여행 일정</h1>
+          <p className="text-muted-foreground">
+            여행 기간을 정하고 북마크한 관광지를 날짜별, 시간대별로 배치해
+            보세요.
+          </p>
+        </div>
+
+        {/* 여행 목록 */}
+        <TripList />
+      </div>
+    </div>
+  );
+}
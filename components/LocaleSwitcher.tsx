@@ -0,0 +1,60 @@
+"use client";
+
+import { Globe } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTourLocale } from "@/components/providers/locale-provider";
+import { isTourLocale, TOUR_LOCALE_OPTIONS } from "@/lib/utils/locale";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file LocaleSwitcher.tsx
+ * @description 관광 콘텐츠 언어 선택 컴포넌트
+ *
+ * 관광지 정보를 조회할 언어(한국어/영어/일본어/중국어)를 선택하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 언어 선택 시 해당 언어 서비스(EngService2 등)로 목록/상세 정보 다시 조회
+ * 2. 선택한 언어를 쿠키에 저장하여 새로고침 후에도 유지
+ */
+
+interface LocaleSwitcherProps {
+  className?: string;
+}
+
+export default function LocaleSwitcher({ className }: LocaleSwitcherProps) {
+  const { locale, setLocale } = useTourLocale();
+
+  /**
+   * 언어 변경 핸들러
+   */
+  const handleLocaleChange = (value: string) => {
+    if (isTourLocale(value)) {
+      setLocale(value);
+    }
+  };
+
+  return (
+    <Select value={locale} onValueChange={handleLocaleChange}>
+      <SelectTrigger
+        className={cn("w-[120px]", className)}
+        aria-label="관광 정보 언어 선택"
+      >
+        <Globe className="size-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TOUR_LOCALE_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -4,6 +4,7 @@ import { SignedOut, SignInButton, SignedIn, UserButton } from "@clerk/nextjs";
 import Link from "next/link";
 import React from "react";
 import { Button } from "@/components/ui/button";
+import LocaleSwitcher from "@/components/LocaleSwitcher";
 
 const Navbar = () => {
   return (
@@ -19,12 +20,19 @@ const Navbar = () => {
         <Button asChild variant="ghost" className="hidden sm:flex">
           <Link href="/stats">통계</Link>
         </Button>
+        <LocaleSwitcher />
         <SignedOut>
           <SignInButton mode="modal">
             <Button>로그인</Button>
           </SignInButton>
         </SignedOut>
         <SignedIn>
+          <Button asChild variant="ghost" className="hidden sm:flex">
+            <Link href="/trips">여행 일정</Link>
+          </Button>
+          <Button asChild variant="ghost" className="hidden sm:flex">
+            <Link href="/pets">내 반려동물</Link>
+          </Button>
           <UserButton />
         </SignedIn>
       </div>
@@ -4,8 +4,10 @@ import { useEffect, useRef, useId, useState, useCallback } from "react";
 import { useNaverMap } from "@/hooks/useNaverMap";
 import type { TourItem } from "@/lib/types/tour";
 import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
+import { getDistanceMeters, type GeoArea } from "@/lib/utils/geolocation";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2, RefreshCw } from "lucide-react";
 import { cn } from "@/lib/utils";
 import MapControls from "@/components/MapControls";
 
@@ -20,6 +22,7 @@ import MapControls from "@/components/MapControls";
  * 2. 마커 클릭 시 정보창 표시
  * 3. 선택된 마커 강조 기능
  * 4. 마커 클러스터링 지원
+ * 5. 지도 이동/확대 후 "이 지역에서 검색" (화면 중심과 반경으로 주변 관광지 검색)
  *
  * @see {@link /docs/prd.md#22-naver-지도-연동} - PRD 문서의 지도 연동 섹션
  * @see {@link /docs/reference/design/Design.md#1-홈페이지} - 디자인 문서의 지도 레이아웃
@@ -38,6 +41,10 @@ interface NaverMapProps {
   height?: string;
   /** 마커 클러스터링 사용 여부 (기본값: true) */
   enableClustering?: boolean;
+  /** "이 지역에서 검색" 핸들러 (지정 시 지도 이동 후 검색 버튼 표시) */
+  onSearchArea?: (area: GeoArea) => void;
+  /** 지역 검색 결과 조회 중 여부 */
+  isSearchingArea?: boolean;
 }
 
 /**
@@ -98,6 +105,8 @@ function NaverMapComponent({
   className,
   height = "h-[400px] md:h-[600px]",
   enableClustering = true,
+  onSearchArea,
+  isSearchingArea = false,
 }: NaverMapProps) {
   const mapId = useId();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -108,6 +117,7 @@ function NaverMapComponent({
   const measuringPolylineRef = useRef<naver.maps.Polyline | null>(null);
   const measuringMarkersRef = useRef<naver.maps.Marker[]>([]);
   const measuringPointsRef = useRef<naver.maps.LatLng[]>([]);
+  const [isAreaChanged, setIsAreaChanged] = useState(false);
 
   // 지도 훅 사용 (containerRef 우선, fallback으로 mapId 사용)
   const {
@@ -119,6 +129,7 @@ function NaverMapComponent({
     moveToTour,
     showInfoWindow,
     moveToCurrentLocation,
+    isProgrammaticMove,
   } = useNaverMap({
     containerRef: containerRef,
     containerId: mapId, // fallback
@@ -189,6 +200,61 @@ function NaverMapComponent({
     }
   }, [map, isLoading, selectedTourId, tours, moveToTour, showInfoWindow]);
 
+  /**
+   * 사용자가 지도를 이동/확대하면 "이 지역에서 검색" 버튼 표시
+   */
+  useEffect(() => {
+    if (!map || !onSearchArea || !window.naver?.maps) {
+      return;
+    }
+
+    const naverMaps = window.naver.maps;
+    // 선택된 관광지/현재 위치로 이동하는 등 코드에 의한 지도 이동은 제외
+    const handleUserMove = () => {
+      if (!isProgrammaticMove()) {
+        setIsAreaChanged(true);
+      }
+    };
+
+    const listeners = [
+      naverMaps.Event.addListener(map, "dragend", handleUserMove),
+      naverMaps.Event.addListener(map, "pinchend", handleUserMove),
+      naverMaps.Event.addListener(map, "zoom_changed", handleUserMove),
+    ];
+
+    return () => {
+      naverMaps.Event.removeListener(listeners);
+    };
+  }, [map, onSearchArea, isProgrammaticMove]);
+
+  /**
+   * "이 지역에서 검색" 핸들러
+   * 지도 화면(getBounds)의 중심과, 중심에서 모서리까지의 거리를 반경으로 사용
+   */
+  const handleSearchArea = useCallback(() => {
+    if (!map || !onSearchArea) {
+      return;
+    }
+
+    const bounds = map.getBounds() as naver.maps.LatLngBounds;
+    const center = bounds.getCenter();
+    const northEast = bounds.getNE();
+    const area: GeoArea = {
+      lat: center.lat(),
+      lng: center.lng(),
+      radius: Math.round(
+        getDistanceMeters(
+          { lat: center.lat(), lng: center.lng() },
+          { lat: northEast.lat(), lng: northEast.lng() },
+        ),
+      ),
+    };
+
+    console.log("[NaverMap] 이 지역에서 검색:", area);
+    setIsAreaChanged(false);
+    onSearchArea(area);
+  }, [map, onSearchArea]);
+
   /**
    * 전체화면 모드 토글
    */
@@ -337,20 +403,10 @@ function NaverMapComponent({
               const p1 = measuringPointsRef.current[i - 1];
               const p2 = measuringPointsRef.current[i];
 
-              // Haversine 공식으로 거리 계산 (미터 단위)
-              const R = 6371000; // 지구 반지름 (미터)
-              const dLat = ((p2.lat() - p1.lat()) * Math.PI) / 180;
-              const dLng = ((p2.lng() - p1.lng()) * Math.PI) / 180;
-              const a =
-                Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                Math.cos((p1.lat() * Math.PI) / 180) *
-                  Math.cos((p2.lat() * Math.PI) / 180) *
-                  Math.sin(dLng / 2) *
-                  Math.sin(dLng / 2);
-              const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-              const distance = R * c;
-
-              totalDistance += distance;
+              totalDistance += getDistanceMeters(
+                { lat: p1.lat(), lng: p1.lng() },
+                { lat: p2.lat(), lng: p2.lng() },
+              );
             }
 
             const distanceKm = (totalDistance / 1000).toFixed(2);
@@ -465,6 +521,29 @@ function NaverMapComponent({
           (isLoading || error) && "hidden", // 로딩/에러 시 숨김
         )}
       />
+      {/* 이 지역에서 검색 버튼 */}
+      {map &&
+        !isLoading &&
+        !error &&
+        onSearchArea &&
+        (isAreaChanged || isSearchingArea) && (
+          <div className="absolute left-1/2 top-4 z-10 -translate-x-1/2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={handleSearchArea}
+              disabled={isSearchingArea}
+              className="gap-2 rounded-full shadow-md"
+            >
+              {isSearchingArea ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <RefreshCw className="size-4" />
+              )}
+              <span>이 지역에서 검색</span>
+            </Button>
+          </div>
+        )}
       {/* 지도 컨트롤 버튼 */}
       {map && !isLoading && !error && (
         <MapControls
@@ -0,0 +1,90 @@
+"use client";
+
+import { Clock } from "lucide-react";
+import type { OpeningState, OpeningStatus } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { formatOpeningTime } from "@/lib/utils/opening-hours-parser";
+
+/**
+ * @file OpeningStatusBadge.tsx
+ * @description 관광지 영업 상태 뱃지
+ *
+ * 운영시간을 해석한 결과로 현재(한국 시간) 영업 상태를 표시합니다.
+ * 운영시간을 해석할 수 없는 관광지(unknown)는 표시하지 않습니다.
+ *
+ * 주요 기능:
+ * 1. 지금 영업 중 (마감 시각) / 곧 마감 표시
+ * 2. showClosed: 상세페이지용 영업 종료/휴무 표시 (다음 영업 시작 시각 또는 휴무 사유)
+ *
+ * @see {@link /lib/utils/opening-hours-parser.ts} - 운영시간 파서
+ */
+
+interface OpeningStatusBadgeProps {
+  status: OpeningStatus | null | undefined;
+  /** 영업 종료/휴무 상태도 표시 (기본값: false, 관광지 카드는 영업 중일 때만 표시) */
+  showClosed?: boolean;
+  className?: string;
+}
+
+/** 영업 상태별 스타일 */
+const STATE_STYLES: Record<Exclude<OpeningState, "unknown">, string> = {
+  open: "bg-green-500/90 text-white",
+  closing_soon: "bg-amber-500/90 text-white",
+  closed: "bg-muted text-muted-foreground",
+};
+
+/**
+ * 영업 상태 표시 문구
+ */
+function getStatusLabel(status: OpeningStatus): string {
+  switch (status.state) {
+    case "open":
+      return status.closesAt !== null
+        ? `지금 영업 중 · ${formatOpeningTime(status.closesAt)} 마감`
+        : "지금 영업 중";
+    case "closing_soon":
+      return status.closesAt !== null
+        ? `곧 마감 · ${formatOpeningTime(status.closesAt)}`
+        : "곧 마감";
+    case "closed":
+      // 휴무 사유 ("매주 화요일 휴무", "설날 당일 휴무")
+      if (status.reason) {
+        return status.reason;
+      }
+      return status.opensAt !== null
+        ? `영업 종료 · ${formatOpeningTime(status.opensAt)} 영업 시작`
+        : "영업 종료";
+    default:
+      return "";
+  }
+}
+
+/**
+ * 관광지 영업 상태 뱃지
+ */
+export default function OpeningStatusBadge({
+  status,
+  showClosed = false,
+  className,
+}: OpeningStatusBadgeProps) {
+  if (
+    !status ||
+    status.state === "unknown" ||
+    (status.state === "closed" && !showClosed)
+  ) {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full px-2 py-1 text-xs font-medium backdrop-blur-sm",
+        STATE_STYLES[status.state],
+        className,
+      )}
+    >
+      <Clock className="size-3" />
+      {getStatusLabel(status)}
+    </span>
+  );
+}
@@ -2,7 +2,15 @@
 
 import { Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useBookmarkList } from "@/hooks/useBookmarkList";
+import { useBookmarkCollections } from "@/hooks/useBookmarkCollections";
 import { SignInButton } from "@clerk/nextjs";
 import { cn } from "@/lib/utils";
 
@@ -16,6 +24,7 @@ import { cn } from "@/lib/utils";
  * 1. 북마크 필터 토글
  * 2. 로그인하지 않은 경우 로그인 유도
  * 3. 북마크된 관광지 개수 표시
+ * 4. 필터 활성화 시 컬렉션 선택 (컬렉션에 담긴 관광지만 보기)
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
  */
@@ -25,20 +34,36 @@ interface TourBookmarkFilterProps {
   isBookmarkFilterActive: boolean;
   /** 북마크 필터 토글 핸들러 */
   onToggle: () => void;
+  /** 선택한 컬렉션 ID (없으면 전체 북마크) */
+  collectionId?: string;
+  /** 컬렉션 선택 핸들러 (없으면 컬렉션 선택을 표시하지 않음) */
+  onCollectionChange?: (collectionId: string | undefined) => void;
   /** 추가 클래스명 */
   className?: string;
 }
 
+/** 전체 북마크 선택 값 */
+const ALL_BOOKMARKS_VALUE = "all";
+
 /**
  * 북마크 필터 컴포넌트
  */
 export default function TourBookmarkFilter({
   isBookmarkFilterActive,
   onToggle,
+  collectionId,
+  onCollectionChange,
   className,
 }: TourBookmarkFilterProps) {
   const { bookmarks, isLoading, isAuthenticated } = useBookmarkList();
-  const bookmarkCount = bookmarks.length;
+  const { collections } = useBookmarkCollections();
+  const selectedCollection = collections.find(
+    (collection) => collection.id === collectionId,
+  );
+  // 컬렉션을 선택했으면 컬렉션에 담긴 관광지 수 표시
+  const bookmarkCount = selectedCollection
+    ? selectedCollection.items.length
+    : bookmarks.length;
 
   // 로그인하지 않은 경우 로그인 유도 버튼
   if (!isAuthenticated) {
@@ -134,6 +159,35 @@ export default function TourBookmarkFilter({
           ({bookmarkCount})
         </span>
       </Button>
+
+      {/* 컬렉션 선택 (필터 활성화 시) */}
+      {isBookmarkFilterActive &&
+        onCollectionChange &&
+        collections.length > 0 && (
+          <Select
+            value={selectedCollection?.id ?? ALL_BOOKMARKS_VALUE}
+            onValueChange={(value) =>
+              onCollectionChange(
+                value === ALL_BOOKMARKS_VALUE ? undefined : value,
+              )
+            }
+          >
+            <SelectTrigger
+              className="w-[140px] sm:w-[180px]"
+              aria-label="북마크 컬렉션 선택"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_BOOKMARKS_VALUE}>전체 북마크</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
     </div>
   );
 }
@@ -2,10 +2,17 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { MapPin } from "lucide-react";
-import type { TourItem } from "@/lib/types/tour";
+import { CalendarDays, MapPin, Navigation } from "lucide-react";
+import type { OpeningStatus, PetTourInfo, TourItem } from "@/lib/types/tour";
 import { getTourTypeName } from "@/lib/utils/tour-type-converter";
+import { getAreaName } from "@/lib/utils/area-code-converter";
+import { useSigunguName } from "@/hooks/useSigunguList";
+import { useCategoryTree } from "@/hooks/useCategoryTree";
+import { getCategoryNames } from "@/lib/utils/category-converter";
+import { formatEventPeriod } from "@/lib/utils/date-formatter";
 import { cn } from "@/lib/utils";
+import PetAccessBadges from "@/components/pets/PetAccessBadges";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
 
 /**
  * @file TourCard.tsx
@@ -16,7 +23,13 @@ import { cn } from "@/lib/utils";
  * 주요 기능:
  * 1. 썸네일 이미지 표시 (next/image 사용)
  * 2. 관광지명, 주소, 타입 뱃지 표시
- * 3. 클릭 시 상세페이지로 이동
+ * 3. 시/도 및 시군구명 표시 (sigungucode 필드)
+ * 4. 서비스 분류 뱃지 표시 (cat2, cat3 필드)
+ * 5. 내 주변 모드에서 거리 표시 (dist 필드)
+ * 6. 축제/행사의 행사 기간 표시 (eventstartdate, eventenddate 필드)
+ * 7. 클릭 시 상세페이지로 이동
+ * 8. 반려동물 정보가 있으면 내 반려동물별 동반 가능 여부 표시
+ * 9. 운영시간 기준 영업 상태 표시 (지금 영업 중 / 곧 마감)
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 관광지 목록 섹션
  * @see {@link /docs/reference/design/Design.md#1-홈페이지} - 디자인 문서의 카드 레이아웃
@@ -27,26 +40,57 @@ interface TourCardProps {
   isSelected?: boolean; // 선택된 상태
   isHovered?: boolean; // 호버된 상태
   onHover?: (tourId: string | undefined) => void; // 호버 핸들러
-  petInfo?: {
-    acmpyTypeCd?: string;
-    acmpyPsblCpam?: string;
-    acmpyNeedMtr?: string;
-  } | null; // 반려동물 정보
+  petInfo?: PetTourInfo | null; // 반려동물 정보
+  openingStatus?: OpeningStatus | null; // 현재 영업 상태
   className?: string;
 }
 
+/**
+ * 거리 표시 문자열 생성
+ *
+ * @param dist - 거리 (미터, 문자열)
+ * @returns "350m" 또는 "1.2km" 형식 (거리가 없으면 null)
+ */
+function formatDistance(dist?: string): string | null {
+  if (!dist) {
+    return null;
+  }
+  const meters = Number(dist);
+  if (!Number.isFinite(meters)) {
+    return null;
+  }
+  return meters < 1000
+    ? `${Math.round(meters)}m`
+    : `${(meters / 1000).toFixed(1)}km`;
+}
+
 export default function TourCard({
   tour,
   isSelected = false,
   isHovered = false,
   onHover,
   petInfo,
+  openingStatus,
   className,
 }: TourCardProps) {
   const imageUrl = tour.firstimage || tour.firstimage2;
   const hasImage = Boolean(imageUrl);
   const tourTypeName = getTourTypeName(tour.contenttypeid);
   const detailUrl = `/places/${tour.contentid}`;
+  const distanceLabel = formatDistance(tour.dist);
+  const eventPeriod = formatEventPeriod(tour.eventstartdate, tour.eventenddate);
+  const sigunguName = useSigunguName(tour.areacode, tour.sigungucode);
+  const regionLabel = tour.areacode
+    ? [getAreaName(tour.areacode), sigunguName].filter(Boolean).join(" ")
+    : undefined;
+  const { data: categoryTree } = useCategoryTree(Boolean(tour.cat1));
+  // 대분류는 타입 뱃지와 겹치므로 중분류/소분류만 표시
+  const categoryNames = getCategoryNames(
+    categoryTree,
+    tour.cat1,
+    tour.cat2,
+    tour.cat3,
+  ).slice(1);
 
   /**
    * 카드 호버 핸들러
@@ -100,6 +144,11 @@ export default function TourCard({
             <span className="text-sm">이미지 없음</span>
           </div>
         )}
+        {/* 영업 상태 뱃지 */}
+        <OpeningStatusBadge
+          status={openingStatus}
+          className="absolute left-2 top-2"
+        />
         {/* 타입 뱃지 및 반려동물 아이콘 */}
         <div className="absolute right-2 top-2 flex flex-col gap-2 items-end">
           <span className="inline-flex items-center gap-1 rounded-full bg-primary/90 px-3 py-1 text-xs font-medium text-primary-foreground backdrop-blur-sm">
@@ -125,22 +174,61 @@ export default function TourCard({
               )}
             </span>
           )}
+          {/* 내 반려동물별 동반 가능 여부 */}
+          <PetAccessBadges petInfo={petInfo} className="justify-end" />
         </div>
       </div>
 
       {/* 정보 영역 */}
       <div className="flex flex-1 flex-col gap-3 p-4">
+        {/* 지역 (시/도 + 시군구) */}
+        {regionLabel && (
+          <span className="text-xs font-medium text-muted-foreground">
+            {regionLabel}
+          </span>
+        )}
+
         {/* 관광지명 */}
         <h3 className="line-clamp-2 text-lg font-semibold leading-tight group-hover:text-primary">
           {tour.title}
         </h3>
 
+        {/* 서비스 분류 뱃지 */}
+        {categoryNames.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {categoryNames.map((name) => (
+              <span
+                key={name}
+                className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+              >
+                {name}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* 주소 */}
         <div className="flex items-start gap-2 text-sm text-muted-foreground">
           <MapPin className="mt-0.5 size-4 shrink-0" />
           <span className="line-clamp-2">{tour.addr1}</span>
         </div>
 
+        {/* 행사 기간 (축제/행사) */}
+        {eventPeriod && (
+          <div className="flex items-center gap-2 text-sm font-medium text-primary">
+            <CalendarDays className="size-4 shrink-0" />
+            <span>{eventPeriod}</span>
+          </div>
+        )}
+
+        {/* 거리 (내 주변 모드) */}
+        {distanceLabel && (
+          <div className="flex items-center gap-2 text-sm font-medium text-primary">
+            <Navigation className="size-4 shrink-0" />
+            <span>{distanceLabel}</span>
+          </div>
+        )}
+
         {/* 전화번호 (있는 경우) */}
         {tour.tel && (
           <div className="text-sm text-muted-foreground">{tour.tel}</div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { MapPin, Tag, Heart } from "lucide-react";
+import { MapPin, Tag, Heart, CalendarRange, Layers, Clock } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -9,9 +9,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { X } from "lucide-react";
 import { AREA_OPTIONS } from "@/lib/utils/area-code-converter";
-import { TOUR_TYPE_OPTIONS } from "@/lib/utils/tour-type-converter";
+import {
+  FESTIVAL_CONTENT_TYPE_ID,
+  TOUR_TYPE_OPTIONS,
+} from "@/lib/utils/tour-type-converter";
+import { toApiDate, toInputDate } from "@/lib/utils/date-formatter";
+import { useSigunguList } from "@/hooks/useSigunguList";
+import { useCategoryTree } from "@/hooks/useCategoryTree";
+import { findCategoryNode } from "@/lib/utils/category-converter";
 import { cn } from "@/lib/utils";
 
 /**
@@ -22,8 +30,13 @@ import { cn } from "@/lib/utils";
  *
  * 주요 기능:
  * 1. 지역 필터 (시/도 단위 선택)
- * 2. 관광 타입 필터
- * 3. 필터 초기화 기능
+ * 2. 시군구 필터 (시/도 선택 시 areaCode2로 시군구 목록 조회)
+ * 3. 관광 타입 필터
+ * 4. 서비스 분류 필터 (대분류 → 중분류 → 소분류, categoryCode2)
+ * 5. 행사 기간 필터 (축제공연행사 선택 시)
+ * 6. 필터 초기화 기능
+ * 7. 내 반려동물 기준으로 보기 (반려동물 프로필의 크기/종류 조건 적용)
+ * 8. 지금 영업 중 필터 (운영시간 기준, 한국 시간, 현재 페이지에만 적용)
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 필터 섹션
  * @see {@link /docs/reference/design/Design.md#1-홈페이지} - 디자인 문서의 필터 레이아웃
@@ -31,40 +44,106 @@ import { cn } from "@/lib/utils";
 
 interface TourFilterProps {
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  /** 대분류 코드 */
+  cat1?: string;
+  /** 중분류 코드 */
+  cat2?: string;
+  /** 소분류 코드 */
+  cat3?: string;
   petFriendly?: boolean;
   petSize?: "small" | "medium" | "large" | undefined;
   petType?: "dog" | "cat" | undefined;
   petPlace?: "indoor" | "outdoor" | undefined;
+  /** 행사 시작일 (YYYYMMDD) */
+  eventStartDate?: string;
+  /** 행사 종료일 (YYYYMMDD) */
+  eventEndDate?: string;
+  /** 지금 영업 중인 관광지만 보기 */
+  openNow?: boolean;
+  /** 내 반려동물 기준 크기/종류 조건 (반려동물 프로필이 없으면 null) */
+  myPetsFilter?: {
+    petSize: "small" | "medium" | "large";
+    petType: "dog" | "cat" | undefined;
+  } | null;
   onAreaCodeChange?: (areaCode: string | undefined) => void;
+  onSigunguCodeChange?: (sigunguCode: string | undefined) => void;
   onContentTypeIdChange?: (contentTypeId: string | undefined) => void;
+  onCategoryChange?: (
+    cat1: string | undefined,
+    cat2: string | undefined,
+    cat3: string | undefined,
+  ) => void;
   onPetFriendlyChange?: (petFriendly: boolean | undefined) => void;
   onPetSizeChange?: (petSize: "small" | "medium" | "large" | undefined) => void;
   onPetTypeChange?: (petType: "dog" | "cat" | undefined) => void;
   onPetPlaceChange?: (petPlace: "indoor" | "outdoor" | undefined) => void;
+  onEventDateRangeChange?: (
+    eventStartDate: string | undefined,
+    eventEndDate: string | undefined,
+  ) => void;
+  onMyPetsFilterToggle?: (apply: boolean) => void;
+  onOpenNowChange?: (openNow: boolean | undefined) => void;
   onReset?: () => void;
   className?: string;
 }
 
 export default function TourFilter({
   areaCode,
+  sigunguCode,
   contentTypeId,
+  cat1,
+  cat2,
+  cat3,
   petFriendly,
   petSize,
   petType,
   petPlace,
+  eventStartDate,
+  eventEndDate,
+  openNow,
   onAreaCodeChange,
+  onSigunguCodeChange,
   onContentTypeIdChange,
+  onCategoryChange,
   onPetFriendlyChange,
   onPetSizeChange,
   onPetTypeChange,
   onPetPlaceChange,
+  onEventDateRangeChange,
+  myPetsFilter,
+  onMyPetsFilterToggle,
+  onOpenNowChange,
   onReset,
   className,
 }: TourFilterProps) {
   const hasActiveFilters = Boolean(
-    areaCode || contentTypeId || petFriendly || petSize || petType || petPlace,
+    areaCode ||
+    sigunguCode ||
+    contentTypeId ||
+    cat1 ||
+    petFriendly ||
+    petSize ||
+    petType ||
+    petPlace ||
+    eventStartDate ||
+    eventEndDate ||
+    openNow,
+  );
+  const isFestivalType = contentTypeId === FESTIVAL_CONTENT_TYPE_ID;
+  // 현재 필터가 내 반려동물 기준 조건과 같은지 확인
+  const isMyPetsFilterApplied = Boolean(
+    myPetsFilter &&
+    petFriendly &&
+    petSize === myPetsFilter.petSize &&
+    petType === myPetsFilter.petType,
   );
+  const { data: sigunguList = [], isLoading: isLoadingSigungu } =
+    useSigunguList(areaCode);
+  const { data: categoryTree = [] } = useCategoryTree();
+  const cat1Node = findCategoryNode(categoryTree, cat1);
+  const cat2Node = findCategoryNode(cat1Node?.children, cat2);
 
   return (
     <div
@@ -94,6 +173,36 @@ export default function TourFilter({
             ))}
           </SelectContent>
         </Select>
+
+        {/* 시군구 필터 (시/도 선택 시에만 표시) */}
+        {areaCode && (
+          <Select
+            value={sigunguCode || "all"}
+            onValueChange={(value) => {
+              onSigunguCodeChange?.(value === "all" ? undefined : value);
+            }}
+            disabled={isLoadingSigungu || sigunguList.length === 0}
+          >
+            <SelectTrigger
+              className="w-[140px] sm:w-[160px]"
+              aria-label="시군구 선택"
+            >
+              <SelectValue
+                placeholder={
+                  isLoadingSigungu ? "불러오는 중..." : "시군구 선택"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">전체 시군구</SelectItem>
+              {sigunguList.map((sigungu) => (
+                <SelectItem key={sigungu.code} value={sigungu.code}>
+                  {sigungu.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* 관광 타입 필터 */}
@@ -119,6 +228,116 @@ export default function TourFilter({
         </Select>
       </div>
 
+      {/* 서비스 분류 필터 (대분류 → 중분류 → 소분류) */}
+      {categoryTree.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Layers className="size-4 text-muted-foreground" />
+          <Select
+            value={cat1 || "all"}
+            onValueChange={(value) => {
+              onCategoryChange?.(
+                value === "all" ? undefined : value,
+                undefined,
+                undefined,
+              );
+            }}
+          >
+            <SelectTrigger className="w-[120px] sm:w-[140px]">
+              <SelectValue placeholder="대분류" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">전체 분류</SelectItem>
+              {categoryTree.map((category) => (
+                <SelectItem key={category.code} value={category.code}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {cat1Node && cat1Node.children.length > 0 && (
+            <Select
+              value={cat2 || "all"}
+              onValueChange={(value) => {
+                onCategoryChange?.(
+                  cat1,
+                  value === "all" ? undefined : value,
+                  undefined,
+                );
+              }}
+            >
+              <SelectTrigger className="w-[140px] sm:w-[160px]">
+                <SelectValue placeholder="중분류" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">전체 중분류</SelectItem>
+                {cat1Node.children.map((category) => (
+                  <SelectItem key={category.code} value={category.code}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {cat2Node && cat2Node.children.length > 0 && (
+            <Select
+              value={cat3 || "all"}
+              onValueChange={(value) => {
+                onCategoryChange?.(
+                  cat1,
+                  cat2,
+                  value === "all" ? undefined : value,
+                );
+              }}
+            >
+              <SelectTrigger className="w-[140px] sm:w-[160px]">
+                <SelectValue placeholder="소분류" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">전체 소분류</SelectItem>
+                {cat2Node.children.map((category) => (
+                  <SelectItem key={category.code} value={category.code}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {/* 행사 기간 필터 (축제공연행사 선택 시에만 표시) */}
+      {isFestivalType && (
+        <div className="flex items-center gap-2">
+          <CalendarRange className="size-4 text-muted-foreground" />
+          <Input
+            type="date"
+            value={toInputDate(eventStartDate)}
+            max={toInputDate(eventEndDate) || undefined}
+            onChange={(e) => {
+              onEventDateRangeChange?.(toApiDate(e.target.value), eventEndDate);
+            }}
+            className="w-[150px]"
+            aria-label="행사 시작일"
+          />
+          <span className="text-sm text-muted-foreground">~</span>
+          <Input
+            type="date"
+            value={toInputDate(eventEndDate)}
+            min={toInputDate(eventStartDate) || undefined}
+            onChange={(e) => {
+              onEventDateRangeChange?.(
+                eventStartDate,
+                toApiDate(e.target.value),
+              );
+            }}
+            className="w-[150px]"
+            aria-label="행사 종료일"
+          />
+        </div>
+      )}
+
       {/* 반려동물 동반 가능 필터 */}
       <div className="flex items-center gap-2">
         <Heart className="size-4 text-muted-foreground" />
@@ -133,6 +352,20 @@ export default function TourFilter({
           <span className="text-base">🐾</span>
           반려동물 동반 가능
         </Button>
+
+        {/* 내 반려동물 기준으로 보기 (반려동물 프로필이 있는 경우에만 표시) */}
+        {myPetsFilter && (
+          <Button
+            variant={isMyPetsFilterApplied ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              onMyPetsFilterToggle?.(!isMyPetsFilterApplied);
+            }}
+            aria-pressed={isMyPetsFilterApplied}
+          >
+            내 반려동물 기준으로 보기
+          </Button>
+        )}
       </div>
 
       {/* 반려동물 크기 필터 (반려동물 동반 가능이 활성화된 경우에만 표시) */}
@@ -161,6 +394,28 @@ export default function TourFilter({
         </div>
       )}
 
+      {/* 지금 영업 중 필터 */}
+      <div className="flex items-center gap-2">
+        <Clock className="size-4 text-muted-foreground" />
+        <Button
+          variant={openNow ? "default" : "outline"}
+          size="sm"
+          onClick={() => {
+            onOpenNowChange?.(!openNow);
+          }}
+          aria-pressed={Boolean(openNow)}
+          aria-describedby="open-now-filter-scope"
+        >
+          지금 영업 중
+        </Button>
+        <span
+          id="open-now-filter-scope"
+          className="text-xs text-muted-foreground"
+        >
+          현재 페이지 기준
+        </span>
+      </div>
+
       {/* 필터 초기화 버튼 */}
       {hasActiveFilters && (
         <Button variant="ghost" size="sm" onClick={onReset} className="gap-2">
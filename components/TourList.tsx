@@ -5,10 +5,14 @@ import { useTourList } from "@/hooks/useTourList";
 import { useTourSearch } from "@/hooks/useTourSearch";
 import TourCard from "@/components/TourCard";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Clock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { sortTours, type SortOption } from "@/lib/utils/tour-sorter";
-import type { TourItem } from "@/lib/types/tour";
+import {
+  getTourApiErrorInfo,
+  getTourApiErrorMessage,
+} from "@/lib/api/tour-api-errors";
+import type { OpeningStatus, TourItem } from "@/lib/types/tour";
 
 /**
  * @file TourList.tsx
@@ -21,6 +25,7 @@ import type { TourItem } from "@/lib/types/tour";
  * 2. React Query를 통한 관광지 검색 (검색 모드)
  * 3. 반응형 그리드 레이아웃 (모바일: 1열, 태블릿: 2열, 데스크톱: 3-4열)
  * 4. 로딩/에러/빈 상태 처리
+ * 5. 카드별 영업 상태 배지 (지금 영업 중 / 곧 마감)
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 관광지 목록 섹션
  * @see {@link /docs/prd.md#23-키워드-검색} - PRD 문서의 키워드 검색 섹션
@@ -32,7 +37,11 @@ interface TourListProps {
   isLoading?: boolean; // 로딩 상태 (tours prop 전달 시 함께 전달)
   keyword?: string; // 검색 키워드 (있으면 검색 모드, 없으면 일반 모드)
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
   numOfRows?: number;
   pageNo?: number;
   sortOption?: SortOption; // 정렬 옵션
@@ -43,6 +52,8 @@ interface TourListProps {
   isBookmarkFilterActive?: boolean; // 북마크 필터 활성화 여부
   petInfoMap?: Map<string, any>; // 반려동물 정보 맵
   isPetFilterActive?: boolean; // 반려동물 필터 활성화 여부
+  openingStatusMap?: Map<string, OpeningStatus>; // 영업 상태 맵
+  isOpenNowFilterActive?: boolean; // 지금 영업 중 필터 활성화 여부
 }
 
 /**
@@ -68,10 +79,12 @@ function EmptyState({
   isSearchMode,
   isBookmarkFilterActive,
   isPetFilterActive,
+  isOpenNowFilterActive,
 }: {
   isSearchMode?: boolean;
   isBookmarkFilterActive?: boolean;
   isPetFilterActive?: boolean;
+  isOpenNowFilterActive?: boolean;
 }) {
   if (isBookmarkFilterActive) {
     return (
@@ -105,6 +118,24 @@ function EmptyState({
     );
   }
 
+  if (isOpenNowFilterActive) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 py-16 text-center">
+        <Clock className="size-12 text-muted-foreground" />
+        <div className="flex flex-col gap-2">
+          <h3 className="text-lg font-semibold">
+            지금 영업 중인 관광지가 없습니다
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            현재 페이지의 관광지 중 지금 영업 중인 곳이 없습니다.
+            <br />
+            다음 페이지로 이동하거나 다른 조건으로 검색해보세요.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center gap-4 py-16 text-center">
       <AlertCircle className="size-12 text-muted-foreground" />
@@ -131,9 +162,12 @@ function ErrorState({ error }: { error: Error }) {
       <AlertCircle className="size-12 text-destructive" />
       <div className="flex flex-col gap-2">
         <h3 className="text-lg font-semibold">
-          데이터를 불러오는데 실패했습니다
+          {getTourApiErrorInfo(error)?.title ??
+            "데이터를 불러오는데 실패했습니다"}
         </h3>
-        <p className="text-sm text-muted-foreground">{error.message}</p>
+        <p className="text-sm text-muted-foreground">
+          {getTourApiErrorMessage(error)}
+        </p>
       </div>
     </div>
   );
@@ -144,7 +178,11 @@ export default function TourList({
   isLoading: providedIsLoading,
   keyword,
   areaCode,
+  sigunguCode,
   contentTypeId,
+  cat1,
+  cat2,
+  cat3,
   numOfRows = 10,
   pageNo = 1,
   sortOption = "latest",
@@ -155,12 +193,18 @@ export default function TourList({
   isBookmarkFilterActive = false,
   petInfoMap,
   isPetFilterActive = false,
+  openingStatusMap,
+  isOpenNowFilterActive = false,
 }: TourListProps) {
   // 검색 모드: keyword가 있으면 useTourSearch 사용
   const searchQuery = useTourSearch({
     keyword: keyword ?? "",
     areaCode,
+    sigunguCode,
     contentTypeId,
+    cat1,
+    cat2,
+    cat3,
     numOfRows,
     pageNo,
     enabled: Boolean(keyword && keyword.trim() !== "" && !providedTours),
@@ -169,7 +213,11 @@ export default function TourList({
   // 일반 모드: keyword가 없으면 useTourList 사용
   const listQuery = useTourList({
     areaCode,
+    sigunguCode,
     contentTypeId,
+    cat1,
+    cat2,
+    cat3,
     numOfRows,
     pageNo,
     enabled: !providedTours,
@@ -236,6 +284,7 @@ export default function TourList({
           isSearchMode={isSearchMode}
           isBookmarkFilterActive={isBookmarkFilterActive}
           isPetFilterActive={isPetFilterActive}
+          isOpenNowFilterActive={isOpenNowFilterActive}
         />
       </div>
     );
@@ -259,6 +308,7 @@ export default function TourList({
               isHovered={hoveredTourId === tour.contentid}
               onHover={onTourHover}
               petInfo={petInfo}
+              openingStatus={openingStatusMap?.get(tour.contentid)}
             />
           </div>
         );
@@ -7,6 +7,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { sortTours, type SortOption } from "@/lib/utils/tour-sorter";
+import {
+  getTourApiErrorInfo,
+  getTourApiErrorMessage,
+} from "@/lib/api/tour-api-errors";
 import type { TourItem } from "@/lib/types/tour";
 
 /**
@@ -90,9 +94,12 @@ function ErrorState({ error }: { error: Error }) {
       <AlertCircle className="size-12 text-destructive" />
       <div className="flex flex-col gap-2">
         <h3 className="text-lg font-semibold">
-          데이터를 불러오는데 실패했습니다
+          {getTourApiErrorInfo(error)?.title ??
+            "데이터를 불러오는데 실패했습니다"}
         </h3>
-        <p className="text-sm text-muted-foreground">{error.message}</p>
+        <p className="text-sm text-muted-foreground">
+          {getTourApiErrorMessage(error)}
+        </p>
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 "use client";
 
-import { ArrowUpDown } from "lucide-react";
+import { ArrowUpDown, Loader2, LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import {
   Select,
   SelectContent,
@@ -21,6 +22,9 @@ import TourBookmarkFilter from "@/components/TourBookmarkFilter";
  * 주요 기능:
  * 1. 최신순 정렬 (modifiedtime 기준)
  * 2. 이름순 정렬 (가나다순)
+ * 3. 거리순 정렬 (내 주변 모드에서만 표시)
+ * 4. 내 주변 모드 토글
+ * 5. 북마크 필터 (컬렉션 선택 포함)
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 정렬 옵션 섹션
  * @see {@link /docs/reference/design/Design.md#1-홈페이지} - 디자인 문서의 필터 레이아웃
@@ -33,6 +37,16 @@ interface TourSortProps {
   isBookmarkFilterActive?: boolean;
   /** 북마크 필터 토글 핸들러 */
   onBookmarkFilterToggle?: () => void;
+  /** 북마크 필터에서 선택한 컬렉션 ID */
+  bookmarkCollectionId?: string;
+  /** 북마크 필터 컬렉션 선택 핸들러 */
+  onBookmarkCollectionChange?: (collectionId: string | undefined) => void;
+  /** 내 주변 모드 활성화 여부 */
+  isNearbyMode?: boolean;
+  /** 현재 위치 조회 중 여부 */
+  isLocating?: boolean;
+  /** 내 주변 모드 토글 핸들러 */
+  onNearbyToggle?: () => void;
   className?: string;
 }
 
@@ -42,6 +56,7 @@ interface TourSortProps {
 const SORT_OPTIONS = [
   { value: "latest" as const, label: "최신순" },
   { value: "name" as const, label: "이름순" },
+  { value: "distance" as const, label: "거리순" },
 ] as const;
 
 export default function TourSort({
@@ -49,8 +64,18 @@ export default function TourSort({
   onSortChange,
   isBookmarkFilterActive = false,
   onBookmarkFilterToggle,
+  bookmarkCollectionId,
+  onBookmarkCollectionChange,
+  isNearbyMode = false,
+  isLocating = false,
+  onNearbyToggle,
   className,
 }: TourSortProps) {
+  // 거리순은 dist 필드가 있는 내 주변 모드에서만 의미가 있음
+  const sortOptions = SORT_OPTIONS.filter(
+    (option) => option.value !== "distance" || isNearbyMode,
+  );
+
   /**
    * 정렬 옵션 변경 핸들러
    */
@@ -75,7 +100,7 @@ export default function TourSort({
             <SelectValue placeholder="정렬 선택" />
           </SelectTrigger>
           <SelectContent>
-            {SORT_OPTIONS.map((option) => (
+            {sortOptions.map((option) => (
               <SelectItem key={option.value} value={option.value}>
                 {option.label}
               </SelectItem>
@@ -84,11 +109,35 @@ export default function TourSort({
         </Select>
       </div>
 
+      {/* 내 주변 모드 */}
+      {onNearbyToggle && (
+        <Button
+          variant={isNearbyMode ? "default" : "outline"}
+          size="default"
+          onClick={onNearbyToggle}
+          disabled={isLocating}
+          className="gap-2"
+          aria-label={
+            isNearbyMode ? "내 주변 모드 해제" : "내 주변 관광지 보기"
+          }
+          aria-pressed={isNearbyMode}
+        >
+          {isLocating ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <LocateFixed className="size-4" />
+          )}
+          <span>내 주변</span>
+        </Button>
+      )}
+
       {/* 북마크 필터 */}
       {onBookmarkFilterToggle && (
         <TourBookmarkFilter
           isBookmarkFilterActive={isBookmarkFilterActive}
           onToggle={onBookmarkFilterToggle}
+          collectionId={bookmarkCollectionId}
+          onCollectionChange={onBookmarkCollectionChange}
         />
       )}
     </div>
@@ -1,10 +1,21 @@
 "use client";
 
-import { Star } from "lucide-react";
+import { useState } from "react";
+import { Star, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { SignInButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import CollectionPicker from "@/components/bookmarks/CollectionPicker";
 import { useBookmark } from "@/hooks/useBookmark";
+import { useBookmarkList } from "@/hooks/useBookmarkList";
 import { cn } from "@/lib/utils";
 
 /**
@@ -15,12 +26,14 @@ import { cn } from "@/lib/utils";
  *
  * 주요 기능:
  * 1. 북마크 상태 표시 (별 아이콘 - 채워짐/비어있음)
- * 2. 북마크 추가/삭제 토글
- * 3. 로그인하지 않은 경우 로그인 유도 모달
- * 4. 로딩 상태 표시
+ * 2. 클릭 시 북마크 추가 후 컬렉션 선택 다이얼로그 표시
+ * 3. 다이얼로그에서 컬렉션 담기/빼기, 북마크 삭제
+ * 4. 로그인하지 않은 경우 로그인 유도 모달
+ * 5. 로딩 상태 표시
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
  * @see {@link /components/tour-detail/ShareButton.tsx} - 유사한 컴포넌트 참고
+ * @see {@link /components/bookmarks/CollectionPicker.tsx} - 컬렉션 선택 컴포넌트
  */
 
 interface BookmarkButtonProps {
@@ -37,7 +50,7 @@ interface BookmarkButtonProps {
 /**
  * 북마크 버튼 컴포넌트
  *
- * 북마크 상태를 표시하고 토글하는 버튼입니다.
+ * 북마크 상태를 표시하고, 클릭하면 북마크를 추가한 뒤 컬렉션 선택 다이얼로그를 엽니다.
  * 로그인하지 않은 경우 로그인 유도 모달을 표시합니다.
  */
 export default function BookmarkButton({
@@ -51,25 +64,52 @@ export default function BookmarkButton({
     isLoading,
     isMutating,
     isAuthenticated,
-    toggleBookmark,
+    addBookmark,
+    removeBookmark,
     error,
   } = useBookmark(contentId);
+  const { bookmarks } = useBookmarkList();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // 컬렉션에 담을 북마크 ID (북마크 추가 직후 목록이 갱신되기 전에는 null)
+  const bookmarkId =
+    bookmarks.find((bookmark) => bookmark.content_id === contentId)?.id ?? null;
 
   /**
-   * 북마크 토글 핸들러
+   * 북마크 버튼 클릭 핸들러
+   * 북마크하지 않은 관광지는 먼저 북마크한 뒤 컬렉션 선택 다이얼로그를 엽니다.
    */
-  const handleToggle = async () => {
+  const handleClick = async () => {
+    if (isBookmarked) {
+      setIsPickerOpen(true);
+      return;
+    }
     try {
-      await toggleBookmark();
-      if (isBookmarked) {
-        toast.success("북마크가 삭제되었습니다.");
-        console.log("[BookmarkButton] 북마크 삭제 성공:", contentId);
-      } else {
-        toast.success("북마크에 추가되었습니다.");
-        console.log("[BookmarkButton] 북마크 추가 성공:", contentId);
-      }
+      await addBookmark();
+      toast.success("북마크에 추가되었습니다.");
+      console.log("[BookmarkButton] 북마크 추가 성공:", contentId);
+      setIsPickerOpen(true);
     } catch (error) {
-      console.error("[BookmarkButton] 북마크 토글 실패:", error);
+      console.error("[BookmarkButton] 북마크 추가 실패:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "북마크 처리 중 오류가 발생했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 북마크 삭제 핸들러 (모든 컬렉션에서도 함께 빠짐)
+   */
+  const handleRemove = async () => {
+    try {
+      await removeBookmark();
+      setIsPickerOpen(false);
+      toast.success("북마크가 삭제되었습니다.");
+      console.log("[BookmarkButton] 북마크 삭제 성공:", contentId);
+    } catch (error) {
+      console.error("[BookmarkButton] 북마크 삭제 실패:", error);
       toast.error(
         error instanceof Error
           ? error.message
@@ -111,23 +151,51 @@ export default function BookmarkButton({
     );
   }
 
-  // 북마크 버튼
+  // 북마크 버튼 + 컬렉션 선택 다이얼로그
   return (
-    <Button
-      variant={variant}
-      size={size}
-      onClick={handleToggle}
-      disabled={isMutating}
-      className={cn("gap-2", className)}
-      aria-label={isBookmarked ? "북마크 제거" : "북마크 추가"}
-    >
-      <Star
-        className={cn(
-          "size-4",
-          isBookmarked && "fill-yellow-400 text-yellow-400",
-        )}
-      />
-      {isMutating ? "처리 중..." : isBookmarked ? "북마크됨" : "북마크"}
-    </Button>
+    <>
+      <Button
+        variant={variant}
+        size={size}
+        onClick={handleClick}
+        disabled={isMutating}
+        className={cn("gap-2", className)}
+        aria-label={isBookmarked ? "컬렉션 선택" : "북마크 추가"}
+        aria-haspopup="dialog"
+      >
+        <Star
+          className={cn(
+            "size-4",
+            isBookmarked && "fill-yellow-400 text-yellow-400",
+          )}
+        />
+        {isMutating ? "처리 중..." : isBookmarked ? "북마크됨" : "북마크"}
+      </Button>
+
+      <Dialog open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>컬렉션에 담기</DialogTitle>
+            <DialogDescription>
+              북마크를 담을 컬렉션을 선택하세요. 여러 컬렉션에 담을 수 있습니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <CollectionPicker bookmarkId={bookmarkId} />
+
+          <DialogFooter>
+            <Button
+              variant="ghost"
+              onClick={handleRemove}
+              disabled={isMutating}
+              className="gap-2 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="size-4" />
+              북마크 삭제
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { BookmarkWithTour } from "@/lib/types/bookmark";
+import {
+  BOOKMARK_EXPORT_FORMATS,
+  countExportableWaypoints,
+  getBookmarkExportFileName,
+  serializeBookmarks,
+  type BookmarkExportFormat,
+} from "@/lib/utils/bookmark-export";
+
+/**
+ * @file BookmarkExportDialog.tsx
+ * @description 북마크 내보내기 다이얼로그
+ *
+ * 북마크를 JSON, CSV, GPX, KML 파일로 내려받습니다.
+ *
+ * 주요 기능:
+ * 1. 내보내기 형식 선택
+ * 2. 범위 선택 (전체 북마크 / 선택한 북마크)
+ * 3. GPX/KML은 좌표가 없는 관광지 제외 안내
+ * 4. 브라우저에서 파일 생성 후 다운로드
+ *
+ * @see {@link /lib/utils/bookmark-export.ts} - 북마크 내보내기 유틸리티
+ */
+
+interface BookmarkExportDialogProps {
+  /** 전체 북마크 */
+  items: BookmarkWithTour[];
+  /** 목록에서 선택한 북마크 (없으면 전체만 내보내기) */
+  selectedItems: BookmarkWithTour[];
+}
+
+/**
+ * 문자열을 파일로 다운로드
+ */
+function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 북마크 내보내기 다이얼로그
+ */
+export default function BookmarkExportDialog({
+  items,
+  selectedItems,
+}: BookmarkExportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<BookmarkExportFormat>("json");
+  const [scope, setScope] = useState<"all" | "selected">("all");
+
+  const hasSelection = selectedItems.length > 0;
+  const targetItems =
+    scope === "selected" && hasSelection ? selectedItems : items;
+  const isWaypointFormat = format === "gpx" || format === "kml";
+  const waypointCount = isWaypointFormat
+    ? countExportableWaypoints(targetItems)
+    : targetItems.length;
+
+  /**
+   * 다이얼로그 열기 (선택한 북마크가 있으면 선택 범위로 시작)
+   */
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setScope(hasSelection ? "selected" : "all");
+    }
+  };
+
+  /**
+   * 내보내기 핸들러
+   */
+  const handleExport = () => {
+    if (targetItems.length === 0) {
+      return;
+    }
+
+    try {
+      const content = serializeBookmarks(
+        targetItems,
+        format,
+        window.location.origin,
+      );
+      downloadTextFile(
+        content,
+        getBookmarkExportFileName(format),
+        BOOKMARK_EXPORT_FORMATS[format].mimeType,
+      );
+      console.log("[BookmarkExportDialog] 내보내기 완료:", {
+        format,
+        count: targetItems.length,
+      });
+      toast.success(
+        `북마크 ${waypointCount}개를 ${BOOKMARK_EXPORT_FORMATS[format].label} 파일로 내보냈습니다.`,
+      );
+      setIsOpen(false);
+    } catch (error) {
+      console.error("[BookmarkExportDialog] 내보내기 실패:", error);
+      toast.error("내보내기에 실패했습니다.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Download className="size-4" />
+          내보내기
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>북마크 내보내기</DialogTitle>
+          <DialogDescription>
+            스프레드시트, Google 내 지도, GPS 기기에서 사용할 수 있는 파일로
+            내려받습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="export-format">형식</Label>
+            <Select
+              value={format}
+              onValueChange={(value) =>
+                setFormat(value as BookmarkExportFormat)
+              }
+            >
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(BOOKMARK_EXPORT_FORMATS) as BookmarkExportFormat[]
+                ).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {BOOKMARK_EXPORT_FORMATS[key].label} -{" "}
+                    {BOOKMARK_EXPORT_FORMATS[key].description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {hasSelection && (
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="export-scope">범위</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as "all" | "selected")}
+              >
+                <SelectTrigger id="export-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="selected">
+                    선택한 북마크 ({selectedItems.length}개)
+                  </SelectItem>
+                  <SelectItem value="all">
+                    전체 북마크 ({items.length}개)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            {isWaypointFormat && waypointCount < targetItems.length
+              ? `좌표가 없는 ${targetItems.length - waypointCount}곳을 제외하고 ${waypointCount}곳을 내보냅니다.`
+              : `${targetItems.length}곳을 내보냅니다.`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setIsOpen(false)}>
+            취소
+          </Button>
+          <Button onClick={handleExport} disabled={waypointCount === 0}>
+            내려받기
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useBookmarkImport } from "@/hooks/useBookmarkImport";
+import type { BookmarkImportIssue } from "@/hooks/useBookmarkImport";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MAX_BOOKMARK_IMPORT_ROWS } from "@/lib/utils/bookmark-import";
+
+/**
+ * @file BookmarkImportDialog.tsx
+ * @description 북마크 가져오기 다이얼로그
+ *
+ * 북마크 내보내기로 만든 JSON/CSV 파일을 선택해 북마크로 가져옵니다.
+ *
+ * 주요 기능:
+ * 1. 파일 선택 (JSON, CSV)
+ * 2. 가져오기 진행 상태 표시
+ * 3. 결과 보고 (추가, 중복, 찾을 수 없음, 실패 행 목록)
+ *
+ * @see {@link /hooks/useBookmarkImport.ts} - 북마크 가져오기 훅
+ */
+
+/**
+ * 결과 항목 목록 (중복, 찾을 수 없음, 실패)
+ */
+function IssueList({
+  title,
+  issues,
+}: {
+  title: string;
+  issues: BookmarkImportIssue[];
+}) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <p className="text-sm font-medium">
+        {title} ({issues.length})
+      </p>
+      <ul className="max-h-32 overflow-y-auto rounded-md border p-2 text-xs text-muted-foreground">
+        {issues.map((issue) => (
+          <li key={`${issue.line}-${issue.reason}`}>
+            {issue.line}행 · {issue.label} - {issue.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * 북마크 가져오기 다이얼로그
+ */
+export default function BookmarkImportDialog() {
+  const { importBookmarks, isImporting, report, reset } = useBookmarkImport();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * 다이얼로그 열기/닫기 (닫으면 선택 파일과 결과 초기화)
+   */
+  const handleOpenChange = (open: boolean) => {
+    if (isImporting) {
+      return;
+    }
+    setIsOpen(open);
+    if (!open) {
+      setFile(null);
+      reset();
+    }
+  };
+
+  /**
+   * 가져오기 핸들러
+   */
+  const handleImport = async () => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = await importBookmarks(file);
+      toast.success(`북마크 ${result.added}개를 가져왔습니다.`);
+      setFile(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "가져오기에 실패했습니다.",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Upload className="size-4" />
+          가져오기
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>북마크 가져오기</DialogTitle>
+          <DialogDescription>
+            내보낸 JSON/CSV 파일을 가져옵니다. contentId가 없는 행은
+            관광지명(title)과 좌표(lat, lng)로 찾습니다. (최대{" "}
+            {MAX_BOOKMARK_IMPORT_ROWS}개)
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="import-file">파일</Label>
+            <Input
+              id="import-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              disabled={isImporting}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          {isImporting && (
+            <p className="text-sm text-muted-foreground">
+              관광지를 찾아 북마크에 추가하는 중입니다...
+            </p>
+          )}
+
+          {report && (
+            <div className="flex flex-col gap-3 rounded-lg border bg-muted/30 p-3">
+              <p className="text-sm">
+                전체 {report.total}행 중{" "}
+                <span className="font-semibold">{report.added}개</span>를
+                추가했습니다.
+              </p>
+              <IssueList title="중복" issues={report.duplicates} />
+              <IssueList title="찾을 수 없음" issues={report.unmatched} />
+              <IssueList title="저장 실패" issues={report.failed} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => handleOpenChange(false)}
+            disabled={isImporting}
+          >
+            닫기
+          </Button>
+          <Button onClick={handleImport} disabled={!file || isImporting}>
+            {isImporting ? "가져오는 중..." : "가져오기"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
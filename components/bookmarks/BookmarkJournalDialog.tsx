@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { NotebookPen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import BookmarkJournalEditor from "@/components/bookmarks/BookmarkJournalEditor";
+import type { Bookmark } from "@/lib/types/bookmark";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file BookmarkJournalDialog.tsx
+ * @description 북마크 여행 기록 편집 다이얼로그
+ *
+ * 버튼을 누르면 북마크 여행 기록 편집 폼을 다이얼로그로 엽니다.
+ * 북마크 목록 카드와 관광지 상세페이지(북마크 버튼 옆)에서 사용합니다.
+ *
+ * @see {@link /components/bookmarks/BookmarkJournalEditor.tsx} - 여행 기록 편집 폼
+ */
+
+interface BookmarkJournalDialogProps {
+  /** 편집할 북마크 */
+  bookmark: Bookmark;
+  /** 다이얼로그 제목에 표시할 관광지명 */
+  title?: string;
+  /** 버튼 크기 */
+  size?: "default" | "sm" | "lg" | "icon";
+  /** 버튼 스타일 */
+  variant?: "default" | "outline" | "ghost" | "secondary";
+  className?: string;
+}
+
+/**
+ * 북마크 여행 기록 편집 다이얼로그
+ */
+export default function BookmarkJournalDialog({
+  bookmark,
+  title,
+  size = "sm",
+  variant = "outline",
+  className,
+}: BookmarkJournalDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasJournal = Boolean(
+    bookmark.note || bookmark.tags.length > 0 || bookmark.rating !== null,
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant={variant}
+          size={size}
+          className={cn("gap-2", className)}
+          aria-label={hasJournal ? "기록 수정" : "기록 남기기"}
+        >
+          <NotebookPen className="size-4" />
+          {size !== "icon" && "기록"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title ? `${title} 기록` : "여행 기록"}</DialogTitle>
+          <DialogDescription>
+            나만 볼 수 있는 메모, 태그, 방문 기록을 남겨보세요.
+          </DialogDescription>
+        </DialogHeader>
+        {/* 다이얼로그를 열 때마다 최신 값으로 폼을 초기화 */}
+        {isOpen && (
+          <BookmarkJournalEditor
+            bookmark={bookmark}
+            onSaved={() => setIsOpen(false)}
+            onCancel={() => setIsOpen(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
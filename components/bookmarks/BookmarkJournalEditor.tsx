@@ -0,0 +1,267 @@
+"use client";
+
+import { useState } from "react";
+import { Eye, Pencil, Star } from "lucide-react";
+import { toast } from "sonner";
+import { useBookmarkJournal } from "@/hooks/useBookmarkJournal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import MarkdownNote from "@/components/bookmarks/MarkdownNote";
+import type { Bookmark, BookmarkStatus } from "@/lib/types/bookmark";
+import { cn } from "@/lib/utils";
+import {
+  BOOKMARK_STATUS_LABELS,
+  MAX_BOOKMARK_NOTE_LENGTH,
+  parseTags,
+} from "@/lib/utils/bookmark-journal";
+
+/**
+ * @file BookmarkJournalEditor.tsx
+ * @description 북마크 여행 기록 편집 폼
+ *
+ * 북마크의 메모, 태그, 방문 상태, 방문일, 평점을 편집하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 방문 상태 선택 (가고 싶음 / 방문함)
+ * 2. 방문일 입력 (방문함일 때만)
+ * 3. 1~5 평점 (같은 별을 다시 누르면 해제)
+ * 4. 태그 입력 (쉼표/공백/# 구분)
+ * 5. 마크다운 메모 작성/미리보기
+ *
+ * @see {@link /hooks/useBookmarkJournal.ts} - 여행 기록 수정 훅
+ */
+
+interface BookmarkJournalEditorProps {
+  /** 편집할 북마크 */
+  bookmark: Bookmark;
+  /** 저장 완료 핸들러 */
+  onSaved?: () => void;
+  /** 취소 핸들러 */
+  onCancel?: () => void;
+}
+
+/**
+ * 오늘 날짜 (YYYY-MM-DD, 로컬 시간 기준)
+ */
+function getToday(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 북마크 여행 기록 편집 폼
+ */
+export default function BookmarkJournalEditor({
+  bookmark,
+  onSaved,
+  onCancel,
+}: BookmarkJournalEditorProps) {
+  const { saveJournal, isSaving } = useBookmarkJournal();
+  const [status, setStatus] = useState<BookmarkStatus>(bookmark.status);
+  const [visitedAt, setVisitedAt] = useState(bookmark.visited_at ?? "");
+  const [rating, setRating] = useState<number | null>(bookmark.rating);
+  const [tagsText, setTagsText] = useState(bookmark.tags.join(", "));
+  const [note, setNote] = useState(bookmark.note ?? "");
+  const [isPreview, setIsPreview] = useState(false);
+
+  /**
+   * 방문 상태 변경 핸들러 (방문함으로 바꾸면 방문일 기본값은 오늘)
+   */
+  const handleStatusChange = (value: BookmarkStatus) => {
+    setStatus(value);
+    if (value === "visited" && !visitedAt) {
+      setVisitedAt(getToday());
+    }
+  };
+
+  /**
+   * 저장 핸들러
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await saveJournal({
+        bookmarkId: bookmark.id,
+        input: {
+          note: note.trim() || null,
+          tags: parseTags(tagsText),
+          status,
+          // 가고 싶음 상태에서는 방문일을 저장하지 않음
+          visited_at: status === "visited" && visitedAt ? visitedAt : null,
+          rating,
+        },
+      });
+      toast.success("기록을 저장했습니다.");
+      onSaved?.();
+    } catch (error) {
+      console.error("[BookmarkJournalEditor] 기록 저장 실패:", error);
+      toast.error("기록을 저장하지 못했습니다.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {/* 방문 상태 */}
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="journal-status">상태</Label>
+          <Select
+            value={status}
+            onValueChange={(value) =>
+              handleStatusChange(value as BookmarkStatus)
+            }
+          >
+            <SelectTrigger id="journal-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="want">
+                {BOOKMARK_STATUS_LABELS.want}
+              </SelectItem>
+              <SelectItem value="visited">
+                {BOOKMARK_STATUS_LABELS.visited}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* 방문일 */}
+        {status === "visited" && (
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="journal-visited-at">방문일</Label>
+            <Input
+              id="journal-visited-at"
+              type="date"
+              value={visitedAt}
+              max={getToday()}
+              onChange={(e) => setVisitedAt(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* 평점 */}
+      <div className="flex flex-col gap-2">
+        <Label>내 평점</Label>
+        <div className="flex items-center gap-1" role="radiogroup">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={rating === value}
+              aria-label={`${value}점`}
+              onClick={() => setRating(rating === value ? null : value)}
+              className="rounded p-1 transition-colors hover:bg-accent"
+            >
+              <Star
+                className={cn(
+                  "size-5",
+                  rating !== null && value <= rating
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground",
+                )}
+              />
+            </button>
+          ))}
+          <span className="ml-2 text-sm text-muted-foreground">
+            {rating ? `${rating}점` : "평점 없음"}
+          </span>
+        </div>
+      </div>
+
+      {/* 태그 */}
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="journal-tags">태그</Label>
+        <Input
+          id="journal-tags"
+          value={tagsText}
+          onChange={(e) => setTagsText(e.target.value)}
+          placeholder="예: 바다, 야경, 아이랑"
+        />
+        {parseTags(tagsText).length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {parseTags(tagsText).map((tag) => (
+              <span
+                key={tag}
+                className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 메모 */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="journal-note">메모</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsPreview((prev) => !prev)}
+            className="gap-1"
+          >
+            {isPreview ? (
+              <>
+                <Pencil className="size-4" />
+                편집
+              </>
+            ) : (
+              <>
+                <Eye className="size-4" />
+                미리보기
+              </>
+            )}
+          </Button>
+        </div>
+        {isPreview ? (
+          <div className="min-h-24 rounded-md border p-3">
+            {note.trim() ? (
+              <MarkdownNote note={note} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                작성한 메모가 없습니다.
+              </p>
+            )}
+          </div>
+        ) : (
+          <Textarea
+            id="journal-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={MAX_BOOKMARK_NOTE_LENGTH}
+            rows={6}
+            placeholder={
+              "마크다운을 사용할 수 있습니다.\n예: **주차** 가능, - 오전에 방문 추천"
+            }
+          />
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            취소
+          </Button>
+        )}
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? "저장 중..." : "저장"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,103 @@
+import { CalendarCheck, Star } from "lucide-react";
+import MarkdownNote from "@/components/bookmarks/MarkdownNote";
+import type { Bookmark } from "@/lib/types/bookmark";
+import { cn } from "@/lib/utils";
+import { BOOKMARK_STATUS_LABELS } from "@/lib/utils/bookmark-journal";
+
+/**
+ * @file BookmarkJournalSummary.tsx
+ * @description 북마크 여행 기록 요약 표시 컴포넌트
+ *
+ * 북마크의 방문 상태, 방문일, 평점, 태그, 메모를 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 방문 상태 뱃지 (방문일 포함)
+ * 2. 평점 (별 아이콘)
+ * 3. 태그 목록
+ * 4. 메모 (showNote일 때 마크다운으로 표시)
+ */
+
+interface BookmarkJournalSummaryProps {
+  bookmark: Bookmark;
+  /** 메모 표시 여부 (목록 카드에서는 생략) */
+  showNote?: boolean;
+  className?: string;
+}
+
+/**
+ * 방문일 표시 형식 (YYYY-MM-DD → YYYY.MM.DD)
+ */
+function formatVisitedAt(visitedAt: string): string {
+  return visitedAt.replace(/-/g, ".");
+}
+
+/**
+ * 북마크 여행 기록 요약 표시 컴포넌트
+ */
+export default function BookmarkJournalSummary({
+  bookmark,
+  showNote = false,
+  className,
+}: BookmarkJournalSummaryProps) {
+  const isVisited = bookmark.status === "visited";
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {/* 방문 상태 */}
+        <span
+          className={cn(
+            "inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-medium",
+            isVisited
+              ? "bg-green-500/10 text-green-700 dark:text-green-400"
+              : "bg-primary/10 text-primary",
+          )}
+        >
+          {isVisited && <CalendarCheck className="size-3" />}
+          {BOOKMARK_STATUS_LABELS[bookmark.status]}
+          {isVisited &&
+            bookmark.visited_at &&
+            ` · ${formatVisitedAt(bookmark.visited_at)}`}
+        </span>
+
+        {/* 평점 */}
+        {bookmark.rating !== null && (
+          <span
+            className="inline-flex items-center gap-0.5"
+            aria-label={`내 평점 ${bookmark.rating}점`}
+          >
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Star
+                key={value}
+                className={cn(
+                  "size-3",
+                  value <= bookmark.rating!
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground/40",
+                )}
+              />
+            ))}
+          </span>
+        )}
+
+        {/* 태그 */}
+        {bookmark.tags.map((tag) => (
+          <span
+            key={tag}
+            className="rounded-full bg-muted px-2 py-0.5 text-muted-foreground"
+          >
+            #{tag}
+          </span>
+        ))}
+      </div>
+
+      {/* 메모 */}
+      {showNote && bookmark.note && (
+        <MarkdownNote
+          note={bookmark.note}
+          className="rounded-md border bg-muted/30 p-3"
+        />
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,20 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@clerk/nextjs";
 import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
 import { useBookmarkedTours } from "@/hooks/useBookmarkedTours";
+import { useBookmarkCollections } from "@/hooks/useBookmarkCollections";
+import { useCollectionRealtime } from "@/hooks/useCollectionRealtime";
 import { removeBookmark } from "@/lib/api/supabase-api";
 import TourCard from "@/components/TourCard";
+import CollectionTabs, {
+  ALL_BOOKMARKS_TAB,
+} from "@/components/bookmarks/CollectionTabs";
+import BookmarkJournalDialog from "@/components/bookmarks/BookmarkJournalDialog";
+import BookmarkJournalSummary from "@/components/bookmarks/BookmarkJournalSummary";
+import BookmarkExportDialog from "@/components/bookmarks/BookmarkExportDialog";
+import BookmarkImportDialog from "@/components/bookmarks/BookmarkImportDialog";
+import PublishListDialog from "@/components/bookmarks/PublishListDialog";
+import ShareCollectionDialog from "@/components/bookmarks/ShareCollectionDialog";
+import CollectionInvitesBanner from "@/components/bookmarks/CollectionInvitesBanner";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -16,9 +28,29 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 // Checkbox 컴포넌트가 없으므로 간단한 체크박스 구현
-import { ArrowUpDown, Trash2, Star } from "lucide-react";
+import {
+  ArrowUpDown,
+  Filter,
+  FolderMinus,
+  GripVertical,
+  Trash2,
+  Star,
+  UserRound,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import type {
+  Bookmark,
+  BookmarkStatus,
+  BookmarkWithTour,
+} from "@/lib/types/bookmark";
 import type { TourItem } from "@/lib/types/tour";
+import {
+  BOOKMARK_STATUS_LABELS,
+  collectTags,
+  matchesJournalFilter,
+  type BookmarkJournalFilter,
+} from "@/lib/utils/bookmark-journal";
+import { canEditCollection } from "@/lib/utils/collection-sharing";
 import { toast } from "sonner";
 
 /**
@@ -29,9 +61,16 @@ import { toast } from "sonner";
  *
  * 주요 기능:
  * 1. 북마크한 관광지 목록 표시 (TourCard 재사용)
- * 2. 정렬 옵션 (최신순, 이름순, 지역별)
- * 3. 일괄 삭제 기능
- * 4. Spacing-First 정책 준수
+ * 2. 정렬 옵션 (직접 정렬: 컬렉션 순서, 최신순: 북마크 추가일, 이름순, 지역별: 지역코드, 평점순, 방문일순)
+ * 3. 일괄 삭제 기능 (컬렉션 탭에서는 컬렉션에서 빼기도 지원)
+ * 4. 스냅샷을 아직 저장하지 못한 북마크 수 안내
+ * 5. 컬렉션 탭 (전체/컬렉션별 목록)
+ * 6. 컬렉션 직접 정렬 (드래그 앤 드롭)
+ * 7. 여행 기록 필터 (방문 상태, 태그, 최소 평점) 및 카드별 기록 요약/편집
+ * 8. 내보내기 (JSON/CSV/GPX/KML, 전체 또는 선택한 북마크) 및 가져오기 (JSON/CSV)
+ * 9. 현재 탭(전체 북마크 또는 컬렉션) 공개 (/lists/[slug])
+ * 10. 공유 컬렉션 (멤버 초대, 담은 사람 표시, 역할별 편집 제한, 실시간 반영)
+ * 11. Spacing-First 정책 준수
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
  */
@@ -39,78 +78,306 @@ import { toast } from "sonner";
 /**
  * 북마크 정렬 옵션 타입
  */
-type BookmarkSortOption = "latest" | "name" | "area";
+type BookmarkSortOption =
+  "manual" | "latest" | "name" | "area" | "rating" | "visited";
+
+/** 필터 Select의 "전체" 값 (Select는 빈 문자열 값을 쓸 수 없음) */
+const ALL_FILTER_VALUE = "__all__";
+
+/**
+ * 목록에 표시하는 항목 (내 북마크 또는 공유 컬렉션에서 다른 멤버가 담은 관광지)
+ */
+interface BookmarkListItem {
+  /** 북마크 ID (선택, 컬렉션 순서 변경/빼기에 사용) */
+  bookmarkId: string;
+  /** 관광지 정보 */
+  tour: TourItem;
+  /** 내 북마크 (다른 멤버가 담은 관광지는 null, 여행 기록 없음) */
+  bookmark: Bookmark | null;
+  /** 추가일시 (내 북마크는 북마크 추가일, 다른 멤버의 관광지는 담은 일시) */
+  createdAt: string;
+  /** 담은 사람 이름 (전체 탭에서는 null) */
+  addedByName: string | null;
+}
+
+interface BookmarkListProps {
+  /** 처음 선택할 컬렉션 ID (초대 수락 후 이동 등) */
+  initialCollectionId?: string;
+}
 
 /**
  * 북마크 목록 컴포넌트
  */
-export default function BookmarkList() {
+export default function BookmarkList({
+  initialCollectionId,
+}: BookmarkListProps = {}) {
   const { userId } = useAuth();
   const supabase = useClerkSupabaseClient();
   const queryClient = useQueryClient();
-  const { tours, isLoading, error } = useBookmarkedTours();
+  const { bookmarkedTours, pendingCount, isLoading, error } =
+    useBookmarkedTours();
+  const { collections, reorderCollection, removeFromCollection } =
+    useBookmarkCollections();
 
-  const [sortOption, setSortOption] = useState<BookmarkSortOption>("latest");
+  const [activeTab, setActiveTab] = useState(
+    initialCollectionId ?? ALL_BOOKMARKS_TAB,
+  );
+  const [sortOption, setSortOption] = useState<BookmarkSortOption>(
+    initialCollectionId ? "manual" : "latest",
+  );
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isDeleting, setIsDeleting] = useState(false);
+  // 드래그 중인 북마크 ID (직접 정렬)
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [journalFilter, setJournalFilter] = useState<BookmarkJournalFilter>({});
+
+  // 다른 멤버의 변경 사항을 실시간으로 반영
+  useCollectionRealtime(collections.map((collection) => collection.id));
+
+  // 선택한 컬렉션 (전체 탭이거나 삭제된 컬렉션이면 undefined)
+  const activeCollection = collections.find(
+    (collection) => collection.id === activeTab,
+  );
+  // 공유 컬렉션 여부 (멤버가 있거나 다른 사람이 공유한 컬렉션)
+  const isSharedCollection = Boolean(
+    activeCollection &&
+    (activeCollection.role !== "owner" || activeCollection.member_count > 0),
+  );
+  // 컬렉션 항목을 빼거나 순서를 바꿀 수 있는지 (보기 전용 멤버는 불가)
+  const canEditItems =
+    !activeCollection || canEditCollection(activeCollection.role);
+
+  // 직접 정렬은 컬렉션 탭에서만 사용 (전체 탭에서는 최신순)
+  const effectiveSort: BookmarkSortOption =
+    sortOption === "manual" && !activeCollection ? "latest" : sortOption;
+  const isJournalFiltered = Boolean(
+    journalFilter.status || journalFilter.tag || journalFilter.minRating,
+  );
+  // 필터로 일부만 보일 때는 순서가 어긋나지 않도록 드래그 정렬을 막음
+  const isManualSort =
+    effectiveSort === "manual" && !isJournalFiltered && canEditItems;
+
+  // 태그 필터 옵션 (많이 쓴 순)
+  const availableTags = useMemo(
+    () => collectTags(bookmarkedTours.map((item) => item.bookmark)),
+    [bookmarkedTours],
+  );
 
   /**
-   * 정렬된 관광지 목록
+   * 정렬된 북마크 목록 (컬렉션 탭이면 컬렉션에 담긴 북마크만, 컬렉션 순서대로)
+   * 공유 컬렉션에서는 다른 멤버가 담은 관광지도 포함합니다.
+   * 여행 기록 필터를 적용한 뒤 정렬합니다 (여행 기록이 없는 다른 멤버의 관광지는 필터 시 제외).
    */
-  const sortedTours = useMemo(() => {
-    if (!tours || tours.length === 0) {
-      return [];
+  const sortedItems = useMemo(() => {
+    let sorted: BookmarkListItem[];
+    if (activeCollection) {
+      const itemByBookmarkId = new Map(
+        bookmarkedTours.map((item) => [item.bookmark.id, item]),
+      );
+      sorted = activeCollection.items.flatMap((collectionItem) => {
+        const ownItem = itemByBookmarkId.get(collectionItem.bookmark_id);
+        const tour = ownItem?.tour ?? collectionItem.tour;
+        if (!tour) {
+          return [];
+        }
+        return [
+          {
+            bookmarkId: collectionItem.bookmark_id,
+            tour,
+            bookmark: ownItem?.bookmark ?? null,
+            createdAt: ownItem?.bookmark.created_at ?? collectionItem.added_at,
+            addedByName: collectionItem.added_by_name,
+          },
+        ];
+      });
+    } else {
+      sorted = bookmarkedTours.map(({ bookmark, tour }) => ({
+        bookmarkId: bookmark.id,
+        tour,
+        bookmark,
+        createdAt: bookmark.created_at,
+        addedByName: null,
+      }));
+    }
+    if (isJournalFiltered) {
+      sorted = sorted.filter(
+        (item) =>
+          item.bookmark !== null &&
+          matchesJournalFilter(item.bookmark, journalFilter),
+      );
     }
 
-    const sorted = [...tours];
+    switch (effectiveSort) {
+      case "manual":
+        // 직접 정렬 (컬렉션 순서 유지)
+        break;
 
-    switch (sortOption) {
       case "latest":
-        // 북마크 생성일 기준 내림차순 (modifiedtime 사용)
-        return sorted.sort((a, b) => {
-          const timeA = a.modifiedtime || "0";
-          const timeB = b.modifiedtime || "0";
+        // 북마크 추가일 기준 내림차순
+        sorted.sort((a, b) => {
+          const timeA = a.createdAt;
+          const timeB = b.createdAt;
           if (timeA !== timeB) {
             return timeB.localeCompare(timeA);
           }
-          return a.contentid.localeCompare(b.contentid);
+          return a.tour.contentid.localeCompare(b.tour.contentid);
         });
+        break;
 
       case "name":
         // 이름순 (가나다순)
-        return sorted.sort((a, b) => {
-          return a.title.localeCompare(b.title, "ko", {
+        sorted.sort((a, b) => {
+          return a.tour.title.localeCompare(b.tour.title, "ko", {
             numeric: true,
             sensitivity: "base",
           });
         });
+        break;
 
       case "area":
-        // 지역별 (areacode 기준, 주소 첫 글자 기준)
-        return sorted.sort((a, b) => {
-          const addrA = a.addr1 || "";
-          const addrB = b.addr1 || "";
-          return addrA.localeCompare(addrB, "ko", {
+        // 지역별 (지역코드 순, 지역코드가 없으면 마지막, 같은 지역은 주소순)
+        sorted.sort((a, b) => {
+          const areaA = Number(a.tour.areacode) || Number.MAX_SAFE_INTEGER;
+          const areaB = Number(b.tour.areacode) || Number.MAX_SAFE_INTEGER;
+          if (areaA !== areaB) {
+            return areaA - areaB;
+          }
+          return (a.tour.addr1 || "").localeCompare(b.tour.addr1 || "", "ko", {
             numeric: true,
             sensitivity: "base",
           });
         });
+        break;
+
+      case "rating":
+        // 평점 높은 순 (평점이 없으면 마지막, 같으면 최신순)
+        sorted.sort((a, b) => {
+          const ratingA = a.bookmark?.rating ?? 0;
+          const ratingB = b.bookmark?.rating ?? 0;
+          if (ratingA !== ratingB) {
+            return ratingB - ratingA;
+          }
+          return b.createdAt.localeCompare(a.createdAt);
+        });
+        break;
 
-      default:
-        return sorted;
+      case "visited":
+        // 최근 방문일 순 (방문일이 없으면 마지막, 같으면 최신순)
+        sorted.sort((a, b) => {
+          const visitedA = a.bookmark?.visited_at ?? "";
+          const visitedB = b.bookmark?.visited_at ?? "";
+          if (visitedA !== visitedB) {
+            return visitedB.localeCompare(visitedA);
+          }
+          return b.createdAt.localeCompare(a.createdAt);
+        });
+        break;
     }
-  }, [tours, sortOption]);
+
+    return sorted;
+  }, [
+    bookmarkedTours,
+    activeCollection,
+    effectiveSort,
+    journalFilter,
+    isJournalFiltered,
+  ]);
+
+  // 선택한 항목 중 내 북마크 (내보내기, 북마크 삭제 대상)
+  const selectedItems = useMemo(
+    () =>
+      sortedItems.flatMap(
+        ({ bookmarkId, bookmark, tour }): BookmarkWithTour[] =>
+          bookmark && selectedIds.has(bookmarkId) ? [{ bookmark, tour }] : [],
+      ),
+    [sortedItems, selectedIds],
+  );
+
+  /**
+   * 탭 변경 핸들러 (컬렉션 탭은 직접 정렬, 전체 탭은 최신순으로 시작)
+   */
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab);
+    setSortOption(tab === ALL_BOOKMARKS_TAB ? "latest" : "manual");
+    setSelectedIds(new Set());
+    console.log("[BookmarkList] 탭 변경:", tab);
+  };
+
+  /**
+   * 여행 기록 필터 변경 핸들러 ("전체"를 고르면 해당 조건 해제)
+   */
+  const handleJournalFilterChange = (
+    key: keyof BookmarkJournalFilter,
+    value: string,
+  ) => {
+    setJournalFilter((prev) => {
+      const next = { ...prev };
+      if (value === ALL_FILTER_VALUE) {
+        delete next[key];
+      } else if (key === "minRating") {
+        next.minRating = Number(value);
+      } else if (key === "status") {
+        next.status = value as BookmarkStatus;
+      } else {
+        next.tag = value;
+      }
+      return next;
+    });
+    setSelectedIds(new Set());
+    console.log("[BookmarkList] 여행 기록 필터 변경:", { key, value });
+  };
+
+  /**
+   * 드롭 핸들러 (드래그한 북마크를 대상 위치로 이동)
+   */
+  const handleDrop = async (targetBookmarkId: string) => {
+    if (!activeCollection || !draggingId || draggingId === targetBookmarkId) {
+      setDraggingId(null);
+      return;
+    }
+
+    const bookmarkIds = sortedItems.map((item) => item.bookmarkId);
+    const fromIndex = bookmarkIds.indexOf(draggingId);
+    const toIndex = bookmarkIds.indexOf(targetBookmarkId);
+    setDraggingId(null);
+    if (fromIndex === -1 || toIndex === -1) {
+      return;
+    }
+
+    bookmarkIds.splice(fromIndex, 1);
+    bookmarkIds.splice(toIndex, 0, draggingId);
+
+    // 스냅샷이 없어 목록에 표시되지 않은 항목은 기존 순서대로 뒤에 유지
+    const visibleIds = new Set(bookmarkIds);
+    const hiddenIds = activeCollection.items
+      .map((item) => item.bookmark_id)
+      .filter((bookmarkId) => !visibleIds.has(bookmarkId));
+
+    try {
+      await reorderCollection({
+        collectionId: activeCollection.id,
+        bookmarkIds: [...bookmarkIds, ...hiddenIds],
+      });
+      console.log("[BookmarkList] 컬렉션 순서 변경 완료:", {
+        fromIndex,
+        toIndex,
+      });
+    } catch (error) {
+      console.error("[BookmarkList] 컬렉션 순서 변경 실패:", error);
+      toast.error("순서를 변경하지 못했습니다.");
+    }
+  };
 
   /**
    * 체크박스 토글 핸들러
    */
-  const handleToggleSelect = (contentId: string) => {
+  const handleToggleSelect = (bookmarkId: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
-      if (next.has(contentId)) {
-        next.delete(contentId);
+      if (next.has(bookmarkId)) {
+        next.delete(bookmarkId);
       } else {
-        next.add(contentId);
+        next.add(bookmarkId);
       }
       return next;
     });
@@ -120,32 +387,33 @@ export default function BookmarkList() {
    * 전체 선택/해제 핸들러
    */
   const handleToggleSelectAll = () => {
-    if (selectedIds.size === sortedTours.length) {
+    if (selectedIds.size === sortedItems.length) {
       setSelectedIds(new Set());
     } else {
-      setSelectedIds(new Set(sortedTours.map((tour) => tour.contentid)));
+      setSelectedIds(new Set(sortedItems.map((item) => item.bookmarkId)));
     }
   };
 
   /**
-   * 일괄 삭제 핸들러
+   * 일괄 삭제 핸들러 (선택한 항목 중 내 북마크만 삭제)
    */
   const handleBulkDelete = async () => {
-    if (selectedIds.size === 0 || !userId) {
+    if (selectedItems.length === 0 || !userId) {
       return;
     }
 
-    const confirmMessage = `선택한 ${selectedIds.size}개의 북마크를 삭제하시겠습니까?`;
+    const confirmMessage = `선택한 ${selectedItems.length}개의 북마크를 삭제하시겠습니까?`;
     if (!confirm(confirmMessage)) {
       return;
     }
 
     setIsDeleting(true);
-    console.log("[BookmarkList] 일괄 삭제 시작:", selectedIds.size);
+    console.log("[BookmarkList] 일괄 삭제 시작:", selectedItems.length);
 
     try {
       // 모든 북마크 삭제를 병렬로 실행
-      const deletePromises = Array.from(selectedIds).map(async (contentId) => {
+      const contentIds = selectedItems.map((item) => item.tour.contentid);
+      const deletePromises = contentIds.map(async (contentId) => {
         try {
           await removeBookmark(supabase, {
             user_id: userId,
@@ -160,14 +428,16 @@ export default function BookmarkList() {
 
       await Promise.all(deletePromises);
 
-      // 쿼리 무효화 및 재조회
+      // 쿼리 무효화 및 재조회 (삭제한 북마크는 컬렉션에서도 빠짐)
       queryClient.invalidateQueries({ queryKey: ["bookmarks", userId] });
-      queryClient.invalidateQueries({ queryKey: ["bookmarked-tours"] });
+      queryClient.invalidateQueries({
+        queryKey: ["bookmark-collections", userId],
+      });
 
       // 선택 초기화
       setSelectedIds(new Set());
 
-      toast.success(`${selectedIds.size}개의 북마크가 삭제되었습니다.`);
+      toast.success(`${contentIds.length}개의 북마크가 삭제되었습니다.`);
       console.log("[BookmarkList] 일괄 삭제 완료");
     } catch (error) {
       console.error("[BookmarkList] 일괄 삭제 실패:", error);
@@ -177,8 +447,42 @@ export default function BookmarkList() {
     }
   };
 
-  // 로딩 상태
-  if (isLoading) {
+  /**
+   * 선택한 북마크를 현재 컬렉션에서 빼기 (북마크는 유지)
+   */
+  const handleBulkRemoveFromCollection = async () => {
+    if (!activeCollection || selectedIds.size === 0) {
+      return;
+    }
+
+    const bookmarkIds = sortedItems
+      .filter((item) => selectedIds.has(item.bookmarkId))
+      .map((item) => item.bookmarkId);
+
+    setIsDeleting(true);
+    try {
+      await Promise.all(
+        bookmarkIds.map((bookmarkId) =>
+          removeFromCollection({
+            collectionId: activeCollection.id,
+            bookmarkId,
+          }),
+        ),
+      );
+      setSelectedIds(new Set());
+      toast.success(
+        `${bookmarkIds.length}개를 "${activeCollection.name}"에서 뺐습니다.`,
+      );
+    } catch (error) {
+      console.error("[BookmarkList] 컬렉션에서 빼기 실패:", error);
+      toast.error("컬렉션에서 빼는 중 오류가 발생했습니다.");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // 로딩 상태 (스냅샷이 저장된 북마크가 하나도 없고 갱신 중인 경우 포함)
+  if (isLoading || (bookmarkedTours.length === 0 && pendingCount > 0)) {
     return (
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-center py-12">
@@ -208,20 +512,49 @@ export default function BookmarkList() {
     );
   }
 
-  // 북마크가 없는 경우
-  if (sortedTours.length === 0) {
+  // 받은 초대 + 컬렉션 탭
+  const collectionTabs = (
+    <>
+      <CollectionInvitesBanner onAccept={handleTabChange} />
+      <CollectionTabs
+        activeTab={activeCollection ? activeCollection.id : ALL_BOOKMARKS_TAB}
+        onTabChange={handleTabChange}
+        totalCount={bookmarkedTours.length}
+      />
+    </>
+  );
+
+  // 공유 설정 (컬렉션 탭)
+  const shareDialog = activeCollection && (
+    <ShareCollectionDialog
+      key={activeCollection.id}
+      collection={activeCollection}
+      onLeave={() => handleTabChange(ALL_BOOKMARKS_TAB)}
+    />
+  );
+
+  // 북마크가 없는 경우 (컬렉션 탭이면 컬렉션이 비어 있는 경우)
+  if (sortedItems.length === 0 && !isJournalFiltered) {
     return (
-      <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-4 md:gap-6">
+        {collectionTabs}
         <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-muted bg-muted/50 p-12">
           <Star className="size-12 text-muted-foreground" />
           <div className="flex flex-col items-center gap-2 text-center">
             <h3 className="text-lg font-semibold">
-              북마크한 관광지가 없습니다
+              {activeCollection
+                ? "이 컬렉션에 담긴 관광지가 없습니다"
+                : "북마크한 관광지가 없습니다"}
             </h3>
             <p className="text-sm text-muted-foreground">
-              관광지를 북마크하면 여기에 표시됩니다.
+              {!activeCollection
+                ? "관광지를 북마크하면 여기에 표시됩니다."
+                : canEditItems
+                  ? "관광지 상세페이지의 북마크 버튼에서 컬렉션에 담을 수 있습니다."
+                  : "멤버가 관광지를 담으면 여기에 바로 표시됩니다."}
             </p>
           </div>
+          {activeCollection ? shareDialog : <BookmarkImportDialog />}
         </div>
       </div>
     );
@@ -229,13 +562,15 @@ export default function BookmarkList() {
 
   return (
     <div className="flex flex-col gap-4 md:gap-6">
+      {collectionTabs}
+
       {/* 컨트롤 영역 */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        {/* 정렬 옵션 */}
-        <div className="flex items-center gap-2">
+        {/* 정렬 옵션, 내보내기/가져오기 */}
+        <div className="flex flex-wrap items-center gap-2">
           <ArrowUpDown className="size-4 text-muted-foreground" />
           <Select
-            value={sortOption}
+            value={effectiveSort}
             onValueChange={(value) =>
               setSortOption(value as BookmarkSortOption)
             }
@@ -244,35 +579,172 @@ export default function BookmarkList() {
               <SelectValue placeholder="정렬 선택" />
             </SelectTrigger>
             <SelectContent>
+              {activeCollection && (
+                <SelectItem value="manual">직접 정렬</SelectItem>
+              )}
               <SelectItem value="latest">최신순</SelectItem>
               <SelectItem value="name">이름순</SelectItem>
               <SelectItem value="area">지역별</SelectItem>
+              <SelectItem value="rating">평점순</SelectItem>
+              <SelectItem value="visited">방문일순</SelectItem>
             </SelectContent>
           </Select>
+          <BookmarkExportDialog
+            items={bookmarkedTours}
+            selectedItems={selectedItems}
+          />
+          <BookmarkImportDialog />
+          {shareDialog}
+          {(!activeCollection || activeCollection.role === "owner") && (
+            <PublishListDialog
+              key={activeCollection?.id ?? ALL_BOOKMARKS_TAB}
+              collectionId={activeCollection?.id ?? null}
+              defaultTitle={activeCollection?.name ?? "내 북마크"}
+            />
+          )}
         </div>
 
         {/* 일괄 삭제 버튼 */}
         {selectedIds.size > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {activeCollection && canEditItems && (
+              <Button
+                variant="outline"
+                size="default"
+                onClick={handleBulkRemoveFromCollection}
+                disabled={isDeleting}
+                className="gap-2"
+              >
+                <FolderMinus className="size-4" />
+                컬렉션에서 {selectedIds.size}개 빼기
+              </Button>
+            )}
+            {selectedItems.length > 0 && (
+              <Button
+                variant="destructive"
+                size="default"
+                onClick={handleBulkDelete}
+                disabled={isDeleting}
+                className="gap-2"
+              >
+                <Trash2 className="size-4" />
+                {isSharedCollection
+                  ? `내 북마크 ${selectedItems.length}개 삭제`
+                  : `선택한 ${selectedItems.length}개 삭제`}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 여행 기록 필터 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Filter className="size-4 text-muted-foreground" />
+        <Select
+          value={journalFilter.status ?? ALL_FILTER_VALUE}
+          onValueChange={(value) => handleJournalFilterChange("status", value)}
+        >
+          <SelectTrigger className="w-[120px]" aria-label="방문 상태 필터">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FILTER_VALUE}>모든 상태</SelectItem>
+            <SelectItem value="want">{BOOKMARK_STATUS_LABELS.want}</SelectItem>
+            <SelectItem value="visited">
+              {BOOKMARK_STATUS_LABELS.visited}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        {availableTags.length > 0 && (
+          <Select
+            value={journalFilter.tag ?? ALL_FILTER_VALUE}
+            onValueChange={(value) => handleJournalFilterChange("tag", value)}
+          >
+            <SelectTrigger className="w-[140px]" aria-label="태그 필터">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_FILTER_VALUE}>모든 태그</SelectItem>
+              {availableTags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  #{tag}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select
+          value={
+            journalFilter.minRating
+              ? String(journalFilter.minRating)
+              : ALL_FILTER_VALUE
+          }
+          onValueChange={(value) =>
+            handleJournalFilterChange("minRating", value)
+          }
+        >
+          <SelectTrigger className="w-[120px]" aria-label="평점 필터">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FILTER_VALUE}>모든 평점</SelectItem>
+            {[5, 4, 3, 2, 1].map((rating) => (
+              <SelectItem key={rating} value={String(rating)}>
+                {rating === 5 ? "5점" : `${rating}점 이상`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isJournalFiltered && (
           <Button
-            variant="destructive"
-            size="default"
-            onClick={handleBulkDelete}
-            disabled={isDeleting}
-            className="gap-2"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setJournalFilter({});
+              setSelectedIds(new Set());
+            }}
           >
-            <Trash2 className="size-4" />
-            선택한 {selectedIds.size}개 삭제
+            필터 초기화
           </Button>
         )}
       </div>
 
+      {/* 스냅샷 갱신 중인 북마크 안내 */}
+      {pendingCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          북마크한 관광지 {pendingCount}곳의 정보를 불러오는 중입니다.
+        </p>
+      )}
+
+      {/* 직접 정렬 안내 */}
+      {isManualSort && (
+        <p className="text-sm text-muted-foreground">
+          카드를 끌어다 놓아 순서를 바꿀 수 있습니다.
+        </p>
+      )}
+      {effectiveSort === "manual" && isJournalFiltered && (
+        <p className="text-sm text-muted-foreground">
+          필터를 해제하면 카드를 끌어다 놓아 순서를 바꿀 수 있습니다.
+        </p>
+      )}
+
+      {/* 필터 결과가 없는 경우 */}
+      {sortedItems.length === 0 && (
+        <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-muted bg-muted/50 p-8 text-center">
+          <p className="font-semibold">조건에 맞는 북마크가 없습니다</p>
+          <p className="text-sm text-muted-foreground">
+            필터를 바꾸거나 초기화해 보세요.
+          </p>
+        </div>
+      )}
+
       {/* 전체 선택 체크박스 */}
       <div className="flex items-center gap-2 border-b pb-4">
         <input
           type="checkbox"
           id="select-all"
           checked={
-            sortedTours.length > 0 && selectedIds.size === sortedTours.length
+            sortedItems.length > 0 && selectedIds.size === sortedItems.length
           }
           onChange={handleToggleSelectAll}
           className="size-4 cursor-pointer rounded border-border"
@@ -281,27 +753,83 @@ export default function BookmarkList() {
           htmlFor="select-all"
           className="text-sm font-medium cursor-pointer"
         >
-          전체 선택 ({selectedIds.size}/{sortedTours.length})
+          전체 선택 ({selectedIds.size}/{sortedItems.length})
         </label>
       </div>
 
       {/* 북마크 목록 */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-        {sortedTours.map((tour) => (
-          <div key={tour.contentid} className="relative">
+        {sortedItems.map(({ bookmarkId, bookmark, tour, addedByName }) => (
+          <div
+            key={bookmarkId}
+            className={cn(
+              "relative",
+              isManualSort && "cursor-grab active:cursor-grabbing",
+              draggingId === bookmarkId && "opacity-50",
+            )}
+            draggable={isManualSort}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDraggingId(bookmarkId);
+            }}
+            onDragOver={(e) => {
+              if (isManualSort && draggingId) {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+              }
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(bookmarkId);
+            }}
+            onDragEnd={() => setDraggingId(null)}
+          >
             {/* 체크박스 */}
-            <div className="absolute left-2 top-2 z-10">
+            <div className="absolute left-2 top-2 z-10 flex items-center gap-1">
               <input
                 type="checkbox"
-                checked={selectedIds.has(tour.contentid)}
-                onChange={() => handleToggleSelect(tour.contentid)}
+                checked={selectedIds.has(bookmarkId)}
+                onChange={() => handleToggleSelect(bookmarkId)}
                 onClick={(e) => e.stopPropagation()}
                 className="size-4 cursor-pointer rounded border-border bg-background/90 backdrop-blur-sm"
               />
+              {isManualSort && (
+                <GripVertical
+                  className="size-4 rounded bg-background/90 text-muted-foreground"
+                  aria-hidden="true"
+                />
+              )}
             </div>
 
             {/* TourCard */}
             <TourCard tour={tour} />
+
+            {/* 담은 사람 (공유 컬렉션) */}
+            {isSharedCollection && (
+              <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                <UserRound className="size-3.5" />
+                {bookmark
+                  ? "내가"
+                  : `${addedByName ?? "알 수 없는 멤버"}님이`}{" "}
+                담음
+              </p>
+            )}
+
+            {/* 여행 기록 요약 및 편집 (내 북마크만) */}
+            {bookmark && (
+              <div className="mt-2 flex items-start justify-between gap-2">
+                <BookmarkJournalSummary
+                  bookmark={bookmark}
+                  className="flex-1"
+                />
+                <BookmarkJournalDialog
+                  bookmark={bookmark}
+                  title={tour.title}
+                  size="icon"
+                  variant="ghost"
+                />
+              </div>
+            )}
           </div>
         ))}
       </div>
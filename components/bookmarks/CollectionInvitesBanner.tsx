@@ -0,0 +1,104 @@
+"use client";
+
+import { Mail } from "lucide-react";
+import { toast } from "sonner";
+import { useCollectionInvites } from "@/hooks/useCollectionInvites";
+import { Button } from "@/components/ui/button";
+import { COLLECTION_ROLE_LABELS } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file CollectionInvitesBanner.tsx
+ * @description 받은 컬렉션 초대 안내 컴포넌트
+ *
+ * 이메일로 받은 공유 컬렉션 초대를 북마크 목록 위에 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 받은 초대 목록 (컬렉션 이름, 초대한 사람, 역할)
+ * 2. 수락/거절 (수락하면 해당 컬렉션 탭으로 이동)
+ *
+ * @see {@link /hooks/useCollectionInvites.ts} - 받은 컬렉션 초대 훅
+ */
+
+interface CollectionInvitesBannerProps {
+  /** 초대를 수락한 뒤 호출 (수락한 컬렉션 ID) */
+  onAccept?: (collectionId: string) => void;
+}
+
+/**
+ * 받은 컬렉션 초대 안내 컴포넌트
+ */
+export default function CollectionInvitesBanner({
+  onAccept,
+}: CollectionInvitesBannerProps) {
+  const { invites, isResponding, respondToInvite } = useCollectionInvites();
+
+  if (invites.length === 0) {
+    return null;
+  }
+
+  /**
+   * 초대 수락/거절 핸들러
+   */
+  const handleRespond = async (
+    token: string,
+    collectionName: string,
+    response: "accept" | "decline",
+  ) => {
+    try {
+      const collectionId = await respondToInvite({ token, response });
+      if (response === "accept") {
+        toast.success(`"${collectionName}" 공유 컬렉션에 참여했습니다.`);
+        onAccept?.(collectionId);
+      } else {
+        toast.success("초대를 거절했습니다.");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "초대에 응답하지 못했습니다.",
+      );
+    }
+  };
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {invites.map((invite) => (
+        <li
+          key={invite.token}
+          className="flex flex-col gap-3 rounded-lg border border-primary/30 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <div className="flex items-start gap-3">
+            <Mail className="mt-0.5 size-5 shrink-0 text-primary" />
+            <p className="text-sm">
+              <span className="font-semibold">{invite.inviterName}</span>님이{" "}
+              <span className="font-semibold">
+                &quot;{invite.collectionName}&quot;
+              </span>{" "}
+              컬렉션에 {COLLECTION_ROLE_LABELS[invite.role]}(으)로 초대했습니다.
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                handleRespond(invite.token, invite.collectionName, "decline")
+              }
+              disabled={isResponding}
+            >
+              거절
+            </Button>
+            <Button
+              size="sm"
+              onClick={() =>
+                handleRespond(invite.token, invite.collectionName, "accept")
+              }
+              disabled={isResponding}
+            >
+              참여하기
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
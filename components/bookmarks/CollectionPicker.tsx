@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { Check, FolderPlus, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useBookmarkCollections } from "@/hooks/useBookmarkCollections";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { canEditCollection } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file CollectionPicker.tsx
+ * @description 북마크 컬렉션 선택 컴포넌트
+ *
+ * 북마크를 담을 컬렉션을 선택하는 컴포넌트입니다.
+ * 북마크 버튼의 다이얼로그 안에서 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 컬렉션 목록 표시 (담긴 컬렉션은 체크 표시, 보기 전용 공유 컬렉션 제외)
+ * 2. 컬렉션 클릭 시 담기/빼기 토글
+ * 3. 새 컬렉션 만들고 바로 담기
+ *
+ * @see {@link /hooks/useBookmarkCollections.ts} - 북마크 컬렉션 훅
+ */
+
+interface CollectionPickerProps {
+  /** 컬렉션에 담을 북마크 ID (북마크 저장 중이면 null) */
+  bookmarkId: string | null;
+}
+
+/**
+ * 북마크 컬렉션 선택 컴포넌트
+ */
+export default function CollectionPicker({
+  bookmarkId,
+}: CollectionPickerProps) {
+  const {
+    collections,
+    isLoading,
+    isMutating,
+    createCollection,
+    addToCollection,
+    removeFromCollection,
+  } = useBookmarkCollections();
+  const [newName, setNewName] = useState("");
+
+  // 담을 수 있는 컬렉션 (내 컬렉션 + 편집자로 참여한 공유 컬렉션)
+  const editableCollections = collections.filter((collection) =>
+    canEditCollection(collection.role),
+  );
+
+  /**
+   * 컬렉션 담기/빼기 토글 핸들러
+   */
+  const handleToggle = async (collectionId: string, isIncluded: boolean) => {
+    if (!bookmarkId) {
+      return;
+    }
+    try {
+      if (isIncluded) {
+        await removeFromCollection({ collectionId, bookmarkId });
+      } else {
+        await addToCollection({ collectionId, bookmarkId });
+      }
+    } catch (error) {
+      console.error("[CollectionPicker] 컬렉션 담기/빼기 실패:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "컬렉션을 변경하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 새 컬렉션 만들기 핸들러 (만든 컬렉션에 바로 담기)
+   */
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name || !bookmarkId) {
+      return;
+    }
+    try {
+      const collection = await createCollection(name);
+      await addToCollection({ collectionId: collection.id, bookmarkId });
+      setNewName("");
+      toast.success(`"${name}" 컬렉션에 담았습니다.`);
+    } catch (error) {
+      console.error("[CollectionPicker] 컬렉션 만들기 실패:", error);
+      toast.error(
+        error instanceof Error ? error.message : "컬렉션을 만들지 못했습니다.",
+      );
+    }
+  };
+
+  if (isLoading || !bookmarkId) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin" />
+        불러오는 중...
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* 컬렉션 목록 */}
+      {editableCollections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          아직 컬렉션이 없습니다. 아래에서 새 컬렉션을 만들어보세요.
+        </p>
+      ) : (
+        <ul className="flex max-h-64 flex-col gap-1 overflow-y-auto">
+          {editableCollections.map((collection) => {
+            const isIncluded = collection.items.some(
+              (item) => item.bookmark_id === bookmarkId,
+            );
+            return (
+              <li key={collection.id}>
+                <button
+                  type="button"
+                  onClick={() => handleToggle(collection.id, isIncluded)}
+                  disabled={isMutating}
+                  aria-pressed={isIncluded}
+                  className={cn(
+                    "flex w-full items-center justify-between gap-2 rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-accent disabled:opacity-50",
+                    isIncluded && "border-primary bg-primary/5",
+                  )}
+                >
+                  <span className="truncate">
+                    {collection.name}
+                    {collection.role !== "owner" && (
+                      <span className="ml-1 text-xs text-muted-foreground">
+                        ({collection.owner_name ?? "공유"})
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                    {collection.items.length}곳
+                    {isIncluded && <Check className="size-4 text-primary" />}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* 새 컬렉션 만들기 */}
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="새 컬렉션 이름 (예: 부산 2박3일)"
+          maxLength={40}
+          aria-label="새 컬렉션 이름"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isMutating || newName.trim() === ""}
+          className="shrink-0 gap-2"
+        >
+          <FolderPlus className="size-4" />
+          만들기
+        </Button>
+      </form>
+    </div>
+  );
+}
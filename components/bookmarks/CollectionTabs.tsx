@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { Check, FolderPlus, Pencil, Trash2, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { useBookmarkCollections } from "@/hooks/useBookmarkCollections";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+/**
+ * @file CollectionTabs.tsx
+ * @description 북마크 컬렉션 탭 컴포넌트
+ *
+ * 북마크 목록 페이지에서 전체 북마크와 컬렉션을 탭으로 전환하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 전체/컬렉션별 탭 (담긴 관광지 수 표시, 공유 컬렉션은 멤버 아이콘)
+ * 2. 새 컬렉션 만들기
+ * 3. 선택한 컬렉션 이름 변경/삭제 (소유자만)
+ *
+ * @see {@link /hooks/useBookmarkCollections.ts} - 북마크 컬렉션 훅
+ */
+
+/** 전체 북마크 탭 값 */
+export const ALL_BOOKMARKS_TAB = "all";
+
+interface CollectionTabsProps {
+  /** 선택한 탭 (ALL_BOOKMARKS_TAB 또는 컬렉션 ID) */
+  activeTab: string;
+  /** 탭 변경 핸들러 */
+  onTabChange: (tab: string) => void;
+  /** 전체 북마크 수 */
+  totalCount: number;
+}
+
+/**
+ * 편집 모드 (새 컬렉션 만들기 또는 이름 변경)
+ */
+type EditMode = { type: "create" } | { type: "rename"; id: string } | null;
+
+/**
+ * 북마크 컬렉션 탭 컴포넌트
+ */
+export default function CollectionTabs({
+  activeTab,
+  onTabChange,
+  totalCount,
+}: CollectionTabsProps) {
+  const {
+    collections,
+    isMutating,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+  } = useBookmarkCollections();
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [name, setName] = useState("");
+
+  const activeCollection = collections.find(
+    (collection) => collection.id === activeTab,
+  );
+
+  const startEdit = (mode: NonNullable<EditMode>, initialName = "") => {
+    setEditMode(mode);
+    setName(initialName);
+  };
+
+  /**
+   * 새 컬렉션 만들기/이름 변경 제출 핸들러
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || !editMode) {
+      return;
+    }
+    try {
+      if (editMode.type === "create") {
+        const collection = await createCollection(trimmed);
+        onTabChange(collection.id);
+        toast.success(`"${trimmed}" 컬렉션을 만들었습니다.`);
+      } else {
+        await renameCollection({ id: editMode.id, name: trimmed });
+        toast.success("컬렉션 이름을 변경했습니다.");
+      }
+      setEditMode(null);
+    } catch (error) {
+      console.error("[CollectionTabs] 컬렉션 저장 실패:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "컬렉션을 저장하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 선택한 컬렉션 삭제 핸들러 (담긴 북마크는 유지)
+   */
+  const handleDelete = async () => {
+    if (!activeCollection) {
+      return;
+    }
+    if (
+      !confirm(
+        `"${activeCollection.name}" 컬렉션을 삭제하시겠습니까?\n담긴 북마크는 삭제되지 않습니다.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteCollection(activeCollection.id);
+      onTabChange(ALL_BOOKMARKS_TAB);
+      toast.success(`"${activeCollection.name}" 컬렉션을 삭제했습니다.`);
+    } catch (error) {
+      console.error("[CollectionTabs] 컬렉션 삭제 실패:", error);
+      toast.error("컬렉션을 삭제하지 못했습니다.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {/* 컬렉션 탭 */}
+        <Tabs value={activeTab} onValueChange={onTabChange}>
+          <TabsList className="h-auto flex-wrap justify-start">
+            <TabsTrigger value={ALL_BOOKMARKS_TAB}>
+              전체 ({totalCount})
+            </TabsTrigger>
+            {collections.map((collection) => (
+              <TabsTrigger
+                key={collection.id}
+                value={collection.id}
+                className="gap-1"
+              >
+                {(collection.role !== "owner" ||
+                  collection.member_count > 0) && (
+                  <Users className="size-3.5" aria-label="공유 컬렉션" />
+                )}
+                {collection.name} ({collection.items.length})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* 컬렉션 관리 버튼 */}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => startEdit({ type: "create" })}
+          className="gap-2"
+        >
+          <FolderPlus className="size-4" />새 컬렉션
+        </Button>
+        {activeCollection?.role === "owner" && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                startEdit(
+                  { type: "rename", id: activeCollection.id },
+                  activeCollection.name,
+                )
+              }
+              aria-label={`${activeCollection.name} 이름 변경`}
+            >
+              <Pencil className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDelete}
+              disabled={isMutating}
+              aria-label={`${activeCollection.name} 삭제`}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* 새 컬렉션 만들기/이름 변경 폼 */}
+      {editMode && (
+        <form onSubmit={handleSubmit} className="flex max-w-md gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="컬렉션 이름 (예: 비 오는 날)"
+            maxLength={40}
+            autoFocus
+            aria-label="컬렉션 이름"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={isMutating || name.trim() === ""}
+            aria-label="저장"
+          >
+            <Check className="size-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setEditMode(null)}
+            aria-label="취소"
+          >
+            <X className="size-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
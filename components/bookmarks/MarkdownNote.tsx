@@ -0,0 +1,219 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file MarkdownNote.tsx
+ * @description 북마크 메모 마크다운 표시 컴포넌트
+ *
+ * 북마크 메모(마크다운 원문)를 간단한 마크다운 문법으로 표시합니다.
+ * HTML을 직접 삽입하지 않고 React 요소로 변환하므로 사용자 입력이 그대로 실행되지 않습니다.
+ *
+ * 지원 문법:
+ * 1. 제목 (#, ##, ###)
+ * 2. 목록 (-, *, 1.)
+ * 3. 인용 (>)
+ * 4. 굵게 (**텍스트**), 기울임 (*텍스트*, _텍스트_), 코드 (`코드`)
+ * 5. 링크 ([텍스트](https://...), http/https만 허용)
+ */
+
+interface MarkdownNoteProps {
+  /** 마크다운 원문 */
+  note: string;
+  className?: string;
+}
+
+/**
+ * 마크다운 블록 (연속된 줄을 하나로 묶은 단위)
+ */
+type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; lines: string[] }
+  | { type: "paragraph"; lines: string[] };
+
+/** 인라인 문법 패턴 (굵게, 코드, 링크, 기울임) */
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^\s)]+\)|\*[^*\s][^*]*\*|_[^_\s][^_]*_)/g;
+
+/** 목록 항목 패턴 */
+const UNORDERED_ITEM = /^[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\d+[.)]\s+(.*)$/;
+
+/**
+ * 마크다운 원문을 블록 단위로 분리
+ */
+function parseBlocks(note: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | null = null;
+
+  const flush = () => {
+    if (current) {
+      blocks.push(current);
+      current = null;
+    }
+  };
+
+  note.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      return;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        text: heading[2],
+      });
+      return;
+    }
+
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = unordered ? null : line.match(ORDERED_ITEM);
+    if (unordered || ordered) {
+      const isOrdered = Boolean(ordered);
+      const text = (unordered ?? ordered)![1];
+      if (current?.type === "list" && current.ordered === isOrdered) {
+        current.items.push(text);
+      } else {
+        flush();
+        current = { type: "list", ordered: isOrdered, items: [text] };
+      }
+      return;
+    }
+
+    const quote = line.match(/^>\s?(.*)$/);
+    if (quote) {
+      if (current?.type === "quote") {
+        current.lines.push(quote[1]);
+      } else {
+        flush();
+        current = { type: "quote", lines: [quote[1]] };
+      }
+      return;
+    }
+
+    if (current?.type === "paragraph") {
+      current.lines.push(line);
+    } else {
+      flush();
+      current = { type: "paragraph", lines: [line] };
+    }
+  });
+
+  flush();
+  return blocks;
+}
+
+/**
+ * 인라인 문법을 React 요소로 변환
+ */
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return (
+        <code key={index} className="rounded bg-muted px-1 text-[0.9em]">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)$/);
+    if (link) {
+      return (
+        <a
+          key={index}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline underline-offset-2"
+        >
+          {link[1]}
+        </a>
+      );
+    }
+    if (
+      part.length > 2 &&
+      ((part.startsWith("*") && part.endsWith("*")) ||
+        (part.startsWith("_") && part.endsWith("_")))
+    ) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+}
+
+/**
+ * 여러 줄을 줄바꿈(<br />)으로 연결
+ */
+function renderLines(lines: string[]): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    index > 0 ? <br key={`br-${index}`} /> : null,
+    ...renderInline(line),
+  ]);
+}
+
+/**
+ * 북마크 메모 마크다운 표시 컴포넌트
+ */
+export default function MarkdownNote({ note, className }: MarkdownNoteProps) {
+  const blocks = parseBlocks(note);
+
+  return (
+    <div
+      className={cn("flex flex-col gap-2 text-sm leading-relaxed", className)}
+    >
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "heading": {
+            const HeadingTag = `h${block.level + 2}` as "h3" | "h4" | "h5";
+            return (
+              <HeadingTag
+                key={index}
+                className={cn(
+                  "font-semibold",
+                  block.level === 1 && "text-lg",
+                  block.level === 2 && "text-base",
+                )}
+              >
+                {renderInline(block.text)}
+              </HeadingTag>
+            );
+          }
+          case "list": {
+            const ListTag = block.ordered ? "ol" : "ul";
+            return (
+              <ListTag
+                key={index}
+                className={cn(
+                  "flex flex-col gap-1 pl-5",
+                  block.ordered ? "list-decimal" : "list-disc",
+                )}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          case "quote":
+            return (
+              <blockquote
+                key={index}
+                className="border-l-2 pl-3 text-muted-foreground"
+              >
+                {renderLines(block.lines)}
+              </blockquote>
+            );
+          default:
+            return <p key={index}>{renderLines(block.lines)}</p>;
+        }
+      })}
+    </div>
+  );
+}
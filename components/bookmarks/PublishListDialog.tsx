@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Eye, Globe, ExternalLink } from "lucide-react";
+import { toast } from "sonner";
+import { usePublicLists } from "@/hooks/usePublicLists";
+import ShareButton from "@/components/tour-detail/ShareButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  getPublicListPath,
+  getPublicListUrl,
+  MAX_PUBLIC_LIST_DESCRIPTION_LENGTH,
+  MAX_PUBLIC_LIST_TITLE_LENGTH,
+} from "@/lib/utils/public-list";
+
+/**
+ * @file PublishListDialog.tsx
+ * @description 북마크 목록 공개 다이얼로그
+ *
+ * 전체 북마크 또는 컬렉션을 읽기 전용 공개 페이지(/lists/[slug])로 공개합니다.
+ *
+ * 주요 기능:
+ * 1. 제목/설명 입력 후 공개 (처음이면 새 주소 생성)
+ * 2. 공개 주소 복사 및 페이지 열기
+ * 3. 조회수 표시
+ * 4. 공개 중단/다시 공개 (주소 유지)
+ *
+ * @see {@link /hooks/usePublicLists.ts} - 공개 리스트 훅
+ * @see {@link /app/lists/[slug]/page.tsx} - 공개 페이지
+ */
+
+interface PublishListDialogProps {
+  /** 공개할 컬렉션 ID (null이면 전체 북마크) */
+  collectionId: string | null;
+  /** 처음 공개할 때의 기본 제목 (컬렉션 이름 등) */
+  defaultTitle: string;
+}
+
+/**
+ * 북마크 목록 공개 다이얼로그
+ */
+export default function PublishListDialog({
+  collectionId,
+  defaultTitle,
+}: PublishListDialogProps) {
+  const { findPublicList, publishList, setPublished, isMutating } =
+    usePublicLists();
+  const publicList = findPublicList(collectionId);
+  const isPublished = Boolean(publicList?.is_published);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+
+  /**
+   * 다이얼로그 열기 (저장된 제목/설명 또는 기본 제목으로 초기화)
+   */
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setTitle(publicList?.title ?? defaultTitle);
+      setDescription(publicList?.description ?? "");
+    }
+  };
+
+  /**
+   * 공개 핸들러 (이미 공개 중이면 제목/설명 수정)
+   */
+  const handlePublish = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) {
+      return;
+    }
+
+    try {
+      await publishList({ collectionId, title, description });
+      toast.success(
+        isPublished ? "공개 정보를 수정했습니다." : "목록을 공개했습니다.",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "공개하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 공개 중단 핸들러
+   */
+  const handleUnpublish = async () => {
+    if (!publicList) {
+      return;
+    }
+
+    try {
+      await setPublished({ listId: publicList.id, isPublished: false });
+      toast.success(
+        "공개를 중단했습니다. 공유한 링크로 더 이상 볼 수 없습니다.",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "공개를 중단하지 못했습니다.",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Globe className="size-4" />
+          {isPublished ? "공개 중" : "공개"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>목록 공개</DialogTitle>
+          <DialogDescription>
+            링크를 받은 누구나 로그인 없이 볼 수 있는 읽기 전용 페이지를
+            만듭니다. 메모, 태그, 평점은 공개되지 않습니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="publish-list-form"
+          onSubmit={handlePublish}
+          className="flex flex-col gap-4"
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="public-list-title">제목</Label>
+            <Input
+              id="public-list-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={MAX_PUBLIC_LIST_TITLE_LENGTH}
+              required
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="public-list-description">설명</Label>
+            <Textarea
+              id="public-list-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={MAX_PUBLIC_LIST_DESCRIPTION_LENGTH}
+              rows={3}
+              placeholder="예: 팀 워크숍 때 들를 부산 맛집과 산책 코스"
+            />
+          </div>
+        </form>
+
+        {/* 공개 중인 주소와 조회수 */}
+        {publicList && isPublished && (
+          <div className="flex flex-col gap-2 rounded-lg border bg-muted/30 p-3">
+            <div className="flex items-center gap-2">
+              <Input
+                readOnly
+                value={getPublicListUrl(
+                  publicList.slug,
+                  window.location.origin,
+                )}
+                onFocus={(e) => e.target.select()}
+                aria-label="공개 주소"
+              />
+              <ShareButton
+                url={getPublicListUrl(publicList.slug, window.location.origin)}
+                className="shrink-0"
+              />
+              <Button variant="outline" size="icon" asChild>
+                <Link
+                  href={getPublicListPath(publicList.slug)}
+                  target="_blank"
+                  aria-label="공개 페이지 열기"
+                >
+                  <ExternalLink className="size-4" />
+                </Link>
+              </Button>
+            </div>
+            <p className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Eye className="size-4" />
+              조회 {publicList.view_count.toLocaleString()}회
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {isPublished && (
+            <Button
+              variant="ghost"
+              onClick={handleUnpublish}
+              disabled={isMutating}
+            >
+              공개 중단
+            </Button>
+          )}
+          <Button
+            type="submit"
+            form="publish-list-form"
+            disabled={isMutating || !title.trim()}
+          >
+            {isPublished
+              ? "저장"
+              : publicList
+                ? "다시 공개 (같은 주소)"
+                : "공개하기"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,395 @@
+"use client";
+
+import { useState } from "react";
+import { Link2, LogOut, Mail, UserMinus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { useCollectionSharing } from "@/hooks/useCollectionSharing";
+import ShareButton from "@/components/tour-detail/ShareButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import type {
+  BookmarkCollectionWithItems,
+  CollectionMemberRole,
+} from "@/lib/types/collection";
+import {
+  COLLECTION_ROLE_LABELS,
+  getCollectionInviteUrl,
+} from "@/lib/utils/collection-sharing";
+
+/**
+ * @file ShareCollectionDialog.tsx
+ * @description 컬렉션 공유 다이얼로그
+ *
+ * 컬렉션을 다른 사용자와 함께 편집하는 공유 리스트로 만드는 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 이메일로 초대 (역할 선택, 가입 전 이메일도 가능)
+ * 2. 초대 링크 만들기 및 복사 (역할 선택, 7일간 유효)
+ * 3. 대기 중인 초대 목록 및 취소
+ * 4. 멤버 목록, 역할 변경/내보내기 (소유자만)
+ * 5. 공유 컬렉션 나가기 (멤버)
+ *
+ * @see {@link /hooks/useCollectionSharing.ts} - 컬렉션 공유 관리 훅
+ * @see {@link /app/invites/[token]/page.tsx} - 초대 수락 페이지
+ */
+
+interface ShareCollectionDialogProps {
+  /** 공유할 컬렉션 */
+  collection: BookmarkCollectionWithItems;
+  /** 공유 컬렉션에서 나간 뒤 호출 (전체 탭으로 이동 등) */
+  onLeave?: () => void;
+}
+
+/**
+ * 역할 선택 Select (편집자/보기 전용)
+ */
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+  label,
+}: {
+  value: CollectionMemberRole;
+  onChange: (role: CollectionMemberRole) => void;
+  disabled?: boolean;
+  label: string;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(role) => onChange(role as CollectionMemberRole)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-[120px] shrink-0" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="editor">{COLLECTION_ROLE_LABELS.editor}</SelectItem>
+        <SelectItem value="viewer">{COLLECTION_ROLE_LABELS.viewer}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * 컬렉션 공유 다이얼로그
+ */
+export default function ShareCollectionDialog({
+  collection,
+  onLeave,
+}: ShareCollectionDialogProps) {
+  const isOwner = collection.role === "owner";
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [emailRole, setEmailRole] = useState<CollectionMemberRole>("editor");
+  const [linkRole, setLinkRole] = useState<CollectionMemberRole>("viewer");
+
+  const {
+    members,
+    invites,
+    isLoading,
+    isMutating,
+    inviteByEmail,
+    createInviteLink,
+    revokeInvite,
+    updateMemberRole,
+    removeMember,
+    leaveCollection,
+  } = useCollectionSharing(collection.id, { isOwner, enabled: isOpen });
+
+  /**
+   * 이메일 초대 핸들러
+   */
+  const handleInviteByEmail = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) {
+      return;
+    }
+    try {
+      await inviteByEmail({ email, role: emailRole });
+      setEmail("");
+      toast.success(
+        "초대를 보냈습니다. 해당 이메일로 로그인하면 북마크 목록 페이지에 초대가 표시됩니다.",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "멤버를 초대하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 초대 링크 만들기 핸들러
+   */
+  const handleCreateLink = async () => {
+    try {
+      await createInviteLink(linkRole);
+      toast.success("초대 링크를 만들었습니다. 아래에서 복사해 보내 주세요.");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "초대 링크를 만들지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 멤버 내보내기 핸들러
+   */
+  const handleRemoveMember = async (memberUserId: string, name: string) => {
+    if (
+      !confirm(
+        `${name}님을 내보내시겠습니까?\n이 멤버가 담은 관광지는 컬렉션에 남습니다.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await removeMember(memberUserId);
+      toast.success(`${name}님을 내보냈습니다.`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "멤버를 내보내지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 공유 컬렉션 나가기 핸들러
+   */
+  const handleLeave = async () => {
+    if (
+      !confirm(
+        `"${collection.name}" 공유 컬렉션에서 나가시겠습니까?\n내가 담은 관광지는 컬렉션에 남습니다.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await leaveCollection();
+      setIsOpen(false);
+      onLeave?.();
+      toast.success(`"${collection.name}"에서 나갔습니다.`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "공유 컬렉션에서 나가지 못했습니다.",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Users className="size-4" />
+          {collection.member_count > 0
+            ? `함께 보는 ${collection.member_count + 1}명`
+            : "함께 편집"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>&quot;{collection.name}&quot; 공유</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "함께 여행할 사람을 초대하세요. 편집자는 관광지를 담고 빼거나 순서를 바꿀 수 있고, 보기 전용 멤버는 목록만 볼 수 있습니다. 메모, 태그, 평점은 공유되지 않습니다."
+              : `${collection.owner_name ?? "소유자"}님이 공유한 컬렉션입니다. 내 역할: ${COLLECTION_ROLE_LABELS[collection.role]}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <>
+            {/* 이메일로 초대 */}
+            <form
+              onSubmit={handleInviteByEmail}
+              className="flex flex-col gap-2"
+            >
+              <Label htmlFor="collection-invite-email">이메일로 초대</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="collection-invite-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="friend@example.com"
+                  autoComplete="off"
+                />
+                <RoleSelect
+                  value={emailRole}
+                  onChange={setEmailRole}
+                  label="이메일 초대 역할"
+                />
+                <Button
+                  type="submit"
+                  size="icon"
+                  className="shrink-0"
+                  disabled={isMutating || !email.trim()}
+                  aria-label="이메일로 초대"
+                >
+                  <Mail className="size-4" />
+                </Button>
+              </div>
+            </form>
+
+            {/* 초대 링크 만들기 */}
+            <div className="flex flex-col gap-2">
+              <Label>초대 링크</Label>
+              <div className="flex gap-2">
+                <RoleSelect
+                  value={linkRole}
+                  onChange={setLinkRole}
+                  label="초대 링크 역할"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleCreateLink}
+                  disabled={isMutating}
+                  className="gap-2"
+                >
+                  <Link2 className="size-4" />
+                  링크 만들기
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                링크를 받은 사람은 로그인 후 7일 안에 참여할 수 있습니다.
+              </p>
+            </div>
+
+            {/* 대기 중인 초대 */}
+            {invites.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <p className="text-sm font-medium">대기 중인 초대</p>
+                <ul className="flex flex-col gap-2">
+                  {invites.map((invite) => (
+                    <li
+                      key={invite.id}
+                      className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                    >
+                      <div className="flex min-w-0 flex-1 flex-col">
+                        <span className="truncate">
+                          {invite.email ?? "초대 링크"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {COLLECTION_ROLE_LABELS[invite.role]} ·{" "}
+                          {new Date(invite.expires_at).toLocaleDateString(
+                            "ko-KR",
+                          )}
+                          까지
+                        </span>
+                      </div>
+                      <ShareButton
+                        url={getCollectionInviteUrl(
+                          invite.token,
+                          window.location.origin,
+                        )}
+                        size="sm"
+                        variant="ghost"
+                        className="shrink-0"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => revokeInvite(invite)}
+                        disabled={isMutating}
+                        aria-label="초대 취소"
+                      >
+                        <X className="size-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* 멤버 목록 */}
+        <div className="flex flex-col gap-2">
+          <p className="text-sm font-medium">멤버</p>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">불러오는 중...</p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {members.map((member) => (
+                <li
+                  key={member.user_id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <span className="min-w-0 flex-1 truncate">{member.name}</span>
+                  {isOwner && member.role !== "owner" ? (
+                    <>
+                      <RoleSelect
+                        value={member.role}
+                        onChange={(role) =>
+                          updateMemberRole({
+                            memberUserId: member.user_id,
+                            role,
+                          }).catch((error) =>
+                            toast.error(
+                              error instanceof Error
+                                ? error.message
+                                : "역할을 변경하지 못했습니다.",
+                            ),
+                          )
+                        }
+                        disabled={isMutating}
+                        label={`${member.name} 역할`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          handleRemoveMember(member.user_id, member.name)
+                        }
+                        disabled={isMutating}
+                        aria-label={`${member.name} 내보내기`}
+                      >
+                        <UserMinus className="size-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {COLLECTION_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* 공유 컬렉션 나가기 (멤버) */}
+        {!isOwner && (
+          <Button
+            variant="ghost"
+            onClick={handleLeave}
+            disabled={isMutating}
+            className="gap-2 self-start text-destructive"
+          >
+            <LogOut className="size-4" />
+            공유 컬렉션 나가기
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
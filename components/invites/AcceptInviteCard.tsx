@@ -0,0 +1,87 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { SignedIn, SignedOut, SignInButton } from "@clerk/nextjs";
+import { Users } from "lucide-react";
+import { toast } from "sonner";
+import { useCollectionInvites } from "@/hooks/useCollectionInvites";
+import { Button } from "@/components/ui/button";
+import type { CollectionInvitePreview } from "@/lib/types/collection";
+import { COLLECTION_ROLE_LABELS } from "@/lib/utils/collection-sharing";
+
+/**
+ * @file AcceptInviteCard.tsx
+ * @description 컬렉션 초대 수락 카드
+ *
+ * 초대 링크 페이지에서 초대 내용을 보여주고 수락 버튼을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 초대 내용 표시 (컬렉션 이름, 초대한 사람, 역할, 만료일)
+ * 2. 로그인하지 않았으면 로그인 버튼 (모달)
+ * 3. 수락하면 북마크 목록의 해당 컬렉션 탭으로 이동
+ *
+ * @see {@link /app/invites/[token]/page.tsx} - 초대 수락 페이지
+ */
+
+interface AcceptInviteCardProps {
+  /** 초대 안내 정보 */
+  invite: CollectionInvitePreview;
+}
+
+/**
+ * 컬렉션 초대 수락 카드
+ */
+export default function AcceptInviteCard({ invite }: AcceptInviteCardProps) {
+  const router = useRouter();
+  const { isResponding, respondToInvite } = useCollectionInvites();
+
+  /**
+   * 초대 수락 핸들러
+   */
+  const handleAccept = async () => {
+    try {
+      const collectionId = await respondToInvite({
+        token: invite.token,
+        response: "accept",
+      });
+      toast.success(`"${invite.collectionName}" 공유 컬렉션에 참여했습니다.`);
+      router.push(`/bookmarks?collection=${collectionId}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "초대를 수락하지 못했습니다.",
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-6 rounded-lg border p-8 text-center">
+      <Users className="size-12 text-primary" />
+      <div className="flex flex-col gap-2">
+        <h1 className="text-2xl font-bold">
+          &quot;{invite.collectionName}&quot;
+        </h1>
+        <p className="text-muted-foreground">
+          {invite.inviterName}님이 공유 컬렉션에{" "}
+          {COLLECTION_ROLE_LABELS[invite.role]}(으)로 초대했습니다.
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {invite.role === "editor"
+            ? "참여하면 관광지를 함께 담고 빼거나 순서를 바꿀 수 있습니다."
+            : "참여하면 멤버들이 담은 관광지를 실시간으로 볼 수 있습니다."}{" "}
+          ({new Date(invite.expiresAt).toLocaleDateString("ko-KR")}까지 유효)
+        </p>
+      </div>
+
+      <SignedOut>
+        <SignInButton mode="modal">
+          <Button>로그인하고 참여하기</Button>
+        </SignInButton>
+      </SignedOut>
+      <SignedIn>
+        <Button onClick={handleAccept} disabled={isResponding}>
+          {isResponding ? "참여하는 중..." : "참여하기"}
+        </Button>
+      </SignedIn>
+    </div>
+  );
+}
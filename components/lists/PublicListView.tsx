@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import NaverMap from "@/components/NaverMap";
+import TourCard from "@/components/TourCard";
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * @file PublicListView.tsx
+ * @description 공개 북마크 리스트 본문 (지도 + 관광지 목록)
+ *
+ * 공개 페이지에서 리스트의 모든 관광지를 지도 마커와 카드 목록으로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 전체 관광지 지도 표시 (마커 클러스터링)
+ * 2. 마커 선택 시 해당 카드 강조, 카드 호버 시 마커 강조
+ * 3. 관광지 카드 목록 (상세페이지 링크)
+ *
+ * @see {@link /app/lists/[slug]/page.tsx} - 공개 페이지
+ */
+
+interface PublicListViewProps {
+  tours: TourItem[];
+}
+
+/**
+ * 공개 북마크 리스트 본문
+ */
+export default function PublicListView({ tours }: PublicListViewProps) {
+  const [selectedTourId, setSelectedTourId] = useState<string | undefined>();
+  const [hoveredTourId, setHoveredTourId] = useState<string | undefined>();
+
+  if (tours.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 rounded-lg border border-muted bg-muted/50 p-12 text-center">
+        <p className="font-semibold">아직 담긴 관광지가 없습니다</p>
+        <p className="text-sm text-muted-foreground">
+          리스트에 관광지가 추가되면 여기에 표시됩니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* 지도 */}
+      <NaverMap
+        tours={tours}
+        selectedTourId={hoveredTourId ?? selectedTourId}
+        onTourSelect={(tour) => {
+          setSelectedTourId(tour.contentid);
+          document
+            .getElementById(`public-list-tour-${tour.contentid}`)
+            ?.scrollIntoView({ behavior: "smooth", block: "center" });
+        }}
+        height="h-[320px] md:h-[480px]"
+      />
+
+      {/* 관광지 목록 */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {tours.map((tour) => (
+          <div key={tour.contentid} id={`public-list-tour-${tour.contentid}`}>
+            <TourCard
+              tour={tour}
+              isSelected={selectedTourId === tour.contentid}
+              isHovered={hoveredTourId === tour.contentid}
+              onHover={setHoveredTourId}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useMemo } from "react";
+import { Check, HelpCircle, X } from "lucide-react";
+import { usePets } from "@/hooks/usePets";
+import type { PetAccess } from "@/lib/types/pet";
+import type { PetTourInfo } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+import { parsePetInfo } from "@/lib/utils/pet-info-parser";
+import { getPetAccess } from "@/lib/utils/pet-profile";
+
+/**
+ * @file PetAccessBadges.tsx
+ * @description 내 반려동물별 동반 가능 여부 뱃지
+ *
+ * 로그인한 사용자의 반려동물 프로필마다 이 관광지에 함께 갈 수 있는지 표시합니다.
+ * 반려동물을 등록하지 않았거나 관광지 반려동물 정보가 없으면 표시하지 않습니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물별 가능/불가/확인 필요 표시
+ * 2. compact: 관광지 카드용 (이름 + 아이콘)
+ * 3. detail: 상세페이지용 (이름 + 판별 근거)
+ *
+ * @see {@link /lib/utils/pet-profile.ts} - 반려동물별 동반 가능 판별
+ */
+
+interface PetAccessBadgesProps {
+  petInfo: PetTourInfo | null | undefined;
+  variant?: "compact" | "detail";
+  className?: string;
+}
+
+/** 판별 결과별 스타일/아이콘/라벨 */
+const STATUS_STYLES: Record<
+  PetAccess["status"],
+  { className: string; icon: typeof Check; label: string }
+> = {
+  allowed: {
+    className: "bg-green-500/90 text-white",
+    icon: Check,
+    label: "가능",
+  },
+  denied: {
+    className: "bg-destructive/90 text-white",
+    icon: X,
+    label: "불가",
+  },
+  unknown: {
+    className: "bg-muted text-muted-foreground",
+    icon: HelpCircle,
+    label: "확인 필요",
+  },
+};
+
+/**
+ * 내 반려동물별 동반 가능 여부 뱃지
+ */
+export default function PetAccessBadges({
+  petInfo,
+  variant = "compact",
+  className,
+}: PetAccessBadgesProps) {
+  const { pets } = usePets();
+
+  const accesses = useMemo(() => {
+    if (!petInfo || pets.length === 0) {
+      return [];
+    }
+    const facts = parsePetInfo(petInfo);
+    return pets.map((pet) => getPetAccess(pet, facts));
+  }, [petInfo, pets]);
+
+  if (accesses.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      className={cn("flex flex-wrap gap-1", className)}
+      aria-label="내 반려동물 동반 가능 여부"
+    >
+      {accesses.map(({ pet, status, reasons }) => {
+        const style = STATUS_STYLES[status];
+        const Icon = style.icon;
+        const description = reasons.length > 0 ? reasons.join(", ") : "";
+        return (
+          <li
+            key={pet.id}
+            title={`${pet.name}: ${style.label}${description ? ` (${description})` : ""}`}
+            className={cn(
+              "inline-flex items-center gap-1 rounded-full font-medium backdrop-blur-sm",
+              variant === "compact"
+                ? "px-2 py-0.5 text-[10px]"
+                : "px-3 py-1 text-sm",
+              style.className,
+            )}
+          >
+            <Icon className={variant === "compact" ? "size-3" : "size-4"} />
+            {pet.name}
+            {variant === "detail" && (
+              <span className="font-normal">
+                {style.label}
+                {description && ` · ${description}`}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
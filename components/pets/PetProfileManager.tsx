@@ -0,0 +1,386 @@
+"use client";
+
+import { useState } from "react";
+import { PawPrint, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { usePets } from "@/hooks/usePets";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Pet, PetInput } from "@/lib/types/pet";
+import type { PetSize, PetSpecies } from "@/lib/types/tour";
+import { getPetSizeByWeight } from "@/lib/utils/pet-info-parser";
+import { PET_SIZE_LABELS, PET_SPECIES_LABELS } from "@/lib/utils/pet-profile";
+
+/**
+ * @file PetProfileManager.tsx
+ * @description 반려동물 프로필 목록/편집 컴포넌트
+ *
+ * 로그인한 사용자의 반려동물 프로필을 표시하고 추가/수정/삭제하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 목록 표시 (이름, 종류, 품종, 체중, 크기)
+ * 2. 반려동물 추가/수정 폼
+ * 3. 크기 자동 계산 (크기를 "체중 기준"으로 두면 체중으로 분류)
+ * 4. 반려동물 삭제
+ *
+ * @see {@link /hooks/usePets.ts} - 반려동물 프로필 훅
+ */
+
+/**
+ * 폼 입력 상태 (입력 중 값은 문자열로 관리)
+ */
+interface PetFormState {
+  name: string;
+  species: PetSpecies;
+  breed: string;
+  weight: string;
+  size: PetSize | "auto";
+}
+
+const EMPTY_FORM: PetFormState = {
+  name: "",
+  species: "dog",
+  breed: "",
+  weight: "",
+  size: "auto",
+};
+
+/**
+ * 프로필을 폼 상태로 변환
+ */
+function toFormState(pet: Pet): PetFormState {
+  return {
+    name: pet.name,
+    species: pet.species,
+    breed: pet.breed ?? "",
+    weight: pet.weight_kg === null ? "" : String(pet.weight_kg),
+    size: pet.size_class,
+  };
+}
+
+/**
+ * 폼 상태를 프로필 입력으로 변환
+ *
+ * @returns 프로필 입력 또는 검증 에러 메시지
+ */
+function toPetInput(form: PetFormState): PetInput | string {
+  const name = form.name.trim();
+  if (!name) {
+    return "이름을 입력하세요.";
+  }
+
+  const weight = form.weight.trim() === "" ? null : Number(form.weight);
+  if (weight !== null && (!Number.isFinite(weight) || weight <= 0)) {
+    return "체중은 0보다 큰 숫자여야 합니다.";
+  }
+  if (form.size === "auto" && weight === null) {
+    return "체중을 입력하거나 크기를 선택하세요.";
+  }
+
+  return {
+    name,
+    species: form.species,
+    breed: form.breed.trim() || null,
+    weight_kg: weight,
+    size_class: form.size === "auto" ? getPetSizeByWeight(weight!) : form.size,
+  };
+}
+
+/**
+ * 반려동물 프로필 폼 컴포넌트
+ */
+function PetForm({
+  initialValue,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue: PetFormState;
+  isSubmitting: boolean;
+  onSubmit: (input: PetInput) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState<PetFormState>(initialValue);
+
+  const update = <K extends keyof PetFormState>(
+    key: K,
+    value: PetFormState[K],
+  ) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const input = toPetInput(form);
+    if (typeof input === "string") {
+      toast.error(input);
+      return;
+    }
+    await onSubmit(input);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-4 rounded-lg border bg-card p-4 md:p-6"
+    >
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pet-name">이름</Label>
+          <Input
+            id="pet-name"
+            value={form.name}
+            onChange={(e) => update("name", e.target.value)}
+            maxLength={30}
+            required
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pet-species">종류</Label>
+          <Select
+            value={form.species}
+            onValueChange={(value) => update("species", value as PetSpecies)}
+          >
+            <SelectTrigger id="pet-species">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dog">{PET_SPECIES_LABELS.dog}</SelectItem>
+              <SelectItem value="cat">{PET_SPECIES_LABELS.cat}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pet-breed">품종 (선택)</Label>
+          <Input
+            id="pet-breed"
+            value={form.breed}
+            onChange={(e) => update("breed", e.target.value)}
+            maxLength={30}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pet-weight">체중 (kg)</Label>
+          <Input
+            id="pet-weight"
+            type="number"
+            inputMode="decimal"
+            min="0.1"
+            step="0.1"
+            value={form.weight}
+            onChange={(e) => update("weight", e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pet-size">크기</Label>
+          <Select
+            value={form.size}
+            onValueChange={(value) =>
+              update("size", value as PetFormState["size"])
+            }
+          >
+            <SelectTrigger id="pet-size">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">체중 기준 (10kg/25kg)</SelectItem>
+              <SelectItem value="small">{PET_SIZE_LABELS.small}</SelectItem>
+              <SelectItem value="medium">{PET_SIZE_LABELS.medium}</SelectItem>
+              <SelectItem value="large">{PET_SIZE_LABELS.large}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          취소
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          저장
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * 반려동물 프로필 목록/편집 컴포넌트
+ */
+export default function PetProfileManager() {
+  const {
+    pets,
+    isLoading,
+    error,
+    isMutating,
+    createPet,
+    updatePet,
+    deletePet,
+  } = usePets();
+  // 편집 중인 항목 ("new"는 추가 폼, 그 외는 반려동물 ID)
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleCreate = async (input: PetInput) => {
+    try {
+      await createPet(input);
+      setEditingId(null);
+      toast.success(`${input.name}을(를) 등록했습니다.`);
+    } catch (mutationError) {
+      console.error("[PetProfileManager] 반려동물 추가 실패:", mutationError);
+      toast.error("반려동물을 등록하지 못했습니다.");
+    }
+  };
+
+  const handleUpdate = async (id: string, input: PetInput) => {
+    try {
+      await updatePet({ id, input });
+      setEditingId(null);
+      toast.success(`${input.name}의 정보를 수정했습니다.`);
+    } catch (mutationError) {
+      console.error("[PetProfileManager] 반려동물 수정 실패:", mutationError);
+      toast.error("반려동물 정보를 수정하지 못했습니다.");
+    }
+  };
+
+  const handleDelete = async (pet: Pet) => {
+    if (!confirm(`${pet.name}의 프로필을 삭제하시겠습니까?`)) {
+      return;
+    }
+    try {
+      await deletePet(pet.id);
+      toast.success(`${pet.name}의 프로필을 삭제했습니다.`);
+    } catch (mutationError) {
+      console.error("[PetProfileManager] 반려동물 삭제 실패:", mutationError);
+      toast.error("반려동물 프로필을 삭제하지 못했습니다.");
+    }
+  };
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        반려동물 목록을 불러오는 중...
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-8">
+        <div className="font-semibold text-destructive">
+          반려동물 목록을 불러올 수 없습니다
+        </div>
+        <div className="text-sm text-muted-foreground">
+          {error instanceof Error
+            ? error.message
+            : "오류가 발생했습니다. 잠시 후 다시 시도해주세요."}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 md:gap-6">
+      {/* 반려동물이 없는 경우 */}
+      {pets.length === 0 && editingId !== "new" && (
+        <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-muted bg-muted/50 p-12">
+          <PawPrint className="size-12 text-muted-foreground" />
+          <div className="flex flex-col items-center gap-2 text-center">
+            <h3 className="text-lg font-semibold">
+              등록한 반려동물이 없습니다
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              반려동물을 등록하면 크기와 종류에 맞는 관광지를 찾아드립니다.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 반려동물 목록 */}
+      <ul className="flex flex-col gap-4">
+        {pets.map((pet) =>
+          editingId === pet.id ? (
+            <li key={pet.id}>
+              <PetForm
+                initialValue={toFormState(pet)}
+                isSubmitting={isMutating}
+                onSubmit={(input) => handleUpdate(pet.id, input)}
+                onCancel={() => setEditingId(null)}
+              />
+            </li>
+          ) : (
+            <li
+              key={pet.id}
+              className="flex items-center justify-between gap-4 rounded-lg border bg-card p-4"
+            >
+              <div className="flex flex-col gap-1">
+                <span className="text-lg font-semibold">{pet.name}</span>
+                <span className="text-sm text-muted-foreground">
+                  {[
+                    PET_SPECIES_LABELS[pet.species],
+                    pet.breed,
+                    pet.weight_kg !== null && `${pet.weight_kg}kg`,
+                    PET_SIZE_LABELS[pet.size_class],
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setEditingId(pet.id)}
+                  aria-label={`${pet.name} 수정`}
+                >
+                  <Pencil className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(pet)}
+                  disabled={isMutating}
+                  aria-label={`${pet.name} 삭제`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            </li>
+          ),
+        )}
+      </ul>
+
+      {/* 추가 폼 */}
+      {editingId === "new" ? (
+        <PetForm
+          initialValue={EMPTY_FORM}
+          isSubmitting={isMutating}
+          onSubmit={handleCreate}
+          onCancel={() => setEditingId(null)}
+        />
+      ) : (
+        <Button
+          variant="outline"
+          onClick={() => setEditingId("new")}
+          className="gap-2 self-start"
+        >
+          <Plus className="size-4" />
+          반려동물 추가
+        </Button>
+      )}
+    </div>
+  );
+}
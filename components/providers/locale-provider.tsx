@@ -0,0 +1,83 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import {
+  DEFAULT_TOUR_LOCALE,
+  normalizeTourLocale,
+  TOUR_LOCALE_COOKIE,
+  type TourLocale,
+} from "@/lib/utils/locale";
+
+/**
+ * 관광 콘텐츠 로케일 Provider 컴포넌트
+ *
+ * 관광지 목록/상세 정보를 조회할 언어를 관리합니다.
+ * 선택한 로케일은 쿠키에 저장되어 새로고침 후에도 유지되며,
+ * React Query 쿼리 키에 포함되어 언어 변경 시 자동으로 다시 조회됩니다.
+ * 루트 레이아웃이 정적 렌더링되도록 저장된 로케일은 서버가 아니라 마운트 후 브라우저에서 읽습니다.
+ */
+
+/** 로케일 쿠키 유지 기간 (1년, 초 단위) */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+interface LocaleContextValue {
+  locale: TourLocale;
+  setLocale: (locale: TourLocale) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_TOUR_LOCALE,
+  setLocale: () => {},
+});
+
+/**
+ * 쿠키에 저장된 로케일 읽기
+ */
+function readLocaleCookie(): TourLocale {
+  const value = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${TOUR_LOCALE_COOKIE}=`))
+    ?.split("=")[1];
+  return normalizeTourLocale(value);
+}
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<TourLocale>(DEFAULT_TOUR_LOCALE);
+
+  // 저장된 로케일 복원 (서버 렌더링 결과는 기본 로케일)
+  useEffect(() => {
+    const savedLocale = readLocaleCookie();
+    if (savedLocale !== DEFAULT_TOUR_LOCALE) {
+      setLocaleState(savedLocale);
+      document.documentElement.lang = savedLocale;
+    }
+  }, []);
+
+  const setLocale = useCallback((nextLocale: TourLocale) => {
+    setLocaleState(nextLocale);
+    document.cookie = `${TOUR_LOCALE_COOKIE}=${nextLocale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = nextLocale;
+    console.log("[LocaleProvider] 로케일 변경:", nextLocale);
+  }, []);
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+/**
+ * 현재 관광 콘텐츠 로케일 조회 훅
+ *
+ * @returns 현재 로케일과 변경 함수
+ */
+export function useTourLocale() {
+  return useContext(LocaleContext);
+}
@@ -156,7 +156,7 @@ export default function RegionChart({
   const handleBarClick = (data: { areacode: string; name: string }) => {
     console.log("[RegionChart] 바 클릭:", data);
     // 홈페이지로 이동하고 지역 필터 적용
-    router.push(`/?areaCode=${data.areacode}`);
+    router.push(`/?area=${data.areacode}`);
   };
 
   /**
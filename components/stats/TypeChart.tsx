@@ -156,7 +156,7 @@ export default function TypeChart({
   const handlePieClick = (data: { contenttypeid: string; name: string }) => {
     console.log("[TypeChart] 섹션 클릭:", data);
     // 홈페이지로 이동하고 타입 필터 적용
-    router.push(`/?contentTypeId=${data.contenttypeid}`);
+    router.push(`/?type=${data.contenttypeid}`);
   };
 
   /**
@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import type { TourImage } from "@/actions/get-tour-images";
+import type { TourImage } from "@/lib/types/tour";
 
 /**
  * @file TourDetailGallery.tsx
@@ -10,6 +10,9 @@ import { getTourTypeName } from "@/lib/utils/tour-type-converter";
 import { Button } from "@/components/ui/button";
 import ShareButton from "./ShareButton";
 import BookmarkButton from "@/components/bookmarks/BookmarkButton";
+import BookmarkJournalDialog from "@/components/bookmarks/BookmarkJournalDialog";
+import BookmarkJournalSummary from "@/components/bookmarks/BookmarkJournalSummary";
+import { useBookmarkList } from "@/hooks/useBookmarkList";
 import { cn } from "@/lib/utils";
 
 /**
@@ -23,6 +26,7 @@ import { cn } from "@/lib/utils";
  * 2. 주소 복사 기능 (클립보드)
  * 3. 전화번호 클릭 시 전화 연결
  * 4. 홈페이지 링크
+ * 5. 북마크한 관광지의 여행 기록(메모, 태그, 방문 상태, 평점) 표시 및 편집
  *
  * @see {@link /docs/prd.md#241-기본-정보-섹션} - PRD 문서의 기본 정보 섹션
  * @see {@link /docs/reference/design/Design.md#3-상세페이지} - 디자인 문서의 상세페이지
@@ -38,6 +42,11 @@ export default function TourDetailInfo({
   className,
 }: TourDetailInfoProps) {
   const [copied, setCopied] = useState(false);
+  const { bookmarks } = useBookmarkList();
+
+  // 북마크한 관광지만 여행 기록을 남길 수 있음
+  const bookmark =
+    bookmarks.find((item) => item.content_id === detail.contentid) ?? null;
 
   const imageUrl = detail.firstimage || detail.firstimage2;
   const hasImage = Boolean(imageUrl);
@@ -96,6 +105,12 @@ export default function TourDetailInfo({
                 size="sm"
                 variant="outline"
               />
+              {bookmark && (
+                <BookmarkJournalDialog
+                  bookmark={bookmark}
+                  title={detail.title}
+                />
+              )}
               <ShareButton size="sm" variant="outline" />
             </div>
           </div>
@@ -106,6 +121,7 @@ export default function TourDetailInfo({
               </span>
             </div>
           )}
+          {bookmark && <BookmarkJournalSummary bookmark={bookmark} showNote />}
         </div>
 
         {/* 주소 */}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useMemo, useState } from "react";
 import {
   Clock,
   CalendarX,
@@ -11,9 +12,21 @@ import {
   CreditCard,
   Phone,
   FileText,
+  CalendarDays,
+  MapPin,
+  Ticket,
 } from "lucide-react";
-import type { TourIntro } from "@/lib/types/tour";
+import OpeningStatusBadge from "@/components/OpeningStatusBadge";
+import type { OpeningHours, TourIntro } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { formatEventPeriod } from "@/lib/utils/date-formatter";
+import {
+  formatOpeningTime,
+  getOpeningHoursText,
+  getOpeningStatus,
+  getWeeklySchedule,
+  parseOpeningHours,
+} from "@/lib/utils/opening-hours-parser";
 
 /**
  * @file TourDetailIntro.tsx
@@ -23,13 +36,18 @@ import { cn } from "@/lib/utils";
  *
  * 주요 기능:
  * 1. 운영시간, 휴무일, 이용요금, 주차 등 운영 정보 표시
- * 2. 관광 타입별로 다른 필드 표시
+ * 2. 관광 타입별로 다른 필드 표시 (축제공연행사: 행사 기간, 공연시간, 행사 장소)
  * 3. 정보가 없는 경우 숨김 처리
+ * 4. 현재 영업 상태, 요일별 운영시간표, 휴무/계절 예외 (운영시간 문구를 해석한 경우)
  *
  * @see {@link /docs/prd.md#242-운영-정보-섹션} - PRD 문서의 운영 정보 섹션
  * @see {@link /docs/reference/design/Design.md#3-상세페이지} - 디자인 문서의 상세페이지
+ * @see {@link /lib/utils/opening-hours-parser.ts} - 운영시간 파서
  */
 
+/** 영업 상태를 다시 계산하는 주기 (1분) */
+const STATUS_REFRESH_INTERVAL = 60 * 1000;
+
 interface TourDetailIntroProps {
   intro: TourIntro | null;
   isLoading?: boolean;
@@ -65,6 +83,65 @@ function InfoItem({
   );
 }
 
+/**
+ * 요일별 운영시간표 및 예외
+ */
+function OpeningSchedule({ hours }: { hours: OpeningHours | null }) {
+  if (!hours || hours.alwaysOpen) {
+    return null;
+  }
+
+  const schedule = getWeeklySchedule(hours);
+  const hasSchedule = schedule.some((row) => row.hours !== "-");
+  const exceptions = [
+    ...(hours.closedOnHolidays ? ["공휴일 휴무"] : []),
+    ...hours.exceptions.map((exception) => exception.label),
+  ];
+  if (!hasSchedule && exceptions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start gap-3">
+      <CalendarDays className="mt-0.5 size-5 shrink-0 text-muted-foreground" />
+      <div className="flex flex-1 flex-col gap-2">
+        <span className="text-sm font-medium text-muted-foreground">
+          요일별 운영시간
+        </span>
+        {hasSchedule && (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+            {schedule.map((row) => (
+              <div key={row.label} className="contents">
+                <dt className="font-medium">{row.label}</dt>
+                <dd
+                  className={cn(
+                    row.hours === "휴무" && "text-destructive",
+                    row.hours === "-" && "text-muted-foreground",
+                  )}
+                >
+                  {row.hours}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+        {hours.lastEntry !== null && (
+          <p className="text-sm text-muted-foreground">
+            입장/주문 마감 {formatOpeningTime(hours.lastEntry)}
+          </p>
+        )}
+        {exceptions.length > 0 && (
+          <ul className="list-disc pl-5 text-sm text-muted-foreground">
+            {exceptions.map((label) => (
+              <li key={label}>{label}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * 관광지 운영 정보 섹션 컴포넌트
  */
@@ -73,15 +150,43 @@ export default function TourDetailIntro({
   isLoading,
   className,
 }: TourDetailIntroProps) {
+  const [now, setNow] = useState(() => new Date());
+  const openingHours = useMemo(() => parseOpeningHours(intro), [intro]);
+  const openingStatus = useMemo(
+    () => getOpeningStatus(openingHours, now),
+    [openingHours, now],
+  );
+
+  // 영업 상태 주기적 갱신
+  useEffect(() => {
+    if (!openingHours) {
+      return;
+    }
+    const timer = setInterval(
+      () => setNow(new Date()),
+      STATUS_REFRESH_INTERVAL,
+    );
+    return () => clearInterval(timer);
+  }, [openingHours]);
+
   // 로딩 중이거나 데이터가 없는 경우 숨김
   if (isLoading || !intro) {
     return null;
   }
 
+  const eventPeriod =
+    formatEventPeriod(intro.eventstartdate, intro.eventenddate) ?? undefined;
+  // 관광 타입별 운영시간/휴무일 필드 (opentimefood, restdatefood 등)
+  const { usetime, restdate } = getOpeningHoursText(intro);
+
   // 표시할 정보가 있는지 확인
   const hasInfo =
-    intro.usetime ||
-    intro.restdate ||
+    eventPeriod ||
+    intro.playtime ||
+    intro.eventplace ||
+    intro.usetimefestival ||
+    usetime ||
+    restdate ||
     intro.usefee ||
     intro.parking ||
     intro.accomcount ||
@@ -98,14 +203,40 @@ export default function TourDetailIntro({
 
   return (
     <div className={cn("flex flex-col gap-6", className)}>
-      <h2 className="text-2xl font-semibold">운영 정보</h2>
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-2xl font-semibold">운영 정보</h2>
+        <OpeningStatusBadge status={openingStatus} showClosed />
+      </div>
 
       <div className="flex flex-col gap-6">
+        {/* 행사 기간 (축제공연행사) */}
+        <InfoItem icon={CalendarDays} label="행사 기간" value={eventPeriod} />
+
+        {/* 공연시간 (축제공연행사) */}
+        <InfoItem icon={Clock} label="공연시간" value={intro.playtime} />
+
+        {/* 행사 장소 (축제공연행사) */}
+        <InfoItem icon={MapPin} label="행사 장소" value={intro.eventplace} />
+
+        {/* 이용요금 (축제공연행사) */}
+        <InfoItem
+          icon={Ticket}
+          label="이용요금"
+          value={intro.usetimefestival}
+        />
+
         {/* 운영시간 */}
-        <InfoItem icon={Clock} label="운영시간" value={intro.usetime} />
+        <InfoItem icon={Clock} label="운영시간" value={usetime ?? undefined} />
 
         {/* 휴무일 */}
-        <InfoItem icon={CalendarX} label="휴무일" value={intro.restdate} />
+        <InfoItem
+          icon={CalendarX}
+          label="휴무일"
+          value={restdate ?? undefined}
+        />
+
+        {/* 요일별 운영시간 (운영시간 문구를 해석한 경우) */}
+        <OpeningSchedule hours={openingHours} />
 
         {/* 이용요금 */}
         <InfoItem icon={DollarSign} label="이용요금" value={intro.usefee} />
@@ -9,8 +9,10 @@ import {
   Info,
   FileText,
 } from "lucide-react";
-import type { PetTourInfo } from "@/lib/types/tour";
+import type { PetInfoFacts, PetSize, PetTourInfo } from "@/lib/types/tour";
 import { cn } from "@/lib/utils";
+import { parsePetInfo } from "@/lib/utils/pet-info-parser";
+import PetAccessBadges from "@/components/pets/PetAccessBadges";
 
 /**
  * @file TourDetailPetTour.tsx
@@ -26,10 +28,142 @@ import { cn } from "@/lib/utils";
  * 5. 산책로 정보
  * 6. 반려동물 배변 봉투 제공 여부
  * 7. 반려동물 음수대 위치
+ * 8. 동반 조건 태그 (크기/체중/종류/구역/실내·실외/준비물, 텍스트 해석 결과)
+ * 9. 내 반려동물별 동반 가능 여부 (반려동물 프로필 등록 시)
  *
  * @see {@link /docs/prd.md#25-반려동물-동반-여행} - PRD 문서의 반려동물 동반 여행 섹션
+ * @see {@link /lib/utils/pet-info-parser.ts} - 반려동물 정보 구조화
  */
 
+/** 이 신뢰도 미만인 태그는 "추정"으로 표시 */
+const CONFIDENT_TAG_THRESHOLD = 0.7;
+
+/** 크기 라벨 */
+const SIZE_LABELS: Record<PetSize, string> = {
+  small: "소형",
+  medium: "중형",
+  large: "대형",
+};
+
+/** 동반 구역 라벨 */
+const AREA_LABELS = {
+  all: "전구역 동반",
+  partial: "일부구역 동반",
+  outdoor_only: "실외만 동반",
+} as const;
+
+/**
+ * 동반 조건 태그
+ */
+interface PetInfoTag {
+  label: string;
+  tone: "allow" | "deny" | "require";
+  confidence: number;
+  evidence: string;
+}
+
+/**
+ * 구조화 결과를 태그 목록으로 변환
+ */
+function toPetInfoTags(facts: PetInfoFacts): PetInfoTag[] {
+  const tags: PetInfoTag[] = [];
+  const add = (
+    fact: { confidence: number; evidence: string } | null,
+    label: string,
+    tone: PetInfoTag["tone"],
+  ) => {
+    if (fact) {
+      tags.push({ label, tone, ...fact });
+    }
+  };
+
+  if (facts.area) {
+    add(facts.area, AREA_LABELS[facts.area.value], "allow");
+  }
+  if (facts.sizes && facts.sizes.value.length > 0) {
+    add(
+      facts.sizes,
+      facts.sizes.value.length === 3
+        ? "크기 제한 없음"
+        : `${facts.sizes.value.map((size) => SIZE_LABELS[size]).join("·")} 가능`,
+      "allow",
+    );
+  }
+  if (facts.maxWeightKg) {
+    add(facts.maxWeightKg, `최대 ${facts.maxWeightKg.value}kg`, "require");
+  }
+  if (facts.species) {
+    for (const species of facts.species.value) {
+      add(
+        facts.species,
+        species === "dog" ? "강아지 가능" : "고양이 가능",
+        "allow",
+      );
+    }
+  }
+  if (facts.indoor) {
+    add(
+      facts.indoor,
+      facts.indoor.value ? "실내 가능" : "실내 불가",
+      facts.indoor.value ? "allow" : "deny",
+    );
+  }
+  if (facts.outdoor) {
+    add(
+      facts.outdoor,
+      facts.outdoor.value ? "실외 가능" : "실외 불가",
+      facts.outdoor.value ? "allow" : "deny",
+    );
+  }
+  for (const [fact, name] of [
+    [facts.leashRequired, "목줄"],
+    [facts.muzzleRequired, "입마개"],
+    [facts.carrierRequired, "이동장"],
+  ] as const) {
+    if (fact) {
+      add(fact, fact.value ? `${name} 필수` : `${name} 불필요`, "require");
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * 동반 조건 태그 목록 컴포넌트
+ */
+function PetInfoTags({ tags }: { tags: PetInfoTag[] }) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label="반려동물 동반 조건">
+      {tags.map((tag) => {
+        const isEstimated = tag.confidence < CONFIDENT_TAG_THRESHOLD;
+        return (
+          <li
+            key={tag.label}
+            title={`근거: ${tag.evidence} (신뢰도 ${Math.round(tag.confidence * 100)}%)`}
+            className={cn(
+              "rounded-full border px-3 py-1 text-sm font-medium",
+              tag.tone === "allow" &&
+                "border-primary/20 bg-primary/10 text-primary",
+              tag.tone === "deny" &&
+                "border-destructive/20 bg-destructive/10 text-destructive",
+              tag.tone === "require" &&
+                "border-border bg-muted text-muted-foreground",
+              isEstimated && "border-dashed opacity-80",
+            )}
+          >
+            {tag.label}
+            {isEstimated && (
+              <span className="ml-1 text-xs font-normal">(추정)</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 interface TourDetailPetTourProps {
   petInfo: PetTourInfo | null;
   isLoading?: boolean;
@@ -90,6 +224,9 @@ export default function TourDetailPetTour({
     return null;
   }
 
+  // 자유 텍스트를 해석한 동반 조건 태그
+  const tags = toPetInfoTags(parsePetInfo(petInfo));
+
   return (
     <div className={cn("flex flex-col gap-6", className)}>
       <div className="flex items-center gap-2">
@@ -97,6 +234,11 @@ export default function TourDetailPetTour({
         <h2 className="text-2xl font-semibold">반려동물 동반 정보</h2>
       </div>
 
+      <PetInfoTags tags={tags} />
+
+      {/* 내 반려동물별 동반 가능 여부 */}
+      <PetAccessBadges petInfo={petInfo} variant="detail" />
+
       <div className="flex flex-col gap-6">
         {/* 동반 타입 (전구역/일부구역 동반가능) */}
         <InfoItem icon={Heart} label="동반 타입" value={petInfo.acmpyTypeCd} />
@@ -0,0 +1,210 @@
+"use client";
+
+import Image from "next/image";
+import { BedDouble } from "lucide-react";
+import type { TourRoomInfo } from "@/lib/types/tour";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file TourDetailRooms.tsx
+ * @description 숙박시설 객실 정보 섹션 컴포넌트
+ *
+ * detailInfo2 API로 조회한 숙박(32) 객실 정보를 표로 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 객실명, 크기(평/㎡), 기준/최대 인원 표시
+ * 2. 비수기/성수기 최소 요금(주중/주말) 표시
+ * 3. 객실 편의시설(Y 표시 항목) 배지 표시
+ * 4. 객실 이미지 표시
+ * 5. 객실 정보가 없는 경우 숨김 처리
+ */
+
+interface TourDetailRoomsProps {
+  rooms: TourRoomInfo[] | undefined;
+  isLoading?: boolean;
+  className?: string;
+}
+
+/**
+ * 객실 편의시설 필드와 표시 라벨
+ */
+const ROOM_AMENITIES: { key: keyof TourRoomInfo; label: string }[] = [
+  { key: "roombathfacility", label: "목욕시설" },
+  { key: "roombath", label: "욕조" },
+  { key: "roomaircondition", label: "에어컨" },
+  { key: "roomtv", label: "TV" },
+  { key: "roompc", label: "PC" },
+  { key: "roominternet", label: "인터넷" },
+  { key: "roomrefrigerator", label: "냉장고" },
+  { key: "roomtoiletries", label: "세면도구" },
+  { key: "roomcook", label: "취사용품" },
+  { key: "roomhairdryer", label: "드라이기" },
+];
+
+/**
+ * 요금 문자열을 "12,000원" 형식으로 변환
+ * 숫자가 아니거나 0이면 null 반환
+ */
+function formatFee(fee: string | undefined): string | null {
+  if (!fee) return null;
+  const value = Number(fee.replace(/,/g, ""));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return `${value.toLocaleString("ko-KR")}원`;
+}
+
+/**
+ * 주중/주말 요금을 한 줄로 표시
+ */
+function formatFeePair(
+  weekday: string | undefined,
+  weekend: string | undefined,
+): string {
+  const weekdayFee = formatFee(weekday);
+  const weekendFee = formatFee(weekend);
+
+  if (!weekdayFee && !weekendFee) return "-";
+  return `주중 ${weekdayFee ?? "-"} / 주말 ${weekendFee ?? "-"}`;
+}
+
+/**
+ * 객실 크기를 "10평 (33㎡)" 형식으로 변환
+ */
+function formatRoomSize(room: TourRoomInfo): string {
+  const pyeong = room.roomsize1 && room.roomsize1 !== "0" ? room.roomsize1 : "";
+  const squareMeter =
+    room.roomsize2 && room.roomsize2 !== "0" ? room.roomsize2 : "";
+
+  if (pyeong && squareMeter) return `${pyeong}평 (${squareMeter}㎡)`;
+  if (pyeong) return `${pyeong}평`;
+  if (squareMeter) return `${squareMeter}㎡`;
+  return "-";
+}
+
+/**
+ * 기준/최대 인원을 "2명 / 4명" 형식으로 변환
+ */
+function formatRoomCapacity(room: TourRoomInfo): string {
+  const base = room.roombasecount ? `${room.roombasecount}명` : "-";
+  const max = room.roommaxcount ? `${room.roommaxcount}명` : "-";
+  return `${base} / ${max}`;
+}
+
+/**
+ * 첫 번째 객실 이미지 추출
+ */
+function getRoomImage(room: TourRoomInfo): { src: string; alt: string } | null {
+  const images = [
+    { src: room.roomimg1, alt: room.roomimg1alt },
+    { src: room.roomimg2, alt: room.roomimg2alt },
+    { src: room.roomimg3, alt: room.roomimg3alt },
+    { src: room.roomimg4, alt: room.roomimg4alt },
+    { src: room.roomimg5, alt: room.roomimg5alt },
+  ];
+  const image = images.find((item) => item.src);
+  if (!image?.src) return null;
+  return { src: image.src, alt: image.alt || room.roomtitle || "객실 이미지" };
+}
+
+/**
+ * 숙박시설 객실 정보 섹션 컴포넌트
+ */
+export default function TourDetailRooms({
+  rooms,
+  isLoading,
+  className,
+}: TourDetailRoomsProps) {
+  // 로딩 중이거나 객실 정보가 없는 경우 숨김
+  if (isLoading || !rooms || rooms.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-6", className)}>
+      <h2 className="flex items-center gap-2 text-2xl font-semibold">
+        <BedDouble className="size-6" />
+        객실 정보
+      </h2>
+
+      <div className="overflow-x-auto rounded-lg border">
+        <table className="w-full min-w-[720px] text-sm">
+          <thead className="bg-muted/50 text-left text-muted-foreground">
+            <tr>
+              <th className="px-4 py-3 font-medium">객실명</th>
+              <th className="px-4 py-3 font-medium">크기</th>
+              <th className="px-4 py-3 font-medium">기준/최대 인원</th>
+              <th className="px-4 py-3 font-medium">비수기 요금</th>
+              <th className="px-4 py-3 font-medium">성수기 요금</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rooms.map((room, index) => {
+              const image = getRoomImage(room);
+              const amenities = ROOM_AMENITIES.filter(
+                ({ key }) => room[key] === "Y",
+              );
+
+              return (
+                <tr
+                  key={room.roomcode || `${room.roomtitle}-${index}`}
+                  className="border-t align-top"
+                >
+                  <td className="px-4 py-3">
+                    <div className="flex gap-3">
+                      {image && (
+                        <div className="relative size-16 shrink-0 overflow-hidden rounded-md bg-muted">
+                          <Image
+                            src={image.src}
+                            alt={image.alt}
+                            fill
+                            className="object-cover"
+                            sizes="64px"
+                            loading="lazy"
+                          />
+                        </div>
+                      )}
+                      <div className="flex flex-col gap-2">
+                        <span className="font-medium">
+                          {room.roomtitle || "객실"}
+                        </span>
+                        {amenities.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {amenities.map(({ key, label }) => (
+                              <span
+                                key={key}
+                                className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                              >
+                                {label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatRoomSize(room)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatRoomCapacity(room)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatFeePair(
+                      room.roomoffseasonminfee1,
+                      room.roomoffseasonminfee2,
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {formatFeePair(
+                      room.roompeakseasonminfee1,
+                      room.roompeakseasonminfee2,
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
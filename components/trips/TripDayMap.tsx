@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useId, useMemo, useRef } from "react";
+import { AlertCircle, MapPinOff } from "lucide-react";
+import { useNaverMap } from "@/hooks/useNaverMap";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { ItineraryStop } from "@/lib/types/itinerary";
+import type { GeoPosition } from "@/lib/utils/geolocation";
+import { getStopPosition } from "@/lib/utils/itinerary";
+import { createNumberedMarkerIcon } from "@/lib/utils/marker-icon";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file TripDayMap.tsx
+ * @description 하루 일정 경로 지도 컴포넌트
+ *
+ * 선택한 날짜의 일정을 순서대로 Naver 지도에 표시하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 일정 순서 번호 마커 (시간대 → 순서)
+ * 2. 일정을 순서대로 잇는 경로 선
+ * 3. 모든 일정이 보이도록 지도 범위 조정
+ * 4. 위치가 없는 자유 일정 수 안내
+ * 5. 고정 출발지/도착지(숙소 등) 마커와 경로 포함
+ * 6. 동선 최적화 미리보기 (점선 경로)
+ *
+ * @see {@link /hooks/useNaverMap.ts} - Naver 지도 훅
+ */
+
+/** 경로 선/마커 색상 */
+const ROUTE_COLOR = "#4285f4";
+
+/** 동선 최적화 미리보기 경로 색상 */
+const PREVIEW_COLOR = "#f4511e";
+
+/** 출발지/도착지 마커 색상 */
+const ANCHOR_COLOR = "#37474f";
+
+/**
+ * 고정 출발지/도착지 (예: 숙소)
+ */
+export interface TripRouteAnchor {
+  /** 마커에 표시할 이름 */
+  title: string;
+  /** 좌표 */
+  position: GeoPosition;
+}
+
+/** 일정이 없을 때의 기본 중심 (서울 시청) */
+const DEFAULT_CENTER = { lat: 37.5665, lng: 126.978 };
+
+interface TripDayMapProps {
+  /** 하루 일정 (표시 순서대로 정렬) */
+  stops: ItineraryStop[];
+  /** 고정 출발지 */
+  start?: TripRouteAnchor | null;
+  /** 고정 도착지 (출발지와 같으면 왕복) */
+  end?: TripRouteAnchor | null;
+  /** 동선 최적화 미리보기 여부 (점선 경로) */
+  isPreview?: boolean;
+  /** 추가 클래스명 */
+  className?: string;
+  /** 지도 높이 (기본값: 360px) */
+  height?: string;
+}
+
+/**
+ * 하루 일정 경로 지도 컴포넌트
+ */
+export default function TripDayMap({
+  stops,
+  start,
+  end,
+  isPreview = false,
+  className,
+  height = "h-[360px]",
+}: TripDayMapProps) {
+  const mapId = useId();
+  const markersRef = useRef<naver.maps.Marker[]>([]);
+  const polylineRef = useRef<naver.maps.Polyline | null>(null);
+
+  // 위치가 있는 일정만 경로에 표시 (순서 번호는 하루 일정 기준)
+  const points = useMemo(
+    () =>
+      stops.flatMap((stop, index) => {
+        const position = getStopPosition(stop);
+        return position ? [{ stop, order: index + 1, position }] : [];
+      }),
+    [stops],
+  );
+
+  const { map, isLoading, error } = useNaverMap({
+    containerId: mapId,
+    center: DEFAULT_CENTER,
+    zoom: 11,
+    enableClustering: false, // 순서 번호 마커를 직접 그리므로 클러스터링 비활성화
+  });
+
+  // 일정이 바뀌면 마커와 경로 선을 다시 그림
+  useEffect(() => {
+    if (!map || isLoading || !window.naver?.maps) {
+      return;
+    }
+
+    const naverMaps = window.naver.maps;
+
+    markersRef.current.forEach((marker) => marker.setMap(null));
+    markersRef.current = [];
+    polylineRef.current?.setMap(null);
+    polylineRef.current = null;
+
+    if (points.length === 0) {
+      return;
+    }
+
+    const color = isPreview ? PREVIEW_COLOR : ROUTE_COLOR;
+    const toLatLng = ({ lat, lng }: GeoPosition) =>
+      new naverMaps.LatLng(lat, lng);
+    const stopPath = points.map(({ position }) => toLatLng(position));
+    const isRoundTrip =
+      start &&
+      end &&
+      start.position.lat === end.position.lat &&
+      start.position.lng === end.position.lng;
+
+    markersRef.current = points.map(
+      ({ stop, order }, index) =>
+        new naverMaps.Marker({
+          position: stopPath[index],
+          map,
+          title: `${order}. ${stop.title}`,
+          icon: createNumberedMarkerIcon(order, naverMaps, color),
+          zIndex: 100 + order,
+        }),
+    );
+
+    // 출발지/도착지 마커 (왕복이면 하나만 표시)
+    const anchors = [
+      start && { anchor: start, label: isRoundTrip ? "⌂" : "S" },
+      end && !isRoundTrip && { anchor: end, label: "E" },
+    ].filter(Boolean) as Array<{ anchor: TripRouteAnchor; label: string }>;
+    anchors.forEach(({ anchor, label }) => {
+      markersRef.current.push(
+        new naverMaps.Marker({
+          position: toLatLng(anchor.position),
+          map,
+          title: anchor.title,
+          icon: createNumberedMarkerIcon(label, naverMaps, ANCHOR_COLOR),
+          zIndex: 99,
+        }),
+      );
+    });
+
+    const path = [
+      ...(start ? [toLatLng(start.position)] : []),
+      ...stopPath,
+      ...(end ? [toLatLng(end.position)] : []),
+    ];
+
+    if (path.length >= 2) {
+      polylineRef.current = new naverMaps.Polyline({
+        map,
+        path,
+        strokeColor: color,
+        strokeWeight: 4,
+        strokeOpacity: 0.7,
+        strokeStyle: isPreview ? "shortdash" : "solid",
+        strokeLineCap: "round",
+        strokeLineJoin: "round",
+      });
+
+      const bounds = new naverMaps.LatLngBounds(path[0], path[0]);
+      path.forEach((latLng) => bounds.extend(latLng));
+      map.fitBounds(bounds, { top: 40, right: 40, bottom: 40, left: 40 });
+    } else {
+      map.setCenter(path[0]);
+      map.setZoom(15);
+    }
+
+    console.log("[TripDayMap] 경로 표시:", {
+      stops: stops.length,
+      points: points.length,
+    });
+  }, [map, isLoading, points, stops.length, start, end, isPreview]);
+
+  // 언마운트 시 마커와 경로 선 제거
+  useEffect(
+    () => () => {
+      markersRef.current.forEach((marker) => marker.setMap(null));
+      polylineRef.current?.setMap(null);
+    },
+    [],
+  );
+
+  const missingCount = stops.length - points.length;
+
+  return (
+    <div className={cn("flex w-full flex-col gap-2", className)}>
+      {isLoading && (
+        <div className={cn("w-full rounded-lg border bg-card", height)}>
+          <Skeleton className="h-full w-full rounded-lg" />
+        </div>
+      )}
+      {error && (
+        <div
+          className={cn(
+            "flex flex-col items-center justify-center gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-8",
+            height,
+          )}
+        >
+          <AlertCircle className="size-8 text-destructive" />
+          <p className="text-sm text-muted-foreground">{error.message}</p>
+        </div>
+      )}
+      {/* 지도 컨테이너는 항상 렌더링되지만, 로딩/에러 시 숨김 */}
+      <div
+        id={mapId}
+        className={cn(
+          "w-full overflow-hidden rounded-lg border bg-card",
+          height,
+          (isLoading || error) && "hidden",
+        )}
+      />
+      {missingCount > 0 && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MapPinOff className="size-3.5" />
+          위치가 없는 일정 {missingCount}개는 지도에 표시되지 않습니다.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Route, X } from "lucide-react";
+import TripDayMap, {
+  type TripRouteAnchor,
+} from "@/components/trips/TripDayMap";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ItineraryStop } from "@/lib/types/itinerary";
+import {
+  getDayRouteDistance,
+  getStopPosition,
+  optimizeDayStops,
+  sortItineraryStops,
+  type DayRouteResult,
+  type TripDay,
+} from "@/lib/utils/itinerary";
+import { formatRouteDistance } from "@/lib/utils/route-optimizer";
+
+/**
+ * @file TripDayRoute.tsx
+ * @description 하루 동선 지도 및 최적화 컴포넌트
+ *
+ * 선택한 날짜의 경로 지도와 이동 거리를 보여 주고,
+ * 시간대 안의 방문 순서를 이동 거리가 짧아지도록 바꾸는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 하루 경로 지도와 총 이동 거리 (직선 거리)
+ * 2. 출발지/도착지 고정 (다른 날짜의 일정 중 선택, 숙소 우선)
+ * 3. 동선 최적화 미리보기 (기존/최적화 거리 비교, 점선 경로)
+ * 4. 최적화한 순서 적용/취소
+ *
+ * @see {@link /lib/utils/route-optimizer.ts} - 방문 순서 최적화
+ * @see {@link /components/trips/TripDayMap.tsx} - 하루 일정 경로 지도
+ */
+
+/** 숙박 콘텐츠타입ID (출발지/도착지 후보 맨 앞에 표시) */
+const ACCOMMODATION_CONTENT_TYPE_ID = "32";
+
+/** 출발지/도착지 미지정 선택 값 */
+const NO_ANCHOR = "__none__";
+
+interface TripDayRouteProps {
+  /** 선택한 날짜의 일정 (표시 순서대로 정렬) */
+  dayStops: ItineraryStop[];
+  /** 여행 전체 일정 (출발지/도착지 후보) */
+  tripStops: ItineraryStop[];
+  /** 여행 날짜 목록 (후보 이름의 "N일차" 표시) */
+  days: TripDay[];
+  /** 저장 중 여부 */
+  disabled?: boolean;
+  /** 최적화한 순서 저장 (바뀐 시간대별로 호출) */
+  onApply: (changes: DayRouteResult["changes"]) => Promise<void>;
+}
+
+/**
+ * 최적화 미리보기를 무효화할지 판단하는 서명 (일정 순서/시간대 + 출발지/도착지)
+ */
+function getRouteSignature(
+  dayStops: ItineraryStop[],
+  startId: string,
+  endId: string,
+): string {
+  return [
+    ...dayStops.map((stop) => `${stop.id}:${stop.time_slot}:${stop.position}`),
+    startId,
+    endId,
+  ].join("|");
+}
+
+/**
+ * 하루 동선 지도 및 최적화 컴포넌트
+ */
+export default function TripDayRoute({
+  dayStops,
+  tripStops,
+  days,
+  disabled = false,
+  onApply,
+}: TripDayRouteProps) {
+  const [startId, setStartId] = useState(NO_ANCHOR);
+  const [endId, setEndId] = useState(NO_ANCHOR);
+  const [preview, setPreview] = useState<{
+    signature: string;
+    result: DayRouteResult;
+  } | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  // 출발지/도착지 후보: 다른 날짜의 위치가 있는 일정 (숙소 먼저)
+  const anchorOptions = useMemo(() => {
+    const dayStopIds = new Set(dayStops.map((stop) => stop.id));
+    return sortItineraryStops(tripStops)
+      .filter((stop) => !dayStopIds.has(stop.id) && getStopPosition(stop))
+      .sort(
+        (a, b) =>
+          Number(b.content_type_id === ACCOMMODATION_CONTENT_TYPE_ID) -
+          Number(a.content_type_id === ACCOMMODATION_CONTENT_TYPE_ID),
+      )
+      .map((stop) => ({
+        id: stop.id,
+        label: `${days[stop.day_index]?.label ?? ""} · ${stop.title}`,
+        anchor: {
+          title: stop.title,
+          position: getStopPosition(stop)!,
+        } satisfies TripRouteAnchor,
+      }));
+  }, [dayStops, tripStops, days]);
+
+  // 날짜를 바꾸거나 후보 일정이 삭제되면 선택 해제된 것으로 봄
+  const start =
+    anchorOptions.find((option) => option.id === startId)?.anchor ?? null;
+  const end =
+    anchorOptions.find((option) => option.id === endId)?.anchor ?? null;
+  const routeOptions = {
+    start: start?.position ?? null,
+    end: end?.position ?? null,
+  };
+
+  const signature = getRouteSignature(dayStops, startId, endId);
+  // 일정이 바뀌었으면 이전 미리보기는 버림
+  const result = preview?.signature === signature ? preview.result : null;
+  const distanceMeters = getDayRouteDistance(dayStops, routeOptions);
+  const locatedCount = dayStops.filter((stop) => getStopPosition(stop)).length;
+
+  /**
+   * 동선 최적화 미리보기
+   */
+  const handleOptimize = () => {
+    const optimized = optimizeDayStops(dayStops, routeOptions);
+    console.log("[TripDayRoute] 동선 최적화:", {
+      stops: dayStops.length,
+      changes: optimized.changes.length,
+      before: Math.round(optimized.originalDistanceMeters),
+      after: Math.round(optimized.distanceMeters),
+    });
+    setPreview({ signature, result: optimized });
+  };
+
+  /**
+   * 최적화한 순서 저장
+   */
+  const handleApply = async () => {
+    if (!result) {
+      return;
+    }
+    setIsApplying(true);
+    try {
+      await onApply(result.changes);
+      setPreview(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderAnchorSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+  ) => (
+    <div className="flex min-w-0 flex-1 flex-col gap-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ANCHOR}>지정 안 함</SelectItem>
+          {anchorOptions.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <TripDayMap
+        stops={result ? result.stops : dayStops}
+        start={start}
+        end={end}
+        isPreview={!!result}
+      />
+
+      <div className="flex flex-col gap-3 rounded-lg border p-3">
+        {anchorOptions.length > 0 && (
+          <div className="flex flex-col gap-2 sm:flex-row">
+            {renderAnchorSelect(
+              "trip-route-start",
+              "출발지",
+              anchorOptions.some((option) => option.id === startId)
+                ? startId
+                : NO_ANCHOR,
+              setStartId,
+            )}
+            {renderAnchorSelect(
+              "trip-route-end",
+              "도착지",
+              anchorOptions.some((option) => option.id === endId)
+                ? endId
+                : NO_ANCHOR,
+              setEndId,
+            )}
+          </div>
+        )}
+
+        {result ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm">
+              {result.changes.length > 0 ? (
+                <>
+                  이동 거리{" "}
+                  <span className="text-muted-foreground line-through">
+                    {formatRouteDistance(result.originalDistanceMeters)}
+                  </span>{" "}
+                  →{" "}
+                  <span className="font-semibold">
+                    {formatRouteDistance(result.distanceMeters)}
+                  </span>
+                </>
+              ) : (
+                "지금 순서가 가장 짧은 동선입니다."
+              )}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPreview(null)}
+                disabled={isApplying}
+              >
+                <X className="size-4" />
+                {result.changes.length > 0 ? "취소" : "닫기"}
+              </Button>
+              {result.changes.length > 0 && (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={handleApply}
+                  disabled={disabled || isApplying}
+                >
+                  <Check className="size-4" />
+                  적용
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {locatedCount > 0
+                ? `이동 거리 약 ${formatRouteDistance(distanceMeters)} (직선 거리)`
+                : "위치가 있는 일정이 없습니다."}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleOptimize}
+              disabled={disabled || locatedCount < 2}
+            >
+              <Route className="size-4" />
+              동선 최적화
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          시간대 순서는 그대로 두고 같은 시간대 안의 방문 순서만 바꿉니다.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ItineraryInput } from "@/lib/types/itinerary";
+import {
+  MAX_TRIP_DAYS,
+  MAX_TRIP_TITLE_LENGTH,
+  getTripDayCount,
+  validateItineraryInput,
+} from "@/lib/utils/itinerary";
+
+/**
+ * @file TripForm.tsx
+ * @description 여행 제목/기간 입력 폼 컴포넌트
+ *
+ * 여행 만들기와 여행 수정에서 함께 사용하는 폼입니다.
+ *
+ * 주요 기능:
+ * 1. 제목, 시작일, 종료일 입력 (종료일은 시작일 이후로 제한)
+ * 2. 기간 검증 (최대 30일) 후 제출
+ *
+ * @see {@link /lib/utils/itinerary.ts} - 여행 기간 검증
+ */
+
+interface TripFormProps {
+  /** 초기 값 */
+  initialValue: ItineraryInput;
+  /** 제출 버튼 이름 */
+  submitLabel: string;
+  /** 제출 중 여부 */
+  isSubmitting: boolean;
+  /** 제출 핸들러 */
+  onSubmit: (input: ItineraryInput) => Promise<void>;
+  /** 취소 핸들러 */
+  onCancel: () => void;
+}
+
+/**
+ * 여행 제목/기간 입력 폼 컴포넌트
+ */
+export default function TripForm({
+  initialValue,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: TripFormProps) {
+  const [form, setForm] = useState<ItineraryInput>(initialValue);
+  const dayCount = getTripDayCount(form.start_date, form.end_date);
+
+  const update = <K extends keyof ItineraryInput>(
+    key: K,
+    value: ItineraryInput[K],
+  ) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleStartDateChange = (startDate: string) => {
+    // 시작일을 종료일 뒤로 옮기면 종료일도 함께 옮김
+    setForm((prev) => ({
+      ...prev,
+      start_date: startDate,
+      end_date:
+        prev.end_date && prev.end_date >= startDate ? prev.end_date : startDate,
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const validationError = validateItineraryInput(form);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    await onSubmit({ ...form, title: form.title.trim() });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-4 rounded-lg border bg-card p-4 md:p-6"
+    >
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="trip-title">여행 제목</Label>
+        <Input
+          id="trip-title"
+          value={form.title}
+          onChange={(e) => update("title", e.target.value)}
+          placeholder="예: 서울 2박 3일"
+          maxLength={MAX_TRIP_TITLE_LENGTH}
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="trip-start-date">시작일</Label>
+          <Input
+            id="trip-start-date"
+            type="date"
+            value={form.start_date}
+            onChange={(e) => handleStartDateChange(e.target.value)}
+            required
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="trip-end-date">종료일</Label>
+          <Input
+            id="trip-end-date"
+            type="date"
+            value={form.end_date}
+            min={form.start_date}
+            onChange={(e) => update("end_date", e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {dayCount > 0
+            ? `${dayCount}일 일정 (최대 ${MAX_TRIP_DAYS}일)`
+            : `최대 ${MAX_TRIP_DAYS}일까지 계획할 수 있습니다.`}
+        </p>
+        <div className="flex gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            취소
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
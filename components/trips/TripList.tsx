@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { CalendarDays, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useTrips } from "@/hooks/useTrips";
+import TripForm from "@/components/trips/TripForm";
+import { Button } from "@/components/ui/button";
+import type { ItineraryInput, ItinerarySummary } from "@/lib/types/itinerary";
+import { getTodayApiDate, toInputDate } from "@/lib/utils/date-formatter";
+import { formatTripPeriod, shiftTripDate } from "@/lib/utils/itinerary";
+
+/**
+ * @file TripList.tsx
+ * @description 여행 목록 컴포넌트
+ *
+ * 로그인한 사용자의 여행 목록을 표시하고 새 여행을 만드는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 여행 목록 (제목, 기간, 일정 수)
+ * 2. 새 여행 만들기 (만들면 일정 편집 페이지로 이동)
+ * 3. 여행 삭제
+ *
+ * @see {@link /hooks/useTrips.ts} - 여행 목록 훅
+ */
+
+/**
+ * 새 여행 기본값 (오늘부터 2박 3일)
+ */
+function getDefaultTripInput(): ItineraryInput {
+  const today = toInputDate(getTodayApiDate());
+  return {
+    title: "",
+    start_date: today,
+    end_date: shiftTripDate(today, 2),
+  };
+}
+
+/**
+ * 여행 목록 컴포넌트
+ */
+export default function TripList() {
+  const router = useRouter();
+  const { trips, isLoading, error, isMutating, createTrip, deleteTrip } =
+    useTrips();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (input: ItineraryInput) => {
+    try {
+      const trip = await createTrip(input);
+      toast.success(`"${trip.title}" 여행을 만들었습니다.`);
+      router.push(`/trips/${trip.id}`);
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "여행을 만들지 못했습니다.",
+      );
+    }
+  };
+
+  const handleDelete = async (trip: ItinerarySummary) => {
+    if (
+      !confirm(`"${trip.title}" 여행과 일정 ${trip.stop_count}개를 삭제할까요?`)
+    ) {
+      return;
+    }
+    try {
+      await deleteTrip(trip.id);
+      toast.success(`"${trip.title}" 여행을 삭제했습니다.`);
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "여행을 삭제하지 못했습니다.",
+      );
+    }
+  };
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        여행 목록을 불러오는 중...
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-8">
+        <div className="font-semibold text-destructive">
+          여행 목록을 불러올 수 없습니다
+        </div>
+        <div className="text-sm text-muted-foreground">
+          {error instanceof Error
+            ? error.message
+            : "오류가 발생했습니다. 잠시 후 다시 시도해주세요."}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 md:gap-6">
+      {/* 여행이 없는 경우 */}
+      {trips.length === 0 && !isCreating && (
+        <div className="flex flex-col items-center justify-center gap-4 rounded-lg border border-muted bg-muted/50 p-12">
+          <CalendarDays className="size-12 text-muted-foreground" />
+          <div className="flex flex-col items-center gap-2 text-center">
+            <h3 className="text-lg font-semibold">아직 만든 여행이 없습니다</h3>
+            <p className="text-sm text-muted-foreground">
+              여행 기간을 정하고 북마크한 관광지를 날짜별로 배치해 보세요.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* 여행 목록 */}
+      <ul className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {trips.map((trip) => (
+          <li
+            key={trip.id}
+            className="flex items-start justify-between gap-4 rounded-lg border bg-card p-4 transition-colors hover:bg-accent/50"
+          >
+            <Link
+              href={`/trips/${trip.id}`}
+              className="flex min-w-0 flex-1 flex-col gap-1"
+            >
+              <span className="truncate text-lg font-semibold">
+                {trip.title}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                {formatTripPeriod(trip)}
+              </span>
+              <span className="text-sm text-muted-foreground">
+                일정 {trip.stop_count}개
+              </span>
+            </Link>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(trip)}
+              disabled={isMutating}
+              aria-label={`${trip.title} 삭제`}
+            >
+              <Trash2 className="size-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {/* 여행 만들기 폼 */}
+      {isCreating ? (
+        <TripForm
+          initialValue={getDefaultTripInput()}
+          submitLabel="만들기"
+          isSubmitting={isMutating}
+          onSubmit={handleCreate}
+          onCancel={() => setIsCreating(false)}
+        />
+      ) : (
+        <Button
+          variant="outline"
+          onClick={() => setIsCreating(true)}
+          className="gap-2 self-start"
+        >
+          <Plus className="size-4" />새 여행 만들기
+        </Button>
+      )}
+    </div>
+  );
+}
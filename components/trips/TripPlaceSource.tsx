@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { GripVertical, Plus, Search } from "lucide-react";
+import { useBookmarkedTours } from "@/hooks/useBookmarkedTours";
+import { useTourSearch } from "@/hooks/useTourSearch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { TourItem } from "@/lib/types/tour";
+import { getTourTypeIcon } from "@/lib/utils/marker-icon";
+
+/**
+ * @file TripPlaceSource.tsx
+ * @description 일정에 넣을 관광지 목록 컴포넌트
+ *
+ * 여행 일정 편집 페이지에서 북마크한 관광지와 검색 결과를 보여 주고,
+ * 날짜/시간대 칸으로 끌어다 놓거나 추가 버튼으로 선택한 칸에 넣게 합니다.
+ *
+ * 주요 기능:
+ * 1. 북마크 탭 (북마크 스냅샷 목록)
+ * 2. 검색 탭 (키워드 검색 결과)
+ * 3. 관광지 끌어다 놓기 (TRIP_PLACE_DRAG_TYPE 데이터로 관광지 전달)
+ * 4. 추가 버튼 (터치 기기 등 끌어다 놓기가 어려운 환경용)
+ *
+ * @see {@link /components/trips/TripPlanner.tsx} - 여행 일정 편집 컴포넌트
+ */
+
+/** 관광지 끌어다 놓기 데이터 형식 (JSON 직렬화한 TourItem) */
+export const TRIP_PLACE_DRAG_TYPE = "application/x-mytrip-place";
+
+interface TripPlaceSourceProps {
+  /** 추가 버튼으로 넣을 칸 이름 (예: "1일차 오전") */
+  targetLabel: string;
+  /** 추가 버튼 핸들러 */
+  onAdd: (tour: TourItem) => void;
+  /** 추가 중 여부 */
+  disabled?: boolean;
+}
+
+/**
+ * 관광지 목록 (끌어다 놓기 가능)
+ */
+function PlaceItems({
+  tours,
+  targetLabel,
+  onAdd,
+  disabled,
+}: TripPlaceSourceProps & { tours: TourItem[] }) {
+  return (
+    <ul className="flex flex-col gap-2">
+      {tours.map((tour) => (
+        <li
+          key={tour.contentid}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "copy";
+            e.dataTransfer.setData(TRIP_PLACE_DRAG_TYPE, JSON.stringify(tour));
+          }}
+          className="flex cursor-grab items-center gap-2 rounded-md border bg-card p-2 active:cursor-grabbing"
+        >
+          <GripVertical className="size-4 shrink-0 text-muted-foreground" />
+          <span aria-hidden className="shrink-0">
+            {getTourTypeIcon(tour.contenttypeid)}
+          </span>
+          <div className="flex min-w-0 flex-1 flex-col">
+            <span className="truncate text-sm font-medium">{tour.title}</span>
+            {tour.addr1 && (
+              <span className="truncate text-xs text-muted-foreground">
+                {tour.addr1}
+              </span>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => onAdd(tour)}
+            disabled={disabled}
+            aria-label={`${tour.title}을(를) ${targetLabel}에 추가`}
+            title={`${targetLabel}에 추가`}
+          >
+            <Plus className="size-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * 일정에 넣을 관광지 목록 컴포넌트
+ */
+export default function TripPlaceSource(props: TripPlaceSourceProps) {
+  const { bookmarkedTours, isLoading: isBookmarksLoading } =
+    useBookmarkedTours();
+  const [keywordInput, setKeywordInput] = useState("");
+  const [keyword, setKeyword] = useState("");
+  const {
+    data: searchResults = [],
+    isFetching: isSearching,
+    error: searchError,
+  } = useTourSearch({ keyword, numOfRows: 20 });
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setKeyword(keywordInput.trim());
+  };
+
+  return (
+    <Tabs defaultValue="bookmarks" className="gap-3">
+      <TabsList className="w-full">
+        <TabsTrigger value="bookmarks">북마크</TabsTrigger>
+        <TabsTrigger value="search">검색</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="bookmarks">
+        {isBookmarksLoading ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            북마크를 불러오는 중...
+          </p>
+        ) : bookmarkedTours.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            북마크한 관광지가 없습니다. 검색 탭에서 찾아보세요.
+          </p>
+        ) : (
+          <PlaceItems
+            {...props}
+            tours={bookmarkedTours.map(({ tour }) => tour)}
+          />
+        )}
+      </TabsContent>
+
+      <TabsContent value="search" className="flex flex-col gap-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={keywordInput}
+            onChange={(e) => setKeywordInput(e.target.value)}
+            placeholder="관광지, 맛집 검색"
+            aria-label="관광지 검색어"
+          />
+          <Button type="submit" size="icon" aria-label="검색">
+            <Search className="size-4" />
+          </Button>
+        </form>
+        {isSearching ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            검색 중...
+          </p>
+        ) : searchError ? (
+          <p className="py-6 text-center text-sm text-destructive">
+            검색하지 못했습니다. 잠시 후 다시 시도해주세요.
+          </p>
+        ) : keyword && searchResults.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            &quot;{keyword}&quot; 검색 결과가 없습니다.
+          </p>
+        ) : (
+          <PlaceItems {...props} tours={searchResults} />
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
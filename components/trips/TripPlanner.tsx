@@ -0,0 +1,695 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  GripVertical,
+  Pencil,
+  Plus,
+  StickyNote,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useTrip } from "@/hooks/useTrip";
+import TripDayRoute from "@/components/trips/TripDayRoute";
+import TripForm from "@/components/trips/TripForm";
+import TripPlaceSource, {
+  TRIP_PLACE_DRAG_TYPE,
+} from "@/components/trips/TripPlaceSource";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type {
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryStopPlacement,
+  ItineraryTimeSlot,
+  ItineraryWithStops,
+} from "@/lib/types/itinerary";
+import type { TourItem } from "@/lib/types/tour";
+import {
+  ITINERARY_TIME_SLOTS,
+  ITINERARY_TIME_SLOT_LABELS,
+  MAX_STOP_NOTE_LENGTH,
+  MAX_STOP_TITLE_LENGTH,
+  formatTripPeriod,
+  getDayStops,
+  getTripDays,
+  sortItineraryStops,
+  tourToStopInput,
+  type DayRouteResult,
+} from "@/lib/utils/itinerary";
+import { getTourTypeIcon } from "@/lib/utils/marker-icon";
+import { cn } from "@/lib/utils";
+
+/**
+ * @file TripPlanner.tsx
+ * @description 여행 일정 편집 컴포넌트
+ *
+ * 여행 기간의 날짜별 탭과 시간대(오전/점심/오후/저녁/밤) 칸에
+ * 관광지와 자유 일정을 배치하는 컴포넌트입니다.
+ *
+ * 주요 기능:
+ * 1. 날짜 탭 (1일차, 2일차, ...), 여행 제목/기간 수정
+ * 2. 북마크/검색 결과를 시간대 칸으로 끌어다 놓기 (또는 추가 버튼)
+ * 3. 일정 끌어다 놓기로 순서 변경, 다른 시간대/날짜 탭으로 옮기기
+ * 4. 자유 일정 추가 (관광지가 아닌 일정, 예: "호텔 체크인")
+ * 5. 일정 제목/메모 수정, 삭제
+ * 6. 선택한 날짜의 경로를 Naver 지도에 표시, 동선 최적화
+ *
+ * @see {@link /hooks/useTrip.ts} - 여행 일정 편집 훅
+ * @see {@link /components/trips/TripPlaceSource.tsx} - 일정에 넣을 관광지 목록
+ * @see {@link /components/trips/TripDayRoute.tsx} - 하루 동선 지도 및 최적화
+ */
+
+/** 일정 끌어다 놓기 데이터 형식 (일정 ID) */
+const TRIP_STOP_DRAG_TYPE = "application/x-mytrip-stop";
+
+interface TripPlannerProps {
+  /** 서버 컴포넌트에서 조회한 여행 */
+  initialTrip: ItineraryWithStops;
+}
+
+/**
+ * 끌어다 놓기 데이터가 일정 편집 대상인지 확인
+ */
+function isTripDrag(event: React.DragEvent): boolean {
+  const types = Array.from(event.dataTransfer.types);
+  return (
+    types.includes(TRIP_STOP_DRAG_TYPE) || types.includes(TRIP_PLACE_DRAG_TYPE)
+  );
+}
+
+/**
+ * 끌어다 놓은 관광지 읽기
+ */
+function readDroppedTour(event: React.DragEvent): TourItem | null {
+  const data = event.dataTransfer.getData(TRIP_PLACE_DRAG_TYPE);
+  if (!data) {
+    return null;
+  }
+  try {
+    return JSON.parse(data) as TourItem;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 일정 항목 컴포넌트 (끌어다 놓기, 제목/메모 수정, 삭제)
+ */
+function TripStopItem({
+  stop,
+  order,
+  disabled,
+  onDrop,
+  onUpdate,
+  onDelete,
+}: {
+  stop: ItineraryStop;
+  order: number;
+  disabled: boolean;
+  onDrop: (event: React.DragEvent) => void;
+  onUpdate: (input: Pick<ItineraryStop, "title" | "note">) => Promise<void>;
+  onDelete: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(stop.title);
+  const [note, setNote] = useState(stop.note ?? "");
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!title.trim()) {
+      toast.error("일정 제목을 입력하세요.");
+      return;
+    }
+    await onUpdate({ title: title.trim(), note: note.trim() || null });
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="rounded-md border bg-card p-3">
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={MAX_STOP_TITLE_LENGTH}
+            aria-label="일정 제목"
+            required
+          />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={MAX_STOP_NOTE_LENGTH}
+            placeholder="메모 (예: 예약 11:30, 입장료 3,000원)"
+            aria-label="일정 메모"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setTitle(stop.title);
+                setNote(stop.note ?? "");
+                setIsEditing(false);
+              }}
+            >
+              취소
+            </Button>
+            <Button type="submit" size="sm" disabled={disabled}>
+              저장
+            </Button>
+          </div>
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData(TRIP_STOP_DRAG_TYPE, stop.id);
+      }}
+      onDragOver={(e) => {
+        if (isTripDrag(e)) {
+          e.preventDefault();
+        }
+      }}
+      onDrop={onDrop}
+      className="flex cursor-grab items-start gap-2 rounded-md border bg-card p-2 active:cursor-grabbing"
+    >
+      <GripVertical className="mt-1 size-4 shrink-0 text-muted-foreground" />
+      <span className="mt-0.5 flex size-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground">
+        {order}
+      </span>
+      <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+        <div className="flex items-center gap-1">
+          <span aria-hidden className="shrink-0">
+            {stop.content_id
+              ? getTourTypeIcon(stop.content_type_id ?? "")
+              : "📝"}
+          </span>
+          {stop.content_id ? (
+            <Link
+              href={`/places/${stop.content_id}`}
+              className="truncate text-sm font-medium hover:underline"
+            >
+              {stop.title}
+            </Link>
+          ) : (
+            <span className="truncate text-sm font-medium">{stop.title}</span>
+          )}
+        </div>
+        {stop.addr1 && (
+          <span className="truncate text-xs text-muted-foreground">
+            {stop.addr1}
+          </span>
+        )}
+        {stop.note && (
+          <span className="flex items-start gap-1 text-xs text-muted-foreground">
+            <StickyNote className="mt-0.5 size-3 shrink-0" />
+            {stop.note}
+          </span>
+        )}
+      </div>
+      <div className="flex shrink-0">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={() => setIsEditing(true)}
+          aria-label={`${stop.title} 수정`}
+        >
+          <Pencil className="size-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={onDelete}
+          disabled={disabled}
+          aria-label={`${stop.title} 삭제`}
+        >
+          <Trash2 className="size-3.5" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * 여행 일정 편집 컴포넌트
+ */
+export default function TripPlanner({ initialTrip }: TripPlannerProps) {
+  const {
+    trip,
+    isSaving,
+    updateTrip,
+    addStop,
+    updateStop,
+    moveStops,
+    deleteStop,
+  } = useTrip(initialTrip.id, initialTrip);
+  const [activeDay, setActiveDay] = useState(0);
+  // 추가 버튼/자유 일정을 넣을 시간대
+  const [targetSlot, setTargetSlot] = useState<ItineraryTimeSlot>("morning");
+  // 끌어다 놓는 중인 칸 (강조 표시)
+  const [dragOverSlot, setDragOverSlot] = useState<ItineraryTimeSlot | null>(
+    null,
+  );
+  const [isEditingTrip, setIsEditingTrip] = useState(false);
+  const [freeTitle, setFreeTitle] = useState("");
+  const [freeNote, setFreeNote] = useState("");
+
+  if (!trip) {
+    return (
+      <div className="flex flex-col items-center gap-4 rounded-lg border border-muted bg-muted/50 p-8 text-center">
+        <p className="font-semibold">여행을 찾을 수 없습니다</p>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/trips">여행 목록으로</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const days = getTripDays(trip);
+  // 기간을 줄였으면 마지막 날짜로 이동
+  const dayIndex = Math.min(activeDay, Math.max(days.length - 1, 0));
+  const dayStops = getDayStops(trip.stops, dayIndex);
+  const targetLabel = `${days[dayIndex]?.label ?? ""} ${ITINERARY_TIME_SLOT_LABELS[targetSlot]}`;
+
+  /**
+   * 관광지를 일정에 추가
+   */
+  const handleAddPlace = async (
+    tour: TourItem,
+    placement: ItineraryStopPlacement,
+  ) => {
+    try {
+      await addStop(tourToStopInput(tour, placement));
+      toast.success(
+        `${tour.title}을(를) ${days[placement.day_index]?.label} ${ITINERARY_TIME_SLOT_LABELS[placement.time_slot]}에 추가했습니다.`,
+      );
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "일정을 추가하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 일정을 다른 칸(또는 같은 칸의 다른 순서)으로 옮기기
+   *
+   * @param beforeStopId - 이 일정 앞에 놓음 (없으면 칸의 마지막)
+   */
+  const handleMoveStop = async (
+    stopId: string,
+    placement: ItineraryStopPlacement,
+    beforeStopId?: string,
+  ) => {
+    if (stopId === beforeStopId) {
+      return;
+    }
+
+    const cellStops = sortItineraryStops(trip.stops).filter(
+      (stop) =>
+        stop.day_index === placement.day_index &&
+        stop.time_slot === placement.time_slot,
+    );
+    const stopIds = cellStops
+      .map((stop) => stop.id)
+      .filter((id) => id !== stopId);
+    const insertIndex = beforeStopId ? stopIds.indexOf(beforeStopId) : -1;
+    stopIds.splice(
+      insertIndex === -1 ? stopIds.length : insertIndex,
+      0,
+      stopId,
+    );
+
+    // 같은 칸에서 순서가 그대로면 저장하지 않음
+    if (
+      cellStops.length === stopIds.length &&
+      cellStops.every((stop, index) => stop.id === stopIds[index])
+    ) {
+      return;
+    }
+
+    try {
+      await moveStops({ placement, stopIds });
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "일정을 옮기지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 동선 최적화 결과 저장 (바뀐 시간대마다 순서 저장)
+   */
+  const handleApplyRoute = async (changes: DayRouteResult["changes"]) => {
+    try {
+      for (const change of changes) {
+        await moveStops(change);
+      }
+      toast.success("최적화한 동선을 적용했습니다.");
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "동선을 적용하지 못했습니다.",
+      );
+    }
+  };
+
+  /**
+   * 칸(또는 칸 안의 일정 위)에 놓기
+   */
+  const handleDrop = (
+    event: React.DragEvent,
+    placement: ItineraryStopPlacement,
+    beforeStopId?: string,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDragOverSlot(null);
+
+    const stopId = event.dataTransfer.getData(TRIP_STOP_DRAG_TYPE);
+    if (stopId) {
+      handleMoveStop(stopId, placement, beforeStopId);
+      return;
+    }
+    const tour = readDroppedTour(event);
+    if (tour) {
+      handleAddPlace(tour, placement);
+    }
+  };
+
+  /**
+   * 날짜 탭에 놓기 (같은 시간대의 마지막으로 옮기거나 선택한 시간대에 추가)
+   */
+  const handleDropOnDay = (event: React.DragEvent, targetDay: number) => {
+    event.preventDefault();
+    const stopId = event.dataTransfer.getData(TRIP_STOP_DRAG_TYPE);
+    const stop = trip.stops.find((item) => item.id === stopId);
+    if (stop) {
+      handleMoveStop(stop.id, {
+        day_index: targetDay,
+        time_slot: stop.time_slot,
+      });
+      setActiveDay(targetDay);
+      return;
+    }
+    const tour = readDroppedTour(event);
+    if (tour) {
+      handleAddPlace(tour, { day_index: targetDay, time_slot: targetSlot });
+    }
+  };
+
+  const handleUpdateTrip = async (input: ItineraryInput) => {
+    try {
+      await updateTrip(input);
+      setIsEditingTrip(false);
+      toast.success("여행 정보를 수정했습니다.");
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "여행 정보를 수정하지 못했습니다.",
+      );
+    }
+  };
+
+  const handleAddFreeStop = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const title = freeTitle.trim();
+    if (!title) {
+      toast.error("일정 제목을 입력하세요.");
+      return;
+    }
+    try {
+      await addStop({
+        day_index: dayIndex,
+        time_slot: targetSlot,
+        content_id: null,
+        content_type_id: null,
+        title,
+        addr1: null,
+        mapx: null,
+        mapy: null,
+        first_image: null,
+        note: freeNote.trim() || null,
+      });
+      setFreeTitle("");
+      setFreeNote("");
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "일정을 추가하지 못했습니다.",
+      );
+    }
+  };
+
+  const handleUpdateStop = async (
+    stopId: string,
+    input: Pick<ItineraryStop, "title" | "note">,
+  ) => {
+    try {
+      await updateStop({ stopId, input });
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "일정을 수정하지 못했습니다.",
+      );
+    }
+  };
+
+  const handleDeleteStop = async (stop: ItineraryStop) => {
+    try {
+      await deleteStop(stop.id);
+    } catch (mutationError) {
+      toast.error(
+        mutationError instanceof Error
+          ? mutationError.message
+          : "일정을 삭제하지 못했습니다.",
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      {/* 여행 제목/기간 */}
+      {isEditingTrip ? (
+        <TripForm
+          initialValue={{
+            title: trip.title,
+            start_date: trip.start_date,
+            end_date: trip.end_date,
+          }}
+          submitLabel="저장"
+          isSubmitting={isSaving}
+          onSubmit={handleUpdateTrip}
+          onCancel={() => setIsEditingTrip(false)}
+        />
+      ) : (
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex min-w-0 flex-col gap-2">
+            <Link
+              href="/trips"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="size-4" />
+              여행 목록
+            </Link>
+            <h1 className="truncate text-3xl font-bold md:text-4xl">
+              {trip.title}
+            </h1>
+            <p className="text-muted-foreground">{formatTripPeriod(trip)}</p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsEditingTrip(true)}
+            className="shrink-0 gap-2"
+          >
+            <Pencil className="size-4" />
+            수정
+          </Button>
+        </div>
+      )}
+
+      {/* 날짜 탭 (일정을 탭 위에 놓으면 해당 날짜로 옮김) */}
+      <Tabs
+        value={String(dayIndex)}
+        onValueChange={(value) => setActiveDay(Number(value))}
+      >
+        <TabsList className="h-auto w-full justify-start overflow-x-auto">
+          {days.map((day) => (
+            <TabsTrigger
+              key={day.index}
+              value={String(day.index)}
+              className="flex-none flex-col gap-0 px-3 py-1"
+              onDragOver={(e) => {
+                if (isTripDrag(e)) {
+                  e.preventDefault();
+                }
+              }}
+              onDrop={(e) => handleDropOnDay(e, day.index)}
+            >
+              <span>{day.label}</span>
+              <span className="text-xs font-normal">{day.dateLabel}</span>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,1fr)_340px]">
+        {/* 하루 일정 */}
+        <div className="flex flex-col gap-4">
+          <TripDayRoute
+            dayStops={dayStops}
+            tripStops={trip.stops}
+            days={days}
+            disabled={isSaving}
+            onApply={handleApplyRoute}
+          />
+
+          {ITINERARY_TIME_SLOTS.map((slot) => {
+            const slotStops = dayStops.filter(
+              (stop) => stop.time_slot === slot,
+            );
+            const placement = { day_index: dayIndex, time_slot: slot };
+            return (
+              <section
+                key={slot}
+                onDragOver={(e) => {
+                  if (isTripDrag(e)) {
+                    e.preventDefault();
+                    setDragOverSlot(slot);
+                  }
+                }}
+                onDragLeave={(e) => {
+                  if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                    setDragOverSlot(null);
+                  }
+                }}
+                onDrop={(e) => handleDrop(e, placement)}
+                className={cn(
+                  "flex flex-col gap-2 rounded-lg border border-dashed p-3 transition-colors",
+                  dragOverSlot === slot && "border-primary bg-primary/5",
+                )}
+              >
+                <h2 className="text-sm font-semibold">
+                  {ITINERARY_TIME_SLOT_LABELS[slot]}
+                </h2>
+                {slotStops.length === 0 ? (
+                  <p className="py-2 text-center text-xs text-muted-foreground">
+                    관광지를 여기로 끌어다 놓으세요.
+                  </p>
+                ) : (
+                  <ol className="flex flex-col gap-2">
+                    {slotStops.map((stop) => (
+                      <TripStopItem
+                        key={stop.id}
+                        stop={stop}
+                        order={dayStops.indexOf(stop) + 1}
+                        disabled={isSaving}
+                        onDrop={(e) => handleDrop(e, placement, stop.id)}
+                        onUpdate={(input) => handleUpdateStop(stop.id, input)}
+                        onDelete={() => handleDeleteStop(stop)}
+                      />
+                    ))}
+                  </ol>
+                )}
+              </section>
+            );
+          })}
+        </div>
+
+        {/* 일정에 넣을 관광지 */}
+        <aside className="flex flex-col gap-4 lg:sticky lg:top-4 lg:self-start">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="trip-target-slot">추가할 시간대</Label>
+            <Select
+              value={targetSlot}
+              onValueChange={(value) =>
+                setTargetSlot(value as ItineraryTimeSlot)
+              }
+            >
+              <SelectTrigger id="trip-target-slot">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ITINERARY_TIME_SLOTS.map((slot) => (
+                  <SelectItem key={slot} value={slot}>
+                    {days[dayIndex]?.label} {ITINERARY_TIME_SLOT_LABELS[slot]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <form
+            onSubmit={handleAddFreeStop}
+            className="flex flex-col gap-2 rounded-lg border bg-card p-3"
+          >
+            <Label htmlFor="trip-free-title">자유 일정</Label>
+            <Input
+              id="trip-free-title"
+              value={freeTitle}
+              onChange={(e) => setFreeTitle(e.target.value)}
+              maxLength={MAX_STOP_TITLE_LENGTH}
+              placeholder="예: 호텔 체크인, 공항 이동"
+            />
+            <Input
+              value={freeNote}
+              onChange={(e) => setFreeNote(e.target.value)}
+              maxLength={MAX_STOP_NOTE_LENGTH}
+              placeholder="메모 (선택)"
+              aria-label="자유 일정 메모"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              size="sm"
+              disabled={isSaving}
+              className="gap-2 self-end"
+            >
+              <Plus className="size-4" />
+              {targetLabel}에 추가
+            </Button>
+          </form>
+
+          <TripPlaceSource
+            targetLabel={targetLabel}
+            disabled={isSaving}
+            onAdd={(tour) =>
+              handleAddPlace(tour, {
+                day_index: dayIndex,
+                time_slot: targetSlot,
+              })
+            }
+          />
+        </aside>
+      </div>
+    </div>
+  );
+}
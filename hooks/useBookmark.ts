@@ -3,11 +3,14 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@clerk/nextjs";
 import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useTourLocale } from "@/components/providers/locale-provider";
+import { getBookmarkSnapshots } from "@/actions/get-bookmark-snapshots";
 import {
   addBookmark,
   removeBookmark,
   isBookmarked,
 } from "@/lib/api/supabase-api";
+import type { BookmarkSnapshot } from "@/lib/types/bookmark";
 
 /**
  * @file useBookmark.ts
@@ -19,9 +22,11 @@ import {
  * 1. 북마크 여부 확인 (useQuery)
  * 2. 북마크 추가/삭제 (useMutation)
  * 3. 북마크 토글 기능
+ * 4. 북마크 추가 시 관광지 스냅샷 저장 (북마크 목록을 상세 API 호출 없이 표시)
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
  * @see {@link /lib/api/supabase-api.ts} - 북마크 API 함수들
+ * @see {@link /actions/get-bookmark-snapshots.ts} - 관광지 스냅샷 조회
  */
 
 /**
@@ -34,6 +39,7 @@ export function useBookmark(contentId: string) {
   const { userId, isLoaded } = useAuth();
   const supabase = useClerkSupabaseClient();
   const queryClient = useQueryClient();
+  const { locale } = useTourLocale();
 
   // 북마크 여부 확인 (useQuery)
   const {
@@ -63,9 +69,18 @@ export function useBookmark(contentId: string) {
       }
 
       console.log("[useBookmark] 북마크 추가 시작:", { userId, contentId });
+      // 스냅샷 조회에 실패해도 북마크는 추가 (목록 조회 시 백그라운드에서 채움)
+      let snapshot: BookmarkSnapshot | null = null;
+      try {
+        const snapshots = await getBookmarkSnapshots([{ contentId, locale }]);
+        snapshot = snapshots[contentId] ?? null;
+      } catch (snapshotError) {
+        console.warn("[useBookmark] 스냅샷 조회 실패:", snapshotError);
+      }
       const bookmark = await addBookmark(supabase, {
         user_id: userId,
         content_id: contentId,
+        snapshot,
       });
       console.log("[useBookmark] 북마크 추가 완료:", bookmark);
       return bookmark;
@@ -109,6 +124,10 @@ export function useBookmark(contentId: string) {
       queryClient.invalidateQueries({
         queryKey: ["bookmarks", userId],
       });
+      // 삭제한 북마크는 모든 컬렉션에서도 빠지므로 컬렉션 쿼리도 무효화
+      queryClient.invalidateQueries({
+        queryKey: ["bookmark-collections", userId],
+      });
       console.log("[useBookmark] 북마크 삭제 성공 - 쿼리 무효화 완료");
     },
     onError: (error) => {
@@ -0,0 +1,256 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import {
+  addCollectionItem,
+  createCollection,
+  deleteCollection,
+  getCollections,
+  removeCollectionItem,
+  renameCollection,
+  reorderCollectionItems,
+} from "@/lib/api/collection-api";
+import type { BookmarkCollectionWithItems } from "@/lib/types/collection";
+
+/**
+ * @file useBookmarkCollections.ts
+ * @description 북마크 컬렉션 훅
+ *
+ * React Query를 사용하여 로그인한 사용자의 북마크 컬렉션을 조회/관리하는 훅입니다.
+ * 북마크 버튼(컬렉션 선택), 북마크 목록 페이지(컬렉션 탭), 홈 북마크 필터가 같은 쿼리 캐시를 공유합니다.
+ *
+ * 주요 기능:
+ * 1. 컬렉션 목록 조회 (useQuery, 멤버로 참여한 공유 컬렉션 포함, 로그인하지 않으면 빈 목록)
+ * 2. 컬렉션 추가/이름 변경/삭제 (useMutation)
+ * 3. 컬렉션에 북마크 담기/빼기 (useMutation)
+ * 4. 컬렉션 안의 순서 변경 (낙관적 업데이트)
+ *
+ * @see {@link /lib/api/collection-api.ts} - 북마크 컬렉션 API 함수들
+ */
+
+/** 컬렉션이 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_COLLECTIONS: BookmarkCollectionWithItems[] = [];
+
+/**
+ * 컬렉션 담기/빼기 입력
+ */
+interface CollectionItemInput {
+  collectionId: string;
+  bookmarkId: string;
+}
+
+/**
+ * 북마크 컬렉션 훅
+ *
+ * @returns 컬렉션 목록, 상태 및 관리 함수들
+ */
+export function useBookmarkCollections() {
+  const { userId, isLoaded } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const queryKey = ["bookmark-collections", userId];
+
+  // 컬렉션 목록 조회 (useQuery)
+  const {
+    data: collections = NO_COLLECTIONS,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!userId || !isLoaded) {
+        return [];
+      }
+
+      console.log("[useBookmarkCollections] 컬렉션 목록 조회:", { userId });
+      return await getCollections(supabase, userId);
+    },
+    enabled: Boolean(userId && isLoaded),
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  const requireUserId = () => {
+    if (!userId) {
+      throw new Error("로그인이 필요합니다.");
+    }
+    return userId;
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  // 컬렉션 추가 (useMutation)
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      console.log("[useBookmarkCollections] 컬렉션 추가:", name);
+      return await createCollection(supabase, requireUserId(), name);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션 추가 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 컬렉션 이름 변경 (useMutation)
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      console.log("[useBookmarkCollections] 컬렉션 이름 변경:", { id, name });
+      return await renameCollection(supabase, requireUserId(), id, name);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션 이름 변경 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 컬렉션 삭제 (useMutation)
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      console.log("[useBookmarkCollections] 컬렉션 삭제:", id);
+      return await deleteCollection(supabase, requireUserId(), id);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션 삭제 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 컬렉션에 북마크 담기 (useMutation)
+  const addItemMutation = useMutation({
+    mutationFn: async ({ collectionId, bookmarkId }: CollectionItemInput) => {
+      console.log("[useBookmarkCollections] 컬렉션에 담기:", {
+        collectionId,
+        bookmarkId,
+      });
+      return await addCollectionItem(
+        supabase,
+        requireUserId(),
+        collectionId,
+        bookmarkId,
+      );
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션에 담기 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 컬렉션에서 북마크 빼기 (useMutation)
+  const removeItemMutation = useMutation({
+    mutationFn: async ({ collectionId, bookmarkId }: CollectionItemInput) => {
+      console.log("[useBookmarkCollections] 컬렉션에서 빼기:", {
+        collectionId,
+        bookmarkId,
+      });
+      return await removeCollectionItem(
+        supabase,
+        requireUserId(),
+        collectionId,
+        bookmarkId,
+      );
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션에서 빼기 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 컬렉션 순서 변경 (useMutation, 드래그 결과를 바로 반영하도록 낙관적 업데이트)
+  const reorderMutation = useMutation({
+    mutationFn: async ({
+      collectionId,
+      bookmarkIds,
+    }: {
+      collectionId: string;
+      bookmarkIds: string[];
+    }) => {
+      console.log("[useBookmarkCollections] 컬렉션 순서 변경:", {
+        collectionId,
+        count: bookmarkIds.length,
+      });
+      return await reorderCollectionItems(
+        supabase,
+        requireUserId(),
+        collectionId,
+        bookmarkIds,
+      );
+    },
+    onMutate: async ({ collectionId, bookmarkIds }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous =
+        queryClient.getQueryData<BookmarkCollectionWithItems[]>(queryKey);
+      queryClient.setQueryData<BookmarkCollectionWithItems[]>(
+        queryKey,
+        (current) =>
+          current?.map((collection) => {
+            if (collection.id !== collectionId) {
+              return collection;
+            }
+            const itemById = new Map(
+              collection.items.map((item) => [item.bookmark_id, item]),
+            );
+            return {
+              ...collection,
+              items: bookmarkIds.flatMap((bookmarkId, index) => {
+                const item = itemById.get(bookmarkId);
+                return item ? [{ ...item, position: index }] : [];
+              }),
+            };
+          }),
+      );
+      return { previous };
+    },
+    onError: (mutationError, _input, context) => {
+      console.error(
+        "[useBookmarkCollections] 컬렉션 순서 변경 실패:",
+        mutationError,
+      );
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSettled: onSuccess,
+  });
+
+  return {
+    // 상태
+    collections,
+    isLoading,
+    error,
+    isMutating:
+      createMutation.isPending ||
+      renameMutation.isPending ||
+      deleteMutation.isPending ||
+      addItemMutation.isPending ||
+      removeItemMutation.isPending,
+    // 인증 상태
+    isAuthenticated: Boolean(userId && isLoaded),
+    // 함수
+    createCollection: createMutation.mutateAsync,
+    renameCollection: renameMutation.mutateAsync,
+    deleteCollection: deleteMutation.mutateAsync,
+    addToCollection: addItemMutation.mutateAsync,
+    removeFromCollection: removeItemMutation.mutateAsync,
+    reorderCollection: reorderMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useTourLocale } from "@/components/providers/locale-provider";
+import { matchBookmarkImport } from "@/actions/match-bookmark-import";
+import { addBookmark, getBookmarks } from "@/lib/api/supabase-api";
+import {
+  getImportRowLabel,
+  parseBookmarkImportFile,
+  splitDuplicateImportRows,
+  type BookmarkImportRow,
+} from "@/lib/utils/bookmark-import";
+
+/**
+ * @file useBookmarkImport.ts
+ * @description 북마크 가져오기 훅
+ *
+ * JSON/CSV 파일을 읽어 관광지 콘텐츠ID로 매칭한 뒤 북마크로 추가하는 훅입니다.
+ *
+ * 주요 기능:
+ * 1. 파일 파싱 및 파일 안 중복 행 분리
+ * 2. 행 매칭 (Server Action, 20행씩)
+ * 3. 이미 북마크한 관광지는 중복으로 분류
+ * 4. 북마크 추가 (스냅샷, 여행 기록 포함)
+ * 5. 결과 보고 (추가, 중복, 찾을 수 없음, 실패)
+ *
+ * @see {@link /lib/utils/bookmark-import.ts} - 가져오기 파일 파싱
+ * @see {@link /actions/match-bookmark-import.ts} - 행 매칭 Server Action
+ */
+
+/** 한 번에 매칭 요청하는 행 수 (Server Action 배치 크기와 동일) */
+const IMPORT_MATCH_BATCH_SIZE = 20;
+
+/**
+ * 가져오기 결과 항목
+ */
+export interface BookmarkImportIssue {
+  /** 파일 안 행 번호 */
+  line: number;
+  /** 관광지명 또는 콘텐츠ID */
+  label: string;
+  /** 사유 */
+  reason: string;
+}
+
+/**
+ * 가져오기 결과
+ */
+export interface BookmarkImportReport {
+  /** 파일의 전체 행 수 */
+  total: number;
+  /** 추가한 북마크 수 */
+  added: number;
+  /** 중복 (파일 안 중복 또는 이미 북마크함) */
+  duplicates: BookmarkImportIssue[];
+  /** 관광지를 찾을 수 없는 행 */
+  unmatched: BookmarkImportIssue[];
+  /** 저장에 실패한 행 */
+  failed: BookmarkImportIssue[];
+}
+
+/**
+ * 북마크 가져오기 훅
+ *
+ * @returns 가져오기 함수 및 상태
+ */
+export function useBookmarkImport() {
+  const { userId } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const { locale } = useTourLocale();
+
+  const mutation = useMutation({
+    mutationFn: async (file: File): Promise<BookmarkImportReport> => {
+      if (!userId) {
+        throw new Error("로그인이 필요합니다.");
+      }
+
+      const { rows, skippedLines } = parseBookmarkImportFile(
+        await file.text(),
+        file.name,
+      );
+      const { unique, duplicates } = splitDuplicateImportRows(rows);
+      const toIssue = (row: BookmarkImportRow, reason: string) => ({
+        line: row.line,
+        label: getImportRowLabel(row),
+        reason,
+      });
+
+      const report: BookmarkImportReport = {
+        total: rows.length + skippedLines.length,
+        added: 0,
+        duplicates: duplicates.map((row) =>
+          toIssue(row, "파일 안에 같은 관광지가 있습니다."),
+        ),
+        unmatched: skippedLines.map((line) => ({
+          line,
+          label: "-",
+          reason: "콘텐츠ID와 관광지명이 없습니다.",
+        })),
+        failed: [],
+      };
+
+      // 이미 북마크한 관광지 (가져오는 중 추가한 관광지도 포함)
+      const existing = await getBookmarks(supabase, userId);
+      const bookmarkedIds = new Set(
+        existing.map((bookmark) => bookmark.content_id),
+      );
+
+      console.log("[useBookmarkImport] 가져오기 시작:", {
+        rows: unique.length,
+        duplicates: duplicates.length,
+      });
+
+      for (let i = 0; i < unique.length; i += IMPORT_MATCH_BATCH_SIZE) {
+        const batch = unique.slice(i, i + IMPORT_MATCH_BATCH_SIZE);
+        const matches = await matchBookmarkImport(
+          batch.map((row) => ({
+            key: String(row.line),
+            contentId: row.contentId,
+            title: row.title,
+            lat: row.lat,
+            lng: row.lng,
+          })),
+          locale,
+        );
+
+        for (const row of batch) {
+          const match = matches[String(row.line)];
+          if (!match) {
+            report.unmatched.push(
+              toIssue(row, "일치하는 관광지를 찾을 수 없습니다."),
+            );
+            continue;
+          }
+          if (bookmarkedIds.has(match.contentId)) {
+            report.duplicates.push(toIssue(row, "이미 북마크한 관광지입니다."));
+            continue;
+          }
+
+          try {
+            await addBookmark(supabase, {
+              user_id: userId,
+              content_id: match.contentId,
+              snapshot: match.snapshot,
+              journal: row.journal,
+            });
+            bookmarkedIds.add(match.contentId);
+            report.added += 1;
+          } catch (error) {
+            console.error(
+              `[useBookmarkImport] 북마크 추가 실패: ${match.contentId}`,
+              error,
+            );
+            report.failed.push(
+              toIssue(
+                row,
+                error instanceof Error ? error.message : "저장 실패",
+              ),
+            );
+          }
+        }
+      }
+
+      console.log("[useBookmarkImport] 가져오기 완료:", {
+        added: report.added,
+        duplicates: report.duplicates.length,
+        unmatched: report.unmatched.length,
+        failed: report.failed.length,
+      });
+      return report;
+    },
+    onSuccess: () => {
+      // 목록과 관광지별 북마크 여부를 모두 갱신
+      queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+    },
+    onError: (error) => {
+      console.error("[useBookmarkImport] 가져오기 실패:", error);
+    },
+  });
+
+  return {
+    importBookmarks: mutation.mutateAsync,
+    isImporting: mutation.isPending,
+    report: mutation.data ?? null,
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { updateBookmarkJournal } from "@/lib/api/supabase-api";
+import type { BookmarkJournalInput } from "@/lib/types/bookmark";
+
+/**
+ * @file useBookmarkJournal.ts
+ * @description 북마크 여행 기록 수정 훅
+ *
+ * React Query를 사용하여 북마크의 메모, 태그, 방문 상태, 방문일, 평점을 수정하는 훅입니다.
+ * 기록은 북마크 행에 저장되므로 수정 후 북마크 목록 쿼리를 무효화합니다.
+ *
+ * 주요 기능:
+ * 1. 여행 기록 수정 (useMutation)
+ *
+ * @see {@link /lib/api/supabase-api.ts} - 북마크 API 함수들
+ */
+
+/**
+ * 북마크 여행 기록 수정 훅
+ *
+ * @returns 수정 함수 및 상태
+ */
+export function useBookmarkJournal() {
+  const { userId } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      bookmarkId,
+      input,
+    }: {
+      bookmarkId: string;
+      input: BookmarkJournalInput;
+    }) => {
+      if (!userId) {
+        throw new Error("로그인이 필요합니다.");
+      }
+
+      console.log("[useBookmarkJournal] 여행 기록 수정:", {
+        bookmarkId,
+        status: input.status,
+      });
+      return await updateBookmarkJournal(supabase, userId, bookmarkId, input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bookmarks", userId] });
+    },
+    onError: (error) => {
+      console.error("[useBookmarkJournal] 여행 기록 수정 실패:", error);
+    },
+  });
+
+  return {
+    saveJournal: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
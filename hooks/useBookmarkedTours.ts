@@ -1,52 +1,37 @@
 "use client";
 
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
 import { useBookmarkList } from "@/hooks/useBookmarkList";
-import { getTourDetail } from "@/actions/get-tour-detail";
-import type { TourItem } from "@/lib/types/tour";
-import type { TourDetail } from "@/lib/types/tour";
+import { useTourLocale } from "@/components/providers/locale-provider";
+import { getBookmarkSnapshots } from "@/actions/get-bookmark-snapshots";
+import { updateBookmarkSnapshot } from "@/lib/api/supabase-api";
+import type { BookmarkWithTour } from "@/lib/types/bookmark";
+import {
+  isBookmarkSnapshotStale,
+  toBookmarkWithTour,
+} from "@/lib/utils/bookmark-snapshot";
 
 /**
  * @file useBookmarkedTours.ts
  * @description 북마크한 관광지 목록 조회 훅
  *
- * 북마크 목록을 가져와서 각 관광지의 상세 정보를 조회하는 훅입니다.
+ * 북마크 행에 저장된 관광지 스냅샷으로 목록을 만드는 훅입니다.
+ * 북마크 목록 쿼리 한 번으로 렌더링하며, 관광지별 상세 API를 호출하지 않습니다.
  *
  * 주요 기능:
- * 1. 북마크 목록 조회
- * 2. 각 북마크의 관광지 상세 정보 조회
- * 3. TourItem 형식으로 변환
+ * 1. 북마크 목록 조회 (스냅샷 컬럼 포함)
+ * 2. 스냅샷을 TourItem 형식으로 변환
+ * 3. 스냅샷이 없거나 오래된 북마크를 백그라운드에서 갱신 (한 번에 최대 20건)
  *
  * @see {@link /docs/prd.md#261-북마크-추가-기능} - PRD 문서의 북마크 섹션
+ * @see {@link /lib/utils/bookmark-snapshot.ts} - 스냅샷 변환 유틸리티
  */
 
-/**
- * TourDetail을 TourItem으로 변환
- *
- * @param detail - 관광지 상세 정보
- * @param bookmarkCreatedAt - 북마크 생성일시 (modifiedtime 대체)
- * @returns TourItem 형식의 관광지 정보
- */
-function convertDetailToItem(
-  detail: TourDetail,
-  bookmarkCreatedAt: string,
-): TourItem {
-  return {
-    contentid: detail.contentid,
-    contenttypeid: detail.contenttypeid,
-    title: detail.title,
-    addr1: detail.addr1,
-    addr2: detail.addr2,
-    areacode: "", // TourDetail에는 areacode가 없으므로 빈 문자열
-    mapx: detail.mapx,
-    mapy: detail.mapy,
-    firstimage: detail.firstimage,
-    firstimage2: detail.firstimage2,
-    tel: detail.tel,
-    modifiedtime: bookmarkCreatedAt.split("T")[0].replace(/-/g, ""), // 북마크 생성일을 modifiedtime으로 사용
-  };
-}
+/** 한 번에 갱신하는 최대 스냅샷 수 (Server Action 배치 크기와 동일) */
+const SNAPSHOT_REFRESH_BATCH_SIZE = 20;
 
 /**
  * 북마크한 관광지 목록 조회 훅
@@ -54,72 +39,80 @@ function convertDetailToItem(
  * @returns 북마크한 관광지 목록 및 상태
  */
 export function useBookmarkedTours() {
-  const {
-    bookmarks,
-    isLoading: isLoadingBookmarks,
-    error: bookmarkError,
-  } = useBookmarkList();
+  const { userId } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const { locale } = useTourLocale();
+  const { bookmarks, isLoading, error } = useBookmarkList();
 
-  // 각 북마크의 관광지 상세 정보 조회
-  const contentIds = useMemo(
-    () => bookmarks.map((bookmark) => bookmark.content_id),
+  // 이미 갱신을 시도한 북마크 ID (실패한 항목을 반복 호출하지 않도록)
+  const attemptedIdsRef = useRef<Set<string>>(new Set());
+
+  // 스냅샷이 있는 북마크만 목록에 표시
+  const bookmarkedTours = useMemo(
+    () =>
+      bookmarks
+        .map(toBookmarkWithTour)
+        .filter((item): item is BookmarkWithTour => item !== null),
     [bookmarks],
   );
 
-  const {
-    data: tourDetails,
-    isLoading: isLoadingTours,
-    error: tourError,
-  } = useQuery({
-    queryKey: ["bookmarked-tours", contentIds],
-    queryFn: async (): Promise<TourItem[]> => {
-      if (contentIds.length === 0) {
-        return [];
-      }
+  // 오래된 스냅샷 백그라운드 갱신
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
 
-      console.log(
-        "[useBookmarkedTours] 북마크한 관광지 상세 정보 조회 시작:",
-        contentIds.length,
-      );
+    const targets = bookmarks
+      .filter(
+        (bookmark) =>
+          isBookmarkSnapshotStale(bookmark) &&
+          !attemptedIdsRef.current.has(bookmark.id),
+      )
+      .slice(0, SNAPSHOT_REFRESH_BATCH_SIZE);
 
-      // 모든 관광지 상세 정보를 병렬로 조회
-      const detailPromises = bookmarks.map(async (bookmark) => {
-        try {
-          const detail = await getTourDetail(bookmark.content_id);
-          if (!detail) {
-            console.warn(
-              `[useBookmarkedTours] 관광지 상세 정보 없음: ${bookmark.content_id}`,
-            );
-            return null;
-          }
-          return convertDetailToItem(detail, bookmark.created_at);
-        } catch (error) {
-          console.error(
-            `[useBookmarkedTours] 관광지 상세 정보 조회 실패: ${bookmark.content_id}`,
-            error,
-          );
-          return null;
-        }
-      });
+    if (targets.length === 0) {
+      return;
+    }
 
-      const results = await Promise.all(detailPromises);
-      const tours = results.filter((tour): tour is TourItem => tour !== null);
+    targets.forEach((bookmark) => attemptedIdsRef.current.add(bookmark.id));
+    console.log("[useBookmarkedTours] 스냅샷 갱신 시작:", targets.length);
 
-      console.log(
-        "[useBookmarkedTours] 북마크한 관광지 상세 정보 조회 완료:",
-        tours.length,
+    const refreshSnapshots = async () => {
+      const snapshots = await getBookmarkSnapshots(
+        targets.map((bookmark) => ({
+          contentId: bookmark.content_id,
+          // 스냅샷이 없는 기존 북마크는 현재 로케일로 조회
+          locale: bookmark.snapshot_locale ?? locale,
+        })),
       );
 
-      return tours;
-    },
-    enabled: contentIds.length > 0 && !isLoadingBookmarks,
-    staleTime: 5 * 60 * 1000, // 5분
-    gcTime: 10 * 60 * 1000, // 10분
-  });
+      let updated = 0;
+      for (const bookmark of targets) {
+        const snapshot = snapshots[bookmark.content_id];
+        if (!snapshot) {
+          continue;
+        }
+        await updateBookmarkSnapshot(supabase, bookmark.id, snapshot);
+        updated += 1;
+      }
+
+      console.log("[useBookmarkedTours] 스냅샷 갱신 완료:", updated);
+      if (updated > 0) {
+        queryClient.invalidateQueries({ queryKey: ["bookmarks", userId] });
+      }
+    };
+
+    refreshSnapshots().catch((refreshError) => {
+      console.error("[useBookmarkedTours] 스냅샷 갱신 실패:", refreshError);
+    });
+  }, [bookmarks, userId, locale, supabase, queryClient]);
 
   return {
-    tours: tourDetails ?? [],
-    isLoading: isLoadingBookmarks || isLoadingTours,
-    error: bookmarkError || tourError,
+    bookmarkedTours,
+    // 스냅샷을 아직 저장하지 못해 목록에 표시되지 않은 북마크 수
+    pendingCount: bookmarks.length - bookmarkedTours.length,
+    isLoading,
+    error,
   };
 }
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { CategoryNode } from "@/lib/types/tour";
+import { getCategoryTree } from "@/actions/get-category-tree";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+
+/**
+ * @file useCategoryTree.ts
+ * @description 서비스 분류 트리 조회 훅
+ *
+ * React Query를 사용하여 대분류 → 중분류 → 소분류 트리를 조회하는 훅입니다.
+ * 분류코드는 거의 변경되지 않으므로 하루 동안 캐시를 유지하며,
+ * 필터와 카드 뱃지가 같은 캐시를 공유합니다.
+ */
+
+/**
+ * 서비스 분류 트리 조회 훅
+ *
+ * @param enabled - 쿼리 실행 여부 (기본값: true)
+ * @returns React Query 결과
+ */
+export function useCategoryTree(enabled: boolean = true) {
+  const { locale } = useTourLocale();
+  return useQuery({
+    queryKey: ["categories", "tree", locale],
+    queryFn: async (): Promise<CategoryNode[]> => {
+      return await getCategoryTree(locale);
+    },
+    enabled,
+    staleTime: 24 * 60 * 60 * 1000, // 24시간
+    gcTime: 24 * 60 * 60 * 1000, // 24시간
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { getMyCollectionInvites } from "@/actions/get-collection-invites";
+import { respondToCollectionInvite } from "@/actions/respond-collection-invite";
+import type { CollectionInvitePreview } from "@/lib/types/collection";
+
+/**
+ * @file useCollectionInvites.ts
+ * @description 받은 컬렉션 초대 훅
+ *
+ * React Query를 사용하여 로그인한 사용자가 이메일로 받은 컬렉션 초대를 조회하고
+ * 수락/거절하는 훅입니다. 초대 링크 페이지(/invites/[token])의 수락 버튼도 같은 훅을 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 받은 초대 목록 조회 (Server Action, 확인된 이메일 기준)
+ * 2. 초대 수락/거절 (수락하면 컬렉션 목록과 북마크 목록 갱신)
+ *
+ * @see {@link /actions/get-collection-invites.ts} - 초대 조회 Server Action
+ * @see {@link /actions/respond-collection-invite.ts} - 초대 수락/거절 Server Action
+ */
+
+/** 받은 초대가 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_INVITES: CollectionInvitePreview[] = [];
+
+/**
+ * 받은 컬렉션 초대 훅
+ *
+ * @returns 받은 초대 목록, 상태 및 수락/거절 함수
+ */
+export function useCollectionInvites() {
+  const { userId, isLoaded } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["my-collection-invites", userId];
+
+  // 받은 초대 목록 조회 (useQuery)
+  const { data: invites = NO_INVITES, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      console.log("[useCollectionInvites] 받은 초대 조회:", { userId });
+      return await getMyCollectionInvites();
+    },
+    enabled: Boolean(userId && isLoaded),
+    staleTime: 60 * 1000, // 1분
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  // 초대 수락/거절 (useMutation)
+  const respondMutation = useMutation({
+    mutationFn: async ({
+      token,
+      response,
+    }: {
+      token: string;
+      response: "accept" | "decline";
+    }) => {
+      console.log("[useCollectionInvites] 초대 응답:", { response });
+      const result = await respondToCollectionInvite(token, response);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.collectionId;
+    },
+    onSuccess: (_collectionId, { response }) => {
+      queryClient.invalidateQueries({ queryKey });
+      if (response === "accept") {
+        queryClient.invalidateQueries({
+          queryKey: ["bookmark-collections", userId],
+        });
+      }
+    },
+    onError: (mutationError) => {
+      console.error("[useCollectionInvites] 초대 응답 실패:", mutationError);
+    },
+  });
+
+  return {
+    invites,
+    isLoading,
+    isResponding: respondMutation.isPending,
+    respondToInvite: respondMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+
+/**
+ * @file useCollectionRealtime.ts
+ * @description 컬렉션 실시간 갱신 훅
+ *
+ * Supabase Realtime으로 컬렉션 변경 사항을 구독하여, 공유 컬렉션의 다른 멤버가
+ * 관광지를 담거나 빼고 순서를 바꾸면 북마크 목록에 바로 반영합니다.
+ *
+ * 주요 기능:
+ * 1. collection_items, collection_members, bookmark_collections 변경 구독
+ * 2. 변경이 연달아 오면 한 번만 다시 조회 (디바운스)
+ * 3. 구독 대상 컬렉션이 바뀌거나 언마운트되면 채널 해제
+ *
+ * 주의사항:
+ * - Realtime은 DELETE 이벤트에 필터를 적용하지 않으므로 삭제 이벤트는 전체를 받고
+ *   이전 행(REPLICA IDENTITY FULL)의 컬렉션 ID로 걸러냅니다.
+ *
+ * @see {@link /supabase/migrations/collection_sharing.sql} - Realtime publication 설정
+ */
+
+/** 변경 이벤트를 모아서 다시 조회하는 대기 시간 */
+const REALTIME_REFRESH_DELAY_MS = 300;
+
+/**
+ * 컬렉션 실시간 갱신 훅
+ *
+ * @param collectionIds - 구독할 컬렉션 ID 목록 (내 컬렉션 + 공유 컬렉션)
+ */
+export function useCollectionRealtime(collectionIds: string[]) {
+  const { userId } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  // 배열이 새로 만들어져도 같은 컬렉션이면 다시 구독하지 않도록 문자열 키 사용
+  const collectionKey = [...collectionIds].sort().join(",");
+
+  useEffect(() => {
+    if (!userId || !collectionKey) {
+      return;
+    }
+
+    const ids = collectionKey.split(",");
+    const idSet = new Set(ids);
+    const itemFilter = `collection_id=in.(${collectionKey})`;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRefresh = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        console.log("[useCollectionRealtime] 컬렉션 변경 감지, 다시 조회");
+        queryClient.invalidateQueries({
+          queryKey: ["bookmark-collections", userId],
+        });
+        queryClient.invalidateQueries({ queryKey: ["collection-members"] });
+      }, REALTIME_REFRESH_DELAY_MS);
+    };
+
+    // 삭제 이벤트는 필터 없이 받으므로 구독 중인 컬렉션인지 확인
+    const handleDelete =
+      (idColumn: "collection_id" | "id") =>
+      (payload: RealtimePostgresChangesPayload<Record<string, string>>) => {
+        const oldRow = payload.old as Record<string, string> | undefined;
+        if (oldRow && idSet.has(oldRow[idColumn])) {
+          scheduleRefresh();
+        }
+      };
+
+    const channel = supabase.channel(`collections:${userId}`);
+    for (const table of ["collection_items", "collection_members"]) {
+      channel
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table, filter: itemFilter },
+          scheduleRefresh,
+        )
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table, filter: itemFilter },
+          scheduleRefresh,
+        )
+        .on(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table },
+          handleDelete("collection_id"),
+        );
+    }
+    channel
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "bookmark_collections",
+          filter: `id=in.(${collectionKey})`,
+        },
+        scheduleRefresh,
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "bookmark_collections" },
+        handleDelete("id"),
+      )
+      .subscribe((status) => {
+        console.log("[useCollectionRealtime] 구독 상태:", {
+          status,
+          collections: ids.length,
+        });
+      });
+
+    return () => {
+      clearTimeout(refreshTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, queryClient, userId, collectionKey]);
+}
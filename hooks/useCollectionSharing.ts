@@ -0,0 +1,261 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import {
+  createCollectionInviteLink,
+  getCollectionInvites,
+  getCollectionMembers,
+  leaveCollection,
+  removeCollectionMember,
+  revokeCollectionInvite,
+  updateCollectionMemberRole,
+} from "@/lib/api/collection-share-api";
+import { inviteCollectionMember } from "@/actions/invite-collection-member";
+import type {
+  CollectionInvite,
+  CollectionMember,
+  CollectionMemberRole,
+} from "@/lib/types/collection";
+
+/**
+ * @file useCollectionSharing.ts
+ * @description 컬렉션 공유 관리 훅
+ *
+ * React Query를 사용하여 컬렉션 하나의 멤버와 초대를 조회/관리하는 훅입니다.
+ *
+ * 주요 기능:
+ * 1. 멤버 목록 조회 (소유자 포함)
+ * 2. 대기 중인 초대 목록 조회 (소유자만)
+ * 3. 이메일 초대, 초대 링크 만들기, 초대 취소 (useMutation)
+ * 4. 멤버 역할 변경/내보내기, 공유 컬렉션 나가기 (useMutation)
+ *
+ * @see {@link /lib/api/collection-share-api.ts} - 컬렉션 공유 API 함수들
+ * @see {@link /actions/invite-collection-member.ts} - 이메일 초대 Server Action
+ */
+
+/** 멤버가 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_MEMBERS: CollectionMember[] = [];
+
+/** 초대가 없을 때의 빈 목록 */
+const NO_INVITES: CollectionInvite[] = [];
+
+/**
+ * 컬렉션 공유 관리 훅
+ *
+ * @param collectionId - 컬렉션 ID
+ * @param options.isOwner - 소유자 여부 (소유자만 초대 목록 조회)
+ * @param options.enabled - 조회 여부 (다이얼로그가 열렸을 때만 조회)
+ * @returns 멤버/초대 목록, 상태 및 관리 함수들
+ */
+export function useCollectionSharing(
+  collectionId: string,
+  { isOwner, enabled = true }: { isOwner: boolean; enabled?: boolean },
+) {
+  const { userId, isLoaded } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const membersQueryKey = ["collection-members", collectionId];
+  const invitesQueryKey = ["collection-invites", collectionId];
+
+  // 멤버 목록 조회 (useQuery)
+  const {
+    data: members = NO_MEMBERS,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: membersQueryKey,
+    queryFn: async () => {
+      console.log("[useCollectionSharing] 멤버 목록 조회:", { collectionId });
+      return await getCollectionMembers(supabase, collectionId);
+    },
+    enabled: Boolean(userId && isLoaded && enabled),
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  // 대기 중인 초대 목록 조회 (소유자만)
+  const { data: invites = NO_INVITES } = useQuery({
+    queryKey: invitesQueryKey,
+    queryFn: async () => {
+      console.log("[useCollectionSharing] 초대 목록 조회:", { collectionId });
+      return await getCollectionInvites(supabase, collectionId);
+    },
+    enabled: Boolean(userId && isLoaded && enabled && isOwner),
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  const requireUserId = () => {
+    if (!userId) {
+      throw new Error("로그인이 필요합니다.");
+    }
+    return userId;
+  };
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: membersQueryKey });
+    // 탭의 공유 표시(멤버 수)도 갱신
+    queryClient.invalidateQueries({
+      queryKey: ["bookmark-collections", userId],
+    });
+  };
+
+  const invalidateInvites = () =>
+    queryClient.invalidateQueries({ queryKey: invitesQueryKey });
+
+  // 이메일 초대 (Server Action, 가입 여부와 관계없이 같은 응답)
+  const inviteByEmailMutation = useMutation({
+    mutationFn: async ({
+      email,
+      role,
+    }: {
+      email: string;
+      role: CollectionMemberRole;
+    }) => {
+      console.log("[useCollectionSharing] 이메일 초대:", {
+        collectionId,
+        role,
+      });
+      requireUserId();
+      const result = await inviteCollectionMember(collectionId, email, role);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.invite;
+    },
+    onSuccess: invalidateInvites,
+    onError: (mutationError) => {
+      console.error("[useCollectionSharing] 이메일 초대 실패:", mutationError);
+    },
+  });
+
+  // 초대 링크 만들기
+  const createLinkMutation = useMutation({
+    mutationFn: async (role: CollectionMemberRole) => {
+      console.log("[useCollectionSharing] 초대 링크 만들기:", {
+        collectionId,
+        role,
+      });
+      return await createCollectionInviteLink(
+        supabase,
+        requireUserId(),
+        collectionId,
+        role,
+      );
+    },
+    onSuccess: invalidateInvites,
+    onError: (mutationError) => {
+      console.error(
+        "[useCollectionSharing] 초대 링크 만들기 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 초대 취소
+  const revokeMutation = useMutation({
+    mutationFn: async (invite: CollectionInvite) => {
+      console.log("[useCollectionSharing] 초대 취소:", invite.id);
+      return await revokeCollectionInvite(supabase, requireUserId(), invite);
+    },
+    onSuccess: invalidateInvites,
+    onError: (mutationError) => {
+      console.error("[useCollectionSharing] 초대 취소 실패:", mutationError);
+    },
+  });
+
+  // 멤버 역할 변경
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({
+      memberUserId,
+      role,
+    }: {
+      memberUserId: string;
+      role: CollectionMemberRole;
+    }) => {
+      console.log("[useCollectionSharing] 멤버 역할 변경:", {
+        collectionId,
+        memberUserId,
+        role,
+      });
+      return await updateCollectionMemberRole(
+        supabase,
+        requireUserId(),
+        collectionId,
+        memberUserId,
+        role,
+      );
+    },
+    onSuccess: invalidateMembers,
+    onError: (mutationError) => {
+      console.error(
+        "[useCollectionSharing] 멤버 역할 변경 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 멤버 내보내기
+  const removeMemberMutation = useMutation({
+    mutationFn: async (memberUserId: string) => {
+      console.log("[useCollectionSharing] 멤버 내보내기:", {
+        collectionId,
+        memberUserId,
+      });
+      return await removeCollectionMember(
+        supabase,
+        requireUserId(),
+        collectionId,
+        memberUserId,
+      );
+    },
+    onSuccess: invalidateMembers,
+    onError: (mutationError) => {
+      console.error(
+        "[useCollectionSharing] 멤버 내보내기 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  // 공유 컬렉션 나가기
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      console.log("[useCollectionSharing] 공유 컬렉션 나가기:", collectionId);
+      return await leaveCollection(supabase, requireUserId(), collectionId);
+    },
+    onSuccess: invalidateMembers,
+    onError: (mutationError) => {
+      console.error(
+        "[useCollectionSharing] 공유 컬렉션 나가기 실패:",
+        mutationError,
+      );
+    },
+  });
+
+  return {
+    // 상태
+    members,
+    invites,
+    isLoading,
+    error,
+    isMutating:
+      inviteByEmailMutation.isPending ||
+      createLinkMutation.isPending ||
+      revokeMutation.isPending ||
+      updateRoleMutation.isPending ||
+      removeMemberMutation.isPending ||
+      leaveMutation.isPending,
+    // 함수
+    inviteByEmail: inviteByEmailMutation.mutateAsync,
+    createInviteLink: createLinkMutation.mutateAsync,
+    revokeInvite: revokeMutation.mutateAsync,
+    updateMemberRole: updateRoleMutation.mutateAsync,
+    removeMember: removeMemberMutation.mutateAsync,
+    leaveCollection: leaveMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { TourItem } from "@/lib/types/tour";
+import { searchFestivalTours } from "@/actions/search-festival";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+
+/**
+ * @file useFestivalList.ts
+ * @description 축제/행사 목록 조회 훅
+ *
+ * React Query를 사용하여 행사 기간으로 축제공연행사를 조회하는 훅입니다.
+ * Server Action을 통해 서버 사이드에서 searchFestival2 API를 호출합니다.
+ */
+
+interface UseFestivalListOptions {
+  /** 행사 시작일 (YYYYMMDD, 기본값: 오늘) */
+  eventStartDate?: string;
+  /** 행사 종료일 (YYYYMMDD) */
+  eventEndDate?: string;
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  enabled?: boolean; // 쿼리 실행 여부 제어
+}
+
+/**
+ * 축제/행사 목록 조회 훅
+ *
+ * @param options - 조회 옵션
+ * @returns React Query 결과
+ */
+export function useFestivalList(options: UseFestivalListOptions = {}) {
+  const { enabled = true, ...queryOptions } = options;
+  const { locale } = useTourLocale();
+  return useQuery({
+    queryKey: ["tours", "festival", locale, queryOptions],
+    queryFn: async (): Promise<TourItem[]> => {
+      return await searchFestivalTours({
+        eventStartDate: queryOptions.eventStartDate,
+        eventEndDate: queryOptions.eventEndDate,
+        areaCode: queryOptions.areaCode,
+        sigunguCode: queryOptions.sigunguCode,
+        numOfRows: queryOptions.numOfRows ?? 10,
+        pageNo: queryOptions.pageNo ?? 1,
+        locale,
+      });
+    },
+    enabled,
+    staleTime: 60 * 1000, // 1분
+    gcTime: 5 * 60 * 1000, // 5분
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  buildHomeSearchParams,
+  parseHomeSearchParams,
+  type HomeUrlState,
+} from "@/lib/utils/home-search-params";
+
+/**
+ * @file useHomeUrlSync.ts
+ * @description 홈페이지 상태와 URL 쿼리스트링 동기화 훅
+ *
+ * 홈페이지의 필터/검색/정렬/페이지/북마크 필터 상태를 URL에 반영하고,
+ * 브라우저 뒤로가기/앞으로가기로 URL이 바뀌면 상태를 복원합니다.
+ *
+ * 주요 기능:
+ * 1. 상태 변경 시 history.pushState로 URL 갱신 (새로고침/링크 공유 시 상태 유지)
+ * 2. 검색어 입력 중에는 입력이 멈춘 뒤 한 번만 기록 (키 입력마다 히스토리가 쌓이지 않도록)
+ * 3. 뒤로가기/앞으로가기로 URL이 바뀌면 onRestore로 상태 복원
+ * 4. 첫 진입 시 예전 파라미터(areaCode, contentTypeId)를 현재 형식으로 교체
+ */
+
+/** 검색어 변경을 히스토리에 기록하기 전 대기 시간 (ms) */
+const KEYWORD_PUSH_DELAY = 500;
+
+/**
+ * 쿼리스트링을 포함한 홈페이지 URL 생성
+ */
+function toHomeUrl(queryString: string): string {
+  return queryString
+    ? `${window.location.pathname}?${queryString}`
+    : window.location.pathname;
+}
+
+/**
+ * 홈페이지 상태와 URL 쿼리스트링 동기화 훅
+ *
+ * @param state - 현재 홈페이지 상태
+ * @param onRestore - URL에서 복원한 상태를 적용하는 함수
+ */
+export function useHomeUrlSync(
+  state: HomeUrlState,
+  onRestore: (state: HomeUrlState) => void,
+) {
+  const searchParams = useSearchParams();
+  const queryString = buildHomeSearchParams(state);
+  const queryStringRef = useRef(queryString);
+  const onRestoreRef = useRef(onRestore);
+  const isFirstSyncRef = useRef(true);
+
+  useEffect(() => {
+    queryStringRef.current = queryString;
+    onRestoreRef.current = onRestore;
+  });
+
+  // 상태 → URL
+  useEffect(() => {
+    const currentState = parseHomeSearchParams(
+      new URLSearchParams(window.location.search),
+    );
+    const currentQueryString = buildHomeSearchParams(currentState);
+
+    // 첫 진입: 상태는 URL에서 복원했으므로 형식만 정리 (히스토리 추가 없음)
+    if (isFirstSyncRef.current) {
+      isFirstSyncRef.current = false;
+      if (window.location.search.replace(/^\?/, "") !== queryString) {
+        window.history.replaceState(null, "", toHomeUrl(queryString));
+      }
+      return;
+    }
+
+    if (currentQueryString === queryString) {
+      return;
+    }
+
+    // 검색어만 바뀐 경우 입력이 멈춘 뒤 기록
+    const isKeywordOnlyChange =
+      buildHomeSearchParams({ ...currentState, keyword: state.keyword }) ===
+      queryString;
+
+    if (!isKeywordOnlyChange) {
+      window.history.pushState(null, "", toHomeUrl(queryString));
+      console.log("[useHomeUrlSync] URL 갱신:", queryString);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      window.history.pushState(null, "", toHomeUrl(queryString));
+      console.log("[useHomeUrlSync] 검색어 URL 갱신:", queryString);
+    }, KEYWORD_PUSH_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [queryString, state.keyword]);
+
+  // URL → 상태 (뒤로가기/앞으로가기)
+  useEffect(() => {
+    const urlState = parseHomeSearchParams(searchParams);
+    if (buildHomeSearchParams(urlState) === queryStringRef.current) {
+      return;
+    }
+    console.log("[useHomeUrlSync] URL에서 상태 복원:", searchParams.toString());
+    onRestoreRef.current(urlState);
+  }, [searchParams]);
+}
@@ -11,6 +11,7 @@ import {
 } from "@/lib/utils/marker-clusterer";
 import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
 import { createMarkerIcon } from "@/lib/utils/marker-icon";
+import { getCurrentPosition } from "@/lib/utils/geolocation";
 import type { TourItem } from "@/lib/types/tour";
 
 /**
@@ -30,10 +31,14 @@ import type { TourItem } from "@/lib/types/tour";
  * 7. 로딩 상태 관리
  * 8. 에러 상태 관리
  * 9. 클린업 로직 (컴포넌트 unmount 시)
+ * 10. 코드에 의한 지도 이동 여부 (사용자 이동과 구분, 다음 idle 또는 시간 초과 시 해제)
  *
  * @see {@link /docs/prd.md#22-naver-지도-연동} - PRD 문서의 지도 연동 섹션
  */
 
+/** 코드에 의한 이동 표시를 해제하는 최대 대기 시간 (idle 이벤트가 오지 않는 경우 대비) */
+const PROGRAMMATIC_MOVE_TIMEOUT_MS = 500;
+
 /**
  * 지도 초기화 옵션
  */
@@ -87,6 +92,8 @@ export interface UseNaverMapReturn {
   moveToCurrentLocation: () => Promise<void>;
   /** 현재 위치 마커 제거 */
   clearCurrentLocationMarker: () => void;
+  /** 코드에 의한 지도 이동 중인지 확인 (moveTo, moveToTour, moveToCurrentLocation) */
+  isProgrammaticMove: () => boolean;
   /** 지도 재초기화 */
   reinitialize: () => void;
 }
@@ -164,6 +171,12 @@ export function useNaverMap(
   const isInitializedRef = useRef(false); // 초기화 완료 여부 추적
   const clusterOptionsRef = useRef(clusterOptions); // 클러스터 옵션 참조
   const onMapLoadRef = useRef(onMapLoad); // 지도 로드 핸들러 참조
+  const isProgrammaticMoveRef = useRef(false); // 코드에 의한 지도 이동 중 여부
+  const programmaticMoveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+  const programmaticMoveListenerRef =
+    useRef<naver.maps.MapEventListener | null>(null);
 
   // 옵션 업데이트
   useEffect(() => {
@@ -332,23 +345,77 @@ export function useNaverMap(
   }, [containerId, center.lat, center.lng, zoom, enableClustering]);
 
   /**
-   * 지도 중심 이동
+   * 코드에 의한 지도 이동 표시 해제
    */
-  const moveTo = useCallback((lat: number, lng: number, zoomLevel?: number) => {
+  const clearProgrammaticMove = useCallback(() => {
+    isProgrammaticMoveRef.current = false;
+    if (programmaticMoveTimerRef.current) {
+      clearTimeout(programmaticMoveTimerRef.current);
+      programmaticMoveTimerRef.current = null;
+    }
+    if (programmaticMoveListenerRef.current && naverMapsRef.current) {
+      naverMapsRef.current.Event.removeListener(
+        programmaticMoveListenerRef.current,
+      );
+    }
+    programmaticMoveListenerRef.current = null;
+  }, []);
+
+  /**
+   * 코드에 의한 지도 이동 표시
+   * 다음 idle 이벤트에서 해제하며, 이미 같은 위치라 idle이 오지 않으면 시간 초과로 해제
+   */
+  const markProgrammaticMove = useCallback(() => {
+    clearProgrammaticMove();
     if (!mapRef.current || !naverMapsRef.current) {
-      console.warn("[useNaverMap] 지도가 초기화되지 않았습니다");
       return;
     }
+    isProgrammaticMoveRef.current = true;
+    programmaticMoveListenerRef.current = naverMapsRef.current.Event.once(
+      mapRef.current,
+      "idle",
+      clearProgrammaticMove,
+    );
+    programmaticMoveTimerRef.current = setTimeout(
+      clearProgrammaticMove,
+      PROGRAMMATIC_MOVE_TIMEOUT_MS,
+    );
+  }, [clearProgrammaticMove]);
 
-    const position = new naverMapsRef.current.LatLng(lat, lng);
-    mapRef.current.setCenter(position);
+  /**
+   * 코드에 의한 지도 이동 중인지 확인
+   */
+  const isProgrammaticMove = useCallback(
+    () => isProgrammaticMoveRef.current,
+    [],
+  );
 
-    if (zoomLevel !== undefined) {
-      mapRef.current.setZoom(zoomLevel);
-    }
+  /**
+   * 지도 중심 이동
+   */
+  const moveTo = useCallback(
+    (lat: number, lng: number, zoomLevel?: number) => {
+      if (!mapRef.current || !naverMapsRef.current) {
+        console.warn("[useNaverMap] 지도가 초기화되지 않았습니다");
+        return;
+      }
 
-    console.log("[useNaverMap] 지도 중심 이동:", { lat, lng, zoom: zoomLevel });
-  }, []);
+      const position = new naverMapsRef.current.LatLng(lat, lng);
+      markProgrammaticMove();
+      mapRef.current.setCenter(position);
+
+      if (zoomLevel !== undefined) {
+        mapRef.current.setZoom(zoomLevel);
+      }
+
+      console.log("[useNaverMap] 지도 중심 이동:", {
+        lat,
+        lng,
+        zoom: zoomLevel,
+      });
+    },
+    [markProgrammaticMove],
+  );
 
   /**
    * 특정 관광지로 이동
@@ -551,85 +618,47 @@ export function useNaverMap(
       throw new Error("지도가 초기화되지 않았습니다");
     }
 
-    return new Promise((resolve, reject) => {
-      if (!navigator.geolocation) {
-        const error = new Error(
-          "이 브라우저는 위치 서비스를 지원하지 않습니다",
-        );
-        console.error("[useNaverMap]", error.message);
-        reject(error);
-        return;
-      }
-
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude } = position.coords;
-          const naverMaps = naverMapsRef.current!;
-          const map = mapRef.current!;
-
-          console.log("[useNaverMap] 현재 위치:", { latitude, longitude });
+    const { lat: latitude, lng: longitude } = await getCurrentPosition();
+    const naverMaps = naverMapsRef.current;
+    const map = mapRef.current;
+    if (!naverMaps || !map) {
+      throw new Error("지도가 초기화되지 않았습니다");
+    }
 
-          // 지도 중심 이동
-          const latLng = new naverMaps.LatLng(latitude, longitude);
-          map.setCenter(latLng);
-          map.setZoom(15);
+    // 지도 중심 이동
+    const latLng = new naverMaps.LatLng(latitude, longitude);
+    markProgrammaticMove();
+    map.setCenter(latLng);
+    map.setZoom(15);
 
-          // 기존 현재 위치 마커 제거
-          if (currentLocationMarkerRef.current) {
-            currentLocationMarkerRef.current.setMap(null);
-          }
-
-          // 현재 위치 마커 생성
-          const marker = new naverMaps.Marker({
-            position: latLng,
-            map,
-            icon: {
-              content: `
-                <div style="
-                  width: 20px;
-                  height: 20px;
-                  background-color: #4285f4;
-                  border-radius: 50%;
-                  border: 3px solid white;
-                  box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-                "></div>
-              `,
-              anchor: new naverMaps.Point(10, 10),
-            },
-            zIndex: 1000, // 다른 마커보다 위에 표시
-          });
-
-          currentLocationMarkerRef.current = marker;
-          console.log("[useNaverMap] 현재 위치 마커 표시 완료");
-
-          resolve();
-        },
-        (error) => {
-          console.error("[useNaverMap] 위치 가져오기 실패:", error);
-          let errorMessage = "위치를 가져올 수 없습니다.";
-
-          switch (error.code) {
-            case error.PERMISSION_DENIED:
-              errorMessage = "위치 권한이 거부되었습니다.";
-              break;
-            case error.POSITION_UNAVAILABLE:
-              errorMessage = "위치 정보를 사용할 수 없습니다.";
-              break;
-            case error.TIMEOUT:
-              errorMessage = "위치 요청 시간이 초과되었습니다.";
-              break;
-          }
+    // 기존 현재 위치 마커 제거
+    if (currentLocationMarkerRef.current) {
+      currentLocationMarkerRef.current.setMap(null);
+    }
 
-          reject(new Error(errorMessage));
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 0,
-        },
-      );
+    // 현재 위치 마커 생성
+    const marker = new naverMaps.Marker({
+      position: latLng,
+      map,
+      icon: {
+        content: `
+          <div style="
+            width: 20px;
+            height: 20px;
+            background-color: #4285f4;
+            border-radius: 50%;
+            border: 3px solid white;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+          "></div>
+        `,
+        anchor: new naverMaps.Point(10, 10),
+      },
+      zIndex: 1000, // 다른 마커보다 위에 표시
     });
-  }, []);
+
+    currentLocationMarkerRef.current = marker;
+    console.log("[useNaverMap] 현재 위치 마커 표시 완료");
+  }, [markProgrammaticMove]);
 
   /**
    * 현재 위치 마커 제거
@@ -720,6 +749,9 @@ export function useNaverMap(
         currentLocationMarkerRef.current = null;
       }
 
+      // 코드에 의한 이동 표시 정리
+      clearProgrammaticMove();
+
       // 지도 정리
       if (mapRef.current) {
         mapRef.current = null;
@@ -743,6 +775,7 @@ export function useNaverMap(
     closeInfoWindow,
     moveToCurrentLocation,
     clearCurrentLocationMarker,
+    isProgrammaticMove,
     reinitialize,
   };
 }
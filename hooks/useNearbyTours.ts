@@ -0,0 +1,81 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { TourItem } from "@/lib/types/tour";
+import { getNearbyTours } from "@/actions/get-nearby-tours";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+
+/**
+ * @file useNearbyTours.ts
+ * @description 내 주변 관광지 조회 훅
+ *
+ * React Query를 사용하여 기준 좌표 주변의 관광지를 조회하는 훅입니다.
+ * Server Action을 통해 서버 사이드에서 locationBasedList2 API를 호출합니다.
+ * 좌표(location)가 없으면 쿼리를 실행하지 않습니다.
+ */
+
+interface UseNearbyToursOptions {
+  /** 기준 좌표 (WGS84) */
+  location?: { lat: number; lng: number } | null;
+  /** 검색 반경 (미터, 기본값: 5000) */
+  radius?: number;
+  contentTypeId?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  enabled?: boolean; // 쿼리 실행 여부 제어
+}
+
+/**
+ * 내 주변 관광지 조회 훅
+ *
+ * @param options - 조회 옵션
+ * @returns React Query 결과
+ */
+export function useNearbyTours(options: UseNearbyToursOptions) {
+  const {
+    location,
+    radius = 5000,
+    contentTypeId,
+    numOfRows = 10,
+    pageNo = 1,
+    enabled = true,
+  } = options;
+  const { locale } = useTourLocale();
+
+  return useQuery({
+    queryKey: [
+      "tours",
+      "nearby",
+      locale,
+      {
+        lat: location?.lat,
+        lng: location?.lng,
+        radius,
+        contentTypeId,
+        numOfRows,
+        pageNo,
+      },
+    ],
+    queryFn: async (): Promise<TourItem[]> => {
+      if (!location) {
+        return [];
+      }
+      return await getNearbyTours({
+        lat: location.lat,
+        lng: location.lng,
+        radius,
+        contentTypeId,
+        numOfRows,
+        pageNo,
+        locale,
+      });
+    },
+    enabled: enabled && Boolean(location),
+    staleTime: 60 * 1000, // 1분
+    gcTime: 5 * 60 * 1000, // 5분
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getTourOpeningHours } from "@/actions/get-tour-opening-hours";
+import type { OpeningStatus, TourItem } from "@/lib/types/tour";
+import {
+  getOpeningStatus,
+  OPENING_HOURS_CONTENT_TYPE_IDS,
+  parseOpeningHoursText,
+} from "@/lib/utils/opening-hours-parser";
+
+/**
+ * @file useOpeningHours.ts
+ * @description 관광지 목록 운영 상태 훅
+ *
+ * 이미 받은 관광지 목록의 운영시간 문구를 한 번에 조회해 현재 영업 상태를 계산하고,
+ * "지금 영업 중" 필터를 적용하는 훅입니다.
+ * 영업 상태는 1분마다 다시 계산하므로 화면을 켜 둔 채로 마감 시각이 지나도 배지가 바뀝니다.
+ * 운영시간을 해석할 수 없는 관광지(영업 상태 "unknown")는 필터를 켜면 제외합니다.
+ *
+ * 주의사항:
+ * - 필터는 전달받은 목록(현재 페이지)에만 적용됩니다. 다른 페이지의 영업 중인 관광지는
+ *   해당 페이지로 이동해야 표시되므로, 페이지네이션은 필터 적용 전 항목 수를 기준으로 합니다.
+ *
+ * @see {@link /lib/utils/opening-hours-parser.ts} - 운영시간 파서
+ * @see {@link /hooks/usePetTourFilter.ts} - 같은 방식의 반려동물 필터
+ */
+
+/** 영업 상태를 다시 계산하는 주기 (1분) */
+const STATUS_REFRESH_INTERVAL = 60 * 1000;
+
+interface OpeningHoursOptions {
+  tours: TourItem[];
+  openNow?: boolean;
+  enabled?: boolean;
+}
+
+/**
+ * 관광지 목록 운영 상태 훅
+ *
+ * @param options - 필터 옵션
+ * @returns 필터링된 관광지 목록 및 영업 상태
+ */
+export function useOpeningHours({
+  tours,
+  openNow,
+  enabled = true,
+}: OpeningHoursOptions) {
+  const [now, setNow] = useState(() => new Date());
+
+  // 영업 상태 주기적 갱신
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const timer = setInterval(
+      () => setNow(new Date()),
+      STATUS_REFRESH_INTERVAL,
+    );
+    return () => clearInterval(timer);
+  }, [enabled]);
+
+  // 운영시간 정보가 있는 관광지만 조회 (쿼리 키로 사용)
+  const targets = useMemo(
+    () =>
+      tours
+        .filter((tour) =>
+          OPENING_HOURS_CONTENT_TYPE_IDS.includes(tour.contenttypeid),
+        )
+        .map((tour) => ({
+          contentId: tour.contentid,
+          contentTypeId: tour.contenttypeid,
+        })),
+    [tours],
+  );
+
+  // 목록 전체의 운영시간 문구를 한 번에 조회
+  const openingHoursQuery = useQuery({
+    queryKey: [
+      "tours",
+      "opening-hours",
+      targets.map((target) => target.contentId),
+    ],
+    queryFn: async () => {
+      console.log(
+        `[useOpeningHours] 운영시간 조회: ${targets.length}개 관광지`,
+      );
+      return await getTourOpeningHours(targets);
+    },
+    enabled: enabled && targets.length > 0,
+    staleTime: 30 * 60 * 1000, // 30분 (운영시간은 자주 바뀌지 않음)
+    gcTime: 60 * 60 * 1000, // 1시간
+    retry: 1,
+  });
+
+  // 운영시간 해석 결과 (문구가 바뀔 때만 다시 해석)
+  const openingHoursMap = useMemo(
+    () =>
+      new Map(
+        (openingHoursQuery.data ?? []).map((entry) => [
+          entry.contentId,
+          parseOpeningHoursText(entry.usetime, entry.restdate),
+        ]),
+      ),
+    [openingHoursQuery.data],
+  );
+
+  // 영업 상태 맵 생성
+  const openingStatusMap = useMemo(() => {
+    const map = new Map<string, OpeningStatus>();
+    openingHoursMap.forEach((hours, contentId) => {
+      map.set(contentId, getOpeningStatus(hours, now));
+    });
+    return map;
+  }, [openingHoursMap, now]);
+
+  // 필터 활성화 여부
+  const isOpenNowEnabled = enabled && Boolean(openNow);
+
+  // 필터링된 관광지 목록
+  const filteredTours = useMemo(() => {
+    // 필터가 활성화되지 않았거나 아직 조회 중이면 원본 목록 반환
+    if (!isOpenNowEnabled || !openingHoursQuery.data) {
+      return tours;
+    }
+
+    const filtered = tours.filter((tour) => {
+      const state = openingStatusMap.get(tour.contentid)?.state;
+      return state === "open" || state === "closing_soon";
+    });
+
+    console.log("[useOpeningHours] 필터링 결과:", {
+      원본_개수: tours.length,
+      필터링_후: filtered.length,
+      운영시간_맵_크기: openingHoursMap.size,
+    });
+
+    return filtered;
+  }, [
+    tours,
+    isOpenNowEnabled,
+    openingHoursQuery.data,
+    openingStatusMap,
+    openingHoursMap.size,
+  ]);
+
+  // 로딩 상태 (필터가 활성화된 경우에만 로딩 상태 확인)
+  const isLoading = isOpenNowEnabled && openingHoursQuery.isLoading;
+
+  return {
+    filteredTours,
+    openingStatusMap,
+    isLoading,
+  };
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { getPetFriendlyTours } from "@/actions/get-pet-friendly-tours";
+import type { PetFriendlyTourPage } from "@/lib/types/tour-mirror";
+
+/**
+ * @file usePetFriendlyTours.ts
+ * @description 반려동물 동반 가능 관광지 조회 훅
+ *
+ * React Query를 사용하여 반려동물 인덱스에서 동반 가능 관광지를 조회하는 훅입니다.
+ * 관광지마다 반려동물 정보를 조회하지 않고 인덱스 한 번 조회로 페이지와 전체 개수를 받습니다.
+ * 인덱스를 사용할 수 없으면 서버에서 detailPetTour2 직접 조회로 대체합니다.
+ *
+ * @see {@link /docs/prd.md#25-반려동물-동반-여행} - PRD 문서의 반려동물 동반 여행 섹션
+ */
+
+interface UsePetFriendlyToursOptions {
+  areaCode?: string;
+  sigunguCode?: string;
+  contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
+  petSize?: "small" | "medium" | "large"; // 반려동물 크기
+  petType?: "dog" | "cat"; // 반려동물 종류
+  petPlace?: "indoor" | "outdoor"; // 실내/실외
+  numOfRows?: number;
+  pageNo?: number;
+  enabled?: boolean; // 쿼리 실행 여부 제어
+}
+
+/**
+ * 반려동물 동반 가능 관광지 조회 훅
+ *
+ * @param options - 조회 옵션
+ * @returns React Query 결과 (현재 페이지 항목과 전체 개수)
+ */
+export function usePetFriendlyTours(options: UsePetFriendlyToursOptions = {}) {
+  const { enabled = true, ...queryOptions } = options;
+
+  return useQuery({
+    queryKey: ["tours", "pet-friendly", queryOptions],
+    queryFn: async (): Promise<PetFriendlyTourPage> => {
+      return await getPetFriendlyTours({
+        ...queryOptions,
+        numOfRows: queryOptions.numOfRows ?? 12,
+        pageNo: queryOptions.pageNo ?? 1,
+      });
+    },
+    enabled,
+    staleTime: 60 * 1000, // 1분
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { createPet, deletePet, getPets, updatePet } from "@/lib/api/pet-api";
+import type { Pet, PetInput } from "@/lib/types/pet";
+
+/**
+ * @file usePets.ts
+ * @description 반려동물 프로필 훅
+ *
+ * React Query를 사용하여 로그인한 사용자의 반려동물 프로필을 조회/관리하는 훅입니다.
+ * 홈 필터, 관광지 카드, 상세페이지가 같은 쿼리 캐시를 공유합니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 목록 조회 (useQuery, 로그인하지 않으면 빈 목록)
+ * 2. 반려동물 추가/수정/삭제 (useMutation)
+ *
+ * @see {@link /lib/api/pet-api.ts} - 반려동물 프로필 API 함수들
+ */
+
+/** 반려동물이 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_PETS: Pet[] = [];
+
+/**
+ * 반려동물 프로필 훅
+ *
+ * @returns 반려동물 목록, 상태 및 관리 함수들
+ */
+export function usePets() {
+  const { userId, isLoaded } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const queryKey = ["pets", userId];
+
+  // 반려동물 목록 조회 (useQuery)
+  const {
+    data: pets = NO_PETS,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!userId || !isLoaded) {
+        return [];
+      }
+
+      console.log("[usePets] 반려동물 목록 조회:", { userId });
+      return await getPets(supabase, userId);
+    },
+    enabled: Boolean(userId && isLoaded),
+    staleTime: 5 * 60 * 1000, // 5분
+    gcTime: 10 * 60 * 1000, // 10분
+    retry: 1,
+  });
+
+  const requireUserId = () => {
+    if (!userId) {
+      throw new Error("로그인이 필요합니다.");
+    }
+    return userId;
+  };
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  // 반려동물 추가 (useMutation)
+  const createMutation = useMutation({
+    mutationFn: async (input: PetInput) => {
+      console.log("[usePets] 반려동물 추가:", input);
+      return await createPet(supabase, requireUserId(), input);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error("[usePets] 반려동물 추가 실패:", mutationError);
+    },
+  });
+
+  // 반려동물 수정 (useMutation)
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: PetInput }) => {
+      console.log("[usePets] 반려동물 수정:", { id, input });
+      return await updatePet(supabase, requireUserId(), id, input);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error("[usePets] 반려동물 수정 실패:", mutationError);
+    },
+  });
+
+  // 반려동물 삭제 (useMutation)
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      console.log("[usePets] 반려동물 삭제:", id);
+      return await deletePet(supabase, requireUserId(), id);
+    },
+    onSuccess,
+    onError: (mutationError) => {
+      console.error("[usePets] 반려동물 삭제 실패:", mutationError);
+    },
+  });
+
+  return {
+    // 상태
+    pets,
+    isLoading,
+    error,
+    isMutating:
+      createMutation.isPending ||
+      updateMutation.isPending ||
+      deleteMutation.isPending,
+    // 인증 상태
+    isAuthenticated: Boolean(userId && isLoaded),
+    // 함수
+    createPet: createMutation.mutateAsync,
+    updatePet: updateMutation.mutateAsync,
+    deletePet: deleteMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import {
+  getPublicLists,
+  publishList,
+  setPublicListPublished,
+} from "@/lib/api/public-list-api";
+import type { PublicList, PublishListInput } from "@/lib/types/public-list";
+
+/**
+ * @file usePublicLists.ts
+ * @description 공개 북마크 리스트 훅
+ *
+ * React Query를 사용하여 로그인한 사용자의 공개 리스트를 조회/관리하는 훅입니다.
+ *
+ * 주요 기능:
+ * 1. 내 공개 리스트 목록 조회 (useQuery, 조회수 포함)
+ * 2. 공개 (useMutation, 처음이면 새 주소 생성)
+ * 3. 공개 중단/재공개 (useMutation)
+ *
+ * @see {@link /lib/api/public-list-api.ts} - 공개 리스트 API 함수들
+ */
+
+/** 공개 리스트가 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_PUBLIC_LISTS: PublicList[] = [];
+
+/**
+ * 공개 북마크 리스트 훅
+ *
+ * @returns 공개 리스트 목록, 상태 및 관리 함수들
+ */
+export function usePublicLists() {
+  const { userId, isLoaded } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const queryClient = useQueryClient();
+  const queryKey = ["public-lists", userId];
+
+  // 공개 리스트 목록 조회 (useQuery)
+  const {
+    data: publicLists = NO_PUBLIC_LISTS,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      if (!userId || !isLoaded) {
+        return [];
+      }
+
+      console.log("[usePublicLists] 공개 리스트 목록 조회:", { userId });
+      return await getPublicLists(supabase, userId);
+    },
+    enabled: Boolean(userId && isLoaded),
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  const requireUserId = () => {
+    if (!userId) {
+      throw new Error("로그인이 필요합니다.");
+    }
+    return userId;
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  // 공개
+  const publishMutation = useMutation({
+    mutationFn: async (input: PublishListInput) => {
+      console.log("[usePublicLists] 공개:", input);
+      return await publishList(supabase, requireUserId(), input);
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error("[usePublicLists] 공개 실패:", error);
+    },
+  });
+
+  // 공개 중단/재공개
+  const setPublishedMutation = useMutation({
+    mutationFn: async ({
+      listId,
+      isPublished,
+    }: {
+      listId: string;
+      isPublished: boolean;
+    }) => {
+      console.log("[usePublicLists] 공개 여부 변경:", { listId, isPublished });
+      return await setPublicListPublished(
+        supabase,
+        requireUserId(),
+        listId,
+        isPublished,
+      );
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      console.error("[usePublicLists] 공개 여부 변경 실패:", error);
+    },
+  });
+
+  /**
+   * 대상(전체 북마크 또는 컬렉션)의 공개 리스트 찾기
+   *
+   * @param collectionId - 컬렉션 ID (null이면 전체 북마크)
+   * @returns 공개 리스트 (없으면 undefined)
+   */
+  const findPublicList = (collectionId: string | null) =>
+    publicLists.find((list) => list.collection_id === collectionId);
+
+  return {
+    publicLists,
+    isLoading,
+    error,
+    findPublicList,
+    isMutating: publishMutation.isPending || setPublishedMutation.isPending,
+    publishList: publishMutation.mutateAsync,
+    setPublished: setPublishedMutation.mutateAsync,
+  };
+}
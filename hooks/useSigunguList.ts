@@ -0,0 +1,62 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { AreaCodeItem } from "@/lib/types/tour";
+import { getSigunguList } from "@/actions/get-sigungu-list";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+
+/**
+ * @file useSigunguList.ts
+ * @description 시군구 목록 조회 훅
+ *
+ * React Query를 사용하여 시/도별 시군구 목록을 조회하는 훅입니다.
+ * 지역코드는 거의 변경되지 않으므로 하루 동안 캐시를 유지합니다.
+ *
+ * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 지역 필터 섹션
+ */
+
+/**
+ * 시군구 목록 조회 훅
+ *
+ * @param areaCode - 지역코드 (시/도, 없으면 쿼리 비활성화)
+ * @returns React Query 결과
+ */
+export function useSigunguList(areaCode: string | undefined) {
+  const { locale } = useTourLocale();
+  return useQuery({
+    queryKey: ["areas", "sigungu", areaCode, locale],
+    queryFn: async (): Promise<AreaCodeItem[]> => {
+      if (!areaCode) {
+        return [];
+      }
+      return await getSigunguList(areaCode, locale);
+    },
+    enabled: Boolean(areaCode),
+    staleTime: 24 * 60 * 60 * 1000, // 24시간
+    gcTime: 24 * 60 * 60 * 1000, // 24시간
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
+
+/**
+ * 시군구명 조회 훅
+ *
+ * 카드 등에서 시군구코드를 이름으로 표시할 때 사용합니다.
+ * 같은 시/도의 시군구 목록은 React Query 캐시를 공유하므로 한 번만 조회합니다.
+ *
+ * @param areaCode - 지역코드 (시/도)
+ * @param sigunguCode - 시군구코드
+ * @returns 시군구명 (찾지 못하면 undefined)
+ */
+export function useSigunguName(
+  areaCode: string | undefined,
+  sigunguCode: string | undefined,
+): string | undefined {
+  const { data: sigunguList } = useSigunguList(
+    sigunguCode ? areaCode : undefined,
+  );
+  return sigunguList?.find((sigungu) => sigungu.code === sigunguCode)?.name;
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { TourItem } from "@/lib/types/tour";
+import { searchStayTours } from "@/actions/search-stay";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+
+/**
+ * @file useStayList.ts
+ * @description 숙박시설 목록 조회 훅
+ *
+ * React Query를 사용하여 숙박(32) 시설을 조회하는 훅입니다.
+ * Server Action을 통해 서버 사이드에서 searchStay2 API를 호출합니다.
+ */
+
+interface UseStayListOptions {
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  enabled?: boolean; // 쿼리 실행 여부 제어
+}
+
+/**
+ * 숙박시설 목록 조회 훅
+ *
+ * @param options - 조회 옵션
+ * @returns React Query 결과
+ */
+export function useStayList(options: UseStayListOptions = {}) {
+  const { enabled = true, ...queryOptions } = options;
+  const { locale } = useTourLocale();
+  return useQuery({
+    queryKey: ["tours", "stay", locale, queryOptions],
+    queryFn: async (): Promise<TourItem[]> => {
+      return await searchStayTours({
+        areaCode: queryOptions.areaCode,
+        sigunguCode: queryOptions.sigunguCode,
+        numOfRows: queryOptions.numOfRows ?? 10,
+        pageNo: queryOptions.pageNo ?? 1,
+        locale,
+      });
+    },
+    enabled,
+    staleTime: 60 * 1000, // 1분
+    gcTime: 5 * 60 * 1000, // 5분
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
@@ -3,6 +3,8 @@
 import { useQuery } from "@tanstack/react-query";
 import type { TourDetail } from "@/lib/types/tour";
 import { getTourDetail } from "@/actions/get-tour-detail";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
 
 /**
  * @file useTourDetail.ts
@@ -22,17 +24,20 @@ import { getTourDetail } from "@/actions/get-tour-detail";
  * @returns React Query 결과
  */
 export function useTourDetail(contentId: string) {
+  const { locale } = useTourLocale();
   return useQuery({
-    queryKey: ["tours", "detail", contentId],
+    queryKey: ["tours", "detail", contentId, locale],
     queryFn: async (): Promise<TourDetail | null> => {
       if (!contentId || contentId.trim() === "") {
         return null;
       }
-      return await getTourDetail(contentId);
+      return await getTourDetail(contentId, locale);
     },
     enabled: Boolean(contentId && contentId.trim() !== ""),
     staleTime: 5 * 60 * 1000, // 5분 (상세 정보는 자주 변경되지 않음)
     gcTime: 10 * 60 * 1000, // 10분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
@@ -1,6 +1,8 @@
 "use client";
 
 import { useState, useCallback } from "react";
+import type { TourFilterState } from "@/lib/types/tour";
+import { FESTIVAL_CONTENT_TYPE_ID } from "@/lib/utils/tour-type-converter";
 
 /**
  * @file useTourFilter.ts
@@ -8,47 +10,79 @@ import { useState, useCallback } from "react";
  *
  * 관광지 목록의 필터 상태를 관리하는 훅입니다.
  * 지역 코드와 관광 타입 필터를 관리하며, 필터 변경 시 React Query를 재조회합니다.
+ * 시군구 코드는 시/도에 종속되므로 시/도가 바뀌면 함께 초기화됩니다.
+ * 서비스 분류(대/중/소분류)는 상위 분류가 바뀌면 하위 분류가 함께 초기화됩니다.
+ * 축제공연행사(15) 타입에서는 행사 기간(시작일/종료일) 필터를 함께 관리하며, 다른 타입으로 바뀌면 초기화됩니다.
+ * "지금 영업 중" 필터는 조회 조건이 아니라 받은 목록에 적용하는 필터입니다 (useOpeningHours).
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 필터 섹션
  */
 
-interface TourFilterState {
-  areaCode?: string;
-  contentTypeId?: string;
-  petFriendly?: boolean; // 반려동물 동반 가능 여부
-  petSize?: "small" | "medium" | "large" | undefined; // 반려동물 크기
-  petType?: "dog" | "cat" | undefined; // 반려동물 종류
-  petPlace?: "indoor" | "outdoor" | undefined; // 실내/실외 동반 가능 여부
-}
-
 /**
  * 관광지 필터링 훅
  *
+ * @param initialFilters - 초기 필터 상태 (URL 쿼리스트링에서 복원한 값 등)
  * @returns 필터 상태 및 필터 변경 함수
  */
-export function useTourFilter() {
-  const [filters, setFilters] = useState<TourFilterState>({});
+export function useTourFilter(initialFilters: TourFilterState = {}) {
+  const [filters, setFilters] = useState<TourFilterState>(initialFilters);
 
   /**
-   * 지역 필터 변경
+   * 지역 필터 변경 (시/도가 바뀌면 시군구 선택 초기화)
    */
   const setAreaCode = useCallback((areaCode: string | undefined) => {
     setFilters((prev) => ({
       ...prev,
       areaCode: areaCode || undefined,
+      sigunguCode: undefined,
     }));
   }, []);
 
   /**
-   * 관광 타입 필터 변경
+   * 시군구 필터 변경
    */
-  const setContentTypeId = useCallback((contentTypeId: string | undefined) => {
+  const setSigunguCode = useCallback((sigunguCode: string | undefined) => {
     setFilters((prev) => ({
       ...prev,
-      contentTypeId: contentTypeId || undefined,
+      sigunguCode: sigunguCode || undefined,
     }));
   }, []);
 
+  /**
+   * 관광 타입 필터 변경 (축제공연행사가 아니면 행사 기간 초기화)
+   */
+  const setContentTypeId = useCallback((contentTypeId: string | undefined) => {
+    setFilters((prev) => {
+      const isFestivalType = contentTypeId === FESTIVAL_CONTENT_TYPE_ID;
+      return {
+        ...prev,
+        contentTypeId: contentTypeId || undefined,
+        eventStartDate: isFestivalType ? prev.eventStartDate : undefined,
+        eventEndDate: isFestivalType ? prev.eventEndDate : undefined,
+      };
+    });
+  }, []);
+
+  /**
+   * 서비스 분류 필터 변경
+   * 상위 분류가 없으면 하위 분류는 무시합니다.
+   */
+  const setCategory = useCallback(
+    (
+      cat1: string | undefined,
+      cat2: string | undefined,
+      cat3: string | undefined,
+    ) => {
+      setFilters((prev) => ({
+        ...prev,
+        cat1: cat1 || undefined,
+        cat2: (cat1 && cat2) || undefined,
+        cat3: (cat1 && cat2 && cat3) || undefined,
+      }));
+    },
+    [],
+  );
+
   /**
    * 반려동물 동반 가능 필터 변경
    */
@@ -95,6 +129,37 @@ export function useTourFilter() {
     [],
   );
 
+  /**
+   * 행사 기간 필터 변경
+   */
+  const setEventDateRange = useCallback(
+    (eventStartDate: string | undefined, eventEndDate: string | undefined) => {
+      setFilters((prev) => ({
+        ...prev,
+        eventStartDate: eventStartDate || undefined,
+        eventEndDate: eventEndDate || undefined,
+      }));
+    },
+    [],
+  );
+
+  /**
+   * 지금 영업 중 필터 변경
+   */
+  const setOpenNow = useCallback((openNow: boolean | undefined) => {
+    setFilters((prev) => ({
+      ...prev,
+      openNow: openNow || undefined,
+    }));
+  }, []);
+
+  /**
+   * 필터 전체 교체 (브라우저 뒤로가기 등으로 URL 상태를 복원할 때 사용)
+   */
+  const replaceFilters = useCallback((nextFilters: TourFilterState) => {
+    setFilters(nextFilters);
+  }, []);
+
   /**
    * 필터 초기화
    */
@@ -107,21 +172,31 @@ export function useTourFilter() {
    */
   const hasActiveFilters = Boolean(
     filters.areaCode ||
+      filters.sigunguCode ||
       filters.contentTypeId ||
+      filters.cat1 ||
       filters.petFriendly ||
       filters.petSize ||
       filters.petType ||
-      filters.petPlace,
+      filters.petPlace ||
+      filters.eventStartDate ||
+      filters.eventEndDate ||
+      filters.openNow,
   );
 
   return {
     filters,
     setAreaCode,
+    setSigunguCode,
     setContentTypeId,
+    setCategory,
     setPetFriendly,
     setPetSize,
     setPetType,
     setPetPlace,
+    setEventDateRange,
+    setOpenNow,
+    replaceFilters,
     resetFilters,
     hasActiveFilters,
   };
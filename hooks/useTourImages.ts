@@ -1,7 +1,10 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
-import { getTourImages, type TourImage } from "@/actions/get-tour-images";
+import { getTourImages } from "@/actions/get-tour-images";
+import type { TourImage } from "@/lib/types/tour";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
 
 /**
  * @file useTourImages.ts
@@ -21,18 +24,21 @@ import { getTourImages, type TourImage } from "@/actions/get-tour-images";
  * @returns React Query 결과
  */
 export function useTourImages(contentId: string) {
+  const { locale } = useTourLocale();
   return useQuery({
-    queryKey: ["tours", "images", contentId],
+    queryKey: ["tours", "images", contentId, locale],
     queryFn: async (): Promise<TourImage[]> => {
       if (!contentId || contentId.trim() === "") {
         return [];
       }
-      return await getTourImages(contentId);
+      return await getTourImages(contentId, locale);
     },
     enabled: Boolean(contentId && contentId.trim() !== ""),
     staleTime: 5 * 60 * 1000, // 5분 (이미지는 자주 변경되지 않음)
     gcTime: 10 * 60 * 1000, // 10분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
 
@@ -3,6 +3,8 @@
 import { useQuery } from "@tanstack/react-query";
 import type { TourIntro } from "@/lib/types/tour";
 import { getTourIntro } from "@/actions/get-tour-intro";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
 
 /**
  * @file useTourIntro.ts
@@ -23,8 +25,9 @@ import { getTourIntro } from "@/actions/get-tour-intro";
  * @returns React Query 결과
  */
 export function useTourIntro(contentId: string, contentTypeId: string) {
+  const { locale } = useTourLocale();
   return useQuery({
-    queryKey: ["tours", "intro", contentId, contentTypeId],
+    queryKey: ["tours", "intro", contentId, contentTypeId, locale],
     queryFn: async (): Promise<TourIntro | null> => {
       if (!contentId || contentId.trim() === "") {
         return null;
@@ -32,13 +35,15 @@ export function useTourIntro(contentId: string, contentTypeId: string) {
       if (!contentTypeId || contentTypeId.trim() === "") {
         return null;
       }
-      return await getTourIntro(contentId, contentTypeId);
+      return await getTourIntro(contentId, contentTypeId, locale);
     },
     enabled:
       Boolean(contentId && contentId.trim() !== "") &&
       Boolean(contentTypeId && contentTypeId.trim() !== ""),
     staleTime: 5 * 60 * 1000, // 5분 (소개 정보는 자주 변경되지 않음)
     gcTime: 10 * 60 * 1000, // 10분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
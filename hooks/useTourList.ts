@@ -3,6 +3,8 @@
 import { useQuery } from "@tanstack/react-query";
 import type { TourItem } from "@/lib/types/tour";
 import { getTourList } from "@/actions/get-tour-list";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
 
 /**
  * @file useTourList.ts
@@ -17,7 +19,11 @@ import { getTourList } from "@/actions/get-tour-list";
 
 interface UseTourListOptions {
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
   numOfRows?: number;
   pageNo?: number;
   enabled?: boolean; // 쿼리 실행 여부 제어
@@ -31,19 +37,27 @@ interface UseTourListOptions {
  */
 export function useTourList(options: UseTourListOptions = {}) {
   const { enabled = true } = options;
+  const { locale } = useTourLocale();
   return useQuery({
-    queryKey: ["tours", "list", options],
+    queryKey: ["tours", "list", locale, options],
     queryFn: async (): Promise<TourItem[]> => {
       return await getTourList({
         areaCode: options.areaCode,
+        sigunguCode: options.sigunguCode,
         contentTypeId: options.contentTypeId,
+        cat1: options.cat1,
+        cat2: options.cat2,
+        cat3: options.cat3,
         numOfRows: options.numOfRows ?? 10,
         pageNo: options.pageNo ?? 1,
+        locale,
       });
     },
     enabled,
     staleTime: 60 * 1000, // 1분
     gcTime: 5 * 60 * 1000, // 5분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
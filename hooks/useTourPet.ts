@@ -3,6 +3,7 @@
 import { useQuery } from "@tanstack/react-query";
 import type { PetTourInfo } from "@/lib/types/tour";
 import { getTourPet } from "@/actions/get-tour-pet";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
 
 /**
  * @file useTourPet.ts
@@ -33,6 +34,8 @@ export function useTourPet(contentId: string) {
     enabled: Boolean(contentId && contentId.trim() !== ""),
     staleTime: 5 * 60 * 1000, // 5분 (반려동물 정보는 자주 변경되지 않음)
     gcTime: 10 * 60 * 1000, // 10분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
@@ -0,0 +1,41 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { TourRoomInfo } from "@/lib/types/tour";
+import { getTourRooms } from "@/actions/get-tour-rooms";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
+import { STAY_CONTENT_TYPE_ID } from "@/lib/utils/tour-type-converter";
+
+/**
+ * @file useTourRooms.ts
+ * @description 숙박 객실 정보 조회 훅
+ *
+ * React Query를 사용하여 숙박시설의 객실 정보를 조회하는 훅입니다.
+ * 숙박(32) 타입인 경우에만 쿼리를 실행합니다.
+ */
+
+/**
+ * 숙박 객실 정보 조회 훅
+ *
+ * @param contentId - 콘텐츠ID
+ * @param contentTypeId - 콘텐츠타입ID
+ * @returns React Query 결과
+ */
+export function useTourRooms(contentId: string, contentTypeId: string) {
+  const { locale } = useTourLocale();
+  return useQuery({
+    queryKey: ["tours", "rooms", contentId, locale],
+    queryFn: async (): Promise<TourRoomInfo[]> => {
+      return await getTourRooms(contentId, locale);
+    },
+    enabled:
+      Boolean(contentId && contentId.trim() !== "") &&
+      contentTypeId === STAY_CONTENT_TYPE_ID,
+    staleTime: 5 * 60 * 1000, // 5분 (객실 정보는 자주 변경되지 않음)
+    gcTime: 10 * 60 * 1000, // 10분
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
+  });
+}
@@ -3,6 +3,8 @@
 import { useQuery } from "@tanstack/react-query";
 import type { TourItem } from "@/lib/types/tour";
 import { searchTour } from "@/actions/search-tour";
+import { isRecoverableTourApiError } from "@/lib/api/tour-api-errors";
+import { useTourLocale } from "@/components/providers/locale-provider";
 
 /**
  * @file useTourSearch.ts
@@ -10,7 +12,7 @@ import { searchTour } from "@/actions/search-tour";
  *
  * React Query를 사용하여 관광지 검색을 수행하는 훅입니다.
  * Server Action을 통해 서버 사이드에서 한국관광공사 API를 호출합니다.
- * 필터 옵션(areaCode, contentTypeId)을 지원합니다.
+ * 필터 옵션(areaCode, sigunguCode, contentTypeId, cat1~cat3)을 지원합니다.
  *
  * @see {@link /docs/prd.md#23-키워드-검색} - PRD 문서의 키워드 검색 섹션
  */
@@ -18,7 +20,11 @@ import { searchTour } from "@/actions/search-tour";
 interface UseTourSearchOptions {
   keyword: string;
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드
+  cat3?: string; // 소분류 코드
   numOfRows?: number;
   pageNo?: number;
   enabled?: boolean; // 검색 실행 여부 제어
@@ -31,16 +37,32 @@ interface UseTourSearchOptions {
  * @returns React Query 결과
  */
 export function useTourSearch(options: UseTourSearchOptions) {
-  const { keyword, areaCode, contentTypeId, numOfRows, pageNo, enabled } =
-    options;
+  const {
+    keyword,
+    areaCode,
+    sigunguCode,
+    contentTypeId,
+    cat1,
+    cat2,
+    cat3,
+    numOfRows,
+    pageNo,
+    enabled,
+  } = options;
+  const { locale } = useTourLocale();
 
   return useQuery({
     queryKey: [
       "tours",
       "search",
+      locale,
       keyword,
       areaCode,
+      sigunguCode,
       contentTypeId,
+      cat1,
+      cat2,
+      cat3,
       numOfRows,
       pageNo,
     ],
@@ -51,14 +73,21 @@ export function useTourSearch(options: UseTourSearchOptions) {
       return await searchTour({
         keyword: keyword.trim(),
         areaCode,
+        sigunguCode,
         contentTypeId,
+        cat1,
+        cat2,
+        cat3,
         numOfRows: numOfRows ?? 10,
         pageNo: pageNo ?? 1,
+        locale,
       });
     },
     enabled: enabled !== false && Boolean(keyword && keyword.trim() !== ""),
     staleTime: 60 * 1000, // 1분
     gcTime: 5 * 60 * 1000, // 5분
-    retry: 1, // 실패 시 1회 재시도
+    // 실패 시 1회 재시도 (한도 초과, 서비스 키 오류 등 재요청해도 같은 에러는 제외)
+    retry: (failureCount, error) =>
+      failureCount < 1 && isRecoverableTourApiError(error),
   });
 }
@@ -4,6 +4,7 @@
  *
  * 정렬 옵션 상태를 관리하는 훅입니다.
  * 로컬 상태로 정렬 옵션을 저장하고 관리합니다.
+ * 초기값을 전달하면 URL 쿼리스트링 등에서 복원한 정렬 옵션으로 시작합니다.
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 정렬 옵션 섹션
  */
@@ -14,15 +15,16 @@ import type { SortOption } from "@/lib/utils/tour-sorter";
 /**
  * 정렬 상태 관리 훅
  *
+ * @param initialOption - 초기 정렬 옵션 (기본값: "latest")
  * @returns 정렬 옵션과 정렬 변경 함수
  */
-export function useTourSort() {
-  const [sortOption, setSortOption] = useState<SortOption>("latest");
+export function useTourSort(initialOption: SortOption = "latest") {
+  const [sortOption, setSortOption] = useState<SortOption>(initialOption);
 
   /**
    * 정렬 옵션 변경 핸들러
    *
-   * @param option - 정렬 옵션 ("latest" | "name")
+   * @param option - 정렬 옵션 ("latest" | "name" | "distance")
    */
   const handleSortChange = (option: SortOption) => {
     setSortOption(option);
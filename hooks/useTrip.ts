@@ -0,0 +1,239 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { getTrip } from "@/actions/get-trips";
+import {
+  addTripStop,
+  deleteTripStop,
+  moveTripStops,
+  updateTrip,
+  updateTripStop,
+} from "@/actions/manage-trip";
+import type {
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryStopInput,
+  ItineraryStopPlacement,
+  ItineraryWithStops,
+} from "@/lib/types/itinerary";
+import { sortItineraryStops } from "@/lib/utils/itinerary";
+
+/**
+ * @file useTrip.ts
+ * @description 여행 일정 편집 훅
+ *
+ * React Query를 사용하여 여행 하나의 날짜/시간대별 일정을 조회하고 편집하는 훅입니다.
+ *
+ * 주요 기능:
+ * 1. 여행 상세 조회 (서버에서 받은 초기 데이터 사용)
+ * 2. 여행 제목/기간 수정
+ * 3. 일정 추가/수정/삭제 (useMutation)
+ * 4. 일정 옮기기 (낙관적 업데이트, 실패 시 롤백)
+ *
+ * @see {@link /actions/get-trips.ts} - 여행 일정 조회 Server Action
+ * @see {@link /actions/manage-trip.ts} - 여행 일정 편집 Server Action
+ */
+
+/**
+ * 여행 일정 편집 훅
+ *
+ * @param itineraryId - 여행 ID
+ * @param initialTrip - 서버 컴포넌트에서 조회한 여행 (초기 데이터)
+ * @returns 여행, 상태 및 편집 함수들
+ */
+export function useTrip(itineraryId: string, initialTrip?: ItineraryWithStops) {
+  const { userId } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["trip", itineraryId];
+
+  // 여행 상세 조회 (useQuery)
+  const {
+    data: trip,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      console.log("[useTrip] 여행 상세 조회:", { itineraryId });
+      return await getTrip(itineraryId);
+    },
+    initialData: initialTrip,
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  const invalidateTrip = () => {
+    queryClient.invalidateQueries({ queryKey });
+    // 여행 목록의 일정 수/기간도 갱신
+    queryClient.invalidateQueries({ queryKey: ["trips", userId] });
+  };
+
+  /**
+   * 캐시된 여행의 일정 목록 변경 (낙관적 업데이트)
+   */
+  const setCachedStops = (
+    update: (stops: ItineraryStop[]) => ItineraryStop[],
+  ) => {
+    queryClient.setQueryData<ItineraryWithStops | null>(queryKey, (current) =>
+      current
+        ? { ...current, stops: sortItineraryStops(update(current.stops)) }
+        : current,
+    );
+  };
+
+  // 여행 수정 (제목, 기간)
+  const updateMutation = useMutation({
+    mutationFn: async (input: ItineraryInput) => {
+      console.log("[useTrip] 여행 수정:", { itineraryId, ...input });
+      const result = await updateTrip(itineraryId, input);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: invalidateTrip,
+    onError: (mutationError) => {
+      console.error("[useTrip] 여행 수정 실패:", mutationError);
+    },
+  });
+
+  // 일정 추가
+  const addStopMutation = useMutation({
+    mutationFn: async (input: ItineraryStopInput) => {
+      console.log("[useTrip] 일정 추가:", {
+        itineraryId,
+        title: input.title,
+        day: input.day_index,
+        slot: input.time_slot,
+      });
+      const result = await addTripStop(itineraryId, input);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (stop) => {
+      setCachedStops((stops) => [...stops, stop]);
+      invalidateTrip();
+    },
+    onError: (mutationError) => {
+      console.error("[useTrip] 일정 추가 실패:", mutationError);
+    },
+  });
+
+  // 일정 수정 (제목, 메모)
+  const updateStopMutation = useMutation({
+    mutationFn: async ({
+      stopId,
+      input,
+    }: {
+      stopId: string;
+      input: Pick<ItineraryStop, "title" | "note">;
+    }) => {
+      console.log("[useTrip] 일정 수정:", { itineraryId, stopId });
+      const result = await updateTripStop(itineraryId, stopId, input);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (updated) => {
+      setCachedStops((stops) =>
+        stops.map((stop) => (stop.id === updated.id ? updated : stop)),
+      );
+    },
+    onError: (mutationError) => {
+      console.error("[useTrip] 일정 수정 실패:", mutationError);
+    },
+  });
+
+  // 일정 옮기기 (낙관적 업데이트)
+  const moveStopsMutation = useMutation({
+    mutationFn: async ({
+      placement,
+      stopIds,
+    }: {
+      placement: ItineraryStopPlacement;
+      stopIds: string[];
+    }) => {
+      console.log("[useTrip] 일정 옮기기:", {
+        itineraryId,
+        ...placement,
+        count: stopIds.length,
+      });
+      const result = await moveTripStops(itineraryId, placement, stopIds);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onMutate: async ({ placement, stopIds }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ItineraryWithStops | null>(
+        queryKey,
+      );
+      setCachedStops((stops) =>
+        stops.map((stop) => {
+          const position = stopIds.indexOf(stop.id);
+          return position === -1 ? stop : { ...stop, ...placement, position };
+        }),
+      );
+      return { previous };
+    },
+    onError: (mutationError, _variables, context) => {
+      console.error("[useTrip] 일정 옮기기 실패:", mutationError);
+      if (context?.previous !== undefined) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  // 일정 삭제 (낙관적 업데이트)
+  const deleteStopMutation = useMutation({
+    mutationFn: async (stopId: string) => {
+      console.log("[useTrip] 일정 삭제:", { itineraryId, stopId });
+      const result = await deleteTripStop(itineraryId, stopId);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onMutate: async (stopId) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ItineraryWithStops | null>(
+        queryKey,
+      );
+      setCachedStops((stops) => stops.filter((stop) => stop.id !== stopId));
+      return { previous };
+    },
+    onError: (mutationError, _stopId, context) => {
+      console.error("[useTrip] 일정 삭제 실패:", mutationError);
+      if (context?.previous !== undefined) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSettled: invalidateTrip,
+  });
+
+  return {
+    // 상태
+    trip: trip ?? null,
+    isLoading,
+    error,
+    isSaving:
+      updateMutation.isPending ||
+      addStopMutation.isPending ||
+      updateStopMutation.isPending ||
+      moveStopsMutation.isPending ||
+      deleteStopMutation.isPending,
+    // 함수
+    updateTrip: updateMutation.mutateAsync,
+    addStop: addStopMutation.mutateAsync,
+    updateStop: updateStopMutation.mutateAsync,
+    moveStops: moveStopsMutation.mutateAsync,
+    deleteStop: deleteStopMutation.mutateAsync,
+  };
+}
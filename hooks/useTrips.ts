@@ -0,0 +1,99 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@clerk/nextjs";
+import { getTrips } from "@/actions/get-trips";
+import { createTrip, deleteTrip } from "@/actions/manage-trip";
+import type { ItineraryInput, ItinerarySummary } from "@/lib/types/itinerary";
+
+/**
+ * @file useTrips.ts
+ * @description 여행 목록 훅
+ *
+ * React Query를 사용하여 로그인한 사용자의 여행 목록을 조회하고
+ * 여행을 만들거나 삭제하는 훅입니다.
+ *
+ * 주요 기능:
+ * 1. 여행 목록 조회 (Server Action, 출발일순)
+ * 2. 여행 만들기/삭제 (useMutation)
+ *
+ * @see {@link /actions/get-trips.ts} - 여행 일정 조회 Server Action
+ * @see {@link /actions/manage-trip.ts} - 여행 일정 편집 Server Action
+ */
+
+/** 여행이 없을 때의 빈 목록 (렌더링마다 새 배열을 만들지 않도록 고정) */
+const NO_TRIPS: ItinerarySummary[] = [];
+
+/**
+ * 여행 목록 훅
+ *
+ * @returns 여행 목록, 상태 및 만들기/삭제 함수
+ */
+export function useTrips() {
+  const { userId, isLoaded } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["trips", userId];
+
+  // 여행 목록 조회 (useQuery)
+  const {
+    data: trips = NO_TRIPS,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      console.log("[useTrips] 여행 목록 조회:", { userId });
+      return await getTrips();
+    },
+    enabled: Boolean(userId && isLoaded),
+    staleTime: 30 * 1000, // 30초
+    gcTime: 5 * 60 * 1000, // 5분
+    retry: 1,
+  });
+
+  // 여행 만들기
+  const createMutation = useMutation({
+    mutationFn: async (input: ItineraryInput) => {
+      console.log("[useTrips] 여행 만들기:", input);
+      const result = await createTrip(input);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (mutationError) => {
+      console.error("[useTrips] 여행 만들기 실패:", mutationError);
+    },
+  });
+
+  // 여행 삭제
+  const deleteMutation = useMutation({
+    mutationFn: async (itineraryId: string) => {
+      console.log("[useTrips] 여행 삭제:", itineraryId);
+      const result = await deleteTrip(itineraryId);
+      if ("error" in result) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+    onSuccess: (_deleted, itineraryId) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.removeQueries({ queryKey: ["trip", itineraryId] });
+    },
+    onError: (mutationError) => {
+      console.error("[useTrips] 여행 삭제 실패:", mutationError);
+    },
+  });
+
+  return {
+    // 상태
+    trips,
+    isLoading,
+    error,
+    isMutating: createMutation.isPending || deleteMutation.isPending,
+    // 함수
+    createTrip: createMutation.mutateAsync,
+    deleteTrip: deleteMutation.mutateAsync,
+  };
+}
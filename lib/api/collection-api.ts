@@ -0,0 +1,408 @@
+/**
+ * @file collection-api.ts
+ * @description Supabase 쿼리 함수들 (북마크 컬렉션)
+ *
+ * 북마크 컬렉션 기능을 위한 Supabase 데이터베이스 쿼리 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 컬렉션 목록 조회 (내가 만든 컬렉션 + 멤버로 참여한 공유 컬렉션, 담긴 북마크와 담은 사람 포함)
+ * 2. 컬렉션 추가/이름 변경/삭제
+ * 3. 컬렉션에 북마크 담기/빼기
+ * 4. 컬렉션 안의 북마크 순서 변경
+ *
+ * 주의사항:
+ * - 서버 사이드에서는 `createClerkSupabaseClient()` 사용
+ * - 클라이언트 사이드에서는 `useClerkSupabaseClient()` 훅 사용
+ * - 3, 4는 소유자 또는 편집자(editor) 멤버만 할 수 있습니다.
+ *
+ * @see {@link /lib/types/collection.ts} - 북마크 컬렉션 타입 정의
+ * @see {@link /supabase/migrations/bookmark_collections.sql} - 데이터베이스 스키마
+ * @see {@link /lib/api/collection-share-api.ts} - 컬렉션 공유 (멤버, 초대)
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import type {
+  BookmarkCollection,
+  BookmarkCollectionWithItems,
+  CollectionMemberRole,
+} from "@/lib/types/collection";
+import {
+  BOOKMARK_SNAPSHOT_COLUMNS,
+  toSnapshotTour,
+  type BookmarkSnapshotRow,
+} from "@/lib/utils/bookmark-snapshot";
+
+/**
+ * 컬렉션 목록 조회 select 문자열
+ *
+ * 다른 멤버의 북마크는 스냅샷 컬럼만 조회합니다 (메모, 태그, 평점 제외).
+ */
+const COLLECTION_SELECT = `*, owner:users!bookmark_collections_user_id_fkey(name), collection_members(count), collection_items(bookmark_id, position, created_at, bookmarks(user_id, ${BOOKMARK_SNAPSHOT_COLUMNS}, users!bookmarks_user_id_fkey(name)))`;
+
+/**
+ * 컬렉션 목록 조회 결과 행 (소유자, 멤버 수, collection_items, bookmarks JOIN)
+ */
+interface CollectionQueryRow extends BookmarkCollection {
+  owner: { name: string } | null;
+  collection_members: Array<{ count: number }> | null;
+  collection_items: Array<{
+    bookmark_id: string;
+    position: number;
+    created_at: string;
+    bookmarks:
+      | (BookmarkSnapshotRow & {
+          user_id: string;
+          users: { name: string } | null;
+        })
+      | null;
+  }> | null;
+}
+
+/**
+ * 컬렉션 에러 메시지 변환 (이름 중복은 사용자에게 그대로 안내)
+ */
+function toCollectionError(
+  action: string,
+  error: { code?: string; message?: string },
+): Error {
+  if (error.code === "23505") {
+    return new Error("같은 이름의 컬렉션이 이미 있습니다.");
+  }
+  return new Error(
+    `${action} 실패: ${error.message || error.code || "Unknown error"}`,
+  );
+}
+
+/**
+ * 컬렉션을 편집할 수 있는지 확인 (소유자 또는 편집자 멤버가 아니면 에러)
+ */
+async function assertCollectionEditor(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  collectionId: string,
+  action: string,
+): Promise<void> {
+  const [ownerResult, memberResult] = await Promise.all([
+    supabase
+      .from("bookmark_collections")
+      .select("id")
+      .eq("id", collectionId)
+      .eq("user_id", supabaseUserId)
+      .maybeSingle(),
+    supabase
+      .from("collection_members")
+      .select("id")
+      .eq("collection_id", collectionId)
+      .eq("user_id", supabaseUserId)
+      .eq("role", "editor")
+      .maybeSingle(),
+  ]);
+
+  const error = ownerResult.error ?? memberResult.error;
+  if (error) {
+    console.error("[Supabase API] 컬렉션 편집 권한 확인 에러:", error);
+    throw toCollectionError(action, error);
+  }
+  if (!ownerResult.data && !memberResult.data) {
+    throw new Error(`컬렉션 소유자 또는 편집자만 ${action}할 수 있습니다.`);
+  }
+}
+
+/**
+ * 컬렉션 목록 조회
+ *
+ * 내가 만든 컬렉션과 멤버로 참여한 공유 컬렉션을 함께 반환합니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @returns 컬렉션 목록 (생성순, 담긴 북마크는 position 순)
+ */
+export async function getCollections(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<BookmarkCollectionWithItems[]> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  // 멤버로 참여한 컬렉션과 역할
+  const { data: memberships, error: membershipError } = await supabase
+    .from("collection_members")
+    .select("collection_id, role")
+    .eq("user_id", supabaseUserId);
+
+  if (membershipError) {
+    console.error("[Supabase API] 공유 컬렉션 조회 에러:", membershipError);
+    throw toCollectionError("컬렉션 목록 조회", membershipError);
+  }
+
+  const memberRoleById = new Map(
+    (
+      (memberships ?? []) as {
+        collection_id: string;
+        role: CollectionMemberRole;
+      }[]
+    ).map((membership) => [membership.collection_id, membership.role]),
+  );
+
+  let query = supabase.from("bookmark_collections").select(COLLECTION_SELECT);
+  query =
+    memberRoleById.size > 0
+      ? query.or(
+          `user_id.eq.${supabaseUserId},id.in.(${[...memberRoleById.keys()].join(",")})`,
+        )
+      : query.eq("user_id", supabaseUserId);
+  const { data, error } = await query.order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 목록 조회 에러:", error);
+    throw toCollectionError("컬렉션 목록 조회", error);
+  }
+
+  return ((data ?? []) as unknown as CollectionQueryRow[]).map(
+    ({ owner, collection_members, collection_items, ...collection }) => ({
+      ...collection,
+      role:
+        collection.user_id === supabaseUserId
+          ? "owner"
+          : (memberRoleById.get(collection.id) ?? "viewer"),
+      owner_name: owner?.name ?? null,
+      member_count: collection_members?.[0]?.count ?? 0,
+      items: (collection_items ?? [])
+        .filter((item) => item.bookmarks !== null)
+        .map((item) => ({
+          bookmark_id: item.bookmark_id,
+          content_id: item.bookmarks!.content_id,
+          position: item.position,
+          added_by: item.bookmarks!.user_id,
+          added_by_name: item.bookmarks!.users?.name ?? null,
+          added_at: item.created_at,
+          tour: toSnapshotTour(item.bookmarks!),
+        }))
+        .sort((a, b) => a.position - b.position),
+    }),
+  );
+}
+
+/**
+ * 컬렉션 추가
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param name - 컬렉션 이름
+ * @returns 생성된 컬렉션
+ */
+export async function createCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+): Promise<BookmarkCollection> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("bookmark_collections")
+    .insert({ user_id: supabaseUserId, name })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 추가 에러:", error);
+    throw toCollectionError("컬렉션 추가", error);
+  }
+
+  return data;
+}
+
+/**
+ * 컬렉션 이름 변경
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param name - 새 이름
+ * @returns 수정된 컬렉션
+ */
+export async function renameCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  name: string,
+): Promise<BookmarkCollection> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("bookmark_collections")
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq("id", collectionId)
+    .eq("user_id", supabaseUserId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 이름 변경 에러:", error);
+    throw toCollectionError("컬렉션 이름 변경", error);
+  }
+
+  return data;
+}
+
+/**
+ * 컬렉션 삭제 (담긴 북마크는 삭제되지 않음)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @returns 삭제 성공 여부
+ */
+export async function deleteCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { error } = await supabase
+    .from("bookmark_collections")
+    .delete()
+    .eq("id", collectionId)
+    .eq("user_id", supabaseUserId);
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 삭제 에러:", error);
+    throw toCollectionError("컬렉션 삭제", error);
+  }
+
+  return true;
+}
+
+/**
+ * 컬렉션에 북마크 담기 (컬렉션 맨 뒤에 추가)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param bookmarkId - 북마크 ID
+ * @returns 담기 성공 여부
+ */
+export async function addCollectionItem(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  bookmarkId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionEditor(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "컬렉션에 담기",
+  );
+
+  // 현재 마지막 순서 조회
+  const { data: last, error: lastError } = await supabase
+    .from("collection_items")
+    .select("position")
+    .eq("collection_id", collectionId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    console.error("[Supabase API] 컬렉션 순서 조회 에러:", lastError);
+    throw toCollectionError("컬렉션에 담기", lastError);
+  }
+
+  const { error } = await supabase.from("collection_items").insert({
+    collection_id: collectionId,
+    bookmark_id: bookmarkId,
+    position: last ? last.position + 1 : 0,
+  });
+
+  // 이미 담긴 북마크는 성공으로 처리
+  if (error && error.code !== "23505") {
+    console.error("[Supabase API] 컬렉션에 담기 에러:", error);
+    throw toCollectionError("컬렉션에 담기", error);
+  }
+
+  return true;
+}
+
+/**
+ * 컬렉션에서 북마크 빼기 (북마크는 삭제되지 않음)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param bookmarkId - 북마크 ID
+ * @returns 빼기 성공 여부
+ */
+export async function removeCollectionItem(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  bookmarkId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionEditor(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "컬렉션에서 빼기",
+  );
+
+  const { error } = await supabase
+    .from("collection_items")
+    .delete()
+    .eq("collection_id", collectionId)
+    .eq("bookmark_id", bookmarkId);
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션에서 빼기 에러:", error);
+    throw toCollectionError("컬렉션에서 빼기", error);
+  }
+
+  return true;
+}
+
+/**
+ * 컬렉션 안의 북마크 순서 변경
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param bookmarkIds - 새 순서대로 나열한 북마크 ID 목록
+ * @returns 변경 성공 여부
+ */
+export async function reorderCollectionItems(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  bookmarkIds: string[],
+): Promise<boolean> {
+  if (bookmarkIds.length === 0) {
+    return true;
+  }
+
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionEditor(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "컬렉션 순서 변경",
+  );
+
+  const { error } = await supabase.from("collection_items").upsert(
+    bookmarkIds.map((bookmarkId, index) => ({
+      collection_id: collectionId,
+      bookmark_id: bookmarkId,
+      position: index,
+    })),
+    { onConflict: "collection_id,bookmark_id" },
+  );
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 순서 변경 에러:", error);
+    throw toCollectionError("컬렉션 순서 변경", error);
+  }
+
+  return true;
+}
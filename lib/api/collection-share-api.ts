@@ -0,0 +1,612 @@
+/**
+ * @file collection-share-api.ts
+ * @description Supabase 쿼리 함수들 (컬렉션 공유)
+ *
+ * 컬렉션을 다른 사용자와 함께 편집하기 위한 멤버/초대 쿼리 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 멤버 목록 조회 (소유자 포함)
+ * 2. 멤버 역할 변경/내보내기, 공유 컬렉션 나가기
+ * 3. 초대 링크 만들기, 대기 중인 초대 목록 조회/취소
+ * 4. 이메일 초대 만들기, 초대 안내 조회, 초대 수락/거절
+ *
+ * 주의사항:
+ * - 1~3은 클라이언트 사이드에서 `useClerkSupabaseClient()` 훅으로 호출합니다.
+ * - 4는 Clerk 계정의 이메일을 확인해야 하므로 Server Action에서 `getServiceRoleClient()`를 전달합니다.
+ *
+ * @see {@link /lib/types/collection.ts} - 공유 컬렉션 타입 정의
+ * @see {@link /supabase/migrations/collection_sharing.sql} - 데이터베이스 스키마
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import type {
+  CollectionInvite,
+  CollectionInvitePreview,
+  CollectionMember,
+  CollectionMemberRole,
+} from "@/lib/types/collection";
+import {
+  COLLECTION_INVITE_TTL_MS,
+  createInviteToken,
+  isInviteUsable,
+} from "@/lib/utils/collection-sharing";
+
+/**
+ * 초대 안내 조회 select 문자열 (컬렉션 이름, 초대한 사람 이름 JOIN)
+ */
+const INVITE_PREVIEW_SELECT =
+  "*, bookmark_collections(name, user_id), inviter:users!collection_invites_created_by_fkey(name)";
+
+/**
+ * 초대 안내 조회 결과 행
+ */
+interface InvitePreviewRow extends CollectionInvite {
+  bookmark_collections: { name: string; user_id: string } | null;
+  inviter: { name: string } | null;
+}
+
+/**
+ * 컬렉션 공유 에러 메시지 변환
+ */
+function toCollectionShareError(
+  action: string,
+  error: { code?: string; message?: string },
+): Error {
+  return new Error(
+    `${action} 실패: ${error.message || error.code || "Unknown error"}`,
+  );
+}
+
+/**
+ * 컬렉션 소유자인지 확인 (소유자가 아니면 에러)
+ */
+async function assertCollectionOwner(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  collectionId: string,
+  action: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("bookmark_collections")
+    .select("id")
+    .eq("id", collectionId)
+    .eq("user_id", supabaseUserId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 소유자 확인 에러:", error);
+    throw toCollectionShareError(action, error);
+  }
+  if (!data) {
+    throw new Error(`컬렉션 소유자만 ${action}할 수 있습니다.`);
+  }
+}
+
+/**
+ * 초대 안내 행을 CollectionInvitePreview로 변환
+ */
+function toInvitePreview(row: InvitePreviewRow): CollectionInvitePreview {
+  return {
+    token: row.token,
+    collectionId: row.collection_id,
+    collectionName: row.bookmark_collections?.name ?? "이름 없는 컬렉션",
+    inviterName: row.inviter?.name ?? "알 수 없는 사용자",
+    role: row.role,
+    isEmailInvite: row.email !== null,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * 멤버 목록 조회 (소유자 포함)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param collectionId - 컬렉션 ID
+ * @returns 멤버 목록 (소유자가 맨 앞, 나머지는 참여순)
+ */
+export async function getCollectionMembers(
+  supabase: SupabaseClient,
+  collectionId: string,
+): Promise<CollectionMember[]> {
+  const [collectionResult, membersResult] = await Promise.all([
+    supabase
+      .from("bookmark_collections")
+      .select(
+        "user_id, created_at, owner:users!bookmark_collections_user_id_fkey(name)",
+      )
+      .eq("id", collectionId)
+      .single(),
+    supabase
+      .from("collection_members")
+      .select("user_id, role, created_at, users(name)")
+      .eq("collection_id", collectionId)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  const error = collectionResult.error ?? membersResult.error;
+  if (error) {
+    console.error("[Supabase API] 멤버 목록 조회 에러:", error);
+    throw toCollectionShareError("멤버 목록 조회", error);
+  }
+
+  const collection = collectionResult.data as unknown as {
+    user_id: string;
+    created_at: string;
+    owner: { name: string } | null;
+  };
+  const members = (membersResult.data ?? []) as unknown as Array<{
+    user_id: string;
+    role: CollectionMemberRole;
+    created_at: string;
+    users: { name: string } | null;
+  }>;
+
+  return [
+    {
+      user_id: collection.user_id,
+      name: collection.owner?.name ?? "알 수 없는 사용자",
+      role: "owner",
+      joined_at: collection.created_at,
+    },
+    ...members.map((member) => ({
+      user_id: member.user_id,
+      name: member.users?.name ?? "알 수 없는 사용자",
+      role: member.role,
+      joined_at: member.created_at,
+    })),
+  ];
+}
+
+/**
+ * 멤버 역할 변경 (소유자만 가능)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param memberUserId - 역할을 바꿀 멤버의 사용자 ID
+ * @param role - 새 역할
+ * @returns 변경 성공 여부
+ */
+export async function updateCollectionMemberRole(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  memberUserId: string,
+  role: CollectionMemberRole,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionOwner(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "역할을 변경",
+  );
+
+  const { error } = await supabase
+    .from("collection_members")
+    .update({ role })
+    .eq("collection_id", collectionId)
+    .eq("user_id", memberUserId);
+
+  if (error) {
+    console.error("[Supabase API] 멤버 역할 변경 에러:", error);
+    throw toCollectionShareError("멤버 역할 변경", error);
+  }
+
+  return true;
+}
+
+/**
+ * 멤버 내보내기 (소유자만 가능)
+ *
+ * 멤버가 담은 관광지는 컬렉션에 그대로 남습니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param memberUserId - 내보낼 멤버의 사용자 ID
+ * @returns 내보내기 성공 여부
+ */
+export async function removeCollectionMember(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  memberUserId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionOwner(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "멤버를 내보내기",
+  );
+
+  const { error } = await supabase
+    .from("collection_members")
+    .delete()
+    .eq("collection_id", collectionId)
+    .eq("user_id", memberUserId);
+
+  if (error) {
+    console.error("[Supabase API] 멤버 내보내기 에러:", error);
+    throw toCollectionShareError("멤버 내보내기", error);
+  }
+
+  return true;
+}
+
+/**
+ * 공유 컬렉션 나가기 (멤버 본인)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @returns 나가기 성공 여부
+ */
+export async function leaveCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { error } = await supabase
+    .from("collection_members")
+    .delete()
+    .eq("collection_id", collectionId)
+    .eq("user_id", supabaseUserId);
+
+  if (error) {
+    console.error("[Supabase API] 공유 컬렉션 나가기 에러:", error);
+    throw toCollectionShareError("공유 컬렉션 나가기", error);
+  }
+
+  return true;
+}
+
+/**
+ * 대기 중인 초대 목록 조회 (취소/만료/수락된 이메일 초대 제외)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param collectionId - 컬렉션 ID
+ * @returns 초대 목록 (최신순)
+ */
+export async function getCollectionInvites(
+  supabase: SupabaseClient,
+  collectionId: string,
+): Promise<CollectionInvite[]> {
+  const { data, error } = await supabase
+    .from("collection_invites")
+    .select("*")
+    .eq("collection_id", collectionId)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[Supabase API] 초대 목록 조회 에러:", error);
+    throw toCollectionShareError("초대 목록 조회", error);
+  }
+
+  return ((data ?? []) as CollectionInvite[]).filter((invite) =>
+    isInviteUsable(invite),
+  );
+}
+
+/**
+ * 초대 링크 만들기 (소유자만 가능)
+ *
+ * 링크를 받은 누구나 만료 전까지 수락할 수 있습니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param role - 수락하면 받는 역할
+ * @returns 생성된 초대
+ */
+export async function createCollectionInviteLink(
+  supabase: SupabaseClient,
+  userId: string,
+  collectionId: string,
+  role: CollectionMemberRole,
+): Promise<CollectionInvite> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionOwner(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "초대 링크를 생성",
+  );
+
+  const { data, error } = await supabase
+    .from("collection_invites")
+    .insert({
+      collection_id: collectionId,
+      token: createInviteToken(),
+      email: null,
+      role,
+      created_by: supabaseUserId,
+      expires_at: new Date(Date.now() + COLLECTION_INVITE_TTL_MS).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 초대 링크 생성 에러:", error);
+    throw toCollectionShareError("초대 링크 생성", error);
+  }
+
+  return data;
+}
+
+/**
+ * 초대 취소 (소유자만 가능)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param invite - 취소할 초대
+ * @returns 취소 성공 여부
+ */
+export async function revokeCollectionInvite(
+  supabase: SupabaseClient,
+  userId: string,
+  invite: Pick<CollectionInvite, "id" | "collection_id">,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertCollectionOwner(
+    supabase,
+    supabaseUserId,
+    invite.collection_id,
+    "초대를 취소",
+  );
+
+  const { error } = await supabase
+    .from("collection_invites")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", invite.id);
+
+  if (error) {
+    console.error("[Supabase API] 초대 취소 에러:", error);
+    throw toCollectionShareError("초대 취소", error);
+  }
+
+  return true;
+}
+
+/**
+ * 이메일 초대 만들기 (소유자만 가능)
+ *
+ * 같은 이메일로 대기 중인 초대가 있으면 역할과 만료일을 갱신합니다.
+ * 가입하지 않은 이메일도 초대할 수 있으며, 가입 후 인증된 이메일로 초대를 받습니다.
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param supabaseUserId - 초대하는 사용자 ID (Supabase UUID)
+ * @param collectionId - 컬렉션 ID
+ * @param email - 초대받는 이메일 (정규화된 소문자)
+ * @param role - 수락하면 받는 역할
+ * @returns 생성/갱신된 초대
+ */
+export async function createCollectionEmailInvite(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  collectionId: string,
+  email: string,
+  role: CollectionMemberRole,
+): Promise<CollectionInvite> {
+  await assertCollectionOwner(
+    supabase,
+    supabaseUserId,
+    collectionId,
+    "멤버를 초대",
+  );
+
+  const fields = {
+    role,
+    expires_at: new Date(Date.now() + COLLECTION_INVITE_TTL_MS).toISOString(),
+  };
+
+  const { data: existing, error: existingError } = await supabase
+    .from("collection_invites")
+    .select("id")
+    .eq("collection_id", collectionId)
+    .eq("email", email)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error("[Supabase API] 이메일 초대 조회 에러:", existingError);
+    throw toCollectionShareError("멤버 초대", existingError);
+  }
+
+  const { data, error } = existing
+    ? await supabase
+        .from("collection_invites")
+        .update(fields)
+        .eq("id", existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from("collection_invites")
+        .insert({
+          ...fields,
+          collection_id: collectionId,
+          token: createInviteToken(),
+          email,
+          created_by: supabaseUserId,
+        })
+        .select()
+        .single();
+
+  if (error) {
+    console.error("[Supabase API] 이메일 초대 생성 에러:", error);
+    throw toCollectionShareError("멤버 초대", error);
+  }
+
+  return data;
+}
+
+/**
+ * 초대 안내 조회 (수락할 수 없는 초대는 null)
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param token - 초대 토큰
+ * @returns 초대 안내 정보와 초대 레코드 (없거나 만료/취소되었으면 null)
+ */
+export async function getCollectionInviteByToken(
+  supabase: SupabaseClient,
+  token: string,
+): Promise<{
+  invite: CollectionInvite;
+  preview: CollectionInvitePreview;
+  ownerId: string;
+} | null> {
+  const { data, error } = await supabase
+    .from("collection_invites")
+    .select(INVITE_PREVIEW_SELECT)
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Supabase API] 초대 조회 에러:", error);
+    throw toCollectionShareError("초대 조회", error);
+  }
+
+  const row = data as unknown as InvitePreviewRow | null;
+  if (!row || !row.bookmark_collections || !isInviteUsable(row)) {
+    return null;
+  }
+
+  const { bookmark_collections, inviter, ...invite } = row;
+  return {
+    invite,
+    preview: toInvitePreview({ ...invite, bookmark_collections, inviter }),
+    ownerId: bookmark_collections.user_id,
+  };
+}
+
+/**
+ * 이메일로 받은 대기 중인 초대 목록 조회
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param emails - 확인된 이메일 목록 (정규화된 소문자)
+ * @returns 초대 안내 목록 (최신순)
+ */
+export async function getPendingInvitesForEmails(
+  supabase: SupabaseClient,
+  emails: string[],
+): Promise<CollectionInvitePreview[]> {
+  if (emails.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("collection_invites")
+    .select(INVITE_PREVIEW_SELECT)
+    .in("email", emails)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[Supabase API] 받은 초대 조회 에러:", error);
+    throw toCollectionShareError("받은 초대 조회", error);
+  }
+
+  return ((data ?? []) as unknown as InvitePreviewRow[])
+    .filter((row) => row.bookmark_collections !== null)
+    .map(toInvitePreview);
+}
+
+/**
+ * 초대 수락 (멤버로 추가)
+ *
+ * 이미 멤버이면 더 높은 역할(편집자)만 반영하고, 소유자는 그대로 둡니다.
+ * 이메일 초대는 수락 처리하여 다시 쓸 수 없게 합니다.
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param supabaseUserId - 수락하는 사용자 ID (Supabase UUID)
+ * @param invite - 수락할 초대 (getCollectionInviteByToken 결과)
+ * @param ownerId - 컬렉션 소유자 ID
+ * @returns 수락 성공 여부
+ */
+export async function acceptCollectionInvite(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  invite: CollectionInvite,
+  ownerId: string,
+): Promise<boolean> {
+  if (ownerId !== supabaseUserId) {
+    const { data: existing, error: existingError } = await supabase
+      .from("collection_members")
+      .select("role")
+      .eq("collection_id", invite.collection_id)
+      .eq("user_id", supabaseUserId)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error("[Supabase API] 멤버 조회 에러:", existingError);
+      throw toCollectionShareError("초대 수락", existingError);
+    }
+
+    if (!existing || (existing.role === "viewer" && invite.role === "editor")) {
+      const { error } = await supabase.from("collection_members").upsert(
+        {
+          collection_id: invite.collection_id,
+          user_id: supabaseUserId,
+          role: invite.role,
+        },
+        { onConflict: "collection_id,user_id" },
+      );
+
+      if (error) {
+        console.error("[Supabase API] 멤버 추가 에러:", error);
+        throw toCollectionShareError("초대 수락", error);
+      }
+    }
+  }
+
+  if (invite.email) {
+    const { error } = await supabase
+      .from("collection_invites")
+      .update({
+        accepted_by: supabaseUserId,
+        accepted_at: new Date().toISOString(),
+      })
+      .eq("id", invite.id);
+
+    if (error) {
+      console.error("[Supabase API] 초대 수락 기록 에러:", error);
+      throw toCollectionShareError("초대 수락", error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 이메일 초대 거절
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param inviteId - 거절할 초대 ID
+ * @returns 거절 성공 여부
+ */
+export async function declineCollectionInvite(
+  supabase: SupabaseClient,
+  inviteId: string,
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("collection_invites")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", inviteId);
+
+  if (error) {
+    console.error("[Supabase API] 초대 거절 에러:", error);
+    throw toCollectionShareError("초대 거절", error);
+  }
+
+  return true;
+}
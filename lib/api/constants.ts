@@ -5,10 +5,29 @@
  * 한국관광공사 공공 API에서 사용하는 공통 상수들을 정의합니다.
  */
 
+import type { TourLocale } from "@/lib/utils/locale";
+
 /**
- * API Base URL
+ * API 서비스 공통 경로
+ */
+export const TOUR_API_SERVICE_ROOT = "https://apis.data.go.kr/B551011";
+
+/**
+ * 로케일별 서비스 이름
+ *
+ * 언어별 서비스는 오퍼레이션 이름(areaBasedList2 등)이 같고 서비스 경로만 다릅니다.
  */
-export const TOUR_API_BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+export const TOUR_API_SERVICE_NAMES: Record<TourLocale, string> = {
+  ko: "KorService2",
+  en: "EngService2",
+  ja: "JpnService2",
+  zh: "ChsService2",
+};
+
+/**
+ * API Base URL (국문 서비스)
+ */
+export const TOUR_API_BASE_URL = `${TOUR_API_SERVICE_ROOT}/${TOUR_API_SERVICE_NAMES.ko}`;
 
 /**
  * API 공통 파라미터
@@ -18,3 +37,30 @@ export const TOUR_API_COMMON_PARAMS = {
   MobileApp: "MyTrip",
   _type: "json",
 } as const;
+
+/**
+ * API 재시도 설정 (지수 백오프 + 지터)
+ */
+export const TOUR_API_RETRY_CONFIG = {
+  /** 최대 재시도 횟수 */
+  maxRetries: 3,
+  /** 첫 재시도 대기 시간 (밀리초) */
+  baseDelayMs: 500,
+  /** 최대 대기 시간 (밀리초) */
+  maxDelayMs: 8000,
+} as const;
+
+/**
+ * API 호출 제한 설정 (프로세스 단위)
+ *
+ * data.go.kr에 한 번에 수십 개의 요청이 몰리지 않도록
+ * 동시 요청 수와 초당 요청 수를 제한합니다.
+ */
+export const TOUR_API_RATE_LIMIT = {
+  /** 최대 동시 요청 수 */
+  maxConcurrent: 6,
+  /** 초당 허용 요청 수 (토큰 버킷 충전 속도) */
+  requestsPerSecond: 10,
+  /** 순간 최대 요청 수 (토큰 버킷 용량) */
+  burst: 10,
+} as const;
@@ -0,0 +1,548 @@
+/**
+ * @file itinerary-api.ts
+ * @description Supabase 쿼리 함수들 (여행 일정)
+ *
+ * 여행 일정 기능을 위한 Supabase 데이터베이스 쿼리 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 여행 목록/상세 조회 (상세는 날짜/시간대/순서로 정렬된 일정 포함)
+ * 2. 여행 추가/수정/삭제 (기간을 줄일 때 사라지는 날짜에 일정이 있으면 거부)
+ * 3. 일정 추가 (해당 날짜/시간대의 마지막), 수정, 삭제
+ * 4. 일정 옮기기 (날짜/시간대 변경 및 순서 변경)
+ *
+ * 주의사항:
+ * - 서버 사이드에서는 `createClerkSupabaseClient()` 사용
+ * - 클라이언트 사이드에서는 `useClerkSupabaseClient()` 훅 사용
+ * - 일정 함수들은 여행 소유자인지 먼저 확인합니다
+ * - Server Action 입력을 그대로 받으므로 일정 레코드에는 허용한 컬럼만 씁니다
+ *
+ * @see {@link /lib/types/itinerary.ts} - 여행 일정 타입 정의
+ * @see {@link /supabase/migrations/itineraries.sql} - 데이터베이스 스키마
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import type {
+  Itinerary,
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryStopInput,
+  ItineraryStopPlacement,
+  ItinerarySummary,
+  ItineraryWithStops,
+} from "@/lib/types/itinerary";
+import {
+  getTripDayCount,
+  sortItineraryStops,
+  validateItineraryInput,
+} from "@/lib/utils/itinerary";
+
+/**
+ * 일정 위치 스키마 (몇째 날의 어느 시간대)
+ */
+const stopPlacementSchema = z.object({
+  day_index: z.number().int().nonnegative(),
+  time_slot: z.enum(["morning", "lunch", "afternoon", "dinner", "evening"]),
+});
+
+/**
+ * 여행 목록 조회 결과 행 (일정 수 JOIN)
+ */
+interface ItinerarySummaryRow extends Itinerary {
+  itinerary_stops: Array<{ count: number }> | null;
+}
+
+/**
+ * 여행 일정 에러 메시지 변환
+ */
+function toItineraryError(
+  action: string,
+  error: { code?: string; message?: string },
+): Error {
+  return new Error(
+    `${action} 실패: ${error.message || error.code || "Unknown error"}`,
+  );
+}
+
+/**
+ * 여행 소유자 확인
+ *
+ * @returns 여행 레코드
+ * @throws {Error} 여행이 없거나 다른 사용자의 여행
+ */
+async function assertItineraryOwner(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  itineraryId: string,
+  action: string,
+): Promise<Itinerary> {
+  const { data, error } = await supabase
+    .from("itineraries")
+    .select("*")
+    .eq("id", itineraryId)
+    .eq("user_id", supabaseUserId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Supabase API] 여행 소유자 확인 에러:", error);
+    throw toItineraryError(action, error);
+  }
+  if (!data) {
+    throw new Error(`${action} 실패: 여행을 찾을 수 없습니다.`);
+  }
+  return data as Itinerary;
+}
+
+/**
+ * 일정이 여행 기간 안에 있는지 확인
+ *
+ * @throws {Error} 여행 기간을 벗어난 날짜
+ */
+function assertDayInRange(
+  itinerary: Itinerary,
+  dayIndex: number,
+  action: string,
+): void {
+  const dayCount = getTripDayCount(itinerary.start_date, itinerary.end_date);
+  if (!Number.isInteger(dayIndex) || dayIndex < 0 || dayIndex >= dayCount) {
+    throw new Error(`${action} 실패: 여행 기간을 벗어난 날짜입니다.`);
+  }
+}
+
+/**
+ * 일정 위치 검증
+ *
+ * @returns 날짜/시간대만 남긴 일정 위치
+ * @throws {Error} 잘못된 날짜 또는 시간대
+ */
+function parseStopPlacement(
+  placement: ItineraryStopPlacement,
+  action: string,
+): ItineraryStopPlacement {
+  const result = stopPlacementSchema.safeParse(placement);
+  if (!result.success) {
+    throw new Error(`${action} 실패: 잘못된 날짜 또는 시간대입니다.`);
+  }
+  return result.data as ItineraryStopPlacement;
+}
+
+/**
+ * 여행 목록 조회
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @returns 여행 목록 (출발일순, 일정 수 포함)
+ */
+export async function getItineraries(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<ItinerarySummary[]> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("itineraries")
+    .select("*, itinerary_stops(count)")
+    .eq("user_id", supabaseUserId)
+    .order("start_date", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[Supabase API] 여행 목록 조회 에러:", error);
+    throw toItineraryError("여행 목록 조회", error);
+  }
+
+  return ((data ?? []) as ItinerarySummaryRow[]).map(
+    ({ itinerary_stops, ...itinerary }) => ({
+      ...itinerary,
+      stop_count: itinerary_stops?.[0]?.count ?? 0,
+    }),
+  );
+}
+
+/**
+ * 여행 상세 조회
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @returns 여행과 일정 (없거나 다른 사용자의 여행이면 null)
+ */
+export async function getItinerary(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+): Promise<ItineraryWithStops | null> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("itineraries")
+    .select("*, itinerary_stops(*)")
+    .eq("id", itineraryId)
+    .eq("user_id", supabaseUserId)
+    .maybeSingle();
+
+  if (error) {
+    // UUID 형식이 아닌 ID는 없는 여행으로 처리
+    if (error.code === "22P02") {
+      return null;
+    }
+    console.error("[Supabase API] 여행 상세 조회 에러:", error);
+    throw toItineraryError("여행 조회", error);
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { itinerary_stops, ...itinerary } = data as Itinerary & {
+    itinerary_stops: ItineraryStop[] | null;
+  };
+  return {
+    ...itinerary,
+    stops: sortItineraryStops(itinerary_stops ?? []),
+  };
+}
+
+/**
+ * 여행 추가
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param input - 여행 제목과 기간
+ * @returns 생성된 여행
+ */
+export async function createItinerary(
+  supabase: SupabaseClient,
+  userId: string,
+  input: ItineraryInput,
+): Promise<Itinerary> {
+  const validationError = validateItineraryInput(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("itineraries")
+    .insert({
+      user_id: supabaseUserId,
+      title: input.title.trim(),
+      start_date: input.start_date,
+      end_date: input.end_date,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 여행 추가 에러:", error);
+    throw toItineraryError("여행 추가", error);
+  }
+
+  return data;
+}
+
+/**
+ * 여행 수정 (제목, 기간)
+ *
+ * 일정은 몇째 날(day_index)로 저장하므로 시작일을 바꾸면 일정도 함께 옮겨집니다.
+ * 기간을 줄여 사라지는 날짜에 일정이 있으면 수정하지 않습니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @param input - 여행 제목과 기간
+ * @returns 수정된 여행
+ */
+export async function updateItinerary(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+  input: ItineraryInput,
+): Promise<Itinerary> {
+  const validationError = validateItineraryInput(input);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertItineraryOwner(
+    supabase,
+    supabaseUserId,
+    itineraryId,
+    "여행 수정",
+  );
+
+  // 줄어든 기간 밖에 남는 일정 확인
+  const dayCount = getTripDayCount(input.start_date, input.end_date);
+  const { count, error: countError } = await supabase
+    .from("itinerary_stops")
+    .select("id", { count: "exact", head: true })
+    .eq("itinerary_id", itineraryId)
+    .gte("day_index", dayCount);
+
+  if (countError) {
+    console.error("[Supabase API] 여행 기간 확인 에러:", countError);
+    throw toItineraryError("여행 수정", countError);
+  }
+  if (count && count > 0) {
+    throw new Error(
+      `${dayCount + 1}일차 이후에 일정 ${count}개가 있어 기간을 줄일 수 없습니다. 일정을 먼저 옮기거나 삭제하세요.`,
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("itineraries")
+    .update({
+      title: input.title.trim(),
+      start_date: input.start_date,
+      end_date: input.end_date,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", itineraryId)
+    .eq("user_id", supabaseUserId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 여행 수정 에러:", error);
+    throw toItineraryError("여행 수정", error);
+  }
+
+  return data;
+}
+
+/**
+ * 여행 삭제 (일정도 함께 삭제)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @returns 삭제 성공 여부
+ */
+export async function deleteItinerary(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { error } = await supabase
+    .from("itineraries")
+    .delete()
+    .eq("id", itineraryId)
+    .eq("user_id", supabaseUserId);
+
+  if (error) {
+    console.error("[Supabase API] 여행 삭제 에러:", error);
+    throw toItineraryError("여행 삭제", error);
+  }
+
+  return true;
+}
+
+/**
+ * 일정 추가 (해당 날짜/시간대의 마지막에 추가)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @param input - 일정 (날짜/시간대, 관광지 또는 자유 일정)
+ * @returns 생성된 일정
+ */
+export async function addItineraryStop(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+  input: ItineraryStopInput,
+): Promise<ItineraryStop> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  const itinerary = await assertItineraryOwner(
+    supabase,
+    supabaseUserId,
+    itineraryId,
+    "일정 추가",
+  );
+  const placement = parseStopPlacement(input, "일정 추가");
+  assertDayInRange(itinerary, placement.day_index, "일정 추가");
+
+  const title = input.title.trim();
+  if (!title) {
+    throw new Error("일정 제목을 입력하세요.");
+  }
+
+  // 같은 날짜/시간대의 마지막 순서 조회
+  const { data: lastStop, error: positionError } = await supabase
+    .from("itinerary_stops")
+    .select("position")
+    .eq("itinerary_id", itineraryId)
+    .eq("day_index", placement.day_index)
+    .eq("time_slot", placement.time_slot)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (positionError) {
+    console.error("[Supabase API] 일정 순서 조회 에러:", positionError);
+    throw toItineraryError("일정 추가", positionError);
+  }
+
+  const { data, error } = await supabase
+    .from("itinerary_stops")
+    .insert({
+      day_index: placement.day_index,
+      time_slot: placement.time_slot,
+      content_id: input.content_id,
+      content_type_id: input.content_type_id,
+      title,
+      addr1: input.addr1,
+      mapx: input.mapx,
+      mapy: input.mapy,
+      first_image: input.first_image,
+      note: input.note?.trim() || null,
+      itinerary_id: itineraryId,
+      position: lastStop ? lastStop.position + 1 : 0,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 일정 추가 에러:", error);
+    throw toItineraryError("일정 추가", error);
+  }
+
+  return data;
+}
+
+/**
+ * 일정 수정 (제목, 메모)
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @param stopId - 일정 ID
+ * @param input - 일정 제목과 메모
+ * @returns 수정된 일정
+ */
+export async function updateItineraryStop(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+  stopId: string,
+  input: Pick<ItineraryStop, "title" | "note">,
+): Promise<ItineraryStop> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertItineraryOwner(
+    supabase,
+    supabaseUserId,
+    itineraryId,
+    "일정 수정",
+  );
+
+  const title = input.title.trim();
+  if (!title) {
+    throw new Error("일정 제목을 입력하세요.");
+  }
+
+  const { data, error } = await supabase
+    .from("itinerary_stops")
+    .update({ title, note: input.note?.trim() || null })
+    .eq("id", stopId)
+    .eq("itinerary_id", itineraryId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 일정 수정 에러:", error);
+    throw toItineraryError("일정 수정", error);
+  }
+
+  return data;
+}
+
+/**
+ * 일정 옮기기
+ *
+ * 옮겨 갈 날짜/시간대의 일정 ID를 원하는 순서대로 받아
+ * 모두 해당 날짜/시간대로 옮기고 순서를 다시 매깁니다.
+ * 다른 날짜/시간대에서 끌어온 일정도 목록에 포함하면 함께 옮겨집니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @param placement - 옮겨 갈 날짜/시간대
+ * @param stopIds - 옮겨 간 뒤의 일정 ID 순서
+ * @returns 성공 여부
+ */
+export async function moveItineraryStops(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+  placement: ItineraryStopPlacement,
+  stopIds: string[],
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  const itinerary = await assertItineraryOwner(
+    supabase,
+    supabaseUserId,
+    itineraryId,
+    "일정 옮기기",
+  );
+  const { day_index, time_slot } = parseStopPlacement(placement, "일정 옮기기");
+  assertDayInRange(itinerary, day_index, "일정 옮기기");
+
+  const results = await Promise.all(
+    stopIds.map((stopId, index) =>
+      supabase
+        .from("itinerary_stops")
+        .update({ day_index, time_slot, position: index })
+        .eq("id", stopId)
+        .eq("itinerary_id", itineraryId),
+    ),
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    console.error("[Supabase API] 일정 옮기기 에러:", failed.error);
+    throw toItineraryError("일정 옮기기", failed.error);
+  }
+
+  return true;
+}
+
+/**
+ * 일정 삭제
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param itineraryId - 여행 ID
+ * @param stopId - 일정 ID
+ * @returns 삭제 성공 여부
+ */
+export async function deleteItineraryStop(
+  supabase: SupabaseClient,
+  userId: string,
+  itineraryId: string,
+  stopId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  await assertItineraryOwner(
+    supabase,
+    supabaseUserId,
+    itineraryId,
+    "일정 삭제",
+  );
+
+  const { error } = await supabase
+    .from("itinerary_stops")
+    .delete()
+    .eq("id", stopId)
+    .eq("itinerary_id", itineraryId);
+
+  if (error) {
+    console.error("[Supabase API] 일정 삭제 에러:", error);
+    throw toItineraryError("일정 삭제", error);
+  }
+
+  return true;
+}
@@ -0,0 +1,470 @@
+/**
+ * @file tour-api-mock.ts
+ * @description 한국관광공사 공공 API(KorService2) 로컬 목 핸들러
+ *
+ * 서비스 키와 네트워크 없이 개발/테스트할 수 있도록 녹화된 JSON 픽스처로
+ * KorService2 응답을 흉내 냅니다. Web 표준 Request/Response만 사용하므로
+ * Next.js Route Handler(app/api/mock/tour-api)와 독립 실행 서버
+ * (scripts/mock-tour-api-server.ts)에서 함께 사용합니다.
+ *
+ * 주요 기능:
+ * 1. areaCode2, areaBasedList2, searchKeyword2, detailCommon2, detailIntro2,
+ *    detailImage2, detailPetTour2 픽스처 응답
+ *    (locationBasedList2, searchFestival2, searchStay2, areaBasedSyncList2는 목록 픽스처에서 계산)
+ * 2. 지역/시군구/타입/분류/키워드 필터, 정렬(arrange), 페이지(numOfRows, pageNo) 처리
+ * 3. 장애 시나리오 재현: 한도 초과, 서비스 키 오류, XML 에러 응답, 서버 오류, 느린 응답
+ *
+ * 사용 방법:
+ * - TOUR_API_BASE_URL을 목 서버 주소로 설정 (예: http://localhost:4010/B551011/KorService2)
+ * - 시나리오는 경로 앞에 `_scenario/<이름>`을 붙여 선택 (쉼표로 여러 개 지정 가능)
+ *   예: http://localhost:4010/_scenario/slow-3000,quota/B551011/KorService2
+ * - 또는 TOUR_API_MOCK_SCENARIO 환경변수로 기본 시나리오 지정
+ *
+ * @see {@link /lib/api/tour-api-client.ts} - 응답을 해석하는 클라이언트
+ */
+
+import areaBasedListFixture from "./fixtures/areaBasedList2.json";
+import areaCodeFixture from "./fixtures/areaCode2.json";
+import detailCommonFixture from "./fixtures/detailCommon2.json";
+import detailImageFixture from "./fixtures/detailImage2.json";
+import detailIntroFixture from "./fixtures/detailIntro2.json";
+import detailPetTourFixture from "./fixtures/detailPetTour2.json";
+import { getDistanceMeters } from "@/lib/utils/geolocation";
+
+/**
+ * 목 시나리오
+ *
+ * - quota: 일일 트래픽 초과 XML 에러 응답 (returnReasonCode 22)
+ * - invalid-key: 미등록 서비스 키 XML 에러 응답 (returnReasonCode 30)
+ * - xml-error: XML 형식의 일반 에러 응답 (resultCode 99)
+ * - rate-limit: HTTP 429 응답
+ * - server-error: HTTP 503 게이트웨이 점검 페이지
+ * - flaky: 요청마다 번갈아 HTTP 503 응답 (재시도 동작 확인용)
+ * - slow: 응답 지연 (기본 5초, `slow-<밀리초>`로 지정)
+ */
+export type TourApiMockScenario =
+  | "quota"
+  | "invalid-key"
+  | "xml-error"
+  | "rate-limit"
+  | "server-error"
+  | "flaky"
+  | "slow";
+
+/**
+ * 목 응답 항목 타입 (픽스처의 문자열 필드)
+ */
+type MockItem = Record<string, string | number>;
+
+/**
+ * 오퍼레이션 응답 결과
+ */
+interface MockResult {
+  items: MockItem[];
+  numOfRows: number;
+  pageNo: number;
+  totalCount: number;
+}
+
+/** slow 시나리오 기본 지연 시간 (밀리초) */
+const DEFAULT_SLOW_DELAY_MS = 5000;
+
+/** flaky 시나리오 요청 카운터 (프로세스 단위) */
+let flakyRequestCount = 0;
+
+const listItems = areaBasedListFixture as MockItem[];
+
+/**
+ * 요청 파라미터 읽기 (대소문자 구분 없이 조회, 빈 문자열은 undefined)
+ */
+function getParam(params: URLSearchParams, key: string): string | undefined {
+  const lowerKey = key.toLowerCase();
+  for (const [name, value] of params) {
+    if (name.toLowerCase() === lowerKey && value.trim() !== "") {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 양의 정수 파라미터 읽기
+ */
+function getIntParam(
+  params: URLSearchParams,
+  key: string,
+  defaultValue: number,
+): number {
+  const value = Number(getParam(params, key));
+  return Number.isInteger(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * 시나리오 목록 해석
+ *
+ * @param value - 쉼표로 구분된 시나리오 이름 (예: "slow-3000,quota")
+ * @returns 시나리오 이름과 slow 지연 시간
+ */
+function parseScenarios(value: string | undefined): {
+  scenarios: Set<TourApiMockScenario>;
+  delayMs: number;
+} {
+  const scenarios = new Set<TourApiMockScenario>();
+  let delayMs = DEFAULT_SLOW_DELAY_MS;
+
+  value
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .forEach((name) => {
+      const slowMatch = name.match(/^slow(?:-(\d+))?$/);
+      if (slowMatch) {
+        scenarios.add("slow");
+        if (slowMatch[1]) {
+          delayMs = Number(slowMatch[1]);
+        }
+        return;
+      }
+      scenarios.add(name as TourApiMockScenario);
+    });
+
+  return { scenarios, delayMs };
+}
+
+/**
+ * 요청 경로 해석
+ *
+ * `/_scenario/<이름>/.../<오퍼레이션>` 형식에서 시나리오와 오퍼레이션 이름을 추출합니다.
+ */
+function parsePath(pathname: string): {
+  operation: string;
+  scenario?: string;
+} {
+  const segments = pathname.split("/").filter(Boolean);
+  const scenarioIndex = segments.indexOf("_scenario");
+  const scenario = scenarioIndex >= 0 ? segments[scenarioIndex + 1] : undefined;
+
+  return { operation: segments[segments.length - 1] ?? "", scenario };
+}
+
+/**
+ * 지정한 시간만큼 대기
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 공공데이터포털 XML 에러 응답 생성 (서비스 키 오류, 트래픽 초과 등)
+ */
+function serviceErrorXml(reasonCode: string, authMsg: string): Response {
+  const body = `<OpenAPI_ServiceResponse>
+  <cmmMsgHeader>
+    <errMsg>SERVICE ERROR</errMsg>
+    <returnAuthMsg>${authMsg}</returnAuthMsg>
+    <returnReasonCode>${reasonCode}</returnReasonCode>
+  </cmmMsgHeader>
+</OpenAPI_ServiceResponse>`;
+
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/xml;charset=UTF-8" },
+  });
+}
+
+/**
+ * JSON 응답 생성
+ */
+function jsonResponse(
+  resultCode: string,
+  resultMsg: string,
+  result?: MockResult,
+): Response {
+  const body = result
+    ? {
+        items: result.items.length > 0 ? { item: result.items } : "",
+        numOfRows: result.numOfRows,
+        pageNo: result.pageNo,
+        totalCount: result.totalCount,
+      }
+    : { items: "", numOfRows: 0, pageNo: 0, totalCount: 0 };
+
+  return Response.json({
+    response: { header: { resultCode, resultMsg }, body },
+  });
+}
+
+/**
+ * 시나리오에 해당하는 에러 응답 생성
+ *
+ * @returns 에러 응답 (에러 시나리오가 없으면 null)
+ */
+function scenarioResponse(
+  scenarios: Set<TourApiMockScenario>,
+): Response | null {
+  if (scenarios.has("quota")) {
+    return serviceErrorXml(
+      "22",
+      "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+    );
+  }
+  if (scenarios.has("invalid-key")) {
+    return serviceErrorXml("30", "SERVICE_KEY_IS_NOT_REGISTERED_ERROR");
+  }
+  if (scenarios.has("xml-error")) {
+    return new Response(
+      `<response>
+  <header>
+    <resultCode>99</resultCode>
+    <resultMsg>UNKNOWN_ERROR</resultMsg>
+  </header>
+</response>`,
+      { status: 200, headers: { "Content-Type": "text/xml;charset=UTF-8" } },
+    );
+  }
+  if (scenarios.has("rate-limit")) {
+    return new Response("Too Many Requests", {
+      status: 429,
+      statusText: "Too Many Requests",
+    });
+  }
+  if (
+    scenarios.has("server-error") ||
+    (scenarios.has("flaky") && flakyRequestCount++ % 2 === 0)
+  ) {
+    return new Response(
+      "<html><body><h1>503 Service Temporarily Unavailable</h1></body></html>",
+      {
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: { "Content-Type": "text/html" },
+      },
+    );
+  }
+  return null;
+}
+
+/**
+ * 목록 페이지 계산
+ */
+function paginate(items: MockItem[], params: URLSearchParams): MockResult {
+  const numOfRows = getIntParam(params, "numOfRows", 10);
+  const pageNo = getIntParam(params, "pageNo", 1);
+  const start = (pageNo - 1) * numOfRows;
+
+  return {
+    items: items.slice(start, start + numOfRows),
+    numOfRows,
+    pageNo,
+    totalCount: items.length,
+  };
+}
+
+/**
+ * 목록 필터 및 정렬
+ *
+ * areaBasedList2, searchKeyword2, searchFestival2, searchStay2가 공통으로 사용합니다.
+ */
+function filterList(params: URLSearchParams, items = listItems): MockItem[] {
+  const filters: Array<[string, string]> = [
+    ["areaCode", "areacode"],
+    ["sigunguCode", "sigungucode"],
+    ["contentTypeId", "contenttypeid"],
+    ["cat1", "cat1"],
+    ["cat2", "cat2"],
+    ["cat3", "cat3"],
+  ];
+
+  const filtered = items.filter((item) =>
+    filters.every(([param, field]) => {
+      const value = getParam(params, param);
+      return !value || String(item[field]) === value;
+    }),
+  );
+
+  // 정렬: A/O 제목순, C/Q 수정일순, D/R 생성일순 (O, Q, R은 대표 이미지가 있는 항목만)
+  const arrange = getParam(params, "arrange") ?? "C";
+  const withImage = ["O", "Q", "R"].includes(arrange)
+    ? filtered.filter((item) => item.firstimage)
+    : filtered;
+  const sortField =
+    arrange === "A" || arrange === "O"
+      ? "title"
+      : arrange === "D" || arrange === "R"
+        ? "createdtime"
+        : "modifiedtime";
+
+  return [...withImage].sort((a, b) =>
+    sortField === "title"
+      ? String(a.title).localeCompare(String(b.title), "ko")
+      : String(b[sortField]).localeCompare(String(a[sortField])),
+  );
+}
+
+/**
+ * contentId로 상세 픽스처 조회
+ */
+function findByContentId(
+  fixture: MockItem[],
+  params: URLSearchParams,
+): MockItem[] {
+  const contentId = getParam(params, "contentId");
+  return fixture.filter((item) => item.contentid === contentId);
+}
+
+/**
+ * 오퍼레이션별 응답 계산
+ *
+ * @returns 응답 결과 (필수 파라미터가 없으면 에러 메시지)
+ */
+function runOperation(
+  operation: string,
+  params: URLSearchParams,
+): MockResult | { error: string } {
+  const requireParam = (key: string) =>
+    getParam(params, key) ? null : { error: `${key} 파라미터가 필요합니다` };
+
+  switch (operation) {
+    case "areaCode2": {
+      const areaCode = getParam(params, "areaCode") ?? "";
+      const areas = (areaCodeFixture as Record<string, MockItem[]>)[areaCode];
+      return paginate(areas ?? [], params);
+    }
+    case "areaBasedList2":
+      return paginate(filterList(params), params);
+    case "searchKeyword2": {
+      const missing = requireParam("keyword");
+      if (missing) return missing;
+      const keyword = getParam(params, "keyword")!.toLowerCase();
+      return paginate(
+        filterList(params).filter(
+          (item) =>
+            String(item.title).toLowerCase().includes(keyword) ||
+            String(item.addr1).toLowerCase().includes(keyword),
+        ),
+        params,
+      );
+    }
+    case "searchFestival2": {
+      const missing = requireParam("eventStartDate");
+      if (missing) return missing;
+      const startDate = getParam(params, "eventStartDate")!;
+      const endDate = getParam(params, "eventEndDate");
+      return paginate(
+        filterList(params).filter(
+          (item) =>
+            item.contenttypeid === "15" &&
+            String(item.eventenddate) >= startDate &&
+            (!endDate || String(item.eventstartdate) <= endDate),
+        ),
+        params,
+      );
+    }
+    case "areaBasedSyncList2": {
+      // 목록 픽스처는 모두 표출 항목이므로 showflag "1"을 붙여 반환
+      const modifiedtime = getParam(params, "modifiedtime");
+      const showflag = getParam(params, "showflag");
+      return paginate(
+        filterList(params)
+          .filter(
+            (item) =>
+              (!modifiedtime ||
+                String(item.modifiedtime).startsWith(modifiedtime)) &&
+              (!showflag || showflag === "1"),
+          )
+          .map((item) => ({ ...item, showflag: "1" })),
+        params,
+      );
+    }
+    case "searchStay2":
+      return paginate(
+        filterList(params).filter((item) => item.contenttypeid === "32"),
+        params,
+      );
+    case "locationBasedList2": {
+      const mapX = Number(getParam(params, "mapX"));
+      const mapY = Number(getParam(params, "mapY"));
+      if (!Number.isFinite(mapX) || !Number.isFinite(mapY)) {
+        return { error: "mapX, mapY 파라미터가 필요합니다" };
+      }
+      const radius = getIntParam(params, "radius", 20000);
+      const nearby = filterList(params)
+        .map((item) => ({
+          ...item,
+          dist: getDistanceMeters(
+            { lat: mapY, lng: mapX },
+            { lat: Number(item.mapy), lng: Number(item.mapx) },
+          ).toFixed(1),
+        }))
+        .filter((item) => Number(item.dist) <= radius)
+        .sort((a, b) => Number(a.dist) - Number(b.dist));
+      return paginate(nearby, params);
+    }
+    case "detailCommon2":
+    case "detailIntro2":
+    case "detailImage2":
+    case "detailPetTour2": {
+      const missing = requireParam("contentId");
+      if (missing) return missing;
+      const fixture = {
+        detailCommon2: detailCommonFixture,
+        detailIntro2: detailIntroFixture,
+        detailImage2: detailImageFixture,
+        detailPetTour2: detailPetTourFixture,
+      }[operation] as MockItem[];
+      return paginate(findByContentId(fixture, params), params);
+    }
+    default:
+      // 픽스처가 없는 오퍼레이션(categoryCode2, detailInfo2 등)은 빈 결과로 응답
+      console.warn(`[Tour API Mock] 픽스처 없는 오퍼레이션: ${operation}`);
+      return paginate([], params);
+  }
+}
+
+/**
+ * 목 요청 처리
+ *
+ * @param request - KorService2 형식의 GET 요청
+ * @param options.defaultScenario - 경로에 시나리오가 없을 때 사용할 시나리오
+ *   (기본값: TOUR_API_MOCK_SCENARIO 환경변수)
+ * @returns KorService2 형식의 응답
+ */
+export async function handleTourApiMockRequest(
+  request: Request,
+  options: { defaultScenario?: string } = {},
+): Promise<Response> {
+  const url = new URL(request.url);
+  const { operation, scenario } = parsePath(url.pathname);
+  const { scenarios, delayMs } = parseScenarios(
+    scenario ?? options.defaultScenario ?? process.env.TOUR_API_MOCK_SCENARIO,
+  );
+
+  console.log(`[Tour API Mock] ${operation}`, {
+    params: Object.fromEntries(url.searchParams),
+    scenarios: [...scenarios],
+  });
+
+  if (scenarios.has("slow")) {
+    await sleep(delayMs);
+  }
+
+  const errorResponse = scenarioResponse(scenarios);
+  if (errorResponse) {
+    return errorResponse;
+  }
+
+  // 실제 서비스처럼 서비스 키가 없으면 XML 에러 응답
+  if (!getParam(url.searchParams, "serviceKey")) {
+    return serviceErrorXml("30", "SERVICE_KEY_IS_NOT_REGISTERED_ERROR");
+  }
+
+  const result = runOperation(operation, url.searchParams);
+  if ("error" in result) {
+    return jsonResponse(
+      "10",
+      `INVALID_REQUEST_PARAMETER_ERROR (${result.error})`,
+    );
+  }
+
+  return jsonResponse("0000", "OK", result);
+}
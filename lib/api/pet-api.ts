@@ -0,0 +1,149 @@
+/**
+ * @file pet-api.ts
+ * @description Supabase 쿼리 함수들 (반려동물 프로필)
+ *
+ * 반려동물 프로필 기능을 위한 Supabase 데이터베이스 쿼리 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 목록 조회
+ * 2. 반려동물 추가
+ * 3. 반려동물 수정
+ * 4. 반려동물 삭제
+ *
+ * 주의사항:
+ * - 서버 사이드에서는 `createClerkSupabaseClient()` 사용
+ * - 클라이언트 사이드에서는 `useClerkSupabaseClient()` 훅 사용
+ *
+ * @see {@link /lib/types/pet.ts} - 반려동물 프로필 타입 정의
+ * @see {@link /supabase/migrations/pets.sql} - 데이터베이스 스키마
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import type { Pet, PetInput } from "@/lib/types/pet";
+
+/**
+ * 반려동물 목록 조회
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @returns 반려동물 목록 (등록순)
+ */
+export async function getPets(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Pet[]> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("pets")
+    .select("*")
+    .eq("user_id", supabaseUserId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[Supabase API] 반려동물 목록 조회 에러:", error);
+    throw new Error(
+      `반려동물 목록 조회 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return data ?? [];
+}
+
+/**
+ * 반려동물 추가
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param input - 반려동물 프로필
+ * @returns 생성된 반려동물
+ */
+export async function createPet(
+  supabase: SupabaseClient,
+  userId: string,
+  input: PetInput,
+): Promise<Pet> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("pets")
+    .insert({ ...input, user_id: supabaseUserId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 반려동물 추가 에러:", error);
+    throw new Error(
+      `반려동물 추가 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return data;
+}
+
+/**
+ * 반려동물 수정
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param petId - 반려동물 ID
+ * @param input - 반려동물 프로필
+ * @returns 수정된 반려동물
+ */
+export async function updatePet(
+  supabase: SupabaseClient,
+  userId: string,
+  petId: string,
+  input: PetInput,
+): Promise<Pet> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("pets")
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq("id", petId)
+    .eq("user_id", supabaseUserId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 반려동물 수정 에러:", error);
+    throw new Error(
+      `반려동물 수정 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return data;
+}
+
+/**
+ * 반려동물 삭제
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param petId - 반려동물 ID
+ * @returns 삭제 성공 여부
+ */
+export async function deletePet(
+  supabase: SupabaseClient,
+  userId: string,
+  petId: string,
+): Promise<boolean> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { error } = await supabase
+    .from("pets")
+    .delete()
+    .eq("id", petId)
+    .eq("user_id", supabaseUserId);
+
+  if (error) {
+    console.error("[Supabase API] 반려동물 삭제 에러:", error);
+    throw new Error(
+      `반려동물 삭제 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return true;
+}
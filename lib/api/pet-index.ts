@@ -0,0 +1,393 @@
+/**
+ * @file pet-index.ts
+ * @description 반려동물 동반 가능 관광지 인덱스 (Supabase tour_pet_index)
+ *
+ * 관광지마다 detailPetTour2를 호출하던 방식 대신, 백그라운드 작업이 미리 조회한
+ * 반려동물 정보를 인덱스 테이블에 저장하고 필터는 한 번의 조회로 처리합니다.
+ *
+ * 주요 기능:
+ * 1. 인덱스 갱신: 미확인/수정일 변경/30일 경과 관광지의 detailPetTour2 조회 후 저장
+ * 2. 파서 버전이 바뀐 항목은 API 호출 없이 저장된 정보를 다시 구조화
+ * 3. 동반 가능 관광지 조회: 지역/타입/분류/크기/종류/장소 조건, 페이지와 전체 개수 (pet_friendly_tours 뷰)
+ * 4. 관광지 ID 목록의 반려동물 정보 일괄 조회 (검색/내 주변 결과 필터용)
+ *
+ * 주의사항:
+ * - 대상 관광지는 카탈로그 미러(tours 테이블)에서 가져오므로 먼저 동기화해야 합니다.
+ * - 조회 함수는 TOUR_MIRROR_ENABLED가 아니거나 인덱스가 비어 있으면 null을 반환합니다.
+ *   호출하는 쪽에서 detailPetTour2 조회로 대체합니다.
+ * - Service Role 클라이언트를 사용하므로 서버 사이드에서만 호출해야 합니다.
+ *
+ * @see {@link /lib/api/tour-sync.ts} - 카탈로그 미러 동기화
+ * @see {@link /lib/utils/pet-info-parser.ts} - 반려동물 정보 구조화
+ * @see {@link /supabase/migrations/tour_pet_index.sql} - 데이터베이스 스키마
+ */
+
+import { getDetailPetTour } from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { isTourMirrorEnabled, toTourItem } from "@/lib/api/tour-mirror";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { PetSize, PetSpecies, PetTourInfo } from "@/lib/types/tour";
+import type {
+  PetFriendlyTourPage,
+  PetIndexRefreshOptions,
+  PetIndexRefreshResult,
+  TourPetIndexRow,
+  TourRow,
+} from "@/lib/types/tour-mirror";
+import { isPetFriendlyInfo } from "@/lib/utils/pet-info";
+import {
+  getPetFilterValues,
+  parsePetInfo,
+  PET_INFO_PARSER_VERSION,
+} from "@/lib/utils/pet-info-parser";
+
+/** 기본 갱신 관광지 수 */
+const DEFAULT_REFRESH_LIMIT = 200;
+
+/** detailPetTour2 동시 조회 수 (실제 동시 요청 수는 TourApiClient가 제한) */
+const REFRESH_BATCH_SIZE = 10;
+
+/**
+ * pet_friendly_tours 뷰에서 조회할 컬럼
+ */
+const PET_FRIENDLY_COLUMNS =
+  "content_id, content_type_id, title, addr1, addr2, area_code, sigungu_code, cat1, cat2, cat3, mapx, mapy, first_image, first_image2, tel, modified_time, pet_info";
+
+/**
+ * 실내/실외 필터 컬럼
+ */
+const PET_PLACE_COLUMNS = {
+  indoor: "indoor_allowed",
+  outdoor: "outdoor_allowed",
+} as const;
+
+/**
+ * 반려동물 동반 가능 관광지 조회 옵션
+ */
+export interface PetFriendlyTourQuery {
+  areaCode?: string;
+  sigunguCode?: string;
+  contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  petSize?: PetSize;
+  petType?: PetSpecies;
+  petPlace?: keyof typeof PET_PLACE_COLUMNS;
+  numOfRows?: number;
+  pageNo?: number;
+}
+
+/**
+ * 반려동물 정보를 구조화 컬럼으로 변환
+ */
+function toPetFactColumns(
+  petInfo: PetTourInfo | null,
+): Pick<
+  TourPetIndexRow,
+  | "pet_facts"
+  | "allowed_sizes"
+  | "allowed_species"
+  | "indoor_allowed"
+  | "outdoor_allowed"
+  | "parser_version"
+> {
+  const facts = parsePetInfo(petInfo);
+  const values = getPetFilterValues(facts);
+
+  return {
+    pet_facts: petInfo ? facts : null,
+    allowed_sizes: values.sizes,
+    allowed_species: values.species,
+    indoor_allowed: values.indoor,
+    outdoor_allowed: values.outdoor,
+    parser_version: PET_INFO_PARSER_VERSION,
+  };
+}
+
+/**
+ * 반려동물 정보를 인덱스 레코드로 변환
+ */
+function toPetIndexRow(
+  contentId: string,
+  modifiedTime: string,
+  petInfo: PetTourInfo | null,
+): TourPetIndexRow {
+  return {
+    content_id: contentId,
+    pet_info: petInfo,
+    pet_friendly: isPetFriendlyInfo(petInfo),
+    acmpy_type_cd: petInfo?.acmpyTypeCd ?? null,
+    acmpy_psbl_cpam: petInfo?.acmpyPsblCpam ?? null,
+    acmpy_need_mtr: petInfo?.acmpyNeedMtr ?? null,
+    etc_acmpy_info: petInfo?.etcAcmpyInfo ?? null,
+    source_modified_time: modifiedTime,
+    checked_at: new Date().toISOString(),
+    ...toPetFactColumns(petInfo),
+  };
+}
+
+/**
+ * 파서 버전이 바뀐 인덱스 항목 재해석
+ *
+ * API를 호출하지 않고 저장된 pet_info로 구조화 컬럼만 다시 계산합니다.
+ *
+ * @param limit - 이번 실행에서 재해석할 최대 항목 수
+ * @returns 재해석한 항목 수
+ */
+async function reparsePetIndex(limit: number): Promise<number> {
+  const supabase = getServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("tour_pet_index")
+    .select("content_id, pet_info")
+    .lt("parser_version", PET_INFO_PARSER_VERSION)
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`반려동물 인덱스 재해석 대상 조회 실패: ${error.message}`);
+  }
+
+  const rows = (
+    (data ?? []) as Pick<TourPetIndexRow, "content_id" | "pet_info">[]
+  ).map((row) => ({
+    content_id: row.content_id,
+    ...toPetFactColumns(row.pet_info),
+  }));
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("tour_pet_index")
+      .upsert(rows, { onConflict: "content_id" });
+
+    if (upsertError) {
+      throw new Error(
+        `반려동물 인덱스 재해석 저장 실패: ${upsertError.message}`,
+      );
+    }
+    console.log(`[Pet Index] 재해석: ${rows.length}건`);
+  }
+
+  return rows.length;
+}
+
+/**
+ * 반려동물 정보 인덱스 갱신
+ *
+ * 파서 버전이 바뀐 항목을 먼저 재해석한 뒤,
+ * 확인한 적 없는 관광지를 먼저, 그다음 오래전에 확인한 관광지 순서로 limit개를 확인합니다.
+ * 한도 초과/서비스 키 오류가 발생하면 남은 관광지는 다음 실행으로 미룹니다.
+ *
+ * @param options - 갱신 옵션
+ * @returns 갱신 결과
+ */
+export async function refreshPetIndex(
+  options: PetIndexRefreshOptions = {},
+): Promise<PetIndexRefreshResult> {
+  const supabase = getServiceRoleClient();
+  const limit = options.limit ?? DEFAULT_REFRESH_LIMIT;
+  const reparsed = await reparsePetIndex(limit);
+
+  const { data, error } = await supabase
+    .from("tour_pet_index_pending")
+    .select("content_id, modified_time")
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`반려동물 인덱스 갱신 대상 조회 실패: ${error.message}`);
+  }
+
+  const targets = (data ?? []) as Pick<
+    TourRow,
+    "content_id" | "modified_time"
+  >[];
+  console.log(`[Pet Index] 갱신 대상: ${targets.length}건`);
+
+  const result: PetIndexRefreshResult = {
+    reparsed,
+    checked: 0,
+    petFriendly: 0,
+    failed: 0,
+    interrupted: false,
+  };
+
+  for (let i = 0; i < targets.length; i += REFRESH_BATCH_SIZE) {
+    const batch = targets.slice(i, i + REFRESH_BATCH_SIZE);
+    const settled = await Promise.allSettled(
+      batch.map(async (target) =>
+        toPetIndexRow(
+          target.content_id,
+          target.modified_time,
+          await getDetailPetTour(target.content_id),
+        ),
+      ),
+    );
+
+    const rows: TourPetIndexRow[] = [];
+    for (const [index, outcome] of settled.entries()) {
+      if (outcome.status === "fulfilled") {
+        rows.push(outcome.value);
+        continue;
+      }
+      result.failed++;
+      if (isTourApiAccessError(outcome.reason)) {
+        result.interrupted = true;
+      } else {
+        console.warn(
+          `[Pet Index] 반려동물 정보 조회 실패: ${batch[index].content_id}`,
+          outcome.reason,
+        );
+      }
+    }
+
+    if (rows.length > 0) {
+      const { error: upsertError } = await supabase
+        .from("tour_pet_index")
+        .upsert(rows, { onConflict: "content_id" });
+
+      if (upsertError) {
+        throw new Error(`반려동물 인덱스 저장 실패: ${upsertError.message}`);
+      }
+      result.checked += rows.length;
+      result.petFriendly += rows.filter((row) => row.pet_friendly).length;
+    }
+
+    if (result.interrupted) {
+      console.warn("[Pet Index] 한도 초과/서비스 키 오류로 갱신 중단");
+      break;
+    }
+  }
+
+  console.log("[Pet Index] 갱신 완료:", result);
+  return result;
+}
+
+/**
+ * 인덱스에 갱신된 관광지가 하나라도 있는지 확인
+ */
+async function hasPetIndexRows(): Promise<boolean> {
+  const { data, error } = await getServiceRoleClient()
+    .from("tour_pet_index")
+    .select("content_id")
+    .limit(1);
+
+  if (error) {
+    throw new Error(`반려동물 인덱스 조회 실패: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+/**
+ * 반려동물 동반 가능 관광지 조회
+ *
+ * pet_friendly_tours 뷰를 한 번 조회해 현재 페이지 항목과 전체 개수를 함께 반환합니다.
+ *
+ * @param options - 조회 옵션
+ * @returns 현재 페이지 항목과 전체 개수 (수정일 최신순, 미러 비활성화/인덱스 미생성이면 null)
+ * @throws 인덱스 조회 실패 시
+ */
+export async function queryPetFriendlyTours(
+  options: PetFriendlyTourQuery = {},
+): Promise<PetFriendlyTourPage | null> {
+  if (!isTourMirrorEnabled()) {
+    return null;
+  }
+
+  const numOfRows = options.numOfRows ?? 12;
+  const pageNo = options.pageNo ?? 1;
+  const from = (pageNo - 1) * numOfRows;
+
+  let query = getServiceRoleClient()
+    .from("pet_friendly_tours")
+    .select(PET_FRIENDLY_COLUMNS, { count: "exact" });
+
+  const filters: Array<[string, string | undefined]> = [
+    ["area_code", options.areaCode],
+    ["sigungu_code", options.sigunguCode],
+    ["content_type_id", options.contentTypeId],
+    ["cat1", options.cat1],
+    ["cat2", options.cat2],
+    ["cat3", options.cat3],
+  ];
+  for (const [column, value] of filters) {
+    if (value) {
+      query = query.eq(column, value);
+    }
+  }
+
+  // 크기/종류/장소는 구조화 컬럼으로 필터 (확인되지 않은 관광지는 제외)
+  if (options.petSize) {
+    query = query.contains("allowed_sizes", [options.petSize]);
+  }
+  if (options.petType) {
+    query = query.contains("allowed_species", [options.petType]);
+  }
+  if (options.petPlace) {
+    query = query.eq(PET_PLACE_COLUMNS[options.petPlace], true);
+  }
+
+  const { data, count, error } = await query
+    .order("modified_time", { ascending: false })
+    .order("content_id", { ascending: true })
+    .range(from, from + numOfRows - 1);
+
+  if (error) {
+    throw new Error(`반려동물 동반 가능 관광지 조회 실패: ${error.message}`);
+  }
+
+  // 결과가 없으면 인덱스가 아직 만들어지지 않았는지 확인
+  if (!count && !(await hasPetIndexRows())) {
+    console.warn("[Pet Index] 인덱스가 비어 있음, API 조회로 대체");
+    return null;
+  }
+
+  const rows = (data ?? []) as Array<
+    TourRow & Pick<TourPetIndexRow, "pet_info">
+  >;
+  console.log(
+    `[Pet Index] 동반 가능 관광지 조회: ${rows.length}건 (전체 ${count ?? 0}건)`,
+  );
+
+  return {
+    items: rows.map((row) => ({
+      tour: toTourItem(row),
+      petInfo: row.pet_info!,
+    })),
+    totalCount: count ?? 0,
+  };
+}
+
+/**
+ * 관광지 ID 목록의 반려동물 정보 일괄 조회
+ *
+ * 인덱스에 있는 관광지만 결과에 포함됩니다. 반려동물 정보가 없는 것으로 확인된 관광지는 null입니다.
+ *
+ * @param contentIds - 콘텐츠ID 목록
+ * @returns 콘텐츠ID별 반려동물 정보 (미러 비활성화면 null)
+ * @throws 인덱스 조회 실패 시
+ */
+export async function getPetIndexEntries(
+  contentIds: string[],
+): Promise<Map<string, PetTourInfo | null> | null> {
+  if (!isTourMirrorEnabled()) {
+    return null;
+  }
+  if (contentIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await getServiceRoleClient()
+    .from("tour_pet_index")
+    .select("content_id, pet_info")
+    .in("content_id", contentIds);
+
+  if (error) {
+    throw new Error(`반려동물 인덱스 조회 실패: ${error.message}`);
+  }
+
+  return new Map(
+    ((data ?? []) as Pick<TourPetIndexRow, "content_id" | "pet_info">[]).map(
+      (row) => [row.content_id, row.pet_info],
+    ),
+  );
+}
@@ -0,0 +1,313 @@
+/**
+ * @file public-list-api.ts
+ * @description Supabase 쿼리 함수들 (공개 북마크 리스트)
+ *
+ * 북마크 목록(전체 또는 컬렉션)을 /lists/[slug] 주소로 공개하기 위한 쿼리 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 내 공개 리스트 목록 조회
+ * 2. 공개 (처음이면 새 주소 생성, 이미 있으면 제목/설명 수정 후 다시 공개)
+ * 3. 공개 중단/재공개
+ * 4. 공개 페이지 조회 (관광지 스냅샷만 반환, 메모/태그/평점은 제외)
+ * 5. 조회수 증가
+ *
+ * 주의사항:
+ * - 공개 페이지 조회(getPublishedList)와 조회수 증가는 로그인하지 않은 방문자도 호출하므로
+ *   서버 사이드에서 `getServiceRoleClient()`를 전달합니다.
+ * - 그 외 함수는 클라이언트 사이드에서 `useClerkSupabaseClient()` 훅으로 호출합니다.
+ *
+ * @see {@link /lib/types/public-list.ts} - 공개 리스트 타입 정의
+ * @see {@link /supabase/migrations/public_lists.sql} - 데이터베이스 스키마
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseUserId } from "@/lib/api/supabase-api";
+import type { Bookmark } from "@/lib/types/bookmark";
+import type {
+  PublicList,
+  PublishedList,
+  PublishListInput,
+} from "@/lib/types/public-list";
+import { toBookmarkWithTour } from "@/lib/utils/bookmark-snapshot";
+import { createPublicListSlug } from "@/lib/utils/public-list";
+
+/** 공개 페이지에 표시하는 최대 관광지 수 */
+const MAX_PUBLISHED_TOURS = 300;
+
+/** slug 중복 시 다시 시도하는 횟수 */
+const SLUG_RETRY_COUNT = 3;
+
+/**
+ * 공개 리스트 에러 메시지 변환
+ */
+function toPublicListError(
+  action: string,
+  error: { code?: string; message?: string },
+): Error {
+  return new Error(
+    `${action} 실패: ${error.message || error.code || "Unknown error"}`,
+  );
+}
+
+/**
+ * 컬렉션 소유자인지 확인 (소유자가 아니면 에러)
+ */
+async function assertCollectionOwner(
+  supabase: SupabaseClient,
+  supabaseUserId: string,
+  collectionId: string,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("bookmark_collections")
+    .select("id")
+    .eq("id", collectionId)
+    .eq("user_id", supabaseUserId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Supabase API] 컬렉션 소유자 확인 에러:", error);
+    throw toPublicListError("공개", error);
+  }
+  if (!data) {
+    throw new Error("컬렉션 소유자만 공개할 수 있습니다.");
+  }
+}
+
+/**
+ * 내 공개 리스트 목록 조회
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @returns 공개 리스트 목록 (공개 중단한 리스트 포함)
+ */
+export async function getPublicLists(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<PublicList[]> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("public_lists")
+    .select("*")
+    .eq("user_id", supabaseUserId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[Supabase API] 공개 리스트 목록 조회 에러:", error);
+    throw toPublicListError("공개 리스트 목록 조회", error);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * 북마크 목록 공개
+ *
+ * 같은 대상(전체 북마크 또는 컬렉션)의 공개 리스트가 이미 있으면 주소를 유지한 채
+ * 제목/설명을 수정하고 다시 공개합니다. 컬렉션은 소유자만 공개할 수 있습니다.
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param input - 공개할 대상과 제목/설명
+ * @returns 공개 리스트
+ * @throws {Error} 다른 사용자의 컬렉션
+ */
+export async function publishList(
+  supabase: SupabaseClient,
+  userId: string,
+  input: PublishListInput,
+): Promise<PublicList> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+  if (input.collectionId) {
+    await assertCollectionOwner(supabase, supabaseUserId, input.collectionId);
+  }
+
+  const fields = {
+    title: input.title.trim(),
+    description: input.description?.trim() || null,
+    is_published: true,
+    published_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  let existingQuery = supabase
+    .from("public_lists")
+    .select("id")
+    .eq("user_id", supabaseUserId);
+  existingQuery = input.collectionId
+    ? existingQuery.eq("collection_id", input.collectionId)
+    : existingQuery.is("collection_id", null);
+  const { data: existing, error: existingError } =
+    await existingQuery.maybeSingle();
+
+  if (existingError) {
+    console.error("[Supabase API] 공개 리스트 조회 에러:", existingError);
+    throw toPublicListError("공개", existingError);
+  }
+
+  if (existing) {
+    const { data, error } = await supabase
+      .from("public_lists")
+      .update(fields)
+      .eq("id", existing.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("[Supabase API] 공개 리스트 수정 에러:", error);
+      throw toPublicListError("공개", error);
+    }
+    return data;
+  }
+
+  // 새 주소로 추가 (드물게 slug가 겹치면 다른 주소로 다시 시도)
+  for (let attempt = 1; ; attempt++) {
+    const { data, error } = await supabase
+      .from("public_lists")
+      .insert({
+        ...fields,
+        user_id: supabaseUserId,
+        collection_id: input.collectionId,
+        slug: createPublicListSlug(fields.title),
+      })
+      .select()
+      .single();
+
+    if (!error) {
+      return data;
+    }
+    if (error.code !== "23505" || attempt >= SLUG_RETRY_COUNT) {
+      console.error("[Supabase API] 공개 리스트 추가 에러:", error);
+      throw toPublicListError("공개", error);
+    }
+  }
+}
+
+/**
+ * 공개 중단/재공개
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param listId - 공개 리스트 ID
+ * @param isPublished - 공개 여부
+ * @returns 수정된 공개 리스트
+ */
+export async function setPublicListPublished(
+  supabase: SupabaseClient,
+  userId: string,
+  listId: string,
+  isPublished: boolean,
+): Promise<PublicList> {
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("public_lists")
+    .update({
+      is_published: isPublished,
+      updated_at: new Date().toISOString(),
+      ...(isPublished && { published_at: new Date().toISOString() }),
+    })
+    .eq("id", listId)
+    .eq("user_id", supabaseUserId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 공개 여부 변경 에러:", error);
+    throw toPublicListError(isPublished ? "공개" : "공개 중단", error);
+  }
+
+  return data;
+}
+
+/**
+ * 공개 페이지 조회
+ *
+ * 공개 중인 리스트만 반환합니다. 관광지 정보는 북마크에 저장된 스냅샷을 사용하며
+ * 스냅샷이 아직 없는 북마크는 제외합니다.
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param slug - 공개 주소
+ * @returns 공개 리스트와 관광지 목록 (없거나 공개 중단이면 null)
+ */
+export async function getPublishedList(
+  supabase: SupabaseClient,
+  slug: string,
+): Promise<PublishedList | null> {
+  const { data: list, error } = await supabase
+    .from("public_lists")
+    .select("*")
+    .eq("slug", slug)
+    .eq("is_published", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[Supabase API] 공개 리스트 조회 에러:", error);
+    throw toPublicListError("공개 리스트 조회", error);
+  }
+  if (!list) {
+    return null;
+  }
+
+  let bookmarks: Bookmark[];
+  if (list.collection_id) {
+    const { data, error: itemsError } = await supabase
+      .from("collection_items")
+      .select("position, bookmarks(*)")
+      .eq("collection_id", list.collection_id)
+      .order("position", { ascending: true })
+      .limit(MAX_PUBLISHED_TOURS);
+
+    if (itemsError) {
+      console.error("[Supabase API] 공개 컬렉션 조회 에러:", itemsError);
+      throw toPublicListError("공개 리스트 조회", itemsError);
+    }
+    bookmarks = ((data ?? []) as unknown as { bookmarks: Bookmark | null }[])
+      .map((item) => item.bookmarks)
+      .filter((bookmark): bookmark is Bookmark => bookmark !== null);
+  } else {
+    const { data, error: bookmarksError } = await supabase
+      .from("bookmarks")
+      .select("*")
+      .eq("user_id", list.user_id)
+      .order("created_at", { ascending: false })
+      .limit(MAX_PUBLISHED_TOURS);
+
+    if (bookmarksError) {
+      console.error("[Supabase API] 공개 북마크 조회 에러:", bookmarksError);
+      throw toPublicListError("공개 리스트 조회", bookmarksError);
+    }
+    bookmarks = data ?? [];
+  }
+
+  // 관광지 스냅샷만 공개 (메모, 태그, 평점 등 여행 기록은 포함하지 않음)
+  const tours = bookmarks.flatMap((bookmark) => {
+    const item = toBookmarkWithTour(bookmark);
+    return item ? [item.tour] : [];
+  });
+
+  return { list, tours };
+}
+
+/**
+ * 공개 페이지 조회수 증가
+ *
+ * @param supabase - Supabase 클라이언트 (서버 사이드 Service Role)
+ * @param slug - 공개 주소
+ * @returns 증가한 조회수 (공개 중이 아니면 null)
+ */
+export async function incrementPublicListView(
+  supabase: SupabaseClient,
+  slug: string,
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc("increment_public_list_view", {
+    p_slug: slug,
+  });
+
+  if (error) {
+    console.error("[Supabase API] 조회수 증가 에러:", error);
+    throw toPublicListError("조회수 증가", error);
+  }
+
+  return typeof data === "number" ? data : null;
+}
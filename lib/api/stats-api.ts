@@ -10,8 +10,8 @@
  * 3. 전체 통계 요약 (getStatsSummary)
  *
  * 성능 최적화:
- * - 병렬 API 호출로 성능 최적화
- * - 에러 처리 및 재시도 로직
+ * - 병렬 API 호출로 성능 최적화 (동시 요청 수는 TourApiClient가 제한)
+ * - 에러 처리 및 재시도 로직 (TourApiClient의 지수 백오프)
  * - 데이터 캐싱 설정 (revalidate: 3600)
  *
  * @see {@link /docs/TODO.md#phase-4-통계-대시보드-페이지-stats} - TODO 문서의 통계 대시보드 섹션
@@ -23,56 +23,14 @@ import {
   getTourTypeName,
 } from "@/lib/utils/tour-type-converter";
 import type { RegionStats, StatsSummary, TypeStats } from "@/lib/types/stats";
-import { TOUR_API_BASE_URL, TOUR_API_COMMON_PARAMS } from "@/lib/api/constants";
+import { TourApiClient } from "@/lib/api/tour-api-client";
 
 /**
- * API Base URL
- */
-const BASE_URL = TOUR_API_BASE_URL;
-
-/**
- * API 공통 파라미터
+ * 통계용 API 클라이언트
+ *
+ * 동시 요청 제한과 속도 제한은 tour-api.ts와 프로세스 단위로 공유합니다.
  */
-const COMMON_PARAMS = TOUR_API_COMMON_PARAMS;
-
-/**
- * API 응답 타입 (totalCount 포함)
- */
-interface ApiResponseWithCount<T> {
-  response: {
-    header: {
-      resultCode: string;
-      resultMsg: string;
-    };
-    body: {
-      items?: {
-        item: T | T[];
-      };
-      numOfRows: number;
-      pageNo: number;
-      totalCount: number;
-    };
-  };
-}
-
-/**
- * API 서비스 키 가져오기
- */
-function getServiceKey(): string {
-  const key =
-    process.env.NEXT_PUBLIC_TOUR_API_KEY ||
-    process.env.TOUR_API_KEY ||
-    process.env.NEXT_PUBLIC_TOUR_API_KEY?.trim() ||
-    process.env.TOUR_API_KEY?.trim();
-
-  if (!key || key.trim() === "") {
-    throw new Error(
-      "TOUR_API_KEY 환경변수가 설정되지 않았습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 설정해주세요.",
-    );
-  }
-
-  return key.trim();
-}
+const statsApiClient = new TourApiClient({ logPrefix: "[Stats API]" });
 
 /**
  * API 호출하여 totalCount 가져오기
@@ -85,85 +43,7 @@ async function fetchTotalCount(
   endpoint: string,
   params: Record<string, string | number | undefined>,
 ): Promise<number> {
-  const serviceKey = getServiceKey();
-
-  const searchParams = new URLSearchParams({
-    serviceKey,
-    ...COMMON_PARAMS,
-    ...Object.fromEntries(
-      Object.entries(params).filter(([, value]) => value !== undefined),
-    ),
-  });
-
-  const url = `${BASE_URL}${endpoint}?${searchParams.toString()}`;
-
-  console.log(`[Stats API] totalCount 조회: ${endpoint}`, {
-    params,
-    url: url.substring(0, 100) + "...",
-  });
-
-  try {
-    const response = await fetch(url, {
-      next: { revalidate: 3600 }, // 1시간 캐시
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `API 호출 실패: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data: ApiResponseWithCount<unknown> = await response.json();
-
-    // API 에러 체크
-    if (data.response.header.resultCode !== "0000") {
-      throw new Error(
-        `API 에러: ${data.response.header.resultCode} - ${data.response.header.resultMsg}`,
-      );
-    }
-
-    // totalCount 반환
-    return data.response.body.totalCount || 0;
-  } catch (error) {
-    console.error(`[Stats API] totalCount 조회 실패: ${endpoint}`, error);
-    throw error;
-  }
-}
-
-/**
- * 재시도 설정
- */
-const RETRY_CONFIG = {
-  maxRetries: 3,
-  retryDelay: 1000, // 1초
-} as const;
-
-/**
- * 재시도 로직이 포함된 API 호출
- *
- * @param fn - 실행할 함수
- * @param retries - 남은 재시도 횟수
- * @returns 함수 실행 결과
- */
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  retries: number = RETRY_CONFIG.maxRetries,
-): Promise<T> {
-  try {
-    return await fn();
-  } catch (error) {
-    if (retries > 0) {
-      console.log(
-        `[Stats API] 재시도 중... (남은 횟수: ${retries})`,
-        error instanceof Error ? error.message : String(error),
-      );
-      await new Promise((resolve) =>
-        setTimeout(resolve, RETRY_CONFIG.retryDelay),
-      );
-      return withRetry(fn, retries - 1);
-    }
-    throw error;
-  }
+  return statsApiClient.getTotalCount(endpoint, params);
 }
 
 /**
@@ -180,32 +60,28 @@ export async function getRegionStats(): Promise<RegionStats[]> {
   try {
     // 모든 지역코드에 대해 병렬로 API 호출
     const statsPromises = AREA_CODES.map(async (areacode) => {
-      return withRetry(async () => {
-        console.log(
-          `[Stats API] 지역 통계 수집 중: ${areacode} (${getAreaName(
-            areacode,
-          )})`,
-        );
-
-        // API를 호출하여 totalCount 가져오기
-        const count = await fetchTotalCount("/areaBasedList2", {
-          areaCode: areacode,
-          numOfRows: 1,
-          pageNo: 1,
-        });
+      console.log(
+        `[Stats API] 지역 통계 수집 중: ${areacode} (${getAreaName(areacode)})`,
+      );
 
-        console.log(
-          `[Stats API] 지역 통계 수집 완료: ${areacode} (${getAreaName(
-            areacode,
-          )}) - ${count}개`,
-        );
+      // API를 호출하여 totalCount 가져오기
+      const count = await fetchTotalCount("/areaBasedList2", {
+        areaCode: areacode,
+        numOfRows: 1,
+        pageNo: 1,
+      });
 
-        return {
+      console.log(
+        `[Stats API] 지역 통계 수집 완료: ${areacode} (${getAreaName(
           areacode,
-          name: getAreaName(areacode),
-          count,
-        } as RegionStats;
-      });
+        )}) - ${count}개`,
+      );
+
+      return {
+        areacode,
+        name: getAreaName(areacode),
+        count,
+      } as RegionStats;
     });
 
     // 모든 지역 통계를 병렬로 수집
@@ -241,32 +117,30 @@ export async function getTypeStats(): Promise<TypeStats[]> {
   try {
     // 모든 타입ID에 대해 병렬로 API 호출
     const statsPromises = TOUR_TYPE_IDS.map(async (contenttypeid) => {
-      return withRetry(async () => {
-        console.log(
-          `[Stats API] 타입 통계 수집 중: ${contenttypeid} (${getTourTypeName(
-            contenttypeid,
-          )})`,
-        );
-
-        // API를 호출하여 totalCount 가져오기
-        const count = await fetchTotalCount("/areaBasedList2", {
-          contentTypeId: contenttypeid,
-          numOfRows: 1,
-          pageNo: 1,
-        });
+      console.log(
+        `[Stats API] 타입 통계 수집 중: ${contenttypeid} (${getTourTypeName(
+          contenttypeid,
+        )})`,
+      );
 
-        console.log(
-          `[Stats API] 타입 통계 수집 완료: ${contenttypeid} (${getTourTypeName(
-            contenttypeid,
-          )}) - ${count}개`,
-        );
+      // API를 호출하여 totalCount 가져오기
+      const count = await fetchTotalCount("/areaBasedList2", {
+        contentTypeId: contenttypeid,
+        numOfRows: 1,
+        pageNo: 1,
+      });
 
-        return {
+      console.log(
+        `[Stats API] 타입 통계 수집 완료: ${contenttypeid} (${getTourTypeName(
           contenttypeid,
-          name: getTourTypeName(contenttypeid),
-          count,
-        } as TypeStats;
-      });
+        )}) - ${count}개`,
+      );
+
+      return {
+        contenttypeid,
+        name: getTourTypeName(contenttypeid),
+        count,
+      } as TypeStats;
     });
 
     // 모든 타입 통계를 병렬로 수집
@@ -7,8 +7,10 @@
  * 주요 기능:
  * 1. 북마크 추가
  * 2. 북마크 삭제
- * 3. 북마크 목록 조회
- * 4. 북마크 여부 확인
+ * 3. 북마크 목록 조회 (관광지 스냅샷 컬럼 포함)
+ * 4. 북마크 스냅샷 갱신
+ * 5. 북마크 여행 기록 수정 (메모, 태그, 방문 상태, 평점)
+ * 6. 북마크 여부 확인
  *
  * 주의사항:
  * - 서버 사이드에서는 `createClerkSupabaseClient()` 사용
@@ -16,11 +18,15 @@
  *
  * @see {@link /lib/types/bookmark.ts} - 북마크 타입 정의
  * @see {@link /supabase/migrations/mytour.sql} - 데이터베이스 스키마
+ * @see {@link /supabase/migrations/bookmark_snapshots.sql} - 스냅샷 컬럼
+ * @see {@link /supabase/migrations/bookmark_journal.sql} - 여행 기록 컬럼
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
   Bookmark,
+  BookmarkJournalInput,
+  BookmarkSnapshot,
   CreateBookmarkInput,
   DeleteBookmarkInput,
 } from "@/lib/types/bookmark";
@@ -28,11 +34,13 @@ import type {
 /**
  * Clerk userId를 Supabase users 테이블의 UUID로 변환
  *
+ * 반려동물 프로필 등 사용자별 테이블의 쿼리 함수도 함께 사용합니다.
+ *
  * @param supabase - Supabase 클라이언트
  * @param clerkUserId - Clerk User ID (예: "user_2abc...")
  * @returns Supabase users 테이블의 UUID
  */
-async function getSupabaseUserId(
+export async function getSupabaseUserId(
   supabase: SupabaseClient,
   clerkUserId: string,
 ): Promise<string> {
@@ -86,6 +94,16 @@ export async function addBookmark(
     .insert({
       user_id: supabaseUserId,
       content_id: input.content_id,
+      // 스냅샷이 있으면 함께 저장 (없으면 목록 조회 시 백그라운드에서 채움)
+      ...(input.snapshot && {
+        ...input.snapshot,
+        snapshot_at: new Date().toISOString(),
+      }),
+      // 가져오기 등으로 여행 기록이 함께 주어지면 저장
+      ...(input.journal && {
+        ...input.journal,
+        journal_updated_at: new Date().toISOString(),
+      }),
     })
     .select()
     .single();
@@ -176,6 +194,70 @@ export async function getBookmarks(
   return data ?? [];
 }
 
+/**
+ * 북마크 스냅샷 갱신
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param bookmarkId - 북마크 ID
+ * @param snapshot - 관광지 스냅샷
+ * @returns 갱신 성공 여부
+ */
+export async function updateBookmarkSnapshot(
+  supabase: SupabaseClient,
+  bookmarkId: string,
+  snapshot: BookmarkSnapshot,
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("bookmarks")
+    .update({ ...snapshot, snapshot_at: new Date().toISOString() })
+    .eq("id", bookmarkId);
+
+  if (error) {
+    console.error("[Supabase API] 북마크 스냅샷 갱신 에러:", error);
+    throw new Error(
+      `북마크 스냅샷 갱신 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * 북마크 여행 기록 수정
+ *
+ * @param supabase - Supabase 클라이언트
+ * @param userId - 사용자 ID (Clerk userId 또는 Supabase UUID)
+ * @param bookmarkId - 북마크 ID
+ * @param input - 메모, 태그, 방문 상태, 방문일, 평점
+ * @returns 수정된 북마크
+ */
+export async function updateBookmarkJournal(
+  supabase: SupabaseClient,
+  userId: string,
+  bookmarkId: string,
+  input: BookmarkJournalInput,
+): Promise<Bookmark> {
+  // Clerk userId를 Supabase UUID로 변환
+  const supabaseUserId = await getSupabaseUserId(supabase, userId);
+
+  const { data, error } = await supabase
+    .from("bookmarks")
+    .update({ ...input, journal_updated_at: new Date().toISOString() })
+    .eq("id", bookmarkId)
+    .eq("user_id", supabaseUserId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("[Supabase API] 북마크 기록 수정 에러:", error);
+    throw new Error(
+      `북마크 기록 수정 실패: ${error.message || error.code || "Unknown error"}`,
+    );
+  }
+
+  return data;
+}
+
 /**
  * 북마크 여부 확인
  *
@@ -0,0 +1,711 @@
+/**
+ * @file tour-api-client.ts
+ * @description 한국관광공사 공공 API 공통 클라이언트
+ *
+ * tour-api.ts와 stats-api.ts가 함께 사용하는 HTTP 클라이언트입니다.
+ *
+ * 주요 기능:
+ * 1. 서비스 키 및 공통 파라미터 처리
+ * 2. 응답 검증 (XML 에러 응답 포함) 및 resultCode별 에러 변환 (tour-api-errors.ts)
+ * 3. 지수 백오프 + 지터 재시도
+ * 4. 프로세스 단위 동시 요청 제한 및 토큰 버킷 속도 제한
+ * 5. 로케일별 서비스 라우팅 (KorService2, EngService2, JpnService2, ChsService2)
+ *    및 외국어 서비스의 콘텐츠타입ID를 국문 ID로 변환
+ * 6. TOUR_API_BASE_URL 환경변수로 요청 주소 변경 (로컬 목 서버, lib/api/mock)
+ * 7. zod 스키마로 응답 항목 검증 및 정규화 (tour-api-schemas.ts)
+ *
+ * @see {@link /lib/api/tour-api-errors.ts} - 에러 타입 정의
+ * @see {@link /lib/api/constants.ts} - 재시도/속도 제한 설정
+ * @see {@link /lib/api/tour-api-schemas.ts} - 응답 스키마
+ */
+
+import type { z } from "zod";
+import {
+  TOUR_API_COMMON_PARAMS,
+  TOUR_API_RATE_LIMIT,
+  TOUR_API_RETRY_CONFIG,
+  TOUR_API_SERVICE_NAMES,
+  TOUR_API_SERVICE_ROOT,
+} from "@/lib/api/constants";
+import {
+  TourApiError,
+  TourApiMalformedResponseError,
+  TourApiNoDataError,
+  TourApiQuotaExceededError,
+  TourApiUpstreamError,
+  createTourApiResultError,
+  isRetryableTourApiError,
+} from "@/lib/api/tour-api-errors";
+import { validateTourApiItems } from "@/lib/api/tour-api-schemas";
+import { DEFAULT_TOUR_LOCALE, type TourLocale } from "@/lib/utils/locale";
+import {
+  fromServiceContentTypeId,
+  toServiceContentTypeId,
+} from "@/lib/utils/tour-type-converter";
+
+/**
+ * API 응답 타입
+ */
+export interface TourApiResponse<T> {
+  response: {
+    header: {
+      resultCode: string;
+      resultMsg: string;
+    };
+    body: TourApiBody<T>;
+  };
+}
+
+/**
+ * API 응답 본문 타입
+ *
+ * 결과가 없으면 items가 빈 문자열("")로 내려오는 경우가 있습니다.
+ */
+export interface TourApiBody<T> {
+  items?: { item: T | T[] } | "";
+  numOfRows: number;
+  pageNo: number;
+  totalCount: number;
+}
+
+/**
+ * API 파라미터 타입 (undefined 값은 전송하지 않음)
+ */
+export type TourApiParams = Record<string, string | number | undefined>;
+
+/**
+ * 요청 옵션
+ */
+export interface TourApiRequestOptions {
+  /** 서비스 키 (기본값: TOUR_API_KEY 환경변수) */
+  serviceKey?: string;
+  /** Next.js fetch 캐시 시간 (초, 기본값: 3600) */
+  revalidate?: number;
+}
+
+/**
+ * 클라이언트 생성 옵션
+ */
+export interface TourApiClientOptions {
+  /** 콘텐츠 로케일 (기본값: "ko", 로케일에 맞는 서비스로 요청) */
+  locale?: TourLocale;
+  /** API Base URL (기본값: 로케일별 서비스 URL) */
+  baseUrl?: string;
+  /** 로그 접두사 */
+  logPrefix?: string;
+  /** 최대 재시도 횟수 */
+  maxRetries?: number;
+  /** 첫 재시도 대기 시간 (밀리초) */
+  baseDelayMs?: number;
+  /** 최대 재시도 대기 시간 (밀리초) */
+  maxDelayMs?: number;
+  /** 동시 요청 제한기 (기본값: 프로세스 공용 제한기) */
+  limiter?: ConcurrencyLimiter;
+  /** 토큰 버킷 (기본값: 프로세스 공용 버킷) */
+  bucket?: TokenBucket;
+}
+
+/**
+ * 지정한 시간만큼 대기
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 동시 요청 수 제한기
+ *
+ * 최대 동시 실행 수를 넘는 작업은 대기열에서 순서대로 실행됩니다.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  /**
+   * 작업 실행 (슬롯이 빌 때까지 대기)
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // 슬롯을 다음 작업에 그대로 넘겨줌 (active 수 유지)
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * 토큰 버킷 속도 제한기
+ *
+ * 초당 refillPerSecond개의 토큰이 충전되며, 최대 capacity개까지 쌓입니다.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * 토큰 1개 소비 (토큰이 없으면 충전될 때까지 대기)
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      await sleep(Math.ceil(waitMs));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsedSeconds * this.refillPerSecond,
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * 프로세스 공용 제한기
+ *
+ * 모든 TourApiClient 인스턴스가 기본적으로 공유합니다.
+ */
+const sharedLimiter = new ConcurrencyLimiter(TOUR_API_RATE_LIMIT.maxConcurrent);
+const sharedBucket = new TokenBucket(
+  TOUR_API_RATE_LIMIT.burst,
+  TOUR_API_RATE_LIMIT.requestsPerSecond,
+);
+
+/**
+ * API 서비스 키 가져오기
+ *
+ * NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 환경변수에서 가져옵니다.
+ * 서버 사이드에서는 TOUR_API_KEY를 우선적으로 사용합니다.
+ */
+export function getServiceKey(): string {
+  // 서버 사이드에서는 TOUR_API_KEY를 우선 사용
+  // 클라이언트 사이드에서는 NEXT_PUBLIC_TOUR_API_KEY만 사용 가능
+  const tourKey = process.env.TOUR_API_KEY;
+  const nextPublicKey = process.env.NEXT_PUBLIC_TOUR_API_KEY;
+
+  const key = tourKey?.trim() || nextPublicKey?.trim() || null;
+
+  if (!key || key.length === 0) {
+    console.error("[Tour API] 환경 변수 확인:", {
+      TOUR_API_KEY: tourKey ? `설정됨 (길이: ${tourKey.length})` : "미설정",
+      NEXT_PUBLIC_TOUR_API_KEY: nextPublicKey
+        ? `설정됨 (길이: ${nextPublicKey.length})`
+        : "미설정",
+      NODE_ENV: process.env.NODE_ENV,
+    });
+    throw new Error(
+      "TOUR_API_KEY 환경변수가 설정되지 않았습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 설정해주세요.",
+    );
+  }
+
+  return key;
+}
+
+/**
+ * API Base URL 가져오기
+ *
+ * TOUR_API_BASE_URL 환경변수가 있으면 공공데이터포털 대신 해당 주소로 요청합니다
+ * (예: 로컬 목 서버 http://localhost:4010/B551011/KorService2).
+ * 외국어 로케일은 주소 끝의 KorService2를 로케일 서비스 이름으로 바꿉니다.
+ *
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 로케일 서비스의 Base URL
+ */
+export function getTourApiBaseUrl(
+  locale: TourLocale = DEFAULT_TOUR_LOCALE,
+): string {
+  const override = process.env.TOUR_API_BASE_URL?.trim().replace(/\/+$/, "");
+  if (!override) {
+    return `${TOUR_API_SERVICE_ROOT}/${TOUR_API_SERVICE_NAMES[locale]}`;
+  }
+
+  return override.replace(
+    new RegExp(`/${TOUR_API_SERVICE_NAMES[DEFAULT_TOUR_LOCALE]}$`),
+    `/${TOUR_API_SERVICE_NAMES[locale]}`,
+  );
+}
+
+/**
+ * 한국관광공사 공공 API 클라이언트
+ *
+ * @example
+ * ```ts
+ * const tours = await tourApiClient.getItems("/areaBasedList2", tourItemSchema, {
+ *   areaCode: "1",
+ *   numOfRows: 10,
+ *   pageNo: 1,
+ * });
+ * ```
+ */
+export class TourApiClient {
+  readonly locale: TourLocale;
+  private readonly baseUrl: string;
+  private readonly logPrefix: string;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly limiter: ConcurrencyLimiter;
+  private readonly bucket: TokenBucket;
+
+  constructor(options: TourApiClientOptions = {}) {
+    this.locale = options.locale ?? DEFAULT_TOUR_LOCALE;
+    this.baseUrl = options.baseUrl ?? getTourApiBaseUrl(this.locale);
+    this.logPrefix =
+      options.logPrefix ??
+      (this.locale === DEFAULT_TOUR_LOCALE
+        ? "[Tour API]"
+        : `[Tour API:${this.locale}]`);
+    this.maxRetries = options.maxRetries ?? TOUR_API_RETRY_CONFIG.maxRetries;
+    this.baseDelayMs = options.baseDelayMs ?? TOUR_API_RETRY_CONFIG.baseDelayMs;
+    this.maxDelayMs = options.maxDelayMs ?? TOUR_API_RETRY_CONFIG.maxDelayMs;
+    this.limiter = options.limiter ?? sharedLimiter;
+    this.bucket = options.bucket ?? sharedBucket;
+  }
+
+  /**
+   * 항목 목록 조회
+   *
+   * 데이터가 없는 경우(resultCode 03 또는 빈 items) 빈 배열을 반환합니다.
+   * 스키마를 통과하지 못한 항목은 제외하고 사유를 로그로 남깁니다.
+   *
+   * @param endpoint - API 엔드포인트 (예: "/areaBasedList2")
+   * @param schema - 항목 스키마 (tour-api-schemas.ts)
+   * @param params - API 파라미터
+   * @param options - 요청 옵션
+   * @returns 검증/정규화된 항목 목록
+   */
+  async getItems<T>(
+    endpoint: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    params: TourApiParams,
+    options: TourApiRequestOptions = {},
+  ): Promise<T[]> {
+    try {
+      const body = await this.request<unknown>(endpoint, params, options);
+      const { valid, invalid } = validateTourApiItems(
+        schema,
+        extractItems(body),
+      );
+
+      if (invalid.length > 0) {
+        console.warn(
+          `${this.logPrefix} 유효하지 않은 항목 제외: ${endpoint} (${invalid.length}건)`,
+          invalid,
+        );
+      }
+
+      return this.normalizeItems(valid);
+    } catch (error) {
+      if (error instanceof TourApiNoDataError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 전체 항목 수(totalCount) 조회
+   *
+   * @param endpoint - API 엔드포인트
+   * @param params - API 파라미터
+   * @param options - 요청 옵션
+   * @returns totalCount
+   */
+  async getTotalCount(
+    endpoint: string,
+    params: TourApiParams,
+    options: TourApiRequestOptions = {},
+  ): Promise<number> {
+    try {
+      const body = await this.request<unknown>(endpoint, params, options);
+      return Number(body.totalCount) || 0;
+    } catch (error) {
+      if (error instanceof TourApiNoDataError) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * API 호출 (재시도 및 속도 제한 포함)
+   *
+   * @param endpoint - API 엔드포인트
+   * @param params - API 파라미터
+   * @param options - 요청 옵션
+   * @returns 응답 본문
+   * @throws {TourApiError} 재시도 후에도 실패한 경우
+   */
+  async request<T>(
+    endpoint: string,
+    params: TourApiParams,
+    options: TourApiRequestOptions = {},
+  ): Promise<TourApiBody<T>> {
+    const serviceKey = options.serviceKey ?? getServiceKey();
+    const url = this.buildUrl(
+      endpoint,
+      this.localizeParams(params),
+      serviceKey,
+    );
+
+    console.log(`${this.logPrefix} 호출: ${endpoint}`, {
+      params,
+      serviceKeyLength: serviceKey.length,
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.run(async () => {
+          await this.bucket.take();
+          return this.fetchOnce<T>(url, options.revalidate ?? 3600);
+        });
+      } catch (error) {
+        if (!isRetryableTourApiError(error) || attempt >= this.maxRetries) {
+          console.error(`${this.logPrefix} 에러: ${endpoint}`, error);
+          throw error;
+        }
+
+        const delayMs = this.getBackoffDelay(attempt);
+        console.warn(
+          `${this.logPrefix} 재시도 대기: ${endpoint} (${attempt + 1}/${
+            this.maxRetries
+          }, ${delayMs}ms)`,
+          error instanceof Error ? error.message : String(error),
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * 요청 파라미터의 콘텐츠타입ID를 로케일 서비스의 ID로 변환
+   */
+  private localizeParams(params: TourApiParams): TourApiParams {
+    if (this.locale === DEFAULT_TOUR_LOCALE || !params.contentTypeId) {
+      return params;
+    }
+    return {
+      ...params,
+      contentTypeId: toServiceContentTypeId(
+        String(params.contentTypeId),
+        this.locale,
+      ),
+    };
+  }
+
+  /**
+   * 응답 항목의 콘텐츠타입ID를 국문 ID로 변환
+   */
+  private normalizeItems<T>(items: T[]): T[] {
+    if (this.locale === DEFAULT_TOUR_LOCALE) {
+      return items;
+    }
+    return items.map((item) => {
+      const contentTypeId = (item as { contenttypeid?: unknown }).contenttypeid;
+      if (typeof contentTypeId !== "string") {
+        return item;
+      }
+      return {
+        ...item,
+        contenttypeid: fromServiceContentTypeId(contentTypeId, this.locale),
+      };
+    });
+  }
+
+  /**
+   * 요청 URL 생성
+   */
+  private buildUrl(
+    endpoint: string,
+    params: TourApiParams,
+    serviceKey: string,
+  ): string {
+    const searchParams = new URLSearchParams({
+      serviceKey,
+      ...TOUR_API_COMMON_PARAMS,
+      ...Object.fromEntries(
+        Object.entries(params)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, String(value)]),
+      ),
+    });
+
+    return `${this.baseUrl}${endpoint}?${searchParams.toString()}`;
+  }
+
+  /**
+   * 지수 백오프 대기 시간 계산 (equal jitter)
+   *
+   * @param attempt - 재시도 회차 (0부터 시작)
+   * @returns 대기 시간 (밀리초)
+   */
+  private getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** attempt,
+    );
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * 단일 HTTP 요청 및 응답 검증
+   */
+  private async fetchOnce<T>(
+    url: string,
+    revalidate: number,
+  ): Promise<TourApiBody<T>> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        next: { revalidate },
+      });
+    } catch (error) {
+      throw new TourApiUpstreamError(
+        `API 호출 실패: 네트워크 오류 (${
+          error instanceof Error ? error.message : String(error)
+        })`,
+        { originalError: error },
+      );
+    }
+
+    let text: string;
+    try {
+      text = await response.text();
+    } catch (error) {
+      throw new TourApiUpstreamError(
+        `API 호출 실패: 응답 본문을 읽을 수 없습니다 (${
+          error instanceof Error ? error.message : String(error)
+        })`,
+        { status: response.status, originalError: error },
+      );
+    }
+
+    // _type=json이어도 키 오류/한도 초과 시에는 XML 에러 응답이 오므로 상태 코드보다 먼저 확인
+    const xmlError = parseXmlErrorEnvelope(text);
+    if (xmlError) {
+      throw createTourApiResultError(xmlError.resultCode, xmlError.resultMsg, {
+        status: response.status,
+      });
+    }
+
+    if (response.status === 429) {
+      throw new TourApiQuotaExceededError(
+        `API 호출 실패: ${response.status} ${response.statusText}`,
+        { status: response.status, retryable: true },
+      );
+    }
+
+    if (response.status >= 500) {
+      throw new TourApiUpstreamError(
+        `API 호출 실패: ${response.status} ${response.statusText}`,
+        { status: response.status },
+      );
+    }
+
+    if (!response.ok) {
+      throw new TourApiError(
+        `API 호출 실패: ${response.status} ${response.statusText}`,
+        "API_ERROR",
+        { status: response.status },
+      );
+    }
+
+    // 게이트웨이 점검 페이지 등 HTML 응답은 일시적인 장애로 간주
+    if (isMarkup(text)) {
+      throw new TourApiUpstreamError(
+        `API 호출 실패: JSON 대신 마크업 응답을 받았습니다 (${summarize(
+          text,
+        )})`,
+        { status: response.status },
+      );
+    }
+
+    let data: TourApiResponse<T>;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new TourApiMalformedResponseError(
+        `API 호출 실패: 응답 본문을 해석할 수 없습니다 (${summarize(text)})`,
+        { status: response.status, originalError: error },
+      );
+    }
+
+    const header = data?.response?.header;
+    const body = data?.response?.body;
+    if (!header || !body) {
+      throw new TourApiMalformedResponseError(
+        "API 호출 실패: 응답에 header/body가 없습니다",
+        { status: response.status },
+      );
+    }
+
+    if (header.resultCode !== "0000") {
+      throw createTourApiResultError(header.resultCode, header.resultMsg);
+    }
+
+    return body;
+  }
+}
+
+/**
+ * 응답 본문에서 항목 배열 추출
+ *
+ * @param body - 응답 본문
+ * @returns 항목 배열 (단일 항목도 배열로 변환)
+ */
+export function extractItems<T>(body: TourApiBody<T>): T[] {
+  if (!body.items || typeof body.items !== "object") {
+    return [];
+  }
+
+  const items = body.items.item;
+  if (!items) {
+    return [];
+  }
+
+  return Array.isArray(items) ? items : [items];
+}
+
+/**
+ * XML 에러 응답 정보
+ */
+export interface TourApiXmlError {
+  resultCode: string;
+  resultMsg: string;
+}
+
+/**
+ * XML 에러 응답 해석
+ *
+ * 공공데이터포털은 서비스 키 오류나 트래픽 초과 시 _type=json 요청에도
+ * 다음과 같은 XML을 반환합니다.
+ *
+ * ```xml
+ * <OpenAPI_ServiceResponse>
+ *   <cmmMsgHeader>
+ *     <errMsg>SERVICE ERROR</errMsg>
+ *     <returnAuthMsg>SERVICE_KEY_IS_NOT_REGISTERED_ERROR</returnAuthMsg>
+ *     <returnReasonCode>30</returnReasonCode>
+ *   </cmmMsgHeader>
+ * </OpenAPI_ServiceResponse>
+ * ```
+ *
+ * XML 형식의 일반 응답(<response><header><resultCode>)에 담긴 에러도 함께 처리합니다.
+ *
+ * @param text - 응답 본문
+ * @returns 에러 정보 (XML 에러 응답이 아니면 null)
+ */
+export function parseXmlErrorEnvelope(text: string): TourApiXmlError | null {
+  if (!isMarkup(text)) {
+    return null;
+  }
+
+  const reasonCode = readXmlTag(text, "returnReasonCode");
+  if (reasonCode) {
+    return {
+      resultCode: reasonCode,
+      resultMsg:
+        readXmlTag(text, "returnAuthMsg") ||
+        readXmlTag(text, "errMsg") ||
+        "SERVICE ERROR",
+    };
+  }
+
+  const resultCode = readXmlTag(text, "resultCode");
+  if (resultCode && resultCode !== "0000" && resultCode !== "00") {
+    return {
+      resultCode,
+      resultMsg: readXmlTag(text, "resultMsg") || "SERVICE ERROR",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * XML 태그 값 읽기
+ */
+function readXmlTag(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : null;
+}
+
+/**
+ * XML/HTML 응답인지 확인
+ */
+function isMarkup(text: string): boolean {
+  return text.trimStart().startsWith("<");
+}
+
+/**
+ * 로그용 응답 본문 요약
+ */
+function summarize(text: string): string {
+  return text.slice(0, 80).trim();
+}
+
+/**
+ * 기본 클라이언트 인스턴스 (국문 서비스)
+ */
+export const tourApiClient = new TourApiClient();
+
+/**
+ * 로케일별 클라이언트 캐시 (동시 요청 제한과 토큰 버킷은 모든 로케일이 공유)
+ */
+const localeClients = new Map<TourLocale, TourApiClient>([
+  [DEFAULT_TOUR_LOCALE, tourApiClient],
+]);
+
+/**
+ * 로케일에 맞는 클라이언트 가져오기
+ *
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 해당 로케일 서비스로 요청하는 클라이언트
+ */
+export function getTourApiClient(
+  locale: TourLocale = DEFAULT_TOUR_LOCALE,
+): TourApiClient {
+  let client = localeClients.get(locale);
+  if (!client) {
+    client = new TourApiClient({ locale });
+    localeClients.set(locale, client);
+  }
+  return client;
+}
@@ -0,0 +1,562 @@
+/**
+ * @file tour-api-errors.ts
+ * @description 한국관광공사 공공 API 에러 타입
+ *
+ * TourApiClient가 던지는 에러 클래스들을 정의합니다.
+ * 서버/클라이언트 어디서든 import할 수 있도록 외부 의존성이 없습니다.
+ *
+ * 에러 분류:
+ * 1. TourApiQuotaExceededError - 일일 트래픽 초과 (resultCode 22, HTTP 429)
+ * 2. TourApiInvalidKeyError - 서비스 키 오류 (resultCode 20, 21, 30, 31, 32, 33)
+ *    - TourApiAccessDeniedError, TourApiServiceKeyDisabledError,
+ *      TourApiServiceKeyNotRegisteredError, TourApiServiceKeyExpiredError
+ * 3. TourApiNoDataError - 데이터 없음 (resultCode 03)
+ * 4. TourApiInvalidRequestError - 잘못된 요청 파라미터 (resultCode 10, 11)
+ * 5. TourApiServiceNotFoundError - 없는 서비스 (resultCode 12)
+ * 6. TourApiUpstreamError - 공공 API 서버 오류 (resultCode 01, 02, 04, 99, HTTP 5xx, 네트워크 오류)
+ *    - TourApiServiceTimeoutError (resultCode 05)
+ * 7. TourApiMalformedResponseError - 응답 본문 해석 실패
+ *
+ * Server Action/Server Component 경계를 넘으면 에러 클래스와 메시지가 사라지므로
+ * (프로덕션에서는 메시지가 가려짐) 에러 코드를 digest에 담아 전달합니다.
+ * 클라이언트에서는 getTourApiErrorInfo()로 digest를 해석해 한국어 메시지를 표시합니다.
+ *
+ * @see https://www.data.go.kr - 공공데이터포털 에러 코드 정의
+ */
+
+/**
+ * 에러 코드
+ */
+export type TourApiErrorCode =
+  | "QUOTA_EXCEEDED"
+  | "INVALID_KEY"
+  | "NO_DATA"
+  | "INVALID_REQUEST"
+  | "SERVICE_NOT_FOUND"
+  | "UPSTREAM_ERROR"
+  | "SERVICE_TIMEOUT"
+  | "MALFORMED_RESPONSE"
+  | "API_ERROR";
+
+/**
+ * 에러 생성 옵션
+ */
+export interface TourApiErrorOptions {
+  /** 공공 API resultCode (예: "22") */
+  resultCode?: string;
+  /** HTTP 상태 코드 */
+  status?: number;
+  /** 재시도 가능 여부 */
+  retryable?: boolean;
+  /** 원본 에러 */
+  originalError?: unknown;
+}
+
+/**
+ * 공공데이터포털 resultCode 정의
+ *
+ * name은 공공데이터포털 문서의 에러 이름, message는 사용자에게 보여줄 한국어 메시지입니다.
+ */
+export const TOUR_API_RESULT_CODES: Record<
+  string,
+  { name: string; message: string }
+> = {
+  "01": {
+    name: "APPLICATION_ERROR",
+    message:
+      "관광 정보 서버에서 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  "02": {
+    name: "DB_ERROR",
+    message:
+      "관광 정보 서버의 데이터베이스에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  "03": {
+    name: "NODATA_ERROR",
+    message: "조회된 관광 정보가 없습니다.",
+  },
+  "04": {
+    name: "HTTP_ERROR",
+    message:
+      "관광 정보 서버와 통신하는 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  "05": {
+    name: "SERVICETIMEOUT_ERROR",
+    message:
+      "관광 정보 서버의 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.",
+  },
+  "10": {
+    name: "INVALID_REQUEST_PARAMETER_ERROR",
+    message: "잘못된 요청입니다. 검색 조건을 확인해주세요.",
+  },
+  "11": {
+    name: "NO_MANDATORY_REQUEST_PARAMETERS_ERROR",
+    message: "필수 검색 조건이 누락되었습니다. 검색 조건을 확인해주세요.",
+  },
+  "12": {
+    name: "NO_OPENAPI_SERVICE_ERROR",
+    message: "요청한 관광 정보 서비스가 없거나 폐기되었습니다.",
+  },
+  "20": {
+    name: "SERVICE_ACCESS_DENIED_ERROR",
+    message:
+      "관광 정보 서비스 접근이 거부되었습니다. 서비스 활용 신청 상태를 확인해주세요.",
+  },
+  "21": {
+    name: "TEMPORARILY_DISABLE_THE_SERVICEKEY_ERROR",
+    message:
+      "관광 정보 서비스 키가 일시적으로 사용 중지되었습니다. 잠시 후 다시 시도해주세요.",
+  },
+  "22": {
+    name: "LIMITED_NUMBER_OF_SERVICE_REQUESTS_EXCEEDS_ERROR",
+    message:
+      "오늘 사용할 수 있는 관광 정보 요청 횟수를 모두 사용했습니다. 내일 다시 시도해주세요.",
+  },
+  "30": {
+    name: "SERVICE_KEY_IS_NOT_REGISTERED_ERROR",
+    message:
+      "등록되지 않은 서비스 키입니다. .env.local 파일의 TOUR_API_KEY를 확인해주세요.",
+  },
+  "31": {
+    name: "DEADLINE_HAS_EXPIRED_ERROR",
+    message:
+      "서비스 키의 활용 기간이 만료되었습니다. 공공데이터포털에서 활용 기간을 연장해주세요.",
+  },
+  "32": {
+    name: "UNREGISTERED_IP_ERROR",
+    message:
+      "등록되지 않은 IP에서 요청했습니다. 서비스 키의 IP 설정을 확인해주세요.",
+  },
+  "33": {
+    name: "UNSIGNED_CALL_ERROR",
+    message: "서명되지 않은 요청입니다. 서비스 키 설정을 확인해주세요.",
+  },
+  "99": {
+    name: "UNKNOWN_ERROR",
+    message:
+      "관광 정보 서버에서 알 수 없는 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+};
+
+/**
+ * 에러 코드별 화면 표시 정보
+ *
+ * recoverable이 false인 에러는 다시 요청해도 결과가 같으므로 클라이언트에서 재시도하지 않습니다.
+ */
+const ERROR_CODE_DISPLAY: Record<
+  TourApiErrorCode,
+  { title: string; message: string; recoverable: boolean }
+> = {
+  QUOTA_EXCEEDED: {
+    title: "요청 한도 초과",
+    message: "관광 정보 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+    recoverable: false,
+  },
+  INVALID_KEY: {
+    title: "서비스 키 오류",
+    message:
+      "관광 정보 서비스 키에 문제가 있습니다. .env.local 파일의 TOUR_API_KEY를 확인해주세요.",
+    recoverable: false,
+  },
+  NO_DATA: {
+    title: "데이터 없음",
+    message: "조회된 관광 정보가 없습니다.",
+    recoverable: false,
+  },
+  INVALID_REQUEST: {
+    title: "잘못된 요청",
+    message: "잘못된 요청입니다. 검색 조건을 확인해주세요.",
+    recoverable: false,
+  },
+  SERVICE_NOT_FOUND: {
+    title: "서비스 없음",
+    message: "요청한 관광 정보 서비스가 없거나 폐기되었습니다.",
+    recoverable: false,
+  },
+  UPSTREAM_ERROR: {
+    title: "관광 정보 서버 오류",
+    message:
+      "관광 정보 서버에 일시적인 문제가 있습니다. 잠시 후 다시 시도해주세요.",
+    recoverable: true,
+  },
+  SERVICE_TIMEOUT: {
+    title: "응답 시간 초과",
+    message:
+      "관광 정보 서버의 응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.",
+    recoverable: true,
+  },
+  MALFORMED_RESPONSE: {
+    title: "응답 해석 실패",
+    message:
+      "관광 정보 서버의 응답을 해석할 수 없습니다. 잠시 후 다시 시도해주세요.",
+    recoverable: true,
+  },
+  API_ERROR: {
+    title: "관광 정보 오류",
+    message:
+      "관광 정보를 가져오는 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    recoverable: true,
+  },
+};
+
+/**
+ * digest 접두사
+ *
+ * digest 형식: "TOUR_API_ERROR;{code};{resultCode}"
+ */
+export const TOUR_API_ERROR_DIGEST_PREFIX = "TOUR_API_ERROR";
+
+/**
+ * Tour API 에러 기본 클래스
+ */
+export class TourApiError extends Error {
+  readonly code: TourApiErrorCode;
+  readonly resultCode?: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly originalError?: unknown;
+  /**
+   * Next.js 에러 digest
+   *
+   * Next.js는 이미 digest가 있는 에러의 digest를 그대로 클라이언트에 전달합니다.
+   */
+  readonly digest: string;
+
+  constructor(
+    message: string,
+    code: TourApiErrorCode = "API_ERROR",
+    options: TourApiErrorOptions = {},
+  ) {
+    super(message);
+    this.name = "TourApiError";
+    this.code = code;
+    this.resultCode = options.resultCode;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.originalError = options.originalError;
+    this.digest = `${TOUR_API_ERROR_DIGEST_PREFIX};${code};${
+      options.resultCode ?? ""
+    }`;
+  }
+
+  /**
+   * 공공데이터포털 문서의 에러 이름 (예: "SERVICE_KEY_IS_NOT_REGISTERED_ERROR")
+   */
+  get resultName(): string | undefined {
+    return this.resultCode
+      ? TOUR_API_RESULT_CODES[this.resultCode]?.name
+      : undefined;
+  }
+
+  /**
+   * 사용자에게 보여줄 한국어 메시지
+   */
+  get userMessage(): string {
+    return getUserMessage(this.code, this.resultCode);
+  }
+}
+
+/**
+ * 요청 한도 초과 에러
+ */
+export class TourApiQuotaExceededError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "QUOTA_EXCEEDED", options);
+    this.name = "TourApiQuotaExceededError";
+  }
+}
+
+/**
+ * 서비스 키 에러 (미등록, 만료, 접근 거부)
+ */
+export class TourApiInvalidKeyError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "INVALID_KEY", options);
+    this.name = "TourApiInvalidKeyError";
+  }
+}
+
+/**
+ * 서비스 접근 거부 에러 (resultCode 20, 32, 33)
+ */
+export class TourApiAccessDeniedError extends TourApiInvalidKeyError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "TourApiAccessDeniedError";
+  }
+}
+
+/**
+ * 서비스 키 일시 중지 에러 (resultCode 21)
+ */
+export class TourApiServiceKeyDisabledError extends TourApiInvalidKeyError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "TourApiServiceKeyDisabledError";
+  }
+}
+
+/**
+ * 등록되지 않은 서비스 키 에러 (resultCode 30)
+ */
+export class TourApiServiceKeyNotRegisteredError extends TourApiInvalidKeyError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "TourApiServiceKeyNotRegisteredError";
+  }
+}
+
+/**
+ * 서비스 키 활용 기간 만료 에러 (resultCode 31)
+ */
+export class TourApiServiceKeyExpiredError extends TourApiInvalidKeyError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, options);
+    this.name = "TourApiServiceKeyExpiredError";
+  }
+}
+
+/**
+ * 데이터 없음 에러
+ */
+export class TourApiNoDataError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "NO_DATA", options);
+    this.name = "TourApiNoDataError";
+  }
+}
+
+/**
+ * 잘못된 요청 파라미터 에러 (resultCode 10, 11)
+ */
+export class TourApiInvalidRequestError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "INVALID_REQUEST", options);
+    this.name = "TourApiInvalidRequestError";
+  }
+}
+
+/**
+ * 없는 서비스 에러 (resultCode 12)
+ */
+export class TourApiServiceNotFoundError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "SERVICE_NOT_FOUND", options);
+    this.name = "TourApiServiceNotFoundError";
+  }
+}
+
+/**
+ * 공공 API 서버 오류 (HTTP 5xx, 네트워크 오류, 서비스 타임아웃)
+ *
+ * 일시적인 장애일 가능성이 높으므로 기본적으로 재시도 가능합니다.
+ */
+export class TourApiUpstreamError extends TourApiError {
+  constructor(
+    message: string,
+    options: TourApiErrorOptions = {},
+    code: TourApiErrorCode = "UPSTREAM_ERROR",
+  ) {
+    super(message, code, { retryable: true, ...options });
+    this.name = "TourApiUpstreamError";
+  }
+}
+
+/**
+ * 서비스 타임아웃 에러 (resultCode 05)
+ */
+export class TourApiServiceTimeoutError extends TourApiUpstreamError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, options, "SERVICE_TIMEOUT");
+    this.name = "TourApiServiceTimeoutError";
+  }
+}
+
+/**
+ * 응답 본문 해석 실패 에러
+ */
+export class TourApiMalformedResponseError extends TourApiError {
+  constructor(message: string, options: TourApiErrorOptions = {}) {
+    super(message, "MALFORMED_RESPONSE", options);
+    this.name = "TourApiMalformedResponseError";
+  }
+}
+
+/**
+ * resultCode를 에러 객체로 변환
+ *
+ * 문서에 정의된 모든 resultCode를 각각의 에러 클래스로 매핑합니다.
+ * resultCode는 JSON 응답의 header.resultCode 또는 XML 에러 응답의 returnReasonCode입니다.
+ *
+ * @param resultCode - 공공 API resultCode
+ * @param resultMsg - 공공 API resultMsg (또는 returnAuthMsg)
+ * @param options - 추가 에러 옵션 (HTTP 상태 코드 등)
+ * @returns resultCode에 해당하는 에러 객체
+ */
+export function createTourApiResultError(
+  resultCode: string,
+  resultMsg: string,
+  options: Omit<TourApiErrorOptions, "resultCode"> = {},
+): TourApiError {
+  const message = `API 에러: ${resultCode} - ${resultMsg}`;
+  const errorOptions = { ...options, resultCode };
+
+  switch (resultCode) {
+    case "03":
+      return new TourApiNoDataError(message, errorOptions);
+    case "10":
+    case "11":
+      return new TourApiInvalidRequestError(message, errorOptions);
+    case "12":
+      return new TourApiServiceNotFoundError(message, errorOptions);
+    case "20":
+    case "32":
+    case "33":
+      return new TourApiAccessDeniedError(message, errorOptions);
+    case "21":
+      return new TourApiServiceKeyDisabledError(message, errorOptions);
+    case "22":
+      return new TourApiQuotaExceededError(message, errorOptions);
+    case "30":
+      return new TourApiServiceKeyNotRegisteredError(message, errorOptions);
+    case "31":
+      return new TourApiServiceKeyExpiredError(message, errorOptions);
+    case "05":
+      return new TourApiServiceTimeoutError(message, errorOptions);
+    case "01":
+    case "02":
+    case "04":
+    case "99":
+      return new TourApiUpstreamError(message, errorOptions);
+    default:
+      return new TourApiError(message, "API_ERROR", errorOptions);
+  }
+}
+
+/**
+ * 재시도 가능한 에러인지 확인
+ *
+ * @param error - 확인할 에러
+ * @returns 재시도 가능 여부
+ */
+export function isRetryableTourApiError(error: unknown): boolean {
+  return error instanceof TourApiError && error.retryable;
+}
+
+/**
+ * 화면 표시용 에러 정보
+ */
+export interface TourApiErrorInfo {
+  code: TourApiErrorCode;
+  resultCode?: string;
+  /** 에러 제목 (예: "요청 한도 초과") */
+  title: string;
+  /** 사용자에게 보여줄 한국어 메시지 */
+  message: string;
+  /** 클라이언트에서 다시 요청할 만한 에러인지 여부 */
+  recoverable: boolean;
+}
+
+/**
+ * 에러 코드와 resultCode로 사용자 메시지 결정
+ */
+function getUserMessage(code: TourApiErrorCode, resultCode?: string): string {
+  return (
+    (resultCode && TOUR_API_RESULT_CODES[resultCode]?.message) ||
+    ERROR_CODE_DISPLAY[code].message
+  );
+}
+
+/**
+ * 에러에서 Tour API 에러 정보 추출
+ *
+ * 서버에서는 TourApiError 인스턴스를, 클라이언트에서는 Server Action/Server Component를
+ * 거쳐 전달된 에러의 digest를 해석합니다.
+ *
+ * @param error - 확인할 에러
+ * @returns Tour API 에러 정보 (Tour API 에러가 아니면 null)
+ */
+export function getTourApiErrorInfo(error: unknown): TourApiErrorInfo | null {
+  let code: TourApiErrorCode | undefined;
+  let resultCode: string | undefined;
+
+  if (error instanceof TourApiError) {
+    code = error.code;
+    resultCode = error.resultCode;
+  } else if (
+    typeof error === "object" &&
+    error !== null &&
+    "digest" in error &&
+    typeof error.digest === "string"
+  ) {
+    const [prefix, digestCode, digestResultCode] = error.digest.split(";");
+    if (prefix === TOUR_API_ERROR_DIGEST_PREFIX && digestCode) {
+      code =
+        digestCode in ERROR_CODE_DISPLAY
+          ? (digestCode as TourApiErrorCode)
+          : "API_ERROR";
+      resultCode = digestResultCode || undefined;
+    }
+  }
+
+  if (!code) {
+    return null;
+  }
+
+  return {
+    code,
+    resultCode,
+    title: ERROR_CODE_DISPLAY[code].title,
+    message: getUserMessage(code, resultCode),
+    recoverable: ERROR_CODE_DISPLAY[code].recoverable,
+  };
+}
+
+/**
+ * 사용자에게 보여줄 에러 메시지
+ *
+ * Tour API 에러는 에러 코드별 한국어 메시지를, 그 외 에러는 error.message를 반환합니다.
+ *
+ * @param error - 표시할 에러
+ * @param fallback - 메시지가 없을 때 사용할 기본 메시지
+ * @returns 사용자 메시지
+ */
+export function getTourApiErrorMessage(
+  error: unknown,
+  fallback = "예상치 못한 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+): string {
+  const info = getTourApiErrorInfo(error);
+  if (info) {
+    return info.message;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * 클라이언트에서 다시 요청할 만한 에러인지 확인
+ *
+ * 한도 초과, 서비스 키 오류, 잘못된 요청은 다시 요청해도 결과가 같으므로 false를 반환합니다.
+ * Tour API 에러가 아닌 경우 true를 반환합니다.
+ *
+ * @param error - 확인할 에러
+ * @returns 재요청 가능 여부
+ */
+export function isRecoverableTourApiError(error: unknown): boolean {
+  return getTourApiErrorInfo(error)?.recoverable ?? true;
+}
+
+/**
+ * 사용자에게 바로 알려야 하는 에러인지 확인
+ *
+ * 한도 초과나 서비스 키 오류는 빈 목록으로 대체하면 "결과 없음"으로 오인되므로
+ * Server Action에서 삼키지 않고 그대로 던집니다.
+ *
+ * @param error - 확인할 에러
+ * @returns 한도 초과 또는 서비스 키 오류 여부
+ */
+export function isTourApiAccessError(error: unknown): boolean {
+  return (
+    error instanceof TourApiQuotaExceededError ||
+    error instanceof TourApiInvalidKeyError
+  );
+}
@@ -0,0 +1,464 @@
+/**
+ * @file tour-api-schemas.ts
+ * @description 한국관광공사 공공 API 응답 스키마 (zod)
+ *
+ * 공공 API는 같은 필드를 숫자/문자열/빈 문자열로 섞어서 내려주거나
+ * 좌표(mapx, mapy)를 누락하는 경우가 있습니다. 응답 항목을 그대로 캐스팅하면
+ * 지도 좌표 변환 등 화면 깊숙한 곳에서 오류가 나므로, TourApiClient가
+ * 이 스키마로 항목을 검증하고 정규화합니다.
+ *
+ * 정규화 규칙:
+ * 1. 숫자 값은 문자열로 변환하고, 문자열은 앞뒤 공백을 제거합니다.
+ * 2. 선택 필드의 빈 문자열/null은 undefined로 바꿉니다.
+ * 3. 식별자(contentid, contenttypeid, title)가 없거나 목록 항목의 좌표가
+ *    올바르지 않으면 해당 항목을 제외합니다 (제외 사유는 로그로 남김).
+ *
+ * lib/types/tour.ts의 응답 타입은 이 스키마에서 추론합니다.
+ *
+ * @see {@link /lib/types/tour.ts} - 스키마에서 추론한 타입
+ * @see {@link /lib/api/tour-api-client.ts} - 스키마 검증을 수행하는 클라이언트
+ */
+
+import { z } from "zod";
+
+/**
+ * 문자열 필드 값 정리
+ *
+ * 숫자는 문자열로 변환하고, 빈 문자열/null은 undefined로 바꿉니다.
+ */
+function toText(value: unknown): unknown {
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed === "" ? undefined : trimmed;
+  }
+  if (value === null) {
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * 필수 식별자 필드 (없으면 항목 제외)
+ */
+const idText = z.preprocess(
+  toText,
+  z.string({ required_error: "값이 없습니다" }),
+);
+
+/**
+ * 일반 문자열 필드 (없으면 빈 문자열)
+ */
+const text = z.preprocess(toText, z.string().catch(""));
+
+/**
+ * 선택 문자열 필드 (없거나 형식이 다르면 undefined)
+ */
+const optionalText = z
+  .preprocess(toText, z.string().optional())
+  .catch(undefined);
+
+/**
+ * 유효한 좌표 값인지 확인 (숫자이고 0이 아님)
+ */
+function isValidCoordinate(value: string): boolean {
+  const coordinate = Number(value);
+  return Number.isFinite(coordinate) && coordinate !== 0;
+}
+
+/**
+ * 좌표 필드 (올바르지 않으면 항목 제외)
+ *
+ * 목록 항목은 지도 마커로 표시되므로 좌표가 필수입니다.
+ */
+const coordinate = z.preprocess(
+  toText,
+  z
+    .string({ required_error: "좌표가 없습니다" })
+    .refine(isValidCoordinate, "좌표가 올바르지 않습니다"),
+);
+
+/**
+ * 선택 좌표 필드 (올바르지 않으면 빈 문자열)
+ *
+ * 상세 정보는 좌표가 없어도 표시할 수 있으므로 지도만 숨깁니다.
+ */
+const optionalCoordinate = z.preprocess(
+  toText,
+  z.string().refine(isValidCoordinate).catch(""),
+);
+
+/**
+ * 일련번호 필드 (숫자가 아니면 0)
+ */
+const serialNumber = z.coerce.number().catch(0);
+
+/**
+ * 관광지 목록 항목 스키마
+ *
+ * areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2, searchStay2 API 응답
+ */
+export const tourItemSchema = z.object({
+  /** 주소 */
+  addr1: text,
+  /** 상세주소 (선택) */
+  addr2: optionalText,
+  /** 지역코드 (시/도) */
+  areacode: text,
+  /** 시군구코드 (선택) */
+  sigungucode: optionalText,
+  /** 콘텐츠ID (고유 식별자) */
+  contentid: idText,
+  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
+  contenttypeid: idText,
+  /** 관광지명 */
+  title: idText,
+  /** 경도 (KATEC 좌표계, 정수형) */
+  mapx: coordinate,
+  /** 위도 (KATEC 좌표계, 정수형) */
+  mapy: coordinate,
+  /** 대표이미지1 (URL) */
+  firstimage: optionalText,
+  /** 대표이미지2 (URL) */
+  firstimage2: optionalText,
+  /** 전화번호 */
+  tel: optionalText,
+  /** 대분류 카테고리 */
+  cat1: optionalText,
+  /** 중분류 카테고리 */
+  cat2: optionalText,
+  /** 소분류 카테고리 */
+  cat3: optionalText,
+  /** 수정일 (YYYYMMDD 형식) */
+  modifiedtime: text,
+  /** 기준 좌표로부터의 거리 (미터, locationBasedList2 API 응답에만 포함) */
+  dist: optionalText,
+  /** 행사 시작일 (YYYYMMDD, searchFestival2 API 응답에만 포함) */
+  eventstartdate: optionalText,
+  /** 행사 종료일 (YYYYMMDD, searchFestival2 API 응답에만 포함) */
+  eventenddate: optionalText,
+});
+
+/**
+ * 관광지 동기화 목록 항목 스키마
+ *
+ * areaBasedSyncList2 API 응답 (목록 항목 + 표출 여부, 등록일)
+ */
+export const tourSyncItemSchema = tourItemSchema.extend({
+  /** 표출 여부 ("1": 표출, "0": 비표출/삭제) */
+  showflag: text,
+  /** 등록일 (YYYYMMDDhhmmss 형식) */
+  createdtime: optionalText,
+});
+
+/**
+ * 관광지 상세 정보 스키마
+ *
+ * detailCommon2 API 응답
+ */
+export const tourDetailSchema = z.object({
+  /** 콘텐츠ID (고유 식별자) */
+  contentid: idText,
+  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
+  contenttypeid: idText,
+  /** 관광지명 */
+  title: idText,
+  /** 주소 */
+  addr1: text,
+  /** 상세주소 (선택) */
+  addr2: optionalText,
+  /** 우편번호 (선택) */
+  zipcode: optionalText,
+  /** 전화번호 */
+  tel: optionalText,
+  /** 홈페이지 URL */
+  homepage: optionalText,
+  /** 개요 (긴 설명문) */
+  overview: optionalText,
+  /** 대표이미지1 (URL) */
+  firstimage: optionalText,
+  /** 대표이미지2 (URL) */
+  firstimage2: optionalText,
+  /** 경도 (KATEC 좌표계, 정수형, 좌표가 없으면 빈 문자열) */
+  mapx: optionalCoordinate,
+  /** 위도 (KATEC 좌표계, 정수형, 좌표가 없으면 빈 문자열) */
+  mapy: optionalCoordinate,
+  /** 지역코드 (시/도, 선택) */
+  areacode: optionalText,
+  /** 시군구코드 (선택) */
+  sigungucode: optionalText,
+  /** 대분류 카테고리 (선택) */
+  cat1: optionalText,
+  /** 중분류 카테고리 (선택) */
+  cat2: optionalText,
+  /** 소분류 카테고리 (선택) */
+  cat3: optionalText,
+  /** 수정일 (YYYYMMDDHHMMSS, 선택) */
+  modifiedtime: optionalText,
+});
+
+/**
+ * 관광지 소개 정보 스키마
+ *
+ * detailIntro2 API 응답
+ *
+ * 관광 타입(contenttypeid)에 따라 필드가 다르므로
+ * 정의되지 않은 필드도 문자열로 정규화해서 유지합니다.
+ */
+export const tourIntroSchema = z
+  .object({
+    /** 콘텐츠ID (고유 식별자) */
+    contentid: idText,
+    /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
+    contenttypeid: idText,
+    /** 이용시간/운영시간 */
+    usetime: optionalText,
+    /** 휴무일 */
+    restdate: optionalText,
+    /** 문의처 */
+    infocenter: optionalText,
+    /** 주차 가능 여부 */
+    parking: optionalText,
+    /** 반려동물 동반 가능 여부 */
+    chkpet: optionalText,
+    /** 이용요금 */
+    usefee: optionalText,
+    /** 수용인원 */
+    accomcount: optionalText,
+    /** 체험 프로그램 정보 */
+    expguide: optionalText,
+    /** 유모차 대여 가능 여부 */
+    chkbabycarriage: optionalText,
+    /** 장애인 편의시설 */
+    chkcreditcard: optionalText,
+    /** 행사 시작일 (YYYYMMDD, 축제공연행사 전용) */
+    eventstartdate: optionalText,
+    /** 행사 종료일 (YYYYMMDD, 축제공연행사 전용) */
+    eventenddate: optionalText,
+    /** 공연시간 (축제공연행사 전용) */
+    playtime: optionalText,
+    /** 행사 장소 (축제공연행사 전용) */
+    eventplace: optionalText,
+    /** 이용요금 (축제공연행사 전용) */
+    usetimefestival: optionalText,
+  })
+  .catchall(optionalText);
+
+/**
+ * 반복 정보 스키마
+ *
+ * detailInfo2 API 응답 (타입별 필드는 문자열로 정규화해서 유지)
+ */
+export const tourDetailInfoSchema = z
+  .object({
+    /** 콘텐츠ID (고유 식별자) */
+    contentid: idText,
+    /** 콘텐츠타입ID */
+    contenttypeid: idText,
+    /** 반복 일련번호 */
+    serialnum: optionalText,
+    /** 항목명 (숙박/여행코스 외 타입) */
+    infoname: optionalText,
+    /** 항목 내용 (숙박/여행코스 외 타입) */
+    infotext: optionalText,
+  })
+  .catchall(optionalText);
+
+/**
+ * 숙박 객실 정보 스키마
+ *
+ * 숙박(32) 타입의 detailInfo2 API 응답
+ * 편의시설 필드(roombath 등)는 "Y" 또는 "N" 값입니다.
+ */
+export const tourRoomInfoSchema = tourDetailInfoSchema.extend({
+  /** 객실코드 */
+  roomcode: optionalText,
+  /** 객실명칭 */
+  roomtitle: optionalText,
+  /** 객실크기 (평) */
+  roomsize1: optionalText,
+  /** 객실크기 (㎡) */
+  roomsize2: optionalText,
+  /** 객실수 */
+  roomcount: optionalText,
+  /** 기준인원 */
+  roombasecount: optionalText,
+  /** 최대인원 */
+  roommaxcount: optionalText,
+  /** 비수기 주중 최소요금 */
+  roomoffseasonminfee1: optionalText,
+  /** 비수기 주말 최소요금 */
+  roomoffseasonminfee2: optionalText,
+  /** 성수기 주중 최소요금 */
+  roompeakseasonminfee1: optionalText,
+  /** 성수기 주말 최소요금 */
+  roompeakseasonminfee2: optionalText,
+  /** 객실소개 */
+  roomintro: optionalText,
+  /** 목욕시설 */
+  roombathfacility: optionalText,
+  /** 욕조 */
+  roombath: optionalText,
+  /** 에어컨 */
+  roomaircondition: optionalText,
+  /** TV */
+  roomtv: optionalText,
+  /** PC */
+  roompc: optionalText,
+  /** 인터넷 */
+  roominternet: optionalText,
+  /** 냉장고 */
+  roomrefrigerator: optionalText,
+  /** 세면도구 */
+  roomtoiletries: optionalText,
+  /** 취사용품 */
+  roomcook: optionalText,
+  /** 드라이기 */
+  roomhairdryer: optionalText,
+  /** 객실사진1 (URL) */
+  roomimg1: optionalText,
+  /** 객실사진1 설명 */
+  roomimg1alt: optionalText,
+  /** 객실사진2 (URL) */
+  roomimg2: optionalText,
+  /** 객실사진2 설명 */
+  roomimg2alt: optionalText,
+  /** 객실사진3 (URL) */
+  roomimg3: optionalText,
+  /** 객실사진3 설명 */
+  roomimg3alt: optionalText,
+  /** 객실사진4 (URL) */
+  roomimg4: optionalText,
+  /** 객실사진4 설명 */
+  roomimg4alt: optionalText,
+  /** 객실사진5 (URL) */
+  roomimg5: optionalText,
+  /** 객실사진5 설명 */
+  roomimg5alt: optionalText,
+});
+
+/**
+ * 관광지 이미지 스키마
+ *
+ * detailImage2 API 응답 (원본 이미지 URL이 없으면 항목 제외)
+ */
+export const tourImageSchema = z.object({
+  /** 콘텐츠ID */
+  contentid: idText,
+  /** 이미지명 */
+  imagename: text,
+  /** 원본 이미지 URL */
+  originimgurl: idText,
+  /** 시리얼 번호 */
+  serialnum: text,
+  /** 썸네일 이미지 URL */
+  smallimageurl: text,
+});
+
+/**
+ * 반려동물 동반 여행 정보 스키마
+ *
+ * detailPetTour2 API 응답
+ */
+export const petTourInfoSchema = z.object({
+  /** 콘텐츠ID (고유 식별자) */
+  contentid: idText,
+  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
+  contenttypeid: optionalText,
+  /** 동반 타입 코드 (예: "전구역 동반가능", "일부구역 동반가능") */
+  acmpyTypeCd: optionalText,
+  /** 동반 가능 캠프 (예: "전 견종 동반 가능") */
+  acmpyPsblCpam: optionalText,
+  /** 동반 필요 사항 (예: "목줄 착용", "반려동물 유모차 탑승" 등) */
+  acmpyNeedMtr: optionalText,
+  /** 기타 동반 정보 (주의사항 등) */
+  etcAcmpyInfo: optionalText,
+  /** 사고 위험 물질 */
+  relaAcdntRiskMtr: optionalText,
+  /** 관련 포즈 시설 */
+  relaPosesFclty: optionalText,
+  /** 관련 가구 제품 목록 */
+  relaFrnshPrdlst: optionalText,
+  /** 관련 구매 제품 목록 */
+  relaPurcPrdlst: optionalText,
+  /** 관련 렌탈 제품 목록 */
+  relaRntlPrdlst: optionalText,
+});
+
+/**
+ * 지역코드 항목 스키마
+ *
+ * areaCode2 API 응답 (시/도 또는 시군구)
+ */
+export const areaCodeItemSchema = z.object({
+  /** 지역코드 (areaCode 미지정 시 시/도 코드, 지정 시 시군구 코드) */
+  code: idText,
+  /** 지역명 */
+  name: idText,
+  /** 일련번호 */
+  rnum: serialNumber,
+});
+
+/**
+ * 서비스 분류코드 항목 스키마
+ *
+ * categoryCode2 API 응답 (대/중/소분류)
+ */
+export const categoryCodeItemSchema = z.object({
+  /** 분류코드 (대분류: A01, 중분류: A0101, 소분류: A01010100) */
+  code: idText,
+  /** 분류명 */
+  name: idText,
+  /** 일련번호 */
+  rnum: serialNumber,
+});
+
+/**
+ * 제외된 응답 항목 정보
+ */
+export interface InvalidTourApiItem {
+  /** 응답 목록에서의 위치 */
+  index: number;
+  /** 콘텐츠ID (있는 경우) */
+  contentid?: unknown;
+  /** 제외 사유 (필드별 검증 메시지) */
+  reason: string;
+}
+
+/**
+ * 응답 항목 검증
+ *
+ * 스키마를 통과한 항목은 정규화된 값으로 반환하고,
+ * 통과하지 못한 항목은 사유와 함께 따로 모읍니다.
+ *
+ * @param schema - 항목 스키마
+ * @param items - 응답 항목 목록
+ * @returns 검증된 항목과 제외된 항목 정보
+ */
+export function validateTourApiItems<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  items: unknown[],
+): { valid: T[]; invalid: InvalidTourApiItem[] } {
+  const valid: T[] = [];
+  const invalid: InvalidTourApiItem[] = [];
+
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+
+    invalid.push({
+      index,
+      contentid: (item as { contentid?: unknown } | null)?.contentid,
+      reason: result.error.issues
+        .map((issue) => `${issue.path.join(".") || "항목"}: ${issue.message}`)
+        .join(", "),
+    });
+  });
+
+  return { valid, invalid };
+}
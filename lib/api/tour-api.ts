@@ -6,82 +6,64 @@
  *
  * 주요 기능:
  * 1. 지역코드 조회 (areaCode2)
- * 2. 지역 기반 관광정보 조회 (areaBasedList2)
- * 3. 키워드 검색 (searchKeyword2)
- * 4. 공통 정보 조회 (detailCommon2)
- * 5. 소개 정보 조회 (detailIntro2)
- * 6. 이미지 조회 (detailImage2)
- * 7. 반려동물 동반 여행 정보 조회 (detailPetTour2)
+ * 2. 서비스 분류코드 조회 (categoryCode2)
+ * 3. 지역 기반 관광정보 조회 (areaBasedList2)
+ * 4. 위치 기반 관광정보 조회 (locationBasedList2)
+ * 5. 키워드 검색 (searchKeyword2)
+ * 6. 행사정보 조회 (searchFestival2)
+ * 7. 숙박정보 조회 (searchStay2)
+ * 8. 공통 정보 조회 (detailCommon2)
+ * 9. 소개 정보 조회 (detailIntro2)
+ * 10. 반복 정보 조회 (detailInfo2, 숙박 객실 정보 포함)
+ * 11. 이미지 조회 (detailImage2)
+ * 12. 반려동물 동반 여행 정보 조회 (detailPetTour2)
+ * 13. 관광정보 동기화 목록 조회 (areaBasedSyncList2)
  *
  * API 기본 정보:
  * - Base URL: https://apis.data.go.kr/B551011/KorService2
  * - 공통 파라미터: serviceKey, MobileOS: "ETC", MobileApp: "MyTrip", _type: "json"
+ * - HTTP 호출, 재시도, 속도 제한은 TourApiClient가 담당합니다.
+ * - locale을 지정하면 영문/일문/중문 서비스(EngService2, JpnService2, ChsService2)로 요청합니다.
+ *   상세 정보는 번역 콘텐츠가 없으면 국문 서비스 결과로 대체합니다.
  *
+ * @see {@link /lib/api/tour-api-client.ts} - 공통 API 클라이언트
  * @see {@link /docs/prd.md#4-api-명세} - PRD 문서의 API 명세 섹션
  */
 
 import type {
+  AreaCodeItem,
+  CategoryCodeItem,
   TourItem,
+  TourSyncItem,
   TourDetail,
   TourIntro,
+  TourDetailInfo,
   PetTourInfo,
 } from "@/lib/types/tour";
-import { TOUR_API_BASE_URL, TOUR_API_COMMON_PARAMS } from "@/lib/api/constants";
-
-/**
- * API Base URL
- */
-const BASE_URL = TOUR_API_BASE_URL;
-
-/**
- * API 공통 파라미터
- */
-const COMMON_PARAMS = TOUR_API_COMMON_PARAMS;
-
-/**
- * API 서비스 키 가져오기
- *
- * NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY 환경변수에서 가져옵니다.
- * 서버 사이드에서는 TOUR_API_KEY를 우선적으로 사용합니다.
- */
-function getServiceKey(): string {
-  // 서버 사이드에서는 TOUR_API_KEY를 우선 사용
-  // 클라이언트 사이드에서는 NEXT_PUBLIC_TOUR_API_KEY만 사용 가능
-  const tourKey = process.env.TOUR_API_KEY;
-  const nextPublicKey = process.env.NEXT_PUBLIC_TOUR_API_KEY;
-
-  const key = tourKey?.trim() || nextPublicKey?.trim() || null;
-
-  if (!key || key.length === 0) {
-    console.error("[Tour API] 환경 변수 확인:", {
-      TOUR_API_KEY: tourKey ? `설정됨 (길이: ${tourKey.length})` : "미설정",
-      NEXT_PUBLIC_TOUR_API_KEY: nextPublicKey
-        ? `설정됨 (길이: ${nextPublicKey.length})`
-        : "미설정",
-      NODE_ENV: process.env.NODE_ENV,
-      환경변수_접근_가능: typeof process.env !== "undefined",
-      // 모든 환경 변수 키 목록 확인 (디버깅용)
-      사용가능한_환경변수_키: Object.keys(process.env)
-        .filter((k) => k.includes("TOUR"))
-        .slice(0, 10),
-    });
-    throw new Error(
-      "TOUR_API_KEY 환경변수가 설정되지 않았습니다. NEXT_PUBLIC_TOUR_API_KEY 또는 TOUR_API_KEY를 설정해주세요.",
-    );
-  }
-
-  // 환경 변수가 제대로 읽혔는지 확인 (키 값은 로그에 출력하지 않음)
-  console.log(
-    "[Tour API] API 키 로드 성공:",
-    key.length > 0 ? `${key.substring(0, 8)}...` : "빈 값",
-    {
-      사용된_키_타입: tourKey ? "TOUR_API_KEY" : "NEXT_PUBLIC_TOUR_API_KEY",
-      NODE_ENV: process.env.NODE_ENV,
-    },
-  );
-
-  return key.trim();
-}
+import {
+  getServiceKey,
+  getTourApiClient,
+  tourApiClient,
+  type TourApiClient,
+} from "@/lib/api/tour-api-client";
+import {
+  TourApiError,
+  TourApiInvalidKeyError,
+  TourApiQuotaExceededError,
+} from "@/lib/api/tour-api-errors";
+import {
+  areaCodeItemSchema,
+  categoryCodeItemSchema,
+  petTourInfoSchema,
+  tourDetailInfoSchema,
+  tourDetailSchema,
+  tourImageSchema,
+  tourIntroSchema,
+  tourItemSchema,
+  tourSyncItemSchema,
+} from "@/lib/api/tour-api-schemas";
+import { DEFAULT_TOUR_LOCALE, type TourLocale } from "@/lib/utils/locale";
+import { isPetFriendlyInfo } from "@/lib/utils/pet-info";
 
 /**
  * 반려동물 동반여행 API 서비스 키 가져오기
@@ -140,98 +122,92 @@ function getPetTourServiceKey(): string {
 }
 
 /**
- * API 응답 타입
- */
-interface ApiResponse<T> {
-  response: {
-    header: {
-      resultCode: string;
-      resultMsg: string;
-    };
-    body: {
-      items?: {
-        item: T | T[];
-      };
-      numOfRows: number;
-      pageNo: number;
-      totalCount: number;
-    };
-  };
-}
-
-/**
- * API 호출 공통 함수
+ * 번역 콘텐츠가 없으면 국문 서비스로 다시 조회
+ *
+ * 외국어 서비스에는 일부 콘텐츠만 번역되어 있어,
+ * 국문 목록/북마크의 contentid로 조회하면 결과가 비어 있을 수 있습니다.
+ *
+ * @param locale - 요청 로케일
+ * @param label - 로그용 오퍼레이션 이름
+ * @param fetcher - 클라이언트로 항목을 조회하는 함수
+ * @returns 조회 결과 (번역 결과가 없으면 국문 결과)
  */
-async function fetchApi<T>(
-  endpoint: string,
-  params: Record<string, string | number | undefined>,
+async function withKoreanFallback<T>(
+  locale: TourLocale | undefined,
+  label: string,
+  fetcher: (client: TourApiClient) => Promise<T[]>,
 ): Promise<T[]> {
-  const serviceKey = getServiceKey();
-
-  const searchParams = new URLSearchParams({
-    serviceKey,
-    ...COMMON_PARAMS,
-    ...Object.fromEntries(
-      Object.entries(params).filter(([, value]) => value !== undefined),
-    ),
-  });
-
-  const url = `${BASE_URL}${endpoint}?${searchParams.toString()}`;
-
-  console.log(`[Tour API] 호출: ${endpoint}`, {
-    params,
-    serviceKeyLength: serviceKey.length,
-    url: url.substring(0, 100) + "...", // URL 일부만 로그에 출력
-  });
-
-  try {
-    const response = await fetch(url, {
-      next: { revalidate: 3600 }, // 1시간 캐시
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `API 호출 실패: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data: ApiResponse<T> = await response.json();
-
-    // API 에러 체크
-    if (data.response.header.resultCode !== "0000") {
-      throw new Error(
-        `API 에러: ${data.response.header.resultCode} - ${data.response.header.resultMsg}`,
-      );
-    }
-
-    // 데이터 추출
-    const items = data.response.body.items?.item;
-    if (!items) {
-      return [];
-    }
+  const client = getTourApiClient(locale);
+  const items = await fetcher(client);
 
-    // 배열이 아닌 경우 배열로 변환
-    return Array.isArray(items) ? items : [items];
-  } catch (error) {
-    console.error(`[Tour API] 에러: ${endpoint}`, error);
-    throw error;
+  if (items.length > 0 || client.locale === DEFAULT_TOUR_LOCALE) {
+    return items;
   }
+
+  console.log(
+    `[Tour API] ${label}: ${client.locale} 번역 콘텐츠 없음, 국문으로 대체`,
+  );
+  return fetcher(tourApiClient);
 }
 
 /**
  * 지역코드 조회
  *
+ * areaCode를 지정하면 해당 시/도의 시군구 목록을 반환합니다.
+ * 지역코드는 거의 변경되지 않으므로 하루 동안 캐싱합니다.
+ *
  * @param areaCode - 지역코드 (시/도, 선택 사항)
- * @returns 지역코드 목록
+ * @param locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 지역코드 목록 (areaCode 지정 시 시군구 목록)
  */
-export async function getAreaCode(areaCode?: string) {
-  return fetchApi<{
-    code: string;
-    name: string;
-    rnum: number;
-  }>("/areaCode2", {
-    areaCode,
-  });
+export async function getAreaCode(
+  areaCode?: string,
+  locale?: TourLocale,
+): Promise<AreaCodeItem[]> {
+  return getTourApiClient(locale).getItems(
+    "/areaCode2",
+    areaCodeItemSchema,
+    {
+      areaCode,
+      numOfRows: 100,
+    },
+    { revalidate: 24 * 60 * 60 },
+  );
+}
+
+/**
+ * 서비스 분류코드 조회
+ *
+ * 상위 분류코드를 지정하면 바로 아래 단계의 분류 목록을 반환합니다.
+ * (미지정: 대분류, cat1: 중분류, cat1+cat2: 소분류)
+ * 분류코드는 거의 변경되지 않으므로 하루 동안 캐싱합니다.
+ *
+ * @param options - 조회 옵션
+ * @param options.contentTypeId - 콘텐츠타입ID (선택 사항)
+ * @param options.cat1 - 대분류 코드 (선택 사항)
+ * @param options.cat2 - 중분류 코드 (선택 사항, cat1과 함께 사용)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 분류코드 목록
+ */
+export async function getCategoryCode(
+  options: {
+    contentTypeId?: string;
+    cat1?: string;
+    cat2?: string;
+    locale?: TourLocale;
+  } = {},
+): Promise<CategoryCodeItem[]> {
+  return getTourApiClient(options.locale).getItems(
+    "/categoryCode2",
+    categoryCodeItemSchema,
+    {
+      contentTypeId: options.contentTypeId,
+      cat1: options.cat1,
+      cat2: options.cat2,
+      numOfRows: 100,
+    },
+    { revalidate: 24 * 60 * 60 },
+  );
 }
 
 /**
@@ -241,24 +217,136 @@ export async function getAreaCode(areaCode?: string) {
  * @param options.areaCode - 지역코드 (시/도)
  * @param options.contentTypeId - 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39)
  * @param options.sigunguCode - 시군구코드 (선택 사항)
+ * @param options.cat1 - 대분류 코드 (선택 사항)
+ * @param options.cat2 - 중분류 코드 (선택 사항)
+ * @param options.cat3 - 소분류 코드 (선택 사항)
  * @param options.numOfRows - 페이지당 항목 수 (기본값: 10)
  * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
  * @returns 관광지 목록
  */
 export async function getAreaBasedList(options: {
   areaCode?: string;
   contentTypeId?: string;
   sigunguCode?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
   numOfRows?: number;
   pageNo?: number;
+  locale?: TourLocale;
 }): Promise<TourItem[]> {
-  return fetchApi<TourItem>("/areaBasedList2", {
-    areaCode: options.areaCode,
-    contentTypeId: options.contentTypeId,
-    sigunguCode: options.sigunguCode,
-    numOfRows: options.numOfRows ?? 10,
-    pageNo: options.pageNo ?? 1,
-  });
+  return getTourApiClient(options.locale).getItems(
+    "/areaBasedList2",
+    tourItemSchema,
+    {
+      areaCode: options.areaCode,
+      contentTypeId: options.contentTypeId,
+      sigunguCode: options.sigunguCode,
+      cat1: options.cat1,
+      cat2: options.cat2,
+      cat3: options.cat3,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+    },
+  );
+}
+
+/**
+ * 관광정보 동기화 목록 조회
+ *
+ * 카탈로그 미러(tours 테이블) 동기화에 사용합니다.
+ * 비표출(삭제) 항목도 showflag "0"으로 함께 내려오며, 미러 동기화는
+ * 최신 데이터가 필요하므로 캐시하지 않습니다.
+ *
+ * @param options - 조회 옵션
+ * @param options.modifiedtime - 수정일 (YYYYMMDD, 지정하면 해당 날짜에 수정된 항목만)
+ * @param options.showflag - 표출 여부 ("1" 또는 "0", 미지정 시 전체)
+ * @param options.numOfRows - 페이지당 항목 수 (기본값: 100)
+ * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @returns 동기화 목록 항목 (수정일순)
+ */
+export async function getAreaBasedSyncList(
+  options: {
+    modifiedtime?: string;
+    showflag?: "0" | "1";
+    numOfRows?: number;
+    pageNo?: number;
+  } = {},
+): Promise<TourSyncItem[]> {
+  return tourApiClient.getItems(
+    "/areaBasedSyncList2",
+    tourSyncItemSchema,
+    {
+      modifiedtime: options.modifiedtime,
+      showflag: options.showflag,
+      arrange: "C", // 수정일순
+      numOfRows: options.numOfRows ?? 100,
+      pageNo: options.pageNo ?? 1,
+    },
+    { revalidate: 0 },
+  );
+}
+
+/**
+ * 관광정보 동기화 목록 전체 항목 수 조회
+ *
+ * @param modifiedtime - 수정일 (YYYYMMDD, 선택 사항)
+ * @returns totalCount
+ */
+export async function getAreaBasedSyncCount(
+  modifiedtime?: string,
+): Promise<number> {
+  return tourApiClient.getTotalCount(
+    "/areaBasedSyncList2",
+    { modifiedtime, numOfRows: 1, pageNo: 1 },
+    { revalidate: 0 },
+  );
+}
+
+/**
+ * 위치 기반 관광정보 조회
+ *
+ * 기준 좌표 반경 내의 관광지를 거리순으로 조회합니다.
+ * 응답 항목의 dist 필드에 기준 좌표로부터의 거리(미터)가 포함됩니다.
+ *
+ * @param options - 조회 옵션
+ * @param options.lat - 기준 위도 (WGS84)
+ * @param options.lng - 기준 경도 (WGS84)
+ * @param options.radius - 검색 반경 (미터, 기본값: 5000, 최대 20000)
+ * @param options.contentTypeId - 콘텐츠타입ID (선택 사항)
+ * @param options.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 관광지 목록 (거리순)
+ */
+export async function getLocationBasedList(options: {
+  lat: number;
+  lng: number;
+  radius?: number;
+  contentTypeId?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale;
+}): Promise<TourItem[]> {
+  const radius = Math.min(
+    Math.max(Math.round(options.radius ?? 5000), 1),
+    20000,
+  );
+
+  return getTourApiClient(options.locale).getItems(
+    "/locationBasedList2",
+    tourItemSchema,
+    {
+      mapX: options.lng,
+      mapY: options.lat,
+      radius,
+      contentTypeId: options.contentTypeId,
+      arrange: "E", // 거리순
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+    },
+  );
 }
 
 /**
@@ -267,41 +355,134 @@ export async function getAreaBasedList(options: {
  * @param keyword - 검색 키워드
  * @param options - 검색 옵션
  * @param options.areaCode - 지역코드 (선택 사항)
+ * @param options.sigunguCode - 시군구코드 (선택 사항, areaCode와 함께 사용)
  * @param options.contentTypeId - 콘텐츠타입ID (선택 사항)
+ * @param options.cat1 - 대분류 코드 (선택 사항)
+ * @param options.cat2 - 중분류 코드 (선택 사항)
+ * @param options.cat3 - 소분류 코드 (선택 사항)
  * @param options.numOfRows - 페이지당 항목 수 (기본값: 10)
  * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
  * @returns 검색 결과 목록
  */
 export async function searchKeyword(
   keyword: string,
   options?: {
     areaCode?: string;
+    sigunguCode?: string;
     contentTypeId?: string;
+    cat1?: string;
+    cat2?: string;
+    cat3?: string;
     numOfRows?: number;
     pageNo?: number;
+    locale?: TourLocale;
   },
 ): Promise<TourItem[]> {
-  return fetchApi<TourItem>("/searchKeyword2", {
-    keyword,
-    areaCode: options?.areaCode,
-    contentTypeId: options?.contentTypeId,
-    numOfRows: options?.numOfRows ?? 10,
-    pageNo: options?.pageNo ?? 1,
-  });
+  return getTourApiClient(options?.locale).getItems(
+    "/searchKeyword2",
+    tourItemSchema,
+    {
+      keyword,
+      areaCode: options?.areaCode,
+      sigunguCode: options?.sigunguCode,
+      contentTypeId: options?.contentTypeId,
+      cat1: options?.cat1,
+      cat2: options?.cat2,
+      cat3: options?.cat3,
+      numOfRows: options?.numOfRows ?? 10,
+      pageNo: options?.pageNo ?? 1,
+    },
+  );
+}
+
+/**
+ * 행사정보 조회 (축제공연행사)
+ *
+ * 행사 기간이 지정한 기간과 겹치는 축제/공연/행사를 조회합니다.
+ * areaBasedList2로 조회하면 지난 행사가 섞이므로 축제공연행사(15)는 이 함수를 사용합니다.
+ *
+ * @param options - 조회 옵션
+ * @param options.eventStartDate - 행사 시작일 (YYYYMMDD, 이 날짜 이후 종료되는 행사)
+ * @param options.eventEndDate - 행사 종료일 (YYYYMMDD, 이 날짜 이전 시작되는 행사, 선택 사항)
+ * @param options.areaCode - 지역코드 (선택 사항)
+ * @param options.sigunguCode - 시군구코드 (선택 사항)
+ * @param options.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 행사 목록 (eventstartdate, eventenddate 포함)
+ */
+export async function searchFestival(options: {
+  eventStartDate: string;
+  eventEndDate?: string;
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale;
+}): Promise<TourItem[]> {
+  return getTourApiClient(options.locale).getItems(
+    "/searchFestival2",
+    tourItemSchema,
+    {
+      eventStartDate: options.eventStartDate,
+      eventEndDate: options.eventEndDate,
+      areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+    },
+  );
+}
+
+/**
+ * 숙박정보 조회
+ *
+ * 숙박(32) 타입 관광지를 조회합니다.
+ *
+ * @param options - 조회 옵션
+ * @param options.areaCode - 지역코드 (선택 사항)
+ * @param options.sigunguCode - 시군구코드 (선택 사항)
+ * @param options.numOfRows - 페이지당 항목 수 (기본값: 10)
+ * @param options.pageNo - 페이지 번호 (기본값: 1)
+ * @param options.locale - 콘텐츠 로케일 (기본값: "ko")
+ * @returns 숙박시설 목록
+ */
+export async function searchStay(options: {
+  areaCode?: string;
+  sigunguCode?: string;
+  numOfRows?: number;
+  pageNo?: number;
+  locale?: TourLocale;
+}): Promise<TourItem[]> {
+  return getTourApiClient(options.locale).getItems(
+    "/searchStay2",
+    tourItemSchema,
+    {
+      areaCode: options.areaCode,
+      sigunguCode: options.sigunguCode,
+      numOfRows: options.numOfRows ?? 10,
+      pageNo: options.pageNo ?? 1,
+    },
+  );
 }
 
 /**
  * 공통 정보 조회
  *
  * @param contentId - 콘텐츠ID
+ * @param locale - 콘텐츠 로케일 (기본값: "ko", 번역이 없으면 국문으로 대체)
  * @returns 관광지 상세 정보
  */
 export async function getDetailCommon(
   contentId: string,
+  locale?: TourLocale,
 ): Promise<TourDetail | null> {
-  const results = await fetchApi<TourDetail>("/detailCommon2", {
-    contentId,
-  });
+  const results = await withKoreanFallback(locale, "detailCommon2", (client) =>
+    client.getItems("/detailCommon2", tourDetailSchema, {
+      contentId,
+    }),
+  );
 
   return results[0] ?? null;
 }
@@ -310,37 +491,61 @@ export async function getDetailCommon(
  * 소개 정보 조회
  *
  * @param contentId - 콘텐츠ID
- * @param contentTypeId - 콘텐츠타입ID
+ * @param contentTypeId - 콘텐츠타입ID (국문 기준)
+ * @param locale - 콘텐츠 로케일 (기본값: "ko", 번역이 없으면 국문으로 대체)
  * @returns 관광지 소개 정보
  */
 export async function getDetailIntro(
   contentId: string,
   contentTypeId: string,
+  locale?: TourLocale,
 ): Promise<TourIntro | null> {
-  const results = await fetchApi<TourIntro>("/detailIntro2", {
-    contentId,
-    contentTypeId,
-  });
+  const results = await withKoreanFallback(locale, "detailIntro2", (client) =>
+    client.getItems("/detailIntro2", tourIntroSchema, {
+      contentId,
+      contentTypeId,
+    }),
+  );
 
   return results[0] ?? null;
 }
 
+/**
+ * 반복 정보 조회
+ *
+ * 숙박(32)은 객실별 정보(TourRoomInfo)를 반환합니다.
+ *
+ * @param contentId - 콘텐츠ID
+ * @param contentTypeId - 콘텐츠타입ID (국문 기준)
+ * @param locale - 콘텐츠 로케일 (기본값: "ko", 번역이 없으면 국문으로 대체)
+ * @returns 반복 정보 목록
+ */
+export async function getDetailInfo(
+  contentId: string,
+  contentTypeId: string,
+  locale?: TourLocale,
+): Promise<TourDetailInfo[]> {
+  return withKoreanFallback(locale, "detailInfo2", (client) =>
+    client.getItems("/detailInfo2", tourDetailInfoSchema, {
+      contentId,
+      contentTypeId,
+    }),
+  );
+}
+
 /**
  * 이미지 조회
  *
  * @param contentId - 콘텐츠ID
+ * @param locale - 콘텐츠 로케일 (기본값: "ko", 번역이 없으면 국문으로 대체)
  * @returns 이미지 목록
  */
-export async function getDetailImage(contentId: string) {
-  return fetchApi<{
-    contentid: string;
-    imagename: string;
-    originimgurl: string;
-    serialnum: string;
-    smallimageurl: string;
-  }>("/detailImage2", {
-    contentId,
-  });
+export async function getDetailImage(contentId: string, locale?: TourLocale) {
+  return withKoreanFallback(locale, "detailImage2", (client) =>
+    client.getItems("/detailImage2", tourImageSchema, {
+      contentId,
+    }),
+  );
 }
 
 /**
@@ -405,152 +610,56 @@ export async function getDetailPetTour(
     }
   }
 
-  const searchParams = new URLSearchParams({
-    serviceKey,
-    ...COMMON_PARAMS,
-    contentId,
-  });
-
-  const url = `${BASE_URL}/detailPetTour2?${searchParams.toString()}`;
-
-  console.log(`[Tour API] detailPetTour2 API 호출 시작: ${contentId}`, {
-    url: url.substring(0, 100) + "...", // URL 일부만 로그에 출력
-    serviceKeyLength: serviceKey.length,
-    serviceKeyPrefix: serviceKey.substring(0, 8),
-    NODE_ENV: process.env.NODE_ENV,
-  });
-
   try {
-    const response = await fetch(url, {
-      next: { revalidate: 3600 }, // 1시간 캐시
-    });
-
-    console.log(`[Tour API] detailPetTour2 API 응답 받음: ${contentId}`, {
-      status: response.status,
-      statusText: response.statusText,
-      ok: response.ok,
-    });
-
-    if (!response.ok) {
-      const errorText = await response
-        .text()
-        .catch(() => "응답 본문 읽기 실패");
-      console.error(`[Tour API] detailPetTour2 API 호출 실패: ${contentId}`, {
-        status: response.status,
-        statusText: response.statusText,
-        errorText: errorText.substring(0, 200), // 에러 텍스트 일부만 로그에 출력
-      });
-      throw new Error(
-        `API 호출 실패: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    const data: ApiResponse<PetTourInfo> = await response.json();
+    const results = await tourApiClient.getItems(
+      "/detailPetTour2",
+      petTourInfoSchema,
+      { contentId },
+      { serviceKey },
+    );
 
-    // API 에러 체크
-    if (data.response.header.resultCode !== "0000") {
-      console.warn(
-        `[Tour API] detailPetTour2 API 에러: ${data.response.header.resultCode} - ${data.response.header.resultMsg}`,
-        { contentId },
-      );
-      // API 에러가 발생해도 null을 반환 (에러를 throw하지 않음)
+    // 데이터가 없는 경우 (items가 빈 문자열이거나 resultCode 03)
+    const petInfo = results[0] ?? null;
+    if (!petInfo) {
+      console.log(`[Tour API] detailPetTour2 데이터 없음: ${contentId}`);
       return null;
     }
 
-    // 더 자세한 응답 구조 로깅 (디버깅용)
-    console.log(`[Tour API] detailPetTour2 응답 구조: ${contentId}`, {
-      resultCode: data.response.header.resultCode,
-      totalCount: data.response.body.totalCount,
-      itemsType: typeof data.response.body.items,
-      itemsValue: data.response.body.items,
-      hasItem:
-        data.response.body.items &&
-        typeof data.response.body.items === "object" &&
-        "item" in data.response.body.items,
+    console.log(`[Tour API] detailPetTour2 성공: ${contentId}`, {
+      acmpyTypeCd: petInfo.acmpyTypeCd,
+      acmpyPsblCpam: petInfo.acmpyPsblCpam,
+      acmpyNeedMtr: petInfo.acmpyNeedMtr,
+      etcAcmpyInfo: petInfo.etcAcmpyInfo,
+      hasPetInfo: Boolean(
+        petInfo.acmpyTypeCd ||
+        petInfo.acmpyPsblCpam ||
+        petInfo.acmpyNeedMtr ||
+        petInfo.etcAcmpyInfo,
+      ),
     });
 
-    // 데이터 추출
-    // items가 빈 문자열이거나 null인 경우 처리
+    return petInfo;
+  } catch (error) {
+    // 한도 초과/키 오류를 제외한 API 에러는 null을 반환 (에러를 throw하지 않음)
     if (
-      !data.response.body.items ||
-      (typeof data.response.body.items === "string" &&
-        data.response.body.items === "")
+      error instanceof TourApiError &&
+      error.resultCode &&
+      !(error instanceof TourApiQuotaExceededError) &&
+      !(error instanceof TourApiInvalidKeyError)
     ) {
-      console.log(
-        `[Tour API] detailPetTour2 데이터 없음 (items가 빈 문자열): ${contentId}`,
-        {
-          body: data.response.body,
-          items: data.response.body.items,
-          totalCount: data.response.body.totalCount,
-        },
-      );
-      return null;
-    }
-
-    // items가 객체가 아닌 경우 처리
-    if (typeof data.response.body.items !== "object") {
-      console.log(
-        `[Tour API] detailPetTour2 데이터 없음 (items가 객체가 아님): ${contentId}`,
-        {
-          body: data.response.body,
-          items: data.response.body.items,
-          itemsType: typeof data.response.body.items,
-        },
-      );
-      return null;
-    }
-
-    const items = data.response.body.items.item;
-    if (!items) {
-      console.log(
-        `[Tour API] detailPetTour2 데이터 없음 (item이 없음): ${contentId}`,
-        {
-          body: data.response.body,
-          items: data.response.body.items,
-          totalCount: data.response.body.totalCount,
-        },
-      );
-      return null;
-    }
-
-    // 배열이 아닌 경우 배열로 변환 후 첫 번째 항목 반환
-    const results = Array.isArray(items) ? items : [items];
-    const petInfo = results[0] ?? null;
-
-    if (petInfo) {
-      console.log(`[Tour API] detailPetTour2 성공: ${contentId}`, {
-        acmpyTypeCd: petInfo.acmpyTypeCd,
-        acmpyPsblCpam: petInfo.acmpyPsblCpam,
-        acmpyNeedMtr: petInfo.acmpyNeedMtr,
-        etcAcmpyInfo: petInfo.etcAcmpyInfo,
-        hasPetInfo: Boolean(
-          petInfo.acmpyTypeCd ||
-            petInfo.acmpyPsblCpam ||
-            petInfo.acmpyNeedMtr ||
-            petInfo.etcAcmpyInfo,
-        ),
+      console.warn(`[Tour API] detailPetTour2 API 에러: ${error.message}`, {
+        contentId,
       });
+      return null;
     }
 
-    return petInfo;
-  } catch (error) {
     // 배포 환경에서 문제 파악을 위한 상세 로그
     console.error(`[Tour API] detailPetTour2 에러: ${contentId}`, {
       error: error instanceof Error ? error.message : String(error),
-      errorStack: error instanceof Error ? error.stack : undefined,
+      errorType: error instanceof Error ? error.name : typeof error,
       NODE_ENV: process.env.NODE_ENV,
       serviceKeyLength: serviceKey?.length,
       serviceKeyPrefix: serviceKey?.substring(0, 8),
-      url: url.substring(0, 100) + "...",
-      // 환경 변수 상태 확인
-      TOUR_PET_API_KEY: process.env.TOUR_PET_API_KEY ? "설정됨" : "미설정",
-      NEXT_PUBLIC_TOUR_PET_API_KEY: process.env.NEXT_PUBLIC_TOUR_PET_API_KEY
-        ? "설정됨"
-        : "미설정",
-      TOUR_API_KEY: process.env.TOUR_API_KEY ? "설정됨" : "미설정",
-      NEXT_PUBLIC_TOUR_API_KEY: process.env.NEXT_PUBLIC_TOUR_API_KEY
-        ? "설정됨"
-        : "미설정",
     });
     throw error;
   }
@@ -561,10 +670,15 @@ export async function getDetailPetTour(
  *
  * 여러 페이지의 관광지를 조회하고, 각 관광지의 반려동물 정보를 확인하여
  * 반려동물 동반 가능한 관광지만 반환합니다.
+ * 반려동물 인덱스를 사용할 수 없을 때(미러 비활성화, 인덱스 미생성) 대체 경로로 사용합니다.
  *
  * @param options - 조회 옵션
  * @param options.areaCode - 지역코드 (시/도)
+ * @param options.sigunguCode - 시군구코드 (선택 사항)
  * @param options.contentTypeId - 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39)
+ * @param options.cat1 - 대분류 코드 (선택 사항)
+ * @param options.cat2 - 중분류 코드 (선택 사항)
+ * @param options.cat3 - 소분류 코드 (선택 사항)
  * @param options.maxPages - 최대 조회할 페이지 수 (기본값: 5)
  * @param options.numOfRows - 페이지당 항목 수 (기본값: 100)
  * @param options.maxResults - 최대 반환할 결과 수 (기본값: 50)
@@ -572,7 +686,11 @@ export async function getDetailPetTour(
  */
 export async function findPetFriendlyTours(options: {
   areaCode?: string;
+  sigunguCode?: string;
   contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
   maxPages?: number;
   numOfRows?: number;
   maxResults?: number;
@@ -580,7 +698,11 @@ export async function findPetFriendlyTours(options: {
 }): Promise<Array<{ tour: TourItem; petInfo: PetTourInfo }>> {
   const {
     areaCode,
+    sigunguCode,
     contentTypeId,
+    cat1,
+    cat2,
+    cat3,
     maxPages = 5,
     numOfRows = 100,
     maxResults = 50,
@@ -589,7 +711,11 @@ export async function findPetFriendlyTours(options: {
 
   console.log("[Tour API] 반려동물 동반 가능한 관광지 찾기 시작", {
     areaCode,
+    sigunguCode,
     contentTypeId,
+    cat1,
+    cat2,
+    cat3,
     maxPages,
     numOfRows,
     maxResults,
@@ -608,7 +734,11 @@ export async function findPetFriendlyTours(options: {
       // 관광지 목록 조회
       const tours = await getAreaBasedList({
         areaCode,
+        sigunguCode,
         contentTypeId,
+        cat1,
+        cat2,
+        cat3,
         numOfRows,
         pageNo,
       });
@@ -623,7 +753,7 @@ export async function findPetFriendlyTours(options: {
       );
 
       // 각 관광지의 반려동물 정보를 병렬로 조회
-      // 한 번에 너무 많은 요청을 보내지 않도록 배치 처리 (50개씩)
+      // 배치 처리 (50개씩), 실제 동시 요청 수와 초당 요청 수는 TourApiClient가 제한
       const BATCH_SIZE = 50;
       const petInfoResults: Array<{
         tour: TourItem;
@@ -649,33 +779,14 @@ export async function findPetFriendlyTours(options: {
         petInfoResults.push(...batchResults);
       }
 
-      // 반려동물 정보가 있는 관광지만 필터링
+      // 반려동물 동반 가능한 관광지만 필터링 ("불가"로 표시된 경우 제외)
       for (const result of petInfoResults) {
-        if (!result || !result.petInfo) {
+        if (!result || !isPetFriendlyInfo(result.petInfo)) {
           continue;
         }
 
         const { petInfo } = result;
 
-        // 반려동물 정보가 있는지 확인
-        const hasPetInfo =
-          petInfo.acmpyTypeCd ||
-          petInfo.acmpyPsblCpam ||
-          petInfo.acmpyNeedMtr ||
-          petInfo.etcAcmpyInfo;
-
-        if (!hasPetInfo) {
-          continue;
-        }
-
-        // "불가능"인 경우 제외
-        if (petInfo.acmpyTypeCd) {
-          const typeValue = petInfo.acmpyTypeCd.trim();
-          if (typeValue === "불가능" || typeValue.includes("불가")) {
-            continue;
-          }
-        }
-
         // 반려동물 정보가 있고 "가능"한 경우 추가
         results.push({
           tour: result.tour,
@@ -0,0 +1,314 @@
+/**
+ * @file tour-mirror.ts
+ * @description 관광지 카탈로그 미러(Supabase tours 테이블) 조회 함수들
+ *
+ * TOUR_MIRROR_ENABLED=true이면 관광지 목록/검색/상세 정보를 한국관광공사 API 대신
+ * Supabase에 복제한 카탈로그에서 먼저 조회합니다. 미러는 국문 서비스만 복제하므로
+ * 다른 로케일은 항상 API를 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 지역/타입/분류 필터 목록 조회 (areaBasedList2 대체)
+ * 2. 제목 키워드 검색 (searchKeyword2 대체)
+ * 3. 상세 정보 조회 (detailCommon2 대체, 상세 정보가 동기화된 관광지만)
+ * 4. 소개 정보 일괄 조회 (detailIntro2 대체, 목록 카드의 운영 상태용)
+ *
+ * 주의사항:
+ * - 모든 함수는 미러를 사용할 수 없거나 결과가 없으면 null을 반환합니다.
+ *   호출하는 쪽은 null이면 API로 대체 조회합니다.
+ * - Service Role 클라이언트를 사용하므로 서버 사이드에서만 호출해야 합니다.
+ *
+ * @see {@link /lib/api/tour-sync.ts} - 미러 동기화
+ * @see {@link /supabase/migrations/tours_mirror.sql} - 데이터베이스 스키마
+ */
+
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { TourDetail, TourIntro, TourItem } from "@/lib/types/tour";
+import type { TourRow } from "@/lib/types/tour-mirror";
+import { DEFAULT_TOUR_LOCALE, type TourLocale } from "@/lib/utils/locale";
+
+/**
+ * 목록 조회에 필요한 컬럼
+ */
+const TOUR_LIST_COLUMNS =
+  "content_id, content_type_id, title, addr1, addr2, area_code, sigungu_code, cat1, cat2, cat3, mapx, mapy, first_image, first_image2, tel, modified_time";
+
+/**
+ * 미러 목록 조회 옵션
+ */
+export interface TourMirrorListOptions {
+  areaCode?: string;
+  sigunguCode?: string;
+  contentTypeId?: string;
+  cat1?: string;
+  cat2?: string;
+  cat3?: string;
+  numOfRows?: number;
+  pageNo?: number;
+}
+
+/**
+ * 미러 조회 사용 여부 확인
+ *
+ * @param locale - 콘텐츠 로케일
+ * @returns TOUR_MIRROR_ENABLED=true이고 국문 요청이면 true
+ */
+export function isTourMirrorEnabled(locale?: TourLocale): boolean {
+  return (
+    process.env.TOUR_MIRROR_ENABLED === "true" &&
+    (locale ?? DEFAULT_TOUR_LOCALE) === DEFAULT_TOUR_LOCALE
+  );
+}
+
+/**
+ * 미러 레코드를 관광지 목록 항목으로 변환
+ */
+export function toTourItem(
+  row: Pick<
+    TourRow,
+    | "content_id"
+    | "content_type_id"
+    | "title"
+    | "addr1"
+    | "addr2"
+    | "area_code"
+    | "sigungu_code"
+    | "cat1"
+    | "cat2"
+    | "cat3"
+    | "mapx"
+    | "mapy"
+    | "first_image"
+    | "first_image2"
+    | "tel"
+    | "modified_time"
+  >,
+): TourItem {
+  return {
+    contentid: row.content_id,
+    contenttypeid: row.content_type_id,
+    title: row.title,
+    addr1: row.addr1,
+    addr2: row.addr2 ?? undefined,
+    areacode: row.area_code,
+    sigungucode: row.sigungu_code ?? undefined,
+    cat1: row.cat1 ?? undefined,
+    cat2: row.cat2 ?? undefined,
+    cat3: row.cat3 ?? undefined,
+    mapx: String(row.mapx),
+    mapy: String(row.mapy),
+    firstimage: row.first_image ?? undefined,
+    firstimage2: row.first_image2 ?? undefined,
+    tel: row.tel ?? undefined,
+    modifiedtime: row.modified_time,
+  };
+}
+
+/**
+ * 미러 레코드를 관광지 상세 정보로 변환
+ */
+function toTourDetail(row: TourRow): TourDetail {
+  return {
+    contentid: row.content_id,
+    contenttypeid: row.content_type_id,
+    title: row.title,
+    addr1: row.addr1,
+    addr2: row.addr2 ?? undefined,
+    zipcode: row.zipcode ?? undefined,
+    tel: row.tel ?? undefined,
+    homepage: row.homepage ?? undefined,
+    overview: row.overview ?? undefined,
+    firstimage: row.first_image ?? undefined,
+    firstimage2: row.first_image2 ?? undefined,
+    mapx: String(row.mapx),
+    mapy: String(row.mapy),
+    areacode: row.area_code,
+    sigungucode: row.sigungu_code ?? undefined,
+    cat1: row.cat1 ?? undefined,
+    cat2: row.cat2 ?? undefined,
+    cat3: row.cat3 ?? undefined,
+    modifiedtime: row.modified_time,
+  };
+}
+
+/**
+ * ILIKE 패턴 특수문자 이스케이프
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 필터/페이지 조건으로 미러 목록 조회
+ *
+ * @param label - 로그용 조회 이름
+ * @param options - 조회 옵션
+ * @param keyword - 제목 검색 키워드 (선택 사항)
+ * @returns 관광지 목록 (미러를 사용할 수 없거나 결과가 없으면 null)
+ */
+async function queryMirrorTours(
+  label: string,
+  options: TourMirrorListOptions,
+  keyword?: string,
+): Promise<TourItem[] | null> {
+  const numOfRows = options.numOfRows ?? 10;
+  const pageNo = options.pageNo ?? 1;
+  const from = (pageNo - 1) * numOfRows;
+
+  try {
+    let query = getServiceRoleClient().from("tours").select(TOUR_LIST_COLUMNS);
+
+    const filters: Array<[string, string | undefined]> = [
+      ["area_code", options.areaCode],
+      ["sigungu_code", options.sigunguCode],
+      ["content_type_id", options.contentTypeId],
+      ["cat1", options.cat1],
+      ["cat2", options.cat2],
+      ["cat3", options.cat3],
+    ];
+    for (const [column, value] of filters) {
+      if (value) {
+        query = query.eq(column, value);
+      }
+    }
+    if (keyword) {
+      query = query.ilike("title", `%${escapeLikePattern(keyword)}%`);
+    }
+
+    const { data, error } = await query
+      .order("modified_time", { ascending: false })
+      .order("content_id", { ascending: true })
+      .range(from, from + numOfRows - 1);
+
+    if (error) {
+      console.warn(`[Tour Mirror] ${label} 조회 실패, API로 대체:`, error);
+      return null;
+    }
+    if (!data || data.length === 0) {
+      console.log(`[Tour Mirror] ${label} 결과 없음, API로 대체`, options);
+      return null;
+    }
+
+    console.log(`[Tour Mirror] ${label} 조회 성공: ${data.length}건`);
+    return (data as TourRow[]).map(toTourItem);
+  } catch (error) {
+    console.warn(`[Tour Mirror] ${label} 조회 에러, API로 대체:`, error);
+    return null;
+  }
+}
+
+/**
+ * 미러에서 관광지 목록 조회 (areaBasedList2 대체)
+ *
+ * @param options - 조회 옵션
+ * @param locale - 콘텐츠 로케일 (국문이 아니면 null)
+ * @returns 관광지 목록 (수정일 최신순, 사용할 수 없으면 null)
+ */
+export async function getMirrorTourList(
+  options: TourMirrorListOptions,
+  locale?: TourLocale,
+): Promise<TourItem[] | null> {
+  if (!isTourMirrorEnabled(locale)) {
+    return null;
+  }
+  return queryMirrorTours("목록", options);
+}
+
+/**
+ * 미러에서 제목 키워드로 관광지 검색 (searchKeyword2 대체)
+ *
+ * @param keyword - 검색 키워드
+ * @param options - 조회 옵션
+ * @param locale - 콘텐츠 로케일 (국문이 아니면 null)
+ * @returns 검색 결과 목록 (사용할 수 없으면 null)
+ */
+export async function searchMirrorTours(
+  keyword: string,
+  options: TourMirrorListOptions,
+  locale?: TourLocale,
+): Promise<TourItem[] | null> {
+  if (!isTourMirrorEnabled(locale)) {
+    return null;
+  }
+  return queryMirrorTours("검색", options, keyword);
+}
+
+/**
+ * 미러에서 관광지 상세 정보 조회 (detailCommon2 대체)
+ *
+ * 상세 정보(개요 등)가 아직 동기화되지 않은 관광지는 null을 반환합니다.
+ *
+ * @param contentId - 콘텐츠ID
+ * @param locale - 콘텐츠 로케일 (국문이 아니면 null)
+ * @returns 관광지 상세 정보 (사용할 수 없으면 null)
+ */
+export async function getMirrorTourDetail(
+  contentId: string,
+  locale?: TourLocale,
+): Promise<TourDetail | null> {
+  if (!isTourMirrorEnabled(locale)) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await getServiceRoleClient()
+      .from("tours")
+      .select("*")
+      .eq("content_id", contentId)
+      .not("detail_synced_at", "is", null)
+      .maybeSingle();
+
+    if (error) {
+      console.warn("[Tour Mirror] 상세 조회 실패, API로 대체:", error);
+      return null;
+    }
+    if (!data) {
+      console.log(`[Tour Mirror] 상세 정보 없음, API로 대체: ${contentId}`);
+      return null;
+    }
+
+    return toTourDetail(data as TourRow);
+  } catch (error) {
+    console.warn("[Tour Mirror] 상세 조회 에러, API로 대체:", error);
+    return null;
+  }
+}
+
+/**
+ * 미러에서 관광지 소개 정보 일괄 조회 (detailIntro2 대체)
+ *
+ * 목록 카드의 운영 상태처럼 여러 관광지의 소개 정보가 한 번에 필요할 때 사용합니다.
+ * 상세 정보가 아직 동기화되지 않은 관광지는 결과에 포함되지 않습니다.
+ *
+ * @param contentIds - 콘텐츠ID 목록
+ * @returns 콘텐츠ID별 소개 정보 (사용할 수 없으면 null)
+ */
+export async function getMirrorTourIntros(
+  contentIds: string[],
+): Promise<Map<string, TourIntro> | null> {
+  if (!isTourMirrorEnabled() || contentIds.length === 0) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await getServiceRoleClient()
+      .from("tours")
+      .select("content_id, intro")
+      .in("content_id", contentIds)
+      .not("detail_synced_at", "is", null)
+      .not("intro", "is", null);
+
+    if (error) {
+      console.warn("[Tour Mirror] 소개 정보 조회 실패, API로 대체:", error);
+      return null;
+    }
+
+    const rows = (data ?? []) as Array<Pick<TourRow, "content_id" | "intro">>;
+    console.log(
+      `[Tour Mirror] 소개 정보 조회: ${rows.length}/${contentIds.length}개`,
+    );
+    return new Map(rows.map((row) => [row.content_id, row.intro!]));
+  } catch (error) {
+    console.warn("[Tour Mirror] 소개 정보 조회 에러, API로 대체:", error);
+    return null;
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * @file tour-sync.ts
+ * @description 관광지 카탈로그 미러 동기화
+ *
+ * 한국관광공사 API(areaBasedSyncList2)의 관광지 목록을 Supabase tours 테이블에 복제합니다.
+ * scripts/sync-tours.ts(CLI)와 /api/tours/sync(Route Handler)에서 호출합니다.
+ *
+ * 주요 기능:
+ * 1. 전체 가져오기 (full): 모든 페이지를 가져와 반영하고, 이번 실행에서 보이지 않은 관광지는 삭제
+ * 2. 증분 동기화 (incremental): 마지막 성공 실행의 수정일부터 오늘까지 날짜별(modifiedtime)로 반영
+ * 3. 비표출 항목(showflag "0")은 미러에서 삭제
+ * 4. 수정일이 바뀐 관광지는 상세 정보(detailCommon2, detailIntro2, detailImage2)를 다시 조회
+ * 5. 실행마다 tour_sync_runs에 결과 기록 (동시 실행 방지: running 실행은 유니크 인덱스로 하나만 허용)
+ *
+ * 주의사항:
+ * - Service Role 클라이언트를 사용하므로 서버 사이드에서만 호출해야 합니다.
+ * - 상세 정보는 요청 수가 많으므로 실행마다 detailLimit개까지만 갱신합니다.
+ *
+ * @see {@link /lib/api/tour-mirror.ts} - 미러 조회
+ * @see {@link /supabase/migrations/tours_mirror.sql} - 데이터베이스 스키마
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getAreaBasedSyncCount,
+  getAreaBasedSyncList,
+  getDetailCommon,
+  getDetailImage,
+  getDetailIntro,
+} from "@/lib/api/tour-api";
+import { isTourApiAccessError } from "@/lib/api/tour-api-errors";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import type { TourSyncItem } from "@/lib/types/tour";
+import type {
+  TourRow,
+  TourSyncMode,
+  TourSyncOptions,
+  TourSyncResult,
+  TourSyncRun,
+} from "@/lib/types/tour-mirror";
+
+/** areaBasedSyncList2 페이지당 항목 수 */
+const SYNC_PAGE_SIZE = 500;
+
+/** 상세 정보 동시 갱신 수 (실제 동시 요청 수는 TourApiClient가 제한) */
+const DETAIL_BATCH_SIZE = 10;
+
+/** 기본 상세 정보 갱신 수 */
+const DEFAULT_DETAIL_LIMIT = 100;
+
+/** 이 시간보다 오래된 running 실행은 중단된 것으로 간주 (1시간) */
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+/** 한국 표준시 오프셋 (API 수정일은 KST 기준) */
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/**
+ * 진행 중인 실행 집계
+ */
+interface SyncCounters {
+  fetched: number;
+  upserted: number;
+  deleted: number;
+  details: number;
+  maxModifiedTime: string | null;
+}
+
+/**
+ * Date를 KST 기준 YYYYMMDD 문자열로 변환
+ */
+function toKstDateString(date: Date): string {
+  return new Date(date.getTime() + KST_OFFSET_MS)
+    .toISOString()
+    .slice(0, 10)
+    .replace(/-/g, "");
+}
+
+/**
+ * 시작일부터 종료일까지의 날짜 목록 (YYYYMMDD, 양 끝 포함)
+ */
+function listDates(since: string, until: string): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(
+    Date.UTC(
+      Number(since.slice(0, 4)),
+      Number(since.slice(4, 6)) - 1,
+      Number(since.slice(6, 8)),
+    ),
+  );
+
+  for (;;) {
+    const date = cursor.toISOString().slice(0, 10).replace(/-/g, "");
+    if (date > until) {
+      break;
+    }
+    dates.push(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * 동기화 목록 항목을 미러 레코드로 변환 (상세 정보 컬럼 제외)
+ */
+function toTourRow(
+  item: TourSyncItem,
+  syncedAt: string,
+): Omit<
+  TourRow,
+  | "zipcode"
+  | "homepage"
+  | "overview"
+  | "intro"
+  | "images"
+  | "detail_synced_at"
+  | "created_at"
+> {
+  return {
+    content_id: item.contentid,
+    content_type_id: item.contenttypeid,
+    title: item.title,
+    addr1: item.addr1,
+    addr2: item.addr2 ?? null,
+    area_code: item.areacode,
+    sigungu_code: item.sigungucode ?? null,
+    cat1: item.cat1 ?? null,
+    cat2: item.cat2 ?? null,
+    cat3: item.cat3 ?? null,
+    mapx: Number(item.mapx),
+    mapy: Number(item.mapy),
+    first_image: item.firstimage ?? null,
+    first_image2: item.firstimage2 ?? null,
+    tel: item.tel ?? null,
+    created_time: item.createdtime ?? null,
+    modified_time: item.modifiedtime,
+    synced_at: syncedAt,
+  };
+}
+
+/**
+ * 마지막 성공 실행 조회
+ */
+async function getLastSuccessfulRun(
+  supabase: SupabaseClient,
+): Promise<TourSyncRun | null> {
+  const { data, error } = await supabase
+    .from("tour_sync_runs")
+    .select("*")
+    .eq("status", "success")
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`동기화 기록 조회 실패: ${error.message}`);
+  }
+  return data as TourSyncRun | null;
+}
+
+/**
+ * 중단된 실행 정리
+ *
+ * STALE_RUN_MS보다 오래된 running 실행을 실패로 바꿔 새 실행을 막지 않게 합니다.
+ */
+async function failStaleRuns(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from("tour_sync_runs")
+    .update({
+      status: "failed",
+      error_message: "실행이 중단되었습니다. (시간 초과)",
+      finished_at: new Date().toISOString(),
+    })
+    .eq("status", "running")
+    .lt("started_at", new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+  if (error) {
+    throw new Error(`중단된 동기화 기록 정리 실패: ${error.message}`);
+  }
+}
+
+/**
+ * 진행 중인 실행이 있는지 확인
+ */
+async function assertNoRunningSync(supabase: SupabaseClient): Promise<void> {
+  const { data, error } = await supabase
+    .from("tour_sync_runs")
+    .select("id, started_at")
+    .eq("status", "running")
+    .gte("started_at", new Date(Date.now() - STALE_RUN_MS).toISOString())
+    .limit(1);
+
+  if (error) {
+    throw new Error(`동기화 기록 조회 실패: ${error.message}`);
+  }
+  if (data && data.length > 0) {
+    throw new Error(
+      `이미 진행 중인 동기화가 있습니다. (${data[0].id}, ${data[0].started_at} 시작)`,
+    );
+  }
+}
+
+/**
+ * 한 페이지의 동기화 항목을 미러에 반영
+ *
+ * 수정일이 바뀐 관광지와 새 관광지는 detail_synced_at을 비워 상세 정보를 다시 조회하게 합니다.
+ */
+async function applySyncItems(
+  supabase: SupabaseClient,
+  items: TourSyncItem[],
+  syncedAt: string,
+  counters: SyncCounters,
+): Promise<void> {
+  counters.fetched += items.length;
+
+  for (const item of items) {
+    if (
+      !counters.maxModifiedTime ||
+      item.modifiedtime > counters.maxModifiedTime
+    ) {
+      counters.maxModifiedTime = item.modifiedtime;
+    }
+  }
+
+  const visible = items.filter((item) => item.showflag !== "0");
+  const hiddenIds = items
+    .filter((item) => item.showflag === "0")
+    .map((item) => item.contentid);
+
+  if (visible.length > 0) {
+    const { data: existing, error: existingError } = await supabase
+      .from("tours")
+      .select("content_id, modified_time, detail_synced_at")
+      .in(
+        "content_id",
+        visible.map((item) => item.contentid),
+      );
+
+    if (existingError) {
+      throw new Error(`기존 관광지 조회 실패: ${existingError.message}`);
+    }
+
+    const existingById = new Map(
+      (
+        (existing ?? []) as Pick<
+          TourRow,
+          "content_id" | "modified_time" | "detail_synced_at"
+        >[]
+      ).map((row) => [row.content_id, row]),
+    );
+
+    const rows = visible.map((item) => {
+      const previous = existingById.get(item.contentid);
+      return {
+        ...toTourRow(item, syncedAt),
+        detail_synced_at:
+          previous && previous.modified_time === item.modifiedtime
+            ? previous.detail_synced_at
+            : null,
+      };
+    });
+
+    const { error } = await supabase
+      .from("tours")
+      .upsert(rows, { onConflict: "content_id" });
+
+    if (error) {
+      throw new Error(`관광지 저장 실패: ${error.message}`);
+    }
+    counters.upserted += rows.length;
+  }
+
+  if (hiddenIds.length > 0) {
+    const { count, error } = await supabase
+      .from("tours")
+      .delete({ count: "exact" })
+      .in("content_id", hiddenIds);
+
+    if (error) {
+      throw new Error(`비표출 관광지 삭제 실패: ${error.message}`);
+    }
+    counters.deleted += count ?? 0;
+  }
+}
+
+/**
+ * areaBasedSyncList2의 모든 페이지를 가져와 미러에 반영
+ *
+ * @param modifiedtime - 수정일 (YYYYMMDD, 미지정 시 전체)
+ */
+async function syncPages(
+  supabase: SupabaseClient,
+  modifiedtime: string | undefined,
+  syncedAt: string,
+  counters: SyncCounters,
+): Promise<void> {
+  const totalCount = await getAreaBasedSyncCount(modifiedtime);
+  const totalPages = Math.ceil(totalCount / SYNC_PAGE_SIZE);
+
+  console.log(
+    `[Tour Sync] ${modifiedtime ?? "전체"}: ${totalCount}건 (${totalPages}페이지)`,
+  );
+
+  for (let pageNo = 1; pageNo <= totalPages; pageNo++) {
+    const items = await getAreaBasedSyncList({
+      modifiedtime,
+      numOfRows: SYNC_PAGE_SIZE,
+      pageNo,
+    });
+    await applySyncItems(supabase, items, syncedAt, counters);
+
+    console.log(
+      `[Tour Sync] ${modifiedtime ?? "전체"} 페이지 ${pageNo}/${totalPages} 반영: ${items.length}건`,
+    );
+  }
+}
+
+/**
+ * 상세 정보가 비어 있는 관광지의 상세 정보 갱신
+ *
+ * 한도 초과/서비스 키 오류가 발생하면 남은 관광지는 다음 실행으로 미룹니다.
+ *
+ * @param limit - 최대 갱신 수
+ */
+async function syncDetails(
+  supabase: SupabaseClient,
+  limit: number,
+  counters: SyncCounters,
+): Promise<void> {
+  if (limit <= 0) {
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from("tours")
+    .select("content_id, content_type_id")
+    .is("detail_synced_at", null)
+    .order("modified_time", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`상세 정보 갱신 대상 조회 실패: ${error.message}`);
+  }
+
+  const targets = (data ?? []) as Pick<
+    TourRow,
+    "content_id" | "content_type_id"
+  >[];
+  console.log(`[Tour Sync] 상세 정보 갱신 대상: ${targets.length}건`);
+
+  for (let i = 0; i < targets.length; i += DETAIL_BATCH_SIZE) {
+    const batch = targets.slice(i, i + DETAIL_BATCH_SIZE);
+    const results = await Promise.allSettled(
+      batch.map(async (target) => {
+        const [detail, intro, images] = await Promise.all([
+          getDetailCommon(target.content_id),
+          getDetailIntro(target.content_id, target.content_type_id),
+          getDetailImage(target.content_id),
+        ]);
+
+        const { error: updateError } = await supabase
+          .from("tours")
+          .update({
+            zipcode: detail?.zipcode ?? null,
+            homepage: detail?.homepage ?? null,
+            overview: detail?.overview ?? null,
+            intro,
+            images,
+            detail_synced_at: new Date().toISOString(),
+          })
+          .eq("content_id", target.content_id);
+
+        if (updateError) {
+          throw new Error(
+            `상세 정보 저장 실패 (${target.content_id}): ${updateError.message}`,
+          );
+        }
+      }),
+    );
+
+    for (const [index, result] of results.entries()) {
+      if (result.status === "fulfilled") {
+        counters.details++;
+        continue;
+      }
+      if (isTourApiAccessError(result.reason)) {
+        console.warn(
+          "[Tour Sync] 한도 초과/서비스 키 오류로 상세 정보 갱신 중단",
+          result.reason,
+        );
+        return;
+      }
+      console.warn(
+        `[Tour Sync] 상세 정보 갱신 실패: ${batch[index].content_id}`,
+        result.reason,
+      );
+    }
+  }
+}
+
+/**
+ * 관광지 카탈로그 미러 동기화 실행
+ *
+ * @param options - 실행 옵션
+ * @returns 실행 결과 (tour_sync_runs 레코드)
+ * @throws {Error} 진행 중인 실행이 있거나 목록 동기화가 실패한 경우 (실패 기록은 남김)
+ */
+export async function runTourSync(
+  options: TourSyncOptions = {},
+): Promise<TourSyncResult> {
+  const supabase = getServiceRoleClient();
+
+  await failStaleRuns(supabase);
+  await assertNoRunningSync(supabase);
+
+  const lastRun = await getLastSuccessfulRun(supabase);
+  let mode: TourSyncMode = options.mode ?? (lastRun ? "incremental" : "full");
+  if (mode === "incremental" && !lastRun) {
+    console.log("[Tour Sync] 성공한 실행 기록이 없어 전체 가져오기로 전환");
+    mode = "full";
+  }
+
+  const startedAt = new Date().toISOString();
+  const since =
+    mode === "incremental" && lastRun
+      ? (lastRun.max_modified_time?.slice(0, 8) ??
+        toKstDateString(new Date(lastRun.started_at)))
+      : null;
+
+  const { data: run, error: insertError } = await supabase
+    .from("tour_sync_runs")
+    .insert({
+      mode,
+      status: "running",
+      trigger: options.trigger ?? "cli",
+      since_modified_time: since,
+      started_at: startedAt,
+    })
+    .select("id")
+    .single();
+
+  // 확인 이후 다른 실행이 먼저 시작했으면 유니크 인덱스(running은 하나만)에 걸림
+  if (insertError?.code === "23505") {
+    await assertNoRunningSync(supabase);
+    throw new Error("이미 진행 중인 동기화가 있습니다.");
+  }
+  if (insertError || !run) {
+    throw new Error(`동기화 기록 생성 실패: ${insertError?.message}`);
+  }
+
+  console.log(`[Tour Sync] 시작: ${mode}`, { runId: run.id, since });
+
+  const counters: SyncCounters = {
+    fetched: 0,
+    upserted: 0,
+    deleted: 0,
+    details: 0,
+    maxModifiedTime: lastRun?.max_modified_time ?? null,
+  };
+
+  const finishRun = async (
+    status: "success" | "failed",
+    errorMessage: string | null,
+  ): Promise<TourSyncResult> => {
+    const result: TourSyncResult = {
+      id: run.id,
+      mode,
+      status,
+      since_modified_time: since,
+      max_modified_time: counters.maxModifiedTime,
+      fetched_count: counters.fetched,
+      upserted_count: counters.upserted,
+      deleted_count: counters.deleted,
+      detail_count: counters.details,
+      error_message: errorMessage,
+    };
+
+    const { error } = await supabase
+      .from("tour_sync_runs")
+      .update({ ...result, finished_at: new Date().toISOString() })
+      .eq("id", run.id);
+
+    if (error) {
+      console.error("[Tour Sync] 실행 기록 저장 실패:", error);
+    }
+    return result;
+  };
+
+  try {
+    if (mode === "full") {
+      await syncPages(supabase, undefined, startedAt, counters);
+
+      // 응답이 비어 있으면 일시적인 API 문제일 수 있으므로 기존 미러를 지우지 않음
+      if (counters.fetched > 0) {
+        const { count, error } = await supabase
+          .from("tours")
+          .delete({ count: "exact" })
+          .lt("synced_at", startedAt);
+
+        if (error) {
+          throw new Error(`누락 관광지 삭제 실패: ${error.message}`);
+        }
+        counters.deleted += count ?? 0;
+      }
+    } else {
+      for (const date of listDates(since!, toKstDateString(new Date()))) {
+        await syncPages(supabase, date, startedAt, counters);
+      }
+    }
+
+    await syncDetails(
+      supabase,
+      options.detailLimit ?? DEFAULT_DETAIL_LIMIT,
+      counters,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[Tour Sync] 실패:", error);
+    await finishRun("failed", message);
+    throw error;
+  }
+
+  const result = await finishRun("success", null);
+  console.log("[Tour Sync] 완료:", result);
+  return result;
+}
@@ -6,11 +6,63 @@
  *
  * 주요 타입:
  * 1. Bookmark - 북마크 데이터베이스 레코드
- * 2. BookmarkWithTour - 북마크와 관광지 정보를 함께 포함하는 타입 (JOIN 결과)
+ * 2. BookmarkSnapshot - 북마크에 저장하는 관광지 요약 정보 (비정규화)
+ * 3. BookmarkWithTour - 북마크와 관광지 정보를 함께 포함하는 타입 (스냅샷 변환 결과)
+ * 4. BookmarkStatus, BookmarkJournalInput - 북마크 여행 기록 (메모, 태그, 방문 상태, 평점)
  *
  * @see {@link /supabase/migrations/mytour.sql} - 데이터베이스 스키마
+ * @see {@link /supabase/migrations/bookmark_snapshots.sql} - 스냅샷 컬럼
+ * @see {@link /supabase/migrations/bookmark_journal.sql} - 여행 기록 컬럼
  */
 
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 북마크 관광지 스냅샷 타입
+ *
+ * 북마크 추가 시 함께 저장하는 관광지 요약 정보입니다.
+ * 북마크 목록을 관광지 상세 API 호출 없이 렌더링하기 위해 사용합니다.
+ */
+export interface BookmarkSnapshot {
+  /** 관광지명 */
+  title: string;
+  /** 주소 */
+  addr1: string;
+  /** 상세주소 */
+  addr2: string | null;
+  /** 지역코드 (시/도) */
+  area_code: string | null;
+  /** 시군구코드 */
+  sigungu_code: string | null;
+  /** 콘텐츠타입ID */
+  content_type_id: string;
+  /** 대분류 카테고리 */
+  cat1: string | null;
+  /** 중분류 카테고리 */
+  cat2: string | null;
+  /** 소분류 카테고리 */
+  cat3: string | null;
+  /** 경도 (API mapx 원문) */
+  mapx: string | null;
+  /** 위도 (API mapy 원문) */
+  mapy: string | null;
+  /** 대표이미지1 */
+  first_image: string | null;
+  /** 대표이미지2 (썸네일) */
+  first_image2: string | null;
+  /** 전화번호 */
+  tel: string | null;
+  /** 관광지 수정일 (API modifiedtime) */
+  modified_time: string | null;
+  /** 스냅샷 로케일 (콘텐츠 ID가 속한 언어 서비스) */
+  snapshot_locale: string;
+}
+
+/**
+ * 북마크 방문 상태 (want: 가고 싶음, visited: 방문함)
+ */
+export type BookmarkStatus = "want" | "visited";
+
 /**
  * 북마크 데이터베이스 레코드 타입
  *
@@ -25,8 +77,47 @@ export interface Bookmark {
   content_id: string;
   /** 북마크 생성일시 */
   created_at: string;
+  /** 스냅샷 컬럼 (스냅샷이 없는 기존 북마크는 모두 null) */
+  title: string | null;
+  addr1: string | null;
+  addr2: string | null;
+  area_code: string | null;
+  sigungu_code: string | null;
+  content_type_id: string | null;
+  cat1: string | null;
+  cat2: string | null;
+  cat3: string | null;
+  mapx: string | null;
+  mapy: string | null;
+  first_image: string | null;
+  first_image2: string | null;
+  tel: string | null;
+  modified_time: string | null;
+  snapshot_locale: string | null;
+  /** 스냅샷 저장일시 (null이면 아직 저장되지 않음) */
+  snapshot_at: string | null;
+  /** 개인 메모 (마크다운 원문) */
+  note: string | null;
+  /** 자유 태그 */
+  tags: string[];
+  /** 방문 상태 */
+  status: BookmarkStatus;
+  /** 방문일 (YYYY-MM-DD) */
+  visited_at: string | null;
+  /** 개인 평점 (1~5) */
+  rating: number | null;
+  /** 기록 수정일시 */
+  journal_updated_at: string | null;
 }
 
+/**
+ * 북마크 여행 기록 수정 시 사용하는 타입
+ */
+export type BookmarkJournalInput = Pick<
+  Bookmark,
+  "note" | "tags" | "status" | "visited_at" | "rating"
+>;
+
 /**
  * 북마크 생성 시 사용하는 타입
  *
@@ -37,6 +128,10 @@ export interface CreateBookmarkInput {
   user_id: string;
   /** 관광지 콘텐츠 ID */
   content_id: string;
+  /** 관광지 스냅샷 (조회에 실패했으면 생략, 목록 조회 시 백그라운드에서 채움) */
+  snapshot?: BookmarkSnapshot | null;
+  /** 여행 기록 (가져오기 시 함께 저장, 생략하면 기본값) */
+  journal?: BookmarkJournalInput | null;
 }
 
 /**
@@ -48,3 +143,15 @@ export interface DeleteBookmarkInput {
   user_id?: string;
   content_id?: string;
 }
+
+/**
+ * 북마크와 관광지 정보를 함께 포함하는 타입
+ *
+ * 북마크 목록에서 스냅샷을 TourItem으로 변환한 결과입니다.
+ */
+export interface BookmarkWithTour {
+  /** 북마크 레코드 */
+  bookmark: Bookmark;
+  /** 스냅샷으로 만든 관광지 정보 */
+  tour: TourItem;
+}
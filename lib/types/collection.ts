@@ -0,0 +1,151 @@
+/**
+ * @file collection.ts
+ * @description 북마크 컬렉션 관련 타입 정의
+ *
+ * Supabase bookmark_collections, collection_items, collection_members, collection_invites
+ * 테이블의 데이터 구조를 기반으로 한 타입 정의입니다.
+ *
+ * 주요 타입:
+ * 1. BookmarkCollection - 컬렉션 데이터베이스 레코드
+ * 2. CollectionItem - 컬렉션에 담긴 북마크 레코드
+ * 3. BookmarkCollectionWithItems - 컬렉션과 담긴 북마크 목록 (순서대로, 내 역할 포함)
+ * 4. CollectionRole, CollectionMember, CollectionInvite - 공유 컬렉션 멤버와 초대
+ *
+ * @see {@link /supabase/migrations/bookmark_collections.sql} - 데이터베이스 스키마
+ * @see {@link /supabase/migrations/collection_sharing.sql} - 공유 컬렉션 스키마
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 공유 컬렉션 멤버 역할 (viewer: 보기만, editor: 관광지 담기/빼기/순서 변경)
+ */
+export type CollectionMemberRole = "viewer" | "editor";
+
+/**
+ * 컬렉션에 대한 내 역할 (소유자 또는 멤버 역할)
+ */
+export type CollectionRole = "owner" | CollectionMemberRole;
+
+/**
+ * 컬렉션 데이터베이스 레코드 타입
+ */
+export interface BookmarkCollection {
+  /** 컬렉션 ID (UUID) */
+  id: string;
+  /** 사용자 ID (users 테이블 참조) */
+  user_id: string;
+  /** 컬렉션 이름 (예: "부산 2박3일") */
+  name: string;
+  /** 생성일시 */
+  created_at: string;
+  /** 수정일시 */
+  updated_at: string;
+}
+
+/**
+ * 컬렉션에 담긴 북마크 레코드 타입
+ */
+export interface CollectionItem {
+  /** 항목 ID (UUID) */
+  id: string;
+  /** 컬렉션 ID */
+  collection_id: string;
+  /** 북마크 ID (bookmarks 테이블 참조) */
+  bookmark_id: string;
+  /** 컬렉션 안의 표시 순서 (작을수록 앞) */
+  position: number;
+  /** 담은 일시 */
+  created_at: string;
+}
+
+/**
+ * 컬렉션과 담긴 북마크 목록
+ */
+export interface BookmarkCollectionWithItems extends BookmarkCollection {
+  /** 내 역할 (내가 만든 컬렉션이면 "owner") */
+  role: CollectionRole;
+  /** 소유자 이름 */
+  owner_name: string | null;
+  /** 소유자를 제외한 멤버 수 (0이면 공유하지 않은 컬렉션) */
+  member_count: number;
+  /** 담긴 북마크 (position 순) */
+  items: Array<{
+    /** 북마크 ID */
+    bookmark_id: string;
+    /** 관광지 콘텐츠 ID */
+    content_id: string;
+    /** 표시 순서 */
+    position: number;
+    /** 담은 사람 ID (북마크 소유자) */
+    added_by: string;
+    /** 담은 사람 이름 */
+    added_by_name: string | null;
+    /** 담은 일시 */
+    added_at: string;
+    /** 관광지 정보 (북마크 스냅샷, 아직 없으면 null) */
+    tour: TourItem | null;
+  }>;
+}
+
+/**
+ * 공유 컬렉션 멤버 (소유자 포함)
+ */
+export interface CollectionMember {
+  /** 사용자 ID (users 테이블 참조) */
+  user_id: string;
+  /** 사용자 이름 */
+  name: string;
+  /** 역할 */
+  role: CollectionRole;
+  /** 참여 일시 (소유자는 컬렉션 생성일시) */
+  joined_at: string;
+}
+
+/**
+ * 컬렉션 초대 데이터베이스 레코드 타입
+ */
+export interface CollectionInvite {
+  /** 초대 ID (UUID) */
+  id: string;
+  /** 컬렉션 ID */
+  collection_id: string;
+  /** 초대 링크 토큰 (/invites/[token]) */
+  token: string;
+  /** 초대받은 이메일 (소문자, 초대 링크는 null) */
+  email: string | null;
+  /** 수락하면 받는 역할 */
+  role: CollectionMemberRole;
+  /** 초대한 사용자 ID */
+  created_by: string;
+  /** 만료 일시 */
+  expires_at: string;
+  /** 수락한 사용자 ID */
+  accepted_by: string | null;
+  /** 수락 일시 */
+  accepted_at: string | null;
+  /** 취소/거절 일시 */
+  revoked_at: string | null;
+  /** 생성일시 */
+  created_at: string;
+}
+
+/**
+ * 초대 안내 정보 (초대 페이지, 받은 초대 목록)
+ */
+export interface CollectionInvitePreview {
+  /** 초대 링크 토큰 */
+  token: string;
+  /** 컬렉션 ID */
+  collectionId: string;
+  /** 컬렉션 이름 */
+  collectionName: string;
+  /** 초대한 사람 이름 */
+  inviterName: string;
+  /** 수락하면 받는 역할 */
+  role: CollectionMemberRole;
+  /** 이메일 초대 여부 (false면 초대 링크) */
+  isEmailInvite: boolean;
+  /** 만료 일시 */
+  expiresAt: string;
+}
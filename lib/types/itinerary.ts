@@ -0,0 +1,129 @@
+/**
+ * @file itinerary.ts
+ * @description 여행 일정 관련 타입 정의
+ *
+ * Supabase itineraries, itinerary_stops 테이블의 데이터 구조를 기반으로 한 타입 정의입니다.
+ *
+ * 주요 타입:
+ * 1. Itinerary - 여행 데이터베이스 레코드 (제목, 기간)
+ * 2. ItineraryStop - 날짜/시간대별 일정 데이터베이스 레코드
+ * 3. ItinerarySummary, ItineraryWithStops - 여행 목록/상세 조회 결과
+ * 4. ItineraryInput, ItineraryStopInput - 여행/일정 생성 입력
+ *
+ * @see {@link /supabase/migrations/itineraries.sql} - 데이터베이스 스키마
+ */
+
+/**
+ * 일정 시간대 (오전, 점심, 오후, 저녁, 밤)
+ */
+export type ItineraryTimeSlot =
+  "morning" | "lunch" | "afternoon" | "dinner" | "evening";
+
+/**
+ * 여행 데이터베이스 레코드 타입
+ *
+ * Supabase itineraries 테이블의 구조와 일치합니다.
+ */
+export interface Itinerary {
+  /** 여행 고유 ID (UUID) */
+  id: string;
+  /** 사용자 ID (users 테이블 참조) */
+  user_id: string;
+  /** 여행 제목 */
+  title: string;
+  /** 시작일 (YYYY-MM-DD) */
+  start_date: string;
+  /** 종료일 (YYYY-MM-DD) */
+  end_date: string;
+  /** 생성일시 */
+  created_at: string;
+  /** 수정일시 */
+  updated_at: string;
+}
+
+/**
+ * 일정 데이터베이스 레코드 타입
+ *
+ * Supabase itinerary_stops 테이블의 구조와 일치합니다.
+ * 관광지가 아닌 자유 일정은 content_id와 좌표가 null입니다.
+ */
+export interface ItineraryStop {
+  /** 일정 고유 ID (UUID) */
+  id: string;
+  /** 여행 ID */
+  itinerary_id: string;
+  /** 몇째 날인지 (0: 시작일) */
+  day_index: number;
+  /** 시간대 */
+  time_slot: ItineraryTimeSlot;
+  /** 같은 날짜/시간대 안의 순서 */
+  position: number;
+  /** 관광지 콘텐츠 ID (자유 일정은 null) */
+  content_id: string | null;
+  /** 콘텐츠타입ID */
+  content_type_id: string | null;
+  /** 일정 제목 (관광지명 또는 직접 입력) */
+  title: string;
+  /** 주소 */
+  addr1: string | null;
+  /** 경도 (API mapx 원문) */
+  mapx: string | null;
+  /** 위도 (API mapy 원문) */
+  mapy: string | null;
+  /** 대표이미지 */
+  first_image: string | null;
+  /** 일정 메모 */
+  note: string | null;
+  /** 생성일시 */
+  created_at: string;
+}
+
+/**
+ * 여행 목록 항목 (일정 수 포함)
+ */
+export interface ItinerarySummary extends Itinerary {
+  /** 담긴 일정 수 */
+  stop_count: number;
+}
+
+/**
+ * 여행 상세 (날짜/시간대/순서로 정렬된 일정 포함)
+ */
+export interface ItineraryWithStops extends Itinerary {
+  stops: ItineraryStop[];
+}
+
+/**
+ * 여행 생성/수정 시 사용하는 타입
+ */
+export type ItineraryInput = Pick<
+  Itinerary,
+  "title" | "start_date" | "end_date"
+>;
+
+/**
+ * 일정 위치 (몇째 날의 어느 시간대)
+ */
+export type ItineraryStopPlacement = Pick<
+  ItineraryStop,
+  "day_index" | "time_slot"
+>;
+
+/**
+ * 일정 추가 시 사용하는 타입
+ *
+ * id, itinerary_id, position, created_at은 데이터베이스와 API 함수가 채웁니다.
+ * 추가한 일정은 해당 날짜/시간대의 마지막에 놓입니다.
+ */
+export type ItineraryStopInput = ItineraryStopPlacement &
+  Pick<
+    ItineraryStop,
+    | "content_id"
+    | "content_type_id"
+    | "title"
+    | "addr1"
+    | "mapx"
+    | "mapy"
+    | "first_image"
+    | "note"
+  >;
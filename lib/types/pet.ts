@@ -0,0 +1,65 @@
+/**
+ * @file pet.ts
+ * @description 반려동물 프로필 관련 타입 정의
+ *
+ * Supabase pets 테이블의 데이터 구조를 기반으로 한 타입 정의입니다.
+ *
+ * 주요 타입:
+ * 1. Pet - 반려동물 프로필 데이터베이스 레코드
+ * 2. PetInput - 반려동물 프로필 생성/수정 입력
+ * 3. PetAccess - 관광지에 반려동물이 동반 가능한지 판별한 결과
+ *
+ * @see {@link /supabase/migrations/pets.sql} - 데이터베이스 스키마
+ */
+
+import type { PetSize, PetSpecies } from "@/lib/types/tour";
+
+/**
+ * 반려동물 프로필 데이터베이스 레코드 타입
+ *
+ * Supabase pets 테이블의 구조와 일치합니다.
+ */
+export interface Pet {
+  /** 반려동물 고유 ID (UUID) */
+  id: string;
+  /** 사용자 ID (users 테이블 참조) */
+  user_id: string;
+  /** 이름 */
+  name: string;
+  /** 종류 */
+  species: PetSpecies;
+  /** 품종 */
+  breed: string | null;
+  /** 체중 (kg) */
+  weight_kg: number | null;
+  /** 크기 */
+  size_class: PetSize;
+  /** 생성일시 */
+  created_at: string;
+  /** 수정일시 */
+  updated_at: string;
+}
+
+/**
+ * 반려동물 프로필 생성/수정 시 사용하는 타입
+ *
+ * id, user_id, created_at, updated_at은 데이터베이스와 API 함수가 채웁니다.
+ */
+export type PetInput = Pick<
+  Pet,
+  "name" | "species" | "breed" | "weight_kg" | "size_class"
+>;
+
+/**
+ * 관광지 동반 가능 여부 판별 결과
+ *
+ * - allowed: 크기와 종류가 모두 확인됨
+ * - denied: 크기/종류/체중 중 하나라도 맞지 않음
+ * - unknown: 반려동물 정보만으로 확인할 수 없음
+ */
+export interface PetAccess {
+  pet: Pet;
+  status: "allowed" | "denied" | "unknown";
+  /** 판별 근거 (예: "대형 불가", "고양이 확인 안 됨") */
+  reasons: string[];
+}
@@ -0,0 +1,62 @@
+/**
+ * @file public-list.ts
+ * @description 공개 북마크 리스트 관련 타입 정의
+ *
+ * Supabase public_lists 테이블의 데이터 구조를 기반으로 한 타입 정의입니다.
+ *
+ * 주요 타입:
+ * 1. PublicList - 공개 리스트 데이터베이스 레코드
+ * 2. PublishListInput - 공개 리스트 만들기/수정 입력
+ * 3. PublishedList - 공개 페이지에 표시할 리스트와 관광지 목록
+ *
+ * @see {@link /supabase/migrations/public_lists.sql} - 데이터베이스 스키마
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+
+/**
+ * 공개 리스트 데이터베이스 레코드 타입
+ */
+export interface PublicList {
+  /** 공개 리스트 ID (UUID) */
+  id: string;
+  /** 사용자 ID (users 테이블 참조) */
+  user_id: string;
+  /** 공개할 컬렉션 ID (null이면 전체 북마크) */
+  collection_id: string | null;
+  /** 공개 주소 (/lists/[slug]) */
+  slug: string;
+  /** 제목 */
+  title: string;
+  /** 설명 */
+  description: string | null;
+  /** 공개 여부 */
+  is_published: boolean;
+  /** 조회수 */
+  view_count: number;
+  /** 마지막으로 공개한 일시 */
+  published_at: string;
+  /** 생성일시 */
+  created_at: string;
+  /** 수정일시 */
+  updated_at: string;
+}
+
+/**
+ * 공개 리스트 만들기/수정 입력
+ */
+export interface PublishListInput {
+  /** 공개할 컬렉션 ID (null이면 전체 북마크) */
+  collectionId: string | null;
+  title: string;
+  description?: string | null;
+}
+
+/**
+ * 공개 페이지에 표시할 리스트와 관광지 목록
+ */
+export interface PublishedList {
+  list: PublicList;
+  /** 관광지 목록 (컬렉션이면 컬렉션 순서, 전체 북마크면 최신순) */
+  tours: TourItem[];
+}
@@ -0,0 +1,241 @@
+/**
+ * @file tour-mirror.ts
+ * @description 관광지 카탈로그 미러 관련 타입 정의
+ *
+ * Supabase tours, tour_sync_runs, tour_pet_index 테이블의 데이터 구조를 기반으로 한 타입 정의입니다.
+ *
+ * 주요 타입:
+ * 1. TourRow - 관광지 카탈로그 미러 레코드
+ * 2. TourSyncRun - 동기화 실행 기록 레코드
+ * 3. TourSyncOptions, TourSyncResult - 동기화 실행 옵션/결과
+ * 4. TourPetIndexRow - 관광지별 반려동물 정보 인덱스 레코드
+ * 5. PetFriendlyTour, PetFriendlyTourPage - 반려동물 동반 가능 관광지 조회 결과
+ *
+ * @see {@link /supabase/migrations/tours_mirror.sql} - 데이터베이스 스키마
+ * @see {@link /supabase/migrations/tour_pet_index.sql} - 반려동물 인덱스 스키마
+ * @see {@link /supabase/migrations/tour_pet_index_facts.sql} - 반려동물 정보 구조화 컬럼
+ */
+
+import type {
+  PetInfoFacts,
+  PetSize,
+  PetSpecies,
+  PetTourInfo,
+  TourImage,
+  TourIntro,
+  TourItem,
+} from "@/lib/types/tour";
+
+/**
+ * 관광지 카탈로그 미러 레코드 타입
+ *
+ * Supabase tours 테이블의 구조와 일치합니다.
+ */
+export interface TourRow {
+  /** 콘텐츠ID (한국관광공사 API의 contentid) */
+  content_id: string;
+  /** 콘텐츠타입ID */
+  content_type_id: string;
+  /** 관광지명 */
+  title: string;
+  /** 주소 */
+  addr1: string;
+  /** 상세주소 */
+  addr2: string | null;
+  /** 지역코드 (시/도) */
+  area_code: string;
+  /** 시군구코드 */
+  sigungu_code: string | null;
+  /** 대분류 카테고리 */
+  cat1: string | null;
+  /** 중분류 카테고리 */
+  cat2: string | null;
+  /** 소분류 카테고리 */
+  cat3: string | null;
+  /** 경도 (API mapx) */
+  mapx: number;
+  /** 위도 (API mapy) */
+  mapy: number;
+  /** 대표이미지1 (URL) */
+  first_image: string | null;
+  /** 대표이미지2 (URL) */
+  first_image2: string | null;
+  /** 전화번호 */
+  tel: string | null;
+  /** 등록일 (YYYYMMDDhhmmss) */
+  created_time: string | null;
+  /** 수정일 (YYYYMMDDhhmmss) */
+  modified_time: string;
+  /** 우편번호 (상세 정보) */
+  zipcode: string | null;
+  /** 홈페이지 (상세 정보) */
+  homepage: string | null;
+  /** 개요 (상세 정보) */
+  overview: string | null;
+  /** 소개 정보 (detailIntro2 응답 항목) */
+  intro: TourIntro | null;
+  /** 이미지 목록 (detailImage2 응답 항목) */
+  images: TourImage[] | null;
+  /** 상세 정보 동기화 시각 (null이면 재조회 대상) */
+  detail_synced_at: string | null;
+  /** 목록 정보 동기화 시각 */
+  synced_at: string;
+  /** 레코드 생성일시 */
+  created_at: string;
+}
+
+/**
+ * 동기화 모드
+ *
+ * - full: areaBasedSyncList2 전체 페이지를 가져오고 누락된 관광지는 삭제
+ * - incremental: 마지막 성공 실행 이후 수정일(modifiedtime)의 항목만 반영
+ */
+export type TourSyncMode = "full" | "incremental";
+
+/**
+ * 동기화 실행 상태
+ */
+export type TourSyncStatus = "running" | "success" | "failed";
+
+/**
+ * 동기화 실행 기록 레코드 타입
+ *
+ * Supabase tour_sync_runs 테이블의 구조와 일치합니다.
+ */
+export interface TourSyncRun {
+  /** 실행 고유 ID (UUID) */
+  id: string;
+  /** 동기화 모드 */
+  mode: TourSyncMode;
+  /** 실행 상태 */
+  status: TourSyncStatus;
+  /** 실행 주체 (cli, api) */
+  trigger: string;
+  /** 증분 동기화 시작 기준 수정일 (YYYYMMDD) */
+  since_modified_time: string | null;
+  /** 반영한 최신 수정일 (YYYYMMDDhhmmss) */
+  max_modified_time: string | null;
+  /** API에서 받은 항목 수 */
+  fetched_count: number;
+  /** 추가/갱신한 관광지 수 */
+  upserted_count: number;
+  /** 삭제한 관광지 수 */
+  deleted_count: number;
+  /** 상세 정보를 갱신한 관광지 수 */
+  detail_count: number;
+  /** 실패 시 에러 메시지 */
+  error_message: string | null;
+  /** 시작일시 */
+  started_at: string;
+  /** 종료일시 */
+  finished_at: string | null;
+}
+
+/**
+ * 동기화 실행 옵션
+ */
+export interface TourSyncOptions {
+  /** 동기화 모드 (기본값: 마지막 성공 실행이 있으면 incremental, 없으면 full) */
+  mode?: TourSyncMode;
+  /** 실행 주체 (기본값: "cli") */
+  trigger?: string;
+  /** 이번 실행에서 상세 정보를 갱신할 최대 관광지 수 (기본값: 100, 0이면 생략) */
+  detailLimit?: number;
+}
+
+/**
+ * 동기화 실행 결과
+ */
+export type TourSyncResult = Pick<
+  TourSyncRun,
+  | "id"
+  | "mode"
+  | "status"
+  | "since_modified_time"
+  | "max_modified_time"
+  | "fetched_count"
+  | "upserted_count"
+  | "deleted_count"
+  | "detail_count"
+  | "error_message"
+>;
+
+/**
+ * 반려동물 정보 인덱스 레코드 타입
+ *
+ * Supabase tour_pet_index 테이블의 구조와 일치합니다.
+ */
+export interface TourPetIndexRow {
+  /** 콘텐츠ID (tours 테이블 참조) */
+  content_id: string;
+  /** detailPetTour2 응답 항목 (정보가 없으면 null) */
+  pet_info: PetTourInfo | null;
+  /** 반려동물 동반 가능 여부 */
+  pet_friendly: boolean;
+  /** 동반 타입 */
+  acmpy_type_cd: string | null;
+  /** 동반 가능 대상 */
+  acmpy_psbl_cpam: string | null;
+  /** 동반 필요 사항 */
+  acmpy_need_mtr: string | null;
+  /** 기타 동반 정보 */
+  etc_acmpy_info: string | null;
+  /** 확인 당시 관광지 수정일 */
+  source_modified_time: string | null;
+  /** 확인 시각 */
+  checked_at: string;
+  /** 반려동물 동반 정보 구조화 결과 */
+  pet_facts: PetInfoFacts | null;
+  /** 동반 가능 크기 (필터용, 신뢰도가 충분한 값만) */
+  allowed_sizes: PetSize[];
+  /** 동반 가능 종류 (필터용, 신뢰도가 충분한 값만) */
+  allowed_species: PetSpecies[];
+  /** 실내 동반 가능 여부 (필터용, 불확실하면 null) */
+  indoor_allowed: boolean | null;
+  /** 실외 동반 가능 여부 (필터용, 불확실하면 null) */
+  outdoor_allowed: boolean | null;
+  /** 해석에 사용한 파서 버전 */
+  parser_version: number;
+}
+
+/**
+ * 반려동물 정보 인덱스 갱신 옵션
+ */
+export interface PetIndexRefreshOptions {
+  /** 이번 실행에서 확인할 최대 관광지 수 (기본값: 200) */
+  limit?: number;
+}
+
+/**
+ * 반려동물 정보 인덱스 갱신 결과
+ */
+export interface PetIndexRefreshResult {
+  /** 파서 버전이 바뀌어 저장된 정보를 다시 해석한 관광지 수 */
+  reparsed: number;
+  /** 확인한 관광지 수 */
+  checked: number;
+  /** 반려동물 동반 가능으로 확인된 관광지 수 */
+  petFriendly: number;
+  /** 조회에 실패해 다음 실행으로 미룬 관광지 수 */
+  failed: number;
+  /** 한도 초과/서비스 키 오류로 중단했는지 여부 */
+  interrupted: boolean;
+}
+
+/**
+ * 반려동물 동반 가능 관광지 (관광지 + 반려동물 정보)
+ */
+export interface PetFriendlyTour {
+  tour: TourItem;
+  petInfo: PetTourInfo;
+}
+
+/**
+ * 반려동물 동반 가능 관광지 페이지 조회 결과
+ */
+export interface PetFriendlyTourPage {
+  /** 현재 페이지 항목 */
+  items: PetFriendlyTour[];
+  /** 조건에 맞는 전체 관광지 수 */
+  totalCount: number;
+}
@@ -5,88 +5,58 @@
  * 한국관광공사 공공 API(KorService2)의 응답 데이터 구조를 기반으로 한 타입 정의입니다.
  *
  * 주요 타입:
- * 1. TourItem - 관광지 목록 항목 (areaBasedList2 API 응답)
+ * 1. TourItem - 관광지 목록 항목 (areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2 API 응답)
  * 2. TourDetail - 관광지 상세 정보 (detailCommon2 API 응답)
  * 3. TourIntro - 관광지 소개 정보 (detailIntro2 API 응답)
+ * 4. TourDetailInfo, TourRoomInfo - 반복 정보 / 숙박 객실 정보 (detailInfo2 API 응답)
+ * 5. PetInfoFacts - 반려동물 동반 정보(detailPetTour2 응답)의 구조화 결과
+ * 6. OpeningHours, OpeningStatus - 운영시간/휴무일(detailIntro2 응답)의 구조화 결과와 현재 영업 상태
+ *
+ * API 응답 타입은 lib/api/tour-api-schemas.ts의 zod 스키마에서 추론합니다.
+ * 필드를 추가/변경할 때는 스키마를 수정하세요.
  *
  * 좌표 정보:
  * - mapx, mapy는 KATEC 좌표계의 정수형 값
  * - Naver Maps는 KATEC 좌표계를 직접 지원하므로 변환 불필요
  *
  * @see {@link /docs/prd.md#5-데이터-구조} - PRD 문서의 데이터 구조 섹션
+ * @see {@link /lib/api/tour-api-schemas.ts} - 응답 스키마
  */
 
+import type { z } from "zod";
+import type {
+  areaCodeItemSchema,
+  categoryCodeItemSchema,
+  petTourInfoSchema,
+  tourDetailInfoSchema,
+  tourDetailSchema,
+  tourImageSchema,
+  tourIntroSchema,
+  tourItemSchema,
+  tourRoomInfoSchema,
+  tourSyncItemSchema,
+} from "@/lib/api/tour-api-schemas";
+
 /**
  * 관광지 목록 항목 타입
  *
- * areaBasedList2 API 응답 데이터 구조
- */
-export interface TourItem {
-  /** 주소 */
-  addr1: string;
-  /** 상세주소 (선택) */
-  addr2?: string;
-  /** 지역코드 (시/도) */
-  areacode: string;
-  /** 콘텐츠ID (고유 식별자) */
-  contentid: string;
-  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
-  contenttypeid: string;
-  /** 관광지명 */
-  title: string;
-  /** 경도 (KATEC 좌표계, 정수형) */
-  mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형) */
-  mapy: string;
-  /** 대표이미지1 (URL) */
-  firstimage?: string;
-  /** 대표이미지2 (URL) */
-  firstimage2?: string;
-  /** 전화번호 */
-  tel?: string;
-  /** 대분류 카테고리 */
-  cat1?: string;
-  /** 중분류 카테고리 */
-  cat2?: string;
-  /** 소분류 카테고리 */
-  cat3?: string;
-  /** 수정일 (YYYYMMDD 형식) */
-  modifiedtime: string;
-}
+ * areaBasedList2, searchKeyword2, locationBasedList2, searchFestival2, searchStay2 API 응답 데이터 구조
+ */
+export type TourItem = z.infer<typeof tourItemSchema>;
+
+/**
+ * 관광지 동기화 목록 항목 타입
+ *
+ * areaBasedSyncList2 API 응답 데이터 구조 (표출 여부 showflag 포함)
+ */
+export type TourSyncItem = z.infer<typeof tourSyncItemSchema>;
 
 /**
  * 관광지 상세 정보 타입
  *
  * detailCommon2 API 응답 데이터 구조
  */
-export interface TourDetail {
-  /** 콘텐츠ID (고유 식별자) */
-  contentid: string;
-  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
-  contenttypeid: string;
-  /** 관광지명 */
-  title: string;
-  /** 주소 */
-  addr1: string;
-  /** 상세주소 (선택) */
-  addr2?: string;
-  /** 우편번호 (선택) */
-  zipcode?: string;
-  /** 전화번호 */
-  tel?: string;
-  /** 홈페이지 URL */
-  homepage?: string;
-  /** 개요 (긴 설명문) */
-  overview?: string;
-  /** 대표이미지1 (URL) */
-  firstimage?: string;
-  /** 대표이미지2 (URL) */
-  firstimage2?: string;
-  /** 경도 (KATEC 좌표계, 정수형) */
-  mapx: string;
-  /** 위도 (KATEC 좌표계, 정수형) */
-  mapy: string;
-}
+export type TourDetail = z.infer<typeof tourDetailSchema>;
 
 /**
  * 관광지 소개 정보 타입
@@ -96,34 +66,32 @@ export interface TourDetail {
  * 주의: 관광 타입(contenttypeid)에 따라 사용 가능한 필드가 다릅니다.
  * 예를 들어, 관광지(12)와 음식점(39)의 필드가 다를 수 있습니다.
  */
-export interface TourIntro {
-  /** 콘텐츠ID (고유 식별자) */
-  contentid: string;
-  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
-  contenttypeid: string;
-  /** 이용시간/운영시간 */
-  usetime?: string;
-  /** 휴무일 */
-  restdate?: string;
-  /** 문의처 */
-  infocenter?: string;
-  /** 주차 가능 여부 */
-  parking?: string;
-  /** 반려동물 동반 가능 여부 */
-  chkpet?: string;
-  /** 이용요금 */
-  usefee?: string;
-  /** 수용인원 */
-  accomcount?: string;
-  /** 체험 프로그램 정보 */
-  expguide?: string;
-  /** 유모차 대여 가능 여부 */
-  chkbabycarriage?: string;
-  /** 장애인 편의시설 */
-  chkcreditcard?: string;
-  /** 기타 정보 (타입별로 다름) */
-  [key: string]: string | undefined;
-}
+export type TourIntro = z.infer<typeof tourIntroSchema>;
+
+/**
+ * 반복 정보 타입
+ *
+ * detailInfo2 API 응답 데이터 구조
+ *
+ * 숙박(32)은 객실 정보(TourRoomInfo)를, 여행코스(25)는 코스 정보를,
+ * 그 외 타입은 infoname/infotext 형식의 반복 정보를 반환합니다.
+ */
+export type TourDetailInfo = z.infer<typeof tourDetailInfoSchema>;
+
+/**
+ * 숙박 객실 정보 타입
+ *
+ * 숙박(32) 타입의 detailInfo2 API 응답 데이터 구조
+ * 편의시설 필드(roombath 등)는 "Y" 또는 "N" 값입니다.
+ */
+export type TourRoomInfo = z.infer<typeof tourRoomInfoSchema>;
+
+/**
+ * 관광지 이미지 타입
+ *
+ * detailImage2 API 응답 데이터 구조
+ */
+export type TourImage = z.infer<typeof tourImageSchema>;
 
 /**
  * 반려동물 동반 여행 정보 타입
@@ -132,27 +100,202 @@ export interface TourIntro {
  *
  * @see {@link /docs/prd.md#25-반려동물-동반-여행} - PRD 문서의 반려동물 동반 여행 섹션
  */
-export interface PetTourInfo {
-  /** 콘텐츠ID (고유 식별자) */
-  contentid: string;
-  /** 콘텐츠타입ID (관광 타입: 12, 14, 15, 25, 28, 32, 38, 39) */
-  contenttypeid?: string;
-  /** 동반 타입 코드 (예: "전구역 동반가능", "일부구역 동반가능") */
-  acmpyTypeCd?: string;
-  /** 동반 가능 캠프 (예: "전 견종 동반 가능") */
-  acmpyPsblCpam?: string;
-  /** 동반 필요 사항 (예: "목줄 착용", "반려동물 유모차 탑승" 등) */
-  acmpyNeedMtr?: string;
-  /** 기타 동반 정보 (주의사항 등) */
-  etcAcmpyInfo?: string;
-  /** 사고 위험 물질 */
-  relaAcdntRiskMtr?: string;
-  /** 관련 포즈 시설 */
-  relaPosesFclty?: string;
-  /** 관련 가구 제품 목록 */
-  relaFrnshPrdlst?: string;
-  /** 관련 구매 제품 목록 */
-  relaPurcPrdlst?: string;
-  /** 관련 렌탈 제품 목록 */
-  relaRntlPrdlst?: string;
+export type PetTourInfo = z.infer<typeof petTourInfoSchema>;
+
+/**
+ * 반려동물 크기 (TourFilterState.petSize와 같은 값)
+ */
+export type PetSize = "small" | "medium" | "large";
+
+/**
+ * 반려동물 종류 (TourFilterState.petType과 같은 값)
+ */
+export type PetSpecies = "dog" | "cat";
+
+/**
+ * 반려동물 동반 구역
+ *
+ * - all: 전구역 동반가능
+ * - partial: 일부구역 동반가능
+ * - outdoor_only: 실외(야외) 구역만 동반가능
+ */
+export type PetAccessArea = "all" | "partial" | "outdoor_only";
+
+/**
+ * 반려동물 동반 정보에서 추출한 사실 하나
+ *
+ * 자유 텍스트에서 추출한 값이므로 신뢰도(0~1)를 함께 저장합니다.
+ * 명시적 표현("목줄 착용 필수")은 높게, 간접 추론(전구역 → 실내 가능)은 낮게 매깁니다.
+ */
+export interface PetInfoFact<T> {
+  /** 추출한 값 */
+  value: T;
+  /** 신뢰도 (0~1) */
+  confidence: number;
+  /** 근거가 된 원문 구절 */
+  evidence: string;
+}
+
+/**
+ * 반려동물 동반 정보 구조화 결과
+ *
+ * PetTourInfo의 자유 텍스트(acmpyTypeCd, acmpyPsblCpam, acmpyNeedMtr, etcAcmpyInfo)를
+ * 해석한 결과입니다. 텍스트에서 알 수 없는 항목은 null입니다.
+ *
+ * @see {@link /lib/utils/pet-info-parser.ts} - 파서
+ */
+export interface PetInfoFacts {
+  /** 동반 가능 크기 */
+  sizes: PetInfoFact<PetSize[]> | null;
+  /** 최대 체중 (kg) */
+  maxWeightKg: PetInfoFact<number> | null;
+  /** 동반 가능 종류 */
+  species: PetInfoFact<PetSpecies[]> | null;
+  /** 동반 구역 */
+  area: PetInfoFact<PetAccessArea> | null;
+  /** 실내 동반 가능 여부 */
+  indoor: PetInfoFact<boolean> | null;
+  /** 실외 동반 가능 여부 */
+  outdoor: PetInfoFact<boolean> | null;
+  /** 목줄(리드줄) 필수 여부 */
+  leashRequired: PetInfoFact<boolean> | null;
+  /** 입마개 필수 여부 */
+  muzzleRequired: PetInfoFact<boolean> | null;
+  /** 이동장(케이지/유모차) 필수 여부 */
+  carrierRequired: PetInfoFact<boolean> | null;
+}
+
+/**
+ * 운영시간 구간
+ *
+ * 자정 기준 분 단위입니다. 다음 날 새벽까지 운영하면 close가 1440(24:00)보다 큽니다.
+ */
+export interface OpeningTimeRange {
+  /** 여는 시각 (분) */
+  open: number;
+  /** 닫는 시각 (분) */
+  close: number;
+}
+
+/**
+ * 운영시간 예외
+ *
+ * - monthly: 매월 N째 주 요일 휴무 ("매월 둘째, 넷째 월요일")
+ * - date: 매년 같은 날짜 휴무 ("1월 1일", "신정")
+ * - lunar_holiday: 설날/추석 휴무 (days는 당일 기준 날짜 차이, 연휴면 [-1, 0, 1])
+ * - season: 계절별 운영시간 ("동절기(11~2월) 09:00~17:00", ranges가 비어 있으면 휴무)
+ * - note: 해석하지 못한 조건 ("공휴일인 경우 다음날 휴무" 등, 영업 상태 판단에 쓰지 않음)
+ */
+export type OpeningHoursException =
+  | { type: "monthly"; weekday: number; weeks: number[]; label: string }
+  | { type: "date"; month: number; day: number; label: string }
+  | {
+      type: "lunar_holiday";
+      holiday: "seollal" | "chuseok";
+      days: number[];
+      label: string;
+    }
+  | {
+      type: "season";
+      months: number[];
+      ranges: OpeningTimeRange[];
+      label: string;
+    }
+  | { type: "note"; label: string };
+
+/**
+ * 운영시간 구조화 결과
+ *
+ * 소개 정보(TourIntro)의 운영시간(usetime, opentimefood 등)과
+ * 휴무일(restdate, restdatefood 등) 문구를 해석한 결과입니다.
+ *
+ * @see {@link /lib/utils/opening-hours-parser.ts} - 파서
+ */
+export interface OpeningHours {
+  /** 요일별 운영시간 (0: 일요일 ~ 6: 토요일, 빈 배열은 휴무, null은 알 수 없음) */
+  weekly: Array<OpeningTimeRange[] | null>;
+  /** 상시 개방 (24시간) 여부 */
+  alwaysOpen: boolean;
+  /** 입장/주문 마감 시각 (분) */
+  lastEntry: number | null;
+  /** 공휴일 휴무 여부 (공휴일 날짜를 알 수 없어 영업 상태 판단에는 쓰지 않음) */
+  closedOnHolidays: boolean;
+  /** 휴무일/계절별 운영시간 등 예외 */
+  exceptions: OpeningHoursException[];
+  /** 운영시간 원문 */
+  usetime: string | null;
+  /** 휴무일 원문 */
+  restdate: string | null;
+}
+
+/**
+ * 현재 영업 상태
+ *
+ * - open: 영업 중
+ * - closing_soon: 곧 마감 (마감 1시간 전 또는 입장 마감 이후)
+ * - closed: 영업 종료 또는 휴무
+ * - unknown: 운영시간을 알 수 없음
+ */
+export type OpeningState = "open" | "closing_soon" | "closed" | "unknown";
+
+/**
+ * 현재 영업 상태와 관련 시각
+ */
+export interface OpeningStatus {
+  state: OpeningState;
+  /** 닫는 시각 (분, 영업 중일 때) */
+  closesAt: number | null;
+  /** 오늘 다시 여는 시각 (분, 영업 전/브레이크타임일 때) */
+  opensAt: number | null;
+  /** 휴무 사유 (예외로 휴무인 경우, 예: "설날 당일 휴무") */
+  reason: string | null;
+}
+
+/**
+ * 지역코드 항목 타입
+ *
+ * areaCode2 API 응답 데이터 구조 (시/도 또는 시군구)
+ */
+export type AreaCodeItem = z.infer<typeof areaCodeItemSchema>;
+
+/**
+ * 서비스 분류코드 항목 타입
+ *
+ * categoryCode2 API 응답 데이터 구조 (대/중/소분류)
+ */
+export type CategoryCodeItem = z.infer<typeof categoryCodeItemSchema>;
+
+/**
+ * 서비스 분류 트리 노드 타입
+ *
+ * 대분류(cat1) → 중분류(cat2) → 소분류(cat3) 계층 구조
+ */
+export interface CategoryNode {
+  /** 분류코드 */
+  code: string;
+  /** 분류명 */
+  name: string;
+  /** 하위 분류 (소분류는 빈 배열) */
+  children: CategoryNode[];
+}
+
+/**
+ * 관광지 목록 필터 상태 타입
+ *
+ * useTourFilter 훅과 홈페이지 URL 쿼리스트링이 공유합니다.
+ */
+export interface TourFilterState {
+  areaCode?: string;
+  sigunguCode?: string; // 시군구 코드 (areaCode 선택 시에만 사용)
+  contentTypeId?: string;
+  cat1?: string; // 대분류 코드
+  cat2?: string; // 중분류 코드 (cat1 선택 시에만 사용)
+  cat3?: string; // 소분류 코드 (cat2 선택 시에만 사용)
+  petFriendly?: boolean; // 반려동물 동반 가능 여부
+  petSize?: PetSize | undefined; // 반려동물 크기
+  petType?: PetSpecies | undefined; // 반려동물 종류
+  petPlace?: "indoor" | "outdoor" | undefined; // 실내/실외 동반 가능 여부
+  eventStartDate?: string; // 행사 시작일 (YYYYMMDD, 축제공연행사 전용)
+  eventEndDate?: string; // 행사 종료일 (YYYYMMDD, 축제공연행사 전용)
+  openNow?: boolean; // 지금 영업 중인 관광지만 보기
 }
@@ -0,0 +1,343 @@
+/**
+ * @file bookmark-export.ts
+ * @description 북마크 내보내기 유틸리티
+ *
+ * 북마크 목록을 JSON, CSV, GPX, KML 형식의 문자열로 변환합니다.
+ * 좌표는 WGS84 위경도로 기록하므로 Google 내 지도, GPS 기기, 스프레드시트에서 바로 열 수 있습니다.
+ *
+ * 주요 기능:
+ * 1. 북마크 → 내보내기 행 변환 (관광지 정보 + 여행 기록)
+ * 2. JSON (다시 가져오기용 전체 정보)
+ * 3. CSV (스프레드시트용, Excel 한글 깨짐 방지 BOM 포함, 수식으로 해석되는 값은 ' 접두어로 방지)
+ * 4. GPX 웨이포인트 / KML 플레이스마크 (좌표가 없는 관광지는 제외)
+ *
+ * @see {@link /lib/utils/bookmark-import.ts} - 북마크 가져오기 유틸리티
+ */
+
+import type { BookmarkStatus, BookmarkWithTour } from "@/lib/types/bookmark";
+import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
+
+/**
+ * 내보내기 형식
+ */
+export type BookmarkExportFormat = "json" | "csv" | "gpx" | "kml";
+
+/**
+ * 내보내기 형식별 정보
+ */
+export const BOOKMARK_EXPORT_FORMATS: Record<
+  BookmarkExportFormat,
+  { label: string; description: string; extension: string; mimeType: string }
+> = {
+  json: {
+    label: "JSON",
+    description: "다시 가져오기용 (여행 기록 포함)",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  csv: {
+    label: "CSV",
+    description: "스프레드시트용",
+    extension: "csv",
+    mimeType: "text/csv",
+  },
+  gpx: {
+    label: "GPX",
+    description: "GPS 기기용 웨이포인트",
+    extension: "gpx",
+    mimeType: "application/gpx+xml",
+  },
+  kml: {
+    label: "KML",
+    description: "Google 내 지도용",
+    extension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+  },
+};
+
+/** JSON 내보내기 형식 버전 (가져오기 시 확인) */
+export const BOOKMARK_EXPORT_VERSION = 1;
+
+/**
+ * 내보내기 행 (JSON/CSV의 한 항목)
+ */
+export interface BookmarkExportRow {
+  contentId: string;
+  title: string;
+  address: string;
+  areaCode: string;
+  contentTypeId: string;
+  /** 위도 (WGS84, 좌표가 없으면 null) */
+  lat: number | null;
+  /** 경도 (WGS84, 좌표가 없으면 null) */
+  lng: number | null;
+  tel: string;
+  status: BookmarkStatus;
+  visitedAt: string | null;
+  rating: number | null;
+  tags: string[];
+  note: string;
+  /** 북마크 추가 일시 (ISO 8601) */
+  bookmarkedAt: string;
+}
+
+/**
+ * JSON 내보내기 파일 구조
+ */
+export interface BookmarkExportFile {
+  version: number;
+  exportedAt: string;
+  bookmarks: BookmarkExportRow[];
+}
+
+/** CSV 열 순서 (가져오기에서도 같은 이름을 사용) */
+export const BOOKMARK_CSV_COLUMNS: (keyof BookmarkExportRow)[] = [
+  "contentId",
+  "title",
+  "address",
+  "areaCode",
+  "contentTypeId",
+  "lat",
+  "lng",
+  "tel",
+  "status",
+  "visitedAt",
+  "rating",
+  "tags",
+  "note",
+  "bookmarkedAt",
+];
+
+/**
+ * 북마크를 내보내기 행으로 변환
+ *
+ * @param item - 북마크와 관광지 정보
+ * @returns 내보내기 행
+ */
+export function toBookmarkExportRow(item: BookmarkWithTour): BookmarkExportRow {
+  const { bookmark, tour } = item;
+
+  let position: { lat: number; lng: number } | null = null;
+  if (tour.mapx && tour.mapy) {
+    try {
+      position = convertTourCoordinates(tour.mapx, tour.mapy);
+    } catch {
+      // 좌표가 잘못된 관광지는 좌표 없이 내보냄
+      position = null;
+    }
+  }
+
+  return {
+    contentId: tour.contentid,
+    title: tour.title,
+    address: [tour.addr1, tour.addr2].filter(Boolean).join(" "),
+    areaCode: tour.areacode,
+    contentTypeId: tour.contenttypeid,
+    lat: position?.lat ?? null,
+    lng: position?.lng ?? null,
+    tel: tour.tel ?? "",
+    status: bookmark.status,
+    visitedAt: bookmark.visited_at,
+    rating: bookmark.rating,
+    tags: bookmark.tags,
+    note: bookmark.note ?? "",
+    bookmarkedAt: bookmark.created_at,
+  };
+}
+
+/**
+ * 사용자가 입력한 CSV 열 (스프레드시트 수식 실행 방지 대상)
+ */
+const CSV_USER_TEXT_COLUMNS: ReadonlyArray<keyof BookmarkExportRow> = [
+  "title",
+  "tags",
+  "note",
+];
+
+/**
+ * 스프레드시트가 수식으로 해석하는 첫 글자
+ */
+const CSV_FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * CSV 필드 이스케이프 (쉼표, 따옴표, 줄바꿈이 있으면 따옴표로 감쌈)
+ *
+ * guardFormula이면 =, +, -, @, 탭, CR로 시작하는 값 앞에 '를 붙여 수식으로 실행되지 않게 합니다.
+ * 가져오기(bookmark-import.ts)에서 이 접두어를 다시 제거합니다.
+ */
+function escapeCsv(value: string, guardFormula = false): string {
+  const safe =
+    guardFormula && CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * XML 특수문자 이스케이프
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * 웨이포인트 설명 (주소, 상태, 평점, 태그, 메모)
+ */
+function describeRow(row: BookmarkExportRow): string {
+  return [
+    row.address,
+    row.rating ? `평점 ${row.rating}/5` : "",
+    row.tags.length > 0 ? row.tags.map((tag) => `#${tag}`).join(" ") : "",
+    row.note,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * 관광지 상세페이지 URL
+ */
+function getDetailUrl(baseUrl: string, contentId: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/places/${contentId}`;
+}
+
+/**
+ * CSV 변환 (태그는 ;로 연결)
+ */
+function toCsv(rows: BookmarkExportRow[]): string {
+  const lines = [BOOKMARK_CSV_COLUMNS.join(",")];
+  rows.forEach((row) => {
+    lines.push(
+      BOOKMARK_CSV_COLUMNS.map((column) => {
+        const value = row[column];
+        const guardFormula = CSV_USER_TEXT_COLUMNS.includes(column);
+        if (Array.isArray(value)) {
+          return escapeCsv(value.join(";"), guardFormula);
+        }
+        return escapeCsv(value === null ? "" : String(value), guardFormula);
+      }).join(","),
+    );
+  });
+  // Excel에서 UTF-8 한글이 깨지지 않도록 BOM 추가
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * GPX 1.1 웨이포인트 변환
+ */
+function toGpx(rows: BookmarkExportRow[], baseUrl?: string): string {
+  const waypoints = rows
+    .filter((row) => row.lat !== null && row.lng !== null)
+    .map((row) => {
+      const link = baseUrl
+        ? `\n    <link href="${escapeXml(getDetailUrl(baseUrl, row.contentId))}"><text>${escapeXml(row.title)}</text></link>`
+        : "";
+      return `  <wpt lat="${row.lat}" lon="${row.lng}">
+    <name>${escapeXml(row.title)}</name>
+    <desc>${escapeXml(describeRow(row))}</desc>${link}
+  </wpt>`;
+    });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="My Trip" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>My Trip 북마크</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${waypoints.join("\n")}
+</gpx>
+`;
+}
+
+/**
+ * KML 2.2 플레이스마크 변환
+ */
+function toKml(rows: BookmarkExportRow[], baseUrl?: string): string {
+  const placemarks = rows
+    .filter((row) => row.lat !== null && row.lng !== null)
+    .map((row) => {
+      const description = baseUrl
+        ? `${describeRow(row)}\n${getDetailUrl(baseUrl, row.contentId)}`
+        : describeRow(row);
+      // KML 좌표 순서는 경도,위도,고도
+      return `    <Placemark>
+      <name>${escapeXml(row.title)}</name>
+      <description>${escapeXml(description)}</description>
+      <ExtendedData>
+        <Data name="contentId"><value>${escapeXml(row.contentId)}</value></Data>
+        <Data name="status"><value>${row.status}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${row.lng},${row.lat},0</coordinates></Point>
+    </Placemark>`;
+    });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>My Trip 북마크</name>
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`;
+}
+
+/**
+ * 북마크 목록을 내보내기 형식의 문자열로 변환
+ *
+ * @param items - 북마크와 관광지 정보 목록
+ * @param format - 내보내기 형식
+ * @param baseUrl - 사이트 주소 (GPX/KML에 상세페이지 링크 포함, 생략 가능)
+ * @returns 파일 내용
+ */
+export function serializeBookmarks(
+  items: BookmarkWithTour[],
+  format: BookmarkExportFormat,
+  baseUrl?: string,
+): string {
+  const rows = items.map(toBookmarkExportRow);
+
+  switch (format) {
+    case "json": {
+      const file: BookmarkExportFile = {
+        version: BOOKMARK_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        bookmarks: rows,
+      };
+      return `${JSON.stringify(file, null, 2)}\n`;
+    }
+    case "csv":
+      return toCsv(rows);
+    case "gpx":
+      return toGpx(rows, baseUrl);
+    case "kml":
+      return toKml(rows, baseUrl);
+  }
+}
+
+/**
+ * 좌표가 있어 GPX/KML에 포함되는 북마크 수
+ *
+ * @param items - 북마크와 관광지 정보 목록
+ * @returns 좌표가 있는 북마크 수
+ */
+export function countExportableWaypoints(items: BookmarkWithTour[]): number {
+  return items
+    .map(toBookmarkExportRow)
+    .filter((row) => row.lat !== null && row.lng !== null).length;
+}
+
+/**
+ * 내보내기 파일명 (예: my-trip-bookmarks-2025-01-31.gpx)
+ *
+ * @param format - 내보내기 형식
+ * @returns 파일명
+ */
+export function getBookmarkExportFileName(
+  format: BookmarkExportFormat,
+): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `my-trip-bookmarks-${date}.${BOOKMARK_EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,398 @@
+/**
+ * @file bookmark-import.ts
+ * @description 북마크 가져오기 유틸리티
+ *
+ * 북마크 내보내기로 만든 JSON/CSV 파일을 읽어 가져올 행 목록으로 변환합니다.
+ * 스프레드시트에서 편집한 CSV처럼 콘텐츠ID가 없는 행은 관광지명(과 좌표)으로 매칭할 수 있도록
+ * 관광지명과 좌표도 함께 읽습니다.
+ *
+ * 주요 기능:
+ * 1. 파일 형식 판별 (확장자, 내용)
+ * 2. JSON 파싱 (내보내기 파일 또는 행 배열)
+ * 3. CSV 파싱 (따옴표, 줄바꿈 포함 필드, BOM 처리, 한글/영문 열 이름)
+ * 4. 여행 기록 값 정리 (상태, 방문일, 평점, 태그, 메모)
+ * 5. 파일 안 중복 행 찾기
+ *
+ * @see {@link /lib/utils/bookmark-export.ts} - 북마크 내보내기 유틸리티
+ */
+
+import type {
+  BookmarkJournalInput,
+  BookmarkStatus,
+} from "@/lib/types/bookmark";
+import {
+  MAX_BOOKMARK_NOTE_LENGTH,
+  parseTags,
+} from "@/lib/utils/bookmark-journal";
+
+/** 한 번에 가져올 수 있는 최대 행 수 */
+export const MAX_BOOKMARK_IMPORT_ROWS = 200;
+
+/**
+ * 가져올 행
+ */
+export interface BookmarkImportRow {
+  /** 파일 안 행 번호 (CSV는 레코드가 시작하는 줄 번호, JSON은 1부터) */
+  line: number;
+  /** 콘텐츠ID (없으면 관광지명으로 매칭) */
+  contentId: string | null;
+  /** 관광지명 */
+  title: string | null;
+  /** 위도 (WGS84) */
+  lat: number | null;
+  /** 경도 (WGS84) */
+  lng: number | null;
+  /** 여행 기록 */
+  journal: BookmarkJournalInput;
+}
+
+/**
+ * 파일 파싱 결과
+ */
+export interface BookmarkImportParseResult {
+  rows: BookmarkImportRow[];
+  /** 콘텐츠ID와 관광지명이 모두 없어 건너뛴 행 번호 */
+  skippedLines: number[];
+}
+
+/**
+ * CSV 열 이름 별칭 (소문자, 공백/밑줄 제거 후 비교)
+ */
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  contentId: ["contentid", "콘텐츠id", "관광지id"],
+  title: ["title", "name", "이름", "관광지명", "장소"],
+  lat: ["lat", "latitude", "위도"],
+  lng: ["lng", "lon", "longitude", "경도"],
+  status: ["status", "상태", "방문상태"],
+  visitedAt: ["visitedat", "방문일"],
+  rating: ["rating", "평점"],
+  tags: ["tags", "태그"],
+  note: ["note", "메모"],
+};
+
+/**
+ * 행 라벨 (결과 안내용)
+ *
+ * @param row - 가져올 행
+ * @returns 관광지명 또는 콘텐츠ID
+ */
+export function getImportRowLabel(row: BookmarkImportRow): string {
+  return row.title || (row.contentId ? `콘텐츠ID ${row.contentId}` : "-");
+}
+
+/**
+ * 관광지명 비교용 정규화 (공백, 괄호 안 부가 설명 제거, 소문자)
+ *
+ * @param title - 관광지명
+ * @returns 정규화한 관광지명
+ */
+export function normalizeImportTitle(title: string): string {
+  return title
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+}
+
+/**
+ * CSV 텍스트를 행 배열로 파싱 (RFC 4180, 따옴표 안 쉼표/줄바꿈 지원)
+ *
+ * 빈 행은 제외하고, 각 행에는 파일 안에서 레코드가 시작하는 줄 번호를 함께 기록합니다.
+ */
+function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1; // 현재 줄 번호
+  let rowLine = 1; // 현재 레코드가 시작한 줄 번호
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // 따옴표 안 줄바꿈도 줄 번호에 포함 (\r\n은 한 줄)
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * 값 문자열 변환 (빈 값은 null)
+ *
+ * CSV 내보내기에서 수식 실행을 막으려고 붙인 ' 접두어("'=...")는 제거합니다.
+ */
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const text = String(value)
+    .trim()
+    .replace(/^'(?=[=+\-@\t\r])/, "");
+  return text || null;
+}
+
+/**
+ * 좌표 값 변환 (범위를 벗어나면 null)
+ */
+function toCoordinate(value: unknown, limit: number): number | null {
+  const text = toText(value);
+  if (!text) {
+    return null;
+  }
+  const number = Number(text);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+}
+
+/**
+ * 방문 상태 변환 (방문함/visited 외에는 가고 싶음)
+ */
+function toStatus(value: unknown): BookmarkStatus {
+  const text = toText(value)?.toLowerCase();
+  return text === "visited" || text === "방문함" || text === "방문"
+    ? "visited"
+    : "want";
+}
+
+/**
+ * 방문일 변환 (YYYY-MM-DD 또는 YYYY.MM.DD, 잘못된 날짜는 null)
+ */
+function toVisitedAt(value: unknown): string | null {
+  const match = toText(value)?.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})/);
+  if (!match) {
+    return null;
+  }
+  const date = `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}`;
+  return Number.isNaN(new Date(date).getTime()) ? null : date;
+}
+
+/**
+ * 평점 변환 (1~5 정수만 허용)
+ */
+function toRating(value: unknown): number | null {
+  const rating = Math.round(Number(toText(value)));
+  return rating >= 1 && rating <= 5 ? rating : null;
+}
+
+/**
+ * 태그 변환 (배열 또는 ;/,/공백 구분 문자열)
+ */
+function toTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return parseTags(value.map(String).join(","));
+  }
+  return parseTags((toText(value) ?? "").replace(/;/g, ","));
+}
+
+/**
+ * 필드 맵을 가져올 행으로 변환 (콘텐츠ID와 관광지명이 모두 없으면 null)
+ */
+function toImportRow(
+  fields: Record<string, unknown>,
+  line: number,
+): BookmarkImportRow | null {
+  // 콘텐츠ID는 숫자만 허용 (스프레드시트에서 깨진 값은 관광지명으로 매칭)
+  const rawContentId = toText(fields.contentId);
+  const contentId =
+    rawContentId && /^\d+$/.test(rawContentId) ? rawContentId : null;
+  const title = toText(fields.title);
+  if (!contentId && !title) {
+    return null;
+  }
+
+  const status = toStatus(fields.status);
+  return {
+    line,
+    contentId,
+    title,
+    lat: toCoordinate(fields.lat, 90),
+    lng: toCoordinate(fields.lng, 180),
+    journal: {
+      status,
+      visited_at: status === "visited" ? toVisitedAt(fields.visitedAt) : null,
+      rating: toRating(fields.rating),
+      tags: toTags(fields.tags),
+      note: toText(fields.note)?.slice(0, MAX_BOOKMARK_NOTE_LENGTH) ?? null,
+    },
+  };
+}
+
+/**
+ * JSON 파일 파싱 (내보내기 파일 또는 행 배열)
+ */
+function parseJsonRows(text: string): Record<string, unknown>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("JSON 형식이 올바르지 않습니다.");
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && "bookmarks" in data
+      ? (data as { bookmarks: unknown }).bookmarks
+      : null;
+  if (!Array.isArray(list)) {
+    throw new Error("북마크 목록(bookmarks)을 찾을 수 없습니다.");
+  }
+
+  return list.filter(
+    (item): item is Record<string, unknown> =>
+      Boolean(item) && typeof item === "object",
+  );
+}
+
+/**
+ * CSV 파일 파싱 (첫 줄은 열 이름)
+ *
+ * @returns 레코드가 시작하는 줄 번호와 필드 맵
+ */
+function parseCsvRows(
+  text: string,
+): Array<{ line: number; fields: Record<string, unknown> }> {
+  const [headerRow, ...records] = parseCsv(text);
+  const header = headerRow?.cells;
+  if (!header) {
+    throw new Error("CSV 파일이 비어 있습니다.");
+  }
+
+  const normalizedHeader = header.map((name) =>
+    name.trim().toLowerCase().replace(/[\s_]/g, ""),
+  );
+  const columnIndex: Record<string, number> = {};
+  Object.entries(CSV_COLUMN_ALIASES).forEach(([key, aliases]) => {
+    const index = normalizedHeader.findIndex((name) => aliases.includes(name));
+    if (index !== -1) {
+      columnIndex[key] = index;
+    }
+  });
+
+  if (columnIndex.contentId === undefined && columnIndex.title === undefined) {
+    throw new Error("CSV에 contentId 또는 title(관광지명) 열이 있어야 합니다.");
+  }
+
+  return records.map(({ line, cells }) => ({
+    line,
+    fields: Object.fromEntries(
+      Object.entries(columnIndex).map(([key, index]) => [key, cells[index]]),
+    ),
+  }));
+}
+
+/**
+ * 북마크 가져오기 파일 파싱
+ *
+ * @param text - 파일 내용
+ * @param fileName - 파일명 (확장자로 형식 판별)
+ * @returns 가져올 행 목록과 건너뛴 행 번호
+ * @throws {Error} 지원하지 않는 형식, 파싱 실패, 행 수 초과
+ */
+export function parseBookmarkImportFile(
+  text: string,
+  fileName: string,
+): BookmarkImportParseResult {
+  const content = text.replace(/^\uFEFF/, "");
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const isJson =
+    extension === "json" || (extension !== "csv" && /^\s*[[{]/.test(content));
+
+  if (extension && !["json", "csv", "txt"].includes(extension)) {
+    throw new Error("JSON 또는 CSV 파일만 가져올 수 있습니다.");
+  }
+
+  // JSON은 1번째 항목부터, CSV는 레코드가 시작하는 줄 번호
+  const records = isJson
+    ? parseJsonRows(content).map((fields, index) => ({
+        line: index + 1,
+        fields,
+      }))
+    : parseCsvRows(content);
+  if (records.length > MAX_BOOKMARK_IMPORT_ROWS) {
+    throw new Error(
+      `한 번에 최대 ${MAX_BOOKMARK_IMPORT_ROWS}개까지 가져올 수 있습니다. (파일: ${records.length}개)`,
+    );
+  }
+
+  const rows: BookmarkImportRow[] = [];
+  const skippedLines: number[] = [];
+  records.forEach(({ line, fields }) => {
+    const row = toImportRow(fields, line);
+    if (row) {
+      rows.push(row);
+    } else {
+      skippedLines.push(line);
+    }
+  });
+
+  console.log("[BookmarkImport] 파일 파싱 완료:", {
+    fileName,
+    rows: rows.length,
+    skipped: skippedLines.length,
+  });
+  return { rows, skippedLines };
+}
+
+/**
+ * 파일 안 중복 행 분리 (같은 콘텐츠ID, 콘텐츠ID가 없으면 같은 관광지명)
+ *
+ * @param rows - 가져올 행 목록
+ * @returns 처음 나온 행(unique)과 중복 행(duplicates)
+ */
+export function splitDuplicateImportRows(rows: BookmarkImportRow[]): {
+  unique: BookmarkImportRow[];
+  duplicates: BookmarkImportRow[];
+} {
+  const seen = new Set<string>();
+  const unique: BookmarkImportRow[] = [];
+  const duplicates: BookmarkImportRow[] = [];
+
+  rows.forEach((row) => {
+    const key = row.contentId
+      ? `id:${row.contentId}`
+      : `title:${normalizeImportTitle(row.title ?? "")}`;
+    if (seen.has(key)) {
+      duplicates.push(row);
+    } else {
+      seen.add(key);
+      unique.push(row);
+    }
+  });
+
+  return { unique, duplicates };
+}
@@ -0,0 +1,103 @@
+/**
+ * @file bookmark-journal.ts
+ * @description 북마크 여행 기록 유틸리티
+ *
+ * 북마크의 메모, 태그, 방문 상태, 평점을 다루는 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 방문 상태 라벨
+ * 2. 태그 입력 문자열 파싱 (쉼표/공백/# 구분, 중복 제거)
+ * 3. 여행 기록 필터 (상태, 태그, 최소 평점)
+ * 4. 북마크 목록의 태그 모음 (많이 쓴 순)
+ *
+ * @see {@link /lib/types/bookmark.ts} - 북마크 타입 정의
+ */
+
+import type { Bookmark, BookmarkStatus } from "@/lib/types/bookmark";
+
+/** 방문 상태 라벨 */
+export const BOOKMARK_STATUS_LABELS: Record<BookmarkStatus, string> = {
+  want: "가고 싶음",
+  visited: "방문함",
+};
+
+/** 북마크당 최대 태그 수 */
+export const MAX_BOOKMARK_TAGS = 10;
+
+/** 태그 최대 길이 */
+export const MAX_BOOKMARK_TAG_LENGTH = 20;
+
+/** 메모 최대 길이 (DB 제약과 동일) */
+export const MAX_BOOKMARK_NOTE_LENGTH = 5000;
+
+/**
+ * 여행 기록 필터 조건
+ */
+export interface BookmarkJournalFilter {
+  /** 방문 상태 (없으면 전체) */
+  status?: BookmarkStatus;
+  /** 태그 (없으면 전체) */
+  tag?: string;
+  /** 최소 평점 (없으면 전체, 평점이 없는 북마크는 제외) */
+  minRating?: number;
+}
+
+/**
+ * 태그 입력 문자열 파싱
+ *
+ * 쉼표, 공백, #으로 구분하고 중복을 제거합니다.
+ * 예: "#부산, 바다 야경" → ["부산", "바다", "야경"]
+ *
+ * @param input - 태그 입력 문자열
+ * @returns 태그 목록 (최대 MAX_BOOKMARK_TAGS개)
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,\s#]+/)
+    .map((tag) => tag.trim().slice(0, MAX_BOOKMARK_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_BOOKMARK_TAGS);
+}
+
+/**
+ * 북마크가 여행 기록 필터 조건을 만족하는지 확인
+ *
+ * @param bookmark - 북마크 레코드
+ * @param filter - 필터 조건
+ * @returns 조건 만족 여부
+ */
+export function matchesJournalFilter(
+  bookmark: Bookmark,
+  filter: BookmarkJournalFilter,
+): boolean {
+  if (filter.status && bookmark.status !== filter.status) {
+    return false;
+  }
+  if (filter.tag && !bookmark.tags.includes(filter.tag)) {
+    return false;
+  }
+  if (filter.minRating && (bookmark.rating ?? 0) < filter.minRating) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 북마크 목록의 태그 모음
+ *
+ * @param bookmarks - 북마크 목록
+ * @returns 태그 목록 (많이 쓴 순, 같으면 가나다순)
+ */
+export function collectTags(bookmarks: Bookmark[]): string[] {
+  const counts = new Map<string, number>();
+  bookmarks.forEach((bookmark) => {
+    bookmark.tags.forEach((tag) => {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    });
+  });
+  return Array.from(counts.entries())
+    .sort(([tagA, countA], [tagB, countB]) =>
+      countA !== countB ? countB - countA : tagA.localeCompare(tagB, "ko"),
+    )
+    .map(([tag]) => tag);
+}
@@ -0,0 +1,156 @@
+/**
+ * @file bookmark-snapshot.ts
+ * @description 북마크 관광지 스냅샷 유틸리티
+ *
+ * 북마크 행에 저장하는 관광지 요약 정보(스냅샷)를 만들고,
+ * 저장된 스냅샷을 관광지 카드에서 쓰는 TourItem으로 변환합니다.
+ *
+ * 주요 기능:
+ * 1. 관광지 상세 정보 → 스냅샷 변환
+ * 2. 북마크(스냅샷) → TourItem 변환 (여행 기록 없이 스냅샷 컬럼만 조회한 행도 지원)
+ * 3. 스냅샷 갱신 필요 여부 판별 (없거나 오래된 스냅샷)
+ *
+ * @see {@link /lib/types/bookmark.ts} - 북마크 타입 정의
+ * @see {@link /supabase/migrations/bookmark_snapshots.sql} - 스냅샷 컬럼
+ */
+
+import type {
+  Bookmark,
+  BookmarkSnapshot,
+  BookmarkWithTour,
+} from "@/lib/types/bookmark";
+import type { TourDetail, TourItem } from "@/lib/types/tour";
+import type { TourLocale } from "@/lib/utils/locale";
+
+/** 스냅샷 유효 기간 (7일이 지나면 백그라운드에서 갱신) */
+export const BOOKMARK_SNAPSHOT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * TourItem 변환에 필요한 북마크 컬럼 (select 문자열)
+ *
+ * 다른 사용자의 북마크를 조회할 때 메모, 태그, 평점 같은 여행 기록은 가져오지 않도록
+ * 이 컬럼만 선택합니다.
+ */
+export const BOOKMARK_SNAPSHOT_COLUMNS =
+  "content_id, title, addr1, addr2, area_code, sigungu_code, content_type_id, cat1, cat2, cat3, mapx, mapy, first_image, first_image2, tel, modified_time, snapshot_at";
+
+/**
+ * TourItem 변환에 필요한 북마크 컬럼 타입
+ */
+export type BookmarkSnapshotRow = Pick<
+  Bookmark,
+  | "content_id"
+  | "title"
+  | "addr1"
+  | "addr2"
+  | "area_code"
+  | "sigungu_code"
+  | "content_type_id"
+  | "cat1"
+  | "cat2"
+  | "cat3"
+  | "mapx"
+  | "mapy"
+  | "first_image"
+  | "first_image2"
+  | "tel"
+  | "modified_time"
+  | "snapshot_at"
+>;
+
+/**
+ * 관광지 상세 정보를 북마크 스냅샷으로 변환
+ *
+ * @param detail - 관광지 상세 정보
+ * @param locale - 상세 정보를 조회한 로케일
+ * @returns 북마크 스냅샷
+ */
+export function toBookmarkSnapshot(
+  detail: TourDetail,
+  locale: TourLocale,
+): BookmarkSnapshot {
+  return {
+    title: detail.title,
+    addr1: detail.addr1,
+    addr2: detail.addr2 || null,
+    area_code: detail.areacode || null,
+    sigungu_code: detail.sigungucode || null,
+    content_type_id: detail.contenttypeid,
+    cat1: detail.cat1 || null,
+    cat2: detail.cat2 || null,
+    cat3: detail.cat3 || null,
+    mapx: detail.mapx || null,
+    mapy: detail.mapy || null,
+    first_image: detail.firstimage || null,
+    first_image2: detail.firstimage2 || null,
+    tel: detail.tel || null,
+    modified_time: detail.modifiedtime || null,
+    snapshot_locale: locale,
+  };
+}
+
+/**
+ * 북마크 스냅샷을 TourItem으로 변환
+ *
+ * @param row - 스냅샷 컬럼을 포함한 북마크 행
+ * @returns 관광지 정보 (스냅샷이 없으면 null)
+ */
+export function toSnapshotTour(row: BookmarkSnapshotRow): TourItem | null {
+  if (!row.snapshot_at || !row.title) {
+    return null;
+  }
+
+  return {
+    contentid: row.content_id,
+    contenttypeid: row.content_type_id ?? "",
+    title: row.title,
+    addr1: row.addr1 ?? "",
+    addr2: row.addr2 ?? undefined,
+    areacode: row.area_code ?? "",
+    sigungucode: row.sigungu_code ?? undefined,
+    cat1: row.cat1 ?? undefined,
+    cat2: row.cat2 ?? undefined,
+    cat3: row.cat3 ?? undefined,
+    mapx: row.mapx ?? "",
+    mapy: row.mapy ?? "",
+    firstimage: row.first_image ?? undefined,
+    firstimage2: row.first_image2 ?? undefined,
+    tel: row.tel ?? undefined,
+    modifiedtime: row.modified_time ?? "",
+  };
+}
+
+/**
+ * 스냅샷이 저장된 북마크를 TourItem과 함께 반환
+ *
+ * @param bookmark - 북마크 레코드
+ * @returns 북마크와 관광지 정보 (스냅샷이 없으면 null)
+ */
+export function toBookmarkWithTour(
+  bookmark: Bookmark,
+): BookmarkWithTour | null {
+  const tour = toSnapshotTour(bookmark);
+  return tour ? { bookmark, tour } : null;
+}
+
+/**
+ * 스냅샷 갱신이 필요한지 확인
+ *
+ * 스냅샷이 없거나 유효 기간(BOOKMARK_SNAPSHOT_TTL_MS)이 지난 경우 갱신 대상입니다.
+ *
+ * @param bookmark - 북마크 레코드
+ * @param now - 기준 시각 (밀리초)
+ * @returns 갱신 필요 여부
+ */
+export function isBookmarkSnapshotStale(
+  bookmark: Bookmark,
+  now: number = Date.now(),
+): boolean {
+  if (!bookmark.snapshot_at) {
+    return true;
+  }
+  const snapshotTime = new Date(bookmark.snapshot_at).getTime();
+  return (
+    Number.isNaN(snapshotTime) || now - snapshotTime > BOOKMARK_SNAPSHOT_TTL_MS
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * @file category-converter.ts
+ * @description 서비스 분류코드 변환 유틸리티
+ *
+ * 한국관광공사 API의 서비스 분류코드(cat1, cat2, cat3)를
+ * 분류 트리에서 찾아 분류명으로 변환하는 함수를 제공합니다.
+ */
+
+import type { CategoryNode } from "@/lib/types/tour";
+
+/**
+ * 분류 트리에서 코드에 해당하는 노드 찾기
+ *
+ * @param nodes - 같은 단계의 분류 노드 목록
+ * @param code - 분류코드
+ * @returns 분류 노드 (없으면 undefined)
+ */
+export function findCategoryNode(
+  nodes: CategoryNode[] | undefined,
+  code: string | undefined,
+): CategoryNode | undefined {
+  if (!nodes || !code) {
+    return undefined;
+  }
+  return nodes.find((node) => node.code === code);
+}
+
+/**
+ * 대/중/소분류 코드를 분류명 목록으로 변환
+ *
+ * 상위 분류를 찾지 못하면 하위 분류도 찾지 않습니다.
+ *
+ * @param tree - 분류 트리 (대분류 목록)
+ * @param cat1 - 대분류 코드
+ * @param cat2 - 중분류 코드
+ * @param cat3 - 소분류 코드
+ * @returns 분류명 목록 (예: ["자연", "자연관광지", "해수욕장"])
+ */
+export function getCategoryNames(
+  tree: CategoryNode[] | undefined,
+  cat1?: string,
+  cat2?: string,
+  cat3?: string,
+): string[] {
+  const names: string[] = [];
+
+  const node1 = findCategoryNode(tree, cat1);
+  if (!node1) return names;
+  names.push(node1.name);
+
+  const node2 = findCategoryNode(node1.children, cat2);
+  if (!node2) return names;
+  names.push(node2.name);
+
+  const node3 = findCategoryNode(node2.children, cat3);
+  if (node3) names.push(node3.name);
+
+  return names;
+}
@@ -0,0 +1,126 @@
+/**
+ * @file collection-sharing.ts
+ * @description 공유 컬렉션 유틸리티
+ *
+ * 컬렉션 공유(멤버 역할, 초대 링크)에 쓰는 상수와 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 역할 표시 이름 및 권한 확인 (보기/편집/관리)
+ * 2. 초대 토큰 생성 (추측하기 어려운 임의 문자열)
+ * 3. 초대 페이지 경로/URL
+ * 4. 초대 이메일 정규화, 확인된 계정 이메일 목록, 만료 확인
+ *
+ * @see {@link /supabase/migrations/collection_sharing.sql} - 공유 컬렉션 스키마
+ */
+
+import type { CollectionInvite, CollectionRole } from "@/lib/types/collection";
+
+/** 초대 토큰 길이 (DB 제약: 16~64자) */
+const INVITE_TOKEN_LENGTH = 24;
+
+/** 초대 유효 기간 (7일) */
+export const COLLECTION_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** 역할 표시 이름 */
+export const COLLECTION_ROLE_LABELS: Record<CollectionRole, string> = {
+  owner: "소유자",
+  editor: "편집자",
+  viewer: "보기 전용",
+};
+
+/**
+ * 컬렉션 항목을 담기/빼기/순서 변경할 수 있는 역할인지 확인
+ *
+ * @param role - 컬렉션에 대한 내 역할
+ * @returns 편집 가능 여부 (소유자, 편집자)
+ */
+export function canEditCollection(role: CollectionRole): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/**
+ * 초대 토큰 생성 (영문 대소문자 + 숫자)
+ *
+ * @returns 초대 토큰
+ */
+export function createInviteToken(): string {
+  const alphabet =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  const values = crypto.getRandomValues(new Uint8Array(INVITE_TOKEN_LENGTH));
+  return Array.from(values, (value) => alphabet[value % alphabet.length]).join(
+    "",
+  );
+}
+
+/**
+ * 초대 이메일 정규화 (앞뒤 공백 제거, 소문자)
+ *
+ * @param email - 입력한 이메일
+ * @returns 정규화한 이메일 (형식이 올바르지 않으면 null)
+ */
+export function normalizeInviteEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Clerk 계정의 확인된 이메일 목록 (정규화된 소문자)
+ *
+ * 이메일 초대는 확인(verified)된 이메일로만 수락할 수 있습니다.
+ *
+ * @param emailAddresses - Clerk 사용자의 emailAddresses
+ * @returns 확인된 이메일 목록
+ */
+export function getVerifiedEmails(
+  emailAddresses: Array<{
+    emailAddress: string;
+    verification: { status: string } | null;
+  }>,
+): string[] {
+  return emailAddresses
+    .filter((address) => address.verification?.status === "verified")
+    .map((address) => address.emailAddress.trim().toLowerCase());
+}
+
+/**
+ * 수락할 수 있는 초대인지 확인 (취소/만료되지 않았고, 이메일 초대는 아직 수락 전)
+ *
+ * @param invite - 초대 레코드
+ * @param now - 기준 시각 (밀리초)
+ * @returns 수락 가능 여부
+ */
+export function isInviteUsable(
+  invite: Pick<
+    CollectionInvite,
+    "email" | "expires_at" | "accepted_at" | "revoked_at"
+  >,
+  now: number = Date.now(),
+): boolean {
+  if (invite.revoked_at || (invite.email && invite.accepted_at)) {
+    return false;
+  }
+  return new Date(invite.expires_at).getTime() > now;
+}
+
+/**
+ * 초대 페이지 경로
+ *
+ * @param token - 초대 토큰
+ * @returns 경로 (예: "/invites/Xk3...")
+ */
+export function getCollectionInvitePath(token: string): string {
+  return `/invites/${token}`;
+}
+
+/**
+ * 초대 페이지 전체 URL
+ *
+ * @param token - 초대 토큰
+ * @param origin - 사이트 주소 (생략하면 NEXT_PUBLIC_SITE_URL)
+ * @returns 전체 URL
+ */
+export function getCollectionInviteUrl(token: string, origin?: string): string {
+  const siteUrl =
+    origin || process.env.NEXT_PUBLIC_SITE_URL || "https://example.com";
+  return `${siteUrl.replace(/\/$/, "")}${getCollectionInvitePath(token)}`;
+}
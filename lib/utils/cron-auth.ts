@@ -0,0 +1,22 @@
+/**
+ * @file cron-auth.ts
+ * @description 백그라운드 작업 API 인증 유틸리티
+ *
+ * 카탈로그 동기화, 반려동물 인덱스 갱신처럼 스케줄러가 호출하는 API는
+ * `Authorization: Bearer <CRON_SECRET>` 헤더로 호출 주체를 확인합니다.
+ */
+
+/**
+ * CRON_SECRET 헤더 확인
+ *
+ * @param request - 요청 객체
+ * @returns 헤더가 CRON_SECRET과 일치하면 true (CRON_SECRET 미설정 시 항상 false)
+ */
+export function isCronRequestAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("[Cron Auth] CRON_SECRET 환경변수가 설정되지 않았습니다.");
+    return false;
+  }
+  return request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * @file date-formatter.ts
+ * @description 한국관광공사 API 날짜 변환 유틸리티
+ *
+ * 공공 API는 날짜를 YYYYMMDD 문자열로 주고받습니다.
+ * 화면 표시용 문자열과 <input type="date">의 YYYY-MM-DD 형식 사이를 변환합니다.
+ */
+
+/**
+ * YYYYMMDD 형식인지 확인
+ */
+function isApiDate(value: string | undefined): value is string {
+  return Boolean(value && /^\d{8}/.test(value));
+}
+
+/**
+ * API 날짜를 화면 표시용 문자열로 변환
+ *
+ * @param value - YYYYMMDD (또는 YYYYMMDDhhmmss) 형식 날짜
+ * @returns "YYYY.MM.DD" 형식 문자열 (형식이 맞지 않으면 null)
+ */
+export function formatApiDate(value: string | undefined): string | null {
+  if (!isApiDate(value)) {
+    return null;
+  }
+  return `${value.slice(0, 4)}.${value.slice(4, 6)}.${value.slice(6, 8)}`;
+}
+
+/**
+ * 행사 기간 표시 문자열 생성
+ *
+ * @param startDate - 시작일 (YYYYMMDD)
+ * @param endDate - 종료일 (YYYYMMDD)
+ * @returns "YYYY.MM.DD ~ YYYY.MM.DD" 형식 문자열 (시작일이 없으면 null)
+ */
+export function formatEventPeriod(
+  startDate: string | undefined,
+  endDate: string | undefined,
+): string | null {
+  const start = formatApiDate(startDate);
+  if (!start) {
+    return null;
+  }
+  const end = formatApiDate(endDate);
+  return end && end !== start ? `${start} ~ ${end}` : start;
+}
+
+/**
+ * <input type="date"> 값을 API 날짜로 변환
+ *
+ * @param value - YYYY-MM-DD 형식 날짜
+ * @returns YYYYMMDD 형식 문자열 (값이 없으면 undefined)
+ */
+export function toApiDate(value: string | undefined): string | undefined {
+  return value ? value.replace(/-/g, "") : undefined;
+}
+
+/**
+ * API 날짜를 <input type="date"> 값으로 변환
+ *
+ * @param value - YYYYMMDD 형식 날짜
+ * @returns YYYY-MM-DD 형식 문자열 (형식이 맞지 않으면 빈 문자열)
+ */
+export function toInputDate(value: string | undefined): string {
+  if (!isApiDate(value)) {
+    return "";
+  }
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+/**
+ * 오늘 날짜를 API 날짜로 반환 (한국 시간 기준)
+ *
+ * @returns YYYYMMDD 형식 문자열
+ */
+export function getTodayApiDate(): string {
+  const koreaTime = new Date(Date.now() + 9 * 60 * 60 * 1000);
+  return koreaTime.toISOString().slice(0, 10).replace(/-/g, "");
+}
@@ -0,0 +1,101 @@
+/**
+ * @file geolocation.ts
+ * @description 브라우저 현재 위치 조회 유틸리티
+ *
+ * navigator.geolocation을 Promise로 감싸고 에러를 한국어 메시지로 변환합니다.
+ * useNaverMap의 현재 위치 이동과 홈페이지의 "내 주변" 모드가 함께 사용합니다.
+ * 두 좌표 사이의 거리 계산(Haversine 공식)도 제공합니다.
+ */
+
+/**
+ * 위경도 좌표 (WGS84)
+ */
+export interface GeoPosition {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * 반경이 있는 검색 영역 (지도 화면 기준 검색 등)
+ */
+export interface GeoArea extends GeoPosition {
+  /** 반경 (미터) */
+  radius: number;
+}
+
+/**
+ * 지구 반지름 (미터)
+ */
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * 두 좌표 사이의 거리 계산 (Haversine 공식)
+ *
+ * @param from - 시작 좌표
+ * @param to - 도착 좌표
+ * @returns 거리 (미터)
+ */
+export function getDistanceMeters(from: GeoPosition, to: GeoPosition): number {
+  const toRadians = (degree: number) => (degree * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
+/**
+ * 현재 위치 조회
+ *
+ * @param options - Geolocation API 옵션
+ * @returns 현재 위치 좌표
+ * @throws {Error} 위치 서비스 미지원, 권한 거부, 위치 정보 없음, 시간 초과
+ */
+export function getCurrentPosition(
+  options: PositionOptions = {
+    enableHighAccuracy: true,
+    timeout: 10000,
+    maximumAge: 0,
+  },
+): Promise<GeoPosition> {
+  return new Promise((resolve, reject) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      const error = new Error("이 브라우저는 위치 서비스를 지원하지 않습니다");
+      console.error("[Geolocation]", error.message);
+      reject(error);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const { latitude, longitude } = position.coords;
+        console.log("[Geolocation] 현재 위치:", { latitude, longitude });
+        resolve({ lat: latitude, lng: longitude });
+      },
+      (error) => {
+        console.error("[Geolocation] 위치 가져오기 실패:", error);
+        let errorMessage = "위치를 가져올 수 없습니다.";
+
+        switch (error.code) {
+          case error.PERMISSION_DENIED:
+            errorMessage = "위치 권한이 거부되었습니다.";
+            break;
+          case error.POSITION_UNAVAILABLE:
+            errorMessage = "위치 정보를 사용할 수 없습니다.";
+            break;
+          case error.TIMEOUT:
+            errorMessage = "위치 요청 시간이 초과되었습니다.";
+            break;
+        }
+
+        reject(new Error(errorMessage));
+      },
+      options,
+    );
+  });
+}
@@ -0,0 +1,183 @@
+/**
+ * @file home-search-params.ts
+ * @description 홈페이지 URL 쿼리스트링 변환 유틸리티
+ *
+ * 홈페이지의 필터, 검색어, 정렬, 페이지, 북마크 필터 상태를
+ * URL 쿼리스트링과 서로 변환하는 함수를 제공합니다.
+ * 서버 컴포넌트(searchParams)와 클라이언트(URLSearchParams)에서 함께 사용합니다.
+ *
+ * 쿼리 파라미터:
+ * - area, sigungu, type, cat1, cat2, cat3: 지역/타입/분류 필터
+ * - q: 검색 키워드
+ * - sort: 정렬 옵션 (latest, name)
+ * - page: 페이지 번호 (1 이상)
+ * - pet, petSize, petType, petPlace: 반려동물 필터
+ * - from, to: 행사 기간 (YYYYMMDD)
+ * - open: 지금 영업 중 필터
+ * - bookmark: 북마크 필터
+ * - collection: 북마크 필터의 컬렉션 ID (bookmark=1일 때만)
+ *
+ * 예: /?area=1&type=12&q=궁&sort=name&page=3&pet=1
+ */
+
+import type { TourFilterState } from "@/lib/types/tour";
+import type { SortOption } from "@/lib/utils/tour-sorter";
+
+/**
+ * 홈페이지 URL 상태 타입
+ */
+export interface HomeUrlState {
+  filters: TourFilterState;
+  keyword: string;
+  sortOption: SortOption;
+  pageNo: number;
+  isBookmarkFilterActive: boolean;
+  /** 북마크 필터에서 선택한 컬렉션 ID (없으면 전체 북마크) */
+  bookmarkCollectionId?: string;
+}
+
+/**
+ * Next.js 페이지의 searchParams 타입
+ */
+export type HomeSearchParamsRecord = Record<
+  string,
+  string | string[] | undefined
+>;
+
+/**
+ * 파라미터 값 가져오기 (배열이면 첫 번째 값 사용, 빈 문자열은 undefined)
+ */
+function getParam(
+  params: URLSearchParams | HomeSearchParamsRecord,
+  key: string,
+): string | undefined {
+  const value =
+    params instanceof URLSearchParams ? params.get(key) : params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  const trimmed = first?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * 허용된 값인지 확인
+ */
+function pickOption<T extends string>(
+  value: string | undefined,
+  options: readonly T[],
+): T | undefined {
+  return options.find((option) => option === value);
+}
+
+/**
+ * 쿼리스트링을 홈페이지 상태로 변환
+ *
+ * 잘못된 값은 무시하고 기본값을 사용합니다.
+ * 통계 페이지에서 사용하던 areaCode, contentTypeId 파라미터도 지원합니다.
+ *
+ * @param params - URLSearchParams 또는 페이지 searchParams 객체
+ * @returns 홈페이지 상태
+ */
+export function parseHomeSearchParams(
+  params: URLSearchParams | HomeSearchParamsRecord,
+): HomeUrlState {
+  const areaCode = getParam(params, "area") ?? getParam(params, "areaCode");
+  const cat1 = getParam(params, "cat1");
+  const cat2 = cat1 ? getParam(params, "cat2") : undefined;
+  const petFriendly = getParam(params, "pet") === "1";
+  const page = Number(getParam(params, "page"));
+  const isBookmarkFilterActive = getParam(params, "bookmark") === "1";
+
+  const filters: TourFilterState = {
+    areaCode,
+    sigunguCode: areaCode ? getParam(params, "sigungu") : undefined,
+    contentTypeId:
+      getParam(params, "type") ?? getParam(params, "contentTypeId"),
+    cat1,
+    cat2,
+    cat3: cat2 ? getParam(params, "cat3") : undefined,
+    petFriendly: petFriendly || undefined,
+    petSize: petFriendly
+      ? pickOption(getParam(params, "petSize"), [
+          "small",
+          "medium",
+          "large",
+        ] as const)
+      : undefined,
+    petType: petFriendly
+      ? pickOption(getParam(params, "petType"), ["dog", "cat"] as const)
+      : undefined,
+    petPlace: petFriendly
+      ? pickOption(getParam(params, "petPlace"), ["indoor", "outdoor"] as const)
+      : undefined,
+    eventStartDate: getParam(params, "from"),
+    eventEndDate: getParam(params, "to"),
+    openNow: getParam(params, "open") === "1" || undefined,
+  };
+
+  // undefined 필드 제거 (상태 비교 시 불필요한 차이 방지)
+  const cleanedFilters = Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined),
+  ) as TourFilterState;
+
+  return {
+    filters: cleanedFilters,
+    keyword: getParam(params, "q") ?? "",
+    // 거리순은 내 주변 모드 전용이므로 URL에서 복원하지 않음
+    sortOption:
+      pickOption(getParam(params, "sort"), ["latest", "name"] as const) ??
+      "latest",
+    pageNo: Number.isInteger(page) && page > 1 ? page : 1,
+    isBookmarkFilterActive,
+    bookmarkCollectionId: isBookmarkFilterActive
+      ? getParam(params, "collection")
+      : undefined,
+  };
+}
+
+/**
+ * 홈페이지 상태를 쿼리스트링으로 변환
+ *
+ * 기본값과 같은 항목은 생략하여 URL을 짧게 유지합니다.
+ *
+ * @param state - 홈페이지 상태
+ * @returns 쿼리스트링 ("?" 제외, 상태가 기본값이면 빈 문자열)
+ */
+export function buildHomeSearchParams(state: HomeUrlState): string {
+  const { filters } = state;
+  const params = new URLSearchParams();
+
+  const entries: Array<[string, string | undefined]> = [
+    ["area", filters.areaCode],
+    ["sigungu", filters.areaCode ? filters.sigunguCode : undefined],
+    ["type", filters.contentTypeId],
+    ["cat1", filters.cat1],
+    ["cat2", filters.cat1 ? filters.cat2 : undefined],
+    ["cat3", filters.cat1 && filters.cat2 ? filters.cat3 : undefined],
+    ["from", filters.eventStartDate],
+    ["to", filters.eventEndDate],
+    ["q", state.keyword.trim() || undefined],
+    [
+      "sort",
+      state.sortOption === "name" ? state.sortOption : undefined, // 최신순(기본값)과 거리순은 생략
+    ],
+    ["page", state.pageNo > 1 ? String(state.pageNo) : undefined],
+    ["pet", filters.petFriendly ? "1" : undefined],
+    ["petSize", filters.petFriendly ? filters.petSize : undefined],
+    ["petType", filters.petFriendly ? filters.petType : undefined],
+    ["petPlace", filters.petFriendly ? filters.petPlace : undefined],
+    ["open", filters.openNow ? "1" : undefined],
+    ["bookmark", state.isBookmarkFilterActive ? "1" : undefined],
+    [
+      "collection",
+      state.isBookmarkFilterActive ? state.bookmarkCollectionId : undefined,
+    ],
+  ];
+
+  entries.forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+
+  return params.toString();
+}
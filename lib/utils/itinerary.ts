@@ -0,0 +1,384 @@
+/**
+ * @file itinerary.ts
+ * @description 여행 일정 유틸리티
+ *
+ * 여행 일정 만들기에 쓰는 상수와 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 시간대 순서 및 표시 이름
+ * 2. 여행 기간 검증, 날짜별 탭 목록(1일차, 2일차, ...) 및 기간 표시 문자열
+ * 3. 일정 정렬 (날짜 → 시간대 → 순서) 및 날짜별 일정
+ * 4. 관광지(TourItem)를 일정 입력으로 변환, 일정 좌표 변환
+ * 5. 하루 동선 최적화 (시간대 순서는 유지하고 시간대 안의 방문 순서만 변경)
+ *
+ * @see {@link /supabase/migrations/itineraries.sql} - 여행 일정 스키마
+ */
+
+import type {
+  ItineraryInput,
+  ItineraryStop,
+  ItineraryStopInput,
+  ItineraryStopPlacement,
+  ItineraryTimeSlot,
+} from "@/lib/types/itinerary";
+import type { TourItem } from "@/lib/types/tour";
+import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
+import type { GeoPosition } from "@/lib/utils/geolocation";
+import {
+  getRouteDistance,
+  optimizeRoute,
+  type RouteOptions,
+} from "@/lib/utils/route-optimizer";
+
+/** 여행 최대 기간 (DB 제약과 동일) */
+export const MAX_TRIP_DAYS = 30;
+
+/** 여행 제목 최대 길이 (DB 제약과 동일) */
+export const MAX_TRIP_TITLE_LENGTH = 60;
+
+/** 일정 제목 최대 길이 (DB 제약과 동일) */
+export const MAX_STOP_TITLE_LENGTH = 100;
+
+/** 일정 메모 최대 길이 (DB 제약과 동일) */
+export const MAX_STOP_NOTE_LENGTH = 200;
+
+/** 하루 (밀리초) */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 요일 표시 이름 (일요일부터) */
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+/** 시간대 순서 (하루 안에서 일정이 놓이는 순서) */
+export const ITINERARY_TIME_SLOTS: ItineraryTimeSlot[] = [
+  "morning",
+  "lunch",
+  "afternoon",
+  "dinner",
+  "evening",
+];
+
+/** 시간대 표시 이름 */
+export const ITINERARY_TIME_SLOT_LABELS: Record<ItineraryTimeSlot, string> = {
+  morning: "오전",
+  lunch: "점심",
+  afternoon: "오후",
+  dinner: "저녁",
+  evening: "밤",
+};
+
+/**
+ * 여행 날짜 탭 항목
+ */
+export interface TripDay {
+  /** 몇째 날인지 (0: 시작일) */
+  index: number;
+  /** 날짜 (YYYY-MM-DD) */
+  date: string;
+  /** 표시 이름 (예: "1일차") */
+  label: string;
+  /** 날짜 표시 (예: "12.20 (토)") */
+  dateLabel: string;
+}
+
+/**
+ * 하루 동선 최적화 결과
+ */
+export interface DayRouteResult {
+  /** 최적화한 순서의 하루 일정 (position은 시간대 안의 새 순서) */
+  stops: ItineraryStop[];
+  /** 순서가 바뀐 시간대별 일정 ID 목록 (저장할 때 사용) */
+  changes: Array<{ placement: ItineraryStopPlacement; stopIds: string[] }>;
+  /** 기존 순서의 이동 거리 (미터, 직선 거리) */
+  originalDistanceMeters: number;
+  /** 최적화한 순서의 이동 거리 (미터, 직선 거리) */
+  distanceMeters: number;
+}
+
+/**
+ * YYYY-MM-DD 날짜를 UTC 자정 기준 밀리초로 변환
+ */
+function parseTripDate(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * 여행 기간 일수 계산 (시작일, 종료일 포함)
+ *
+ * @param startDate - 시작일 (YYYY-MM-DD)
+ * @param endDate - 종료일 (YYYY-MM-DD)
+ * @returns 일수 (날짜 형식이 올바르지 않거나 종료일이 시작일보다 앞서면 0)
+ */
+export function getTripDayCount(startDate: string, endDate: string): number {
+  const start = parseTripDate(startDate);
+  const end = parseTripDate(endDate);
+  if (start === null || end === null || end < start) {
+    return 0;
+  }
+  return Math.round((end - start) / DAY_MS) + 1;
+}
+
+/**
+ * 날짜를 일 단위로 옮기기
+ *
+ * @param date - 기준 날짜 (YYYY-MM-DD)
+ * @param days - 옮길 일수 (음수면 이전 날짜)
+ * @returns 옮긴 날짜 (YYYY-MM-DD, 형식이 올바르지 않으면 기준 날짜 그대로)
+ */
+export function shiftTripDate(date: string, days: number): string {
+  const time = parseTripDate(date);
+  if (time === null) {
+    return date;
+  }
+  return new Date(time + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * 여행 입력 검증
+ *
+ * @param input - 여행 제목과 기간
+ * @returns 에러 메시지 (올바르면 null)
+ */
+export function validateItineraryInput(input: ItineraryInput): string | null {
+  const title = input.title.trim();
+  if (!title) {
+    return "여행 제목을 입력하세요.";
+  }
+  if (title.length > MAX_TRIP_TITLE_LENGTH) {
+    return `여행 제목은 ${MAX_TRIP_TITLE_LENGTH}자까지 입력할 수 있습니다.`;
+  }
+
+  const dayCount = getTripDayCount(input.start_date, input.end_date);
+  if (dayCount === 0) {
+    return "여행 기간을 확인하세요. 종료일은 시작일 이후여야 합니다.";
+  }
+  if (dayCount > MAX_TRIP_DAYS) {
+    return `여행 기간은 최대 ${MAX_TRIP_DAYS}일입니다.`;
+  }
+  return null;
+}
+
+/**
+ * 여행 날짜 탭 목록 생성
+ *
+ * @param input - 여행 기간
+ * @returns 날짜별 탭 항목 (기간이 올바르지 않으면 빈 배열)
+ */
+export function getTripDays(
+  input: Pick<ItineraryInput, "start_date" | "end_date">,
+): TripDay[] {
+  const start = parseTripDate(input.start_date);
+  const dayCount = Math.min(
+    getTripDayCount(input.start_date, input.end_date),
+    MAX_TRIP_DAYS,
+  );
+  if (start === null) {
+    return [];
+  }
+
+  return Array.from({ length: dayCount }, (_, index) => {
+    const date = new Date(start + index * DAY_MS);
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    return {
+      index,
+      date: date.toISOString().slice(0, 10),
+      label: `${index + 1}일차`,
+      dateLabel: `${month}.${day} (${WEEKDAY_LABELS[date.getUTCDay()]})`,
+    };
+  });
+}
+
+/**
+ * 여행 기간 표시 문자열 생성
+ *
+ * @param input - 여행 기간
+ * @returns "YYYY.MM.DD ~ YYYY.MM.DD · N박 M일" 형식 문자열 (당일치기는 "당일치기")
+ */
+export function formatTripPeriod(
+  input: Pick<ItineraryInput, "start_date" | "end_date">,
+): string {
+  const dayCount = getTripDayCount(input.start_date, input.end_date);
+  const start = input.start_date.replace(/-/g, ".");
+  if (dayCount <= 1) {
+    return `${start} · 당일치기`;
+  }
+  const end = input.end_date.replace(/-/g, ".");
+  return `${start} ~ ${end} · ${dayCount - 1}박 ${dayCount}일`;
+}
+
+/**
+ * 일정 정렬 (날짜 → 시간대 → 순서)
+ *
+ * @param stops - 일정 목록
+ * @returns 정렬한 새 배열
+ */
+export function sortItineraryStops(stops: ItineraryStop[]): ItineraryStop[] {
+  return [...stops].sort(
+    (a, b) =>
+      a.day_index - b.day_index ||
+      ITINERARY_TIME_SLOTS.indexOf(a.time_slot) -
+        ITINERARY_TIME_SLOTS.indexOf(b.time_slot) ||
+      a.position - b.position ||
+      a.created_at.localeCompare(b.created_at),
+  );
+}
+
+/**
+ * 하루의 일정 (시간대 → 순서로 정렬)
+ *
+ * @param stops - 여행의 전체 일정
+ * @param dayIndex - 몇째 날인지 (0: 시작일)
+ * @returns 해당 날짜의 일정
+ */
+export function getDayStops(
+  stops: ItineraryStop[],
+  dayIndex: number,
+): ItineraryStop[] {
+  return sortItineraryStops(
+    stops.filter((stop) => stop.day_index === dayIndex),
+  );
+}
+
+/**
+ * 일정의 지도 좌표
+ *
+ * @param stop - 일정 (관광지 좌표 원문 포함)
+ * @returns 위경도 좌표 (자유 일정이거나 좌표가 올바르지 않으면 null)
+ */
+export function getStopPosition(
+  stop: Pick<ItineraryStop, "mapx" | "mapy">,
+): GeoPosition | null {
+  if (!stop.mapx || !stop.mapy) {
+    return null;
+  }
+  try {
+    return convertTourCoordinates(stop.mapx, stop.mapy);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 관광지를 일정 입력으로 변환
+ *
+ * @param tour - 관광지 정보 (북마크 스냅샷 또는 검색 결과)
+ * @param placement - 추가할 날짜/시간대
+ * @returns 일정 입력
+ */
+export function tourToStopInput(
+  tour: TourItem,
+  placement: ItineraryStopPlacement,
+): ItineraryStopInput {
+  return {
+    ...placement,
+    content_id: tour.contentid,
+    content_type_id: tour.contenttypeid || null,
+    title: tour.title.slice(0, MAX_STOP_TITLE_LENGTH),
+    addr1: tour.addr1 || null,
+    mapx: tour.mapx || null,
+    mapy: tour.mapy || null,
+    first_image: tour.firstimage2 || tour.firstimage || null,
+    note: null,
+  };
+}
+
+/**
+ * 하루 일정의 이동 거리 (위치가 있는 일정만, 출발지/도착지 포함)
+ *
+ * @param dayStops - 표시 순서대로 정렬한 하루 일정
+ * @param options - 고정 출발지/도착지 (예: 숙소)
+ * @returns 이동 거리 (미터, 직선 거리)
+ */
+export function getDayRouteDistance(
+  dayStops: ItineraryStop[],
+  options: RouteOptions = {},
+): number {
+  return getRouteDistance(
+    dayStops.flatMap((stop) => getStopPosition(stop) ?? []),
+    options,
+  );
+}
+
+/**
+ * 하루 동선 최적화
+ *
+ * 점심/저녁처럼 시간대에 묶인 일정이 다른 시간대로 옮겨지지 않도록
+ * 시간대 순서는 그대로 두고 시간대 안의 방문 순서만 바꿉니다.
+ * 각 시간대는 앞 시간대의 마지막 방문지(첫 시간대는 출발지)에서 출발하고,
+ * 위치가 있는 마지막 시간대만 도착지로 끝나도록 최적화합니다.
+ * 위치가 없는 자유 일정은 시간대 안의 자리를 그대로 유지합니다.
+ *
+ * @param dayStops - 표시 순서대로 정렬한 하루 일정
+ * @param options - 고정 출발지/도착지 (예: 숙소, 같은 곳이면 왕복)
+ * @returns 최적화한 일정, 바뀐 시간대, 기존/최적화 이동 거리
+ */
+export function optimizeDayStops(
+  dayStops: ItineraryStop[],
+  options: RouteOptions = {},
+): DayRouteResult {
+  const slots = ITINERARY_TIME_SLOTS.map((slot) =>
+    dayStops.filter((stop) => stop.time_slot === slot),
+  );
+  const lastLocatedSlot = slots.findLastIndex((slotStops) =>
+    slotStops.some((stop) => getStopPosition(stop)),
+  );
+
+  let anchor = options.start ?? null;
+  const stops: ItineraryStop[] = [];
+  const changes: DayRouteResult["changes"] = [];
+
+  slots.forEach((slotStops, slotIndex) => {
+    const located = slotStops.flatMap((stop) => {
+      const position = getStopPosition(stop);
+      return position ? [{ stop, position }] : [];
+    });
+    const { order } = optimizeRoute(
+      located.map(({ position }) => position),
+      {
+        start: anchor,
+        end: slotIndex === lastLocatedSlot ? options.end : null,
+      },
+    );
+
+    // 위치가 있는 일정 자리에 최적화한 순서대로 채움
+    const optimized = order.map((index) => located[index].stop);
+    let next = 0;
+    const reordered = slotStops.map((stop) =>
+      getStopPosition(stop) ? optimized[next++] : stop,
+    );
+
+    if (reordered.some((stop, index) => stop.id !== slotStops[index].id)) {
+      changes.push({
+        placement: {
+          day_index: slotStops[0].day_index,
+          time_slot: slotStops[0].time_slot,
+        },
+        stopIds: reordered.map((stop) => stop.id),
+      });
+    }
+    stops.push(...reordered.map((stop, position) => ({ ...stop, position })));
+
+    if (optimized.length > 0) {
+      anchor = getStopPosition(optimized[optimized.length - 1]);
+    }
+  });
+
+  const originalDistanceMeters = getDayRouteDistance(dayStops, options);
+  const distanceMeters = getDayRouteDistance(stops, options);
+
+  // 시간대별로 나눠 최적화하므로 드물게 기존 순서가 더 짧을 수 있음 → 기존 순서 유지
+  if (distanceMeters >= originalDistanceMeters) {
+    return {
+      stops: dayStops,
+      changes: [],
+      originalDistanceMeters,
+      distanceMeters: originalDistanceMeters,
+    };
+  }
+
+  return { stops, changes, originalDistanceMeters, distanceMeters };
+}
@@ -0,0 +1,58 @@
+/**
+ * @file locale.ts
+ * @description 관광 콘텐츠 언어(로케일) 유틸리티
+ *
+ * 한국관광공사는 언어별로 별도의 서비스(KorService2, EngService2, JpnService2, ChsService2)를
+ * 제공합니다. 이 파일은 앱에서 사용하는 로케일 목록과 기본값, 쿠키 이름을 정의합니다.
+ * 서버(Server Action)와 클라이언트(로케일 Provider, 언어 선택기) 모두에서 사용합니다.
+ */
+
+/**
+ * 지원 로케일 목록
+ */
+export const TOUR_LOCALES = ["ko", "en", "ja", "zh"] as const;
+
+/**
+ * 로케일 타입
+ */
+export type TourLocale = (typeof TOUR_LOCALES)[number];
+
+/**
+ * 기본 로케일 (번역 콘텐츠가 없을 때도 이 로케일로 대체)
+ */
+export const DEFAULT_TOUR_LOCALE: TourLocale = "ko";
+
+/**
+ * 로케일 저장 쿠키 이름
+ */
+export const TOUR_LOCALE_COOKIE = "tour-locale";
+
+/**
+ * 로케일 옵션 목록 (언어 선택기에서 사용)
+ */
+export const TOUR_LOCALE_OPTIONS: { value: TourLocale; label: string }[] = [
+  { value: "ko", label: "한국어" },
+  { value: "en", label: "English" },
+  { value: "ja", label: "日本語" },
+  { value: "zh", label: "中文" },
+];
+
+/**
+ * 지원하는 로케일인지 확인
+ *
+ * @param value - 확인할 값
+ * @returns 지원 로케일 여부
+ */
+export function isTourLocale(value: unknown): value is TourLocale {
+  return TOUR_LOCALES.some((locale) => locale === value);
+}
+
+/**
+ * 로케일 정규화 (지원하지 않는 값이면 기본 로케일)
+ *
+ * @param value - 쿠키, 요청 파라미터 등에서 읽은 값
+ * @returns 지원 로케일
+ */
+export function normalizeTourLocale(value: unknown): TourLocale {
+  return isTourLocale(value) ? value : DEFAULT_TOUR_LOCALE;
+}
@@ -8,6 +8,7 @@
  * 1. 관광 타입별 색상 매핑
  * 2. 관광 타입별 아이콘(이모지) 매핑
  * 3. 마커 HTML 생성 함수
+ * 4. 순서 번호 마커 (여행 일정 경로)
  *
  * @see {@link /docs/TODO.md#마커-아이콘-커스터마이징} - TODO 문서의 마커 아이콘 섹션
  */
@@ -130,3 +131,43 @@ export function createMarkerIcon(
     anchor: new naverMaps.Point(anchorX, anchorY),
   };
 }
+
+/**
+ * 순서 번호 마커 아이콘 옵션 생성 (여행 일정 경로용)
+ *
+ * @param order - 표시할 순서 번호 (1부터) 또는 짧은 글자 (예: 출발지 "S")
+ * @param naverMaps - Naver Maps API 객체
+ * @param color - 마커 색상 (기본값: #4285f4)
+ * @param size - 마커 크기 (기본값: 28)
+ * @returns Naver Maps 마커 아이콘 옵션
+ */
+export function createNumberedMarkerIcon(
+  order: number | string,
+  naverMaps: typeof naver.maps,
+  color: string = "#4285f4",
+  size: number = 28,
+): naver.maps.MarkerOptions["icon"] {
+  return {
+    content: `
+      <div style="
+        width: ${size}px;
+        height: ${size}px;
+        background-color: ${color};
+        border-radius: 50%;
+        border: 2px solid white;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+        color: white;
+        font-size: ${Math.round(size * 0.45)}px;
+        font-weight: 700;
+        line-height: 1;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        cursor: pointer;
+      ">
+        ${order}
+      </div>
+    `,
+    anchor: new naverMaps.Point(size / 2, size / 2),
+  };
+}
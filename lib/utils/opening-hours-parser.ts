@@ -0,0 +1,1102 @@
+/**
+ * @file opening-hours-parser.ts
+ * @description 운영시간/휴무일 텍스트 파서
+ *
+ * detailIntro2 응답(TourIntro)의 운영시간(usetime, usetimeculture, opentimefood 등)과
+ * 휴무일(restdate, restdatefood 등) 자유 텍스트를 해석해 요일별 운영시간과 예외(OpeningHours)로 바꾸고,
+ * 현재 시각(한국 시간) 기준 영업 상태를 판별합니다.
+ *
+ * 주요 기능:
+ * 1. 운영시간 추출 ("09:00~18:00", "오전 9시~오후 6시", "10:00~익일 02:00", "상시 개방")
+ * 2. 요일별 운영시간 ("평일 10:00~18:00, 주말 10:00~20:00", "수, 토요일 21:00까지")
+ * 3. 입장/주문 마감, 브레이크타임 ("입장 마감 17:00", "브레이크타임 15:00~17:00")
+ * 4. 휴무일 ("매주 월요일", "매월 둘째, 넷째 월요일", "1월 1일", "설·추석 당일")
+ * 5. 계절별 운영시간 ("하절기(3~10월) 09:00~18:00", "동절기 09:00~17:00", "동절기 휴장")
+ * 6. 현재 영업 상태 (영업 중 / 곧 마감 / 영업 종료 / 알 수 없음)
+ *
+ * 주의사항:
+ * - 해석하지 못한 조건("공휴일인 경우 다음날 휴무", "일부 점포 휴무")은 note 예외로 남기고
+ *   영업 상태 판단에는 쓰지 않습니다.
+ * - 공휴일 휴무("일요일 및 공휴일")는 요일 휴무와 따로 closedOnHolidays로 표시하며,
+ *   공휴일 날짜를 알 수 없으므로 영업 상태 판단에는 쓰지 않습니다.
+ * - 설날/추석은 음력 계산 대신 연도별 날짜 표(LUNAR_HOLIDAYS)를 사용합니다.
+ *   표에 없는 연도에는 설날/추석 휴무를 적용하지 않습니다.
+ *
+ * @see {@link /scripts/test-opening-hours-parser.ts} - 실제 문구 코퍼스 테스트
+ */
+
+import type {
+  OpeningHours,
+  OpeningHoursException,
+  OpeningStatus,
+  OpeningTimeRange,
+  TourIntro,
+} from "@/lib/types/tour";
+
+/**
+ * 운영시간 정보가 있는 관광 타입 (관광지, 문화시설, 레포츠, 쇼핑, 음식점)
+ */
+export const OPENING_HOURS_CONTENT_TYPE_IDS = ["12", "14", "28", "38", "39"];
+
+/**
+ * 곧 마감으로 표시할 마감 전 시간 (분)
+ */
+export const CLOSING_SOON_MINUTES = 60;
+
+/** 운영시간 필드 (관광 타입별, 앞에 있는 값 우선) */
+const USETIME_FIELDS = [
+  "usetime",
+  "usetimeculture",
+  "usetimeleports",
+  "opentimefood",
+  "opentime",
+];
+
+/** 휴무일 필드 (관광 타입별, 앞에 있는 값 우선) */
+const RESTDATE_FIELDS = [
+  "restdate",
+  "restdateculture",
+  "restdateleports",
+  "restdatefood",
+  "restdateshopping",
+];
+
+/** 하루 (분) */
+const MINUTES_PER_DAY = 24 * 60;
+
+/** 한국 표준시 (UTC+9, 일광 절약 시간 없음) */
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 요일 글자 (0: 일요일 ~ 6: 토요일) */
+const WEEKDAY_CHARS = "일월화수목금토";
+
+/** 요일 글자 패턴 */
+const DAY = "[일월화수목금토]";
+
+/** 요일 글자 뒤에 올 수 있는 글자 ("월요일", "월요일휴관", "월·화" 등, "일부"/"일출"은 제외) */
+const DAY_END = "(?:요일)?(?=$|[^가-힣]|휴|은|는|에|및|과|와)";
+
+/** 요일 토큰 (앞 글자가 한글/숫자면 요일이 아님: "휴일", "1일", "매월") */
+const DAY_TOKEN_PATTERN = new RegExp(`(^|[^가-힣\\d])(${DAY})${DAY_END}`, "g");
+
+/** 요일 목록 ("월, 화요일", "토·일") */
+const DAY_LIST = `(?:(?:평일|주말|${DAY}${DAY_END})\\s*[,·및~]?\\s*)+`;
+
+/** 운영시간 구간 ("09:00~18:00", "18:00~익일 02:00") */
+const TIME_RANGE_PATTERN =
+  /(\d{1,2}):(\d{2})\s*~\s*(익일|다음\s*날|새벽)?\s*(\d{1,2}):(\d{2})/g;
+
+/** 상시 개방 */
+const ALWAYS_OPEN_PATTERN =
+  /상시|24\s*시간|연중\s*개방|항시\s*개방|00:00\s*~\s*24:00/;
+
+/** 휴무 표현 ("공휴일"은 제외) */
+const CLOSURE_PATTERN =
+  /휴무|휴관|휴장|휴업|정기\s*휴일|(?:^|[^공])휴일|쉼|쉽니다/;
+
+/** 요일별 휴무 ("매주 월요일 휴관", "일요일 및 공휴일 휴무", "공휴일 휴무"의 "일"은 요일이 아님) */
+const DAY_CLOSURE_PATTERN = new RegExp(
+  `(?:^|[^가-힣\\d])(?:매주\\s*)?(${DAY_LIST})\\s*(?:(?:법정\\s*)?공휴일\\s*)?(?:은|는)?\\s*(?:정기\\s*)?(?:휴무|휴관|휴장|휴업|쉼)`,
+  "g",
+);
+
+/** 요일별 마감 시각 ("수, 토요일 21:00까지") */
+const DAY_CLOSE_OVERRIDE_PATTERN = new RegExp(
+  `(${DAY_LIST})\\s*(?:은|는|에는)?\\s*(\\d{1,2}:\\d{2})\\s*까지`,
+  "g",
+);
+
+/** 입장/주문 마감 ("입장 마감 17:00") */
+const LAST_ENTRY_BEFORE_PATTERN =
+  /(?:입장\s*마감|매표\s*마감|마지막\s*입장|입장\s*종료|라스트\s*오더|L\s*\.?\s*O\s*\.?|주문\s*마감)\s*(?:시간)?\s*[:은는]?\s*(\d{1,2}:\d{2})(?:\s*까지)?/gi;
+
+/** 입장/주문 마감 ("17:00 입장 마감") */
+const LAST_ENTRY_AFTER_PATTERN =
+  /(\d{1,2}:\d{2})\s*(?:까지\s*)?(?:입장\s*마감|매표\s*마감|입장\s*종료|라스트\s*오더|주문\s*마감)/gi;
+
+/** 브레이크타임 ("브레이크타임 15:00~17:00") */
+const BREAK_BEFORE_PATTERN =
+  /(?:브레이크\s*타임|브레이크|break\s*time|휴게\s*시간|쉬는\s*시간|준비\s*시간)\s*:?\s*(\d{1,2}:\d{2})\s*~\s*(\d{1,2}:\d{2})/gi;
+
+/** 브레이크타임 ("15:00~17:00 브레이크타임") */
+const BREAK_AFTER_PATTERN =
+  /(\d{1,2}:\d{2})\s*~\s*(\d{1,2}:\d{2})\s*(?:브레이크\s*타임|브레이크|break\s*time|휴게\s*시간|쉬는\s*시간|준비\s*시간)/gi;
+
+/** 계절 표현 (하절기/동절기) */
+const SUMMER_PATTERN = /하절기|하계|여름/;
+const WINTER_PATTERN = /동절기|동계|겨울/;
+
+/** 계절 기본 기간 (월을 명시하지 않은 경우) */
+const SUMMER_MONTHS = [3, 4, 5, 6, 7, 8, 9, 10];
+const WINTER_MONTHS = [11, 12, 1, 2];
+
+/** 월 범위 ("3~10월", "11월~2월") */
+const MONTH_RANGE_PATTERN = /(\d{1,2})\s*월?\s*~\s*(\d{1,2})\s*월/;
+
+/** 계절 휴무 ("동절기 휴장", "동절기(12~2월) 운영 안 함") */
+const SEASON_CLOSURE_PATTERN =
+  /(하절기|하계|여름철?|동절기|동계|겨울철?)\s*(\(?\s*\d{1,2}\s*월?\s*~\s*\d{1,2}\s*월\s*\)?)?\s*(?:중\s*)?(?:휴장|휴무|휴관|미운영|운영\s*안\s*함|운영하지\s*않)/g;
+
+/** 설날/추석 ("설·추석 당일", "설날 및 추석 연휴", "명절 당일") */
+const LUNAR_HOLIDAY_PATTERN =
+  /((?:설날|구정|추석|한가위|명절|설(?![가-힣])|설(?=당일|연휴))(?:\s*[·,/및과]\s*(?:설날|구정|추석|한가위|명절|설(?![가-힣])|설(?=당일|연휴)))*)(?:\s*(?:명절|연휴\s*중)?\s*(당일|연휴|전날|전일|전후|기간))?/g;
+
+/** 날짜 ("1월 1일") */
+const DATE_PATTERN = /(\d{1,2})\s*월\s*(\d{1,2})\s*일/g;
+
+/** 날짜 기간 ("12월 24일~1월 1일", 해석하지 않음) */
+const DATE_PERIOD_PATTERN =
+  /\d{1,2}\s*월\s*\d{1,2}\s*일\s*~\s*(?:\d{1,2}\s*월\s*)?\d{1,2}\s*일/g;
+
+/** 매월 N째 주 요일 ("매월 둘째, 넷째 월요일", "2, 4째주 화요일", "마지막 주 일요일") */
+const ORDINAL =
+  "(?:(?:첫|둘|셋|넷|다섯)\\s*(?:번\\s*)?째|마지막|\\d\\s*(?:번\\s*)?째|\\d)";
+const MONTHLY_PATTERN = new RegExp(
+  `(?:매월|매달)?\\s*(${ORDINAL}(?:\\s*주)?(?:\\s*[,·및/]\\s*${ORDINAL}(?:\\s*주)?)*)\\s*(?:주\\s*)?(${DAY_LIST})`,
+  "g",
+);
+
+/** 서수 단어 → 주차 */
+const ORDINAL_WORDS: Record<string, number> = {
+  첫: 1,
+  둘: 2,
+  셋: 3,
+  넷: 4,
+  다섯: 5,
+  마지막: -1,
+};
+
+/** 해석하지 않고 메모로 남길 표현 */
+const NOTE_PATTERN =
+  /일부|점포|매장|격주|부정기|비정기|변동|상이|문의|홈페이지|별도|공지|공휴일|국경일|대체\s*휴일/;
+
+/**
+ * 공휴일 휴무 ("일요일, 공휴일", "법정공휴일 휴무")
+ *
+ * "공휴일인 경우 다음날", "공휴일 제외", "공휴일 10:00~" 등 조건/운영시간 표현은 제외합니다.
+ */
+const HOLIDAY_CLOSURE_PATTERN =
+  /(^|[^가-힣]|및|과|와)(?:법정\s*)?공휴일(?:\s*(?:은|는))?(?:\s*(?:정기\s*)?(?:휴무|휴관|휴장|휴업|쉼))?(?!\s*(?:인|의|은|는|에|다음|익일|전날|전일|운영|개장|개방|정상|영업|제외|없|\d))/g;
+
+/** 휴무일 해석 후 남아도 되는 표현 */
+const REST_FILLER_PATTERN =
+  /매주|매월|매달|정기적?으로?|휴무일?|휴관일?|휴장일?|휴업|휴일|쉼|쉽니다|입니다|있음|및|요일|연중\s*무휴|무휴|없음|정기|[()[\]·,.~:/\s-]/g;
+
+/**
+ * 설날/추석 날짜 (양력, 당일)
+ *
+ * 음력 계산 대신 연도별 날짜를 사용합니다. 표에 없는 연도는 설날/추석 휴무를 적용하지 않습니다.
+ */
+const LUNAR_HOLIDAYS: Record<
+  number,
+  Record<"seollal" | "chuseok", [number, number]>
+> = {
+  2024: { seollal: [2, 10], chuseok: [9, 17] },
+  2025: { seollal: [1, 29], chuseok: [10, 6] },
+  2026: { seollal: [2, 17], chuseok: [9, 25] },
+  2027: { seollal: [2, 7], chuseok: [9, 15] },
+  2028: { seollal: [1, 27], chuseok: [10, 3] },
+  2029: { seollal: [2, 13], chuseok: [9, 22] },
+  2030: { seollal: [2, 3], chuseok: [9, 12] },
+};
+
+/** 설날/추석 표시 이름 */
+const LUNAR_HOLIDAY_LABELS: Record<"seollal" | "chuseok", string> = {
+  seollal: "설날",
+  chuseok: "추석",
+};
+
+/**
+ * 운영시간 구간 (요일/계절 조건 포함, 파싱 중간 결과)
+ */
+interface ParsedRange {
+  range: OpeningTimeRange;
+  /** 적용 요일 (비어 있으면 모든 요일) */
+  days: number[];
+  /** 적용 월 (계절별 운영시간, null이면 연중) */
+  months: number[] | null;
+  /** 공휴일 전용 운영시간 여부 (영업 상태 판단에 쓰지 않음) */
+  holidayOnly: boolean;
+  /** 원문 구절 */
+  label: string;
+}
+
+/**
+ * 휴무일 파싱 결과
+ */
+interface ParsedRestDays {
+  /** 매주 휴무 요일 */
+  closedDays: number[];
+  /** 공휴일 휴무 여부 */
+  closedOnHolidays: boolean;
+  exceptions: OpeningHoursException[];
+}
+
+/**
+ * "HH:MM" → 분
+ */
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 30 || minutes >= 60) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * 월 범위를 월 목록으로 변환 ("11~2월" → [11, 12, 1, 2])
+ */
+function expandMonths(from: number, to: number): number[] {
+  if (from < 1 || from > 12 || to < 1 || to > 12) {
+    return [];
+  }
+  const months: number[] = [];
+  for (let month = from; ; month = (month % 12) + 1) {
+    months.push(month);
+    if (month === to || months.length >= 12) {
+      return months;
+    }
+  }
+}
+
+/**
+ * 월 범위/계절 표현에서 적용 월 추출 (없으면 null)
+ */
+function parseMonths(text: string): number[] | null {
+  const range = MONTH_RANGE_PATTERN.exec(text);
+  if (range) {
+    const months = expandMonths(Number(range[1]), Number(range[2]));
+    if (months.length > 0) {
+      return months;
+    }
+  }
+  if (SUMMER_PATTERN.test(text)) {
+    return SUMMER_MONTHS;
+  }
+  if (WINTER_PATTERN.test(text)) {
+    return WINTER_MONTHS;
+  }
+  return null;
+}
+
+/**
+ * 텍스트 정규화 (HTML 태그, 물결표/쌍점 변형, 한글 시각 표현)
+ */
+function normalizeText(text: string): string {
+  return (
+    text
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/&nbsp;/gi, " ")
+      .replace(/&amp;/gi, "&")
+      .replace(/[～〜∼–—]/g, "~")
+      .replace(/：/g, ":")
+      .replace(/（/g, "(")
+      .replace(/）/g, ")")
+      .replace(/[ㆍ・•‧]/g, "·")
+      .replace(/(\d{1,2})\s*:\s*(\d{2})/g, "$1:$2")
+      // "오후 6:30" → "18:30"
+      .replace(
+        /(오전|오후)\s*(\d{1,2}):(\d{2})/g,
+        (_, period: string, hours: string, minutes: string) =>
+          `${toDayHours(period, Number(hours))}:${minutes}`,
+      )
+      // "오전 9시 30분", "오후 6시", "10시 반" → "HH:MM" ("24시간"/"2시간"은 제외)
+      .replace(
+        /(오전|오후|낮|밤|새벽)?\s*(\d{1,2})\s*시(?!간)\s*(?:(\d{1,2})\s*분|(반))?/g,
+        (
+          _,
+          period: string | undefined,
+          hours: string,
+          minutes: string | undefined,
+          half: string | undefined,
+        ) => {
+          const hh = toDayHours(period, Number(hours));
+          const mm = half ? 30 : Number(minutes ?? 0);
+          return `${period ? " " : ""}${String(hh).padStart(2, "0")}:${String(mm).padStart(2, "0")}`;
+        },
+      )
+      .replace(/(\d{1,2}:\d{2})\s*부터\s*(\d{1,2}:\d{2})\s*까지/g, "$1~$2")
+      .replace(/(\d{1,2}:\d{2})\s*-\s*(?=\d|익일|새벽)/g, "$1~")
+      .replace(new RegExp(`(${DAY})(요일)?\\s*-\\s*(${DAY})`, "g"), "$1$2~$3")
+      .replace(/[ \t]+/g, " ")
+  );
+}
+
+/**
+ * 오전/오후 표현을 24시간제 시로 변환
+ */
+function toDayHours(period: string | undefined, hours: number): number {
+  if ((period === "오후" || period === "밤") && hours < 12) {
+    return hours + 12;
+  }
+  if ((period === "오전" || period === "새벽") && hours === 12) {
+    return 0;
+  }
+  return hours;
+}
+
+/**
+ * 절 단위로 나누기 (줄바꿈, " / ", 세미콜론)
+ */
+function splitClauses(text: string): string[] {
+  return text
+    .split(/\n|\s\/\s|;|\s\|\s/)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 요일 표현 해석 ("평일", "주말", "월~금", "토·일", "월, 수요일")
+ *
+ * @returns 요일 목록 (0: 일요일 ~ 6: 토요일, 요일 표현이 없으면 빈 배열)
+ */
+function parseWeekdays(text: string): number[] {
+  const days = new Set<number>();
+  if (/매일|모든\s*요일|전\s*요일/.test(text)) {
+    return [0, 1, 2, 3, 4, 5, 6];
+  }
+  if (/평일/.test(text)) {
+    [1, 2, 3, 4, 5].forEach((day) => days.add(day));
+  }
+  if (/주말/.test(text)) {
+    [0, 6].forEach((day) => days.add(day));
+  }
+
+  const tokens = [...text.matchAll(DAY_TOKEN_PATTERN)];
+  tokens.forEach((token, index) => {
+    const day = WEEKDAY_CHARS.indexOf(token[2]);
+    days.add(day);
+
+    // "월~금"처럼 범위로 이어진 요일 채우기
+    const previous = tokens[index - 1];
+    if (previous) {
+      const between = text.slice(
+        previous.index! + previous[0].length,
+        token.index! + token[1].length,
+      );
+      if (/^\s*~\s*$/.test(between)) {
+        const from = WEEKDAY_CHARS.indexOf(previous[2]);
+        for (let current = from; current !== day; current = (current + 1) % 7) {
+          days.add(current);
+        }
+      }
+    }
+  });
+
+  return [...days].sort((a, b) => a - b);
+}
+
+/**
+ * 요일 목록 표시 문자열 ("월·수·금")
+ */
+function formatWeekdays(days: number[]): string {
+  return days.map((day) => WEEKDAY_CHARS[day]).join("·");
+}
+
+/**
+ * 서수 목록 해석 ("둘째, 넷째" → [2, 4], "2, 4째주" → [2, 4])
+ */
+function parseOrdinals(text: string): number[] {
+  const weeks = new Set<number>();
+  for (const match of text.matchAll(/(첫|둘|셋|넷|다섯|마지막)|(\d)/g)) {
+    const week = match[1] ? ORDINAL_WORDS[match[1]] : Number(match[2]);
+    if (week === -1 || (week >= 1 && week <= 5)) {
+      weeks.add(week);
+    }
+  }
+  return [...weeks];
+}
+
+/**
+ * 주차 표시 문자열 ([2, 4] → "둘째·넷째")
+ */
+function formatWeeks(weeks: number[]): string {
+  const names = ["", "첫째", "둘째", "셋째", "넷째", "다섯째"];
+  return weeks.map((week) => (week === -1 ? "마지막" : names[week])).join("·");
+}
+
+/**
+ * 휴무일 텍스트 해석
+ *
+ * @param text - 휴무일 문구 (restdate, 운영시간 문구 속 휴무 표현)
+ * @returns 매주 휴무 요일과 예외
+ */
+function parseRestDays(text: string): ParsedRestDays {
+  const closedDays = new Set<number>();
+  const exceptions: OpeningHoursException[] = [];
+  let closedOnHolidays = false;
+  const addNote = (label: string) => {
+    const trimmed = label.replace(/^[\s,·()]+|[\s,·()]+$/g, "");
+    if (trimmed) {
+      exceptions.push({ type: "note", label: trimmed });
+    }
+  };
+
+  // 공휴일 휴무는 요일 목록과 따로 해석 ("일요일 및 공휴일" → 일요일 + 공휴일)
+  const withoutHolidays = normalizeText(text).replace(
+    HOLIDAY_CLOSURE_PATTERN,
+    (_, prefix: string) => {
+      closedOnHolidays = true;
+      return `${prefix} `;
+    },
+  );
+
+  // 괄호 속 조건: 해석할 수 없는 조건은 메모로, 나머지는 괄호만 제거
+  const unwrapped = withoutHolidays.replace(
+    /\(([^)]*)\)/g,
+    (_, content: string) => {
+      if (
+        NOTE_PATTERN.test(content) ||
+        /다음\s*날|익일|경우|제외/.test(content)
+      ) {
+        addNote(content);
+        return " ";
+      }
+      return ` ${content} `;
+    },
+  );
+
+  for (const clause of splitClauses(unwrapped)) {
+    if (NOTE_PATTERN.test(clause)) {
+      addNote(clause);
+      continue;
+    }
+
+    let rest = clause.replace(/연중\s*무휴|휴무\s*없음|연중\s*개방/g, " ");
+
+    // 계절 휴무 ("동절기 휴장")
+    rest = rest.replace(SEASON_CLOSURE_PATTERN, (match: string) => {
+      const months = parseMonths(match);
+      if (months) {
+        exceptions.push({
+          type: "season",
+          months,
+          ranges: [],
+          label: match.replace(/\s+/g, " ").trim(),
+        });
+      }
+      return " ";
+    });
+
+    // 설날/추석
+    rest = rest.replace(
+      LUNAR_HOLIDAY_PATTERN,
+      (_, names: string, qualifier: string | undefined) => {
+        const days =
+          qualifier === "전날" || qualifier === "전일"
+            ? [-1]
+            : qualifier === "연휴" ||
+                qualifier === "전후" ||
+                qualifier === "기간"
+              ? [-1, 0, 1]
+              : [0];
+        const holidays = new Set<"seollal" | "chuseok">();
+        if (/설|구정|명절/.test(names)) {
+          holidays.add("seollal");
+        }
+        if (/추석|한가위|명절/.test(names)) {
+          holidays.add("chuseok");
+        }
+        const suffix =
+          days.length > 1 ? "연휴" : days[0] === -1 ? "전날" : "당일";
+        holidays.forEach((holiday) => {
+          exceptions.push({
+            type: "lunar_holiday",
+            holiday,
+            days,
+            label: `${LUNAR_HOLIDAY_LABELS[holiday]} ${suffix} 휴무`,
+          });
+        });
+        return " ";
+      },
+    );
+
+    // 날짜 기간은 해석하지 않음
+    rest = rest.replace(DATE_PERIOD_PATTERN, (match: string) => {
+      addNote(`${match} 휴무`);
+      return " ";
+    });
+
+    // 매년 같은 날짜
+    rest = rest
+      .replace(/신정/g, " 1월 1일 ")
+      .replace(/성탄절|크리스마스/g, " 12월 25일 ")
+      .replace(DATE_PATTERN, (match: string, month: string, day: string) => {
+        const m = Number(month);
+        const d = Number(day);
+        if (m >= 1 && m <= 12 && d >= 1 && d <= 31) {
+          exceptions.push({
+            type: "date",
+            month: m,
+            day: d,
+            label: `${m}월 ${d}일 휴무`,
+          });
+          return " ";
+        }
+        return match;
+      });
+
+    // 매월 N째 주 요일
+    rest = rest.replace(
+      MONTHLY_PATTERN,
+      (match: string, ordinals: string, dayList: string) => {
+        // "1월"처럼 서수 표시(째/주/마지막)가 없는 숫자는 주차가 아님
+        if (!/째|마지막|\d\s*주/.test(ordinals)) {
+          return match;
+        }
+        const weeks = parseOrdinals(ordinals);
+        const days = parseWeekdays(dayList);
+        if (weeks.length === 0 || days.length === 0) {
+          return match;
+        }
+        days.forEach((weekday) => {
+          exceptions.push({
+            type: "monthly",
+            weekday,
+            weeks,
+            label: `매월 ${formatWeeks(weeks)} ${WEEKDAY_CHARS[weekday]}요일 휴무`,
+          });
+        });
+        return " ";
+      },
+    );
+
+    // 매주 요일
+    parseWeekdays(rest).forEach((day) => closedDays.add(day));
+    rest = rest.replace(DAY_TOKEN_PATTERN, "$1").replace(/평일|주말/g, " ");
+
+    // 해석하고 남은 내용이 있으면 메모로 남김
+    const residue = rest.replace(REST_FILLER_PATTERN, "");
+    if (/[가-힣]{2,}|\d/.test(residue)) {
+      addNote(clause);
+    }
+  }
+
+  return { closedDays: [...closedDays], closedOnHolidays, exceptions };
+}
+
+/**
+ * 운영시간 텍스트 해석
+ *
+ * @param text - 운영시간 문구
+ * @returns 운영시간 구간, 입장 마감, 요일별 마감 시각, 브레이크타임, 문구 속 휴무 표현
+ */
+function parseUseTime(text: string) {
+  let normalized = normalizeText(text);
+  let lastEntry: number | null = null;
+  const breaks: OpeningTimeRange[] = [];
+  const overrides: Array<{ days: number[]; close: number }> = [];
+  const restTexts: string[] = [];
+  const ranges: ParsedRange[] = [];
+
+  const setLastEntry = (time: string) => {
+    lastEntry ??= toMinutes(time);
+    return " ";
+  };
+  normalized = normalized
+    .replace(LAST_ENTRY_BEFORE_PATTERN, (_, time: string) => setLastEntry(time))
+    .replace(
+      LAST_ENTRY_AFTER_PATTERN,
+      (match: string, time: string, offset: number, source: string) =>
+        // "09:00~18:00 입장 마감"의 닫는 시각은 제외
+        /~\s*$/.test(source.slice(0, offset)) ? match : setLastEntry(time),
+    );
+
+  const addBreak = (from: string, to: string) => {
+    const open = toMinutes(from);
+    const close = toMinutes(to);
+    if (open !== null && close !== null && close > open) {
+      breaks.push({ open, close });
+    }
+    return " ";
+  };
+  normalized = normalized
+    .replace(BREAK_BEFORE_PATTERN, (_, from: string, to: string) =>
+      addBreak(from, to),
+    )
+    .replace(BREAK_AFTER_PATTERN, (_, from: string, to: string) =>
+      addBreak(from, to),
+    );
+
+  normalized = normalized.replace(
+    DAY_CLOSE_OVERRIDE_PATTERN,
+    (match: string, dayList: string, time: string) => {
+      const days = parseWeekdays(dayList);
+      const close = toMinutes(time);
+      if (days.length === 0 || close === null) {
+        return match;
+      }
+      overrides.push({ days, close });
+      return " ";
+    },
+  );
+
+  normalized = normalized.replace(DAY_CLOSURE_PATTERN, (match: string) => {
+    restTexts.push(match);
+    return " ";
+  });
+
+  // 요일 없이 쓴 공휴일 휴무 ("공휴일 휴무", 운영시간 문구에서는 휴무 표현이 있을 때만)
+  normalized = normalized.replace(
+    HOLIDAY_CLOSURE_PATTERN,
+    (match: string, prefix: string) => {
+      if (!/휴무|휴관|휴장|휴업|쉼/.test(match)) {
+        return match;
+      }
+      restTexts.push(match);
+      return `${prefix} `;
+    },
+  );
+
+  for (const clause of splitClauses(normalized)) {
+    const matches = [...clause.matchAll(TIME_RANGE_PATTERN)];
+
+    // 시간이 없는 휴무 문구는 휴무일로 해석
+    if (matches.length === 0) {
+      if (CLOSURE_PATTERN.test(clause)) {
+        restTexts.push(clause);
+      }
+      continue;
+    }
+
+    let cursor = 0;
+    let previous: Omit<ParsedRange, "range" | "label"> | null = null;
+    for (const match of matches) {
+      const qualifier = clause.slice(cursor, match.index);
+      cursor = match.index! + match[0].length;
+
+      const open = toMinutes(`${match[1]}:${match[2]}`);
+      let close = toMinutes(`${match[4]}:${match[5]}`);
+      if (open === null || close === null) {
+        continue;
+      }
+      // 닫는 시각이 여는 시각보다 이르면 다음 날 ("18:00~02:00", "00:00~00:00"은 24시간)
+      if (close <= open) {
+        close += MINUTES_PER_DAY;
+      }
+
+      const days = parseWeekdays(qualifier);
+      const months = parseMonths(qualifier);
+      const holidayOnly = /공휴일/.test(qualifier) && days.length === 0;
+      // 조건이 없으면 같은 절의 앞 구간 조건을 이어 받음 ("평일 10:00~12:00, 13:00~18:00")
+      const condition =
+        days.length === 0 && !months && !holidayOnly && previous
+          ? previous
+          : { days, months, holidayOnly };
+      previous = condition;
+
+      ranges.push({
+        ...condition,
+        range: { open, close },
+        label: `${qualifier.replace(/^[\s,·([]+/, "")}${match[0]}`.trim(),
+      });
+    }
+  }
+
+  return {
+    ranges,
+    lastEntry,
+    breaks,
+    overrides,
+    restText: restTexts.join("\n"),
+  };
+}
+
+/**
+ * 운영시간 구간에서 브레이크타임 제외
+ */
+function subtractBreaks(
+  ranges: OpeningTimeRange[],
+  breaks: OpeningTimeRange[],
+): OpeningTimeRange[] {
+  return breaks.reduce(
+    (current, pause) =>
+      current.flatMap((range) =>
+        pause.open >= range.close || pause.close <= range.open
+          ? [range]
+          : [
+              { open: range.open, close: pause.open },
+              { open: pause.close, close: range.close },
+            ].filter((part) => part.close > part.open),
+      ),
+    ranges,
+  );
+}
+
+/**
+ * 소개 정보에서 운영시간/휴무일 문구 선택 (관광 타입별 필드)
+ *
+ * @param intro - 관광지 소개 정보
+ * @returns 운영시간 문구, 휴무일 문구 (없으면 null)
+ */
+export function getOpeningHoursText(intro: TourIntro): {
+  usetime: string | null;
+  restdate: string | null;
+} {
+  const pick = (fields: string[]) =>
+    fields.map((field) => intro[field]?.trim()).find(Boolean) ?? null;
+  return { usetime: pick(USETIME_FIELDS), restdate: pick(RESTDATE_FIELDS) };
+}
+
+/**
+ * 운영시간/휴무일 문구 해석
+ *
+ * @param usetime - 운영시간 문구
+ * @param restdate - 휴무일 문구
+ * @returns 운영시간 구조화 결과
+ */
+export function parseOpeningHoursText(
+  usetime: string | null,
+  restdate: string | null,
+): OpeningHours {
+  const parsed = parseUseTime(usetime ?? "");
+  const rest = parseRestDays([restdate ?? "", parsed.restText].join("\n"));
+  const exceptions: OpeningHoursException[] = [];
+
+  // 연중 운영시간 (요일 지정 구간이 요일 미지정 구간보다 우선)
+  const regular = parsed.ranges.filter(
+    (entry) => !entry.months && !entry.holidayOnly,
+  );
+  const defaults = regular
+    .filter((entry) => entry.days.length === 0)
+    .map((entry) => entry.range);
+  const byDay = new Map<number, OpeningTimeRange[]>();
+  regular
+    .filter((entry) => entry.days.length > 0)
+    .forEach((entry) =>
+      entry.days.forEach((day) =>
+        byDay.set(day, [...(byDay.get(day) ?? []), entry.range]),
+      ),
+    );
+
+  const alwaysOpen =
+    (regular.length === 0 && ALWAYS_OPEN_PATTERN.test(usetime ?? "")) ||
+    (regular.length > 0 &&
+      regular.every(
+        (entry) => entry.range.close - entry.range.open >= MINUTES_PER_DAY,
+      ));
+  if (alwaysOpen && defaults.length === 0 && byDay.size === 0) {
+    defaults.push({ open: 0, close: MINUTES_PER_DAY });
+  }
+
+  const weekly = Array.from({ length: 7 }, (_, day) => {
+    if (rest.closedDays.includes(day)) {
+      return [];
+    }
+    const ranges = byDay.get(day) ?? (defaults.length > 0 ? defaults : null);
+    if (!ranges) {
+      return null;
+    }
+
+    // 요일별 마감 시각 ("수, 토요일 21:00까지"는 마지막 구간의 닫는 시각)
+    const override = parsed.overrides.find((entry) => entry.days.includes(day));
+    const adjusted = [...ranges]
+      .sort((a, b) => a.open - b.open)
+      .map((range, index, sorted) =>
+        override && index === sorted.length - 1 && override.close > range.open
+          ? { ...range, close: override.close }
+          : { ...range },
+      );
+    return subtractBreaks(adjusted, parsed.breaks);
+  });
+
+  // 계절별 운영시간
+  parsed.ranges
+    .filter((entry) => entry.months)
+    .forEach((entry) => {
+      const existing = exceptions.find(
+        (exception) =>
+          exception.type === "season" &&
+          exception.months.join() === entry.months!.join(),
+      );
+      if (existing?.type === "season") {
+        existing.ranges.push(...subtractBreaks([entry.range], parsed.breaks));
+        return;
+      }
+      exceptions.push({
+        type: "season",
+        months: entry.months!,
+        ranges: subtractBreaks([entry.range], parsed.breaks),
+        label: entry.label,
+      });
+    });
+
+  // 공휴일 운영시간은 공휴일을 알 수 없으므로 메모로 남김
+  parsed.ranges
+    .filter((entry) => entry.holidayOnly)
+    .forEach((entry) => exceptions.push({ type: "note", label: entry.label }));
+
+  // 운영시간을 하나도 해석하지 못했으면 원문을 메모로 남김 ("일출~일몰")
+  if (usetime && parsed.ranges.length === 0 && !alwaysOpen) {
+    exceptions.push({ type: "note", label: normalizeText(usetime).trim() });
+  }
+
+  exceptions.push(...rest.exceptions);
+
+  return {
+    weekly,
+    alwaysOpen,
+    lastEntry: parsed.lastEntry,
+    closedOnHolidays: rest.closedOnHolidays,
+    exceptions: exceptions.filter(
+      (exception, index) =>
+        exceptions.findIndex((other) => other.label === exception.label) ===
+        index,
+    ),
+    usetime,
+    restdate,
+  };
+}
+
+/**
+ * 소개 정보의 운영시간/휴무일 해석
+ *
+ * @param intro - 관광지 소개 정보
+ * @returns 운영시간 구조화 결과 (운영시간/휴무일 문구가 없으면 null)
+ */
+export function parseOpeningHours(
+  intro: TourIntro | null | undefined,
+): OpeningHours | null {
+  if (!intro) {
+    return null;
+  }
+  const { usetime, restdate } = getOpeningHoursText(intro);
+  if (!usetime && !restdate) {
+    return null;
+  }
+  return parseOpeningHoursText(usetime, restdate);
+}
+
+/**
+ * 한국 시간 기준 날짜 정보
+ */
+function toKoreanDate(time: number) {
+  const date = new Date(time + KST_OFFSET_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+    minutes: date.getUTCHours() * 60 + date.getUTCMinutes(),
+  };
+}
+
+/**
+ * 예외로 휴무인 날인지 확인
+ */
+function isClosedByException(
+  exception: OpeningHoursException,
+  date: ReturnType<typeof toKoreanDate>,
+): boolean {
+  switch (exception.type) {
+    case "date":
+      return exception.month === date.month && exception.day === date.day;
+    case "monthly": {
+      if (exception.weekday !== date.weekday) {
+        return false;
+      }
+      const daysInMonth = new Date(
+        Date.UTC(date.year, date.month, 0),
+      ).getUTCDate();
+      return (
+        exception.weeks.includes(Math.ceil(date.day / 7)) ||
+        (exception.weeks.includes(-1) && date.day + 7 > daysInMonth)
+      );
+    }
+    case "lunar_holiday": {
+      const holiday = LUNAR_HOLIDAYS[date.year]?.[exception.holiday];
+      if (!holiday) {
+        return false;
+      }
+      const holidayTime = Date.UTC(date.year, holiday[0] - 1, holiday[1]);
+      const dateTime = Date.UTC(date.year, date.month - 1, date.day);
+      return exception.days.some(
+        (offset) => holidayTime + offset * 86_400_000 === dateTime,
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * 특정 날짜의 운영시간 (휴무 예외, 계절별 운영시간 반영)
+ *
+ * @returns 운영시간 구간 (null이면 알 수 없음)과 휴무 사유
+ */
+function getDayRanges(
+  hours: OpeningHours,
+  date: ReturnType<typeof toKoreanDate>,
+): { ranges: OpeningTimeRange[] | null; reason: string | null } {
+  const closedBy = hours.exceptions.find((exception) =>
+    isClosedByException(exception, date),
+  );
+  if (closedBy) {
+    return { ranges: [], reason: closedBy.label };
+  }
+
+  const weekly = hours.weekly[date.weekday];
+  if (weekly && weekly.length === 0) {
+    return {
+      ranges: [],
+      reason: `매주 ${WEEKDAY_CHARS[date.weekday]}요일 휴무`,
+    };
+  }
+
+  const season = hours.exceptions.find(
+    (exception) =>
+      exception.type === "season" && exception.months.includes(date.month),
+  );
+  if (season?.type === "season") {
+    return {
+      ranges: season.ranges,
+      reason: season.ranges.length === 0 ? season.label : null,
+    };
+  }
+
+  return { ranges: weekly, reason: null };
+}
+
+/**
+ * 현재 영업 상태 판별 (한국 시간 기준)
+ *
+ * @param hours - 운영시간 구조화 결과
+ * @param now - 기준 시각 (기본값: 현재)
+ * @returns 영업 상태와 닫는/여는 시각
+ */
+export function getOpeningStatus(
+  hours: OpeningHours | null | undefined,
+  now: Date = new Date(),
+): OpeningStatus {
+  const unknown: OpeningStatus = {
+    state: "unknown",
+    closesAt: null,
+    opensAt: null,
+    reason: null,
+  };
+  if (!hours) {
+    return unknown;
+  }
+
+  const today = toKoreanDate(now.getTime());
+  const yesterday = toKoreanDate(now.getTime() - 86_400_000);
+  const { ranges, reason } = getDayRanges(hours, today);
+
+  // 전날 밤부터 이어지는 영업 ("18:00~익일 02:00")
+  const overnight = (getDayRanges(hours, yesterday).ranges ?? []).find(
+    (range) =>
+      range.close > MINUTES_PER_DAY &&
+      today.minutes < range.close - MINUTES_PER_DAY,
+  );
+  const current =
+    overnight ??
+    ranges?.find(
+      (range) => range.open <= today.minutes && today.minutes < range.close,
+    );
+  if (current) {
+    const closesAt = overnight
+      ? current.close - MINUTES_PER_DAY
+      : current.close;
+    if (!overnight && current.close - current.open >= MINUTES_PER_DAY) {
+      return { state: "open", closesAt: null, opensAt: null, reason: null };
+    }
+    const isClosingSoon =
+      closesAt - today.minutes <= CLOSING_SOON_MINUTES ||
+      (hours.lastEntry !== null &&
+        today.minutes >= hours.lastEntry &&
+        hours.lastEntry < closesAt);
+    return {
+      state: isClosingSoon ? "closing_soon" : "open",
+      closesAt,
+      opensAt: null,
+      reason: null,
+    };
+  }
+
+  if (!ranges) {
+    return unknown;
+  }
+
+  const next = ranges
+    .filter((range) => range.open > today.minutes)
+    .sort((a, b) => a.open - b.open)[0];
+  return {
+    state: "closed",
+    closesAt: null,
+    opensAt: next?.open ?? null,
+    reason,
+  };
+}
+
+/**
+ * 시각 표시 문자열 (분 → "09:00", 다음 날 새벽이면 "익일 02:00")
+ *
+ * @param minutes - 자정 기준 분
+ * @returns 표시 문자열
+ */
+export function formatOpeningTime(minutes: number): string {
+  const isNextDay = minutes > MINUTES_PER_DAY;
+  const value = isNextDay ? minutes - MINUTES_PER_DAY : minutes;
+  const time = `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(value % 60).padStart(2, "0")}`;
+  return isNextDay ? `익일 ${time}` : time;
+}
+
+/**
+ * 운영시간 구간 표시 문자열 ("09:00~12:00, 13:00~18:00", 빈 배열이면 "휴무")
+ *
+ * @param ranges - 운영시간 구간
+ * @returns 표시 문자열
+ */
+export function formatOpeningRanges(ranges: OpeningTimeRange[]): string {
+  if (ranges.length === 0) {
+    return "휴무";
+  }
+  if (ranges.some((range) => range.close - range.open >= MINUTES_PER_DAY)) {
+    return "24시간";
+  }
+  return ranges
+    .map(
+      (range) =>
+        `${formatOpeningTime(range.open)}~${formatOpeningTime(range.close)}`,
+    )
+    .join(", ");
+}
+
+/**
+ * 요일별 운영시간 표 (월요일부터)
+ *
+ * 같은 운영시간이 이어지는 요일은 하나로 묶습니다 ("월~금 09:00~18:00").
+ *
+ * @param hours - 운영시간 구조화 결과
+ * @returns 요일 표시와 운영시간 표시 (알 수 없는 요일은 "-")
+ */
+export function getWeeklySchedule(
+  hours: OpeningHours,
+): Array<{ days: number[]; label: string; hours: string }> {
+  const rows: Array<{ days: number[]; label: string; hours: string }> = [];
+  [1, 2, 3, 4, 5, 6, 0].forEach((day) => {
+    const ranges = hours.weekly[day];
+    const text = ranges ? formatOpeningRanges(ranges) : "-";
+    const last = rows[rows.length - 1];
+    if (last && last.hours === text) {
+      last.days.push(day);
+    } else {
+      rows.push({ days: [day], label: "", hours: text });
+    }
+  });
+  return rows.map((row) => ({
+    ...row,
+    label:
+      row.days.length === 7
+        ? "매일"
+        : row.days.length > 2
+          ? `${WEEKDAY_CHARS[row.days[0]]}~${WEEKDAY_CHARS[row.days[row.days.length - 1]]}`
+          : formatWeekdays(row.days),
+  }));
+}
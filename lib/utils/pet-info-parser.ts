@@ -0,0 +1,531 @@
+/**
+ * @file pet-info-parser.ts
+ * @description 반려동물 동반 정보 텍스트 파서
+ *
+ * detailPetTour2 응답(PetTourInfo)의 자유 텍스트를 해석해 필터와 태그에 쓸 수 있는
+ * 구조화된 사실(PetInfoFacts)을 추출합니다. 각 사실에는 신뢰도(0~1)와 근거 구절이 함께 저장됩니다.
+ *
+ * 주요 기능:
+ * 1. 동반 가능 크기 / 최대 체중 추출 ("소형견, 중형견", "10kg 이하", "대형견 제외", "전 견종")
+ * 2. 동반 가능 종류 추출 (반려견 / 고양이, "반려견만", "고양이 동반 불가")
+ * 3. 동반 구역 추출 (전구역 / 일부구역 / 실외만) 및 실내/실외 동반 가능 여부
+ * 4. 목줄 / 입마개 / 이동장 필수 여부 추출
+ * 5. 구조화 결과로 크기/종류/장소 필터 판별
+ * 6. 체중으로 반려동물 크기 분류 (반려동물 프로필)
+ *
+ * 주의사항:
+ * - 동반 불가 관광지는 모든 항목이 null인 결과를 반환합니다.
+ * - 필터는 신뢰도가 PET_FACT_MIN_CONFIDENCE 이상인 사실만 사용합니다.
+ * - 규칙을 바꾸면 PET_INFO_PARSER_VERSION을 올려 반려동물 인덱스가 다시 해석하도록 합니다.
+ *
+ * @see {@link /scripts/test-pet-info-parser.ts} - 실제 문구 코퍼스 테스트
+ * @see {@link /lib/utils/pet-info.ts} - 동반 가능 여부 판별
+ */
+
+import type {
+  PetAccessArea,
+  PetInfoFact,
+  PetInfoFacts,
+  PetSize,
+  PetSpecies,
+  PetTourInfo,
+} from "@/lib/types/tour";
+import { isPetFriendlyInfo } from "@/lib/utils/pet-info";
+
+/**
+ * 파서 규칙 버전 (반려동물 인덱스 재해석 기준)
+ */
+export const PET_INFO_PARSER_VERSION = 1;
+
+/**
+ * 필터에 사용할 최소 신뢰도
+ */
+export const PET_FACT_MIN_CONFIDENCE = 0.5;
+
+/** 크기 순서 (작은 것부터) */
+const PET_SIZES: PetSize[] = ["small", "medium", "large"];
+
+/** 크기 글자 → 크기 ("소형", "중대형"의 각 글자) */
+const SIZE_CHARS: Record<string, PetSize> = {
+  소: "small",
+  중: "medium",
+  대: "large",
+};
+
+/** 체중으로 크기를 추정할 때의 상한 (kg, 이하) */
+const SIZE_WEIGHT_LIMITS: Record<PetSize, number> = {
+  small: 10,
+  medium: 25,
+  large: Infinity,
+};
+
+/** 부정 표현 (불가/금지/제한) */
+const NEGATIVE_PATTERN = /불가|금지|제한|제외|안\s*됨|안됩니다|못\s*함|않/;
+
+/** 허용 표현 */
+const POSITIVE_PATTERN = /가능|허용|이용|동반|운영|투숙|입장|산책/;
+
+/** 필요 없음 표현 */
+const NOT_REQUIRED_PATTERN = /불필요|필요\s*없|없이|자율/;
+
+/** 구비/대여 표현 (필수 준비물이 아님) */
+const PROVIDED_PATTERN = /대여|판매|구비|제공|비치/;
+
+/** 필수 표현 */
+const REQUIRED_PATTERN = /필수|착용|지참|필요|해야|의무|이용|탑승/;
+
+/** 크기 제한 없음 표현 */
+const ALL_SIZES_PATTERN =
+  /전\s*견종|모든\s*견종|견종\s*(제한\s*)?(없음|무관)|크기\s*(제한\s*)?(없음|무관)|크기\s*상관\s*없/;
+
+/** 반려견 표현 */
+const DOG_PATTERN = /반려견|애견|강아지|견종|형\s*견|맹견|견주|개모차/;
+
+/** 고양이 표현 */
+const CAT_PATTERN = /고양이|반려묘|애묘/;
+
+/** 종류를 특정하지 않은 반려동물 표현 */
+const GENERIC_PET_PATTERN = /반려동물|애완동물|펫/;
+
+/** 실내 표현 */
+const INDOOR_PATTERN = /실내|객실|건물\s*(안|내)|내부|매장\s*(안|내)/;
+
+/** 실외 표현 */
+const OUTDOOR_PATTERN =
+  /실외|야외|산책로|잔디|공원|해변|백사장|해수욕장|마당|테라스|정원|캠핑장|숲길|둘레길|골목/;
+
+/** 실외만 동반 가능 표현 */
+const OUTDOOR_ONLY_PATTERN =
+  /(실외|야외)[^.,\n]{0,10}만|(실외|야외)\s*(구역|공간|시설)?\s*(에서만|만\s*동반)/;
+
+/** 목줄 표현 */
+const LEASH_PATTERN = /목줄|리드줄|하네스|가슴줄|리쉬|목끈/;
+
+/** 입마개 표현 */
+const MUZZLE_PATTERN = /입마개/;
+
+/** 이동장 표현 */
+const CARRIER_PATTERN =
+  /이동장|케이지|켄넬|캐리어|이동\s*가방|유모차|펫\s*카트|개모차/;
+
+/**
+ * 텍스트를 절 단위로 나누기
+ *
+ * 문장 부호와 쉼표, 대조 연결어("~하나", "~지만", "~하며")를 경계로 나눠
+ * "야외는 가능하나 실내는 불가"처럼 한 문장에 섞인 허용/불가를 구분합니다.
+ */
+function splitClauses(text: string): string[] {
+  return text
+    .split(/[.。\n;]|,\s*|(?<=[가-힣])(?:하나|으나|지만|하며|이며|으며)\s+/)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 사실 생성 (신뢰도는 소수점 둘째 자리까지)
+ */
+function fact<T>(
+  value: T,
+  confidence: number,
+  evidence: string,
+): PetInfoFact<T> {
+  return { value, confidence: Math.round(confidence * 100) / 100, evidence };
+}
+
+/**
+ * 크기 표현 추출 ("소형견", "중대형견", "소·중형견", "대형견 제외", "중형견까지")
+ */
+function parseSizeMentions(text: string) {
+  const allowed = new Set<PetSize>();
+  const excluded = new Set<PetSize>();
+  let upTo: PetSize | null = null;
+
+  for (const match of text.matchAll(/((?:[소중대][\s·/,]*)+)형(\s*견)?/g)) {
+    // "대형 버스"처럼 반려견과 무관한 표현은 제외 ("소형, 중형견"은 허용)
+    if (!match[2] && !text.includes("견")) continue;
+    const sizes = [...match[1]]
+      .map((char) => SIZE_CHARS[char])
+      .filter((size): size is PetSize => Boolean(size));
+    const following = text.slice(
+      match.index + match[0].length,
+      match.index + match[0].length + 12,
+    );
+    const clauseEnd = following.search(/[.,(\n]/);
+    const tail = clauseEnd >= 0 ? following.slice(0, clauseEnd) : following;
+
+    if (NEGATIVE_PATTERN.test(tail)) {
+      sizes.forEach((size) => excluded.add(size));
+    } else {
+      sizes.forEach((size) => allowed.add(size));
+      if (/^\s*까지/.test(tail)) {
+        upTo = sizes[sizes.length - 1];
+      }
+    }
+  }
+
+  if (upTo) {
+    PET_SIZES.slice(0, PET_SIZES.indexOf(upTo) + 1).forEach((size) =>
+      allowed.add(size),
+    );
+  }
+
+  return { allowed, excluded };
+}
+
+/**
+ * 최대 체중 추출 ("10kg 이하", "7kg 미만", "15kg 이상 불가")
+ */
+function parseMaxWeight(text: string): PetInfoFact<number> | null {
+  const limit = text.match(
+    /(\d+(?:\.\d+)?)\s*(?:kg|㎏|킬로(?:그램)?)\s*(이하|미만|까지|이내)/i,
+  );
+  if (limit) {
+    return fact(Number(limit[1]), 0.9, limit[0]);
+  }
+
+  const over = text.match(
+    /(\d+(?:\.\d+)?)\s*(?:kg|㎏|킬로(?:그램)?)\s*(이상|초과)[^.,\n]{0,10}?(불가|제한|금지)/i,
+  );
+  if (over) {
+    return fact(Number(over[1]), 0.8, over[0]);
+  }
+
+  return null;
+}
+
+/**
+ * 동반 가능 크기 추출
+ *
+ * 동반 가능 대상/필요 사항을 먼저 보고, 없으면 기타 정보를 낮은 신뢰도로 봅니다.
+ * 크기 표현이 없으면 최대 체중으로 추정합니다.
+ */
+function parseSizes(
+  primaryText: string,
+  secondaryText: string,
+  maxWeight: PetInfoFact<number> | null,
+): PetInfoFact<PetSize[]> | null {
+  const allSizes = primaryText.match(ALL_SIZES_PATTERN);
+  if (allSizes) {
+    return fact([...PET_SIZES], 0.85, allSizes[0]);
+  }
+
+  for (const [text, confidence] of [
+    [primaryText, 0.9],
+    [secondaryText, 0.6],
+  ] as const) {
+    const { allowed, excluded } = parseSizeMentions(text);
+    if (allowed.size > 0) {
+      return fact(
+        PET_SIZES.filter((size) => allowed.has(size) && !excluded.has(size)),
+        confidence,
+        text,
+      );
+    }
+    if (excluded.size > 0) {
+      // "대형견 제외"처럼 제외만 있으면 나머지 크기는 가능으로 봄
+      return fact(
+        PET_SIZES.filter((size) => !excluded.has(size)),
+        confidence - 0.2,
+        text,
+      );
+    }
+  }
+
+  if (maxWeight) {
+    const sizes = PET_SIZES.filter(
+      (size, index) =>
+        index === 0 ||
+        maxWeight.value > SIZE_WEIGHT_LIMITS[PET_SIZES[index - 1]],
+    );
+    return fact(sizes, maxWeight.confidence - 0.2, maxWeight.evidence);
+  }
+
+  return null;
+}
+
+/**
+ * 동반 가능 종류 추출
+ */
+function parseSpecies(
+  clauses: string[],
+  fullText: string,
+): PetInfoFact<PetSpecies[]> | null {
+  const dogOnly = fullText.match(/(반려견|강아지|애견)\s*만/);
+  const catOnly = fullText.match(/(고양이|반려묘)\s*만/);
+  if (dogOnly && !catOnly) {
+    return fact(["dog"], 0.85, dogOnly[0]);
+  }
+  if (catOnly && !dogOnly) {
+    return fact(["cat"], 0.85, catOnly[0]);
+  }
+
+  const mentions = { dog: false, cat: false };
+  const denied = { dog: false, cat: false };
+  const evidence: string[] = [];
+
+  for (const clause of clauses) {
+    for (const [species, pattern] of [
+      ["dog", DOG_PATTERN],
+      ["cat", CAT_PATTERN],
+    ] as const) {
+      if (!pattern.test(clause)) continue;
+      // "맹견 제외", "대형견 불가"는 반려견 전체를 막는 표현이 아님
+      const isBreedRestriction =
+        species === "dog" && /맹견|형\s*견|kg|㎏/i.test(clause);
+      if (NEGATIVE_PATTERN.test(clause) && !isBreedRestriction) {
+        denied[species] = true;
+      } else {
+        mentions[species] = true;
+      }
+      evidence.push(clause);
+    }
+  }
+
+  const species = (["dog", "cat"] as const).filter(
+    (item) => mentions[item] && !denied[item],
+  );
+
+  if (mentions.cat || denied.cat || denied.dog) {
+    return species.length > 0
+      ? fact(species, 0.85, evidence.join(" / "))
+      : null;
+  }
+  if (mentions.dog) {
+    // 반려견만 언급된 경우가 대부분이라 고양이는 불확실
+    return fact(["dog"], 0.7, evidence.join(" / "));
+  }
+
+  const generic = fullText.match(GENERIC_PET_PATTERN);
+  if (generic) {
+    return fact(["dog", "cat"], 0.5, generic[0]);
+  }
+
+  return null;
+}
+
+/**
+ * 동반 구역 추출
+ */
+function parseArea(
+  typeText: string,
+  otherText: string,
+): PetInfoFact<PetAccessArea> | null {
+  const outdoorOnly =
+    typeText.match(OUTDOOR_ONLY_PATTERN) ??
+    otherText.match(OUTDOOR_ONLY_PATTERN);
+
+  if (/전\s*구역/.test(typeText)) {
+    return fact("all", 0.95, typeText);
+  }
+  if (outdoorOnly) {
+    return fact(
+      "outdoor_only",
+      typeText.match(OUTDOOR_ONLY_PATTERN) ? 0.9 : 0.8,
+      outdoorOnly[0],
+    );
+  }
+  if (/일부\s*구역/.test(typeText)) {
+    return fact("partial", 0.95, typeText);
+  }
+
+  const allArea = otherText.match(/전\s*구역[^.,\n]{0,6}(가능|동반)/);
+  if (allArea) {
+    return fact("all", 0.6, allArea[0]);
+  }
+
+  return null;
+}
+
+/**
+ * 실내 또는 실외 동반 가능 여부 추출
+ *
+ * 허용 구절이 하나라도 있으면 가능(일부 구역이라도 동반할 수 있음), 불가 구절만 있으면 불가입니다.
+ * 구절이 없으면 동반 구역으로 추정합니다.
+ */
+function parsePlace(
+  clauses: string[],
+  pattern: RegExp,
+  area: PetInfoFact<PetAccessArea> | null,
+  place: "indoor" | "outdoor",
+): PetInfoFact<boolean> | null {
+  if (area?.value === "outdoor_only") {
+    return fact(place === "outdoor", area.confidence - 0.05, area.evidence);
+  }
+
+  const matched = clauses.filter((clause) => pattern.test(clause));
+  const allowed = matched.find(
+    (clause) => !NEGATIVE_PATTERN.test(clause) && POSITIVE_PATTERN.test(clause),
+  );
+  if (allowed) {
+    return fact(true, 0.75, allowed);
+  }
+
+  const denied = matched.find((clause) => NEGATIVE_PATTERN.test(clause));
+  if (denied) {
+    return fact(false, 0.75, denied);
+  }
+
+  if (area?.value === "all") {
+    return fact(true, 0.6, area.evidence);
+  }
+
+  return null;
+}
+
+/**
+ * 필수 준비물(목줄/입마개/이동장) 여부 추출
+ */
+function parseRequirement(
+  clauses: string[],
+  pattern: RegExp,
+): PetInfoFact<boolean> | null {
+  const clause = clauses.find(
+    (item) => pattern.test(item) && !PROVIDED_PATTERN.test(item),
+  );
+  if (!clause) {
+    return null;
+  }
+
+  if (NOT_REQUIRED_PATTERN.test(clause)) {
+    return fact(false, 0.7, clause);
+  }
+  if (REQUIRED_PATTERN.test(clause)) {
+    return fact(true, 0.9, clause);
+  }
+
+  // 필요 사항에 언급만 된 경우도 대부분 필수 준비물
+  return fact(true, 0.6, clause);
+}
+
+/**
+ * 빈 구조화 결과
+ */
+function emptyPetInfoFacts(): PetInfoFacts {
+  return {
+    sizes: null,
+    maxWeightKg: null,
+    species: null,
+    area: null,
+    indoor: null,
+    outdoor: null,
+    leashRequired: null,
+    muzzleRequired: null,
+    carrierRequired: null,
+  };
+}
+
+/**
+ * 반려동물 동반 정보 구조화
+ *
+ * @param petInfo - 반려동물 동반 여행 정보
+ * @returns 구조화 결과 (동반 불가이거나 정보가 없으면 모든 항목이 null)
+ */
+export function parsePetInfo(
+  petInfo: PetTourInfo | null | undefined,
+): PetInfoFacts {
+  if (!isPetFriendlyInfo(petInfo)) {
+    return emptyPetInfoFacts();
+  }
+
+  const typeText = petInfo.acmpyTypeCd?.trim() ?? "";
+  const targetText = petInfo.acmpyPsblCpam?.trim() ?? "";
+  const needText = petInfo.acmpyNeedMtr?.trim() ?? "";
+  const etcText = petInfo.etcAcmpyInfo?.trim() ?? "";
+
+  const primaryText = [targetText, needText].filter(Boolean).join(". ");
+  const fullText = [typeText, targetText, needText, etcText]
+    .filter(Boolean)
+    .join(". ");
+  const clauses = splitClauses(fullText);
+  const requirementClauses = splitClauses(
+    [targetText, needText, etcText].filter(Boolean).join(". "),
+  );
+
+  const maxWeightKg = parseMaxWeight(primaryText) ?? parseMaxWeight(etcText);
+  const area = parseArea(
+    typeText,
+    [needText, etcText].filter(Boolean).join(". "),
+  );
+
+  return {
+    sizes: parseSizes(primaryText, etcText, maxWeightKg),
+    maxWeightKg,
+    species: parseSpecies(clauses, fullText),
+    area,
+    indoor: parsePlace(clauses, INDOOR_PATTERN, area, "indoor"),
+    outdoor: parsePlace(clauses, OUTDOOR_PATTERN, area, "outdoor"),
+    leashRequired: parseRequirement(requirementClauses, LEASH_PATTERN),
+    muzzleRequired: parseRequirement(requirementClauses, MUZZLE_PATTERN),
+    carrierRequired: parseRequirement(requirementClauses, CARRIER_PATTERN),
+  };
+}
+
+/**
+ * 체중으로 반려동물 크기 분류
+ *
+ * 체중 제한 문구를 해석할 때와 같은 기준(소형 10kg 이하, 중형 25kg 이하)을 사용합니다.
+ *
+ * @param weightKg - 체중 (kg)
+ * @returns 크기
+ */
+export function getPetSizeByWeight(weightKg: number): PetSize {
+  return (
+    PET_SIZES.find((size) => weightKg <= SIZE_WEIGHT_LIMITS[size]) ?? "large"
+  );
+}
+
+/**
+ * 신뢰도가 충분한 사실의 값 (부족하면 null)
+ */
+function confidentValue<T>(fact: PetInfoFact<T> | null): T | null {
+  return fact && fact.confidence >= PET_FACT_MIN_CONFIDENCE ? fact.value : null;
+}
+
+/**
+ * 필터에 사용할 값 추출
+ *
+ * 반려동물 인덱스의 필터 컬럼과 클라이언트 필터가 같은 기준을 사용합니다.
+ *
+ * @param facts - 구조화 결과
+ * @returns 동반 가능 크기/종류 목록과 실내/실외 동반 가능 여부 (불확실하면 빈 목록 또는 null)
+ */
+export function getPetFilterValues(facts: PetInfoFacts) {
+  return {
+    sizes: confidentValue(facts.sizes) ?? [],
+    species: confidentValue(facts.species) ?? [],
+    indoor: confidentValue(facts.indoor),
+    outdoor: confidentValue(facts.outdoor),
+  };
+}
+
+/**
+ * 반려동물 크기/종류/장소 필터 판별
+ *
+ * 선택한 조건이 구조화 결과에서 확인되는 경우에만 통과합니다.
+ *
+ * @param facts - 구조화 결과
+ * @param filter - 크기/종류/장소 조건 (없는 조건은 검사하지 않음)
+ * @returns 모든 조건을 만족하면 true
+ */
+export function matchesPetFilter(
+  facts: PetInfoFacts,
+  filter: {
+    petSize?: PetSize;
+    petType?: PetSpecies;
+    petPlace?: "indoor" | "outdoor";
+  },
+): boolean {
+  const values = getPetFilterValues(facts);
+
+  if (filter.petSize && !values.sizes.includes(filter.petSize)) {
+    return false;
+  }
+  if (filter.petType && !values.species.includes(filter.petType)) {
+    return false;
+  }
+  if (filter.petPlace && values[filter.petPlace] !== true) {
+    return false;
+  }
+
+  return true;
+}
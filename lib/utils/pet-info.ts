@@ -0,0 +1,53 @@
+/**
+ * @file pet-info.ts
+ * @description 반려동물 동반 정보 판별 유틸리티
+ *
+ * detailPetTour2 응답(PetTourInfo)으로 반려동물 동반 가능 여부를 판별합니다.
+ * 반려동물 인덱스 갱신 작업(서버)과 반려동물 필터 훅(클라이언트)이 같은 기준을 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 반려동물 정보 존재 여부 확인
+ * 2. 반려동물 동반 가능 여부 판별 ("불가" 표시 제외)
+ *
+ * @see {@link /docs/prd.md#25-반려동물-동반-여행} - PRD 문서의 반려동물 동반 여행 섹션
+ */
+
+import type { PetTourInfo } from "@/lib/types/tour";
+
+/**
+ * 반려동물 정보가 하나라도 있는지 확인
+ *
+ * @param petInfo - 반려동물 동반 여행 정보
+ * @returns 동반 타입/대상/필요 사항/기타 정보 중 하나라도 있으면 true
+ */
+export function hasPetInfo(petInfo: PetTourInfo | null | undefined): boolean {
+  return Boolean(
+    petInfo &&
+    (petInfo.acmpyTypeCd ||
+      petInfo.acmpyPsblCpam ||
+      petInfo.acmpyNeedMtr ||
+      petInfo.etcAcmpyInfo),
+  );
+}
+
+/**
+ * 반려동물 동반 가능 여부 판별
+ *
+ * 반려동물 정보가 있고, 동반 타입(없으면 기타 정보)에 "불가"가 표시되지 않으면 동반 가능으로 봅니다.
+ *
+ * @param petInfo - 반려동물 동반 여행 정보
+ * @returns 동반 가능하면 true
+ */
+export function isPetFriendlyInfo(
+  petInfo: PetTourInfo | null | undefined,
+): petInfo is PetTourInfo {
+  if (!petInfo || !hasPetInfo(petInfo)) {
+    return false;
+  }
+
+  if (petInfo.acmpyTypeCd) {
+    return !petInfo.acmpyTypeCd.trim().includes("불가");
+  }
+
+  return !petInfo.etcAcmpyInfo?.includes("불가");
+}
@@ -0,0 +1,114 @@
+/**
+ * @file pet-profile.ts
+ * @description 반려동물 프로필 기준 필터/동반 가능 판별 유틸리티
+ *
+ * 사용자가 등록한 반려동물 프로필(pets)을 관광지 반려동물 필터 조건으로 바꾸고,
+ * 관광지 반려동물 정보의 구조화 결과로 반려동물별 동반 가능 여부를 판별합니다.
+ *
+ * 주요 기능:
+ * 1. 내 반려동물 기준 필터 조건 계산 (크기/종류)
+ * 2. 반려동물별 동반 가능 여부 판별 (크기/종류/체중 제한)
+ *
+ * @see {@link /lib/utils/pet-info-parser.ts} - 반려동물 정보 구조화
+ * @see {@link /lib/types/pet.ts} - 반려동물 프로필 타입
+ */
+
+import type { Pet, PetAccess } from "@/lib/types/pet";
+import type { PetInfoFacts, PetSize, PetSpecies } from "@/lib/types/tour";
+import {
+  getPetFilterValues,
+  PET_FACT_MIN_CONFIDENCE,
+} from "@/lib/utils/pet-info-parser";
+
+/** 크기 순서 (작은 것부터) */
+const PET_SIZE_ORDER: PetSize[] = ["small", "medium", "large"];
+
+/** 크기 라벨 */
+export const PET_SIZE_LABELS: Record<PetSize, string> = {
+  small: "소형",
+  medium: "중형",
+  large: "대형",
+};
+
+/** 종류 라벨 */
+export const PET_SPECIES_LABELS: Record<PetSpecies, string> = {
+  dog: "강아지",
+  cat: "고양이",
+};
+
+/**
+ * 내 반려동물 기준 필터 조건 계산
+ *
+ * 함께 다닐 반려동물이 모두 갈 수 있는 곳을 찾도록 가장 큰 크기를 조건으로 사용합니다.
+ * 종류가 섞여 있으면 종류 조건은 두지 않고, 카드의 반려동물별 표시로 구분합니다.
+ *
+ * @param pets - 반려동물 프로필 목록
+ * @returns 크기/종류 조건 (반려동물이 없으면 null)
+ */
+export function getPetProfileFilter(
+  pets: Pet[],
+): { petSize: PetSize; petType: PetSpecies | undefined } | null {
+  if (pets.length === 0) {
+    return null;
+  }
+
+  const petSize = pets
+    .map((pet) => pet.size_class)
+    .reduce((largest, size) =>
+      PET_SIZE_ORDER.indexOf(size) > PET_SIZE_ORDER.indexOf(largest)
+        ? size
+        : largest,
+    );
+  const species = new Set(pets.map((pet) => pet.species));
+
+  return {
+    petSize,
+    petType: species.size === 1 ? pets[0].species : undefined,
+  };
+}
+
+/**
+ * 반려동물별 동반 가능 여부 판별
+ *
+ * 크기/종류/체중 제한 중 하나라도 맞지 않으면 불가, 크기와 종류가 모두 확인되면 가능입니다.
+ *
+ * @param pet - 반려동물 프로필
+ * @param facts - 관광지 반려동물 정보 구조화 결과
+ * @returns 판별 결과
+ */
+export function getPetAccess(pet: Pet, facts: PetInfoFacts): PetAccess {
+  const values = getPetFilterValues(facts);
+  const denied: string[] = [];
+  const unknown: string[] = [];
+
+  if (values.sizes.length === 0) {
+    unknown.push("크기 확인 안 됨");
+  } else if (!values.sizes.includes(pet.size_class)) {
+    denied.push(`${PET_SIZE_LABELS[pet.size_class]} 불가`);
+  }
+
+  if (values.species.length === 0) {
+    unknown.push(`${PET_SPECIES_LABELS[pet.species]} 확인 안 됨`);
+  } else if (!values.species.includes(pet.species)) {
+    denied.push(`${PET_SPECIES_LABELS[pet.species]} 불가`);
+  }
+
+  const maxWeight = facts.maxWeightKg;
+  if (
+    maxWeight &&
+    maxWeight.confidence >= PET_FACT_MIN_CONFIDENCE &&
+    pet.weight_kg !== null &&
+    pet.weight_kg > maxWeight.value
+  ) {
+    denied.push(`${maxWeight.value}kg 초과`);
+  }
+
+  if (denied.length > 0) {
+    return { pet, status: "denied", reasons: denied };
+  }
+  return {
+    pet,
+    status: unknown.length > 0 ? "unknown" : "allowed",
+    reasons: unknown,
+  };
+}
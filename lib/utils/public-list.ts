@@ -0,0 +1,78 @@
+/**
+ * @file public-list.ts
+ * @description 공개 북마크 리스트 유틸리티
+ *
+ * 공개 리스트의 주소(slug)와 공유 URL을 만드는 함수들을 제공합니다.
+ *
+ * 주요 기능:
+ * 1. 공개 주소 생성 (제목의 영문/숫자 + 임의 문자열, 예: "busan-trip-k3x9q2ab")
+ * 2. 공개 페이지 경로/URL
+ *
+ * @see {@link /supabase/migrations/public_lists.sql} - slug 형식 제약
+ */
+
+/** 제목에서 가져오는 slug 앞부분 최대 길이 */
+const SLUG_PREFIX_MAX_LENGTH = 40;
+
+/** slug 뒤에 붙이는 임의 문자열 길이 */
+const SLUG_SUFFIX_LENGTH = 8;
+
+/** 공개 리스트 제목 최대 길이 (DB 제약과 동일) */
+export const MAX_PUBLIC_LIST_TITLE_LENGTH = 60;
+
+/** 공개 리스트 설명 최대 길이 (DB 제약과 동일) */
+export const MAX_PUBLIC_LIST_DESCRIPTION_LENGTH = 300;
+
+/**
+ * 임의 문자열 생성 (소문자 영문 + 숫자)
+ */
+function createRandomSuffix(): string {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  const values = crypto.getRandomValues(new Uint8Array(SLUG_SUFFIX_LENGTH));
+  return Array.from(values, (value) => alphabet[value % alphabet.length]).join(
+    "",
+  );
+}
+
+/**
+ * 공개 주소 생성
+ *
+ * 제목의 영문/숫자를 앞부분으로 쓰고 임의 문자열을 붙여 추측하기 어렵게 만듭니다.
+ * 한글만 있는 제목은 "list"를 앞부분으로 사용합니다.
+ *
+ * @param title - 리스트 제목
+ * @returns slug (예: "busan-2024-k3x9q2ab", "list-k3x9q2ab")
+ */
+export function createPublicListSlug(title: string): string {
+  const prefix =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, SLUG_PREFIX_MAX_LENGTH)
+      .replace(/-+$/, "") || "list";
+  return `${prefix}-${createRandomSuffix()}`;
+}
+
+/**
+ * 공개 페이지 경로
+ *
+ * @param slug - 공개 주소
+ * @returns 경로 (예: "/lists/busan-k3x9q2ab")
+ */
+export function getPublicListPath(slug: string): string {
+  return `/lists/${slug}`;
+}
+
+/**
+ * 공개 페이지 전체 URL
+ *
+ * @param slug - 공개 주소
+ * @param origin - 사이트 주소 (생략하면 NEXT_PUBLIC_SITE_URL)
+ * @returns 전체 URL
+ */
+export function getPublicListUrl(slug: string, origin?: string): string {
+  const siteUrl =
+    origin || process.env.NEXT_PUBLIC_SITE_URL || "https://example.com";
+  return `${siteUrl.replace(/\/$/, "")}${getPublicListPath(slug)}`;
+}
@@ -0,0 +1,246 @@
+/**
+ * @file route-optimizer.ts
+ * @description 방문 순서 최적화 유틸리티
+ *
+ * 여러 관광지를 들르는 순서를 이동 거리가 짧아지도록 정합니다.
+ * 거리는 두 좌표 사이의 직선 거리(Haversine 공식)로 계산하며,
+ * 최근접 이웃(nearest-neighbour)으로 초기 경로를 만든 뒤 2-opt로 교차하는 구간을 풀어 줍니다.
+ * 방문 지점이 10개 안팎이므로 정확한 최단 경로는 아니어도 지그재그 없이 충분히 짧은 순서를 찾습니다.
+ *
+ * 주요 기능:
+ * 1. 경로 거리 계산 (출발지/도착지 포함)
+ * 2. 방문 순서 최적화 (출발지/도착지 고정 가능, 같은 곳이면 왕복)
+ * 3. 관광지(TourItem) 방문 순서 최적화 (좌표가 없는 관광지는 제외)
+ * 4. 거리 표시 문자열
+ *
+ * @see {@link /lib/utils/geolocation.ts} - Haversine 거리 계산
+ * @see {@link /lib/utils/coordinate-converter.ts} - 관광지 좌표 변환
+ */
+
+import type { TourItem } from "@/lib/types/tour";
+import { convertTourCoordinates } from "@/lib/utils/coordinate-converter";
+import { getDistanceMeters, type GeoPosition } from "@/lib/utils/geolocation";
+
+/** 2-opt 개선 반복 최대 횟수 (방문 지점이 많아도 멈추도록 제한) */
+const MAX_TWO_OPT_PASSES = 50;
+
+/** 거리 비교 허용 오차 (미터, 부동소수점 오차로 무한 반복하지 않도록) */
+const DISTANCE_EPSILON = 1e-6;
+
+/**
+ * 방문 순서 최적화 옵션
+ *
+ * 출발지/도착지는 방문 지점에 포함하지 않는 고정 지점입니다 (예: 숙소).
+ * 둘을 같은 좌표로 주면 숙소에서 출발해 숙소로 돌아오는 왕복 경로가 됩니다.
+ */
+export interface RouteOptions {
+  /** 고정 출발지 */
+  start?: GeoPosition | null;
+  /** 고정 도착지 */
+  end?: GeoPosition | null;
+}
+
+/**
+ * 방문 순서 최적화 결과
+ */
+export interface RouteResult {
+  /** 방문 순서 (입력 배열의 인덱스) */
+  order: number[];
+  /** 총 이동 거리 (미터, 출발지/도착지 구간 포함) */
+  distanceMeters: number;
+}
+
+/**
+ * 관광지 방문 순서 최적화 결과
+ */
+export interface TourRouteResult {
+  /** 방문 순서대로 정렬한 관광지 (좌표가 있는 관광지만) */
+  tours: TourItem[];
+  /** 좌표가 없거나 올바르지 않아 제외한 관광지 */
+  skipped: TourItem[];
+  /** 총 이동 거리 (미터, 출발지/도착지 구간 포함) */
+  distanceMeters: number;
+}
+
+/**
+ * 경로 거리 계산 (출발지 → 방문 지점들 → 도착지)
+ *
+ * @param positions - 방문 순서대로 정렬한 좌표
+ * @param options - 고정 출발지/도착지
+ * @returns 총 이동 거리 (미터)
+ */
+export function getRouteDistance(
+  positions: GeoPosition[],
+  options: RouteOptions = {},
+): number {
+  const path = [
+    ...(options.start ? [options.start] : []),
+    ...positions,
+    ...(options.end ? [options.end] : []),
+  ];
+  let distance = 0;
+  for (let i = 1; i < path.length; i++) {
+    distance += getDistanceMeters(path[i - 1], path[i]);
+  }
+  return distance;
+}
+
+/**
+ * 방문 순서 최적화 (최근접 이웃 + 2-opt)
+ *
+ * @param positions - 방문할 좌표 목록
+ * @param options - 고정 출발지/도착지
+ * @returns 방문 순서 (입력 배열의 인덱스)와 총 이동 거리
+ */
+export function optimizeRoute(
+  positions: GeoPosition[],
+  options: RouteOptions = {},
+): RouteResult {
+  const count = positions.length;
+  if (count === 0) {
+    return { order: [], distanceMeters: getRouteDistance([], options) };
+  }
+
+  // 도착지만 고정이면 도착지에서 출발하는 경로를 구해 뒤집음 (거리는 방향과 무관)
+  if (!options.start && options.end) {
+    const reversed = optimizeRoute(positions, { start: options.end });
+    return { ...reversed, order: [...reversed.order].reverse() };
+  }
+
+  // 거리 행렬: 방문 지점(0..count-1), 출발지(count), 도착지(count+1)
+  const start = options.start ? count : -1;
+  const end = options.end ? count + 1 : -1;
+  const nodes = [
+    ...positions,
+    options.start ?? positions[0],
+    options.end ?? positions[0],
+  ];
+  const matrix = nodes.map((from) =>
+    nodes.map((to) => getDistanceMeters(from, to)),
+  );
+  const distance = (from: number, to: number) =>
+    from === -1 || to === -1 ? 0 : matrix[from][to];
+
+  const routeDistance = (order: number[]) => {
+    const path = [start, ...order, end];
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += distance(path[i - 1], path[i]);
+    }
+    return total;
+  };
+
+  /**
+   * 최근접 이웃으로 초기 경로 생성
+   */
+  const nearestNeighbour = (first: number) => {
+    const visited = new Set([first]);
+    const order = [first];
+    while (order.length < count) {
+      const current = order[order.length - 1];
+      let next = -1;
+      for (let candidate = 0; candidate < count; candidate++) {
+        if (
+          !visited.has(candidate) &&
+          (next === -1 ||
+            distance(current, candidate) < distance(current, next))
+        ) {
+          next = candidate;
+        }
+      }
+      visited.add(next);
+      order.push(next);
+    }
+    return order;
+  };
+
+  /**
+   * 2-opt: 구간을 뒤집어 거리가 줄면 반영 (더 줄지 않을 때까지)
+   *
+   * 출발지/도착지가 없으면 경로 양 끝을 잇는 간선이 없으므로 거리 0으로 봅니다.
+   */
+  const twoOpt = (initial: number[]) => {
+    const path = [start, ...initial, end];
+    for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+      let improved = false;
+      for (let i = 1; i < path.length - 2; i++) {
+        for (let j = i + 1; j < path.length - 1; j++) {
+          const before =
+            distance(path[i - 1], path[i]) + distance(path[j], path[j + 1]);
+          const after =
+            distance(path[i - 1], path[j]) + distance(path[i], path[j + 1]);
+          if (after < before - DISTANCE_EPSILON) {
+            const reversed = path.slice(i, j + 1).reverse();
+            path.splice(i, reversed.length, ...reversed);
+            improved = true;
+          }
+        }
+      }
+      if (!improved) {
+        break;
+      }
+    }
+    return path.slice(1, -1);
+  };
+
+  let best: RouteResult | null = null;
+  // 모든 방문 지점을 첫 방문지로 시도해 가장 짧은 경로 선택
+  for (let first = 0; first < count; first++) {
+    const order = twoOpt(nearestNeighbour(first));
+    const total = routeDistance(order);
+    if (!best || total < best.distanceMeters - DISTANCE_EPSILON) {
+      best = { order, distanceMeters: total };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * 관광지 방문 순서 최적화
+ *
+ * @param tours - 방문할 관광지 목록
+ * @param options - 고정 출발지/도착지
+ * @returns 방문 순서대로 정렬한 관광지, 제외한 관광지, 총 이동 거리
+ */
+export function optimizeTourRoute(
+  tours: TourItem[],
+  options: RouteOptions = {},
+): TourRouteResult {
+  const located: Array<{ tour: TourItem; position: GeoPosition }> = [];
+  const skipped: TourItem[] = [];
+
+  tours.forEach((tour) => {
+    try {
+      located.push({
+        tour,
+        position: convertTourCoordinates(tour.mapx, tour.mapy),
+      });
+    } catch {
+      skipped.push(tour);
+    }
+  });
+
+  const { order, distanceMeters } = optimizeRoute(
+    located.map(({ position }) => position),
+    options,
+  );
+
+  return {
+    tours: order.map((index) => located[index].tour),
+    skipped,
+    distanceMeters,
+  };
+}
+
+/**
+ * 거리 표시 문자열 생성
+ *
+ * @param meters - 거리 (미터)
+ * @returns "350m" 또는 "1.2km" 형식
+ */
+export function formatRouteDistance(meters: number): string {
+  return meters < 1000
+    ? `${Math.round(meters)}m`
+    : `${(meters / 1000).toFixed(1)}km`;
+}
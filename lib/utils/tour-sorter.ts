@@ -8,6 +8,7 @@
  * 정렬 옵션:
  * 1. 최신순 (modifiedtime 기준 내림차순)
  * 2. 이름순 (title 기준 가나다순 오름차순)
+ * 3. 거리순 (dist 기준 오름차순, 내 주변 모드 전용)
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 정렬 옵션 섹션
  */
@@ -17,7 +18,7 @@ import type { TourItem } from "@/lib/types/tour";
 /**
  * 정렬 옵션 타입
  */
-export type SortOption = "latest" | "name";
+export type SortOption = "latest" | "name" | "distance";
 
 /**
  * 관광지를 최신순으로 정렬
@@ -65,11 +66,33 @@ export function sortByName(tours: TourItem[]): TourItem[] {
   });
 }
 
+/**
+ * 관광지를 거리순으로 정렬
+ *
+ * locationBasedList2 API가 반환하는 dist(미터)를 기준으로 오름차순 정렬합니다.
+ * dist가 없는 항목은 뒤로 보냅니다.
+ *
+ * @param tours - 정렬할 관광지 배열
+ * @returns 정렬된 관광지 배열
+ */
+export function sortByDistance(tours: TourItem[]): TourItem[] {
+  return [...tours].sort((a, b) => {
+    const distA = a.dist ? Number(a.dist) : Number.POSITIVE_INFINITY;
+    const distB = b.dist ? Number(b.dist) : Number.POSITIVE_INFINITY;
+
+    if (distA !== distB) {
+      return distA - distB;
+    }
+
+    return a.contentid.localeCompare(b.contentid);
+  });
+}
+
 /**
  * 정렬 옵션에 따라 관광지를 정렬
  *
  * @param tours - 정렬할 관광지 배열
- * @param sortOption - 정렬 옵션 ("latest" | "name")
+ * @param sortOption - 정렬 옵션 ("latest" | "name" | "distance")
  * @returns 정렬된 관광지 배열
  */
 export function sortTours(
@@ -81,6 +104,8 @@ export function sortTours(
       return sortByLatest(tours);
     case "name":
       return sortByName(tours);
+    case "distance":
+      return sortByDistance(tours);
     default:
       // 기본값: 최신순
       return sortByLatest(tours);
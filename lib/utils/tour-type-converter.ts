@@ -3,10 +3,13 @@
  * @description 관광 타입 변환 유틸리티
  *
  * 한국관광공사 API의 contenttypeid를 텍스트로 변환하는 함수를 제공합니다.
+ * 외국어 서비스는 콘텐츠타입ID 체계가 달라 국문 ID와 서로 변환하는 함수도 제공합니다.
  *
  * @see {@link /docs/prd.md#21-관광지-목록--지역타입-필터} - PRD 문서의 관광 타입 필터 섹션
  */
 
+import type { TourLocale } from "@/lib/utils/locale";
+
 /**
  * 관광 타입 ID를 텍스트로 변환
  *
@@ -42,6 +45,20 @@ export const TOUR_TYPE_IDS = [
   "39",
 ] as const;
 
+/**
+ * 축제공연행사 타입 ID
+ *
+ * 이 타입은 areaBasedList2 대신 searchFestival2로 행사 기간을 지정해 조회합니다.
+ */
+export const FESTIVAL_CONTENT_TYPE_ID = "15";
+
+/**
+ * 숙박 타입 ID
+ *
+ * 이 타입은 searchStay2로 조회하고, 상세페이지에서 detailInfo2 객실 정보를 표시합니다.
+ */
+export const STAY_CONTENT_TYPE_ID = "32";
+
 /**
  * 관광 타입 옵션 목록 (필터 등에서 사용)
  */
@@ -49,3 +66,64 @@ export const TOUR_TYPE_OPTIONS = TOUR_TYPE_IDS.map((id) => ({
   value: id,
   label: getTourTypeName(id),
 }));
+
+/**
+ * 국문 콘텐츠타입ID → 외국어 서비스(영문/일문/중문) 콘텐츠타입ID
+ *
+ * 여행코스(25)는 외국어 서비스에 대응하는 타입이 없습니다.
+ */
+const FOREIGN_CONTENT_TYPE_IDS: Record<string, string> = {
+  "12": "76", // 관광지
+  "14": "78", // 문화시설
+  "15": "85", // 축제공연행사
+  "28": "75", // 레포츠
+  "32": "80", // 숙박
+  "38": "79", // 쇼핑
+  "39": "82", // 음식점
+};
+
+/**
+ * 외국어 서비스 콘텐츠타입ID → 국문 콘텐츠타입ID
+ */
+const KOREAN_CONTENT_TYPE_IDS: Record<string, string> = Object.fromEntries(
+  Object.entries(FOREIGN_CONTENT_TYPE_IDS).map(([ko, foreign]) => [
+    foreign,
+    ko,
+  ]),
+);
+
+/**
+ * 국문 콘텐츠타입ID를 요청할 서비스의 콘텐츠타입ID로 변환
+ *
+ * @param contentTypeId - 국문 콘텐츠타입ID
+ * @param locale - 요청 로케일
+ * @returns 해당 서비스의 콘텐츠타입ID (대응하는 타입이 없으면 그대로 반환)
+ */
+export function toServiceContentTypeId(
+  contentTypeId: string,
+  locale: TourLocale,
+): string {
+  if (locale === "ko") {
+    return contentTypeId;
+  }
+  return FOREIGN_CONTENT_TYPE_IDS[contentTypeId] ?? contentTypeId;
+}
+
+/**
+ * 서비스 응답의 콘텐츠타입ID를 국문 콘텐츠타입ID로 변환
+ *
+ * 앱 전체(필터, 뱃지, 축제/숙박 분기)는 국문 ID를 기준으로 동작합니다.
+ *
+ * @param contentTypeId - 서비스 응답의 콘텐츠타입ID
+ * @param locale - 응답 로케일
+ * @returns 국문 콘텐츠타입ID (대응하는 타입이 없으면 그대로 반환)
+ */
+export function fromServiceContentTypeId(
+  contentTypeId: string,
+  locale: TourLocale,
+): string {
+  if (locale === "ko") {
+    return contentTypeId;
+  }
+  return KOREAN_CONTENT_TYPE_IDS[contentTypeId] ?? contentTypeId;
+}
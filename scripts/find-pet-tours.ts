@@ -4,7 +4,9 @@
  * 여러 관광지를 테스트해서 반려동물 정보가 있는 관광지를 찾습니다.
  */
 
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+// TOUR_API_BASE_URL을 설정하면 로컬 목 서버(scripts/mock-tour-api-server.ts)로 요청
+const BASE_URL =
+  process.env.TOUR_API_BASE_URL || "https://apis.data.go.kr/B551011/KorService2";
 const COMMON_PARAMS = {
   MobileOS: "ETC",
   MobileApp: "MyTrip",
@@ -0,0 +1,54 @@
+/**
+ * 한국관광공사 공공 API 목 서버
+ *
+ * 녹화된 픽스처로 KorService2 응답을 제공하는 로컬 서버입니다.
+ * 서비스 키나 네트워크 없이 앱과 scripts/test-pet-api*.ts를 실행할 수 있습니다.
+ *
+ * 실행 방법:
+ *   npx tsx scripts/mock-tour-api-server.ts
+ *
+ * 앱/스크립트 설정 (.env.local 또는 셸 환경변수):
+ *   TOUR_API_BASE_URL=http://localhost:4010/B551011/KorService2
+ *   TOUR_API_KEY=mock
+ *
+ * 장애 시나리오 (경로에 `_scenario/<이름>` 추가 또는 TOUR_API_MOCK_SCENARIO 설정):
+ *   quota, invalid-key, xml-error, rate-limit, server-error, flaky, slow, slow-<밀리초>
+ *   예: TOUR_API_BASE_URL=http://localhost:4010/_scenario/quota/B551011/KorService2
+ *
+ * 포트는 TOUR_API_MOCK_PORT 환경변수로 변경할 수 있습니다 (기본값: 4010).
+ */
+
+import { createServer } from "node:http";
+import { handleTourApiMockRequest } from "@/lib/api/mock/tour-api-mock";
+
+const PORT = Number(process.env.TOUR_API_MOCK_PORT) || 4010;
+
+const server = createServer(async (req, res) => {
+  try {
+    const request = new Request(`http://localhost:${PORT}${req.url ?? "/"}`, {
+      method: req.method,
+    });
+    const response = await handleTourApiMockRequest(request);
+
+    res.writeHead(
+      response.status,
+      response.statusText,
+      Object.fromEntries(response.headers),
+    );
+    res.end(await response.text());
+  } catch (error) {
+    console.error("❌ 목 응답 생성 실패:", error);
+    res.writeHead(500);
+    res.end("Mock server error");
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`✅ Tour API 목 서버 실행 중: http://localhost:${PORT}`);
+  console.log(
+    `   TOUR_API_BASE_URL=http://localhost:${PORT}/B551011/KorService2`,
+  );
+  if (process.env.TOUR_API_MOCK_SCENARIO) {
+    console.log(`   기본 시나리오: ${process.env.TOUR_API_MOCK_SCENARIO}`);
+  }
+});
@@ -0,0 +1,64 @@
+/**
+ * 반려동물 동반 가능 관광지 인덱스 갱신 스크립트
+ *
+ * 카탈로그 미러(tours)의 관광지 중 미확인/수정일 변경/30일 경과 관광지의
+ * detailPetTour2를 조회해 tour_pet_index에 저장합니다.
+ * 파서 규칙이 바뀐 항목은 API 호출 없이 저장된 정보를 다시 해석합니다.
+ * 먼저 scripts/sync-tours.ts로 카탈로그를 동기화해야 합니다.
+ *
+ * 실행 방법:
+ *   npx tsx --env-file=.env.local scripts/refresh-pet-index.ts
+ *   npx tsx --env-file=.env.local scripts/refresh-pet-index.ts --limit 1000
+ *
+ * 옵션:
+ *   --limit <N>   확인할 최대 관광지 수 (기본값: 200)
+ *
+ * 필요한 환경변수: TOUR_API_KEY(또는 TOUR_PET_API_KEY), NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { refreshPetIndex } from "@/lib/api/pet-index";
+
+function parseArgs(args: string[]): { limit?: number } {
+  const options: { limit?: number } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--limit") {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error("--limit 값은 1 이상의 정수여야 합니다.");
+      }
+      options.limit = value;
+    } else {
+      throw new Error(`알 수 없는 옵션: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  console.log("🐾 반려동물 인덱스 갱신 시작", options);
+
+  const result = await refreshPetIndex(options);
+
+  console.log("\n✅ 갱신 완료");
+  console.log(`   재해석: ${result.reparsed}건`);
+  console.log(`   확인: ${result.checked}건`);
+  console.log(`   동반 가능: ${result.petFriendly}건`);
+  console.log(`   실패: ${result.failed}건`);
+  if (result.interrupted) {
+    console.log(
+      "   ⚠️ 한도 초과/서비스 키 오류로 중단됨 (다음 실행에서 이어서 확인)",
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(
+    "❌ 갱신 실패:",
+    error instanceof Error ? error.message : error,
+  );
+  process.exit(1);
+});
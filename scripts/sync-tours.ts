@@ -0,0 +1,71 @@
+/**
+ * 관광지 카탈로그 미러 동기화 스크립트
+ *
+ * 한국관광공사 API(areaBasedSyncList2)의 관광지 목록을 Supabase tours 테이블에 복제합니다.
+ * 최초 실행은 전체 가져오기, 이후에는 마지막 성공 실행의 수정일부터 증분 동기화합니다.
+ *
+ * 실행 방법:
+ *   npx tsx --env-file=.env.local scripts/sync-tours.ts            # 증분 (기록이 없으면 전체)
+ *   npx tsx --env-file=.env.local scripts/sync-tours.ts --full     # 전체 가져오기
+ *   npx tsx --env-file=.env.local scripts/sync-tours.ts --details 500
+ *
+ * 옵션:
+ *   --full          전체 가져오기 (이번 실행에서 보이지 않은 관광지는 삭제)
+ *   --incremental   증분 동기화
+ *   --details <N>   상세 정보를 갱신할 최대 관광지 수 (기본값: 100, 0이면 생략)
+ *
+ * 필요한 환경변수: TOUR_API_KEY, NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ * (TOUR_API_BASE_URL을 설정하면 목 서버로 동기화할 수 있습니다)
+ */
+
+import { runTourSync } from "@/lib/api/tour-sync";
+import type { TourSyncMode } from "@/lib/types/tour-mirror";
+
+function parseArgs(args: string[]): {
+  mode?: TourSyncMode;
+  detailLimit?: number;
+} {
+  const options: { mode?: TourSyncMode; detailLimit?: number } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--full") {
+      options.mode = "full";
+    } else if (arg === "--incremental") {
+      options.mode = "incremental";
+    } else if (arg === "--details") {
+      const value = Number(args[++i]);
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error("--details 값은 0 이상의 정수여야 합니다.");
+      }
+      options.detailLimit = value;
+    } else {
+      throw new Error(`알 수 없는 옵션: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  console.log("🔄 관광지 카탈로그 동기화 시작", options);
+
+  const result = await runTourSync({ ...options, trigger: "cli" });
+
+  console.log("\n✅ 동기화 완료");
+  console.log(`   모드: ${result.mode}`);
+  console.log(`   받은 항목: ${result.fetched_count}건`);
+  console.log(`   추가/갱신: ${result.upserted_count}건`);
+  console.log(`   삭제: ${result.deleted_count}건`);
+  console.log(`   상세 정보 갱신: ${result.detail_count}건`);
+  console.log(`   최신 수정일: ${result.max_modified_time ?? "-"}`);
+}
+
+main().catch((error) => {
+  console.error(
+    "❌ 동기화 실패:",
+    error instanceof Error ? error.message : error,
+  );
+  process.exit(1);
+});
@@ -0,0 +1,395 @@
+/**
+ * 운영시간 파서 코퍼스 테스트
+ *
+ * detailIntro2 응답의 운영시간/휴무일 문구 코퍼스를 lib/utils/opening-hours-parser.ts로 해석해
+ * 기대한 요일별 운영시간/예외와 비교하고, 정해 둔 시각(한국 시간)의 영업 상태를 확인합니다.
+ * 코퍼스는 녹화된 목 응답(lib/api/mock/fixtures/detailIntro2.json)의 문구와
+ * 운영시간 정보에 자주 나오는 표현 유형별 문구로 구성됩니다.
+ *
+ * 실행 방법:
+ *   npx tsx scripts/test-opening-hours-parser.ts
+ *   npx tsx scripts/test-opening-hours-parser.ts --verbose   # 통과한 항목의 결과도 출력
+ *
+ * 파서 규칙을 바꿨다면 이 스크립트로 회귀 여부를 확인하고,
+ * 새로 발견한 문구는 코퍼스에 추가하세요.
+ */
+
+import fixtures from "@/lib/api/mock/fixtures/detailIntro2.json";
+import type { OpeningState, TourIntro } from "@/lib/types/tour";
+import {
+  formatOpeningRanges,
+  formatOpeningTime,
+  getOpeningStatus,
+  parseOpeningHours,
+  parseOpeningHoursText,
+} from "@/lib/utils/opening-hours-parser";
+
+interface CorpusCase {
+  /** 설명 */
+  name: string;
+  /** 운영시간/휴무일 문구 (intro가 없을 때) */
+  usetime?: string;
+  restdate?: string;
+  /** 소개 정보 (목 응답) */
+  intro?: TourIntro;
+  /** 기대값 (지정한 항목만 비교) */
+  expected: {
+    /** 요일별 운영시간 (일요일부터, null은 알 수 없음) */
+    weekly?: Array<string | null>;
+    alwaysOpen?: boolean;
+    lastEntry?: string | null;
+    closedOnHolidays?: boolean;
+    /** 예외 표시 문구 (순서 무관) */
+    exceptions?: string[];
+  };
+  /** 영업 상태 기대값 (시각은 한국 시간) */
+  statuses?: Array<{ at: string; state: OpeningState; time?: string }>;
+}
+
+const fixtureByContentId = new Map(
+  (fixtures as TourIntro[]).map((item) => [item.contentid, item]),
+);
+
+function fixture(contentId: string): TourIntro {
+  const item = fixtureByContentId.get(contentId);
+  if (!item) {
+    throw new Error(`목 응답에 없는 관광지: ${contentId}`);
+  }
+  return item;
+}
+
+/** 모든 요일이 같은 운영시간 */
+function everyDay(hours: string | null): Array<string | null> {
+  return Array.from({ length: 7 }, () => hours);
+}
+
+/** 특정 요일만 다른 운영시간 (0: 일요일 ~ 6: 토요일) */
+function withDays(
+  hours: string | null,
+  overrides: Record<number, string | null>,
+): Array<string | null> {
+  return everyDay(hours).map((value, day) =>
+    day in overrides ? overrides[day] : value,
+  );
+}
+
+const corpus: CorpusCase[] = [
+  // 녹화된 목 응답 문구
+  {
+    name: "관광지: 입장 마감, 매주 화요일 휴무",
+    intro: fixture("126508"),
+    expected: {
+      weekly: withDays("09:00~18:00", { 2: "휴무" }),
+      lastEntry: "17:00",
+      exceptions: [],
+    },
+    statuses: [
+      { at: "2026-10-20T10:00", state: "closed" },
+      { at: "2026-10-21T08:00", state: "closed", time: "09:00" },
+      { at: "2026-10-21T10:00", state: "open", time: "18:00" },
+      { at: "2026-10-21T17:10", state: "closing_soon", time: "18:00" },
+      { at: "2026-10-21T18:30", state: "closed" },
+    ],
+  },
+  {
+    name: "관광지: 상시 개방, 연중무휴",
+    intro: fixture("126535"),
+    expected: {
+      weekly: everyDay("24시간"),
+      alwaysOpen: true,
+      exceptions: [],
+    },
+    statuses: [{ at: "2026-10-21T03:00", state: "open" }],
+  },
+  {
+    name: "문화시설: 요일별 연장, 1월 1일/설날/추석 휴무",
+    intro: fixture("129703"),
+    expected: {
+      weekly: withDays("10:00~18:00", { 3: "10:00~21:00", 6: "10:00~21:00" }),
+      exceptions: ["1월 1일 휴무", "설날 당일 휴무", "추석 당일 휴무"],
+    },
+    statuses: [
+      { at: "2026-09-25T12:00", state: "closed" },
+      { at: "2026-01-01T12:00", state: "closed" },
+      { at: "2026-10-21T20:30", state: "closing_soon", time: "21:00" },
+      { at: "2026-10-20T20:30", state: "closed" },
+    ],
+  },
+  {
+    name: "쇼핑: 점포별 상이, 일부 점포 휴무 (메모)",
+    intro: fixture("2019720"),
+    expected: {
+      weekly: everyDay("09:00~23:00"),
+      exceptions: ["일요일 일부 점포 휴무"],
+    },
+    statuses: [{ at: "2026-10-18T12:00", state: "open" }],
+  },
+  {
+    name: "음식점: 일요일 휴무",
+    intro: fixture("126273"),
+    expected: {
+      weekly: withDays("11:00~21:00", { 0: "휴무" }),
+      exceptions: [],
+    },
+  },
+  {
+    name: "레포츠: 연중무휴",
+    intro: fixture("1965380"),
+    expected: { weekly: everyDay("09:00~18:00"), exceptions: [] },
+  },
+
+  // 요일별 운영시간
+  {
+    name: "평일/주말 운영시간",
+    usetime: "평일 10:00~18:00, 주말 및 공휴일 10:00~20:00",
+    expected: {
+      weekly: withDays("10:00~18:00", { 0: "10:00~20:00", 6: "10:00~20:00" }),
+    },
+  },
+  {
+    name: "요일 범위",
+    usetime: "화~일 09:00~18:00",
+    expected: { weekly: withDays("09:00~18:00", { 1: null }) },
+  },
+  {
+    name: "한글 시각 표현",
+    usetime: "오전 10시 ~ 오후 10시",
+    expected: { weekly: everyDay("10:00~22:00") },
+  },
+  {
+    name: "<br> 구분과 휴무 문구",
+    usetime: "매주 월요일 휴관<br>09:00~18:00",
+    expected: { weekly: withDays("09:00~18:00", { 1: "휴무" }) },
+  },
+  {
+    name: "자정 넘어 영업",
+    usetime: "18:00~익일 02:00",
+    restdate: "일요일 휴무",
+    expected: { weekly: withDays("18:00~익일 02:00", { 0: "휴무" }) },
+    statuses: [
+      { at: "2026-10-18T00:30", state: "open", time: "02:00" },
+      { at: "2026-10-18T01:30", state: "closing_soon", time: "02:00" },
+      { at: "2026-10-19T01:00", state: "closed" },
+    ],
+  },
+
+  // 브레이크타임, 매월 휴무
+  {
+    name: "브레이크타임, 라스트오더, 매월 둘째/넷째 월요일",
+    usetime: "11:30~22:00 (브레이크타임 15:00~17:00, 라스트오더 21:00)",
+    restdate: "매월 둘째, 넷째 월요일",
+    expected: {
+      weekly: everyDay("11:30~15:00, 17:00~22:00"),
+      lastEntry: "21:00",
+      exceptions: ["매월 둘째·넷째 월요일 휴무"],
+    },
+    statuses: [
+      { at: "2026-10-12T12:00", state: "closed" },
+      { at: "2026-10-19T12:00", state: "open", time: "15:00" },
+      { at: "2026-10-19T15:30", state: "closed", time: "17:00" },
+      { at: "2026-10-19T21:10", state: "closing_soon", time: "22:00" },
+    ],
+  },
+  {
+    name: "마지막 주 요일",
+    usetime: "10:00~19:00",
+    restdate: "매월 마지막 주 일요일",
+    expected: { exceptions: ["매월 마지막 일요일 휴무"] },
+    statuses: [
+      { at: "2026-10-25T12:00", state: "closed" },
+      { at: "2026-10-18T12:00", state: "open" },
+    ],
+  },
+
+  // 요일 휴무 + 공휴일 휴무 (요일 휴무가 공휴일 표현에 묻히지 않아야 함)
+  ...[
+    "일요일, 공휴일",
+    "일요일 및 공휴일",
+    "매주 일요일 및 법정공휴일",
+    "일요일 휴무, 공휴일 휴무",
+  ].map((restdate): CorpusCase => ({
+    name: `일요일 + 공휴일 휴무: ${restdate}`,
+    usetime: "09:00~18:00",
+    restdate,
+    expected: {
+      weekly: withDays("09:00~18:00", { 0: "휴무" }),
+      closedOnHolidays: true,
+      exceptions: [],
+    },
+    statuses: [
+      { at: "2026-10-18T12:00", state: "closed" },
+      { at: "2026-10-19T12:00", state: "open", time: "18:00" },
+    ],
+  })),
+  {
+    name: "운영시간 문구 속 요일 + 공휴일 휴무",
+    usetime: "09:00~18:00 (일요일 및 공휴일 휴무)",
+    expected: {
+      weekly: withDays("09:00~18:00", { 0: "휴무" }),
+      closedOnHolidays: true,
+    },
+    statuses: [{ at: "2026-10-18T12:00", state: "closed" }],
+  },
+  {
+    name: "공휴일만 휴무 (일요일은 영업)",
+    usetime: "09:00~18:00, 공휴일 휴무",
+    expected: {
+      weekly: everyDay("09:00~18:00"),
+      closedOnHolidays: true,
+    },
+    statuses: [{ at: "2026-10-18T12:00", state: "open" }],
+  },
+
+  // 계절별 운영시간
+  {
+    name: "하절기/동절기 운영시간, 공휴일 다음날 (메모)",
+    usetime: "하절기(3월~10월) 09:00~18:00 / 동절기(11월~2월) 09:00~17:00",
+    restdate: "매주 월요일(공휴일인 경우 그 다음날)",
+    expected: {
+      weekly: withDays(null, { 1: "휴무" }),
+      exceptions: [
+        "하절기(3월~10월) 09:00~18:00",
+        "동절기(11월~2월) 09:00~17:00",
+        "공휴일인 경우 그 다음날",
+      ],
+    },
+    statuses: [
+      { at: "2026-11-17T17:30", state: "closed" },
+      { at: "2026-10-20T17:30", state: "closing_soon", time: "18:00" },
+      { at: "2026-10-19T12:00", state: "closed" },
+    ],
+  },
+  {
+    name: "괄호 속 동절기 운영시간",
+    usetime: "09:00~18:00 (동절기 09:00~17:00)",
+    expected: {
+      weekly: everyDay("09:00~18:00"),
+      exceptions: ["동절기 09:00~17:00"],
+    },
+    statuses: [{ at: "2026-12-01T17:30", state: "closed" }],
+  },
+  {
+    name: "동절기 휴장",
+    usetime: "09:00~18:00",
+    restdate: "동절기(12~2월) 휴장",
+    expected: { exceptions: ["동절기 12~2월 휴장"] },
+    statuses: [
+      { at: "2027-01-10T12:00", state: "closed" },
+      { at: "2026-10-20T12:00", state: "open" },
+    ],
+  },
+
+  // 설날/추석
+  {
+    name: "설·추석 연휴",
+    restdate: "설·추석 연휴",
+    expected: {
+      weekly: everyDay(null),
+      exceptions: ["설날 연휴 휴무", "추석 연휴 휴무"],
+    },
+    statuses: [
+      { at: "2026-02-16T12:00", state: "closed" },
+      { at: "2026-02-20T12:00", state: "unknown" },
+    ],
+  },
+  {
+    name: "신정, 명절 당일",
+    usetime: "10:00~18:00",
+    restdate: "신정, 명절 당일",
+    expected: {
+      exceptions: ["1월 1일 휴무", "설날 당일 휴무", "추석 당일 휴무"],
+    },
+  },
+
+  // 해석할 수 없는 운영시간
+  {
+    name: "일출~일몰 (메모)",
+    usetime: "일출~일몰",
+    expected: { weekly: everyDay(null), exceptions: ["일출~일몰"] },
+    statuses: [{ at: "2026-10-20T12:00", state: "unknown" }],
+  },
+];
+
+/**
+ * 값 비교
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function run(verbose: boolean): number {
+  let failures = 0;
+
+  for (const testCase of corpus) {
+    const hours = testCase.intro
+      ? parseOpeningHours(testCase.intro)
+      : parseOpeningHoursText(
+          testCase.usetime ?? null,
+          testCase.restdate ?? null,
+        );
+    const errors: string[] = [];
+
+    if (!hours) {
+      errors.push("운영시간을 해석하지 못했습니다.");
+    } else {
+      const actual = {
+        weekly: hours.weekly.map((ranges) =>
+          ranges ? formatOpeningRanges(ranges) : null,
+        ),
+        alwaysOpen: hours.alwaysOpen,
+        lastEntry:
+          hours.lastEntry === null ? null : formatOpeningTime(hours.lastEntry),
+        closedOnHolidays: hours.closedOnHolidays,
+        exceptions: hours.exceptions.map((exception) => exception.label),
+      };
+
+      for (const [key, expectedValue] of Object.entries(testCase.expected)) {
+        let value = actual[key as keyof typeof actual];
+        let expected: unknown = expectedValue;
+        if (key === "exceptions") {
+          value = [...(value as string[])].sort();
+          expected = [...(expectedValue as string[])].sort();
+        }
+        if (!isEqual(value, expected)) {
+          errors.push(
+            `${key}: 기대 ${JSON.stringify(expected)}, 실제 ${JSON.stringify(value)}`,
+          );
+        }
+      }
+
+      for (const { at, state, time } of testCase.statuses ?? []) {
+        const status = getOpeningStatus(hours, new Date(`${at}:00+09:00`));
+        const statusTime = status.closesAt ?? status.opensAt;
+        if (
+          status.state !== state ||
+          (time !== undefined &&
+            (statusTime === null || formatOpeningTime(statusTime) !== time))
+        ) {
+          errors.push(
+            `${at}: 기대 ${state}${time ? ` (${time})` : ""}, 실제 ${JSON.stringify(status)}`,
+          );
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      failures++;
+      console.log(`❌ ${testCase.name}`);
+      errors.forEach((error) => console.log(`   ${error}`));
+      console.log(`   결과: ${JSON.stringify(hours)}`);
+    } else {
+      console.log(`✅ ${testCase.name}`);
+      if (verbose) {
+        console.log(`   결과: ${JSON.stringify(hours)}`);
+      }
+    }
+  }
+
+  console.log(
+    `\n📊 ${corpus.length}건 중 ${corpus.length - failures}건 통과, ${failures}건 실패`,
+  );
+  return failures;
+}
+
+const failures = run(process.argv.includes("--verbose"));
+process.exit(failures > 0 ? 1 : 0);
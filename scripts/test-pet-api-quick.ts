@@ -4,7 +4,9 @@
  * API를 직접 호출해서 반려동물 동반 가능한 관광지가 있는지 확인합니다.
  */
 
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+// TOUR_API_BASE_URL을 설정하면 로컬 목 서버(scripts/mock-tour-api-server.ts)로 요청
+const BASE_URL =
+  process.env.TOUR_API_BASE_URL || "https://apis.data.go.kr/B551011/KorService2";
 const API_KEY =
   "637bda9c5cbfe57e5f9bd8d403344dc96c3b8ec57e6ad52c980a355a554cffcc";
 
@@ -4,7 +4,9 @@
  * 실제 API를 호출해서 응답 구조를 확인합니다.
  */
 
-const BASE_URL = "https://apis.data.go.kr/B551011/KorService2";
+// TOUR_API_BASE_URL을 설정하면 로컬 목 서버(scripts/mock-tour-api-server.ts)로 요청
+const BASE_URL =
+  process.env.TOUR_API_BASE_URL || "https://apis.data.go.kr/B551011/KorService2";
 const COMMON_PARAMS = {
   MobileOS: "ETC",
   MobileApp: "MyTrip",
@@ -0,0 +1,377 @@
+/**
+ * 반려동물 동반 정보 파서 코퍼스 테스트
+ *
+ * detailPetTour2 응답 문구 코퍼스를 lib/utils/pet-info-parser.ts로 해석해
+ * 기대한 크기/체중/종류/구역/실내·실외/준비물 값과 비교합니다.
+ * 코퍼스는 녹화된 목 응답(lib/api/mock/fixtures/detailPetTour2.json)의 문구와
+ * 동반 정보에 자주 나오는 표현 유형별 문구로 구성됩니다.
+ *
+ * 실행 방법:
+ *   npx tsx scripts/test-pet-info-parser.ts
+ *   npx tsx scripts/test-pet-info-parser.ts --verbose   # 통과한 항목의 결과도 출력
+ *
+ * 파서 규칙을 바꿨다면 이 스크립트로 회귀 여부를 확인하고,
+ * 새로 발견한 문구는 코퍼스에 추가하세요.
+ */
+
+import fixtures from "@/lib/api/mock/fixtures/detailPetTour2.json";
+import type { PetInfoFacts, PetTourInfo } from "@/lib/types/tour";
+import { matchesPetFilter, parsePetInfo } from "@/lib/utils/pet-info-parser";
+
+type ExpectedFacts = {
+  [K in keyof PetInfoFacts]?: NonNullable<PetInfoFacts[K]>["value"] | null;
+};
+
+interface CorpusCase {
+  /** 설명 */
+  name: string;
+  /** 반려동물 동반 정보 (문구) */
+  petInfo: Partial<PetTourInfo>;
+  /** 기대값 (지정한 항목만 비교, null은 추출하지 않아야 함) */
+  expected: ExpectedFacts;
+  /** 필터 판별 기대값 */
+  filters?: Array<{
+    filter: Parameters<typeof matchesPetFilter>[1];
+    matches: boolean;
+  }>;
+}
+
+const fixtureByContentId = new Map(
+  (fixtures as PetTourInfo[]).map((item) => [item.contentid, item]),
+);
+
+function fixture(contentId: string): Partial<PetTourInfo> {
+  const item = fixtureByContentId.get(contentId);
+  if (!item) {
+    throw new Error(`목 응답에 없는 관광지: ${contentId}`);
+  }
+  return item;
+}
+
+const corpus: CorpusCase[] = [
+  // 녹화된 목 응답 문구
+  {
+    name: "전구역, 전 크기 (맹견 제외)",
+    petInfo: fixture("2750144"),
+    expected: {
+      sizes: ["small", "medium", "large"],
+      species: ["dog"],
+      area: "all",
+      indoor: true,
+      outdoor: true,
+      leashRequired: true,
+      muzzleRequired: null,
+      carrierRequired: null,
+    },
+    filters: [
+      { filter: { petSize: "large" }, matches: true },
+      { filter: { petType: "cat" }, matches: false },
+      { filter: { petPlace: "outdoor" }, matches: true },
+    ],
+  },
+  {
+    name: "전 견종, 해안 산책로",
+    petInfo: fixture("2788416"),
+    expected: {
+      sizes: ["small", "medium", "large"],
+      species: ["dog"],
+      area: "all",
+      outdoor: true,
+      leashRequired: true,
+    },
+  },
+  {
+    name: "10kg 이하 소형견, 펫 전용 객실",
+    petInfo: fixture("2866408"),
+    expected: {
+      sizes: ["small"],
+      maxWeightKg: 10,
+      species: ["dog"],
+      area: "partial",
+      indoor: true,
+      leashRequired: null,
+      carrierRequired: true,
+    },
+    filters: [
+      { filter: { petSize: "small", petPlace: "indoor" }, matches: true },
+      { filter: { petSize: "medium" }, matches: false },
+    ],
+  },
+  {
+    name: "소형견·중형견, 백사장 계절 제한",
+    petInfo: fixture("126081"),
+    expected: {
+      sizes: ["small", "medium"],
+      area: "partial",
+      indoor: null,
+      outdoor: true,
+      leashRequired: true,
+    },
+    filters: [
+      { filter: { petSize: "large" }, matches: false },
+      { filter: { petPlace: "indoor" }, matches: false },
+    ],
+  },
+  {
+    name: "소형견, 실내 시설은 이동장",
+    petInfo: fixture("264570"),
+    expected: {
+      sizes: ["small"],
+      area: "partial",
+      outdoor: true,
+      leashRequired: true,
+      carrierRequired: true,
+    },
+  },
+  {
+    name: "동반불가",
+    petInfo: fixture("1965380"),
+    expected: {
+      sizes: null,
+      species: null,
+      area: null,
+      indoor: null,
+      outdoor: null,
+    },
+    filters: [{ filter: {}, matches: true }],
+  },
+
+  // 크기/체중
+  {
+    name: "체중 미만 제한",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyPsblCpam: "7kg 미만 반려견",
+    },
+    expected: { sizes: ["small"], maxWeightKg: 7, species: ["dog"] },
+  },
+  {
+    name: "체중만 표기 (중형까지 추정)",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyPsblCpam: "15kg 이하 반려동물",
+    },
+    expected: { sizes: ["small", "medium"], maxWeightKg: 15 },
+  },
+  {
+    name: "체중 초과 불가",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyNeedMtr: "20kg 이상 반려견은 입장 불가",
+    },
+    expected: { maxWeightKg: 20, sizes: ["small", "medium"] },
+  },
+  {
+    name: "대형견 제외",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyPsblCpam: "대형견 동반 불가",
+    },
+    expected: { sizes: ["small", "medium"], species: ["dog"] },
+  },
+  {
+    name: "중형견까지",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyPsblCpam: "중형견까지 동반 가능",
+    },
+    expected: { sizes: ["small", "medium"] },
+  },
+  {
+    name: "소·중형견 가운뎃점",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyPsblCpam: "소·중형견",
+    },
+    expected: { sizes: ["small", "medium"] },
+  },
+  {
+    name: "중대형견",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyPsblCpam: "소형견, 중대형견 모두 가능",
+    },
+    expected: { sizes: ["small", "medium", "large"] },
+  },
+  {
+    name: "크기 제한 없음",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyPsblCpam: "크기 제한 없음",
+    },
+    expected: { sizes: ["small", "medium", "large"] },
+  },
+  {
+    name: "크기와 무관한 '대형' 표현",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      etcAcmpyInfo: "대형 버스 주차 가능",
+    },
+    expected: { sizes: null },
+  },
+
+  // 종류
+  {
+    name: "고양이 동반 불가",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyPsblCpam: "반려견 동반 가능, 고양이 동반 불가",
+    },
+    expected: { species: ["dog"] },
+    filters: [
+      { filter: { petType: "dog" }, matches: true },
+      { filter: { petType: "cat" }, matches: false },
+    ],
+  },
+  {
+    name: "반려견만",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyPsblCpam: "반려견만 동반 가능",
+    },
+    expected: { species: ["dog"] },
+  },
+  {
+    name: "고양이 가능",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyPsblCpam: "소형견, 고양이",
+      acmpyNeedMtr: "고양이는 이동장 필수",
+    },
+    expected: { species: ["dog", "cat"], carrierRequired: true },
+    filters: [{ filter: { petType: "cat" }, matches: true }],
+  },
+  {
+    name: "종류 미표기 (반려동물)",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyNeedMtr: "반려동물 배변 처리 필수",
+    },
+    expected: { species: ["dog", "cat"], leashRequired: null },
+  },
+
+  // 구역/실내·실외
+  {
+    name: "실외만 동반",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      etcAcmpyInfo: "야외 테라스석만 동반 가능",
+    },
+    expected: { area: "outdoor_only", indoor: false, outdoor: true },
+    filters: [
+      { filter: { petPlace: "indoor" }, matches: false },
+      { filter: { petPlace: "outdoor" }, matches: true },
+    ],
+  },
+  {
+    name: "실외에서만",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyNeedMtr: "실외 구역에서만 동반 가능, 목줄 착용",
+    },
+    expected: { area: "outdoor_only", indoor: false, leashRequired: true },
+  },
+  {
+    name: "실내 불가",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      etcAcmpyInfo: "실내 동반 불가",
+    },
+    expected: { indoor: false, outdoor: null },
+  },
+  {
+    name: "실내 가능",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      etcAcmpyInfo: "실내 좌석 이용 가능",
+    },
+    expected: { indoor: true },
+  },
+
+  // 준비물
+  {
+    name: "입마개",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      acmpyNeedMtr: "목줄 및 입마개 착용 필수",
+    },
+    expected: { leashRequired: true, muzzleRequired: true },
+  },
+  {
+    name: "케이지 이용",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      acmpyNeedMtr: "케이지 이용 시 실내 입장 가능",
+    },
+    expected: { carrierRequired: true, indoor: true },
+  },
+  {
+    name: "목줄 없이 이용",
+    petInfo: {
+      acmpyTypeCd: "일부구역 동반가능",
+      etcAcmpyInfo: "운동장은 목줄 없이 이용 가능",
+    },
+    expected: { leashRequired: false },
+  },
+  {
+    name: "유모차 대여 (필수 아님)",
+    petInfo: {
+      acmpyTypeCd: "전구역 동반가능",
+      etcAcmpyInfo: "펫 유모차 대여 가능",
+    },
+    expected: { carrierRequired: null },
+  },
+];
+
+/**
+ * 값 비교 (배열은 순서까지 비교)
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function run(verbose: boolean): number {
+  let failures = 0;
+
+  for (const testCase of corpus) {
+    const facts = parsePetInfo(testCase.petInfo as PetTourInfo);
+    const errors: string[] = [];
+
+    for (const [key, expectedValue] of Object.entries(testCase.expected)) {
+      const actual = facts[key as keyof PetInfoFacts]?.value ?? null;
+      if (!isEqual(actual, expectedValue)) {
+        errors.push(
+          `${key}: 기대 ${JSON.stringify(expectedValue)}, 실제 ${JSON.stringify(actual)}`,
+        );
+      }
+    }
+
+    for (const { filter, matches } of testCase.filters ?? []) {
+      if (matchesPetFilter(facts, filter) !== matches) {
+        errors.push(
+          `필터 ${JSON.stringify(filter)}: 기대 ${matches}, 실제 ${!matches}`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      failures++;
+      console.log(`❌ ${testCase.name}`);
+      errors.forEach((error) => console.log(`   ${error}`));
+      console.log(`   결과: ${JSON.stringify(facts)}`);
+    } else {
+      console.log(`✅ ${testCase.name}`);
+      if (verbose) {
+        console.log(`   결과: ${JSON.stringify(facts)}`);
+      }
+    }
+  }
+
+  console.log(
+    `\n📊 ${corpus.length}건 중 ${corpus.length - failures}건 통과, ${failures}건 실패`,
+  );
+  return failures;
+}
+
+const failures = run(process.argv.includes("--verbose"));
+process.exit(failures > 0 ? 1 : 0);
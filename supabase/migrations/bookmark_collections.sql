@@ -0,0 +1,93 @@
+-- =====================================================
+-- 마이그레이션: 북마크 컬렉션 (bookmark_collections, collection_items)
+-- 작성일: 2025-11-26
+-- 설명: 북마크를 이름 있는 컬렉션(폴더)으로 묶어서 관리
+--       - 예: "부산 2박3일", "비 오는 날"
+--       - 하나의 북마크를 여러 컬렉션에 담을 수 있음 (다대다)
+--       - 컬렉션 안의 순서는 사용자가 직접 정렬 (position)
+--       - bookmarks 테이블(mytour.sql) 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- bookmark_collections 테이블 (사용자별 컬렉션)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.bookmark_collections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),  -- 컬렉션 이름
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    -- 동일 사용자가 같은 이름의 컬렉션을 중복 생성하지 않도록 제약
+    CONSTRAINT unique_user_collection_name UNIQUE(user_id, name)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.bookmark_collections OWNER TO postgres;
+
+-- 인덱스 생성 (사용자별 조회)
+CREATE INDEX IF NOT EXISTS idx_bookmark_collections_user_id
+    ON public.bookmark_collections(user_id, created_at);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.bookmark_collections DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.bookmark_collections TO anon;
+GRANT ALL ON TABLE public.bookmark_collections TO authenticated;
+GRANT ALL ON TABLE public.bookmark_collections TO service_role;
+
+-- =====================================================
+-- collection_items 테이블 (컬렉션 ↔ 북마크 다대다)
+-- =====================================================
+-- 북마크를 삭제하면 모든 컬렉션에서 함께 제거됨
+-- position은 컬렉션 안의 표시 순서 (작을수록 앞)
+
+CREATE TABLE IF NOT EXISTS public.collection_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    collection_id UUID NOT NULL REFERENCES public.bookmark_collections(id) ON DELETE CASCADE,
+    bookmark_id UUID NOT NULL REFERENCES public.bookmarks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    -- 같은 북마크를 한 컬렉션에 중복으로 담지 않도록 제약
+    CONSTRAINT unique_collection_bookmark UNIQUE(collection_id, bookmark_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.collection_items OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_collection_items_collection_id
+    ON public.collection_items(collection_id, position);
+CREATE INDEX IF NOT EXISTS idx_collection_items_bookmark_id
+    ON public.collection_items(bookmark_id);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.collection_items DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.collection_items TO anon;
+GRANT ALL ON TABLE public.collection_items TO authenticated;
+GRANT ALL ON TABLE public.collection_items TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.bookmark_collections IS '사용자별 북마크 컬렉션 (폴더)';
+COMMENT ON TABLE public.collection_items IS '컬렉션에 담긴 북마크 (다대다, 직접 정렬 순서 포함)';
+COMMENT ON COLUMN public.collection_items.position IS '컬렉션 안의 표시 순서 (작을수록 앞)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 북마크 컬렉션 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. bookmark_collections (사용자별 컬렉션)';
+    RAISE NOTICE '   2. collection_items (컬렉션 ↔ 북마크, 직접 정렬 순서)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시:';
+    RAISE NOTICE '   INSERT INTO bookmark_collections (user_id, name)';
+    RAISE NOTICE '   VALUES (''user-uuid'', ''부산 2박3일'');';
+END $$;
@@ -0,0 +1,48 @@
+-- =====================================================
+-- 마이그레이션: 북마크 여행 기록 (bookmarks)
+-- 작성일: 2025-11-27
+-- 설명: 북마크에 개인 메모, 태그, 방문 상태, 방문일, 평점 저장
+--       - 메모(note)는 마크다운 원문으로 저장
+--       - 상태: want(가고 싶음), visited(방문함)
+--       - 평점: 1~5 (선택)
+--       - bookmarks 테이블(mytour.sql) 이후에 실행
+-- =====================================================
+
+-- =====================================================
+-- bookmarks 테이블 여행 기록 컬럼 추가
+-- =====================================================
+
+ALTER TABLE public.bookmarks
+    ADD COLUMN IF NOT EXISTS note TEXT CHECK (note IS NULL OR char_length(note) <= 5000),  -- 메모 (마크다운)
+    ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',  -- 태그
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'want'
+        CHECK (status IN ('want', 'visited')),  -- 방문 상태
+    ADD COLUMN IF NOT EXISTS visited_at DATE,  -- 방문일 (선택)
+    ADD COLUMN IF NOT EXISTS rating SMALLINT CHECK (rating IS NULL OR rating BETWEEN 1 AND 5),  -- 평점 (선택)
+    ADD COLUMN IF NOT EXISTS journal_updated_at TIMESTAMP WITH TIME ZONE;  -- 기록 수정일시
+
+-- 인덱스 생성 (태그/상태 필터)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_tags ON public.bookmarks USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_status ON public.bookmarks(user_id, status);
+
+-- 컬럼 설명
+COMMENT ON COLUMN public.bookmarks.note IS '개인 메모 (마크다운 원문, 최대 5000자)';
+COMMENT ON COLUMN public.bookmarks.tags IS '자유 태그 (예: {바다,야경})';
+COMMENT ON COLUMN public.bookmarks.status IS '방문 상태 (want: 가고 싶음, visited: 방문함)';
+COMMENT ON COLUMN public.bookmarks.visited_at IS '방문일 (선택)';
+COMMENT ON COLUMN public.bookmarks.rating IS '개인 평점 (1~5, 선택)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 북마크 여행 기록 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 추가된 컬럼 (bookmarks):';
+    RAISE NOTICE '   note, tags, status, visited_at, rating, journal_updated_at';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시 (방문한 곳 중 평점 4 이상):';
+    RAISE NOTICE '   SELECT content_id, title FROM bookmarks';
+    RAISE NOTICE '   WHERE status = ''visited'' AND rating >= 4;';
+END $$;
@@ -0,0 +1,58 @@
+-- =====================================================
+-- 마이그레이션: 북마크 관광지 스냅샷 (bookmarks)
+-- 작성일: 2025-11-25
+-- 설명: 북마크 행에 관광지 요약 정보를 비정규화하여 저장
+--       - 북마크 목록을 Supabase 쿼리 한 번으로 렌더링 (관광지별 상세 API 호출 제거)
+--       - 북마크 추가 시 스냅샷을 함께 저장하고, 오래된 스냅샷은 백그라운드에서 갱신
+--       - bookmarks 테이블(mytour.sql) 이후에 실행
+--       - 기존 북마크는 스냅샷 컬럼이 NULL이며, 목록 조회 시 백그라운드에서 채워짐
+-- =====================================================
+
+-- =====================================================
+-- bookmarks 테이블 스냅샷 컬럼 추가
+-- =====================================================
+
+ALTER TABLE public.bookmarks
+    ADD COLUMN IF NOT EXISTS title TEXT,  -- 관광지명
+    ADD COLUMN IF NOT EXISTS addr1 TEXT,  -- 주소
+    ADD COLUMN IF NOT EXISTS addr2 TEXT,  -- 상세주소
+    ADD COLUMN IF NOT EXISTS area_code TEXT,  -- 지역코드 (시/도)
+    ADD COLUMN IF NOT EXISTS sigungu_code TEXT,  -- 시군구코드
+    ADD COLUMN IF NOT EXISTS content_type_id TEXT,  -- 콘텐츠타입ID
+    ADD COLUMN IF NOT EXISTS cat1 TEXT,  -- 대분류 카테고리
+    ADD COLUMN IF NOT EXISTS cat2 TEXT,  -- 중분류 카테고리
+    ADD COLUMN IF NOT EXISTS cat3 TEXT,  -- 소분류 카테고리
+    ADD COLUMN IF NOT EXISTS mapx TEXT,  -- 경도 (API mapx 원문)
+    ADD COLUMN IF NOT EXISTS mapy TEXT,  -- 위도 (API mapy 원문)
+    ADD COLUMN IF NOT EXISTS first_image TEXT,  -- 대표이미지1
+    ADD COLUMN IF NOT EXISTS first_image2 TEXT,  -- 대표이미지2 (썸네일)
+    ADD COLUMN IF NOT EXISTS tel TEXT,  -- 전화번호
+    ADD COLUMN IF NOT EXISTS modified_time TEXT,  -- 관광지 수정일 (API modifiedtime, YYYYMMDDHHMMSS)
+    ADD COLUMN IF NOT EXISTS snapshot_locale TEXT,  -- 스냅샷 로케일 (ko, en, ja, zh)
+    ADD COLUMN IF NOT EXISTS snapshot_at TIMESTAMP WITH TIME ZONE;  -- 스냅샷 저장일시
+
+-- 인덱스 생성 (스냅샷 갱신 대상 조회)
+CREATE INDEX IF NOT EXISTS idx_bookmarks_snapshot_at
+    ON public.bookmarks(user_id, snapshot_at NULLS FIRST);
+
+-- 컬럼 설명
+COMMENT ON COLUMN public.bookmarks.area_code IS '지역코드 (북마크 목록 지역별 정렬에 사용)';
+COMMENT ON COLUMN public.bookmarks.modified_time IS '관광지 수정일 (API modifiedtime, YYYYMMDDHHMMSS)';
+COMMENT ON COLUMN public.bookmarks.snapshot_locale IS '스냅샷을 조회한 로케일 (콘텐츠 ID가 속한 언어 서비스)';
+COMMENT ON COLUMN public.bookmarks.snapshot_at IS '스냅샷 저장일시 (NULL이면 아직 저장되지 않음)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 북마크 스냅샷 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 추가된 컬럼 (bookmarks):';
+    RAISE NOTICE '   title, addr1, addr2, area_code, sigungu_code, content_type_id,';
+    RAISE NOTICE '   cat1, cat2, cat3, mapx, mapy, first_image, first_image2, tel,';
+    RAISE NOTICE '   modified_time, snapshot_locale, snapshot_at';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시 (스냅샷이 없는 북마크 조회):';
+    RAISE NOTICE '   SELECT id, content_id FROM bookmarks WHERE snapshot_at IS NULL;';
+END $$;
@@ -0,0 +1,139 @@
+-- =====================================================
+-- 마이그레이션: 컬렉션 공유 (collection_members, collection_invites)
+-- 작성일: 2025-12-08
+-- 설명: 여행을 함께 준비하는 사람들과 컬렉션을 공유
+--       - 컬렉션 소유자(bookmark_collections.user_id)가 다른 사용자를
+--         이메일 또는 초대 링크로 초대
+--       - 역할: viewer(보기만), editor(관광지 담기/빼기/순서 변경)
+--       - 컬렉션 이름 변경/삭제, 멤버 관리는 소유자만 가능
+--       - 항목을 담은 사람은 collection_items.bookmark_id가 가리키는
+--         북마크의 user_id (각자 자기 북마크를 컬렉션에 담음)
+--       - 멤버들의 변경 사항을 실시간으로 받기 위해 Realtime publication에 추가
+--       - bookmark_collections.sql 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- collection_members 테이블 (컬렉션 ↔ 멤버)
+-- =====================================================
+-- 소유자는 멤버 행 없이 bookmark_collections.user_id로 판별
+-- 컬렉션 또는 사용자를 삭제하면 멤버십도 함께 삭제됨
+
+CREATE TABLE IF NOT EXISTS public.collection_members (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    collection_id UUID NOT NULL REFERENCES public.bookmark_collections(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    -- 같은 사용자를 한 컬렉션에 중복으로 추가하지 않도록 제약
+    CONSTRAINT unique_collection_member UNIQUE(collection_id, user_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.collection_members OWNER TO postgres;
+
+-- 인덱스 생성 (내가 멤버인 컬렉션 조회)
+CREATE INDEX IF NOT EXISTS idx_collection_members_user_id
+    ON public.collection_members(user_id);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.collection_members DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.collection_members TO anon;
+GRANT ALL ON TABLE public.collection_members TO authenticated;
+GRANT ALL ON TABLE public.collection_members TO service_role;
+
+-- =====================================================
+-- collection_invites 테이블 (초대)
+-- =====================================================
+-- email이 있으면 해당 이메일 사용자만 한 번 수락할 수 있는 이메일 초대
+-- email이 없으면 링크를 받은 누구나 만료 전까지 수락할 수 있는 초대 링크
+-- 취소하거나 거절한 초대는 revoked_at 기록
+
+CREATE TABLE IF NOT EXISTS public.collection_invites (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    collection_id UUID NOT NULL REFERENCES public.bookmark_collections(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE CHECK (token ~ '^[A-Za-z0-9_-]{16,64}$'),
+    email TEXT CHECK (email IS NULL OR email = lower(email)),
+    role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor')),
+    created_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.collection_invites OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_collection_invites_collection_id
+    ON public.collection_invites(collection_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_collection_invites_email
+    ON public.collection_invites(email)
+    WHERE email IS NOT NULL;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.collection_invites DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.collection_invites TO anon;
+GRANT ALL ON TABLE public.collection_invites TO authenticated;
+GRANT ALL ON TABLE public.collection_invites TO service_role;
+
+-- =====================================================
+-- Realtime (멤버의 변경 사항을 실시간으로 반영)
+-- =====================================================
+-- DELETE 이벤트에도 collection_id가 포함되도록 REPLICA IDENTITY FULL 설정
+
+ALTER TABLE public.bookmark_collections REPLICA IDENTITY FULL;
+ALTER TABLE public.collection_items REPLICA IDENTITY FULL;
+ALTER TABLE public.collection_members REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'bookmark_collections'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE public.bookmark_collections;
+        END IF;
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'collection_items'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE public.collection_items;
+        END IF;
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'collection_members'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE public.collection_members;
+        END IF;
+    END IF;
+END $$;
+
+-- 테이블 설명
+COMMENT ON TABLE public.collection_members IS '공유 컬렉션 멤버 (소유자 제외, viewer/editor)';
+COMMENT ON TABLE public.collection_invites IS '컬렉션 초대 (email이 있으면 이메일 초대, 없으면 초대 링크)';
+COMMENT ON COLUMN public.collection_members.role IS 'viewer: 보기만, editor: 관광지 담기/빼기/순서 변경';
+COMMENT ON COLUMN public.collection_invites.token IS '초대 링크 주소 (/invites/[token])';
+COMMENT ON COLUMN public.collection_invites.email IS '초대받은 이메일 (소문자, 초대 링크는 NULL)';
+COMMENT ON COLUMN public.collection_invites.revoked_at IS '소유자가 취소했거나 초대받은 사람이 거절한 일시';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 컬렉션 공유 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. collection_members (공유 컬렉션 멤버, viewer/editor)';
+    RAISE NOTICE '   2. collection_invites (이메일 초대, 초대 링크)';
+    RAISE NOTICE '';
+    RAISE NOTICE '📡 Realtime: bookmark_collections, collection_items, collection_members';
+END $$;
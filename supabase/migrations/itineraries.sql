@@ -0,0 +1,108 @@
+-- =====================================================
+-- 마이그레이션: 여행 일정 (itineraries, itinerary_stops)
+-- 작성일: 2025-12-15
+-- 설명: 날짜별/시간대별 여행 일정 만들기
+--       - 여행(itineraries)은 제목과 기간(시작일~종료일, 최대 30일)을 가짐
+--       - 일정(itinerary_stops)은 몇째 날(day_index, 0부터)의
+--         어느 시간대(time_slot)에 몇 번째(position)로 들르는지 저장
+--       - 북마크/검색 결과에서 끌어온 관광지는 content_id와 관광지 요약
+--         (제목, 주소, 좌표, 이미지)을 함께 저장 (지도 경로 표시용)
+--       - 관광지가 아닌 자유 일정(예: "호텔 체크인")은 content_id 없이 제목만 저장
+--       - users 테이블(mytour.sql) 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- itineraries 테이블 (여행)
+-- =====================================================
+-- 사용자를 삭제하면 여행도 함께 삭제됨
+
+CREATE TABLE IF NOT EXISTS public.itineraries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 60),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    -- 종료일은 시작일 이후, 기간은 최대 30일
+    CONSTRAINT itinerary_date_range CHECK (
+        end_date >= start_date AND end_date - start_date < 30
+    )
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.itineraries OWNER TO postgres;
+
+-- 인덱스 생성 (사용자별 여행 목록, 출발일순)
+CREATE INDEX IF NOT EXISTS idx_itineraries_user_id
+    ON public.itineraries(user_id, start_date);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.itineraries DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.itineraries TO anon;
+GRANT ALL ON TABLE public.itineraries TO authenticated;
+GRANT ALL ON TABLE public.itineraries TO service_role;
+
+-- =====================================================
+-- itinerary_stops 테이블 (날짜/시간대별 일정)
+-- =====================================================
+-- 여행을 삭제하면 일정도 함께 삭제됨
+-- 같은 날짜/시간대 안의 순서는 position 오름차순
+
+CREATE TABLE IF NOT EXISTS public.itinerary_stops (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    itinerary_id UUID NOT NULL REFERENCES public.itineraries(id) ON DELETE CASCADE,
+    day_index INTEGER NOT NULL CHECK (day_index >= 0 AND day_index < 30),
+    time_slot TEXT NOT NULL CHECK (
+        time_slot IN ('morning', 'lunch', 'afternoon', 'dinner', 'evening')
+    ),
+    position INTEGER NOT NULL DEFAULT 0,
+    content_id TEXT,  -- 관광지 콘텐츠 ID (자유 일정은 NULL)
+    content_type_id TEXT,
+    title TEXT NOT NULL CHECK (char_length(btrim(title)) BETWEEN 1 AND 100),
+    addr1 TEXT,
+    mapx TEXT,  -- 경도 (API mapx 원문)
+    mapy TEXT,  -- 위도 (API mapy 원문)
+    first_image TEXT,
+    note TEXT CHECK (note IS NULL OR char_length(note) <= 200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.itinerary_stops OWNER TO postgres;
+
+-- 인덱스 생성 (여행별 일정을 날짜/시간대/순서대로 조회)
+CREATE INDEX IF NOT EXISTS idx_itinerary_stops_itinerary_id
+    ON public.itinerary_stops(itinerary_id, day_index, time_slot, position);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.itinerary_stops DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.itinerary_stops TO anon;
+GRANT ALL ON TABLE public.itinerary_stops TO authenticated;
+GRANT ALL ON TABLE public.itinerary_stops TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.itineraries IS '사용자별 여행 (제목, 기간)';
+COMMENT ON TABLE public.itinerary_stops IS '여행의 날짜/시간대별 일정 (관광지 또는 자유 일정)';
+COMMENT ON COLUMN public.itineraries.end_date IS '여행 종료일 (시작일 포함 최대 30일)';
+COMMENT ON COLUMN public.itinerary_stops.day_index IS '몇째 날인지 (0: 시작일)';
+COMMENT ON COLUMN public.itinerary_stops.time_slot IS 'morning: 오전, lunch: 점심, afternoon: 오후, dinner: 저녁, evening: 밤';
+COMMENT ON COLUMN public.itinerary_stops.content_id IS '관광지 콘텐츠 ID (자유 일정은 NULL)';
+COMMENT ON COLUMN public.itinerary_stops.note IS '일정 메모 (최대 200자)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 여행 일정 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. itineraries (여행 제목, 기간)';
+    RAISE NOTICE '   2. itinerary_stops (날짜/시간대별 관광지, 자유 일정)';
+END $$;
@@ -0,0 +1,63 @@
+-- =====================================================
+-- 마이그레이션: 반려동물 프로필 (pets)
+-- 작성일: 2025-11-24
+-- 설명: 사용자별 반려동물 프로필 저장
+--       - 홈 필터의 "내 반려동물 기준으로 보기"가 크기/종류 조건을 자동 적용
+--       - 관광지 카드/상세에서 반려동물별 동반 가능 여부 표시
+--       - users 테이블(mytour.sql) 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- pets 테이블 (사용자별 반려동물 프로필)
+-- =====================================================
+-- 크기(size_class)는 체중으로 자동 계산하거나 사용자가 직접 선택
+-- 소형: 10kg 이하, 중형: 25kg 이하, 대형: 25kg 초과
+
+CREATE TABLE IF NOT EXISTS public.pets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    species TEXT NOT NULL CHECK (species IN ('dog', 'cat')),  -- 종류
+    breed TEXT,  -- 품종 (선택)
+    weight_kg NUMERIC(5, 2) CHECK (weight_kg IS NULL OR weight_kg > 0),  -- 체중 (선택)
+    size_class TEXT NOT NULL CHECK (size_class IN ('small', 'medium', 'large')),  -- 크기
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.pets OWNER TO postgres;
+
+-- 인덱스 생성 (사용자별 조회)
+CREATE INDEX IF NOT EXISTS idx_pets_user_id ON public.pets(user_id, created_at);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.pets DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.pets TO anon;
+GRANT ALL ON TABLE public.pets TO authenticated;
+GRANT ALL ON TABLE public.pets TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.pets IS '사용자별 반려동물 프로필';
+COMMENT ON COLUMN public.pets.user_id IS 'users 테이블의 사용자 ID';
+COMMENT ON COLUMN public.pets.species IS '종류 (dog, cat)';
+COMMENT ON COLUMN public.pets.weight_kg IS '체중 (kg, 선택)';
+COMMENT ON COLUMN public.pets.size_class IS '크기 (small: 10kg 이하, medium: 25kg 이하, large: 25kg 초과)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 반려동물 프로필 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. pets (사용자별 반려동물 프로필)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 사용 예시:';
+    RAISE NOTICE '   INSERT INTO pets (user_id, name, species, weight_kg, size_class)';
+    RAISE NOTICE '   VALUES (''user-uuid'', ''초코'', ''dog'', 6.5, ''small'');';
+END $$;
@@ -0,0 +1,88 @@
+-- =====================================================
+-- 마이그레이션: 공개 북마크 리스트 (public_lists)
+-- 작성일: 2025-11-28
+-- 설명: 북마크 목록(전체 또는 컬렉션)을 /lists/[slug] 주소로 공개
+--       - 읽기 전용 공개 페이지 (관광지 스냅샷만 공개, 메모/태그/평점은 비공개)
+--       - 공개 중단(is_published = false) 후 다시 공개하면 같은 주소 유지
+--       - 조회수는 increment_public_list_view 함수로 증가
+--       - bookmark_collections 테이블(bookmark_collections.sql) 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- public_lists 테이블
+-- =====================================================
+-- collection_id가 NULL이면 사용자의 전체 북마크를 공개
+-- 공개 페이지는 요청 시점의 북마크/컬렉션 내용을 그대로 표시
+
+CREATE TABLE IF NOT EXISTS public.public_lists (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    collection_id UUID REFERENCES public.bookmark_collections(id) ON DELETE CASCADE,
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9][a-z0-9-]{2,63}$'),  -- 공개 주소
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 60),
+    description TEXT CHECK (char_length(description) <= 300),
+    is_published BOOLEAN NOT NULL DEFAULT true,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    published_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.public_lists OWNER TO postgres;
+
+-- 사용자당 전체 북마크 공개 1개, 컬렉션당 공개 1개
+CREATE UNIQUE INDEX IF NOT EXISTS idx_public_lists_user_all
+    ON public.public_lists(user_id)
+    WHERE collection_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_public_lists_collection
+    ON public.public_lists(collection_id)
+    WHERE collection_id IS NOT NULL;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.public_lists DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.public_lists TO anon;
+GRANT ALL ON TABLE public.public_lists TO authenticated;
+GRANT ALL ON TABLE public.public_lists TO service_role;
+
+-- =====================================================
+-- 조회수 증가 함수
+-- =====================================================
+-- 공개 중인 리스트만 증가 (동시 요청에도 누락 없이 원자적으로 증가)
+
+CREATE OR REPLACE FUNCTION public.increment_public_list_view(p_slug TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    UPDATE public.public_lists
+    SET view_count = view_count + 1
+    WHERE slug = p_slug AND is_published
+    RETURNING view_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_public_list_view(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.increment_public_list_view(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_public_list_view(TEXT) TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.public_lists IS '공개 북마크 리스트 (/lists/[slug])';
+COMMENT ON COLUMN public.public_lists.collection_id IS '공개할 컬렉션 (NULL이면 전체 북마크)';
+COMMENT ON COLUMN public.public_lists.is_published IS '공개 여부 (false면 공개 페이지 404)';
+COMMENT ON COLUMN public.public_lists.view_count IS '공개 페이지 조회수';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 공개 북마크 리스트 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. public_lists (공개 주소, 제목, 공개 여부, 조회수)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🔧 생성된 함수:';
+    RAISE NOTICE '   1. increment_public_list_view(slug) - 조회수 증가';
+END $$;
@@ -0,0 +1,125 @@
+-- =====================================================
+-- 마이그레이션: 반려동물 동반 가능 관광지 인덱스 (tour_pet_index)
+-- 작성일: 2025-11-22
+-- 설명: 관광지별 detailPetTour2 결과를 미리 조회해 저장
+--       - 백그라운드 작업(/api/tours/pet-index, scripts/refresh-pet-index.ts)이 갱신
+--       - 반려동물 필터는 pet_friendly_tours 뷰 한 번 조회로 페이지/전체 개수 계산
+--       - tours 테이블(tours_mirror.sql) 이후에 실행
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- =====================================================
+-- tour_pet_index 테이블 (관광지별 반려동물 정보)
+-- =====================================================
+-- 반려동물 정보가 없는 관광지도 확인 시각을 남겨 다시 조회하지 않도록 함
+-- 관광지 수정일(tours.modified_time)이 바뀌거나 오래되면 다시 확인
+
+CREATE TABLE IF NOT EXISTS public.tour_pet_index (
+    content_id TEXT PRIMARY KEY REFERENCES public.tours(content_id) ON DELETE CASCADE,
+    pet_info JSONB,  -- detailPetTour2 응답 항목 (정보가 없으면 NULL)
+    pet_friendly BOOLEAN NOT NULL DEFAULT false,  -- 동반 가능 여부 (정보가 있고 "불가"가 아님)
+    acmpy_type_cd TEXT,  -- 동반 타입 (필터용 복사본)
+    acmpy_psbl_cpam TEXT,  -- 동반 가능 대상 (필터용 복사본)
+    acmpy_need_mtr TEXT,  -- 동반 필요 사항 (필터용 복사본)
+    etc_acmpy_info TEXT,  -- 기타 동반 정보 (필터용 복사본)
+    source_modified_time TEXT,  -- 확인 당시 tours.modified_time
+    checked_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_pet_index OWNER TO postgres;
+
+-- 인덱스 생성 (동반 가능 관광지 조회, 재확인 대상 조회)
+CREATE INDEX IF NOT EXISTS idx_tour_pet_index_friendly ON public.tour_pet_index(content_id) WHERE pet_friendly;
+CREATE INDEX IF NOT EXISTS idx_tour_pet_index_checked_at ON public.tour_pet_index(checked_at);
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_pet_index DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (읽기 전용으로 공개, 쓰기는 백그라운드 작업만)
+GRANT SELECT ON TABLE public.tour_pet_index TO anon;
+GRANT SELECT ON TABLE public.tour_pet_index TO authenticated;
+GRANT ALL ON TABLE public.tour_pet_index TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_pet_index IS '관광지별 반려동물 동반 정보 인덱스 (detailPetTour2 사전 조회 결과)';
+COMMENT ON COLUMN public.tour_pet_index.pet_info IS 'detailPetTour2 응답 항목 (정보가 없으면 NULL)';
+COMMENT ON COLUMN public.tour_pet_index.pet_friendly IS '반려동물 동반 가능 여부';
+COMMENT ON COLUMN public.tour_pet_index.source_modified_time IS '확인 당시 관광지 수정일 (바뀌면 재확인)';
+
+-- =====================================================
+-- pet_friendly_tours 뷰 (반려동물 필터 조회용)
+-- =====================================================
+-- 동반 가능한 관광지의 목록 필드와 반려동물 정보를 한 행으로 제공
+
+CREATE OR REPLACE VIEW public.pet_friendly_tours AS
+SELECT
+    t.content_id,
+    t.content_type_id,
+    t.title,
+    t.addr1,
+    t.addr2,
+    t.area_code,
+    t.sigungu_code,
+    t.cat1,
+    t.cat2,
+    t.cat3,
+    t.mapx,
+    t.mapy,
+    t.first_image,
+    t.first_image2,
+    t.tel,
+    t.modified_time,
+    p.pet_info,
+    p.acmpy_type_cd,
+    p.acmpy_psbl_cpam,
+    p.acmpy_need_mtr,
+    p.etc_acmpy_info,
+    p.checked_at
+FROM public.tour_pet_index p
+JOIN public.tours t ON t.content_id = p.content_id
+WHERE p.pet_friendly;
+
+GRANT SELECT ON public.pet_friendly_tours TO anon;
+GRANT SELECT ON public.pet_friendly_tours TO authenticated;
+GRANT SELECT ON public.pet_friendly_tours TO service_role;
+
+COMMENT ON VIEW public.pet_friendly_tours IS '반려동물 동반 가능 관광지 (tours + tour_pet_index)';
+
+-- =====================================================
+-- tour_pet_index_pending 뷰 (재확인 대상)
+-- =====================================================
+-- 아직 확인하지 않았거나, 수정일이 바뀌었거나, 30일 이상 지난 관광지
+-- 확인한 적 없는 관광지를 먼저, 그다음 오래전에 확인한 순서
+
+CREATE OR REPLACE VIEW public.tour_pet_index_pending AS
+SELECT
+    t.content_id,
+    t.modified_time,
+    p.checked_at
+FROM public.tours t
+LEFT JOIN public.tour_pet_index p ON p.content_id = t.content_id
+WHERE p.content_id IS NULL
+   OR p.source_modified_time IS DISTINCT FROM t.modified_time
+   OR p.checked_at < now() - INTERVAL '30 days'
+ORDER BY p.checked_at NULLS FIRST, t.modified_time DESC;
+
+GRANT SELECT ON public.tour_pet_index_pending TO service_role;
+
+COMMENT ON VIEW public.tour_pet_index_pending IS '반려동물 정보 재확인 대상 관광지';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 반려동물 동반 가능 관광지 인덱스 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블/뷰:';
+    RAISE NOTICE '   1. tour_pet_index (관광지별 반려동물 정보)';
+    RAISE NOTICE '   2. pet_friendly_tours (동반 가능 관광지 뷰)';
+    RAISE NOTICE '   3. tour_pet_index_pending (재확인 대상 뷰)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 인덱스 갱신:';
+    RAISE NOTICE '   npx tsx --env-file=.env.local scripts/refresh-pet-index.ts';
+END $$;
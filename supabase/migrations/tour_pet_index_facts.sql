@@ -0,0 +1,84 @@
+-- =====================================================
+-- 마이그레이션: 반려동물 동반 정보 구조화 컬럼 (tour_pet_index)
+-- 작성일: 2025-11-23
+-- 설명: detailPetTour2 자유 텍스트를 해석한 결과(lib/utils/pet-info-parser.ts)를 인덱스에 저장
+--       - 크기/종류/실내·실외 필터가 텍스트 검색 대신 구조화 컬럼을 사용
+--       - 파서 규칙이 바뀌면(parser_version) 인덱스 갱신 작업이 저장된 pet_info를 다시 해석
+--       - tour_pet_index.sql 이후에 실행
+-- =====================================================
+
+-- =====================================================
+-- tour_pet_index 구조화 컬럼 추가
+-- =====================================================
+-- 필터 컬럼에는 신뢰도가 충분한 값만 저장 (불확실하면 빈 배열 또는 NULL)
+
+ALTER TABLE public.tour_pet_index
+    ADD COLUMN IF NOT EXISTS pet_facts JSONB,  -- 구조화 결과 전체 (항목별 값/신뢰도/근거)
+    ADD COLUMN IF NOT EXISTS allowed_sizes TEXT[] NOT NULL DEFAULT '{}',  -- 동반 가능 크기 (small, medium, large)
+    ADD COLUMN IF NOT EXISTS allowed_species TEXT[] NOT NULL DEFAULT '{}',  -- 동반 가능 종류 (dog, cat)
+    ADD COLUMN IF NOT EXISTS indoor_allowed BOOLEAN,  -- 실내 동반 가능 여부 (불확실하면 NULL)
+    ADD COLUMN IF NOT EXISTS outdoor_allowed BOOLEAN,  -- 실외 동반 가능 여부 (불확실하면 NULL)
+    ADD COLUMN IF NOT EXISTS parser_version INTEGER NOT NULL DEFAULT 0;  -- 해석에 사용한 파서 버전
+
+-- 인덱스 생성 (크기/종류 필터, 재해석 대상 조회)
+CREATE INDEX IF NOT EXISTS idx_tour_pet_index_allowed_sizes ON public.tour_pet_index USING GIN (allowed_sizes);
+CREATE INDEX IF NOT EXISTS idx_tour_pet_index_allowed_species ON public.tour_pet_index USING GIN (allowed_species);
+CREATE INDEX IF NOT EXISTS idx_tour_pet_index_parser_version ON public.tour_pet_index(parser_version);
+
+-- 컬럼 설명
+COMMENT ON COLUMN public.tour_pet_index.pet_facts IS '반려동물 동반 정보 구조화 결과 (항목별 값/신뢰도/근거)';
+COMMENT ON COLUMN public.tour_pet_index.allowed_sizes IS '동반 가능 크기 (신뢰도가 충분한 값만)';
+COMMENT ON COLUMN public.tour_pet_index.allowed_species IS '동반 가능 종류 (신뢰도가 충분한 값만)';
+COMMENT ON COLUMN public.tour_pet_index.parser_version IS '해석에 사용한 파서 버전 (낮으면 재해석)';
+
+-- =====================================================
+-- pet_friendly_tours 뷰에 구조화 컬럼 추가
+-- =====================================================
+-- CREATE OR REPLACE VIEW는 기존 컬럼 뒤에 새 컬럼을 추가하는 것만 허용
+
+CREATE OR REPLACE VIEW public.pet_friendly_tours AS
+SELECT
+    t.content_id,
+    t.content_type_id,
+    t.title,
+    t.addr1,
+    t.addr2,
+    t.area_code,
+    t.sigungu_code,
+    t.cat1,
+    t.cat2,
+    t.cat3,
+    t.mapx,
+    t.mapy,
+    t.first_image,
+    t.first_image2,
+    t.tel,
+    t.modified_time,
+    p.pet_info,
+    p.acmpy_type_cd,
+    p.acmpy_psbl_cpam,
+    p.acmpy_need_mtr,
+    p.etc_acmpy_info,
+    p.checked_at,
+    p.pet_facts,
+    p.allowed_sizes,
+    p.allowed_species,
+    p.indoor_allowed,
+    p.outdoor_allowed
+FROM public.tour_pet_index p
+JOIN public.tours t ON t.content_id = p.content_id
+WHERE p.pet_friendly;
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 반려동물 동반 정보 구조화 컬럼 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 추가된 컬럼 (tour_pet_index, pet_friendly_tours):';
+    RAISE NOTICE '   pet_facts, allowed_sizes, allowed_species, indoor_allowed, outdoor_allowed';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 기존 인덱스 재해석 (API 호출 없이 저장된 pet_info 사용):';
+    RAISE NOTICE '   npx tsx --env-file=.env.local scripts/refresh-pet-index.ts';
+END $$;
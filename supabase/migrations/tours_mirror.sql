@@ -0,0 +1,134 @@
+-- =====================================================
+-- 마이그레이션: 관광지 카탈로그 미러 (tours, tour_sync_runs)
+-- 작성일: 2025-11-20
+-- 설명: 한국관광공사 API 관광지 목록을 Supabase에 복제
+--       - 최초 전체 가져오기 후 areaBasedSyncList2 + modifiedtime으로 증분 동기화
+--       - 상세 정보(개요, 소개 정보, 이미지)는 JSON으로 함께 저장
+--       - 동기화 실행 기록 (tour_sync_runs)
+--       - RLS 비활성화 (개발 환경)
+-- =====================================================
+
+-- 제목 부분 일치 검색(ILIKE)용 트라이그램 인덱스
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- tours 테이블 (관광지 카탈로그 미러)
+-- =====================================================
+-- 국문 서비스(KorService2) 관광지 목록 항목을 contentid 기준으로 저장
+-- 목록 필드는 동기화마다 갱신하고, 상세 필드는 수정일이 바뀐 관광지만 다시 조회
+
+CREATE TABLE IF NOT EXISTS public.tours (
+    content_id TEXT PRIMARY KEY,  -- 한국관광공사 API의 contentid
+    content_type_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    addr1 TEXT NOT NULL DEFAULT '',
+    addr2 TEXT,
+    area_code TEXT NOT NULL DEFAULT '',
+    sigungu_code TEXT,
+    cat1 TEXT,
+    cat2 TEXT,
+    cat3 TEXT,
+    mapx DOUBLE PRECISION NOT NULL,  -- 경도 (API mapx)
+    mapy DOUBLE PRECISION NOT NULL,  -- 위도 (API mapy)
+    first_image TEXT,
+    first_image2 TEXT,
+    tel TEXT,
+    created_time TEXT,  -- API 등록일 (YYYYMMDDhhmmss)
+    modified_time TEXT NOT NULL DEFAULT '',  -- API 수정일 (YYYYMMDDhhmmss)
+
+    -- 상세 정보 (detailCommon2, detailIntro2, detailImage2)
+    zipcode TEXT,
+    homepage TEXT,
+    overview TEXT,
+    intro JSONB,  -- detailIntro2 응답 항목
+    images JSONB,  -- detailImage2 응답 항목 배열
+    detail_synced_at TIMESTAMP WITH TIME ZONE,  -- NULL이면 상세 정보 재조회 필요
+
+    synced_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tours OWNER TO postgres;
+
+-- 인덱스 생성 (목록 필터/검색/동기화 최적화)
+CREATE INDEX IF NOT EXISTS idx_tours_area ON public.tours(area_code, sigungu_code);
+CREATE INDEX IF NOT EXISTS idx_tours_content_type_id ON public.tours(content_type_id);
+CREATE INDEX IF NOT EXISTS idx_tours_category ON public.tours(cat1, cat2, cat3);
+CREATE INDEX IF NOT EXISTS idx_tours_modified_time ON public.tours(modified_time DESC);
+CREATE INDEX IF NOT EXISTS idx_tours_title_trgm ON public.tours USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tours_detail_pending ON public.tours(modified_time DESC) WHERE detail_synced_at IS NULL;
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tours DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (카탈로그는 읽기 전용으로 공개, 쓰기는 동기화 작업만)
+GRANT SELECT ON TABLE public.tours TO anon;
+GRANT SELECT ON TABLE public.tours TO authenticated;
+GRANT ALL ON TABLE public.tours TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tours IS '한국관광공사 API 관광지 카탈로그 미러 (국문)';
+COMMENT ON COLUMN public.tours.content_id IS '한국관광공사 API contentid (예: 125266)';
+COMMENT ON COLUMN public.tours.modified_time IS 'API 수정일 (YYYYMMDDhhmmss), 증분 동기화 기준';
+COMMENT ON COLUMN public.tours.intro IS 'detailIntro2 응답 항목 (타입별 필드 포함)';
+COMMENT ON COLUMN public.tours.images IS 'detailImage2 응답 항목 배열';
+COMMENT ON COLUMN public.tours.detail_synced_at IS '상세 정보 동기화 시각 (NULL이면 재조회 대상)';
+
+-- =====================================================
+-- tour_sync_runs 테이블 (동기화 실행 기록)
+-- =====================================================
+-- 전체/증분 동기화 실행마다 한 행을 기록
+-- 증분 동기화는 마지막으로 성공한 실행의 max_modified_time부터 이어서 조회
+
+CREATE TABLE IF NOT EXISTS public.tour_sync_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    mode TEXT NOT NULL CHECK (mode IN ('full', 'incremental')),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+    trigger TEXT NOT NULL DEFAULT 'cli',  -- 실행 주체 (cli, api)
+    since_modified_time TEXT,  -- 증분 동기화 시작 기준 수정일
+    max_modified_time TEXT,  -- 이번 실행에서 반영한 최신 수정일
+    fetched_count INTEGER NOT NULL DEFAULT 0,  -- API에서 받은 항목 수
+    upserted_count INTEGER NOT NULL DEFAULT 0,  -- 추가/갱신한 관광지 수
+    deleted_count INTEGER NOT NULL DEFAULT 0,  -- 삭제(비공개 전환)한 관광지 수
+    detail_count INTEGER NOT NULL DEFAULT 0,  -- 상세 정보를 갱신한 관광지 수
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.tour_sync_runs OWNER TO postgres;
+
+-- 인덱스 생성 (마지막 성공 실행 조회)
+CREATE INDEX IF NOT EXISTS idx_tour_sync_runs_status_started_at ON public.tour_sync_runs(status, started_at DESC);
+
+-- 진행 중인 실행은 하나만 허용 (동시에 시작한 실행은 기록 생성 단계에서 23505로 실패)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tour_sync_runs_single_running ON public.tour_sync_runs(status) WHERE status = 'running';
+
+-- Row Level Security (RLS) 비활성화
+ALTER TABLE public.tour_sync_runs DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여 (동기화 기록은 서버에서만 사용)
+GRANT ALL ON TABLE public.tour_sync_runs TO service_role;
+
+-- 테이블 설명
+COMMENT ON TABLE public.tour_sync_runs IS '관광지 카탈로그 동기화 실행 기록';
+COMMENT ON COLUMN public.tour_sync_runs.mode IS 'full: 전체 가져오기, incremental: 수정일 기준 증분 동기화';
+COMMENT ON COLUMN public.tour_sync_runs.max_modified_time IS '반영한 최신 수정일 (다음 증분 동기화 기준)';
+
+-- =====================================================
+-- 완료 메시지
+-- =====================================================
+DO $$
+BEGIN
+    RAISE NOTICE '✅ 관광지 카탈로그 미러 마이그레이션 완료!';
+    RAISE NOTICE '';
+    RAISE NOTICE '📊 생성된 테이블:';
+    RAISE NOTICE '   1. tours (관광지 카탈로그 미러)';
+    RAISE NOTICE '   2. tour_sync_runs (동기화 실행 기록)';
+    RAISE NOTICE '';
+    RAISE NOTICE '🚀 동기화 실행:';
+    RAISE NOTICE '   npx tsx scripts/sync-tours.ts --full';
+    RAISE NOTICE '   npx tsx scripts/sync-tours.ts';
+END $$;